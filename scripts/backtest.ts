@@ -0,0 +1,62 @@
+import fs from 'fs';
+import { loadConfig } from '../src/lib/bot/config';
+import { runBacktest } from '../src/lib/backtest/backtester';
+
+// Usage: npm run backtest -- [--days 7] [--from 2025-01-01] [--to 2025-01-08] [--symbols BTCUSDT,ETHUSDT] [--balance 10000] [--output backtest-results.json]
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const config = await loadConfig();
+
+  const to = getArg('to') ? new Date(getArg('to')!).getTime() : Date.now();
+  const from = getArg('from')
+    ? new Date(getArg('from')!).getTime()
+    : to - parseFloat(getArg('days') || '7') * 24 * 60 * 60 * 1000;
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from >= to) {
+    throw new Error('Invalid backtest period - use --from/--to dates or --days');
+  }
+
+  const result = await runBacktest(config, {
+    startTime: from,
+    endTime: to,
+    symbols: getArg('symbols')?.split(',').map(symbol => symbol.trim().toUpperCase()),
+    startingBalance: getArg('balance') ? parseFloat(getArg('balance')!) : undefined,
+  });
+
+  const { summary, metrics } = result;
+  console.log(`\n📊 Backtest ${new Date(summary.startTime).toISOString()} → ${new Date(summary.endTime).toISOString()}`);
+  console.log(`   Liquidations: ${summary.liquidations}, signals: ${summary.signals}, trades: ${summary.totalTrades}`);
+  console.log(`   Net PnL: ${summary.netPnl.toFixed(2)} USDT (${summary.returnPercent.toFixed(2)}%), win rate: ${summary.winRate.toFixed(1)}%`);
+  console.log(`   Fees: ${summary.fees.toFixed(2)} USDT, slippage: ${summary.slippage.toFixed(2)} USDT`);
+  console.log(`   Sharpe: ${metrics.sharpeRatio.toFixed(2)}, max drawdown: ${summary.maxDrawdownPercent.toFixed(2)}%, profit factor: ${Number.isFinite(metrics.profitFactor) ? metrics.profitFactor.toFixed(2) : '∞'}`);
+  if (Object.keys(summary.blocked).length > 0) {
+    console.log(`   Blocked signals: ${Object.entries(summary.blocked).map(([reason, count]) => `${reason}=${count}`).join(', ')}`);
+  }
+
+  const bySymbol = new Map<string, { trades: number; pnl: number }>();
+  for (const trade of result.trades) {
+    const stats = bySymbol.get(trade.symbol) || { trades: 0, pnl: 0 };
+    stats.trades++;
+    stats.pnl += trade.netPnl;
+    bySymbol.set(trade.symbol, stats);
+  }
+  for (const [symbol, stats] of bySymbol) {
+    console.log(`   ${symbol}: ${stats.trades} trades, ${stats.pnl.toFixed(2)} USDT`);
+  }
+
+  const output = getArg('output');
+  if (output) {
+    fs.writeFileSync(output, JSON.stringify(result, null, 2));
+    console.log(`\n💾 Results written to ${output}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Backtest failed:', error);
+    process.exit(1);
+  });
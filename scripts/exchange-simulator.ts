@@ -0,0 +1,51 @@
+import { ExchangeSimulator } from '../src/lib/simulator/exchangeSimulator';
+import { loadPricePathScript, generateOscillatingPath, PricePathScript } from '../src/lib/simulator/pricePath';
+import { DEFAULT_SIMULATOR_PORT } from '../src/lib/api/endpoints';
+
+// Usage: npm run sim:server -- [--script path/to/path.json] [--port 4100] [--step-ms 1000] [--hedge]
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+async function runSimulator() {
+  const stepMs = parseInt(getArg('step-ms') || '1000');
+  const scriptPath = getArg('script');
+  const script: PricePathScript = scriptPath
+    ? loadPricePathScript(scriptPath)
+    : {
+        stepIntervalMs: stepMs,
+        loop: true,
+        symbols: {
+          BTCUSDT: { prices: generateOscillatingPath(60000, 3600, 1, 300), tickSize: '0.1' },
+          ETHUSDT: { prices: generateOscillatingPath(3000, 3600, 1.5, 240) },
+        },
+      };
+
+  const simulator = new ExchangeSimulator({
+    script,
+    port: parseInt(getArg('port') || String(DEFAULT_SIMULATOR_PORT)),
+    stepMs,
+    dualSidePosition: process.argv.includes('--hedge'),
+  });
+
+  const { restUrl, wsUrl } = await simulator.start();
+  console.log(`🧪 Exchange simulator running`);
+  console.log(`   REST: ${restUrl}`);
+  console.log(`   WS:   ${wsUrl}`);
+  console.log(`   Symbols: ${simulator.path.getSymbols().join(', ')}`);
+
+  simulator.on('complete', () => console.log('✅ Price path complete'));
+
+  const shutdown = async () => {
+    await simulator.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+runSimulator().catch(error => {
+  console.error('Failed to start exchange simulator:', error);
+  process.exit(1);
+});
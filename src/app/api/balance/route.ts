@@ -40,18 +40,18 @@ export const GET = withAuth(async (request: NextRequest, _user) => {
     // If in paper mode, calculate balance from paper trades
     if (config.global.paperMode) {
       try {
-        const { paperTradeDb } = await import('@/lib/db/paperTradeDb');
-        const { db } = await import('@/lib/db/database');
+        const { paperTradeDb, DEFAULT_PAPER_ACCOUNT } = await import('@/lib/db/paperTradeDb');
+        const { paperAccountDb } = await import('@/lib/db/paperAccountDb');
+        const account = config.global.paperAccount || DEFAULT_PAPER_ACCOUNT;
 
-        // Get starting balance and realized P&L from balance state
+        // Get starting balance and realized P&L from the active paper account
         let startingBalance = 10000;
         let realizedPnL = 0;
 
         try {
-          const balanceState = await db.get<{
-            starting_balance: number;
-            realized_pnl: number;
-          }>('SELECT * FROM paper_balance_state WHERE id = 1');
+          const balanceState = account === DEFAULT_PAPER_ACCOUNT
+            ? await paperAccountDb.ensureDefaultAccount()
+            : await paperAccountDb.getAccount(account);
 
           if (balanceState) {
             startingBalance = balanceState.starting_balance;
@@ -62,7 +62,7 @@ export const GET = withAuth(async (request: NextRequest, _user) => {
         }
 
         // Get open trades to calculate used margin and unrealized P&L
-        const openTrades = await paperTradeDb.getTrades({ status: 'open' });
+        const openTrades = await paperTradeDb.getTrades({ status: 'open', account });
 
         let usedMargin = 0;
         let unrealizedPnL = 0;
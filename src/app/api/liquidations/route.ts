@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { liquidationStorage } from '@/lib/services/liquidationStorage';
 import axios from 'axios';
-
-const BASE_URL = 'https://fapi.asterdex.com';
+import { loadConfig } from '@/lib/bot/config';
+import { resolveExchangeEndpoints } from '@/lib/api/endpoints';
 
 interface CandleData {
   time: number;
@@ -46,7 +46,8 @@ export async function GET(request: NextRequest) {
     // Fetch candle data from exchange
     let candleData: CandleData[] = [];
     try {
-      const klineResponse = await axios.get(`${BASE_URL}/fapi/v1/klines`, {
+      const { restBaseUrl } = resolveExchangeEndpoints((await loadConfig()).global);
+      const klineResponse = await axios.get(`${restBaseUrl}/fapi/v1/klines`, {
         params: {
           symbol,
           interval,
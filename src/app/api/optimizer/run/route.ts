@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withAuth } from '@/lib/auth/with-auth';
-import { startOptimization } from '@/lib/services/optimizerService';
+import { startOptimization, WALK_FORWARD_HISTORY_DAYS } from '@/lib/services/optimizerService';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -14,7 +14,8 @@ export const dynamic = 'force-dynamic';
  * {
  *   weights: { pnl: 50, sharpe: 30, drawdown: 20 },
  *   capitalAllocation?: number,
- *   symbols?: string[]
+ *   symbols?: string[],
+ *   walkForward?: { enabled: boolean, trainDays?: number, testDays?: number }
  * }
  * 
  * Response:
@@ -80,11 +81,31 @@ export const POST = withAuth(async (request: NextRequest) => {
       );
     }
 
+    // Validate walk-forward settings if provided
+    if (body.walkForward !== undefined) {
+      const { enabled, trainDays, testDays } = body.walkForward ?? {};
+      const isValidDays = (days: unknown) =>
+        days === undefined || (typeof days === 'number' && Number.isInteger(days) && days > 0);
+      if (typeof enabled !== 'boolean' || !isValidDays(trainDays) || !isValidDays(testDays)) {
+        return NextResponse.json(
+          { success: false, error: 'Walk-forward needs an enabled flag and whole positive train/test days' },
+          { status: 400 }
+        );
+      }
+      if ((trainDays ?? 0) + (testDays ?? 0) > WALK_FORWARD_HISTORY_DAYS) {
+        return NextResponse.json(
+          { success: false, error: `Walk-forward train and test days must fit in ${WALK_FORWARD_HISTORY_DAYS} days of history` },
+          { status: 400 }
+        );
+      }
+    }
+
     // Start optimization job
     const jobId = await startOptimization({
       weights: { pnl, sharpe, drawdown },
       capitalAllocation: body.capitalAllocation,
       symbols: body.symbols,
+      walkForward: body.walkForward,
     });
 
     return NextResponse.json({
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { paperAccountService } from '@/lib/services/paperAccountService';
+import { withAuth } from '@/lib/auth/with-auth';
+
+async function handler(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  // Comma-separated account names, all accounts when omitted
+  const accounts = searchParams.get('accounts')?.split(',').map(name => name.trim()).filter(Boolean);
+
+  try {
+    const comparison = await paperAccountService.compareAccounts(accounts?.length ? accounts : undefined);
+    return NextResponse.json(comparison);
+  } catch (error: any) {
+    console.error('Error comparing paper accounts:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare paper accounts', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withAuth(handler);
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { paperAccountService, PaperAccountError } from '@/lib/services/paperAccountService';
+import { withAuth } from '@/lib/auth/with-auth';
+
+// Clear a paper account's trades and restore its starting balance
+async function handler(req: NextRequest) {
+  try {
+    const body = await req.json();
+
+    if (!body.name) {
+      return NextResponse.json(
+        { error: 'Missing required field: name' },
+        { status: 400 }
+      );
+    }
+
+    const account = await paperAccountService.resetAccount(body.name, body.startingBalance);
+
+    return NextResponse.json({
+      success: true,
+      account,
+      message: `Paper account "${account.name}" reset`
+    });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to reset paper account' },
+      { status: error instanceof PaperAccountError ? error.status : 500 }
+    );
+  }
+}
+
+export const POST = withAuth(handler);
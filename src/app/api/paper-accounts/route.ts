@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { paperAccountService, PaperAccountError } from '@/lib/services/paperAccountService';
+import { withAuth } from '@/lib/auth/with-auth';
+
+async function handler(req: NextRequest) {
+  if (req.method === 'GET') {
+    // List paper accounts with their balances
+    try {
+      const accounts = await paperAccountService.listAccounts();
+      return NextResponse.json(accounts);
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message || 'Failed to fetch paper accounts' },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (req.method === 'POST') {
+    // Create a paper account from the current config
+    try {
+      const body = await req.json();
+
+      if (!body.name) {
+        return NextResponse.json(
+          { error: 'Missing required field: name' },
+          { status: 400 }
+        );
+      }
+
+      const account = await paperAccountService.createAccount(body.name, body.startingBalance);
+
+      return NextResponse.json({
+        success: true,
+        account,
+        message: `Paper account "${account.name}" created`
+      });
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: error.message || 'Failed to create paper account' },
+        { status: error instanceof PaperAccountError ? error.status : 500 }
+      );
+    }
+  }
+
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  );
+}
+
+export const GET = withAuth(handler);
+export const POST = withAuth(handler);
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { paperAccountService, PaperAccountError } from '@/lib/services/paperAccountService';
+import { withAuth } from '@/lib/auth/with-auth';
+
+// Make another paper account the active one - the bot picks it up on config reload
+async function handler(req: NextRequest) {
+  try {
+    const body = await req.json();
+
+    if (!body.name) {
+      return NextResponse.json(
+        { error: 'Missing required field: name' },
+        { status: 400 }
+      );
+    }
+
+    const account = await paperAccountService.switchAccount(body.name);
+
+    return NextResponse.json({
+      success: true,
+      account,
+      message: `Switched to paper account "${account.name}"`
+    });
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || 'Failed to switch paper account' },
+      { status: error instanceof PaperAccountError ? error.status : 500 }
+    );
+  }
+}
+
+export const POST = withAuth(handler);
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { paperTradeDb } from '@/lib/db/paperTradeDb';
+import { loadConfig } from '@/lib/bot/config';
+import { getActivePaperAccount } from '@/lib/services/paperAccountService';
 import { withAuth } from '@/lib/auth/with-auth';
 
 async function handler(request: NextRequest) {
@@ -10,9 +12,12 @@ async function handler(request: NextRequest) {
   const offset = searchParams.get('offset') ? parseInt(searchParams.get('offset')!) : 0;
 
   try {
+    // Defaults to the active paper account
+    const account = searchParams.get('account') || getActivePaperAccount(await loadConfig());
     const trades = await paperTradeDb.getTrades({
       symbol,
       status,
+      account,
       limit,
       offset,
     });
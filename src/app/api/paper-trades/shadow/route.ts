@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { paperTradeDb, SHADOW_PAPER_ACCOUNT } from '@/lib/db/paperTradeDb';
+import { liveTradeDb } from '@/lib/db/liveTradeDb';
+import { loadConfig } from '@/lib/bot/config';
+import { getActivePaperAccount } from '@/lib/services/paperAccountService';
+import { withAuth } from '@/lib/auth/with-auth';
+
+interface StrategyPerformance {
+  trades: number;
+  openTrades: number;
+  winningTrades: number;
+  winRate: number;
+  totalPnL: number;
+  avgPnL: number;
+}
+
+function summarize(trades: Array<{ status: string; pnl?: number }>): StrategyPerformance {
+  const closed = trades.filter(t => t.status === 'closed');
+  const winningTrades = closed.filter(t => (t.pnl || 0) > 0).length;
+  const totalPnL = closed.reduce((sum, t) => sum + (t.pnl || 0), 0);
+
+  return {
+    trades: closed.length,
+    openTrades: trades.length - closed.length,
+    winningTrades,
+    winRate: closed.length > 0 ? (winningTrades / closed.length) * 100 : 0,
+    totalPnL,
+    avgPnL: closed.length > 0 ? totalPnL / closed.length : 0,
+  };
+}
+
+// Live vs shadow strategy performance over the period the shadow has been trading
+async function handler(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const config = await loadConfig();
+    const shadowTrades = await paperTradeDb.getTrades({ account: SHADOW_PAPER_ACCOUNT });
+    const firstShadowTrade = shadowTrades.length > 0
+      ? Math.min(...shadowTrades.map(t => t.opened_at))
+      : Date.now();
+    const startDate = searchParams.get('startDate') ? parseInt(searchParams.get('startDate')!) : firstShadowTrade;
+
+    // The live side is the active paper account while the bot itself paper trades
+    const liveTrades = config.global.paperMode
+      ? (await paperTradeDb.getTrades({ account: getActivePaperAccount(config) })).filter(t => t.opened_at >= startDate)
+      : await liveTradeDb.getTrades({ startDate });
+
+    return NextResponse.json({
+      enabled: config.global.shadowMode?.enabled ?? false,
+      startDate,
+      live: summarize(liveTrades),
+      shadow: summarize(shadowTrades.filter(t => t.opened_at >= startDate)),
+    });
+  } catch (error: any) {
+    console.error('Error fetching shadow mode performance:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch shadow mode performance', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withAuth(handler);
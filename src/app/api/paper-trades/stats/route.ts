@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { paperTradeDb } from '@/lib/db/paperTradeDb';
+import { loadConfig } from '@/lib/bot/config';
+import { getActivePaperAccount } from '@/lib/services/paperAccountService';
 import { withAuth } from '@/lib/auth/with-auth';
 
 async function handler(request: NextRequest) {
@@ -9,8 +11,11 @@ async function handler(request: NextRequest) {
   const endDate = searchParams.get('endDate') ? parseInt(searchParams.get('endDate')!) : undefined;
 
   try {
+    // Defaults to the active paper account
+    const account = searchParams.get('account') || getActivePaperAccount(await loadConfig());
     const stats = await paperTradeDb.getStats({
       symbol,
+      account,
       startDate,
       endDate,
     });
@@ -1,7 +1,7 @@
 import { NextResponse } from 'next/server';
 import axios from 'axios';
-
-const BASE_URL = 'https://fapi.asterdex.com';
+import { loadConfig } from '@/lib/bot/config';
+import { resolveExchangeEndpoints } from '@/lib/api/endpoints';
 
 interface SymbolDetails {
   symbol: string;
@@ -20,11 +20,12 @@ export async function GET(
 ) {
   try {
     const { symbol } = await params;
+    const { restBaseUrl } = resolveExchangeEndpoints((await loadConfig()).global);
 
     // Fetch both exchange info and current price in parallel
     const [exchangeInfoResponse, priceResponse] = await Promise.all([
-      axios.get(`${BASE_URL}/fapi/v1/exchangeInfo`),
-      axios.get(`${BASE_URL}/fapi/v1/ticker/price?symbol=${symbol}`)
+      axios.get(`${restBaseUrl}/fapi/v1/exchangeInfo`),
+      axios.get(`${restBaseUrl}/fapi/v1/ticker/price?symbol=${symbol}`)
     ]);
 
     // Find the symbol info
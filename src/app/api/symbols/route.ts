@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import axios from 'axios';
+import { loadConfig } from '@/lib/bot/config';
+import { resolveExchangeEndpoints } from '@/lib/api/endpoints';
 
 interface ExchangeSymbol {
   symbol: string;
@@ -8,8 +10,9 @@ interface ExchangeSymbol {
 
 export async function GET() {
   try {
-    // Fetch exchange info from Aster Finance
-    const response = await axios.get('https://fapi.asterdex.com/fapi/v1/exchangeInfo');
+    // Fetch exchange info from the configured exchange host
+    const { restBaseUrl } = resolveExchangeEndpoints((await loadConfig()).global);
+    const response = await axios.get(`${restBaseUrl}/fapi/v1/exchangeInfo`);
 
     const symbols: ExchangeSymbol[] = [];
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { thresholdMonitor } from '@/lib/services/thresholdMonitor';
+import { adaptiveThresholds } from '@/lib/services/adaptiveThresholds';
 import { loadConfig } from '@/lib/bot/config';
 
 // GET /api/thresholds - Get current threshold statuses
@@ -11,6 +12,9 @@ export async function GET(_request: NextRequest) {
       const currentConfig = await loadConfig();
       console.log('API: Config loaded, symbols:', Object.keys(currentConfig?.symbols || {}));
       if (currentConfig) {
+        // Adaptive thresholds are read from the liquidations table, refresh them before the monitor picks them up
+        adaptiveThresholds.updateConfig(currentConfig);
+        await adaptiveThresholds.refreshIfStale();
         thresholdMonitor.updateConfig(currentConfig);
         configLoaded = true;
         console.log('API: Threshold monitor updated with config');
@@ -25,6 +29,7 @@ export async function GET(_request: NextRequest) {
     return NextResponse.json({
       success: true,
       data: thresholdStatuses,
+      effectiveThresholds: adaptiveThresholds.getEffectiveThresholds(),
       debug: {
         configLoaded,
         statusCount: thresholdStatuses.length
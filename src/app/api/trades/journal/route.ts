@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { liveTradeDb } from '@/lib/db/liveTradeDb';
+import { withAuth } from '@/lib/auth/with-auth';
+
+async function handler(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const symbol = searchParams.get('symbol') || undefined;
+  const status = searchParams.get('status') as 'open' | 'closed' | undefined;
+  const closeReason = searchParams.get('closeReason') || undefined;
+  const startDate = searchParams.get('startDate') ? parseInt(searchParams.get('startDate')!) : undefined;
+  const endDate = searchParams.get('endDate') ? parseInt(searchParams.get('endDate')!) : undefined;
+  const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : 100;
+  const offset = searchParams.get('offset') ? parseInt(searchParams.get('offset')!) : 0;
+
+  try {
+    const trades = await liveTradeDb.getTrades({
+      symbol,
+      status,
+      closeReason,
+      startDate,
+      endDate,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json(trades);
+  } catch (error: any) {
+    console.error('Error fetching trade journal:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trade journal', message: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withAuth(handler);
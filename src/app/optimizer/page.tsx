@@ -4,10 +4,11 @@ import React, { useState } from 'react';
 import { DashboardLayout } from '@/components/dashboard-layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Target, TrendingUp, Zap } from 'lucide-react';
-import { OptimizerConfigPanel } from '@/components/optimizer/OptimizerConfigPanel';
+import { OptimizerConfigPanel, type WalkForwardSettings } from '@/components/optimizer/OptimizerConfigPanel';
 import { OptimizerProgressBar } from '@/components/optimizer/OptimizerProgressBar';
 import { BeforeAfterComparison } from '@/components/optimizer/BeforeAfterComparison';
 import { SymbolRecommendationsTable } from '@/components/optimizer/SymbolRecommendationsTable';
+import { WalkForwardValidation } from '@/components/optimizer/WalkForwardValidation';
 import { Button } from '@/components/ui/button';
 import { Download, CheckCircle, RotateCcw } from 'lucide-react';
 import {
@@ -39,7 +40,7 @@ export default function OptimizerPage() {
     setDrawdownWeight(drawdown);
   };
 
-  const handleStartOptimization = async (selectedSymbols: string[]) => {
+  const handleStartOptimization = async (selectedSymbols: string[], walkForward: WalkForwardSettings) => {
     setIsStarting(true);
 
     try {
@@ -59,6 +60,7 @@ export default function OptimizerPage() {
             drawdown: normalizedDrawdown,
           },
           symbols: selectedSymbols,
+          walkForward,
         }),
       });
 
@@ -263,6 +265,21 @@ export default function OptimizerPage() {
                   </CardContent>
                 </Card>
 
+                {/* Walk-Forward Validation */}
+                {results.walkForward && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Walk-Forward Validation</CardTitle>
+                      <CardDescription>
+                        Settings optimized on rolling training windows, scored on the days that followed
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <WalkForwardValidation report={results.walkForward} />
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Symbol Recommendations */}
                 {results.recommendations && results.recommendations.length > 0 && (
                   <Card>
@@ -18,6 +18,7 @@ import PositionTable from '@/components/PositionTable';
 import PnLChart from '@/components/PnLChart';
 import PerformanceCardInline from '@/components/PerformanceCardInline';
 import SessionPerformanceCard from '@/components/SessionPerformanceCard';
+import ShadowPerformanceCard from '@/components/ShadowPerformanceCard';
 import RecentOrdersTable from '@/components/RecentOrdersTable';
 import { TradeSizeWarningModal } from '@/components/TradeSizeWarningModal';
 import SymbolTicker from '@/components/SymbolTicker';
@@ -406,6 +407,14 @@ export default function DashboardPage() {
             {/* Live Session Performance */}
             <SessionPerformanceCard />
 
+            {/* Live vs Shadow Strategy */}
+            {config?.global?.shadowMode?.enabled && (
+              <>
+                <div className="w-px h-8 bg-border" />
+                <ShadowPerformanceCard />
+              </>
+            )}
+
           </div>
 
           {/* Scrolling Symbol Ticker */}
@@ -8,18 +8,28 @@ import { initializeBalanceService, stopBalanceService, getBalanceService } from
 import { initializePriceService, stopPriceService, getPriceService } from '../lib/services/priceService';
 import { initializePaperBalanceService, getPaperBalanceService } from '../lib/services/paperBalanceService';
 import { vwapStreamer } from '../lib/services/vwapStreamer';
+import { marketDataHub } from '../lib/services/marketDataHub';
 import { getPositionMode, setPositionMode } from '../lib/api/positionMode';
 import { execSync } from 'child_process';
 import { cleanupScheduler } from '../lib/services/cleanupScheduler';
 import { db } from '../lib/db/database';
 import { configManager } from '../lib/services/configManager';
 import pnlService from '../lib/services/pnlService';
+import { tradeJournal } from '../lib/services/tradeJournal';
+import type { LiveTrade } from '../lib/db/liveTradeDb';
 import { getRateLimitManager } from '../lib/api/rateLimitManager';
 import { startRateLimitLogging } from '../lib/api/rateLimitMonitor';
 import { initializeRateLimitToasts } from '../lib/api/rateLimitToasts';
 import { thresholdMonitor } from '../lib/services/thresholdMonitor';
+import { adaptiveThresholds } from '../lib/services/adaptiveThresholds';
 import { copyTradingService } from '../lib/services/copyTradingService';
 import { telegramService } from '../lib/services/telegramService';
+import { riskGuard } from '../lib/services/riskGuard';
+import { shadowTrader } from '../lib/bot/shadowMode';
+import { DEFAULT_PAPER_ACCOUNT } from '../lib/db/paperTradeDb';
+import { ExchangeSimulator } from '../lib/simulator/exchangeSimulator';
+import { startSimMode } from '../lib/simulator/simMode';
+import { configureExchangeEndpoints } from '../lib/api/endpoints';
 import { logWithTimestamp, logErrorWithTimestamp, logWarnWithTimestamp } from '../lib/utils/timestamp';
 
 // Helper function to kill all child processes (synchronous for exit handler)
@@ -45,6 +55,7 @@ class AsterBot {
   private statusBroadcaster: StatusBroadcaster;
   private isHedgeMode: boolean = false;
   private tradeSizeWarnings: any[] = [];
+  private simulator: ExchangeSimulator | null = null;
 
   constructor() {
     // Will be initialized with config port
@@ -68,6 +79,18 @@ logWithTimestamp('Bot is already running');
       this.config = await configManager.initialize();
       logWithTimestamp('✅ Configuration loaded');
 
+      // Resolve exchange hosts before anything talks to the exchange
+      const endpoints = configureExchangeEndpoints(this.config.global);
+      if (this.config.global.endpoints) {
+        logWithTimestamp(`✅ Exchange endpoints: REST ${endpoints.restBaseUrl}, market streams ${endpoints.marketStreamBaseUrl}, user stream ${endpoints.userStreamBaseUrl}`);
+      }
+
+      // Sim mode: route every exchange request and stream to a local simulator
+      if (this.config.global.simulator?.enabled) {
+        this.simulator = await startSimMode(this.config);
+        logWithTimestamp('✅ Exchange simulator started (sim mode)');
+      }
+
       // Validate trade sizes against exchange minimums
       const { validateAllTradeSizes } = await import('../lib/validation/tradeSizeValidator');
       const validationResult = await validateAllTradeSizes(this.config);
@@ -113,6 +136,15 @@ logWarnWithTimestamp('   Please set a strong password immediately at /config');
       thresholdMonitor.updateConfig(this.config);
       logWithTimestamp(`✅ Threshold monitor initialized with ${Object.keys(this.config.symbols).length} symbols`);
 
+      // Adaptive thresholds feed recomputed percentiles back into the threshold monitor
+      adaptiveThresholds.updateConfig(this.config);
+      adaptiveThresholds.on('thresholdsUpdated', () => {
+        if (this.config) {
+          thresholdMonitor.updateConfig(this.config);
+        }
+      });
+      adaptiveThresholds.start();
+
       // Initialize Rate Limit Manager with config
       const rateLimitConfig = this.config.global.rateLimit || {};
       const _rateLimitManager = getRateLimitManager(rateLimitConfig);
@@ -218,7 +250,7 @@ logErrorWithTimestamp('Failed to initialize balance service:', error);
         try {
 logWithTimestamp('Initializing paper balance service...');
           const startingBalance = 10000; // Default starting balance
-          await initializePaperBalanceService(startingBalance);
+          await initializePaperBalanceService(startingBalance, this.config.global.paperAccount);
 
           // Connect paper balance service to status broadcaster
           const paperBalanceService = getPaperBalanceService();
@@ -383,6 +415,16 @@ logErrorWithTimestamp('⚠️  VWAP streamer failed to start:', error.message);
       // Inject status broadcaster for real-time position updates
       this.positionManager.setStatusBroadcaster(this.statusBroadcaster);
 
+      this.positionManager.on('liquidationRisk', (data: any) => {
+        this.statusBroadcaster.logActivity(`Liquidation risk: ${data.symbol} ${data.side} - ${data.message}`);
+
+        if (telegramService.isEnabled()) {
+          telegramService.sendLiquidationRisk(data.symbol, data.side, data.level, data.message).catch(error => {
+logErrorWithTimestamp('⚠️  Failed to send liquidation risk notification:', error);
+          });
+        }
+      });
+
       try {
         await this.positionManager.start();
 logWithTimestamp('✅ Position Manager started');
@@ -469,6 +511,9 @@ logErrorWithTimestamp('⚠️  Telegram Bot Service failed to initialize:', erro
         }
       }
 
+      // Initialize risk kill switch before Hunter starts trading
+      await this.setupRiskGuard();
+
       // Initialize Hunter
       this.hunter = new Hunter(this.config, this.isHedgeMode);
 
@@ -497,6 +542,12 @@ logErrorWithTimestamp('⚠️  Telegram Bot Service failed to initialize:', erro
         logWithTimestamp(`🚫 Trade blocked: ${data.symbol} ${data.side} - ${data.reason}`);
         this.statusBroadcaster.broadcastTradeBlocked(data);
         this.statusBroadcaster.logActivity(`Blocked: ${data.symbol} ${data.side} - ${data.blockType}`);
+
+        if (telegramService.isEnabled()) {
+          telegramService.sendTradeBlocked(data.symbol, data.side, `${data.reason} (${data.blockType})`).catch(error => {
+logErrorWithTimestamp('⚠️  Failed to send trade blocked notification:', error);
+          });
+        }
       });
 
       // Listen for threshold updates and broadcast to UI
@@ -505,13 +556,17 @@ logErrorWithTimestamp('⚠️  Telegram Bot Service failed to initialize:', erro
       });
 
       this.hunter.on('positionOpened', async (data: any) => {
-        logWithTimestamp(`📈 Position opened: ${data.symbol} ${data.side} qty=${data.quantity}`);
+        logWithTimestamp(`📈 ${data.scaleIn ? 'Position increased' : 'Position opened'}: ${data.symbol} ${data.side} qty=${data.quantity}`);
         await this.positionManager?.onNewPosition(data);
         // Note: PositionManager now handles broadcasting position updates with full data
-        this.statusBroadcaster.logActivity(`Position opened: ${data.symbol} ${data.side}`);
-        this.statusBroadcaster.updateStatus({
-          positionsOpen: (this.statusBroadcaster as any).status.positionsOpen + 1,
-        });
+        if (data.scaleIn) {
+          this.statusBroadcaster.logActivity(`Scale-in: ${data.symbol} ${data.side}`);
+        } else {
+          this.statusBroadcaster.logActivity(`Position opened: ${data.symbol} ${data.side}`);
+          this.statusBroadcaster.updateStatus({
+            positionsOpen: (this.statusBroadcaster as any).status.positionsOpen + 1,
+          });
+        }
 
         // Subscribe to price updates for the new position's symbol
         const priceService = getPriceService();
@@ -571,6 +626,12 @@ logErrorWithTimestamp('❌ Hunter error:', error);
       await this.hunter.start();
 logWithTimestamp('✅ Liquidation Hunter started');
 
+      // Shadow strategy paper trades an alternate config on the same liquidations
+      if (this.config.global.shadowMode?.enabled) {
+        await shadowTrader.start(this.config, this.isHedgeMode, this.hunter);
+logWithTimestamp('✅ Shadow mode started');
+      }
+
       // Start the cleanup scheduler for liquidation database
       cleanupScheduler.start();
 logWithTimestamp('✅ Database cleanup scheduler started (7-day retention)');
@@ -687,13 +748,21 @@ Position Value: $${bal?.totalPositionValue.toFixed(2) || 'N/A'}
           break;
 
         case 'pause':
-          // Add pause logic here
-          await telegramService.sendCommandResponse(chatId, '⏸️ Trading paused (not implemented yet)');
+          if (riskGuard.isTradingPaused()) {
+            await telegramService.sendCommandResponse(chatId, `⏸️ Trading already paused: ${riskGuard.getState().reason}`);
+            break;
+          }
+          riskGuard.pause('Paused via Telegram');
+          await telegramService.sendCommandResponse(chatId, '⏸️ Trading paused - no new positions will be opened. Use /resume to continue.');
           break;
 
         case 'resume':
-          // Add resume logic here
-          await telegramService.sendCommandResponse(chatId, '▶️ Trading resumed (not implemented yet)');
+          if (!riskGuard.isTradingPaused()) {
+            await telegramService.sendCommandResponse(chatId, '▶️ Trading is not paused');
+            break;
+          }
+          riskGuard.resume('Resumed via Telegram');
+          await telegramService.sendCommandResponse(chatId, '▶️ Trading resumed');
           break;
 
         case 'stats':
@@ -710,6 +779,90 @@ Position Value: $${bal?.totalPositionValue.toFixed(2) || 'N/A'}
     }
   }
 
+  private async setupRiskGuard(): Promise<void> {
+    if (!this.config) return;
+
+    riskGuard.updateConfig(this.config);
+    // A pause tripped before a restart stays in force
+    await riskGuard.restore(this.config.global.paperMode ? 'paper' : 'live');
+    riskGuard.start();
+
+    if (riskGuard.isTradingPaused()) {
+      const state = riskGuard.getState();
+      this.statusBroadcaster.updateStatus({ tradingPaused: true, pauseReason: state.reason });
+      this.statusBroadcaster.logActivity(`Trading paused: ${state.reason}`);
+    }
+
+    const limits = this.config.global.riskLimits;
+    if (limits?.enabled) {
+logWithTimestamp(`🛡️  Risk limits: daily loss ${limits.maxDailyLossUSDT ?? '-'} USDT, drawdown ${limits.maxDrawdownPercent ?? '-'}%, consecutive losses ${limits.maxConsecutiveLosses ?? '-'}${limits.flattenOnBreach ? ', flatten on breach' : ''}`);
+    }
+
+    if (this.config.global.paperMode) {
+      const paperBalanceService = getPaperBalanceService();
+      if (paperBalanceService) {
+        paperBalanceService.on('position:closed', (data: { pnl: number }) => {
+          riskGuard.recordTradeResult(data.pnl);
+        });
+        paperBalanceService.on('balance:update', (balance: any) => {
+          riskGuard.updateEquity(balance.totalBalance + balance.unrealizedPnL);
+        });
+      }
+    } else {
+      // One result per closed position, net of entry and exit fees - TP ladder partials are not separate trades
+      tradeJournal.on('tradeClosed', (trade: LiveTrade) => {
+        riskGuard.recordTradeResult(trade.pnl ?? 0, trade.closed_at ?? Date.now());
+      });
+      pnlService.on('pnl_update', (data: any) => {
+        riskGuard.updateEquity(data.session.currentBalance + data.session.unrealizedPnl);
+      });
+    }
+
+    riskGuard.on('tradingPaused', async ({ state, flatten }: { state: any; flatten: boolean }) => {
+      this.statusBroadcaster.broadcast('trading_paused', state);
+      this.statusBroadcaster.updateStatus({ tradingPaused: true, pauseReason: state.reason });
+      this.statusBroadcaster.logActivity(`Trading paused: ${state.reason}`);
+
+      if (telegramService.isEnabled()) {
+        const resumeText = state.resumeAt
+          ? `Resumes automatically at ${new Date(state.resumeAt).toISOString()} or via /resume`
+          : 'Use /resume to continue';
+        telegramService.sendCustomMessage(`⛔ <b>Trading Paused</b>\n\n${state.reason}\n\n${resumeText}${flatten ? '\n\nClosing all open positions...' : ''}`).catch(error => {
+          logErrorWithTimestamp('Telegram: Error sending pause notification:', error);
+        });
+      }
+
+      if (flatten && this.positionManager) {
+        try {
+          const closed = await this.positionManager.closeAllPositions(state.reason);
+          this.statusBroadcaster.logActivity(`Kill switch closed ${closed} positions`);
+        } catch (error) {
+logErrorWithTimestamp('❌ Failed to flatten positions after risk limit breach:', error);
+          this.statusBroadcaster.broadcastTradingError(
+            'Flatten Failed',
+            'Risk limit breached but open positions could not be closed. Close them manually.',
+            {
+              component: 'AsterBot',
+              rawError: error,
+            }
+          );
+        }
+      }
+    });
+
+    riskGuard.on('tradingResumed', ({ state, reason }: { state: any; reason: string }) => {
+      this.statusBroadcaster.broadcast('trading_resumed', { ...state, reason });
+      this.statusBroadcaster.updateStatus({ tradingPaused: false, pauseReason: null });
+      this.statusBroadcaster.logActivity(`Trading resumed: ${reason}`);
+
+      if (telegramService.isEnabled()) {
+        telegramService.sendCustomMessage(`▶️ <b>Trading Resumed</b>\n\n${reason}`).catch(error => {
+          logErrorWithTimestamp('Telegram: Error sending resume notification:', error);
+        });
+      }
+    });
+  }
+
   private async handleConfigUpdate(newConfig: Config): Promise<void> {
 logWithTimestamp('🔄 Applying config update...');
 
@@ -729,6 +882,23 @@ logWithTimestamp(`⚠️  Paper Mode changed: ${oldConfig.global.paperMode} →
         this.statusBroadcaster.logActivity(`Config: Paper Mode ${newConfig.global.paperMode ? 'ENABLED' : 'DISABLED'}`);
       }
 
+      // Paper account switched from the dashboard (only allowed while flat)
+      const paperAccount = newConfig.global.paperAccount || DEFAULT_PAPER_ACCOUNT;
+      if (oldConfig && (oldConfig.global.paperAccount || DEFAULT_PAPER_ACCOUNT) !== paperAccount) {
+        await getPaperBalanceService()?.switchAccount(paperAccount);
+logWithTimestamp(`⚠️  Paper account changed to ${paperAccount}`);
+        this.statusBroadcaster.logActivity(`Config: Paper account ${paperAccount}`);
+      }
+
+      // Exchange endpoints apply to new requests now and to streams on their next reconnect.
+      // In sim mode the simulator owns the endpoints until restart.
+      if (!this.simulator &&
+          JSON.stringify(oldConfig?.global.endpoints || {}) !== JSON.stringify(newConfig.global.endpoints || {})) {
+        const endpoints = configureExchangeEndpoints(newConfig.global);
+logWithTimestamp(`⚠️  Exchange endpoints changed: REST ${endpoints.restBaseUrl}, streams reconnect to ${endpoints.marketStreamBaseUrl}`);
+        this.statusBroadcaster.logActivity('Config: Exchange endpoints updated');
+      }
+
       // Update Hunter with new config
       if (this.hunter) {
         this.hunter.updateConfig(newConfig);
@@ -736,7 +906,12 @@ logWithTimestamp('✅ Hunter config updated');
       }
 
       // Update threshold monitor with new config
+      adaptiveThresholds.updateConfig(newConfig);
       thresholdMonitor.updateConfig(newConfig);
+      riskGuard.updateConfig(newConfig);
+      adaptiveThresholds.recompute().catch(error =>
+logErrorWithTimestamp('⚠️  Adaptive threshold recompute error:', error)
+      );
 logWithTimestamp('✅ Threshold monitor config updated');
 
       // Update PositionManager with new config
@@ -745,6 +920,20 @@ logWithTimestamp('✅ Threshold monitor config updated');
 logWithTimestamp('✅ Position Manager config updated');
       }
 
+      // Start, stop or reconfigure the shadow strategy
+      if (newConfig.global.shadowMode?.enabled && this.hunter) {
+        if (shadowTrader.isRunning()) {
+          shadowTrader.updateConfig(newConfig);
+logWithTimestamp('✅ Shadow mode config updated');
+        } else {
+          await shadowTrader.start(newConfig, this.isHedgeMode, this.hunter);
+          this.statusBroadcaster.logActivity('Config: Shadow Mode ENABLED');
+        }
+      } else if (shadowTrader.isRunning()) {
+        await shadowTrader.stop();
+        this.statusBroadcaster.logActivity('Config: Shadow Mode DISABLED');
+      }
+
       // Update VWAP streamer with new symbols
       if (vwapStreamer) {
         const oldSymbols = new Set(Object.keys(oldConfig?.symbols || {}));
@@ -806,12 +995,19 @@ logErrorWithTimestamp('⚠️  Graceful shutdown timeout, forcing exit...');
 logWithTimestamp('✅ Hunter stopped');
       }
 
+      if (shadowTrader.isRunning()) {
+        await shadowTrader.stop();
+logWithTimestamp('✅ Shadow mode stopped');
+      }
+
       if (this.positionManager) {
         this.positionManager.stop();
 logWithTimestamp('✅ Position Manager stopped');
       }
 
       // Stop other services
+      riskGuard.stop();
+      adaptiveThresholds.stop();
       vwapStreamer.stop();
 logWithTimestamp('✅ VWAP streamer stopped');
 
@@ -823,6 +1019,15 @@ logWithTimestamp('✅ Balance service stopped');
       stopPriceService();
 logWithTimestamp('✅ Price service stopped');
 
+      marketDataHub.stop();
+logWithTimestamp('✅ Market data hub stopped');
+
+      if (this.simulator) {
+        await this.simulator.stop();
+        this.simulator = null;
+logWithTimestamp('✅ Exchange simulator stopped');
+      }
+
       cleanupScheduler.stop();
 logWithTimestamp('✅ Cleanup scheduler stopped');
 
@@ -3,6 +3,7 @@ import { EventEmitter } from 'events';
 import { LiquidationEvent } from '../lib/types';
 import { errorLogger } from '../lib/services/errorLogger';
 import { getRateLimitManager } from '../lib/api/rateLimitManager';
+import { marketDataHub, MarketStreamStats } from '../lib/services/marketDataHub';
 
 export interface BotStatus {
   isRunning: boolean;
@@ -14,6 +15,8 @@ export interface BotStatus {
   positionsOpen: number;
   totalPnL: number;
   errors: string[];
+  tradingPaused?: boolean;
+  pauseReason?: string | null;
   rateLimit?: {
     weight: number;
     orders: number;
@@ -21,6 +24,10 @@ export interface BotStatus {
     orderPercent: number;
     queueLength: number;
   };
+  marketData?: {
+    connected: boolean;
+    streams: MarketStreamStats[];
+  };
 }
 
 export class StatusBroadcaster extends EventEmitter {
@@ -85,6 +92,18 @@ export class StatusBroadcaster extends EventEmitter {
                 }
                 break;
 
+              case 'pause_trading': {
+                const { riskGuard } = await import('../lib/services/riskGuard');
+                riskGuard.pause('Paused from dashboard');
+                break;
+              }
+
+              case 'resume_trading': {
+                const { riskGuard } = await import('../lib/services/riskGuard');
+                riskGuard.resume('Resumed from dashboard');
+                break;
+              }
+
               case 'ping':
                 ws.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
                 break;
@@ -114,7 +133,7 @@ export class StatusBroadcaster extends EventEmitter {
         ws.on('ping', () => ws.pong());
       });
 
-      // Update uptime every second and rate limits every 2 seconds
+      // Update uptime every second, rate limits every 2 seconds and stream stats every 5
       let counter = 0;
       this.uptimeInterval = setInterval(() => {
         if (this.status.isRunning && this.status.startTime) {
@@ -127,6 +146,11 @@ export class StatusBroadcaster extends EventEmitter {
         if (counter % 2 === 0) {
           this.updateRateLimit();
         }
+
+        // Update market data stream stats every 5 seconds
+        if (counter % 5 === 0) {
+          this.updateMarketDataStats();
+        }
       }, 1000);
 
       console.log(`📡 WebSocket server running on port ${this.port}`);
@@ -204,6 +228,15 @@ export class StatusBroadcaster extends EventEmitter {
     this._broadcast('rateLimit', this.status.rateLimit);
   }
 
+  updateMarketDataStats(): void {
+    this.status.marketData = {
+      connected: marketDataHub.isConnected(),
+      streams: marketDataHub.getStats()
+    };
+
+    this._broadcast('marketDataStats', this.status.marketData);
+  }
+
   // Public broadcast method for external use
   public broadcast(type: string, data: any): void {
     this._broadcast(type, data);
@@ -370,6 +403,8 @@ export class StatusBroadcaster extends EventEmitter {
     price: number;
     quantity: number;
     orderId?: string;
+    distancePercent?: number;  // Distance from the entry price
+    atr?: number;              // Set when the distance is ATR-scaled
   }): void {
     this._broadcast('sl_placed', {
       ...data,
@@ -383,6 +418,8 @@ export class StatusBroadcaster extends EventEmitter {
     price: number;
     quantity: number;
     orderId?: string;
+    distancePercent?: number;  // Distance from the entry price
+    atr?: number;              // Set when the distance is ATR-scaled
   }): void {
     this._broadcast('tp_placed', {
       ...data,
@@ -404,6 +441,22 @@ export class StatusBroadcaster extends EventEmitter {
     });
   }
 
+  // Broadcast when a position nears liquidation or the exchange sends a margin call
+  broadcastLiquidationRisk(data: {
+    symbol: string;
+    side: string;
+    level: string;
+    distancePercent?: number;
+    markPrice?: number;
+    liquidationPrice?: number;
+    message: string;
+  }): void {
+    this._broadcast('liquidation_risk', {
+      ...data,
+      timestamp: new Date(),
+    });
+  }
+
   // Broadcast when an order is cancelled
   broadcastOrderCancelled(data: {
     symbol: string;
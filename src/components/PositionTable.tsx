@@ -13,7 +13,7 @@ import { toast } from 'sonner';
 import websocketService from '@/lib/services/websocketService';
 import { useConfig } from '@/components/ConfigProvider';
 import { useSymbolPrecision } from '@/hooks/useSymbolPrecision';
-import dataStore from '@/lib/services/dataStore';
+import dataStore, { FundingRate } from '@/lib/services/dataStore';
 import { showApiError, showTradingError } from '@/lib/utils/errorToast';
 
 interface Position {
@@ -51,6 +51,7 @@ export default function PositionTable({
   const [realPositions, setRealPositions] = useState<Position[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [markPrices, setMarkPrices] = useState<Record<string, number>>({});
+  const [fundingRates, setFundingRates] = useState<Record<string, FundingRate>>({});
   const [vwapData, setVwapData] = useState<Record<string, VWAPData>>({});
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [closePositionModal, setClosePositionModal] = useState<{
@@ -136,19 +137,26 @@ export default function PositionTable({
         setMarkPrices(prices);
       };
 
+      const handleFundingUpdate = (rates: Record<string, FundingRate>) => {
+        setFundingRates(rates);
+      };
+
       dataStore.on('positions:update', handlePositionsUpdate);
       dataStore.on('markPrices:update', handleMarkPricesUpdate);
+      dataStore.on('funding:update', handleFundingUpdate);
 
-      // Load initial mark prices
+      // Load initial mark prices and funding
       const currentMarkPrices = dataStore.getMarkPrices();
       if (Object.keys(currentMarkPrices).length > 0) {
         setMarkPrices(currentMarkPrices);
       }
+      setFundingRates(dataStore.getFundingRates());
 
       // Clean up data store listeners
       const cleanupDataStore = () => {
         dataStore.off('positions:update', handlePositionsUpdate);
         dataStore.off('markPrices:update', handleMarkPricesUpdate);
+        dataStore.off('funding:update', handleFundingUpdate);
       };
 
       // Forward WebSocket messages to data store and handle VWAP
@@ -398,6 +406,7 @@ export default function PositionTable({
                   <TableHead className="text-xs text-right">Entry/Mark</TableHead>
                   <TableHead className="text-xs text-right">Liq. Price</TableHead>
                   <TableHead className="text-xs text-right">PnL</TableHead>
+                  <TableHead className="text-xs text-right">Funding</TableHead>
                   <TableHead className="text-xs text-center">Protection</TableHead>
                   <TableHead className="text-xs text-center">Actions</TableHead>
                 </TableRow>
@@ -412,6 +421,7 @@ export default function PositionTable({
                     <TableCell className="py-2 text-right"><Skeleton className="h-8 w-20 ml-auto" /></TableCell>
                     <TableCell className="py-2 text-right"><Skeleton className="h-8 w-20 ml-auto" /></TableCell>
                     <TableCell className="py-2 text-right"><Skeleton className="h-8 w-16 ml-auto" /></TableCell>
+                    <TableCell className="py-2 text-right"><Skeleton className="h-8 w-14 ml-auto" /></TableCell>
                     <TableCell className="py-2 text-center"><Skeleton className="h-5 w-20 mx-auto" /></TableCell>
                     <TableCell className="py-2 text-center"><Skeleton className="h-8 w-16 mx-auto" /></TableCell>
                   </TableRow>
@@ -421,6 +431,7 @@ export default function PositionTable({
               const vwap = vwapData[position.symbol];
               const symbolConfig = config?.symbols?.[position.symbol];
               const hasVwapProtection = symbolConfig?.vwapProtection;
+              const funding = fundingRates[position.symbol];
 
               return (
                 <TableRow key={key} className="h-12">
@@ -534,6 +545,26 @@ export default function PositionTable({
                       </Badge>
                     </div>
                   </TableCell>
+                  <TableCell className="text-right py-2">
+                    {funding ? (() => {
+                      // Positive funding is paid by longs, negative by shorts
+                      const pays = position.side === 'LONG' ? funding.fundingRate > 0 : funding.fundingRate < 0;
+                      const minutesToFunding = Math.max(0, Math.floor((funding.nextFundingTime - Date.now()) / 60000));
+
+                      return (
+                        <div className="flex flex-col items-end gap-0.5">
+                          <span className={`text-sm font-mono ${funding.fundingRate === 0 ? '' : pays ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                            {funding.fundingRate >= 0 ? '+' : ''}{(funding.fundingRate * 100).toFixed(4)}%
+                          </span>
+                          <div className="text-[10px] text-muted-foreground">
+                            in {Math.floor(minutesToFunding / 60)}h {minutesToFunding % 60}m
+                          </div>
+                        </div>
+                      );
+                    })() : (
+                      <span className="text-xs text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
                   <TableCell className="text-center py-2">
                     <div className="flex flex-col items-center gap-0.5">
                       <div className="flex items-center gap-0.5">
@@ -631,7 +662,7 @@ export default function PositionTable({
             })}
               {!isLoading && displayPositions.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={8} className="text-center py-6">
+                  <TableCell colSpan={9} className="text-center py-6">
                     <div className="flex flex-col items-center gap-1">
                       <span className="text-sm text-muted-foreground">No open positions</span>
                       <Badge variant="secondary" className="h-4 text-[10px] px-1.5">
@@ -0,0 +1,102 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { GitCompare } from 'lucide-react';
+
+interface StrategyPerformance {
+  trades: number;
+  openTrades: number;
+  winningTrades: number;
+  winRate: number;
+  totalPnL: number;
+  avgPnL: number;
+}
+
+interface ShadowComparison {
+  enabled: boolean;
+  startDate: number;
+  live: StrategyPerformance;
+  shadow: StrategyPerformance;
+}
+
+export default function ShadowPerformanceCard() {
+  const [comparison, setComparison] = useState<ShadowComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchComparison = async () => {
+      try {
+        const response = await fetch('/api/paper-trades/shadow');
+        if (response.ok) {
+          setComparison(await response.json());
+        }
+      } catch (error) {
+        console.error('Failed to fetch shadow performance:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchComparison();
+    const interval = setInterval(fetchComparison, 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value);
+  };
+
+  const pnlClass = (value: number) =>
+    value >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+
+  if (isLoading || !comparison) {
+    return (
+      <div className="flex items-center gap-2">
+        <GitCompare className="h-4 w-4 text-muted-foreground" />
+        <div className="flex flex-col">
+          <span className="text-xs text-muted-foreground">Live vs Shadow</span>
+          <Skeleton className="h-5 w-32" />
+        </div>
+      </div>
+    );
+  }
+
+  const { live, shadow } = comparison;
+  const shadowAhead = shadow.totalPnL > live.totalPnL;
+
+  return (
+    <div className="flex items-center gap-2">
+      <GitCompare className="h-4 w-4 text-muted-foreground" />
+      <div className="flex flex-col">
+        <div className="flex items-center gap-1.5">
+          <span className="text-xs text-muted-foreground">Live vs Shadow</span>
+          {shadow.trades > 0 && (
+            <Badge variant="secondary" className="h-3.5 text-[10px] px-1">
+              {shadowAhead ? 'Shadow ahead' : 'Live ahead'}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`text-lg font-semibold ${pnlClass(live.totalPnL)}`}>
+            {formatCurrency(live.totalPnL)}
+          </span>
+          <span className="text-xs text-muted-foreground">/</span>
+          <span className={`text-lg font-semibold ${pnlClass(shadow.totalPnL)}`}>
+            {formatCurrency(shadow.totalPnL)}
+          </span>
+          <div className="flex gap-2 text-[10px] text-muted-foreground">
+            <span>Trades: {live.trades}/{shadow.trades}</span>
+            <span>Win: {live.winRate.toFixed(0)}%/{shadow.winRate.toFixed(0)}%</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
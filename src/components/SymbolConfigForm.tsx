@@ -12,6 +12,7 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Plus,
   Trash2,
@@ -24,6 +25,10 @@ import {
   AlertCircle,
   Settings2,
   BarChart3,
+  Layers,
+  Clock,
+  Activity,
+  Timer,
   Bell,
   MessageSquare,
   Users,
@@ -125,6 +130,7 @@ export default function SymbolConfigForm({ onSave, currentConfig }: SymbolConfig
   const [loadingDetails, setLoadingDetails] = useState(false);
   const [loadingSymbols, setLoadingSymbols] = useState(false);
   const [symbolSearch, setSymbolSearch] = useState('');
+  const [newGroupName, setNewGroupName] = useState('');
   const [showSymbolPicker, setShowSymbolPicker] = useState(false);
   const [useSeparateTradeSizes, setUseSeparateTradeSizes] = useState<Record<string, boolean>>({});
   const [longTradeSizeInput, setLongTradeSizeInput] = useState<string>('');
@@ -460,6 +466,415 @@ export default function SymbolConfigForm({ onSave, currentConfig }: SymbolConfig
                 </p>
               </div>
 
+              <div className="space-y-2">
+                <Label>Position Sizing</Label>
+                <Select
+                  value={config.global.sizingMode || 'FIXED'}
+                  onValueChange={(value) => handleGlobalChange('sizingMode', value)}
+                >
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="FIXED">Fixed (per-symbol trade size)</SelectItem>
+                    <SelectItem value="RISK">Risk-based (riskPercent ÷ stop loss)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Risk-based sizing picks a quantity so that hitting the stop loss loses about the risk percentage of your balance,
+                  capped by each symbol&apos;s max margin
+                </p>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="riskLimits">Risk Limits (Kill Switch)</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Pause new entries until the next UTC day when a limit is breached
+                    </p>
+                  </div>
+                  <Switch
+                    id="riskLimits"
+                    checked={config.global.riskLimits?.enabled || false}
+                    onCheckedChange={(checked) =>
+                      handleGlobalChange('riskLimits', { ...config.global.riskLimits, enabled: checked })
+                    }
+                  />
+                </div>
+
+                {config.global.riskLimits?.enabled && (
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label>Max Daily Loss (USDT)</Label>
+                      <Input
+                        type="number"
+                        value={config.global.riskLimits?.maxDailyLossUSDT ?? ''}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          handleGlobalChange('riskLimits', { ...config.global.riskLimits, maxDailyLossUSDT: isNaN(value) ? undefined : value });
+                        }}
+                        min="0"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Max Drawdown (%)</Label>
+                      <Input
+                        type="number"
+                        value={config.global.riskLimits?.maxDrawdownPercent ?? ''}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          handleGlobalChange('riskLimits', { ...config.global.riskLimits, maxDrawdownPercent: isNaN(value) ? undefined : value });
+                        }}
+                        min="0"
+                        max="100"
+                        step="0.5"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Max Consecutive Losses</Label>
+                      <Input
+                        type="number"
+                        value={config.global.riskLimits?.maxConsecutiveLosses ?? ''}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value);
+                          handleGlobalChange('riskLimits', { ...config.global.riskLimits, maxConsecutiveLosses: isNaN(value) ? undefined : value });
+                        }}
+                        min="1"
+                      />
+                    </div>
+                    <div className="col-span-3 flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label>Close All Positions on Breach</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Market-close every open position when the kill switch trips
+                        </p>
+                      </div>
+                      <Switch
+                        checked={config.global.riskLimits?.flattenOnBreach || false}
+                        onCheckedChange={(checked) =>
+                          handleGlobalChange('riskLimits', { ...config.global.riskLimits, flattenOnBreach: checked })
+                        }
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="exposureLimits">Exposure Limits</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Block entries that would push portfolio notional past a cap (open positions at mark price)
+                    </p>
+                  </div>
+                  <Switch
+                    id="exposureLimits"
+                    checked={config.global.exposureLimits?.enabled || false}
+                    onCheckedChange={(checked) =>
+                      handleGlobalChange('exposureLimits', { ...config.global.exposureLimits, enabled: checked })
+                    }
+                  />
+                </div>
+
+                {config.global.exposureLimits?.enabled && (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Max Total Notional (USDT)</Label>
+                        <Input
+                          type="number"
+                          placeholder="No cap"
+                          value={config.global.exposureLimits?.maxTotalNotionalUSDT ?? ''}
+                          onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            handleGlobalChange('exposureLimits', { ...config.global.exposureLimits, maxTotalNotionalUSDT: isNaN(value) ? undefined : value });
+                          }}
+                          min="0"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Max Net Long/Short (USDT)</Label>
+                        <Input
+                          type="number"
+                          placeholder="No cap"
+                          value={config.global.exposureLimits?.maxNetNotionalUSDT ?? ''}
+                          onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            handleGlobalChange('exposureLimits', { ...config.global.exposureLimits, maxNetNotionalUSDT: isNaN(value) ? undefined : value });
+                          }}
+                          min="0"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>Symbol Groups</Label>
+                      {Object.entries(config.global.exposureLimits?.groups || {}).map(([name, group]) => (
+                        <div key={name} className="grid grid-cols-[1fr_2fr_1fr_auto] gap-2 items-center">
+                          <Input value={name} disabled />
+                          <Input
+                            placeholder="DOGEUSDT, 1000PEPEUSDT"
+                            value={group.symbols.join(', ')}
+                            onChange={(e) => {
+                              const symbols = e.target.value.split(',').map(symbol => symbol.trim().toUpperCase()).filter(Boolean);
+                              handleGlobalChange('exposureLimits', {
+                                ...config.global.exposureLimits,
+                                groups: { ...config.global.exposureLimits?.groups, [name]: { ...group, symbols } },
+                              });
+                            }}
+                          />
+                          <Input
+                            type="number"
+                            placeholder="Max USDT"
+                            value={group.maxNotionalUSDT}
+                            onChange={(e) => {
+                              const value = parseFloat(e.target.value);
+                              handleGlobalChange('exposureLimits', {
+                                ...config.global.exposureLimits,
+                                groups: { ...config.global.exposureLimits?.groups, [name]: { ...group, maxNotionalUSDT: isNaN(value) ? 0 : value } },
+                              });
+                            }}
+                            min="0"
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => {
+                              const { [name]: _removed, ...groups } = config.global.exposureLimits?.groups || {};
+                              handleGlobalChange('exposureLimits', { ...config.global.exposureLimits, groups });
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder="New group name, e.g. memes"
+                          value={newGroupName}
+                          onChange={(e) => setNewGroupName(e.target.value)}
+                          className="w-64"
+                        />
+                        <Button
+                          variant="outline"
+                          disabled={!newGroupName.trim() || !!config.global.exposureLimits?.groups?.[newGroupName.trim()]}
+                          onClick={() => {
+                            handleGlobalChange('exposureLimits', {
+                              ...config.global.exposureLimits,
+                              groups: { ...config.global.exposureLimits?.groups, [newGroupName.trim()]: { symbols: [], maxNotionalUSDT: 0 } },
+                            });
+                            setNewGroupName('');
+                          }}
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          Add Group
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Caps the combined notional of each group, e.g. correlated alts
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="liquidationGuard">Liquidation Guard</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Alert when a live position nears its liquidation price and deleverage it at the critical distance
+                    </p>
+                  </div>
+                  <Switch
+                    id="liquidationGuard"
+                    checked={config.global.liquidationGuard?.enabled || false}
+                    onCheckedChange={(checked) =>
+                      handleGlobalChange('liquidationGuard', { ...config.global.liquidationGuard, enabled: checked })
+                    }
+                  />
+                </div>
+
+                {config.global.liquidationGuard?.enabled && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Warning Distance (%)</Label>
+                      <Input
+                        type="number"
+                        value={config.global.liquidationGuard?.warningDistancePercent ?? 10}
+                        onChange={(e) => handleGlobalChange('liquidationGuard', { ...config.global.liquidationGuard, warningDistancePercent: parseFloat(e.target.value) || 10 })}
+                        min="0"
+                        max="100"
+                        step="0.5"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Critical Distance (%)</Label>
+                      <Input
+                        type="number"
+                        value={config.global.liquidationGuard?.criticalDistancePercent ?? 5}
+                        onChange={(e) => handleGlobalChange('liquidationGuard', { ...config.global.liquidationGuard, criticalDistancePercent: parseFloat(e.target.value) || 5 })}
+                        min="0"
+                        max="100"
+                        step="0.5"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Critical Action</Label>
+                      <Select
+                        value={config.global.liquidationGuard?.criticalAction || 'REDUCE'}
+                        onValueChange={(value) => handleGlobalChange('liquidationGuard', { ...config.global.liquidationGuard, criticalAction: value as 'ALERT' | 'REDUCE' | 'ADD_MARGIN' })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ALERT">Alert only</SelectItem>
+                          <SelectItem value="REDUCE">Reduce position</SelectItem>
+                          <SelectItem value="ADD_MARGIN">Add isolated margin</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {config.global.liquidationGuard?.criticalAction === 'ADD_MARGIN' ? (
+                      <div className="space-y-2">
+                        <Label>Max Margin Per Position (USDT)</Label>
+                        <Input
+                          type="number"
+                          value={config.global.liquidationGuard?.maxAddMarginUSDT ?? 100}
+                          onChange={(e) => handleGlobalChange('liquidationGuard', { ...config.global.liquidationGuard, maxAddMarginUSDT: parseFloat(e.target.value) || 0 })}
+                          min="0"
+                          step="10"
+                        />
+                        <p className="text-xs text-muted-foreground">Reduces once this much has been added, and for cross margin positions</p>
+                      </div>
+                    ) : config.global.liquidationGuard?.criticalAction !== 'ALERT' && (
+                      <div className="space-y-2">
+                        <Label>Reduce By (%)</Label>
+                        <Input
+                          type="number"
+                          value={config.global.liquidationGuard?.reducePercent ?? 50}
+                          onChange={(e) => handleGlobalChange('liquidationGuard', { ...config.global.liquidationGuard, reducePercent: parseFloat(e.target.value) || 50 })}
+                          min="1"
+                          max="100"
+                          step="5"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="shadowMode">Shadow Mode</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Paper trade an alternate config on the same liquidations and compare its PnL with the live strategy
+                    </p>
+                  </div>
+                  <Switch
+                    id="shadowMode"
+                    checked={config.global.shadowMode?.enabled || false}
+                    onCheckedChange={(checked) =>
+                      handleGlobalChange('shadowMode', { ...config.global.shadowMode, enabled: checked })
+                    }
+                  />
+                </div>
+
+                {config.global.shadowMode?.enabled && (
+                  <div className="space-y-2">
+                    <Label>Shadow Overrides (JSON)</Label>
+                    <Textarea
+                      key={JSON.stringify({ global: config.global.shadowMode?.global, symbols: config.global.shadowMode?.symbols })}
+                      className="font-mono text-xs min-h-[120px]"
+                      defaultValue={JSON.stringify({
+                        global: config.global.shadowMode?.global || {},
+                        symbols: config.global.shadowMode?.symbols || {},
+                      }, null, 2)}
+                      placeholder='{ "global": { "riskPercent": 2 }, "symbols": { "BTCUSDT": { "slPercent": 1.5 } } }'
+                      onBlur={(e) => {
+                        try {
+                          const overrides = JSON.parse(e.target.value || '{}');
+                          handleGlobalChange('shadowMode', {
+                            ...config.global.shadowMode,
+                            global: overrides.global,
+                            symbols: overrides.symbols,
+                          });
+                        } catch {
+                          toast.error('Shadow overrides must be valid JSON');
+                        }
+                      }}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Symbol settings and risk, sizing, position and exposure limits layered over the live config
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="orderHeartbeat">Auto-Cancel Pending Entries</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Exchange cancels unfilled entry orders if the bot stops sending heartbeats (SL/TP are not affected)
+                    </p>
+                  </div>
+                  <Switch
+                    id="orderHeartbeat"
+                    checked={config.global.orderHeartbeat?.enabled || false}
+                    onCheckedChange={(checked) =>
+                      handleGlobalChange('orderHeartbeat', { ...config.global.orderHeartbeat, enabled: checked })
+                    }
+                  />
+                </div>
+
+                {config.global.orderHeartbeat?.enabled && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Heartbeat Interval (seconds)</Label>
+                      <Input
+                        type="number"
+                        value={(config.global.orderHeartbeat?.intervalMs ?? 30000) / 1000}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          if (!isNaN(value)) {
+                            handleGlobalChange('orderHeartbeat', { ...config.global.orderHeartbeat, intervalMs: value * 1000 });
+                          }
+                        }}
+                        min="1"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Cancel After (seconds)</Label>
+                      <Input
+                        type="number"
+                        value={(config.global.orderHeartbeat?.countdownMs ?? 120000) / 1000}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          if (!isNaN(value)) {
+                            handleGlobalChange('orderHeartbeat', { ...config.global.orderHeartbeat, countdownMs: value * 1000 });
+                          }
+                        }}
+                        min="5"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
               <Separator />
 
               <div className="flex items-center justify-between">
@@ -485,6 +900,69 @@ export default function SymbolConfigForm({ onSave, currentConfig }: SymbolConfig
                 </div>
               )}
 
+              {config.global.paperMode && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="paperExchangeFees">Use Account Fee Rates</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Charge paper fills your exchange commission rates instead of the fees below (needs API keys)
+                      </p>
+                    </div>
+                    <Switch
+                      id="paperExchangeFees"
+                      checked={config.global.paperExecution?.useExchangeFees || false}
+                      onCheckedChange={(checked) =>
+                        handleGlobalChange('paperExecution', { ...config.global.paperExecution, useExchangeFees: checked })
+                      }
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Maker Fee (%)</Label>
+                      <Input
+                        type="number"
+                        value={config.global.paperExecution?.makerFeePercent ?? 0.02}
+                        onChange={(e) => handleGlobalChange('paperExecution', { ...config.global.paperExecution, makerFeePercent: parseFloat(e.target.value) || 0 })}
+                        min="0"
+                        step="0.01"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Taker Fee (%)</Label>
+                      <Input
+                        type="number"
+                        value={config.global.paperExecution?.takerFeePercent ?? 0.04}
+                        onChange={(e) => handleGlobalChange('paperExecution', { ...config.global.paperExecution, takerFeePercent: parseFloat(e.target.value) || 0 })}
+                        min="0"
+                        step="0.01"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Stop Slippage (%)</Label>
+                      <Input
+                        type="number"
+                        value={config.global.paperExecution?.stopSlippagePercent ?? 0.5}
+                        onChange={(e) => handleGlobalChange('paperExecution', { ...config.global.paperExecution, stopSlippagePercent: parseFloat(e.target.value) || 0 })}
+                        min="0"
+                        step="0.05"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Limit Order Timeout (seconds)</Label>
+                      <Input
+                        type="number"
+                        value={config.global.paperExecution?.limitTimeoutSeconds ?? 60}
+                        onChange={(e) => handleGlobalChange('paperExecution', { ...config.global.paperExecution, limitTimeoutSeconds: parseFloat(e.target.value) || 0 })}
+                        min="0"
+                        step="10"
+                      />
+                      <p className="text-xs text-muted-foreground">Unfilled paper limit entries are cancelled after this long</p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               <Separator />
 
               <div className="space-y-2">
@@ -894,6 +1372,23 @@ export default function SymbolConfigForm({ onSave, currentConfig }: SymbolConfig
                         <Label htmlFor="notifyLowBalance" className="cursor-pointer text-sm">Low Balance</Label>
                       </div>
 
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="notifyLiquidationRisk"
+                          checked={config.global.telegram?.notifications?.liquidationRisk !== false}
+                          onCheckedChange={(checked) => {
+                            handleGlobalChange('telegram', {
+                              ...config.global.telegram,
+                              notifications: {
+                                ...config.global.telegram?.notifications,
+                                liquidationRisk: checked
+                              }
+                            });
+                          }}
+                        />
+                        <Label htmlFor="notifyLiquidationRisk" className="cursor-pointer text-sm">Liquidation Risk</Label>
+                      </div>
+
                       {config.global.telegram?.notifications?.lowBalance !== false && (
                         <div className="space-y-2">
                           <Label htmlFor="lowBalanceThreshold" className="text-sm">Low Balance Threshold (USDT)</Label>
@@ -1176,7 +1671,7 @@ export default function SymbolConfigForm({ onSave, currentConfig }: SymbolConfig
                             min="0"
                           />
                           <p className="text-xs text-muted-foreground">
-                            Min liquidation volume for longs (buy on sell liquidations)
+                            Min SELL liquidation volume - buys when contrarian, sells with momentum
                           </p>
                         </div>
 
@@ -1192,10 +1687,83 @@ export default function SymbolConfigForm({ onSave, currentConfig }: SymbolConfig
                             min="0"
                           />
                           <p className="text-xs text-muted-foreground">
-                            Min liquidation volume for shorts (sell on buy liquidations)
+                            Min BUY liquidation volume - sells when contrarian, buys with momentum
                           </p>
                         </div>
 
+                        {/* Adaptive Threshold Settings */}
+                        <div className="col-span-2 space-y-4">
+                          <div className="flex items-center justify-between">
+                            <div className="space-y-0.5">
+                              <Label>Adaptive Thresholds</Label>
+                              <p className="text-xs text-muted-foreground">
+                                Set the volume thresholds from a percentile of recent liquidation sizes (the values above apply until enough data is stored)
+                              </p>
+                            </div>
+                            <Switch
+                              checked={config.symbols[selectedSymbol].adaptiveThreshold || false}
+                              onCheckedChange={(checked) =>
+                                handleSymbolChange(selectedSymbol, 'adaptiveThreshold', checked)
+                              }
+                            />
+                          </div>
+
+                          {config.symbols[selectedSymbol].adaptiveThreshold && (
+                            <div className="grid grid-cols-3 gap-4">
+                              <div className="space-y-2">
+                                <Label>Percentile</Label>
+                                <Input
+                                  type="number"
+                                  value={config.symbols[selectedSymbol].adaptivePercentile ?? 90}
+                                  onChange={(e) => {
+                                    const value = parseFloat(e.target.value);
+                                    handleSymbolChange(selectedSymbol, 'adaptivePercentile', isNaN(value) ? 90 : value);
+                                  }}
+                                  min="1"
+                                  max="99.9"
+                                  step="1"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                  Liquidation size percentile used as threshold
+                                </p>
+                              </div>
+                              <div className="space-y-2">
+                                <Label>Window (hours)</Label>
+                                <Input
+                                  type="number"
+                                  value={config.symbols[selectedSymbol].adaptiveWindowHours ?? 24}
+                                  onChange={(e) => {
+                                    const value = parseFloat(e.target.value);
+                                    handleSymbolChange(selectedSymbol, 'adaptiveWindowHours', isNaN(value) ? 24 : value);
+                                  }}
+                                  min="1"
+                                  max="720"
+                                  step="1"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                  Trailing window of stored liquidations
+                                </p>
+                              </div>
+                              <div className="space-y-2">
+                                <Label>Min Samples</Label>
+                                <Input
+                                  type="number"
+                                  value={config.symbols[selectedSymbol].adaptiveMinSamples ?? 20}
+                                  onChange={(e) => {
+                                    const value = parseInt(e.target.value);
+                                    handleSymbolChange(selectedSymbol, 'adaptiveMinSamples', isNaN(value) ? 20 : value);
+                                  }}
+                                  min="1"
+                                  step="1"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                  Liquidations per side before adapting
+                                </p>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+
                         <div className="space-y-2">
                           <Label>Leverage</Label>
                           <Input
@@ -1524,58 +2092,609 @@ export default function SymbolConfigForm({ onSave, currentConfig }: SymbolConfig
                           </p>
                         </div>
 
-                        {/* Order Type Settings */}
+                        {/* Trailing Stop Settings */}
                         <div className="col-span-2">
                           <Separator className="my-4" />
                           <div className="space-y-4">
-                            <div className="space-y-2">
-                              <Label>Order Type</Label>
-                              <Select
-                                value={config.symbols[selectedSymbol].orderType || 'LIMIT'}
-                                onValueChange={(value) =>
-                                  handleSymbolChange(selectedSymbol, 'orderType', value)
-                                }
-                              >
-                                <SelectTrigger>
-                                  <SelectValue />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  <SelectItem value="LIMIT">LIMIT Orders (Better fills)</SelectItem>
-                                  <SelectItem value="MARKET">MARKET Orders (Instant fills)</SelectItem>
-                                </SelectContent>
-                              </Select>
-                              <p className="text-xs text-muted-foreground">
-                                Default order type for opening positions
-                              </p>
-                            </div>
-
                             <div className="flex items-center justify-between">
                               <div className="space-y-0.5">
-                                <Label>Force Market Entry</Label>
-                                <p className="text-sm text-muted-foreground">
-                                  Always use MARKET orders for opening positions (overrides order type above)
+                                <Label>Trailing Stop</Label>
+                                <p className="text-xs text-muted-foreground">
+                                  Close the position when price pulls back from its best level
                                 </p>
                               </div>
                               <Switch
-                                checked={config.symbols[selectedSymbol].forceMarketEntry || false}
+                                checked={config.symbols[selectedSymbol].trailingStopEnabled || false}
                                 onCheckedChange={(checked) =>
-                                  handleSymbolChange(selectedSymbol, 'forceMarketEntry', checked)
+                                  handleSymbolChange(selectedSymbol, 'trailingStopEnabled', checked)
                                 }
                               />
                             </div>
 
-                            {config.symbols[selectedSymbol].forceMarketEntry && (
-                              <Alert>
-                                <AlertCircle className="h-4 w-4" />
-                                <AlertDescription className="text-xs">
-                                  <strong>Market Entry Forced:</strong> All opening orders will use MARKET type for instant fills,
-                                  regardless of the order type setting above. This ensures faster entry but may have higher slippage.
+                            {config.symbols[selectedSymbol].trailingStopEnabled && (
+                              <div className="grid grid-cols-3 gap-4">
+                                <div className="space-y-2">
+                                  <Label>Activation Profit (%)</Label>
+                                  <Input
+                                    type="number"
+                                    value={config.symbols[selectedSymbol].trailingActivationPercent ?? 0}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'trailingActivationPercent', isNaN(value) ? 0 : value);
+                                    }}
+                                    min="0"
+                                    step="0.1"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Profit from entry before trailing starts
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>Callback Rate (%)</Label>
+                                  <Input
+                                    type="number"
+                                    value={config.symbols[selectedSymbol].trailingCallbackRate ?? 1}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'trailingCallbackRate', isNaN(value) ? 1 : value);
+                                    }}
+                                    min="0.1"
+                                    max="5"
+                                    step="0.1"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Pullback that triggers the stop (0.1-5%)
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>Mode</Label>
+                                  <Select
+                                    value={config.symbols[selectedSymbol].trailingStopMode || 'REPLACE_TP'}
+                                    onValueChange={(value) =>
+                                      handleSymbolChange(selectedSymbol, 'trailingStopMode', value)
+                                    }
+                                  >
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="REPLACE_TP">Instead of Take Profit</SelectItem>
+                                      <SelectItem value="WITH_TP">Alongside Take Profit</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                  <p className="text-xs text-muted-foreground">
+                                    Whether the fixed TP is still placed
+                                  </p>
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                        </div>
+
+                        {/* Take Profit Ladder Settings */}
+                        <div className="col-span-2">
+                          <Separator className="my-4" />
+                          <div className="space-y-4">
+                            <div className="flex items-center justify-between">
+                              <div className="space-y-0.5">
+                                <Label>Take Profit Ladder</Label>
+                                <p className="text-xs text-muted-foreground">
+                                  Close the position in parts at several profit levels instead of a single TP
+                                </p>
+                              </div>
+                              <Switch
+                                checked={!!config.symbols[selectedSymbol].tpLevels?.length}
+                                onCheckedChange={(checked) =>
+                                  handleSymbolChange(
+                                    selectedSymbol,
+                                    'tpLevels',
+                                    checked
+                                      ? [
+                                          { percent: 1, sizePercent: 40 },
+                                          { percent: 2, sizePercent: 40 },
+                                          { percent: 4, sizePercent: 20 },
+                                        ]
+                                      : undefined
+                                  )
+                                }
+                              />
+                            </div>
+
+                            {!!config.symbols[selectedSymbol].tpLevels?.length && (
+                              <div className="space-y-3">
+                                {config.symbols[selectedSymbol].tpLevels!.map((level, index, levels) => (
+                                  <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-4 items-end">
+                                    <div className="space-y-2">
+                                      <Label>Level {index + 1} Profit (%)</Label>
+                                      <Input
+                                        type="number"
+                                        value={level.percent}
+                                        onChange={(e) => {
+                                          const value = parseFloat(e.target.value);
+                                          const updated = levels.map((l, i) => i === index ? { ...l, percent: isNaN(value) ? 0 : value } : l);
+                                          handleSymbolChange(selectedSymbol, 'tpLevels', updated);
+                                        }}
+                                        min="0.1"
+                                        step="0.1"
+                                      />
+                                    </div>
+                                    <div className="space-y-2">
+                                      <Label>{index === levels.length - 1 ? 'Size (% - rest of position)' : 'Size (% of position)'}</Label>
+                                      <Input
+                                        type="number"
+                                        value={level.sizePercent}
+                                        onChange={(e) => {
+                                          const value = parseFloat(e.target.value);
+                                          const updated = levels.map((l, i) => i === index ? { ...l, sizePercent: isNaN(value) ? 0 : value } : l);
+                                          handleSymbolChange(selectedSymbol, 'tpLevels', updated);
+                                        }}
+                                        min="1"
+                                        max="100"
+                                        step="5"
+                                      />
+                                    </div>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      disabled={levels.length <= 1}
+                                      onClick={() =>
+                                        handleSymbolChange(selectedSymbol, 'tpLevels', levels.filter((_, i) => i !== index))
+                                      }
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  </div>
+                                ))}
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={config.symbols[selectedSymbol].tpLevels!.length >= 10}
+                                  onClick={() => {
+                                    const levels = config.symbols[selectedSymbol].tpLevels!;
+                                    const last = levels[levels.length - 1];
+                                    handleSymbolChange(selectedSymbol, 'tpLevels', [
+                                      ...levels,
+                                      { percent: (last?.percent || 1) * 2, sizePercent: 20 },
+                                    ]);
+                                  }}
+                                >
+                                  <Plus className="h-4 w-4 mr-2" />
+                                  Add Level
+                                </Button>
+                                <div className="flex items-center justify-between">
+                                  <div className="space-y-0.5">
+                                    <Label>Move SL to Breakeven</Label>
+                                    <p className="text-xs text-muted-foreground">
+                                      Move the stop loss to the entry price after the first level fills
+                                    </p>
+                                  </div>
+                                  <Switch
+                                    checked={config.symbols[selectedSymbol].tpLadderBreakeven ?? true}
+                                    onCheckedChange={(checked) =>
+                                      handleSymbolChange(selectedSymbol, 'tpLadderBreakeven', checked)
+                                    }
+                                  />
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                  Replaces the Take Profit (%) order. Ignored when a trailing stop replaces the TP.
+                                </p>
+                              </div>
+                            )}
+                          </div>
+                        </div>
+
+                        {/* Scale-In Settings */}
+                        <div className="col-span-2">
+                          <Separator className="my-4" />
+                          <div className="space-y-4">
+                            <div className="flex items-center justify-between">
+                              <div className="space-y-0.5">
+                                <Label>Scale-In (DCA)</Label>
+                                <p className="text-xs text-muted-foreground">
+                                  Add to an open position when liquidations keep cascading against it
+                                </p>
+                              </div>
+                              <Switch
+                                checked={config.symbols[selectedSymbol].scaleInEnabled || false}
+                                onCheckedChange={(checked) =>
+                                  handleSymbolChange(selectedSymbol, 'scaleInEnabled', checked)
+                                }
+                              />
+                            </div>
+
+                            {config.symbols[selectedSymbol].scaleInEnabled && (
+                              <div className="space-y-3">
+                                <div className="grid grid-cols-3 gap-4">
+                                  <div className="space-y-2">
+                                    <Label>Max Adds</Label>
+                                    <Input
+                                      type="number"
+                                      value={config.symbols[selectedSymbol].scaleInMaxAdds ?? 2}
+                                      onChange={(e) => {
+                                        const value = parseInt(e.target.value);
+                                        handleSymbolChange(selectedSymbol, 'scaleInMaxAdds', isNaN(value) ? 2 : value);
+                                      }}
+                                      min="1"
+                                      max="10"
+                                      step="1"
+                                    />
+                                    <p className="text-xs text-muted-foreground">
+                                      Additional entries per position
+                                    </p>
+                                  </div>
+                                  <div className="space-y-2">
+                                    <Label>Min Distance (%)</Label>
+                                    <Input
+                                      type="number"
+                                      value={config.symbols[selectedSymbol].scaleInMinDistancePercent ?? 1}
+                                      onChange={(e) => {
+                                        const value = parseFloat(e.target.value);
+                                        handleSymbolChange(selectedSymbol, 'scaleInMinDistancePercent', isNaN(value) ? 1 : value);
+                                      }}
+                                      min="0"
+                                      step="0.1"
+                                    />
+                                    <p className="text-xs text-muted-foreground">
+                                      Adverse move from the average entry before each add
+                                    </p>
+                                  </div>
+                                  <div className="space-y-2">
+                                    <Label>Size Multipliers</Label>
+                                    <Input
+                                      type="text"
+                                      defaultValue={(config.symbols[selectedSymbol].scaleInSizeMultipliers || [1]).join(', ')}
+                                      key={`${selectedSymbol}-scale-in-multipliers`}
+                                      onBlur={(e) => {
+                                        const values = e.target.value
+                                          .split(',')
+                                          .map(v => parseFloat(v.trim()))
+                                          .filter(v => !isNaN(v) && v > 0);
+                                        handleSymbolChange(selectedSymbol, 'scaleInSizeMultipliers', values.length > 0 ? values : undefined);
+                                      }}
+                                      placeholder="1, 1.5, 2"
+                                    />
+                                    <p className="text-xs text-muted-foreground">
+                                      Trade size multiplier per add, the last one repeats
+                                    </p>
+                                  </div>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                  Adds bypass the per-pair position limits. Total margin stays within Max Position Margin.
+                                </p>
+                              </div>
+                            )}
+                          </div>
+                        </div>
+
+                        {/* Order Type Settings */}
+                        <div className="col-span-2">
+                          <Separator className="my-4" />
+                          <div className="space-y-4">
+                            <div className="space-y-2">
+                              <Label>Order Type</Label>
+                              <Select
+                                value={config.symbols[selectedSymbol].orderType || 'LIMIT'}
+                                onValueChange={(value) =>
+                                  handleSymbolChange(selectedSymbol, 'orderType', value)
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="LIMIT">LIMIT Orders (Better fills)</SelectItem>
+                                  <SelectItem value="MARKET">MARKET Orders (Instant fills)</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              <p className="text-xs text-muted-foreground">
+                                Default order type for opening positions
+                              </p>
+                            </div>
+
+                            <div className="space-y-2">
+                              <Label>Signal Strategy</Label>
+                              <Select
+                                value={config.symbols[selectedSymbol].signalStrategy || 'contrarian'}
+                                onValueChange={(value) =>
+                                  handleSymbolChange(selectedSymbol, 'signalStrategy', value)
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="contrarian">Contrarian (Fade liquidations)</SelectItem>
+                                  <SelectItem value="momentum">Momentum (Follow liquidation cascades)</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              <p className="text-xs text-muted-foreground">
+                                How the trade direction is chosen when a liquidation is detected
+                              </p>
+                            </div>
+
+                            <div className="flex items-center justify-between">
+                              <div className="space-y-0.5">
+                                <Label>Force Market Entry</Label>
+                                <p className="text-sm text-muted-foreground">
+                                  Always use MARKET orders for opening positions (overrides order type above)
+                                </p>
+                              </div>
+                              <Switch
+                                checked={config.symbols[selectedSymbol].forceMarketEntry || false}
+                                onCheckedChange={(checked) =>
+                                  handleSymbolChange(selectedSymbol, 'forceMarketEntry', checked)
+                                }
+                              />
+                            </div>
+
+                            {config.symbols[selectedSymbol].forceMarketEntry && (
+                              <Alert>
+                                <AlertCircle className="h-4 w-4" />
+                                <AlertDescription className="text-xs">
+                                  <strong>Market Entry Forced:</strong> All opening orders will use MARKET type for instant fills,
+                                  regardless of the order type setting above. This ensures faster entry but may have higher slippage.
                                 </AlertDescription>
                               </Alert>
                             )}
                           </div>
                         </div>
 
+                        {/* Volatility-Scaled Stops */}
+                        <div className="col-span-2">
+                          <Separator className="my-4" />
+                          <div className="space-y-4">
+                            <div className="flex items-center justify-between">
+                              <div className="space-y-0.5">
+                                <Label className="flex items-center gap-2">
+                                  <Activity className="h-4 w-4" />
+                                  Volatility-Scaled Stops
+                                </Label>
+                                <p className="text-sm text-muted-foreground">
+                                  Set SL and TP as multiples of ATR instead of the fixed percentages
+                                </p>
+                              </div>
+                              <Switch
+                                checked={config.symbols[selectedSymbol].volatilityStops || false}
+                                onCheckedChange={(checked) =>
+                                  handleSymbolChange(selectedSymbol, 'volatilityStops', checked)
+                                }
+                              />
+                            </div>
+
+                            {config.symbols[selectedSymbol].volatilityStops && (
+                              <div className="grid grid-cols-2 gap-4 pt-2">
+                                <div className="space-y-2">
+                                  <Label>ATR Timeframe</Label>
+                                  <Select
+                                    value={config.symbols[selectedSymbol].atrTimeframe || '5m'}
+                                    onValueChange={(value) =>
+                                      handleSymbolChange(selectedSymbol, 'atrTimeframe', value)
+                                    }
+                                  >
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="1m">1 minute</SelectItem>
+                                      <SelectItem value="5m">5 minutes</SelectItem>
+                                      <SelectItem value="15m">15 minutes</SelectItem>
+                                      <SelectItem value="30m">30 minutes</SelectItem>
+                                      <SelectItem value="1h">1 hour</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                  <p className="text-xs text-muted-foreground">
+                                    Candle timeframe for the ATR
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>ATR Period</Label>
+                                  <Input
+                                    type="number"
+                                    value={config.symbols[selectedSymbol].atrPeriod ?? 14}
+                                    onChange={(e) => {
+                                      const value = parseInt(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'atrPeriod', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="2"
+                                    max="200"
+                                    step="1"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Number of candles averaged (2-200)
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>SL Multiplier (× ATR)</Label>
+                                  <Input
+                                    type="number"
+                                    value={config.symbols[selectedSymbol].slAtrMultiplier ?? 1.5}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'slAtrMultiplier', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="0.1"
+                                    max="20"
+                                    step="0.1"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Stop loss distance in ATRs
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>TP Multiplier (× ATR)</Label>
+                                  <Input
+                                    type="number"
+                                    value={config.symbols[selectedSymbol].tpAtrMultiplier ?? 3}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'tpAtrMultiplier', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="0.1"
+                                    max="50"
+                                    step="0.1"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Take profit distance in ATRs
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>Min Distance (%)</Label>
+                                  <Input
+                                    type="number"
+                                    value={config.symbols[selectedSymbol].minStopPercent ?? 0.2}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'minStopPercent', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="0.01"
+                                    step="0.05"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    SL and TP are never closer than this
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>Max Distance (%)</Label>
+                                  <Input
+                                    type="number"
+                                    value={config.symbols[selectedSymbol].maxStopPercent ?? 10}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'maxStopPercent', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="0.01"
+                                    max="100"
+                                    step="0.5"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    SL and TP are never further than this
+                                  </p>
+                                </div>
+                              </div>
+                            )}
+
+                            {config.symbols[selectedSymbol].volatilityStops && (
+                              <Alert>
+                                <AlertCircle className="h-4 w-4" />
+                                <AlertDescription className="text-xs">
+                                  <strong>Volatility Stops Active:</strong> SL and TP distances are fixed per position from the ATR at entry.
+                                  The TP and SL percentages above are used when not enough candles are available.
+                                </AlertDescription>
+                              </Alert>
+                            )}
+                          </div>
+                        </div>
+
+                        {/* Breakeven and Time-Based Exits */}
+                        <div className="col-span-2">
+                          <Separator className="my-4" />
+                          <div className="space-y-4">
+                            <div className="space-y-0.5">
+                              <Label className="flex items-center gap-2">
+                                <Timer className="h-4 w-4" />
+                                Breakeven &amp; Time Exits
+                              </Label>
+                              <p className="text-sm text-muted-foreground">
+                                Lock in a winner at breakeven and stop holding positions that go nowhere. Leave a field empty to turn it off.
+                              </p>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4 pt-2">
+                                <div className="space-y-2">
+                                  <Label>Breakeven Trigger (%)</Label>
+                                  <Input
+                                    type="number"
+                                    placeholder="Off"
+                                    value={config.symbols[selectedSymbol].breakevenTriggerPercent ?? ''}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'breakevenTriggerPercent', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="0"
+                                    step="0.1"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Move the SL to entry once profit reaches this
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>Breakeven Fee Offset (%)</Label>
+                                  <Input
+                                    type="number"
+                                    placeholder="0.1"
+                                    value={config.symbols[selectedSymbol].breakevenFeePercent ?? ''}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'breakevenFeePercent', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="0"
+                                    max="5"
+                                    step="0.01"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Stop sits this far past entry to cover fees
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>Max Hold Time (min)</Label>
+                                  <Input
+                                    type="number"
+                                    placeholder="Off"
+                                    value={config.symbols[selectedSymbol].maxHoldMinutes ?? ''}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'maxHoldMinutes', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="0"
+                                    step="1"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Apply the timeout action after this long
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>Timeout Action</Label>
+                                  <Select
+                                    value={config.symbols[selectedSymbol].timeoutAction || 'CLOSE'}
+                                    onValueChange={(value) =>
+                                      handleSymbolChange(selectedSymbol, 'timeoutAction', value)
+                                    }
+                                  >
+                                    <SelectTrigger>
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="CLOSE">Close at market</SelectItem>
+                                      <SelectItem value="TIGHTEN_TP">Tighten take profit</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                  <p className="text-xs text-muted-foreground">
+                                    What happens when the hold time runs out
+                                  </p>
+                                </div>
+                                {config.symbols[selectedSymbol].timeoutAction === 'TIGHTEN_TP' && (
+                                  <div className="space-y-2">
+                                    <Label>Tightened TP (%)</Label>
+                                    <Input
+                                      type="number"
+                                      placeholder="0.2"
+                                      value={config.symbols[selectedSymbol].timeoutTpPercent ?? ''}
+                                      onChange={(e) => {
+                                        const value = parseFloat(e.target.value);
+                                        handleSymbolChange(selectedSymbol, 'timeoutTpPercent', isNaN(value) ? undefined : value);
+                                      }}
+                                      min="0"
+                                      step="0.05"
+                                    />
+                                    <p className="text-xs text-muted-foreground">
+                                      TP distance from entry after the timeout - skipped with a TP ladder or a trailing stop that replaces the TP
+                                    </p>
+                                  </div>
+                                )}
+                            </div>
+                          </div>
+                        </div>
+
                         {/* VWAP Protection Settings */}
                         <div className="col-span-2">
                           <Separator className="my-4" />
@@ -1659,6 +2778,144 @@ export default function SymbolConfigForm({ onSave, currentConfig }: SymbolConfig
                           </div>
                         </div>
 
+                        {/* Order Book Filter Settings */}
+                        <div className="col-span-2">
+                          <Separator className="my-4" />
+                          <div className="space-y-4">
+                            <div className="space-y-0.5">
+                              <Label className="flex items-center gap-2">
+                                <Layers className="h-4 w-4" />
+                                Order Book Filters
+                              </Label>
+                              <p className="text-sm text-muted-foreground">
+                                Block entries into wide, thin or one-sided books. Leave a field empty to turn it off.
+                              </p>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4 pt-2">
+                                <div className="space-y-2">
+                                  <Label>Max Spread (bps)</Label>
+                                  <Input
+                                    type="number"
+                                    placeholder="Off"
+                                    value={config.symbols[selectedSymbol].maxSpreadBps ?? ''}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'maxSpreadBps', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="0"
+                                    step="0.5"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Block when the bid/ask spread is wider
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>Min Depth (USDT)</Label>
+                                  <Input
+                                    type="number"
+                                    placeholder="Off"
+                                    value={config.symbols[selectedSymbol].minBookDepthUSDT ?? ''}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'minBookDepthUSDT', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="0"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Required on both bid and ask within the depth window
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>Depth Window (bps)</Label>
+                                  <Input
+                                    type="number"
+                                    placeholder="10"
+                                    value={config.symbols[selectedSymbol].bookDepthRangeBps ?? ''}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'bookDepthRangeBps', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="0"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Distance from the mid price counted as depth
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>Min Imbalance Ratio</Label>
+                                  <Input
+                                    type="number"
+                                    placeholder="Off"
+                                    value={config.symbols[selectedSymbol].minBookImbalance ?? ''}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'minBookImbalance', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="0"
+                                    step="0.1"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Bids/asks for longs, asks/bids for shorts (e.g. 1.2)
+                                  </p>
+                                </div>
+                            </div>
+                          </div>
+                        </div>
+
+                        {/* Funding Filter Settings */}
+                        <div className="col-span-2">
+                          <Separator className="my-4" />
+                          <div className="space-y-4">
+                            <div className="space-y-0.5">
+                              <Label className="flex items-center gap-2">
+                                <Clock className="h-4 w-4" />
+                                Funding Filters
+                              </Label>
+                              <p className="text-sm text-muted-foreground">
+                                Avoid entries that pay funding or open just before a funding time. Leave a field empty to turn it off.
+                              </p>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4 pt-2">
+                                <div className="space-y-2">
+                                  <Label>Max Adverse Funding (%)</Label>
+                                  <Input
+                                    type="number"
+                                    placeholder="Off"
+                                    value={config.symbols[selectedSymbol].maxAdverseFundingRate ?? ''}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'maxAdverseFundingRate', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="0"
+                                    step="0.005"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Block when the trade would pay more than this per interval (0 = never pay)
+                                  </p>
+                                </div>
+                                <div className="space-y-2">
+                                  <Label>Pre-Funding Blackout (min)</Label>
+                                  <Input
+                                    type="number"
+                                    placeholder="Off"
+                                    value={config.symbols[selectedSymbol].fundingBlackoutMinutes ?? ''}
+                                    onChange={(e) => {
+                                      const value = parseFloat(e.target.value);
+                                      handleSymbolChange(selectedSymbol, 'fundingBlackoutMinutes', isNaN(value) ? undefined : value);
+                                    }}
+                                    min="0"
+                                    max="480"
+                                  />
+                                  <p className="text-xs text-muted-foreground">
+                                    Block entries this close to the next funding time
+                                  </p>
+                                </div>
+                            </div>
+                          </div>
+                        </div>
+
                         {/* Threshold System Settings - Only show if global threshold is enabled */}
                         {config.global.useThresholdSystem && (
                           <div className="col-span-2">
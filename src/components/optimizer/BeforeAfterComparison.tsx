@@ -47,6 +47,7 @@ interface BeforeAfterComparisonProps {
       dailyImprovement: number;
       monthlyImprovement: number;
       improvementPercent: number | null;
+      inSampleImprovementPercent?: number | null;
     };
     recommendations?: any[];
   };
@@ -110,8 +111,11 @@ export function BeforeAfterComparison({ results }: BeforeAfterComparisonProps) {
     : 0;
   const winRateChange = avgCurrentWinRate > 0 ? ((avgOptimizedWinRate - avgCurrentWinRate) / avgCurrentWinRate) * 100 : 0;
 
+  // With walk-forward validation the headline figure is measured on held-out days, apart from the optimizer's estimate
   const improvementPercent = summary.improvementPercent ?? 0;
   const isPositiveImprovement = improvementPercent > 0;
+  const isHeldOut = summary.inSampleImprovementPercent !== undefined;
+  const dailyPnlChange = (isHeldOut ? summary.inSampleImprovementPercent : summary.improvementPercent) ?? 0;
 
   return (
     <div className="space-y-6">
@@ -133,7 +137,9 @@ export function BeforeAfterComparison({ results }: BeforeAfterComparisonProps) {
             </h3>
             <p className="text-sm text-muted-foreground">
               {isPositiveImprovement
-                ? `Projected improvement of ${improvementPercent.toFixed(1)}% in daily PnL`
+                ? isHeldOut
+                  ? `Improvement of ${improvementPercent.toFixed(1)}% in daily PnL on held-out walk-forward days`
+                  : `Projected improvement of ${improvementPercent.toFixed(1)}% in daily PnL`
                 : 'Your current settings are already well-optimized. Consider the small adjustments below.'
               }
             </p>
@@ -183,7 +189,7 @@ export function BeforeAfterComparison({ results }: BeforeAfterComparisonProps) {
             <MetricCard
               label="Daily PnL"
               value={`$${summary.optimizedDailyPnl.toFixed(2)}`}
-              change={improvementPercent}
+              change={dailyPnlChange}
               isGoodChange={true}
             />
             <MetricCard
@@ -4,6 +4,8 @@ import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { OptimizerWeightSliders } from './OptimizerWeightSliders';
 import { Loader2, Play, ChevronDown, ChevronUp } from 'lucide-react';
 import { useConfig } from '@/components/ConfigProvider';
@@ -13,12 +15,21 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 
+// Days of history the optimizer analyzes, which the walk-forward windows have to fit in
+const WALK_FORWARD_HISTORY_DAYS = 7;
+
+export interface WalkForwardSettings {
+  enabled: boolean;
+  trainDays: number;
+  testDays: number;
+}
+
 interface OptimizerConfigPanelProps {
   pnlWeight: number;
   sharpeWeight: number;
   drawdownWeight: number;
   onWeightsChange: (pnl: number, sharpe: number, drawdown: number) => void;
-  onStartOptimization: (selectedSymbols: string[]) => void;
+  onStartOptimization: (selectedSymbols: string[], walkForward: WalkForwardSettings) => void;
   isStarting: boolean;
 }
 
@@ -35,6 +46,11 @@ export function OptimizerConfigPanel({
     Object.keys(config?.symbols || {})
   );
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [walkForward, setWalkForward] = useState<WalkForwardSettings>({
+    enabled: false,
+    trainDays: 4,
+    testDays: 1,
+  });
 
   const availableSymbols = Object.keys(config?.symbols || {});
   const allSelected = selectedSymbols.length === availableSymbols.length;
@@ -56,11 +72,17 @@ export function OptimizerConfigPanel({
     );
   };
 
+  const walkForwardInvalid = walkForward.enabled && (
+    !(walkForward.trainDays >= 1) ||
+    !(walkForward.testDays >= 1) ||
+    walkForward.trainDays + walkForward.testDays > WALK_FORWARD_HISTORY_DAYS
+  );
+
   const handleStart = () => {
-    if (selectedSymbols.length === 0) {
+    if (selectedSymbols.length === 0 || walkForwardInvalid) {
       return;
     }
-    onStartOptimization(selectedSymbols);
+    onStartOptimization(selectedSymbols, walkForward);
   };
 
   const total = pnlWeight + sharpeWeight + drawdownWeight;
@@ -139,15 +161,50 @@ export function OptimizerConfigPanel({
           </Button>
         </CollapsibleTrigger>
         <CollapsibleContent className="mt-3 space-y-4 rounded-lg border bg-muted/30 p-4">
-          <p className="text-xs text-muted-foreground">
-            Advanced optimization options coming soon:
-          </p>
-          <ul className="text-xs text-muted-foreground space-y-1 pl-4">
-            <li>• Train/Test split configuration</li>
-            <li>• Walk-forward analysis</li>
-            <li>• Custom time windows</li>
-            <li>• Parameter ranges</li>
-          </ul>
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="walk-forward">Walk-Forward Validation</Label>
+              <p className="text-xs text-muted-foreground">
+                Backtest the recommended settings on rolling windows and compare them with the current ones on the unseen days
+              </p>
+            </div>
+            <Switch
+              id="walk-forward"
+              checked={walkForward.enabled}
+              onCheckedChange={(checked) => setWalkForward(prev => ({ ...prev, enabled: checked }))}
+            />
+          </div>
+
+          {walkForward.enabled && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Training Window (days)</Label>
+                <Input
+                  type="number"
+                  value={walkForward.trainDays}
+                  onChange={(e) => setWalkForward(prev => ({ ...prev, trainDays: parseInt(e.target.value, 10) }))}
+                  min="1"
+                  max={WALK_FORWARD_HISTORY_DAYS - 1}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Test Window (days)</Label>
+                <Input
+                  type="number"
+                  value={walkForward.testDays}
+                  onChange={(e) => setWalkForward(prev => ({ ...prev, testDays: parseInt(e.target.value, 10) }))}
+                  min="1"
+                  max={WALK_FORWARD_HISTORY_DAYS - 1}
+                />
+              </div>
+            </div>
+          )}
+
+          {walkForwardInvalid && (
+            <p className="text-xs text-destructive">
+              Training and test windows must be at least 1 day each and fit in {WALK_FORWARD_HISTORY_DAYS} days of history
+            </p>
+          )}
         </CollapsibleContent>
       </Collapsible>
 
@@ -165,7 +222,7 @@ export function OptimizerConfigPanel({
       <div className="flex items-center gap-3 pt-2">
         <Button
           onClick={handleStart}
-          disabled={isStarting || selectedSymbols.length === 0}
+          disabled={isStarting || selectedSymbols.length === 0 || walkForwardInvalid}
           className="flex-1"
           size="lg"
         >
@@ -12,6 +12,7 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { TrendingUp, DollarSign, Target } from 'lucide-react';
+import { WalkForwardValidation } from './WalkForwardValidation';
 
 interface OptimizerResultsProps {
   results: any; // Will be typed from optimizerService
@@ -25,6 +26,10 @@ interface OptimizerResultsProps {
  */
 export function OptimizerResults({ results }: OptimizerResultsProps) {
   const { summary, recommendations } = results;
+  // Walk-forward moves the optimizer's own estimate, which matches the daily figures, to inSampleImprovementPercent
+  const dailyImprovementPercent = summary.inSampleImprovementPercent !== undefined
+    ? summary.inSampleImprovementPercent
+    : summary.improvementPercent;
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -97,9 +102,9 @@ export function OptimizerResults({ results }: OptimizerResultsProps) {
             <p className={`text-2xl font-bold ${getChangeColor(summary.dailyImprovement)}`}>
               {formatCurrency(summary.dailyImprovement)}
             </p>
-            {summary.improvementPercent !== null && (
+            {dailyImprovementPercent !== null && (
               <p className="text-xs text-muted-foreground mt-1">
-                {formatPercent(summary.improvementPercent)}
+                {formatPercent(dailyImprovementPercent)}
               </p>
             )}
           </CardContent>
@@ -120,6 +125,18 @@ export function OptimizerResults({ results }: OptimizerResultsProps) {
         </Card>
       </div>
 
+      {/* Walk-Forward Validation */}
+      {results.walkForward && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Walk-Forward Validation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <WalkForwardValidation report={results.walkForward} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Per-Symbol Comparison Table */}
       <Card>
         <CardHeader>
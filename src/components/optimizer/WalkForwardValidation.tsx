@@ -0,0 +1,144 @@
+'use client';
+
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ShieldCheck } from 'lucide-react';
+import type { WalkForwardMetrics, WalkForwardReport } from '@/lib/backtest/walkForward';
+
+interface WalkForwardValidationProps {
+  report: WalkForwardReport;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatDate = (time: number) => new Date(time).toISOString().split('T')[0];
+
+const getPnlColor = (value: number) => {
+  if (value > 0) return 'text-green-600 dark:text-green-400';
+  if (value < 0) return 'text-red-600 dark:text-red-400';
+  return 'text-muted-foreground';
+};
+
+const METRIC_ROWS: Array<{ label: string; render: (metrics: WalkForwardMetrics) => React.ReactNode }> = [
+  { label: 'Net P&L', render: (m) => <span className={getPnlColor(m.netPnl)}>{formatCurrency(m.netPnl)}</span> },
+  { label: 'Avg Daily P&L', render: (m) => <span className={getPnlColor(m.avgDailyPnl)}>{formatCurrency(m.avgDailyPnl)}</span> },
+  { label: 'Sharpe Ratio', render: (m) => m.sharpeRatio.toFixed(2) },
+  { label: 'Max Drawdown', render: (m) => formatCurrency(m.maxDrawdown) },
+  { label: 'Trades', render: (m) => `${m.trades} over ${m.days}d` },
+];
+
+/**
+ * WalkForwardValidation Component
+ *
+ * In-sample vs out-of-sample performance of the optimizer's recommended settings
+ * on rolling windows, next to the current settings on the same unseen days, with
+ * a warning when the out-of-sample results collapse
+ */
+export function WalkForwardValidation({ report }: WalkForwardValidationProps) {
+  return (
+    <div className="space-y-6">
+      {/* Overfitting Banner */}
+      <div className={`rounded-lg border-2 p-4 ${
+        report.collapsed
+          ? 'border-yellow-500 bg-yellow-50 dark:bg-yellow-950/20'
+          : 'border-green-500 bg-green-50 dark:bg-green-950/20'
+      }`}>
+        <div className="flex items-center gap-3">
+          {report.collapsed ? (
+            <AlertTriangle className="h-8 w-8 text-yellow-600 dark:text-yellow-400" />
+          ) : (
+            <ShieldCheck className="h-8 w-8 text-green-600 dark:text-green-400" />
+          )}
+          <div>
+            <p className="text-lg font-bold">
+              {report.collapsed ? 'Out-of-sample performance collapsed' : 'Out-of-sample performance holds up'}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {report.warning ?? (report.efficiency !== null
+                ? `Unseen days kept ${(report.efficiency * 100).toFixed(0)}% of the in-sample daily P&L across ${report.windows.length} windows`
+                : 'No in-sample profit to compare against')}
+              {report.improvementPercent !== null &&
+                ` · ${report.improvementPercent >= 0 ? '+' : ''}${report.improvementPercent.toFixed(1)}% daily P&L vs current settings on unseen days`}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* In-Sample vs Out-of-Sample */}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Metric</TableHead>
+            <TableHead className="text-right">In-Sample ({report.trainDays}d train)</TableHead>
+            <TableHead className="text-right">Out-of-Sample ({report.testDays}d test)</TableHead>
+            <TableHead className="text-right">Current Settings ({report.testDays}d test)</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {METRIC_ROWS.map(row => (
+            <TableRow key={row.label}>
+              <TableCell className="font-medium">{row.label}</TableCell>
+              <TableCell className="text-right">{row.render(report.inSample)}</TableCell>
+              <TableCell className="text-right">{row.render(report.outOfSample)}</TableCell>
+              <TableCell className="text-right">{row.render(report.baseline)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {/* Per-Window Breakdown */}
+      <div>
+        <p className="mb-2 text-sm font-medium text-muted-foreground">Windows</p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Training</TableHead>
+              <TableHead>Test</TableHead>
+              <TableHead className="text-right">In-Sample Daily</TableHead>
+              <TableHead className="text-right">Out-of-Sample Daily</TableHead>
+              <TableHead className="text-right">Current Daily</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.windows.map(window => (
+              <TableRow key={window.testStart}>
+                <TableCell>{formatDate(window.trainStart)} → {formatDate(window.trainEnd - 1)}</TableCell>
+                <TableCell>
+                  {formatDate(window.testStart)}
+                  {report.testDays > 1 && ` → ${formatDate(window.testEnd - 1)}`}
+                  {window.outOfSample.netPnl < 0 && (
+                    <Badge variant="destructive" className="ml-2">Loss</Badge>
+                  )}
+                </TableCell>
+                <TableCell className={`text-right ${getPnlColor(window.inSample.avgDailyPnl)}`}>
+                  {formatCurrency(window.inSample.avgDailyPnl)}
+                </TableCell>
+                <TableCell className={`text-right ${getPnlColor(window.outOfSample.avgDailyPnl)}`}>
+                  {formatCurrency(window.outOfSample.avgDailyPnl)}
+                </TableCell>
+                <TableCell className={`text-right ${getPnlColor(window.baseline.avgDailyPnl)}`}>
+                  {formatCurrency(window.baseline.avgDailyPnl)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
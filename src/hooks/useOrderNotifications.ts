@@ -26,6 +26,11 @@ export function useOrderNotifications() {
     }).format(qty);
   };
 
+  const formatDistance = (distancePercent?: number, atr?: number) => {
+    if (distancePercent === undefined || distancePercent === null) return '';
+    return ` (${distancePercent.toFixed(2)}%${atr ? ' ATR' : ''})`;
+  };
+
   const formatPnL = (pnl: number | undefined) => {
     if (pnl === undefined || pnl === null || isNaN(pnl)) {
       return '';
@@ -133,11 +138,11 @@ export function useOrderNotifications() {
             }
 
             case 'sl_placed': {
-              const { symbol, price, quantity } = message.data;
+              const { symbol, price, quantity, distancePercent, atr } = message.data;
               toast.info(
                 `🛡️ Stop loss set for ${symbol}`,
                 {
-                  description: `${formatQuantity(quantity)} units at $${formatPrice(price)}`,
+                  description: `${formatQuantity(quantity)} units at $${formatPrice(price)}${formatDistance(distancePercent, atr)}`,
                   duration: 3000,
                 }
               );
@@ -145,11 +150,11 @@ export function useOrderNotifications() {
             }
 
             case 'tp_placed': {
-              const { symbol, price, quantity } = message.data;
+              const { symbol, price, quantity, distancePercent, atr } = message.data;
               toast.info(
                 `🎯 Take profit set for ${symbol}`,
                 {
-                  description: `${formatQuantity(quantity)} units at $${formatPrice(price)}`,
+                  description: `${formatQuantity(quantity)} units at $${formatPrice(price)}${formatDistance(distancePercent, atr)}`,
                   duration: 3000,
                 }
               );
@@ -212,12 +217,19 @@ export function useOrderNotifications() {
 
             case 'trade_blocked': {
               const { side, reason, blockType } = message.data;
-              const description = blockType === 'VWAP_FILTER'
+              const description = blockType === 'VWAP_FILTER' || blockType === 'ORDER_BOOK_FILTER' || blockType === 'FUNDING_FILTER' || blockType === 'EXPOSURE_LIMIT'
                 ? reason
                 : `${side} trade blocked - ${reason}`;
+              const title = blockType === 'ORDER_BOOK_FILTER'
+                ? `📚 Order Book Filter - ${message.data.symbol}`
+                : blockType === 'FUNDING_FILTER'
+                  ? `💸 Funding Filter - ${message.data.symbol}`
+                  : blockType === 'EXPOSURE_LIMIT'
+                    ? `📊 Exposure Limit - ${message.data.symbol}`
+                    : `🚫 VWAP Protection Active`;
 
               toast.warning(
-                `🚫 VWAP Protection Active`,
+                title,
                 {
                   description: description,
                   duration: 4000,
@@ -231,6 +243,22 @@ export function useOrderNotifications() {
               break;
             }
 
+            case 'liquidation_risk': {
+              const { symbol, side, level, message: details } = message.data;
+              const title = level === 'MARGIN_CALL'
+                ? `🚨 Margin call: ${symbol} ${side}`
+                : `🚨 ${symbol} ${side} near liquidation`;
+
+              toast[level === 'WARNING' ? 'warning' : 'error'](
+                title,
+                {
+                  description: details,
+                  duration: level === 'WARNING' ? 6000 : 10000,
+                }
+              );
+              break;
+            }
+
           default:
             break;
         }
@@ -8,10 +8,9 @@
 import { ApiCredentials, Order } from '../types';
 import { buildSignedForm } from './auth';
 import { getRateLimitedAxios } from './requestInterceptor';
+import { getRestBaseUrl } from './endpoints';
 import { RequestPriority } from './rateLimitManager';
 
-const BASE_URL = 'https://fapi.asterdex.com';
-
 export interface BatchOrderParams {
   symbol: string;
   side: 'BUY' | 'SELL';
@@ -89,7 +88,7 @@ export async function placeBatchOrders(
 
   try {
     const axios = getRateLimitedAxios();
-    const response = await axios.post(`${BASE_URL}/fapi/v1/batchOrders`, formData, {
+    const response = await axios.post(`${getRestBaseUrl()}/fapi/v1/batchOrders`, formData, {
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
         'X-MBX-APIKEY': credentials.apiKey
@@ -153,7 +152,7 @@ export async function cancelBatchOrders(
 
   try {
     const axios = getRateLimitedAxios();
-    const response = await axios.delete(`${BASE_URL}/fapi/v1/allOpenOrders`, {
+    const response = await axios.delete(`${getRestBaseUrl()}/fapi/v1/allOpenOrders`, {
       headers: {
         'X-MBX-APIKEY': credentials.apiKey
       },
@@ -0,0 +1,64 @@
+import { GlobalConfig } from '../types';
+
+export const DEFAULT_REST_BASE_URL = 'https://fapi.asterdex.com';
+export const DEFAULT_WS_BASE_URL = 'wss://fstream.asterdex.com';
+export const DEFAULT_SIMULATOR_PORT = 4100;
+
+export interface ResolvedEndpoints {
+  restBaseUrl: string;
+  marketStreamBaseUrl: string;
+  userStreamBaseUrl: string;
+}
+
+/**
+ * Resolve the exchange hosts for a global config. Explicit `endpoints` settings
+ * win, then sim mode's local simulator, then the Aster production hosts.
+ * Per-stream hosts fall back to wsBaseUrl.
+ */
+export function resolveExchangeEndpoints(global?: Pick<GlobalConfig, 'endpoints' | 'simulator'>): ResolvedEndpoints {
+  const endpoints = global?.endpoints || {};
+  const simulator = global?.simulator?.enabled ? global.simulator : null;
+  const simulatorHost = simulator ? `127.0.0.1:${simulator.port ?? DEFAULT_SIMULATOR_PORT}` : null;
+
+  const restBaseUrl = endpoints.restBaseUrl || (simulatorHost ? `http://${simulatorHost}` : DEFAULT_REST_BASE_URL);
+  const wsBaseUrl = endpoints.wsBaseUrl || (simulatorHost ? `ws://${simulatorHost}` : DEFAULT_WS_BASE_URL);
+
+  return {
+    restBaseUrl: trimSlashes(restBaseUrl),
+    marketStreamBaseUrl: trimSlashes(endpoints.marketStreamBaseUrl || wsBaseUrl),
+    userStreamBaseUrl: trimSlashes(endpoints.userStreamBaseUrl || wsBaseUrl),
+  };
+}
+
+// Endpoints used by lib/api and the bot's streams in this process
+let activeEndpoints: ResolvedEndpoints = resolveExchangeEndpoints();
+
+export function configureExchangeEndpoints(global?: Pick<GlobalConfig, 'endpoints' | 'simulator'>): ResolvedEndpoints {
+  activeEndpoints = resolveExchangeEndpoints(global);
+  return activeEndpoints;
+}
+
+export function getExchangeEndpoints(): ResolvedEndpoints {
+  return activeEndpoints;
+}
+
+export function getRestBaseUrl(): string {
+  return activeEndpoints.restBaseUrl;
+}
+
+// Raw market stream, e.g. getMarketStreamUrl('!forceOrder@arr')
+export function getMarketStreamUrl(stream: string): string {
+  return `${activeEndpoints.marketStreamBaseUrl}/ws/${stream}`;
+}
+
+export function getCombinedStreamUrl(streams: string[]): string {
+  return `${activeEndpoints.marketStreamBaseUrl}/stream?streams=${streams.join('/')}`;
+}
+
+export function getUserStreamUrl(listenKey: string): string {
+  return `${activeEndpoints.userStreamBaseUrl}/ws/${listenKey}`;
+}
+
+function trimSlashes(url: string): string {
+  return url.replace(/\/+$/, '');
+}
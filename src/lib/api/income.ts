@@ -1,10 +1,9 @@
 import { buildSignedQuery } from './auth';
 import { ApiCredentials } from '../types';
 import { getRateLimitedAxios } from './requestInterceptor';
+import { getRestBaseUrl } from './endpoints';
 import { getUserTrades } from './market';
 
-const BASE_URL = 'https://fapi.asterdex.com';
-
 // Simple cache to prevent duplicate API calls
 const incomeCache = new Map<string, { data: IncomeRecord[]; timestamp: number }>();
 
@@ -73,7 +72,7 @@ export async function getIncomeHistory(
 
   const axios = getRateLimitedAxios();
   const response = await axios.get<IncomeRecord[]>(
-    `${BASE_URL}/fapi/v1/income?${query}`,
+    `${getRestBaseUrl()}/fapi/v1/income?${query}`,
     {
       headers: {
         'X-MBX-APIKEY': credentials.apiKey,
@@ -2,13 +2,12 @@ import { AxiosResponse } from 'axios';
 import { ApiCredentials, MarkPrice, Kline } from '../types';
 import { buildSignedQuery, paramsToQuery } from './auth';
 import { getRateLimitedAxios } from './requestInterceptor';
-
-const BASE_URL = 'https://fapi.asterdex.com';
+import { getRestBaseUrl } from './endpoints';
 
 // Public endpoints (no authentication)
 export async function getExchangeInfo(): Promise<any> {
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v1/exchangeInfo`);
+  const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v1/exchangeInfo`);
   return response.data;
 }
 
@@ -16,17 +15,22 @@ export async function getMarkPrice(symbol?: string): Promise<MarkPrice | MarkPri
   const params: Record<string, any> = {};
   if (symbol) params.symbol = symbol;
   const query = paramsToQuery(params);
-  const url = query ? `${BASE_URL}/fapi/v1/premiumIndex?${query}` : `${BASE_URL}/fapi/v1/premiumIndex`;
+  const url = query ? `${getRestBaseUrl()}/fapi/v1/premiumIndex?${query}` : `${getRestBaseUrl()}/fapi/v1/premiumIndex`;
   const axios = getRateLimitedAxios();
   const response: AxiosResponse = await axios.get(url);
   return response.data;
 }
 
-export async function getKlines(symbol: string, interval: string = '1m', limit: number = 500): Promise<Kline[]> {
-  const params = { symbol, interval, limit };
+export async function getKlines(
+  symbol: string,
+  interval: string = '1m',
+  limit: number = 500,
+  range: { startTime?: number; endTime?: number } = {}
+): Promise<Kline[]> {
+  const params = { symbol, interval, limit, ...range };
   const query = paramsToQuery(params);
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v1/klines?${query}`);
+  const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v1/klines?${query}`);
   // Klines come as [[openTime, open, high, low, close, volume], ...]
   // Convert to Kline array
   const klines = response.data.map((k: any[]) => ({
@@ -44,7 +48,7 @@ export async function getRecentTrades(symbol: string, limit: number = 500): Prom
   const params = { symbol, limit };
   const query = paramsToQuery(params);
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v1/trades?${query}`);
+  const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v1/trades?${query}`);
   return response.data;
 }
 
@@ -55,7 +59,7 @@ export async function getBalance(credentials: ApiCredentials): Promise<any> {
 
   try {
     const axios = getRateLimitedAxios();
-    const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v2/balance?${query}`, {
+    const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v2/balance?${query}`, {
       headers: {
         'X-MBX-APIKEY': credentials.apiKey
       }
@@ -66,7 +70,7 @@ export async function getBalance(credentials: ApiCredentials): Promise<any> {
       status: error.response?.status,
       statusText: error.response?.statusText,
       data: error.response?.data,
-      url: `${BASE_URL}/fapi/v2/balance?${query}`,
+      url: `${getRestBaseUrl()}/fapi/v2/balance?${query}`,
       headers: { 'X-MBX-APIKEY': credentials.apiKey }
     });
     throw error;
@@ -79,7 +83,7 @@ export async function getAccountInfo(credentials: ApiCredentials): Promise<any>
 
   try {
     const axios = getRateLimitedAxios();
-    const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v4/account?${query}`, {
+    const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v4/account?${query}`, {
       headers: {
         'X-MBX-APIKEY': credentials.apiKey
       }
@@ -90,7 +94,7 @@ export async function getAccountInfo(credentials: ApiCredentials): Promise<any>
       status: error.response?.status,
       statusText: error.response?.statusText,
       data: error.response?.data,
-      url: `${BASE_URL}/fapi/v4/account?${query}`,
+      url: `${getRestBaseUrl()}/fapi/v4/account?${query}`,
       headers: { 'X-MBX-APIKEY': credentials.apiKey }
     });
     throw error;
@@ -109,7 +113,7 @@ export async function getPositionRisk(symbol?: string, credentials?: ApiCredenti
   }
   const query = buildSignedQuery(params, credentials);
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v2/positionRisk?${query}`, {
+  const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v2/positionRisk?${query}`, {
     headers: {
       'X-MBX-APIKEY': credentials.apiKey
     }
@@ -129,7 +133,22 @@ export async function getOpenOrders(symbol?: string, credentials?: ApiCredential
   }
   const query = buildSignedQuery(params, credentials);
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v1/openOrders?${query}`, {
+  const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v1/openOrders?${query}`, {
+    headers: {
+      'X-MBX-APIKEY': credentials.apiKey
+    }
+  });
+  return response.data;
+}
+
+// Account maker/taker commission rates for a symbol
+export async function getCommissionRate(
+  symbol: string,
+  credentials: ApiCredentials
+): Promise<{ symbol: string; makerCommissionRate: string; takerCommissionRate: string }> {
+  const query = buildSignedQuery({ symbol }, credentials);
+  const axios = getRateLimitedAxios();
+  const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v1/commissionRate?${query}`, {
     headers: {
       'X-MBX-APIKEY': credentials.apiKey
     }
@@ -142,7 +161,7 @@ export async function getOrderBook(symbol: string, limit: number = 5): Promise<a
   const params = { symbol, limit };
   const query = paramsToQuery(params);
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v1/depth?${query}`);
+  const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v1/depth?${query}`);
   return response.data;
 }
 
@@ -151,7 +170,7 @@ export async function getSymbolPrice(symbol: string): Promise<any> {
   const params = { symbol };
   const query = paramsToQuery(params);
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v1/ticker/price?${query}`);
+  const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v1/ticker/price?${query}`);
   return response.data;
 }
 
@@ -160,7 +179,7 @@ export async function getBookTicker(symbol: string): Promise<any> {
   const params = { symbol };
   const query = paramsToQuery(params);
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v1/ticker/bookTicker?${query}`);
+  const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v1/ticker/bookTicker?${query}`);
   return response.data;
 }
 
@@ -199,7 +218,7 @@ export async function getUserTrades(
 
   const query = buildSignedQuery(queryParams, credentials);
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v1/userTrades?${query}`, {
+  const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v1/userTrades?${query}`, {
     headers: {
       'X-MBX-APIKEY': credentials.apiKey,
     },
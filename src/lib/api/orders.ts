@@ -3,19 +3,20 @@ import { ApiCredentials, Order } from '../types';
 import { Trade } from '../types/order';
 import { buildSignedForm, buildSignedQuery } from './auth';
 import { getRateLimitedAxios } from './requestInterceptor';
+import { getRestBaseUrl } from './endpoints';
 import { symbolPrecision } from '../utils/symbolPrecision';
 import { getMarkPrice } from './market';
 
-const BASE_URL = 'https://fapi.asterdex.com';
-
 // Place a new order (POST)
 export async function placeOrder(params: {
   symbol: string;
   side: 'BUY' | 'SELL';
-  type: 'MARKET' | 'LIMIT' | 'STOP_MARKET' | 'TAKE_PROFIT_MARKET';
+  type: 'MARKET' | 'LIMIT' | 'STOP_MARKET' | 'TAKE_PROFIT_MARKET' | 'TRAILING_STOP_MARKET';
   quantity: number;
   price?: number;
   stopPrice?: number;
+  activationPrice?: number; // TRAILING_STOP_MARKET only
+  callbackRate?: number;    // TRAILING_STOP_MARKET only, 0.1-5 where 1 = 1%
   reduceOnly?: boolean;
   positionSide?: 'BOTH' | 'LONG' | 'SHORT';
   timeInForce?: 'GTC' | 'IOC' | 'FOK' | 'GTX';
@@ -79,7 +80,7 @@ export async function placeOrder(params: {
   console.log('[ORDER DEBUG] Form data being sent:', formData.toString());
 
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.post(`${BASE_URL}/fapi/v1/order`, formData, {
+  const response: AxiosResponse = await axios.post(`${getRestBaseUrl()}/fapi/v1/order`, formData, {
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
       'X-MBX-APIKEY': credentials.apiKey
@@ -129,7 +130,7 @@ export async function cancelOrder(params: {
   const query = buildSignedQuery(cancelParams, credentials);
 
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.delete(`${BASE_URL}/fapi/v1/order?${query}`, {
+  const response: AxiosResponse = await axios.delete(`${getRestBaseUrl()}/fapi/v1/order?${query}`, {
     headers: {
       'X-MBX-APIKEY': credentials.apiKey
     }
@@ -145,7 +146,7 @@ export async function cancelAllOrders(symbol: string, credentials: ApiCredential
   const query = buildSignedQuery(params, credentials);
 
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.delete(`${BASE_URL}/fapi/v1/allOpenOrders?${query}`, {
+  const response: AxiosResponse = await axios.delete(`${getRestBaseUrl()}/fapi/v1/allOpenOrders?${query}`, {
     headers: {
       'X-MBX-APIKEY': credentials.apiKey
     }
@@ -153,6 +154,25 @@ export async function cancelAllOrders(symbol: string, credentials: ApiCredential
   return response.data;
 }
 
+// Auto-cancel all open orders for a symbol unless called again within countdownTime ms (0 stops the timer)
+export async function countdownCancelAll(symbol: string, countdownTime: number, credentials: ApiCredentials): Promise<any> {
+  const params = {
+    symbol,
+    countdownTime,
+  };
+  const formData = buildSignedForm(params, credentials);
+
+  const axios = getRateLimitedAxios();
+  const response: AxiosResponse = await axios.post(`${getRestBaseUrl()}/fapi/v1/countdownCancelAll`, formData, {
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-MBX-APIKEY': credentials.apiKey
+    },
+  });
+
+  return response.data;
+}
+
 // Query a specific order
 export async function queryOrder(params: {
   symbol: string;
@@ -165,7 +185,7 @@ export async function queryOrder(params: {
   const query = buildSignedQuery(queryParams, credentials);
 
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v1/order?${query}`, {
+  const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v1/order?${query}`, {
     headers: {
       'X-MBX-APIKEY': credentials.apiKey
     }
@@ -185,7 +205,7 @@ export async function getAllOrders(symbol: string, credentials: ApiCredentials,
   const query = buildSignedQuery(params, credentials);
 
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v1/allOrders?${query}`, {
+  const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v1/allOrders?${query}`, {
     headers: {
       'X-MBX-APIKEY': credentials.apiKey
     }
@@ -202,7 +222,32 @@ export async function setLeverage(symbol: string, leverage: number, credentials:
   const formData = buildSignedForm(params, credentials);
 
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.post(`${BASE_URL}/fapi/v1/leverage`, formData, {
+  const response: AxiosResponse = await axios.post(`${getRestBaseUrl()}/fapi/v1/leverage`, formData, {
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-MBX-APIKEY': credentials.apiKey
+    },
+  });
+
+  return response.data;
+}
+
+// Modify isolated position margin (type 1 = add, 2 = reduce)
+export async function modifyIsolatedMargin(params: {
+  symbol: string;
+  amount: number;
+  type: 1 | 2;
+  positionSide?: 'BOTH' | 'LONG' | 'SHORT';
+}, credentials: ApiCredentials): Promise<any> {
+  const formData = buildSignedForm({
+    symbol: params.symbol,
+    amount: params.amount.toFixed(2),
+    type: params.type,
+    positionSide: params.positionSide || 'BOTH',
+  }, credentials);
+
+  const axios = getRateLimitedAxios();
+  const response: AxiosResponse = await axios.post(`${getRestBaseUrl()}/fapi/v1/positionMargin`, formData, {
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
       'X-MBX-APIKEY': credentials.apiKey
@@ -218,7 +263,7 @@ export async function getPositions(credentials: ApiCredentials): Promise<any[]>
   const query = buildSignedQuery(params, credentials);
 
   const axios = getRateLimitedAxios();
-  const response: AxiosResponse = await axios.get(`${BASE_URL}/fapi/v2/positionRisk?${query}`, {
+  const response: AxiosResponse = await axios.get(`${getRestBaseUrl()}/fapi/v2/positionRisk?${query}`, {
     headers: {
       'X-MBX-APIKEY': credentials.apiKey
     }
@@ -250,7 +295,7 @@ export async function getUserTrades(
 
   const axios = getRateLimitedAxios();
   const response: AxiosResponse<Trade[]> = await axios.get(
-    `${BASE_URL}/fapi/v1/userTrades?${query}`,
+    `${getRestBaseUrl()}/fapi/v1/userTrades?${query}`,
     {
       headers: {
         'X-MBX-APIKEY': credentials.apiKey
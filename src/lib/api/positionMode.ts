@@ -1,8 +1,7 @@
 import { buildSignedQuery, buildSignedForm } from './auth';
 import { ApiCredentials } from '../types';
 import { getRateLimitedAxios } from './requestInterceptor';
-
-const BASE_URL = 'https://fapi.asterdex.com';
+import { getRestBaseUrl } from './endpoints';
 
 export interface PositionModeResponse {
   dualSidePosition: boolean;
@@ -14,7 +13,7 @@ export async function getPositionMode(api: ApiCredentials): Promise<boolean> {
   try {
     const axios = getRateLimitedAxios();
     const response = await axios.get<PositionModeResponse>(
-      `${BASE_URL}/fapi/v1/positionSide/dual?${queryString}`,
+      `${getRestBaseUrl()}/fapi/v1/positionSide/dual?${queryString}`,
       {
         headers: {
           'X-MBX-APIKEY': api.apiKey,
@@ -37,7 +36,7 @@ export async function setPositionMode(dualSidePosition: boolean, api: ApiCredent
   try {
     const axios = getRateLimitedAxios();
     await axios.post(
-      `${BASE_URL}/fapi/v1/positionSide/dual`,
+      `${getRestBaseUrl()}/fapi/v1/positionSide/dual`,
       params.toString(),
       {
         headers: {
@@ -296,4 +296,56 @@ export async function analyzeOrderBookDepth(
       liquidityOk: false
     };
   }
-}
\ No newline at end of file
+}
+export interface OrderBookLiquidity {
+  bestBid: number;
+  bestAsk: number;
+  midPrice: number;
+  spreadBps: number;
+  rangeBps: number;       // Window around the mid price used for the depth figures
+  bidDepthUSDT: number;   // Bid notional within rangeBps of the mid price
+  askDepthUSDT: number;   // Ask notional within rangeBps of the mid price
+}
+
+// Book levels come back as [price, quantity] pairs from the exchange
+function parseBookLevel(level: any): { price: number; quantity: number } {
+  return Array.isArray(level)
+    ? { price: parseFloat(level[0]), quantity: parseFloat(level[1]) }
+    : { price: parseFloat(level.price), quantity: parseFloat(level.quantity) };
+}
+
+// Spread and depth within rangeBps of the mid price, or null for an empty or crossed book
+export function measureOrderBookLiquidity(orderBook: { bids: any[]; asks: any[] }, rangeBps: number): OrderBookLiquidity | null {
+  const bids = (orderBook.bids || []).map(parseBookLevel);
+  const asks = (orderBook.asks || []).map(parseBookLevel);
+  if (bids.length === 0 || asks.length === 0) {
+    return null;
+  }
+
+  const bestBid = bids[0].price;
+  const bestAsk = asks[0].price;
+  if (!(bestBid > 0) || !(bestAsk > bestBid)) {
+    return null;
+  }
+
+  const midPrice = (bestBid + bestAsk) / 2;
+  const range = midPrice * (rangeBps / 10000);
+  const sumDepth = (levels: { price: number; quantity: number }[], withinRange: (price: number) => boolean) =>
+    levels.reduce((total, level) => withinRange(level.price) ? total + level.price * level.quantity : total, 0);
+
+  return {
+    bestBid,
+    bestAsk,
+    midPrice,
+    spreadBps: ((bestAsk - bestBid) / midPrice) * 10000,
+    rangeBps,
+    bidDepthUSDT: sumDepth(bids, price => price >= midPrice - range),
+    askDepthUSDT: sumDepth(asks, price => price <= midPrice + range),
+  };
+}
+
+// Fetch the book and measure spread and near-touch depth
+export async function getOrderBookLiquidity(symbol: string, rangeBps: number, limit: number = 50): Promise<OrderBookLiquidity | null> {
+  const orderBook = await getOrderBook(symbol, limit);
+  return measureOrderBookLiquidity(orderBook, rangeBps);
+}
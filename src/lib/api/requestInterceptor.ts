@@ -7,6 +7,7 @@
 
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { getRateLimitManager, RequestPriority } from './rateLimitManager';
+import { getRestBaseUrl } from './endpoints';
 
 // Endpoint weight mapping based on API documentation
 const ENDPOINT_WEIGHTS: Record<string, number> = {
@@ -78,11 +79,11 @@ export interface RateLimitedAxiosInstance extends AxiosInstance {
 }
 
 /**
- * Create a rate-limited axios instance
+ * Create a rate-limited axios instance (without a base URL it follows the configured REST endpoint)
  */
-export function createRateLimitedAxios(baseURL: string = 'https://fapi.asterdex.com'): RateLimitedAxiosInstance {
+export function createRateLimitedAxios(baseURL?: string): RateLimitedAxiosInstance {
+  const resolveBaseUrl = () => baseURL ?? getRestBaseUrl();
   const instance = axios.create({
-    baseURL,
     timeout: 10000,  // Default timeout, will be overridden for specific endpoints
   }) as RateLimitedAxiosInstance;
 
@@ -92,6 +93,9 @@ export function createRateLimitedAxios(baseURL: string = 'https://fapi.asterdex.
   // Request interceptor
   instance.interceptors.request.use(
     async (config: InternalAxiosRequestConfig) => {
+      // Resolved per request so a paper/testnet/live switch takes effect without a new instance
+      config.baseURL = resolveBaseUrl();
+
       // Extract endpoint from URL
       const url = config.url || '';
       const endpoint = url.split('?')[0];
@@ -178,8 +182,8 @@ export function createRateLimitedAxios(baseURL: string = 'https://fapi.asterdex.
       // Extract path from full URL
       const urlObj = new URL(endpoint);
       endpoint = urlObj.pathname;
-    } else if (endpoint.startsWith(baseURL)) {
-      endpoint = endpoint.replace(baseURL, '');
+    } else if (endpoint.startsWith(resolveBaseUrl())) {
+      endpoint = endpoint.replace(resolveBaseUrl(), '');
     }
 
     const weight = ENDPOINT_WEIGHTS[endpoint] || 1;
@@ -202,8 +206,8 @@ export function createRateLimitedAxios(baseURL: string = 'https://fapi.asterdex.
     if (endpoint.startsWith('http')) {
       const urlObj = new URL(endpoint);
       endpoint = urlObj.pathname;
-    } else if (endpoint.startsWith(baseURL)) {
-      endpoint = endpoint.replace(baseURL, '');
+    } else if (endpoint.startsWith(resolveBaseUrl())) {
+      endpoint = endpoint.replace(resolveBaseUrl(), '');
     }
 
     const weight = ENDPOINT_WEIGHTS[endpoint] || 1;
@@ -224,8 +228,8 @@ export function createRateLimitedAxios(baseURL: string = 'https://fapi.asterdex.
     if (endpoint.startsWith('http')) {
       const urlObj = new URL(endpoint);
       endpoint = urlObj.pathname;
-    } else if (endpoint.startsWith(baseURL)) {
-      endpoint = endpoint.replace(baseURL, '');
+    } else if (endpoint.startsWith(resolveBaseUrl())) {
+      endpoint = endpoint.replace(resolveBaseUrl(), '');
     }
 
     const weight = ENDPOINT_WEIGHTS[endpoint] || 1;
@@ -246,8 +250,8 @@ export function createRateLimitedAxios(baseURL: string = 'https://fapi.asterdex.
     if (endpoint.startsWith('http')) {
       const urlObj = new URL(endpoint);
       endpoint = urlObj.pathname;
-    } else if (endpoint.startsWith(baseURL)) {
-      endpoint = endpoint.replace(baseURL, '');
+    } else if (endpoint.startsWith(resolveBaseUrl())) {
+      endpoint = endpoint.replace(resolveBaseUrl(), '');
     }
 
     const weight = ENDPOINT_WEIGHTS[endpoint] || 1;
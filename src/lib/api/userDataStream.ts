@@ -1,11 +1,9 @@
 import WebSocket from 'ws';
 import { ApiCredentials } from '../types';
 import { getRateLimitedAxios } from './requestInterceptor';
+import { getRestBaseUrl, getUserStreamUrl } from './endpoints';
 import { logWithTimestamp, logErrorWithTimestamp, logWarnWithTimestamp } from '../utils/timestamp';
 
-const BASE_URL = 'https://fapi.asterdex.com';
-const WS_BASE_URL = 'wss://fstream.asterdex.com';
-
 export interface BalanceUpdate {
   asset: string;
   walletBalance: string;
@@ -109,7 +107,7 @@ logWithTimestamp('[UserDataStream] User data stream stopped');
   private async getListenKey(): Promise<string> {
     try {
       const axios = getRateLimitedAxios();
-      const response = await axios.post(`${BASE_URL}/fapi/v1/listenKey`, {}, {
+      const response = await axios.post(`${getRestBaseUrl()}/fapi/v1/listenKey`, {}, {
         headers: {
           'X-MBX-APIKEY': this.credentials.apiKey
         }
@@ -129,7 +127,7 @@ logErrorWithTimestamp('[UserDataStream] Response data:', (error as any).response
 
     try {
       const axios = getRateLimitedAxios();
-      await axios.put(`${BASE_URL}/fapi/v1/listenKey`, {}, {
+      await axios.put(`${getRestBaseUrl()}/fapi/v1/listenKey`, {}, {
         headers: {
           'X-MBX-APIKEY': this.credentials.apiKey
         }
@@ -144,7 +142,7 @@ logErrorWithTimestamp('[UserDataStream] Failed to keepalive listen key:', error
     if (!this.listenKey) return;
 
     const axios = getRateLimitedAxios();
-    await axios.delete(`${BASE_URL}/fapi/v1/listenKey`, {
+    await axios.delete(`${getRestBaseUrl()}/fapi/v1/listenKey`, {
       headers: {
         'X-MBX-APIKEY': this.credentials.apiKey
       }
@@ -155,7 +153,7 @@ logErrorWithTimestamp('[UserDataStream] Failed to keepalive listen key:', error
     if (!this.listenKey) throw new Error('No listen key available');
 
     return new Promise((resolve, reject) => {
-      this.ws = new WebSocket(`${WS_BASE_URL}/ws/${this.listenKey}`);
+      this.ws = new WebSocket(getUserStreamUrl(this.listenKey!));
 
       this.ws.on('open', () => {
 logWithTimestamp('User data stream WebSocket connected');
@@ -0,0 +1,770 @@
+import { Config, Kline, LiquidationEvent, SymbolConfig } from '../types';
+import { getSignalStrategy } from '../bot/signalStrategy';
+import { calculateRiskBasedSize, getFixedTradeMargin, getSizingFilters, SizingFilters } from '../bot/positionSizing';
+import { calculateATR, getVolatilityStopSettings, resolveProtectionDistances, ProtectionDistances } from '../bot/volatilityStops';
+import { evaluateExitRules, getExitRuleSettings } from '../bot/exitRules';
+import { createTrailingStopState, getTrailingStopSettings, updateTrailingStop, usesFixedTakeProfit, TrailingStopState } from '../bot/trailingStop';
+import { evaluateExposureLimits } from '../bot/exposureLimits';
+import { PaperExecutionEngine, PaperExitType, PaperFill } from '../bot/paperExecution';
+import { ThresholdMonitor } from '../services/thresholdMonitor';
+import { getStaticThresholds } from '../services/adaptiveThresholds';
+import { vwapService } from '../services/vwapService';
+import { liquidationStorage, StoredLiquidation } from '../services/liquidationStorage';
+import { DEFAULT_PAPER_STARTING_BALANCE } from '../db/paperAccountDb';
+import { calculatePerformanceMetrics, DailyPnL, PerformanceMetrics } from '../api/income';
+import { getExchangeInfo } from '../api/market';
+import { symbolPrecision } from '../utils/symbolPrecision';
+import { logWithTimestamp, logWarnWithTimestamp } from '../utils/timestamp';
+import { aggregateKlines, klineCache, KLINE_INTERVAL_MS } from './klineCache';
+
+export type BacktestExitReason = 'SL' | 'TP' | 'TRAILING' | 'BREAKEVEN' | 'TIMEOUT' | 'END';
+
+export interface BacktestTrade {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  entryTime: number;
+  exitTime: number;
+  entryPrice: number;         // Average of the entry fills
+  exitPrice: number;
+  quantity: number;
+  marginUSDT: number;
+  realizedPnl: number;        // Price PnL before fees
+  fees: number;
+  slippage: number;           // USDT lost to slippage on entry and exit fills
+  netPnl: number;
+  exitReason: BacktestExitReason;
+  protection: ProtectionDistances['source'];
+}
+
+export interface EquityPoint {
+  time: number;
+  equity: number;             // Starting balance plus net PnL of closed trades
+}
+
+export interface BacktestData {
+  liquidations: LiquidationEvent[];
+  klines: Record<string, Kline[]>;                  // 1m candles per symbol, oldest first
+  sizingFilters?: Record<string, SizingFilters>;    // Exchange lot sizes for RISK sizing, defaults otherwise
+}
+
+export interface BacktestOptions {
+  startingBalance?: number;
+  startTime?: number;         // Earlier liquidations are ignored, earlier candles still feed ATR and VWAP
+  endTime?: number;
+}
+
+export interface BacktestSummary {
+  startTime: number;
+  endTime: number;
+  startingBalance: number;
+  endingBalance: number;
+  netPnl: number;
+  returnPercent: number;
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;
+  fees: number;
+  slippage: number;
+  maxDrawdownPercent: number;
+  liquidations: number;       // Liquidations replayed for configured symbols
+  signals: number;            // Liquidations the signal strategy turned into a trade side
+  blocked: Record<string, number>;  // Signals that did not become orders, by reason
+}
+
+export interface BacktestResult {
+  summary: BacktestSummary;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  dailyPnL: DailyPnL[];
+  metrics: PerformanceMetrics;
+}
+
+interface SimulatedPosition {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  isLong: boolean;
+  quantity: number;
+  entryPrice: number;
+  marginUSDT: number;
+  openedAt: number;
+  fees: number;
+  slippage: number;
+  protection: ProtectionDistances;
+  slPrice?: number;
+  tpPrice?: number;
+  trailingStop?: TrailingStopState;
+  breakevenPrice?: number;
+  timedOut?: boolean;
+  timeoutTp?: boolean;        // The TP was tightened by a timeout
+}
+
+const MINUTE_MS = KLINE_INTERVAL_MS['1m'];
+const DAY_MS = KLINE_INTERVAL_MS['1d'];
+const DEFAULT_COOLDOWN_MS = 30000;
+const DEFAULT_MAX_OPEN_POSITIONS = 10;
+const LIQUIDATION_PAGE_SIZE = 5000;
+
+/**
+ * Price path inside a 1m candle, one tick every 15 seconds: open, the extreme
+ * on the far side of the close, the other extreme, close. Stops and targets
+ * are checked at every tick, so which one a wide candle reaches first follows
+ * its direction instead of always favouring the stop or the target.
+ */
+function getIntrabarPath(kline: Kline): number[] {
+  const open = parseFloat(kline.open);
+  const high = parseFloat(kline.high);
+  const low = parseFloat(kline.low);
+  const close = parseFloat(kline.close);
+  return close >= open ? [open, low, high, close] : [open, high, low, close];
+}
+
+function toDateString(time: number): string {
+  return new Date(time).toISOString().split('T')[0];
+}
+
+export function toLiquidationEvent(stored: StoredLiquidation): LiquidationEvent {
+  return {
+    symbol: stored.symbol,
+    side: stored.side,
+    orderType: stored.order_type,
+    quantity: stored.quantity,
+    price: stored.price,
+    averagePrice: stored.average_price,
+    orderStatus: stored.order_status,
+    orderLastFilledQuantity: stored.order_last_filled_quantity,
+    orderFilledAccumulatedQuantity: stored.order_filled_accumulated_quantity,
+    orderTradeTime: stored.order_trade_time,
+    eventTime: stored.event_time,
+    qty: stored.quantity,
+    time: stored.event_time,
+  };
+}
+
+/**
+ * Backtester
+ *
+ * Replays liquidations and 1m candles on a simulated clock through the code the
+ * live bot trades with, instead of a separate model of it:
+ * - thresholds (ThresholdMonitor or the static per-side thresholds), cooldowns,
+ *   the signal strategy and VWAP protection decide entries as in the Hunter
+ * - FIXED or RISK sizing, exposure limits, maxOpenPositions and
+ *   maxPositionMarginUSDT gate them
+ * - PaperExecutionEngine fills entries and exits with the configured fees,
+ *   slippage and limit queueing
+ * - SL/TP (fixed or ATR-scaled), breakeven and timeout rules and the trailing
+ *   stop close positions as in the PositionManager's paper mode
+ *
+ * Order book and funding filters are skipped, as when replaying a recording:
+ * there is no history of either. Adaptive thresholds fall back to the static
+ * ones, and TP ladders and scale-in adds are not simulated - a signal for a
+ * side that already has a position is counted as blocked.
+ */
+export class Backtester {
+  private paperExecution = new PaperExecutionEngine(false);
+  private thresholdMonitor: ThresholdMonitor | null = null;
+  private klines: Map<string, Kline[]> = new Map();
+  private sizingFilters: Record<string, SizingFilters> = {};
+  private lastPrices: Map<string, number> = new Map();
+  private positions: Map<string, SimulatedPosition> = new Map();
+  private lastTradeTimestamps: Map<string, { long: number; short: number }> = new Map();
+  private trades: BacktestTrade[] = [];
+  private equityCurve: EquityPoint[] = [];
+  private equity = 0;
+  private liquidationCount = 0;
+  private signalCount = 0;
+  private blocked: Record<string, number> = {};
+
+  constructor(private config: Config, private startingBalance: number = DEFAULT_PAPER_STARTING_BALANCE) {
+    // Backtests use the configured fee rates - account rates would need a network call per symbol
+    this.paperExecution.updateConfig({
+      ...config,
+      global: { ...config.global, paperExecution: { ...config.global.paperExecution, useExchangeFees: false } },
+    });
+  }
+
+  async run(data: BacktestData, options: Omit<BacktestOptions, 'startingBalance'> = {}): Promise<BacktestResult> {
+    this.reset(data);
+
+    const liquidations = data.liquidations
+      .filter(liquidation => this.config.symbols[liquidation.symbol])
+      .filter(liquidation => (options.startTime === undefined || liquidation.eventTime >= options.startTime) &&
+        (options.endTime === undefined || liquidation.eventTime <= options.endTime))
+      .sort((a, b) => a.eventTime - b.eventTime);
+
+    // Every minute any symbol has a candle for, each becoming four ticks per symbol
+    const candlesByMinute = new Map<string, Map<number, Kline>>();
+    const minutes = new Set<number>();
+    for (const [symbol, klines] of this.klines) {
+      const byMinute = new Map<number, Kline>();
+      for (const kline of klines) {
+        if (options.endTime !== undefined && kline.openTime > options.endTime) continue;
+        byMinute.set(kline.openTime, kline);
+        minutes.add(kline.openTime);
+      }
+      candlesByMinute.set(symbol, byMinute);
+    }
+    const timeline = Array.from(minutes).sort((a, b) => a - b);
+
+    const startTime = options.startTime ?? liquidations[0]?.eventTime ?? timeline[0] ?? 0;
+    const endTime = options.endTime ?? Math.max(
+      liquidations[liquidations.length - 1]?.eventTime ?? 0,
+      (timeline[timeline.length - 1] ?? 0) + MINUTE_MS - 1
+    );
+    this.equityCurve.push({ time: startTime, equity: this.equity });
+
+    try {
+      let nextLiquidation = 0;
+      for (const minute of timeline) {
+        for (let step = 0; step < 4; step++) {
+          const tickTime = minute + step * (MINUTE_MS / 4);
+
+          // Liquidations see the last price before them, never the tick they coincide with
+          while (nextLiquidation < liquidations.length && liquidations[nextLiquidation].eventTime < tickTime) {
+            await this.onLiquidation(liquidations[nextLiquidation++]);
+          }
+
+          for (const [symbol, byMinute] of candlesByMinute) {
+            const kline = byMinute.get(minute);
+            if (kline) {
+              this.onPriceTick(symbol, getIntrabarPath(kline)[step], tickTime, step === 0);
+            }
+          }
+        }
+      }
+
+      while (nextLiquidation < liquidations.length) {
+        await this.onLiquidation(liquidations[nextLiquidation++]);
+      }
+
+      // Whatever is still open is marked out at the last price
+      this.paperExecution.cancelAll();
+      for (const [key, position] of Array.from(this.positions.entries())) {
+        const price = this.lastPrices.get(position.symbol) ?? position.entryPrice;
+        this.closePosition(key, position, 'MARKET', 'END', price, price, endTime);
+      }
+    } finally {
+      this.thresholdMonitor?.destroy();
+      this.thresholdMonitor = null;
+    }
+
+    const dailyPnL = this.buildDailyPnL(startTime, endTime);
+    return {
+      summary: this.buildSummary(startTime, endTime),
+      trades: this.trades,
+      equityCurve: this.equityCurve,
+      dailyPnL,
+      metrics: calculatePerformanceMetrics(dailyPnL),
+    };
+  }
+
+  private reset(data: BacktestData): void {
+    this.klines = new Map(Object.entries(data.klines)
+      .filter(([symbol]) => this.config.symbols[symbol])
+      .map(([symbol, klines]) => [symbol, [...klines].sort((a, b) => a.openTime - b.openTime)]));
+    this.sizingFilters = data.sizingFilters || {};
+    this.lastPrices.clear();
+    this.positions.clear();
+    this.lastTradeTimestamps.clear();
+    this.paperExecution.cancelAll();
+    this.trades = [];
+    this.equityCurve = [];
+    this.equity = this.startingBalance;
+    this.liquidationCount = 0;
+    this.signalCount = 0;
+    this.blocked = {};
+    this.thresholdMonitor?.destroy();
+    this.thresholdMonitor = this.config.global.useThresholdSystem ? new ThresholdMonitor(this.config) : null;
+  }
+
+  private block(reason: string): void {
+    this.blocked[reason] = (this.blocked[reason] || 0) + 1;
+  }
+
+  // Threshold, signal and cooldown checks of Hunter.handleLiquidationEvent, on the simulated clock
+  private async onLiquidation(liquidation: LiquidationEvent): Promise<void> {
+    const symbolConfig = this.config.symbols[liquidation.symbol];
+    const now = liquidation.eventTime;
+    this.liquidationCount++;
+
+    const volumeUSDT = liquidation.qty * liquidation.price;
+    const useThresholdSystem = this.config.global.useThresholdSystem === true && symbolConfig.useThreshold === true;
+
+    // Thresholds are per liquidation side (long = SELL liquidations), whatever trade the strategy takes
+    let triggerVolume = volumeUSDT;
+    const staticThresholds = getStaticThresholds(symbolConfig);
+    let threshold = liquidation.side === 'SELL' ? staticThresholds.long : staticThresholds.short;
+    if (useThresholdSystem) {
+      const status = this.thresholdMonitor?.processLiquidation(liquidation, now);
+      if (!status) return;
+      triggerVolume = liquidation.side === 'SELL' ? status.recentLongVolume : status.recentShortVolume;
+      threshold = liquidation.side === 'SELL' ? status.longThreshold : status.shortThreshold;
+      if (threshold <= 0) return;
+    }
+    if (triggerVolume < threshold) return;
+
+    const markPrice = this.lastPrices.get(liquidation.symbol);
+    if (markPrice === undefined) {
+      this.block('NO_PRICE_DATA');
+      return;
+    }
+
+    const vwap = symbolConfig.vwapProtection
+      ? this.getVWAP(liquidation.symbol, symbolConfig.vwapTimeframe || '1m', symbolConfig.vwapLookback || 100, now)
+      : null;
+
+    // The strategy picks the side, which picks the cooldown
+    const decision = getSignalStrategy(symbolConfig.signalStrategy).evaluate(liquidation, {
+      markPrice,
+      volumeUSDT,
+      vwap: vwap ?? undefined
+    }, symbolConfig);
+    const tradeSide = decision.side;
+    if (!tradeSide) return;
+
+    const cooldownPeriod = symbolConfig.thresholdCooldown || DEFAULT_COOLDOWN_MS;
+    const symbolTrades = this.lastTradeTimestamps.get(liquidation.symbol) || { long: 0, short: 0 };
+    const lastTradeTime = tradeSide === 'BUY' ? symbolTrades.long : symbolTrades.short;
+    if (now - lastTradeTime < cooldownPeriod) return;
+
+    if (tradeSide === 'BUY') {
+      symbolTrades.long = now;
+    } else {
+      symbolTrades.short = now;
+    }
+    this.lastTradeTimestamps.set(liquidation.symbol, symbolTrades);
+    this.signalCount++;
+
+    // Same rule as vwapService.checkVWAPFilter - and like it, allow the trade when there is no VWAP
+    if (vwap !== null && (tradeSide === 'BUY' ? liquidation.price > vwap : liquidation.price < vwap)) {
+      this.block('VWAP_FILTER');
+      return;
+    }
+
+    await this.placeTrade(liquidation.symbol, tradeSide, symbolConfig, liquidation.price, markPrice, now);
+  }
+
+  private async placeTrade(symbol: string, side: 'BUY' | 'SELL', symbolConfig: SymbolConfig, entryPrice: number, markPrice: number, now: number): Promise<void> {
+    const positionSide = side === 'BUY' ? 'LONG' : 'SHORT';
+    const currentMargin = this.getMarginUsage(symbol);
+
+    let marginUSDT = getFixedTradeMargin(symbolConfig, side);
+    if (this.config.global.sizingMode === 'RISK') {
+      // Risk is measured to the stop the position will get, ATR-scaled when volatility stops are on
+      const protection = resolveProtectionDistances(symbolConfig, entryPrice, this.getATR(symbol, symbolConfig, now));
+      const size = calculateRiskBasedSize({
+        balance: this.equity,
+        riskPercent: this.config.global.riskPercent,
+        slPercent: protection.slPercent,
+        leverage: symbolConfig.leverage,
+        price: entryPrice,
+        maxPositionMarginUSDT: symbolConfig.maxPositionMarginUSDT,
+        currentMarginUSDT: currentMargin,
+        filters: this.sizingFilters[symbol]
+      });
+      if (size.error) {
+        this.block('RISK_SIZING');
+        return;
+      }
+      marginUSDT = size.marginUSDT;
+    }
+
+    if (this.positions.has(`${symbol}_${positionSide}`)) {
+      this.block('POSITION_OPEN');
+      return;
+    }
+
+    const limits = this.config.global.exposureLimits;
+    if (limits?.enabled) {
+      const positions = Array.from(this.positions.values()).map(position => ({
+        symbol: position.symbol,
+        side: position.side,
+        notionalUSDT: position.quantity * (this.lastPrices.get(position.symbol) ?? position.entryPrice),
+      }));
+      const decision = evaluateExposureLimits(limits, positions, { symbol, side: positionSide, notionalUSDT: marginUSDT * symbolConfig.leverage });
+      if (!decision.allowed) {
+        this.block('EXPOSURE_LIMIT');
+        return;
+      }
+    }
+
+    if (this.paperExecution.hasPendingEntry(symbol)) {
+      this.block('PENDING_ORDER');
+      return;
+    }
+
+    const maxPositions = this.config.global.maxOpenPositions || DEFAULT_MAX_OPEN_POSITIONS;
+    if (this.positions.size + this.paperExecution.getPendingEntries().length >= maxPositions) {
+      this.block('MAX_POSITIONS');
+      return;
+    }
+
+    if (symbolConfig.maxPositionMarginUSDT && currentMargin + marginUSDT > symbolConfig.maxPositionMarginUSDT) {
+      this.block('MARGIN_LIMIT');
+      return;
+    }
+
+    const quantity = symbolPrecision.formatQuantity(symbol, (marginUSDT * symbolConfig.leverage) / entryPrice);
+    if (!(quantity > 0)) {
+      this.block('QUANTITY_TOO_SMALL');
+      return;
+    }
+
+    // Limit entries rest priceOffsetBps inside the signal price, as the Hunter prices them
+    const orderType = symbolConfig.forceMarketEntry ? 'MARKET' : (symbolConfig.orderType || 'LIMIT');
+    const offset = (symbolConfig.priceOffsetBps || 1) / 10000;
+    const orderPrice = orderType === 'LIMIT'
+      ? symbolPrecision.formatPrice(symbol, side === 'BUY' ? entryPrice * (1 - offset) : entryPrice * (1 + offset))
+      : entryPrice;
+
+    await this.paperExecution.submitEntry(
+      { symbol, side, orderType, quantity, price: orderPrice },
+      markPrice,
+      fill => this.onEntryFill(fill, symbolConfig),
+      now
+    );
+  }
+
+  // The first fill opens the position, later partial fills add to it at the average price
+  private onEntryFill(fill: PaperFill, symbolConfig: SymbolConfig): void {
+    const side = fill.side === 'BUY' ? 'LONG' : 'SHORT';
+    const key = `${fill.symbol}_${side}`;
+    const existing = this.positions.get(key);
+
+    if (existing) {
+      const quantity = existing.quantity + fill.quantity;
+      existing.entryPrice = (existing.entryPrice * existing.quantity + fill.price * fill.quantity) / quantity;
+      existing.quantity = quantity;
+      existing.marginUSDT += (fill.price * fill.quantity) / symbolConfig.leverage;
+      existing.fees += fill.fee;
+      existing.slippage += fill.slippage;
+      this.setProtectiveLevels(existing, symbolConfig);
+      return;
+    }
+
+    const position: SimulatedPosition = {
+      symbol: fill.symbol,
+      side,
+      isLong: side === 'LONG',
+      quantity: fill.quantity,
+      entryPrice: fill.price,
+      marginUSDT: (fill.price * fill.quantity) / symbolConfig.leverage,
+      openedAt: fill.time,
+      fees: fill.fee,
+      slippage: fill.slippage,
+      protection: resolveProtectionDistances(symbolConfig, fill.price, this.getATR(fill.symbol, symbolConfig, fill.time)),
+    };
+    this.setProtectiveLevels(position, symbolConfig);
+    this.positions.set(key, position);
+  }
+
+  // Simulated SL/TP and trailing stop levels, as PositionManager sets them for paper positions
+  private setProtectiveLevels(position: SimulatedPosition, symbolConfig: SymbolConfig): void {
+    const { entryPrice, isLong } = position;
+    const { slPercent, tpPercent } = position.protection;
+
+    position.slPrice = position.breakevenPrice ?? (isLong
+      ? entryPrice * (1 - slPercent / 100)
+      : entryPrice * (1 + slPercent / 100));
+
+    position.tpPrice = usesFixedTakeProfit(symbolConfig)
+      ? (isLong ? entryPrice * (1 + tpPercent / 100) : entryPrice * (1 - tpPercent / 100))
+      : undefined;
+
+    const trailingSettings = getTrailingStopSettings(symbolConfig);
+    position.trailingStop = trailingSettings ? createTrailingStopState(entryPrice, isLong, trailingSettings) : undefined;
+  }
+
+  private onPriceTick(symbol: string, price: number, time: number, candleOpen: boolean): void {
+    this.lastPrices.set(symbol, price);
+
+    // Queued limit entries fill against the new price first, like the paper update loop
+    this.paperExecution.processPendingOrders(orderSymbol => orderSymbol === symbol ? price : null, time);
+
+    for (const [key, position] of Array.from(this.positions.entries())) {
+      if (position.symbol === symbol) {
+        this.updatePosition(key, position, price, time, candleOpen);
+      }
+    }
+  }
+
+  /**
+   * Exit checks of PositionManager.updatePaperModePositions. Between ticks of
+   * one candle the price moves through a trigger, so stops fill at the trigger;
+   * at a candle open the price may have gapped past it and fills there.
+   */
+  private updatePosition(key: string, position: SimulatedPosition, price: number, time: number, candleOpen: boolean): void {
+    const { entryPrice, isLong } = position;
+    const symbolConfig = this.config.symbols[position.symbol];
+    const crossedAt = (trigger: number) => candleOpen ? price : trigger;
+
+    const exitRules = getExitRuleSettings(symbolConfig);
+    if (exitRules) {
+      const decision = evaluateExitRules(exitRules, { entryPrice, markPrice: price, isLong, openedAt: position.openedAt }, position, time);
+      if (decision.timeout) {
+        position.timedOut = true;
+        // Trailing-only exits have no fixed TP to tighten and keep running
+        const keepExits = exitRules.timeout!.action === 'TIGHTEN_TP' && position.tpPrice === undefined;
+        if (!keepExits && decision.timeout === 'CLOSE') {
+          this.closePosition(key, position, 'MARKET', 'TIMEOUT', price, price, time);
+          return;
+        } else if (!keepExits) {
+          position.tpPrice = decision.tightenedTpPrice;
+          position.timeoutTp = true;
+        }
+      }
+      if (decision.moveToBreakeven) {
+        position.breakevenPrice = decision.breakevenPrice;
+        position.slPrice = decision.breakevenPrice;
+      }
+    }
+
+    if (position.slPrice !== undefined && (isLong ? price <= position.slPrice : price >= position.slPrice)) {
+      const reason = position.breakevenPrice !== undefined ? 'BREAKEVEN' : 'SL';
+      this.closePosition(key, position, 'STOP', reason, position.slPrice, crossedAt(position.slPrice), time);
+      return;
+    }
+
+    if (position.tpPrice !== undefined && (isLong ? price >= position.tpPrice : price <= position.tpPrice)) {
+      this.closePosition(key, position, 'TAKE_PROFIT', position.timeoutTp ? 'TIMEOUT' : 'TP', position.tpPrice, price, time);
+      return;
+    }
+
+    if (position.trailingStop) {
+      const { triggered, stopPrice } = updateTrailingStop(position.trailingStop, price, isLong);
+      if (triggered) {
+        this.closePosition(key, position, 'STOP', 'TRAILING', stopPrice, crossedAt(stopPrice), time);
+      }
+    }
+  }
+
+  private closePosition(
+    key: string,
+    position: SimulatedPosition,
+    type: PaperExitType,
+    reason: BacktestExitReason,
+    triggerPrice: number,
+    markPrice: number,
+    time: number
+  ): void {
+    const exit = this.paperExecution.simulateExit(position.symbol, {
+      type,
+      isLong: position.isLong,
+      quantity: position.quantity,
+      triggerPrice,
+      markPrice,
+    });
+
+    const realizedPnl = position.isLong
+      ? (exit.price - position.entryPrice) * position.quantity
+      : (position.entryPrice - exit.price) * position.quantity;
+    const fees = position.fees + exit.fee;
+    const netPnl = realizedPnl - fees;
+
+    this.trades.push({
+      symbol: position.symbol,
+      side: position.side,
+      entryTime: position.openedAt,
+      exitTime: time,
+      entryPrice: position.entryPrice,
+      exitPrice: exit.price,
+      quantity: position.quantity,
+      marginUSDT: position.marginUSDT,
+      realizedPnl,
+      fees,
+      slippage: position.slippage + exit.slippage,
+      netPnl,
+      exitReason: reason,
+      protection: position.protection.source,
+    });
+
+    this.positions.delete(key);
+    this.equity += netPnl;
+    this.equityCurve.push({ time, equity: this.equity });
+  }
+
+  private getMarginUsage(symbol: string): number {
+    let margin = 0;
+    for (const position of this.positions.values()) {
+      if (position.symbol === symbol) margin += position.marginUSDT;
+    }
+    return margin;
+  }
+
+  // The last `count` 1m candles that closed before `time`
+  private getClosedKlines(symbol: string, time: number, count: number): Kline[] {
+    const klines = this.klines.get(symbol) || [];
+    let low = 0;
+    let high = klines.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (klines[mid].openTime + MINUTE_MS <= time) low = mid + 1; else high = mid;
+    }
+    return klines.slice(Math.max(0, low - count), low);
+  }
+
+  private getCandles(symbol: string, interval: string, count: number, time: number): Kline[] {
+    const intervalMinutes = (KLINE_INTERVAL_MS[interval] || MINUTE_MS) / MINUTE_MS;
+    const klines = this.getClosedKlines(symbol, time, count * intervalMinutes);
+    return interval === '1m' ? klines : aggregateKlines(klines, interval).slice(-count);
+  }
+
+  private getVWAP(symbol: string, timeframe: string, lookback: number, time: number): number | null {
+    try {
+      return vwapService.calculateVWAP(this.getCandles(symbol, timeframe, lookback, time));
+    } catch {
+      return null;
+    }
+  }
+
+  // ATR as getSymbolATR computes it, from the candles that had closed at entry time
+  private getATR(symbol: string, symbolConfig: SymbolConfig, time: number): number | null {
+    const settings = getVolatilityStopSettings(symbolConfig);
+    if (!settings) return null;
+
+    const candles = this.getCandles(symbol, settings.timeframe, settings.period * 3 + 1, time);
+    return calculateATR(candles.map(kline => ({
+      high: parseFloat(kline.high),
+      low: parseFloat(kline.low),
+      close: parseFloat(kline.close)
+    })), settings.period);
+  }
+
+  // One row per UTC day of the backtest, days without closed trades included
+  private buildDailyPnL(startTime: number, endTime: number): DailyPnL[] {
+    const days = new Map<string, DailyPnL>();
+    for (let day = Math.floor(startTime / DAY_MS) * DAY_MS; day <= endTime; day += DAY_MS) {
+      const date = toDateString(day);
+      days.set(date, {
+        date,
+        realizedPnl: 0,
+        commission: 0,
+        fundingFee: 0,
+        insuranceClear: 0,
+        marketMerchantReward: 0,
+        apolloxRebate: 0,
+        usdfReward: 0,
+        netPnl: 0,
+        tradeCount: 0,
+      });
+    }
+
+    for (const trade of this.trades) {
+      const day = days.get(toDateString(trade.exitTime));
+      if (!day) continue;
+      day.realizedPnl += trade.realizedPnl;
+      day.commission -= trade.fees;       // Commission is negative income, as the exchange reports it
+      day.netPnl += trade.netPnl;
+      day.tradeCount++;
+    }
+
+    return Array.from(days.values());
+  }
+
+  private buildSummary(startTime: number, endTime: number): BacktestSummary {
+    const winningTrades = this.trades.filter(trade => trade.netPnl > 0).length;
+
+    let peak = this.startingBalance;
+    let maxDrawdownPercent = 0;
+    for (const point of this.equityCurve) {
+      peak = Math.max(peak, point.equity);
+      if (peak > 0) {
+        maxDrawdownPercent = Math.max(maxDrawdownPercent, ((peak - point.equity) / peak) * 100);
+      }
+    }
+
+    return {
+      startTime,
+      endTime,
+      startingBalance: this.startingBalance,
+      endingBalance: this.equity,
+      netPnl: this.equity - this.startingBalance,
+      returnPercent: this.startingBalance > 0 ? ((this.equity - this.startingBalance) / this.startingBalance) * 100 : 0,
+      totalTrades: this.trades.length,
+      winningTrades,
+      losingTrades: this.trades.filter(trade => trade.netPnl < 0).length,
+      winRate: this.trades.length > 0 ? (winningTrades / this.trades.length) * 100 : 0,
+      fees: this.trades.reduce((sum, trade) => sum + trade.fees, 0),
+      slippage: this.trades.reduce((sum, trade) => sum + trade.slippage, 0),
+      maxDrawdownPercent,
+      liquidations: this.liquidationCount,
+      signals: this.signalCount,
+      blocked: this.blocked,
+    };
+  }
+}
+
+// 1m candles needed before the first liquidation for the ATR and VWAP of a symbol
+export function getWarmupMs(symbolConfig: SymbolConfig): number {
+  let warmup = 0;
+
+  const stops = getVolatilityStopSettings(symbolConfig);
+  if (stops) {
+    warmup = Math.max(warmup, (stops.period * 3 + 1) * (KLINE_INTERVAL_MS[stops.timeframe] || MINUTE_MS));
+  }
+  if (symbolConfig.vwapProtection) {
+    warmup = Math.max(warmup, (symbolConfig.vwapLookback || 100) * (KLINE_INTERVAL_MS[symbolConfig.vwapTimeframe || '1m'] || MINUTE_MS));
+  }
+
+  return warmup;
+}
+
+async function loadLiquidations(symbol: string, startTime: number, endTime: number): Promise<LiquidationEvent[]> {
+  const liquidations: LiquidationEvent[] = [];
+
+  for (let offset = 0; ; offset += LIQUIDATION_PAGE_SIZE) {
+    const page = await liquidationStorage.getLiquidations({ symbol, from: startTime, to: endTime, limit: LIQUIDATION_PAGE_SIZE, offset });
+    liquidations.push(...page.liquidations.map(toLiquidationEvent));
+    if (page.liquidations.length < LIQUIDATION_PAGE_SIZE) break;
+  }
+
+  return liquidations;
+}
+
+/**
+ * Stored liquidations and cached 1m candles (with ATR/VWAP warmup) for a period,
+ * and the config scoped to the symbols loaded. Symbols default to every symbol
+ * in the config; exchange precision and lot sizes are loaded when the exchange
+ * is reachable, defaults are used otherwise.
+ */
+export async function loadBacktestData(
+  config: Config,
+  options: { startTime: number; endTime: number; symbols?: string[] }
+): Promise<{ config: Config; data: BacktestData }> {
+  const symbols = (options.symbols || Object.keys(config.symbols)).filter(symbol => config.symbols[symbol]);
+
+  try {
+    symbolPrecision.parseExchangeInfo(await getExchangeInfo());
+  } catch (error: any) {
+logWarnWithTimestamp('Backtester: Failed to load exchange info, using default precision:', error?.message || error);
+  }
+
+  const data: BacktestData = { liquidations: [], klines: {}, sizingFilters: {} };
+  for (const symbol of symbols) {
+    const warmupMs = getWarmupMs(config.symbols[symbol]);
+    data.liquidations.push(...await loadLiquidations(symbol, options.startTime, options.endTime));
+    data.klines[symbol] = await klineCache.getKlines(symbol, '1m', options.startTime - warmupMs, options.endTime);
+    if (config.global.sizingMode === 'RISK') {
+      data.sizingFilters![symbol] = await getSizingFilters(symbol);
+    }
+  }
+
+  return {
+    config: { ...config, symbols: Object.fromEntries(symbols.map(symbol => [symbol, config.symbols[symbol]])) },
+    data,
+  };
+}
+
+/**
+ * Backtest a config over stored liquidations and cached 1m candles
+ */
+export async function runBacktest(
+  config: Config,
+  options: BacktestOptions & { startTime: number; endTime: number; symbols?: string[] }
+): Promise<BacktestResult> {
+  const { config: scoped, data } = await loadBacktestData(config, options);
+
+logWithTimestamp(`Backtester: Replaying ${data.liquidations.length} liquidations across ${Object.keys(scoped.symbols).length} symbols`);
+
+  return new Backtester(scoped, options.startingBalance).run(data, { startTime: options.startTime, endTime: options.endTime });
+}
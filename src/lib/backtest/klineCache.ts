@@ -0,0 +1,129 @@
+import fs from 'fs';
+import path from 'path';
+import { Kline } from '../types';
+import { getKlines } from '../api/market';
+import { logWithTimestamp } from '../utils/timestamp';
+
+export const KLINE_INTERVAL_MS: Record<string, number> = {
+  '1m': 60_000, '3m': 180_000, '5m': 300_000, '15m': 900_000, '30m': 1_800_000,
+  '1h': 3_600_000, '2h': 7_200_000, '4h': 14_400_000, '1d': 86_400_000,
+};
+
+const CACHE_DIR = path.join(process.cwd(), 'data', 'klines');
+const MAX_KLINES_PER_REQUEST = 1500;
+
+/**
+ * Combine consecutive candles (oldest first) into candles of a longer interval,
+ * aligned to the interval boundaries. A trailing bucket that is still forming
+ * is kept, as the exchange returns the open candle last.
+ */
+export function aggregateKlines(klines: Kline[], interval: string): Kline[] {
+  const intervalMs = KLINE_INTERVAL_MS[interval];
+  if (!intervalMs) {
+    throw new Error(`Unsupported kline interval: ${interval}`);
+  }
+
+  const aggregated: Kline[] = [];
+  for (const kline of klines) {
+    const openTime = Math.floor(kline.openTime / intervalMs) * intervalMs;
+    const last = aggregated[aggregated.length - 1];
+
+    if (last && last.openTime === openTime) {
+      last.high = String(Math.max(parseFloat(last.high), parseFloat(kline.high)));
+      last.low = String(Math.min(parseFloat(last.low), parseFloat(kline.low)));
+      last.close = kline.close;
+      last.volume = String(parseFloat(last.volume) + parseFloat(kline.volume));
+    } else {
+      aggregated.push({ ...kline, openTime });
+    }
+  }
+
+  return aggregated;
+}
+
+/**
+ * Kline Cache
+ *
+ * Historical candles for backtests, kept as one JSON file per symbol and
+ * interval under data/klines. Requests only fetch the spans the file does not
+ * cover yet, so repeated backtests over the same period stay offline.
+ */
+class KlineCache {
+  constructor(private cacheDir: string = CACHE_DIR) {}
+
+  async getKlines(symbol: string, interval: string, startTime: number, endTime: number): Promise<Kline[]> {
+    const intervalMs = KLINE_INTERVAL_MS[interval];
+    if (!intervalMs) {
+      throw new Error(`Unsupported kline interval: ${interval}`);
+    }
+
+    const from = Math.floor(startTime / intervalMs) * intervalMs;
+    // Candles still forming are never cached - their values would go stale
+    const lastClosed = Math.floor(Date.now() / intervalMs) * intervalMs - intervalMs;
+    const to = Math.min(Math.floor(endTime / intervalMs) * intervalMs, lastClosed);
+
+    let cached = this.read(symbol, interval);
+    const missing: Array<[number, number]> = [];
+    if (cached.length === 0) {
+      missing.push([from, to]);
+    } else {
+      if (from < cached[0].openTime) missing.push([from, cached[0].openTime - intervalMs]);
+      if (to > cached[cached.length - 1].openTime) missing.push([cached[cached.length - 1].openTime + intervalMs, to]);
+    }
+
+    const fetched: Kline[] = [];
+    for (const [spanStart, spanEnd] of missing) {
+      if (spanEnd < spanStart) continue;
+      fetched.push(...await this.fetchRange(symbol, interval, spanStart, spanEnd));
+    }
+
+    if (fetched.length > 0) {
+      const byOpenTime = new Map<number, Kline>();
+      for (const kline of [...cached, ...fetched]) {
+        if (kline.openTime <= lastClosed) byOpenTime.set(kline.openTime, kline);
+      }
+      cached = Array.from(byOpenTime.values()).sort((a, b) => a.openTime - b.openTime);
+      this.write(symbol, interval, cached);
+logWithTimestamp(`KlineCache: Fetched ${fetched.length} ${interval} candles for ${symbol} (${cached.length} cached)`);
+    }
+
+    return cached.filter(kline => kline.openTime >= from && kline.openTime <= to);
+  }
+
+  private async fetchRange(symbol: string, interval: string, startTime: number, endTime: number): Promise<Kline[]> {
+    const intervalMs = KLINE_INTERVAL_MS[interval];
+    const klines: Kline[] = [];
+
+    let cursor = startTime;
+    while (cursor <= endTime) {
+      const batch = await getKlines(symbol, interval, MAX_KLINES_PER_REQUEST, { startTime: cursor, endTime });
+      if (batch.length === 0) break;
+
+      klines.push(...batch);
+      cursor = batch[batch.length - 1].openTime + intervalMs;
+    }
+
+    return klines;
+  }
+
+  private getFilePath(symbol: string, interval: string): string {
+    return path.join(this.cacheDir, `${symbol}_${interval}.json`);
+  }
+
+  private read(symbol: string, interval: string): Kline[] {
+    try {
+      const klines = JSON.parse(fs.readFileSync(this.getFilePath(symbol, interval), 'utf8'));
+      return Array.isArray(klines) ? klines : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(symbol: string, interval: string, klines: Kline[]): void {
+    fs.mkdirSync(this.cacheDir, { recursive: true });
+    fs.writeFileSync(this.getFilePath(symbol, interval), JSON.stringify(klines));
+  }
+}
+
+// Export singleton instance
+export const klineCache = new KlineCache();
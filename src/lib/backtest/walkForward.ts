@@ -0,0 +1,247 @@
+import { Config } from '../types';
+import { calculatePerformanceMetrics, DailyPnL } from '../api/income';
+import { DEFAULT_PAPER_STARTING_BALANCE } from '../db/paperAccountDb';
+import { logWithTimestamp } from '../utils/timestamp';
+import { Backtester, BacktestData, BacktestResult, getWarmupMs, loadBacktestData } from './backtester';
+import { KLINE_INTERVAL_MS } from './klineCache';
+
+export interface WalkForwardOptions {
+  trainDays: number;
+  testDays: number;
+  stepDays?: number;          // Defaults to testDays, so test windows follow each other without overlap
+  startingBalance?: number;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface WalkForwardWindow {
+  trainStart: number;
+  trainEnd: number;           // Exclusive, and where the test window starts
+  testStart: number;
+  testEnd: number;            // Exclusive
+}
+
+export interface WalkForwardMetrics {
+  netPnl: number;
+  avgDailyPnl: number;
+  sharpeRatio: number;
+  maxDrawdown: number;        // USDT, from cumulative daily PnL
+  trades: number;
+  days: number;
+}
+
+export interface WalkForwardWindowResult extends WalkForwardWindow {
+  inSample: WalkForwardMetrics;     // Optimized settings on the training window
+  outOfSample: WalkForwardMetrics;  // Optimized settings on the test window
+  baseline: WalkForwardMetrics;     // Current settings on the test window
+}
+
+export interface WalkForwardReport {
+  trainDays: number;
+  testDays: number;
+  windows: WalkForwardWindowResult[];
+  inSample: WalkForwardMetrics;
+  outOfSample: WalkForwardMetrics;
+  baseline: WalkForwardMetrics;
+  improvementPercent: number | null; // Out-of-sample daily PnL of the optimized over the current settings, null when the current one is zero
+  efficiency: number | null;  // Out-of-sample over in-sample daily PnL, null without in-sample profit
+  collapsed: boolean;
+  warning?: string;
+}
+
+// Out-of-sample daily PnL below this share of the in-sample daily PnL counts as a collapse
+export const WALK_FORWARD_COLLAPSE_EFFICIENCY = 0.5;
+
+const DAY_MS = KLINE_INTERVAL_MS['1d'];
+
+/**
+ * Rolling train/test windows over [startTime, endTime): each test window starts
+ * where its training window ends, and windows advance by stepDays until the
+ * next test window would run past the end.
+ */
+export function buildWalkForwardWindows(startTime: number, endTime: number, options: Pick<WalkForwardOptions, 'trainDays' | 'testDays' | 'stepDays'>): WalkForwardWindow[] {
+  const { trainDays, testDays, stepDays = testDays } = options;
+  if (!(trainDays > 0) || !(testDays > 0) || !(stepDays > 0)) {
+    throw new Error('Walk-forward train, test and step days must be positive');
+  }
+
+  const windows: WalkForwardWindow[] = [];
+  for (let trainStart = startTime; ; trainStart += stepDays * DAY_MS) {
+    const trainEnd = trainStart + trainDays * DAY_MS;
+    const testEnd = trainEnd + testDays * DAY_MS;
+    if (testEnd > endTime) break;
+    windows.push({ trainStart, trainEnd, testStart: trainEnd, testEnd });
+  }
+
+  return windows;
+}
+
+export function summarizeDailyPnL(dailyPnL: DailyPnL[], trades: number): WalkForwardMetrics {
+  const metrics = calculatePerformanceMetrics(dailyPnL);
+  return {
+    netPnl: metrics.totalPnl,
+    avgDailyPnl: metrics.avgDailyPnl,
+    sharpeRatio: metrics.sharpeRatio,
+    maxDrawdown: metrics.maxDrawdown,
+    trades,
+    days: dailyPnL.length,
+  };
+}
+
+/**
+ * Flags out-of-sample results that fall apart: in-sample profit that turns
+ * into a loss, or keeps less than WALK_FORWARD_COLLAPSE_EFFICIENCY of its
+ * daily PnL, on data the parameters were not chosen on
+ */
+export function assessWalkForward(inSample: WalkForwardMetrics, outOfSample: WalkForwardMetrics): Pick<WalkForwardReport, 'efficiency' | 'collapsed' | 'warning'> {
+  if (!(inSample.avgDailyPnl > 0)) {
+    return { efficiency: null, collapsed: false };
+  }
+
+  const efficiency = outOfSample.avgDailyPnl / inSample.avgDailyPnl;
+  if (outOfSample.avgDailyPnl <= 0) {
+    return {
+      efficiency,
+      collapsed: true,
+      warning: `Out-of-sample trading lost ${Math.abs(outOfSample.avgDailyPnl).toFixed(2)} USDT/day against ${inSample.avgDailyPnl.toFixed(2)} USDT/day in-sample - the optimized settings are likely overfit`,
+    };
+  }
+  if (efficiency < WALK_FORWARD_COLLAPSE_EFFICIENCY) {
+    return {
+      efficiency,
+      collapsed: true,
+      warning: `Out-of-sample trading kept only ${(efficiency * 100).toFixed(0)}% of the in-sample daily PnL - the optimized settings are likely overfit`,
+    };
+  }
+
+  return { efficiency, collapsed: false };
+}
+
+// Change in daily PnL against the current settings, as the optimizer reports it
+export function calculateImprovementPercent(baseline: WalkForwardMetrics, optimized: WalkForwardMetrics): number | null {
+  if (Math.abs(baseline.avgDailyPnl) <= 1e-6) {
+    return null;
+  }
+  return (optimized.avgDailyPnl - baseline.avgDailyPnl) / Math.abs(baseline.avgDailyPnl) * 100;
+}
+
+// Liquidations and candles (with ATR/VWAP warmup) of the given symbols inside [startTime, endTime)
+function sliceData(config: Config, data: BacktestData, symbols: string[], startTime: number, endTime: number): BacktestData {
+  const klines: BacktestData['klines'] = {};
+  for (const symbol of symbols) {
+    const from = startTime - getWarmupMs(config.symbols[symbol]);
+    klines[symbol] = (data.klines[symbol] || []).filter(kline => kline.openTime >= from && kline.openTime < endTime);
+  }
+
+  return {
+    liquidations: data.liquidations.filter(liquidation =>
+      symbols.includes(liquidation.symbol) && liquidation.eventTime >= startTime && liquidation.eventTime < endTime),
+    klines,
+    sizingFilters: data.sizingFilters,
+  };
+}
+
+/**
+ * Walk-Forward Validation
+ *
+ * The optimizer estimates its improvement on the same history it tuned the
+ * settings on, which measures how well the search fits that history, not how
+ * the settings trade afterwards. Walk-forward backtests the settings the
+ * optimizer recommends on rolling training windows (in-sample) and on the
+ * test window after each (out-of-sample), and the current settings on the same
+ * test windows, so the improvement is reported on days held out of each
+ * training window.
+ */
+export class WalkForwardValidator {
+  private startingBalance: number;
+
+  constructor(private config: Config, private optimizedConfig: Config, private options: WalkForwardOptions) {
+    this.startingBalance = options.startingBalance ?? DEFAULT_PAPER_STARTING_BALANCE;
+  }
+
+  async run(data: BacktestData, startTime: number, endTime: number): Promise<WalkForwardReport> {
+    const windows = buildWalkForwardWindows(startTime, endTime, this.options);
+    if (windows.length === 0) {
+      throw new Error(`Walk-forward needs at least ${this.options.trainDays + this.options.testDays} days of history`);
+    }
+
+    const symbols = Object.keys(this.config.symbols);
+    const results: WalkForwardWindowResult[] = [];
+    const inSampleDays: DailyPnL[] = [];
+    const outOfSampleDays: DailyPnL[] = [];
+    const baselineDays: DailyPnL[] = [];
+    let inSampleTrades = 0;
+    let outOfSampleTrades = 0;
+    let baselineTrades = 0;
+
+    for (const window of windows) {
+      const inSample = await this.backtest(this.optimizedConfig, data, symbols, window.trainStart, window.trainEnd);
+      const outOfSample = await this.backtest(this.optimizedConfig, data, symbols, window.testStart, window.testEnd);
+      const baseline = await this.backtest(this.config, data, symbols, window.testStart, window.testEnd);
+
+      inSampleDays.push(...inSample.dailyPnL);
+      outOfSampleDays.push(...outOfSample.dailyPnL);
+      baselineDays.push(...baseline.dailyPnL);
+      inSampleTrades += inSample.trades.length;
+      outOfSampleTrades += outOfSample.trades.length;
+      baselineTrades += baseline.trades.length;
+
+      results.push({
+        ...window,
+        inSample: summarizeDailyPnL(inSample.dailyPnL, inSample.trades.length),
+        outOfSample: summarizeDailyPnL(outOfSample.dailyPnL, outOfSample.trades.length),
+        baseline: summarizeDailyPnL(baseline.dailyPnL, baseline.trades.length),
+      });
+      this.options.onProgress?.(results.length, windows.length);
+    }
+
+    const inSample = summarizeDailyPnL(inSampleDays, inSampleTrades);
+    const outOfSample = summarizeDailyPnL(outOfSampleDays, outOfSampleTrades);
+    const baseline = summarizeDailyPnL(baselineDays, baselineTrades);
+
+    return {
+      trainDays: this.options.trainDays,
+      testDays: this.options.testDays,
+      windows: results,
+      inSample,
+      outOfSample,
+      baseline,
+      improvementPercent: calculateImprovementPercent(baseline, outOfSample),
+      ...assessWalkForward(inSample, outOfSample),
+    };
+  }
+
+  private async backtest(config: Config, data: BacktestData, symbols: string[], startTime: number, endTime: number): Promise<BacktestResult> {
+    return new Backtester(config, this.startingBalance).run(
+      sliceData(config, data, symbols, startTime, endTime),
+      { startTime, endTime: endTime - 1 }
+    );
+  }
+}
+
+/**
+ * Walk-forward validation of the optimizer's recommended config against the
+ * current one over the last `days` full UTC days of stored liquidations and
+ * cached candles
+ */
+export async function runWalkForwardValidation(
+  config: Config,
+  optimizedConfig: Config,
+  options: WalkForwardOptions & { days: number; symbols?: string[]; endTime?: number }
+): Promise<WalkForwardReport> {
+  const endTime = Math.floor((options.endTime ?? Date.now()) / DAY_MS) * DAY_MS;
+  const startTime = endTime - options.days * DAY_MS;
+
+  const { config: scoped, data } = await loadBacktestData(config, { startTime, endTime: endTime - 1, symbols: options.symbols });
+
+  // The optimizer's settings for the same symbols, and its position limit
+  const optimized: Config = {
+    ...scoped,
+    symbols: Object.fromEntries(Object.keys(scoped.symbols).map(symbol =>
+      [symbol, { ...scoped.symbols[symbol], ...optimizedConfig.symbols?.[symbol] }])),
+    global: { ...scoped.global, maxOpenPositions: optimizedConfig.global?.maxOpenPositions ?? scoped.global.maxOpenPositions },
+  };
+
+logWithTimestamp(`WalkForward: ${options.trainDays}d train / ${options.testDays}d test over ${options.days} days, ${Object.keys(scoped.symbols).length} symbols`);
+
+  return new WalkForwardValidator(scoped, optimized, options).run(data, startTime, endTime);
+}
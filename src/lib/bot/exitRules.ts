@@ -0,0 +1,109 @@
+import { SymbolConfig } from '../types';
+
+export type TimeoutAction = 'CLOSE' | 'TIGHTEN_TP';
+
+export interface ExitRuleSettings {
+  breakeven?: {
+    triggerPercent: number;     // Unrealized profit in % from entry that moves the SL
+    feePercent: number;         // Offset past the entry so the stop covers fees
+  };
+  timeout?: {
+    maxHoldMinutes: number;
+    action: TimeoutAction;
+    tightenedTpPercent: number; // TP distance from entry after a TIGHTEN_TP timeout
+  };
+}
+
+export interface ExitRuleState {
+  breakevenPrice?: number;      // Set once the SL has been moved
+  timedOut?: boolean;           // Set once the timeout has been applied
+}
+
+export interface ExitRuleDecision {
+  moveToBreakeven: boolean;
+  breakevenPrice?: number;
+  timeout?: TimeoutAction;
+  tightenedTpPrice?: number;
+  profitPercent: number;
+  heldMinutes?: number;
+}
+
+const DEFAULT_BREAKEVEN_FEE_PERCENT = 0.1;
+const DEFAULT_TIMEOUT_TP_PERCENT = 0.2;
+
+// Resolve breakeven/timeout rules for a symbol, or null when neither is configured
+export function getExitRuleSettings(symbolConfig: SymbolConfig | undefined): ExitRuleSettings | null {
+  const settings: ExitRuleSettings = {};
+
+  if (symbolConfig?.breakevenTriggerPercent !== undefined && symbolConfig.breakevenTriggerPercent > 0) {
+    settings.breakeven = {
+      triggerPercent: symbolConfig.breakevenTriggerPercent,
+      feePercent: Math.max(0, symbolConfig.breakevenFeePercent ?? DEFAULT_BREAKEVEN_FEE_PERCENT),
+    };
+  }
+
+  if (symbolConfig?.maxHoldMinutes !== undefined && symbolConfig.maxHoldMinutes > 0) {
+    settings.timeout = {
+      maxHoldMinutes: symbolConfig.maxHoldMinutes,
+      action: symbolConfig.timeoutAction || 'CLOSE',
+      tightenedTpPercent: Math.max(0, symbolConfig.timeoutTpPercent ?? DEFAULT_TIMEOUT_TP_PERCENT),
+    };
+  }
+
+  return settings.breakeven || settings.timeout ? settings : null;
+}
+
+// Entry price shifted in the profitable direction by the fee offset
+export function getBreakevenPrice(entryPrice: number, isLong: boolean, feePercent: number): number {
+  return isLong
+    ? entryPrice * (1 + feePercent / 100)
+    : entryPrice * (1 - feePercent / 100);
+}
+
+/**
+ * Decide which exit rules apply to an open position. Each rule fires once:
+ * breakeven when the profit reaches the trigger, the timeout when the position
+ * has been open longer than maxHoldMinutes. A TIGHTEN_TP timeout becomes a
+ * CLOSE when the price is already past the tightened target.
+ */
+export function evaluateExitRules(
+  settings: ExitRuleSettings,
+  position: { entryPrice: number; markPrice: number; isLong: boolean; openedAt?: number | null },
+  state: ExitRuleState,
+  now: number = Date.now()
+): ExitRuleDecision {
+  const { entryPrice, markPrice, isLong } = position;
+  const profitPercent = isLong
+    ? ((markPrice - entryPrice) / entryPrice) * 100
+    : ((entryPrice - markPrice) / entryPrice) * 100;
+  const decision: ExitRuleDecision = { moveToBreakeven: false, profitPercent };
+
+  if (settings.breakeven && state.breakevenPrice === undefined && profitPercent >= settings.breakeven.triggerPercent) {
+    const breakevenPrice = getBreakevenPrice(entryPrice, isLong, settings.breakeven.feePercent);
+    // The trigger can sit inside the fee offset - never place the stop on the wrong side of the price
+    if (isLong ? breakevenPrice < markPrice : breakevenPrice > markPrice) {
+      decision.moveToBreakeven = true;
+      decision.breakevenPrice = breakevenPrice;
+    }
+  }
+
+  if (settings.timeout && !state.timedOut && position.openedAt) {
+    decision.heldMinutes = (now - position.openedAt) / 60000;
+    if (decision.heldMinutes >= settings.timeout.maxHoldMinutes) {
+      decision.timeout = settings.timeout.action;
+
+      if (decision.timeout === 'TIGHTEN_TP') {
+        const tightenedTpPrice = isLong
+          ? entryPrice * (1 + settings.timeout.tightenedTpPercent / 100)
+          : entryPrice * (1 - settings.timeout.tightenedTpPercent / 100);
+        if (isLong ? markPrice >= tightenedTpPrice : markPrice <= tightenedTpPrice) {
+          decision.timeout = 'CLOSE';
+        } else {
+          decision.tightenedTpPrice = tightenedTpPrice;
+        }
+      }
+    }
+  }
+
+  return decision;
+}
@@ -0,0 +1,124 @@
+import { ExposureLimitsConfig } from '../types';
+
+export interface ExposurePosition {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  notionalUSDT: number;
+}
+
+export interface PortfolioExposure {
+  totalNotionalUSDT: number;
+  longNotionalUSDT: number;
+  shortNotionalUSDT: number;
+  netNotionalUSDT: number;        // Long minus short
+}
+
+export interface ExposureDecision {
+  allowed: boolean;
+  reason?: string;
+  limit?: 'TOTAL' | 'NET' | 'GROUP';
+  group?: string;
+  exposure: PortfolioExposure;
+}
+
+// Notional of an open position at its mark price (entry price until the first mark update)
+export function toExposurePosition(position: { symbol: string; positionAmt: string; entryPrice: string; markPrice?: string }): ExposurePosition | null {
+  const posAmt = parseFloat(position.positionAmt);
+  if (!posAmt) {
+    return null;
+  }
+
+  const markPrice = parseFloat(position.markPrice || '0');
+  const price = markPrice > 0 ? markPrice : parseFloat(position.entryPrice);
+  return {
+    symbol: position.symbol,
+    side: posAmt > 0 ? 'LONG' : 'SHORT',
+    notionalUSDT: Math.abs(posAmt) * price,
+  };
+}
+
+export function calculateExposure(positions: ExposurePosition[]): PortfolioExposure {
+  let longNotionalUSDT = 0;
+  let shortNotionalUSDT = 0;
+
+  for (const position of positions) {
+    if (position.side === 'LONG') {
+      longNotionalUSDT += position.notionalUSDT;
+    } else {
+      shortNotionalUSDT += position.notionalUSDT;
+    }
+  }
+
+  return {
+    totalNotionalUSDT: longNotionalUSDT + shortNotionalUSDT,
+    longNotionalUSDT,
+    shortNotionalUSDT,
+    netNotionalUSDT: longNotionalUSDT - shortNotionalUSDT,
+  };
+}
+
+// Names of the groups a symbol belongs to
+export function getSymbolGroups(limits: ExposureLimitsConfig, symbol: string): string[] {
+  return Object.entries(limits.groups || {})
+    .filter(([, group]) => group.symbols.some(member => member.toUpperCase() === symbol.toUpperCase()))
+    .map(([name]) => name);
+}
+
+/**
+ * Check a new entry against the portfolio caps. The trade is blocked when it
+ * would push total notional, the net long/short imbalance or the notional of
+ * any group containing the symbol past its cap. Entries that shrink the net
+ * imbalance are never blocked by the net cap.
+ */
+export function evaluateExposureLimits(
+  limits: ExposureLimitsConfig,
+  positions: ExposurePosition[],
+  trade: ExposurePosition
+): ExposureDecision {
+  const exposure = calculateExposure(positions);
+  const tradeLabel = `${trade.side} ${trade.symbol} ($${trade.notionalUSDT.toFixed(0)})`;
+
+  if (limits.maxTotalNotionalUSDT !== undefined) {
+    const total = exposure.totalNotionalUSDT + trade.notionalUSDT;
+    if (total > limits.maxTotalNotionalUSDT) {
+      return {
+        allowed: false,
+        reason: `${tradeLabel} would take total notional to $${total.toFixed(0)} (cap $${limits.maxTotalNotionalUSDT})`,
+        limit: 'TOTAL',
+        exposure,
+      };
+    }
+  }
+
+  if (limits.maxNetNotionalUSDT !== undefined) {
+    const net = exposure.netNotionalUSDT + (trade.side === 'LONG' ? trade.notionalUSDT : -trade.notionalUSDT);
+    if (Math.abs(net) > limits.maxNetNotionalUSDT && Math.abs(net) > Math.abs(exposure.netNotionalUSDT)) {
+      return {
+        allowed: false,
+        reason: `${tradeLabel} would take net ${net >= 0 ? 'long' : 'short'} notional to $${Math.abs(net).toFixed(0)} (cap $${limits.maxNetNotionalUSDT})`,
+        limit: 'NET',
+        exposure,
+      };
+    }
+  }
+
+  for (const group of getSymbolGroups(limits, trade.symbol)) {
+    const { symbols, maxNotionalUSDT } = limits.groups![group];
+    const members = new Set(symbols.map(member => member.toUpperCase()));
+    const groupNotional = positions
+      .filter(position => members.has(position.symbol.toUpperCase()))
+      .reduce((sum, position) => sum + position.notionalUSDT, 0) + trade.notionalUSDT;
+
+    if (groupNotional > maxNotionalUSDT) {
+      return {
+        allowed: false,
+        reason: `${tradeLabel} would take "${group}" group notional to $${groupNotional.toFixed(0)} (cap $${maxNotionalUSDT})`,
+        limit: 'GROUP',
+        group,
+        exposure,
+      };
+    }
+  }
+
+  return { allowed: true, exposure };
+}
@@ -0,0 +1,66 @@
+import { SymbolConfig } from '../types';
+
+export interface FundingFilterSettings {
+  maxAdverseFundingRate?: number;   // Percent per funding interval
+  blackoutMinutes?: number;
+}
+
+export interface FundingSnapshot {
+  fundingRate: number;              // As a fraction, positive means longs pay shorts
+  nextFundingTime: number;
+}
+
+export interface FundingFilterDecision {
+  allowed: boolean;
+  reason?: string;
+  adverseRatePercent: number;       // Funding the trade would pay per interval, negative when it receives
+  minutesToFunding: number;
+}
+
+// Resolve the funding filters for a symbol, or null when none are configured
+export function getFundingFilterSettings(symbolConfig: SymbolConfig | undefined): FundingFilterSettings | null {
+  const maxAdverseFundingRate = symbolConfig?.maxAdverseFundingRate !== undefined && symbolConfig.maxAdverseFundingRate >= 0
+    ? symbolConfig.maxAdverseFundingRate
+    : undefined;
+  const blackoutMinutes = symbolConfig?.fundingBlackoutMinutes !== undefined && symbolConfig.fundingBlackoutMinutes > 0
+    ? symbolConfig.fundingBlackoutMinutes
+    : undefined;
+
+  if (maxAdverseFundingRate === undefined && blackoutMinutes === undefined) {
+    return null;
+  }
+
+  return { maxAdverseFundingRate, blackoutMinutes };
+}
+
+// Funding paid by a position on this side per interval, in percent (negative when it is paid to the position)
+export function getAdverseFundingPercent(fundingRate: number, side: 'BUY' | 'SELL'): number {
+  const ratePercent = fundingRate * 100;
+  return side === 'BUY' ? ratePercent : -ratePercent;
+}
+
+/**
+ * Check funding before an entry. The trade is blocked when its side would pay
+ * more than maxAdverseFundingRate percent at the next funding, or when the next
+ * funding is less than blackoutMinutes away.
+ */
+export function evaluateFundingFilter(
+  settings: FundingFilterSettings,
+  side: 'BUY' | 'SELL',
+  funding: FundingSnapshot,
+  now: number = Date.now()
+): FundingFilterDecision {
+  const adverseRatePercent = getAdverseFundingPercent(funding.fundingRate, side);
+  const minutesToFunding = Math.max(0, (funding.nextFundingTime - now) / 60000);
+  const blocked = (reason: string): FundingFilterDecision => ({ allowed: false, reason, adverseRatePercent, minutesToFunding });
+
+  if (settings.maxAdverseFundingRate !== undefined && adverseRatePercent > 0 && adverseRatePercent > settings.maxAdverseFundingRate) {
+    return blocked(`Funding ${(funding.fundingRate * 100).toFixed(4)}% would cost a ${side === 'BUY' ? 'long' : 'short'} ${adverseRatePercent.toFixed(4)}% (limit ${settings.maxAdverseFundingRate}%)`);
+  }
+
+  if (settings.blackoutMinutes !== undefined && minutesToFunding < settings.blackoutMinutes) {
+    return blocked(`Funding in ${minutesToFunding.toFixed(1)} min is inside the ${settings.blackoutMinutes} min blackout`);
+  }
+
+  return { allowed: true, adverseRatePercent, minutesToFunding };
+}
@@ -1,15 +1,32 @@
-import WebSocket from 'ws';
 import { EventEmitter } from 'events';
 import { Config, LiquidationEvent, SymbolConfig } from '../types';
 import { getMarkPrice, getExchangeInfo, getAccountInfo } from '../api/market';
-import { placeOrder, setLeverage } from '../api/orders';
-import { calculateOptimalPrice, validateOrderParams, analyzeOrderBookDepth, getSymbolFilters } from '../api/pricing';
+import { placeOrder, setLeverage, countdownCancelAll } from '../api/orders';
+import { calculateOptimalPrice, validateOrderParams, analyzeOrderBookDepth, getSymbolFilters, getOrderBookLiquidity } from '../api/pricing';
 import { getPositionSide, getPositionMode } from '../api/positionMode';
 import { PositionTracker } from './positionManager';
+import { getSignalStrategy, SignalDecision, SignalStrategy } from './signalStrategy';
+import { calculateRiskBasedSize, getSizingFilters, getFixedTradeMargin } from './positionSizing';
+import { getProtectionDistances } from './volatilityStops';
+import { ScaleInDecision, getScaleInSettings, evaluateScaleIn } from './scaleIn';
+import { getOrderBookFilterSettings, evaluateOrderBookFilter } from './orderBookFilter';
+import { FundingSnapshot, getFundingFilterSettings, evaluateFundingFilter } from './fundingFilter';
+import { ExposurePosition, toExposurePosition, evaluateExposureLimits } from './exposureLimits';
+import { OrderHeartbeat } from './orderHeartbeat';
+import { PaperExecutionEngine, PaperFill, paperExecutionEngine } from './paperExecution';
+import { orderTrackingDb, toTrackedSignal } from '../db/orderTrackingDb';
 import { liquidationStorage } from '../services/liquidationStorage';
 import { vwapService } from '../services/vwapService';
 import { vwapStreamer } from '../services/vwapStreamer';
-import { thresholdMonitor } from '../services/thresholdMonitor';
+import { ThresholdMonitor, thresholdMonitor } from '../services/thresholdMonitor';
+import { adaptiveThresholds } from '../services/adaptiveThresholds';
+import { liquidationRecorder } from '../services/liquidationRecorder';
+import { LiquidationReplay } from '../services/liquidationReplay';
+import { getPriceService } from '../services/priceService';
+import { marketDataHub } from '../services/marketDataHub';
+import { getBalanceService } from '../services/balanceService';
+import { getPaperBalanceService } from '../services/paperBalanceService';
+import { riskGuard } from '../services/riskGuard';
 import { symbolPrecision } from '../utils/symbolPrecision';
 import {
   parseExchangeError,
@@ -25,25 +42,42 @@ import { errorLogger } from '../services/errorLogger';
 import { logWithTimestamp, logErrorWithTimestamp, logWarnWithTimestamp } from '../utils/timestamp';
 
 export class Hunter extends EventEmitter {
-  private ws: WebSocket | null = null;
+  private unsubscribeLiquidations: (() => void) | null = null; // Live forceOrder subscription on the market data hub
   private config: Config;
   private isRunning = false;
   private statusBroadcaster: any; // Will be injected
   private isHedgeMode: boolean;
   private positionTracker: PositionTracker | null = null;
-  private pendingOrders: Map<string, { symbol: string, side: 'BUY' | 'SELL', timestamp: number }> = new Map(); // Track orders placed but not yet filled
+  private pendingOrders: Map<string, { symbol: string, side: 'BUY' | 'SELL', timestamp: number, notionalUSDT: number }> = new Map(); // Track orders placed but not yet filled
+  private pendingOrderWrites: Promise<void> = Promise.resolve(); // Write-through queue for pendingOrders
   private lastTradeTimestamps: Map<string, { long: number; short: number }> = new Map(); // Track last trade per symbol/side
   private cleanupInterval: NodeJS.Timeout | null = null; // Periodic cleanup timer
   private syncInterval: NodeJS.Timeout | null = null; // Position mode sync timer
   private lastModeSync: number = Date.now(); // Track last mode sync time
+  private replay: LiquidationReplay | null = null; // Active replay source, replaces the live stream
+  private orderHeartbeat: OrderHeartbeat; // Exchange auto-cancel countdown for pending entry orders
+  private paperExecution = paperExecutionEngine; // Simulated fills for paper mode entries
+  private shadow: boolean; // Shadow mode: paper-trades an alternate config on liquidations fed by the live hunter
+  private thresholdMonitor: ThresholdMonitor;
 
-  constructor(config: Config, isHedgeMode: boolean = false) {
+  constructor(config: Config, isHedgeMode: boolean = false, shadow: boolean = false) {
     super();
     this.config = config;
     this.isHedgeMode = isHedgeMode;
+    this.shadow = shadow;
 
-    // Initialize threshold monitor with config
-    thresholdMonitor.updateConfig(config);
+    // Initialize threshold monitor with config (a shadow hunter keeps its own rolling volumes)
+    this.thresholdMonitor = shadow ? new ThresholdMonitor(config) : thresholdMonitor;
+    this.thresholdMonitor.updateConfig(config);
+
+    this.orderHeartbeat = new OrderHeartbeat(
+      () => this.getHeartbeatSymbols(),
+      async (symbol, countdownMs) => {
+        await countdownCancelAll(symbol, countdownMs, this.config.api);
+      }
+    );
+    this.orderHeartbeat.updateConfig(config.global.orderHeartbeat);
+    this.paperExecution.updateConfig(config);
   }
 
   // Set status broadcaster for order events
@@ -51,6 +85,12 @@ export class Hunter extends EventEmitter {
     this.statusBroadcaster = broadcaster;
   }
 
+  // Use a separate paper execution engine, shared with the position manager that tracks the fills
+  public setPaperExecutionEngine(engine: PaperExecutionEngine): void {
+    this.paperExecution = engine;
+    this.paperExecution.updateConfig(this.config);
+  }
+
   // Set position tracker for position limit checks
   public setPositionTracker(tracker: PositionTracker): void {
     this.positionTracker = tracker;
@@ -73,7 +113,14 @@ export class Hunter extends EventEmitter {
     this.config = newConfig;
 
     // Update threshold monitor configuration
-    thresholdMonitor.updateConfig(newConfig);
+    this.thresholdMonitor.updateConfig(newConfig);
+
+    // Update order heartbeat settings (start it if it was just enabled)
+    this.orderHeartbeat.updateConfig(newConfig.global.orderHeartbeat);
+    this.paperExecution.updateConfig(newConfig);
+    if (this.isRunning && !newConfig.global.paperMode) {
+      this.orderHeartbeat.start();
+    }
 
     // Log significant changes
     if (oldConfig.global.paperMode !== newConfig.global.paperMode) {
@@ -82,10 +129,7 @@ logWithTimestamp(`Hunter: Paper mode changed to ${newConfig.global.paperMode}`);
       // If switching from paper mode to live mode, restart WebSocket connection
       if (oldConfig.global.paperMode && !newConfig.global.paperMode && newConfig.api.apiKey) {
 logWithTimestamp('Hunter: Switching from paper mode to live mode');
-        if (this.ws) {
-          this.ws.close();
-          this.ws = null;
-        }
+        this.disconnectLiquidationStream();
         if (this.isRunning) {
           this.connectWebSocket();
         }
@@ -93,10 +137,7 @@ logWithTimestamp('Hunter: Switching from paper mode to live mode');
       // If switching from live mode to paper mode without API keys
       else if (!oldConfig.global.paperMode && newConfig.global.paperMode && !newConfig.api.apiKey) {
 logWithTimestamp('Hunter: Switching from live mode to paper mode');
-        if (this.ws) {
-          this.ws.close();
-          this.ws = null;
-        }
+        this.disconnectLiquidationStream();
         if (this.isRunning) {
           this.simulateLiquidations();
         }
@@ -148,17 +189,82 @@ logWithTimestamp(`Hunter: ${symbol} threshold time window updated: ${oldWindowSe
   }
 
   // Helper methods for pending order management
-  private addPendingOrder(orderId: string, symbol: string, side: 'BUY' | 'SELL'): void {
-    this.pendingOrders.set(orderId, { symbol, side, timestamp: Date.now() });
+  private addPendingOrder(orderId: string, symbol: string, side: 'BUY' | 'SELL', notionalUSDT: number, liquidation?: LiquidationEvent): void {
+    const timestamp = Date.now();
+    this.pendingOrders.set(orderId, { symbol, side, timestamp, notionalUSDT });
+    this.persistPendingOrder(() => orderTrackingDb.savePendingOrder({
+      order_id: orderId,
+      symbol,
+      side,
+      notional_usdt: notionalUSDT,
+      signal: liquidation ? JSON.stringify(toTrackedSignal(liquidation)) : null,
+      created_at: timestamp,
+    }));
 logWithTimestamp(`Hunter: Added pending order ${orderId} for ${symbol} ${side}. Total pending: ${this.pendingOrders.size}`);
     this.debugPendingOrders();
+    this.refreshOrderHeartbeat();
   }
 
   private removePendingOrder(orderId: string): void {
     if (this.pendingOrders.delete(orderId)) {
+      this.persistPendingOrder(() => orderTrackingDb.deletePendingOrder(orderId));
 logWithTimestamp(`Hunter: Removed pending order ${orderId}. Total pending: ${this.pendingOrders.size}`);
       this.debugPendingOrders();
+      this.refreshOrderHeartbeat();
+    }
+  }
+
+  // Pending orders are written through to SQLite in call order so a restart knows what was in flight
+  private persistPendingOrder(task: () => Promise<void>): void {
+    this.pendingOrderWrites = this.pendingOrderWrites.then(task).catch(error =>
+logErrorWithTimestamp('Hunter: Failed to persist pending order:', error)
+    );
+  }
+
+  // Reload entry orders that were pending before a restart, dropping the stale ones
+  private async restorePendingOrders(): Promise<void> {
+    try {
+      const rows = await orderTrackingDb.getPendingOrders();
+      const staleTime = Date.now() - 5 * 60 * 1000; // Same age as cleanStalePendingOrders
+
+      for (const row of rows) {
+        if (row.created_at < staleTime) {
+          this.persistPendingOrder(() => orderTrackingDb.deletePendingOrder(row.order_id));
+          continue;
+        }
+        this.pendingOrders.set(row.order_id, { symbol: row.symbol, side: row.side, timestamp: row.created_at, notionalUSDT: row.notional_usdt ?? 0 });
+logWithTimestamp(`Hunter: Restored pending order ${row.order_id} for ${row.symbol} ${row.side} (placed ${Math.round((Date.now() - row.created_at) / 1000)}s ago)`);
+      }
+    } catch (error) {
+logErrorWithTimestamp('Hunter: Failed to restore pending orders:', error);
+    }
+  }
+
+  // Symbols with pending entry orders and no open position. The exchange countdown cancels
+  // every open order on a symbol, so symbols carrying SL/TP orders are never armed.
+  private getHeartbeatSymbols(): string[] {
+    const openSymbols = new Set<string>();
+    if (this.positionTracker) {
+      for (const position of this.positionTracker.getPositionsMap().values()) {
+        if (Math.abs(parseFloat(position.positionAmt)) > 0) {
+          openSymbols.add(position.symbol);
+        }
+      }
+    }
+
+    const symbols = new Set<string>();
+    for (const order of this.pendingOrders.values()) {
+      if (!openSymbols.has(order.symbol)) {
+        symbols.add(order.symbol);
+      }
     }
+    return Array.from(symbols);
+  }
+
+  private refreshOrderHeartbeat(): void {
+    this.orderHeartbeat.refresh().catch(error =>
+logErrorWithTimestamp('Hunter: Failed to refresh order heartbeat:', error)
+    );
   }
 
   // Debug method to display current pending order state
@@ -201,6 +307,7 @@ logWithTimestamp(`Hunter: [DEBUG] Current pending orders (${this.pendingOrders.s
       if (order.timestamp < staleTime) {
 logWithTimestamp(`Hunter: Cleaning stale pending order ${orderId} for ${order.symbol} (age: ${Math.round((Date.now() - order.timestamp) / 1000)}s)`);
         this.pendingOrders.delete(orderId);
+        this.persistPendingOrder(() => orderTrackingDb.deletePendingOrder(orderId));
         cleanedCount++;
       }
     }
@@ -258,6 +365,12 @@ logErrorWithTimestamp('Hunter: Failed to sync position mode with exchange:', err
     if (this.isRunning) return;
     this.isRunning = true;
 
+    // Shadow hunters have no stream of their own - the live hunter feeds them its liquidations
+    if (this.shadow) {
+logWithTimestamp('Hunter: Shadow mode started - following the live liquidation feed');
+      return;
+    }
+
     // Log threshold system configuration on startup
     if (this.config.global.useThresholdSystem) {
 logWithTimestamp('Hunter: Global threshold system ENABLED');
@@ -275,9 +388,19 @@ logWithTimestamp('Hunter: Global threshold system DISABLED - using instant trigg
     // Sync position mode on startup
     await this.syncPositionMode();
 
+    // Pending entry orders survive restarts (live trading only)
+    if (!this.config.global.paperMode) {
+      await this.restorePendingOrders();
+    }
+
     // Start periodic cleanup of stale pending orders (every 30 seconds)
     this.startPeriodicCleanup();
 
+    // Dead-man's switch for pending entry orders (live trading only)
+    if (!this.config.global.paperMode) {
+      this.orderHeartbeat.start();
+    }
+
     // Start periodic position mode sync (every 2 minutes instead of 5)
     this.syncInterval = setInterval(() => {
       this.syncPositionMode().catch(err =>
@@ -306,6 +429,24 @@ logErrorWithTimestamp('Hunter: Failed to initialize symbol precision manager:',
       // Continue anyway, will use default precision values
     }
 
+    // Replay a recorded stream instead of the live feed (never against a live account)
+    if (this.config.global.replay?.enabled) {
+      if (this.config.global.paperMode) {
+        await this.startReplay();
+        return;
+      }
+logWarnWithTimestamp('Hunter: Replay is only supported in paper mode - using live liquidation stream');
+    }
+
+    // Record the live stream for later replay
+    if (this.config.global.recording?.enabled) {
+      liquidationRecorder.start({
+        filePath: this.config.global.recording.filePath,
+        includeMarkPrices: this.config.global.recording.includeMarkPrices,
+        symbols: Object.keys(this.config.symbols)
+      });
+    }
+
     // In paper mode with no API keys, simulate liquidation events
     if (this.config.global.paperMode && (!this.config.api.apiKey || !this.config.api.secretKey)) {
 logWithTimestamp('Hunter: Running in paper mode without API keys - simulating liquidations');
@@ -318,9 +459,19 @@ logWithTimestamp('Hunter: Running in paper mode without API keys - simulating li
   stop(): void {
     this.isRunning = false;
 
+    if (this.shadow) {
+      this.thresholdMonitor.destroy();
+      return;
+    }
+
     // Stop periodic cleanup
     this.stopPeriodicCleanup();
 
+    // Clear exchange countdowns so orders are not cancelled after a clean shutdown
+    this.orderHeartbeat.stop().catch(error =>
+logErrorWithTimestamp('Hunter: Failed to stop order heartbeat:', error)
+    );
+
     // Stop periodic sync
     if (this.syncInterval) {
       clearInterval(this.syncInterval);
@@ -328,93 +479,138 @@ logWithTimestamp('Hunter: Running in paper mode without API keys - simulating li
 logWithTimestamp('Hunter: Stopped periodic position mode sync');
     }
 
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    this.disconnectLiquidationStream();
+
+    if (this.replay) {
+      this.replay.stop();
+      this.replay.removeAllListeners();
+      this.replay = null;
     }
+
+    liquidationRecorder.stop();
   }
 
-  private connectWebSocket(): void {
-    this.ws = new WebSocket('wss://fstream.asterdex.com/ws/!forceOrder@arr');
+  private async startReplay(): Promise<void> {
+    const replayConfig = this.config.global.replay!;
+    // Each liquidation is handled before the next frame is read, so trades follow the recording order
+    const replay = new LiquidationReplay({
+      filePath: replayConfig.filePath,
+      speed: replayConfig.speed,
+      onForceOrder: (event: any) => this.handleLiquidationEvent(event).catch(error =>
+logErrorWithTimestamp('Hunter: Failed to process replayed liquidation:', error)
+      )
+    });
 
-    this.ws.on('open', () => {
-logWithTimestamp('Hunter WS connected');
+    // Keep the price service in step with the recording so paper SL/TP use replayed prices
+    replay.on('markPrice', (updates: any[]) => {
+      getPriceService()?.applyMarkPrices(updates);
     });
 
-    this.ws.on('message', (data: Buffer) => {
-      try {
-        const event = JSON.parse(data.toString());
-        this.handleLiquidationEvent(event);
-      } catch (error) {
-logErrorWithTimestamp('Hunter: WS message parse error:', error);
+    replay.on('complete', ({ frames }: { frames: number }) => {
+logWithTimestamp(`Hunter: Replay complete (${frames} frames)`);
+      this.emit('replayComplete', { frames });
+    });
+
+    // The recording became unreadable mid-replay
+    replay.on('error', (error: Error) => {
+      if (this.replay === replay) {
+        this.replay = null;
+      }
+      this.broadcastReplayError(error);
+    });
+
+    this.replay = replay;
+
+    try {
+      await replay.start();
+    } catch (error) {
+logErrorWithTimestamp('Hunter: Failed to start replay:', error);
+      this.replay = null;
+      this.broadcastReplayError(error);
+    }
+  }
+
+  private broadcastReplayError(error: unknown): void {
+    if (this.statusBroadcaster) {
+      this.statusBroadcaster.broadcastConfigError(
+        'Replay Error',
+        error instanceof Error ? error.message : 'Liquidation replay failed',
+        {
+          component: 'Hunter',
+          rawError: error,
+        }
+      );
+    }
+  }
+
+  private connectWebSocket(): void {
+    if (this.unsubscribeLiquidations) return;
+
+    this.unsubscribeLiquidations = marketDataHub.subscribe({ type: 'forceOrder' }, event => {
+      if (liquidationRecorder.isRecording()) {
+        liquidationRecorder.recordForceOrder(event);
+      }
+      this.handleLiquidationEvent(event).catch(error => {
+logErrorWithTimestamp('Hunter: Failed to process liquidation:', error);
         // Log to error database
         errorLogger.logError(error instanceof Error ? error : new Error(String(error)), {
           type: 'websocket',
           severity: 'low',
           context: {
             component: 'Hunter',
-            userAction: 'Processing WebSocket message',
-            metadata: { rawMessage: data.toString() }
+            userAction: 'Processing liquidation stream event',
+            metadata: { event }
           }
         });
-        // Broadcast error to UI
-        if (this.statusBroadcaster) {
-          this.statusBroadcaster.broadcastWebSocketError(
-            'Message Parse Error',
-            'Failed to parse liquidation stream message',
-            {
-              component: 'Hunter',
-              rawError: error,
-            }
-          );
-        }
-      }
+      });
     });
 
-    this.ws.on('error', (error) => {
-logErrorWithTimestamp('Hunter WS error:', error);
-      // Log to error database
-      errorLogger.logWebSocketError(
-        'wss://fstream.asterdex.com/ws/!forceOrder@arr',
-        error instanceof Error ? error : new Error(String(error)),
-        1
-      );
-      // Broadcast error to UI
-      if (this.statusBroadcaster) {
-        this.statusBroadcaster.broadcastWebSocketError(
-          'Hunter WebSocket Error',
-          'Connection error with liquidation stream. Reconnecting in 5 seconds...',
-          {
-            component: 'Hunter',
-            rawError: error,
-          }
-        );
-      }
-      // Reconnect after delay
-      setTimeout(() => this.connectWebSocket(), 5000);
-    });
+    marketDataHub.on('connected', this.onMarketDataConnected);
+    marketDataHub.on('disconnected', this.onMarketDataDisconnected);
+  }
 
-    this.ws.on('close', () => {
-logWithTimestamp('Hunter WS closed');
-      if (this.isRunning) {
-        // Broadcast reconnection attempt to UI
-        if (this.statusBroadcaster) {
-          this.statusBroadcaster.broadcastWebSocketError(
-            'Hunter WebSocket Closed',
-            'Liquidation stream disconnected. Reconnecting in 5 seconds...',
-            {
-              component: 'Hunter',
-            }
-          );
+  private disconnectLiquidationStream(): void {
+    if (!this.unsubscribeLiquidations) return;
+
+    this.unsubscribeLiquidations();
+    this.unsubscribeLiquidations = null;
+    marketDataHub.off('connected', this.onMarketDataConnected);
+    marketDataHub.off('disconnected', this.onMarketDataDisconnected);
+  }
+
+  private onMarketDataConnected = (): void => {
+logWithTimestamp('Hunter: Liquidation stream connected');
+  };
+
+  private onMarketDataDisconnected = ({ reconnectInMs }: { reconnectInMs: number | null }): void => {
+    if (!this.isRunning || reconnectInMs === null) return;
+logWithTimestamp('Hunter: Liquidation stream disconnected');
+    // Broadcast reconnection attempt to UI
+    if (this.statusBroadcaster) {
+      this.statusBroadcaster.broadcastWebSocketError(
+        'Hunter WebSocket Closed',
+        `Liquidation stream disconnected. Reconnecting in ${Math.round(reconnectInMs / 1000)} seconds...`,
+        {
+          component: 'Hunter',
         }
-        setTimeout(() => this.connectWebSocket(), 5000);
-      }
-    });
+      );
+    }
+  };
+
+  // Process a liquidation received by another hunter (shadow mode)
+  public async feedLiquidationEvent(event: any): Promise<void> {
+    if (!this.isRunning) return;
+    await this.handleLiquidationEvent(event);
   }
 
   private async handleLiquidationEvent(event: any): Promise<void> {
     if (event.e !== 'forceOrder') return; // Not a liquidation event
 
+    // Pass the raw event on to a shadow hunter, whichever source it came from
+    if (!this.shadow) {
+      this.emit('forceOrder', event);
+    }
+
     const liquidation: LiquidationEvent = {
       symbol: event.o.s,
       side: event.o.S,
@@ -436,7 +632,7 @@ logWithTimestamp('Hunter WS closed');
                               this.config.symbols[liquidation.symbol]?.useThreshold === true;
 
     // Process liquidation through threshold monitor only if enabled
-    const thresholdStatus = useThresholdSystem ? thresholdMonitor.processLiquidation(liquidation) : null;
+    const thresholdStatus = useThresholdSystem ? this.thresholdMonitor.processLiquidation(liquidation) : null;
 
     // Emit liquidation event to WebSocket clients (all liquidations) with threshold info
     this.emit('liquidationDetected', {
@@ -449,273 +645,470 @@ logWithTimestamp('Hunter WS closed');
 
     const volumeUSDT = liquidation.qty * liquidation.price;
 
-    // Store liquidation in database (non-blocking)
-    liquidationStorage.saveLiquidation(liquidation, volumeUSDT).catch(error => {
+    // Store liquidation in database (non-blocking, the live hunter already stores what a shadow hunter sees)
+    if (!this.shadow) {
+      liquidationStorage.saveLiquidation(liquidation, volumeUSDT).catch(error => {
 logErrorWithTimestamp('Hunter: Failed to store liquidation:', error);
-      // Log to error database
-      errorLogger.logError(error instanceof Error ? error : new Error(String(error)), {
-        type: 'general',
-        severity: 'low',
-        context: {
-          component: 'Hunter',
-          symbol: liquidation.symbol,
-          userAction: 'Storing liquidation event',
-          metadata: { volumeUSDT }
-        }
+        // Log to error database
+        errorLogger.logError(error instanceof Error ? error : new Error(String(error)), {
+          type: 'general',
+          severity: 'low',
+          context: {
+            component: 'Hunter',
+            symbol: liquidation.symbol,
+            userAction: 'Storing liquidation event',
+            metadata: { volumeUSDT }
+          }
+        });
+        // Non-critical error, don't broadcast to UI to avoid spam
       });
-      // Non-critical error, don't broadcast to UI to avoid spam
-    });
+    }
 
-    // Check if we should use threshold system or instant trigger
-    if (useThresholdSystem && thresholdStatus) {
-      // NEW THRESHOLD SYSTEM - Cumulative volume in 60-second window
-      // SELL liquidation means longs are getting liquidated, we might want to BUY
-      // BUY liquidation means shorts are getting liquidated, we might want to SELL
-      const isLongOpportunity = liquidation.side === 'SELL';
-      const isShortOpportunity = liquidation.side === 'BUY';
-
-      let shouldTrade = false;
-      let tradeSide: 'BUY' | 'SELL' | null = null;
-
-      if (isLongOpportunity && thresholdStatus.longThreshold > 0) {
-        // Check if cumulative SELL liquidations in 60s meet long threshold
-        if (thresholdStatus.recentLongVolume >= thresholdStatus.longThreshold) {
-          shouldTrade = true;
-          tradeSide = 'BUY'; // Buy when longs are getting liquidated
-          logWithTimestamp(`Hunter: LONG threshold met - ${liquidation.symbol} cumulative SELL liquidations: ${thresholdStatus.recentLongVolume.toFixed(2)} USDT >= ${thresholdStatus.longThreshold} USDT (60s window)`);
-        }
-      } else if (isShortOpportunity && thresholdStatus.shortThreshold > 0) {
-        // Check if cumulative BUY liquidations in 60s meet short threshold
-        if (thresholdStatus.recentShortVolume >= thresholdStatus.shortThreshold) {
-          shouldTrade = true;
-          tradeSide = 'SELL'; // Sell when shorts are getting liquidated
-          logWithTimestamp(`Hunter: SHORT threshold met - ${liquidation.symbol} cumulative BUY liquidations: ${thresholdStatus.recentShortVolume.toFixed(2)} USDT >= ${thresholdStatus.shortThreshold} USDT (60s window)`);
-        }
-      }
+    // Volume that can trigger a trade: cumulative volume of this liquidation side in the
+    // threshold window, or the single liquidation for the instant trigger. Thresholds are
+    // tuned per liquidation side (long = SELL liquidations), so the side that fired decides
+    // the threshold whichever trade the strategy takes from it
+    const isThresholdTrigger = useThresholdSystem && !!thresholdStatus;
+    const triggerVolume = isThresholdTrigger
+      ? (liquidation.side === 'SELL' ? thresholdStatus!.recentLongVolume : thresholdStatus!.recentShortVolume)
+      : volumeUSDT;
+    const threshold = isThresholdTrigger
+      ? (liquidation.side === 'SELL' ? thresholdStatus!.longThreshold : thresholdStatus!.shortThreshold)
+      : adaptiveThresholds.getLiquidationThreshold(liquidation.symbol, symbolConfig, liquidation.side);
+    const meetsThreshold = isThresholdTrigger
+      ? threshold > 0 && triggerVolume >= threshold
+      : triggerVolume >= threshold;
+
+    // Skip before the mark price request of the signal evaluation
+    if (!meetsThreshold) return;
+
+    if (!isThresholdTrigger) {
+      logWithTimestamp(`Hunter: Liquidation detected - ${liquidation.symbol} ${liquidation.side} ${volumeUSDT.toFixed(2)} USDT`);
+    }
 
-      if (shouldTrade && tradeSide) {
-        // Check cooldown to prevent multiple trades from same window
-        const now = Date.now();
-        const cooldownPeriod = symbolConfig.thresholdCooldown || 30000; // Use symbol-specific cooldown or default 30s
-        const symbolTrades = this.lastTradeTimestamps.get(liquidation.symbol) || { long: 0, short: 0 };
+    // The configured strategy decides the trade side, which picks the cooldown
+    const signal = await this.evaluateSignal(liquidation, symbolConfig);
+    if (!signal?.decision.side) return;
+    const tradeSide = signal.decision.side;
 
-        const lastTradeTime = tradeSide === 'BUY' ? symbolTrades.long : symbolTrades.short;
-        const timeSinceLastTrade = now - lastTradeTime;
+    const triggerLabel = isThresholdTrigger
+      ? `based on ${(thresholdStatus!.timeWindow / 1000).toFixed(0)}s cumulative volume`
+      : 'instant trigger';
+    if (isThresholdTrigger) {
+      logWithTimestamp(`Hunter: ${tradeSide === 'BUY' ? 'LONG' : 'SHORT'} threshold met - ${liquidation.symbol} cumulative ${liquidation.side} liquidations: ${triggerVolume.toFixed(2)} USDT >= ${threshold} USDT (${signal.strategy.name} strategy)`);
+    }
 
-        // Enhanced logging for cooldown configuration
-logWithTimestamp(`Hunter: Cooldown check for ${liquidation.symbol} ${tradeSide} - configured: ${cooldownPeriod}ms (${(cooldownPeriod / 1000).toFixed(0)}s), time since last trade: ${(timeSinceLastTrade / 1000).toFixed(1)}s`);
+    // Check cooldown to prevent multiple trades from the same burst
+    const now = Date.now();
+    const cooldownPeriod = symbolConfig.thresholdCooldown || 30000; // Use symbol-specific cooldown or default 30s
+    const symbolTrades = this.lastTradeTimestamps.get(liquidation.symbol) || { long: 0, short: 0 };
 
-        if (timeSinceLastTrade < cooldownPeriod) {
-          const remainingCooldown = Math.ceil((cooldownPeriod - timeSinceLastTrade) / 1000);
-logWithTimestamp(`Hunter: ${tradeSide} trade cooldown active for ${liquidation.symbol} - ${remainingCooldown}s remaining (cooldown period: ${(cooldownPeriod / 1000).toFixed(0)}s)`);
-          return;
-        }
+    const lastTradeTime = tradeSide === 'BUY' ? symbolTrades.long : symbolTrades.short;
+    const timeSinceLastTrade = now - lastTradeTime;
 
-logWithTimestamp(`Hunter: ✓ Cooldown passed - Triggering ${tradeSide} trade for ${liquidation.symbol} based on 60s cumulative volume (cooldown: ${(cooldownPeriod / 1000).toFixed(0)}s)`);
+    // Enhanced logging for cooldown configuration
+logWithTimestamp(`Hunter: Cooldown check for ${liquidation.symbol} ${tradeSide} (${triggerLabel}) - configured: ${cooldownPeriod}ms (${(cooldownPeriod / 1000).toFixed(0)}s), time since last trade: ${(timeSinceLastTrade / 1000).toFixed(1)}s`);
 
-        // Update last trade timestamp
-        if (tradeSide === 'BUY') {
-          symbolTrades.long = now;
-        } else {
-          symbolTrades.short = now;
-        }
-        this.lastTradeTimestamps.set(liquidation.symbol, symbolTrades);
+    if (timeSinceLastTrade < cooldownPeriod) {
+      const remainingCooldown = Math.ceil((cooldownPeriod - timeSinceLastTrade) / 1000);
+logWithTimestamp(`Hunter: ${tradeSide} trade cooldown active for ${liquidation.symbol} - ${remainingCooldown}s remaining (cooldown period: ${(cooldownPeriod / 1000).toFixed(0)}s)`);
+      return;
+    }
 
-        // Analyze and trade with the cumulative trigger
-        await this.analyzeAndTrade(liquidation, symbolConfig, tradeSide);
-      }
+logWithTimestamp(`Hunter: ✓ Cooldown passed - Triggering ${tradeSide} trade for ${liquidation.symbol} (${triggerLabel}, cooldown: ${(cooldownPeriod / 1000).toFixed(0)}s)`);
+
+    // Update last trade timestamp
+    if (tradeSide === 'BUY') {
+      symbolTrades.long = now;
     } else {
-      // ORIGINAL INSTANT TRIGGER SYSTEM
-      // Check direction-specific volume thresholds
-      // SELL liquidation means longs are getting liquidated, we might want to BUY
-      // BUY liquidation means shorts are getting liquidated, we might want to SELL
-      const thresholdToCheck = liquidation.side === 'SELL'
-        ? (symbolConfig.longVolumeThresholdUSDT ?? symbolConfig.volumeThresholdUSDT ?? 0)
-        : (symbolConfig.shortVolumeThresholdUSDT ?? symbolConfig.volumeThresholdUSDT ?? 0);
+      symbolTrades.short = now;
+    }
+    this.lastTradeTimestamps.set(liquidation.symbol, symbolTrades);
 
-      if (volumeUSDT < thresholdToCheck) return; // Too small
+    await this.analyzeAndTrade(liquidation, symbolConfig, signal, tradeSide);
+  }
 
-      logWithTimestamp(`Hunter: Liquidation detected - ${liquidation.symbol} ${liquidation.side} ${volumeUSDT.toFixed(2)} USDT`);
+  // Strategy decision for a liquidation, null when the mark price cannot be read
+  private async evaluateSignal(liquidation: LiquidationEvent, symbolConfig: SymbolConfig): Promise<{ strategy: SignalStrategy; decision: SignalDecision } | null> {
+    try {
+      const markPrice = await this.getAnalysisMarkPrice(liquidation.symbol);
+      const strategy = getSignalStrategy(symbolConfig.signalStrategy);
+      const decision = strategy.evaluate(liquidation, {
+        markPrice,
+        volumeUSDT: liquidation.qty * liquidation.price,
+        vwap: vwapStreamer.getCurrentVWAP(liquidation.symbol)?.vwap
+      }, symbolConfig);
+      return { strategy, decision };
+    } catch (error) {
+logErrorWithTimestamp('Hunter: Analysis error:', error);
+      return null;
+    }
+  }
 
-      // Check cooldown for instant trigger system (apply same cooldown logic as threshold system)
-      const tradeSide = liquidation.side === 'SELL' ? 'BUY' : 'SELL';
-      const now = Date.now();
-      const cooldownPeriod = symbolConfig.thresholdCooldown || 30000; // Use same cooldown setting
-      const symbolTrades = this.lastTradeTimestamps.get(liquidation.symbol) || { long: 0, short: 0 };
+  private async analyzeAndTrade(
+    liquidation: LiquidationEvent,
+    symbolConfig: SymbolConfig,
+    signal: { strategy: SignalStrategy; decision: SignalDecision },
+    side: 'BUY' | 'SELL'
+  ): Promise<void> {
+    try {
+      const { strategy, decision } = signal;
+      const volumeUSDT = liquidation.qty * liquidation.price;
 
-      const lastTradeTime = tradeSide === 'BUY' ? symbolTrades.long : symbolTrades.short;
-      const timeSinceLastTrade = now - lastTradeTime;
+      // Check VWAP protection if enabled
+      if (symbolConfig.vwapProtection) {
+        const allowed = await this.checkVWAPProtection(liquidation, side, symbolConfig);
+        if (!allowed) {
+          return; // Block the trade
+        }
+      }
 
-      // Enhanced logging for cooldown configuration
-logWithTimestamp(`Hunter: Cooldown check for ${liquidation.symbol} ${tradeSide} (instant trigger) - configured: ${cooldownPeriod}ms (${(cooldownPeriod / 1000).toFixed(0)}s), time since last trade: ${(timeSinceLastTrade / 1000).toFixed(1)}s`);
+      // Spread, depth and imbalance checks if any order book filter is set
+      if (!(await this.checkOrderBookFilter(liquidation.symbol, side, symbolConfig))) {
+        return;
+      }
 
-      if (timeSinceLastTrade < cooldownPeriod) {
-        const remainingCooldown = Math.ceil((cooldownPeriod - timeSinceLastTrade) / 1000);
-logWithTimestamp(`Hunter: ${tradeSide} trade cooldown active for ${liquidation.symbol} - ${remainingCooldown}s remaining (cooldown period: ${(cooldownPeriod / 1000).toFixed(0)}s)`);
+      // Adverse funding and pre-funding blackout checks
+      if (!(await this.checkFundingFilter(liquidation.symbol, side, symbolConfig))) {
         return;
       }
 
-logWithTimestamp(`Hunter: ✓ Cooldown passed - Triggering ${tradeSide} trade for ${liquidation.symbol} (instant trigger, cooldown: ${(cooldownPeriod / 1000).toFixed(0)}s)`);
+      // Emit trade opportunity
+      this.emit('tradeOpportunity', {
+        symbol: liquidation.symbol,
+        side,
+        reason: decision.reasons.join('; '),
+        liquidationVolume: volumeUSDT,
+        priceImpact: decision.priceImpact,
+        confidence: decision.confidence,
+        strategy: strategy.name
+      });
 
-      // Update last trade timestamp
-      if (tradeSide === 'BUY') {
-        symbolTrades.long = now;
-      } else {
-        symbolTrades.short = now;
+      logWithTimestamp(`Hunter: Triggering ${side} for ${liquidation.symbol} at ${liquidation.price} (${strategy.name} strategy)`);
+      await this.placeTrade(liquidation.symbol, side, symbolConfig, liquidation.price, liquidation);
+    } catch (error) {
+logErrorWithTimestamp('Hunter: Analysis error:', error);
+    }
+  }
+
+  // Mark price used for signal evaluation - the recorded price while replaying, otherwise the exchange price
+  private async getAnalysisMarkPrice(symbol: string): Promise<number> {
+    if (this.replay) {
+      const replayedPrice = this.replay.getMarkPrice(symbol);
+      if (replayedPrice !== null) {
+        return replayedPrice;
       }
-      this.lastTradeTimestamps.set(liquidation.symbol, symbolTrades);
+    }
+
+    // Get mark price and recent 1m kline
+    const [markPriceData] = Array.isArray(await getMarkPrice(symbol)) ?
+      await getMarkPrice(symbol) as any[] :
+      [await getMarkPrice(symbol)];
+
+    return parseFloat(markPriceData.markPrice);
+  }
+
+  // Returns false (and emits tradeBlocked) when the entry is on the wrong side of VWAP
+  private async checkVWAPProtection(liquidation: LiquidationEvent, side: 'BUY' | 'SELL', symbolConfig: SymbolConfig): Promise<boolean> {
+    const timeframe = symbolConfig.vwapTimeframe || '1m';
+    const lookback = symbolConfig.vwapLookback || 100;
+
+    // Try to use streamer data first (real-time)
+    const streamedVWAP = vwapStreamer.getCurrentVWAP(liquidation.symbol);
+    let vwapCheck;
+
+    if (streamedVWAP && Date.now() - streamedVWAP.timestamp < 5000) {
+      // Use streamed data if it's fresh (less than 5 seconds old)
+      const allowed = side === 'BUY'
+        ? liquidation.price < streamedVWAP.vwap
+        : liquidation.price > streamedVWAP.vwap;
+      vwapCheck = {
+        allowed,
+        vwap: streamedVWAP.vwap,
+        reason: allowed
+          ? `Price is ${side === 'BUY' ? 'below' : 'above'} VWAP - ${side} entry allowed`
+          : `Price ($${liquidation.price.toFixed(2)}) is ${side === 'BUY' ? 'above' : 'below'} VWAP ($${streamedVWAP.vwap.toFixed(2)}) - blocking ${side === 'BUY' ? 'long' : 'short'} entry`
+      };
+    } else {
+      // Fallback to API fetch if no fresh streamer data
+      vwapCheck = await vwapService.checkVWAPFilter(
+        liquidation.symbol,
+        side,
+        liquidation.price,
+        timeframe,
+        lookback
+      );
+    }
+
+    if (!vwapCheck.allowed) {
+logWithTimestamp(`Hunter: VWAP Protection - ${vwapCheck.reason}`);
 
-      // Analyze and trade with instant trigger
-      await this.analyzeAndTrade(liquidation, symbolConfig);
+      // Emit blocked trade opportunity for monitoring
+      this.emit('tradeBlocked', {
+        symbol: liquidation.symbol,
+        side,
+        reason: vwapCheck.reason,
+        vwap: vwapCheck.vwap,
+        currentPrice: liquidation.price,
+        blockType: 'VWAP_FILTER'
+      });
+
+      return false;
     }
+
+logWithTimestamp(`Hunter: VWAP Check Passed - Price $${liquidation.price.toFixed(2)} ${side === 'BUY' ? 'below' : 'above'} VWAP $${vwapCheck.vwap.toFixed(2)}`);
+    return true;
   }
 
-  private async analyzeAndTrade(liquidation: LiquidationEvent, symbolConfig: SymbolConfig, _forcedSide?: 'BUY' | 'SELL'): Promise<void> {
+  // Returns false (and emits tradeBlocked) when the order book fails the symbol's spread/depth/imbalance filters
+  private async checkOrderBookFilter(symbol: string, side: 'BUY' | 'SELL', symbolConfig: SymbolConfig): Promise<boolean> {
+    const settings = getOrderBookFilterSettings(symbolConfig);
+    if (!settings) {
+      return true;
+    }
+
+    // The live book says nothing about a recorded stream
+    if (this.replay) {
+      return true;
+    }
+
+    let liquidity;
     try {
-      // Get mark price and recent 1m kline
-      const [markPriceData] = Array.isArray(await getMarkPrice(liquidation.symbol)) ?
-        await getMarkPrice(liquidation.symbol) as any[] :
-        [await getMarkPrice(liquidation.symbol)];
+      liquidity = await getOrderBookLiquidity(symbol, settings.depthRangeBps);
+    } catch (error) {
+logWarnWithTimestamp(`Hunter: Order book filter skipped for ${symbol} - failed to fetch the book:`, error instanceof Error ? error.message : error);
+      return true;
+    }
 
-      const markPrice = parseFloat(markPriceData.markPrice);
+    const decision = liquidity
+      ? evaluateOrderBookFilter(settings, side, liquidity)
+      : { allowed: false, reason: 'Order book is empty or crossed', imbalance: 0 };
 
-      // Simple analysis: If SELL liquidation and price is > 0.99 * mark, buy
-      // If BUY liquidation, sell
-      const priceRatio = liquidation.price / markPrice;
-      const triggerBuy = liquidation.side === 'SELL' && priceRatio < 1.01; // 1% below
-      const triggerSell = liquidation.side === 'BUY' && priceRatio > 0.99;  // 1% above
+    if (!decision.allowed || !liquidity) {
+logWithTimestamp(`Hunter: Order Book Filter - ${symbol} ${side} blocked: ${decision.reason}`);
 
-      // Check VWAP protection if enabled
-      if (symbolConfig.vwapProtection) {
-        const timeframe = symbolConfig.vwapTimeframe || '1m';
-        const lookback = symbolConfig.vwapLookback || 100;
-
-        if (triggerBuy) {
-          // Try to use streamer data first (real-time)
-          const streamedVWAP = vwapStreamer.getCurrentVWAP(liquidation.symbol);
-          let vwapCheck;
-
-          if (streamedVWAP && Date.now() - streamedVWAP.timestamp < 5000) {
-            // Use streamed data if it's fresh (less than 5 seconds old)
-            const allowed = liquidation.price < streamedVWAP.vwap;
-            vwapCheck = {
-              allowed,
-              vwap: streamedVWAP.vwap,
-              reason: allowed
-                ? `Price is below VWAP - BUY entry allowed`
-                : `Price ($${liquidation.price.toFixed(2)}) is above VWAP ($${streamedVWAP.vwap.toFixed(2)}) - blocking long entry`
-            };
-          } else {
-            // Fallback to API fetch if no fresh streamer data
-            vwapCheck = await vwapService.checkVWAPFilter(
-              liquidation.symbol,
-              'BUY',
-              liquidation.price,
-              timeframe,
-              lookback
-            );
-          }
+      this.emit('tradeBlocked', {
+        symbol,
+        side,
+        reason: decision.reason,
+        currentPrice: liquidity?.midPrice,
+        spreadBps: liquidity?.spreadBps,
+        bidDepthUSDT: liquidity?.bidDepthUSDT,
+        askDepthUSDT: liquidity?.askDepthUSDT,
+        imbalance: decision.imbalance,
+        blockType: 'ORDER_BOOK_FILTER'
+      });
 
-          if (!vwapCheck.allowed) {
-logWithTimestamp(`Hunter: VWAP Protection - ${vwapCheck.reason}`);
+      return false;
+    }
 
-            // Emit blocked trade opportunity for monitoring
-            this.emit('tradeBlocked', {
-              symbol: liquidation.symbol,
-              side: 'BUY',
-              reason: vwapCheck.reason,
-              vwap: vwapCheck.vwap,
-              currentPrice: liquidation.price,
-              blockType: 'VWAP_FILTER'
-            });
+logWithTimestamp(`Hunter: Order Book Check Passed - ${symbol} spread ${liquidity.spreadBps.toFixed(1)} bps, depth $${liquidity.bidDepthUSDT.toFixed(0)}/$${liquidity.askDepthUSDT.toFixed(0)} within ${settings.depthRangeBps} bps, imbalance ${decision.imbalance.toFixed(2)}`);
+    return true;
+  }
 
-            return; // Block the trade
-          } else {
-logWithTimestamp(`Hunter: VWAP Check Passed - Price $${liquidation.price.toFixed(2)} below VWAP $${vwapCheck.vwap.toFixed(2)}`);
-          }
-        } else if (triggerSell) {
-          // Try to use streamer data first (real-time)
-          const streamedVWAP = vwapStreamer.getCurrentVWAP(liquidation.symbol);
-          let vwapCheck;
-
-          if (streamedVWAP && Date.now() - streamedVWAP.timestamp < 5000) {
-            // Use streamed data if it's fresh (less than 5 seconds old)
-            const allowed = liquidation.price > streamedVWAP.vwap;
-            vwapCheck = {
-              allowed,
-              vwap: streamedVWAP.vwap,
-              reason: allowed
-                ? `Price is above VWAP - SELL entry allowed`
-                : `Price ($${liquidation.price.toFixed(2)}) is below VWAP ($${streamedVWAP.vwap.toFixed(2)}) - blocking short entry`
-            };
-          } else {
-            // Fallback to API fetch if no fresh streamer data
-            vwapCheck = await vwapService.checkVWAPFilter(
-              liquidation.symbol,
-              'SELL',
-              liquidation.price,
-              timeframe,
-              lookback
-            );
-          }
+  // Returns false (and emits tradeBlocked) when funding is too adverse or too close for the symbol's funding filters
+  private async checkFundingFilter(symbol: string, side: 'BUY' | 'SELL', symbolConfig: SymbolConfig): Promise<boolean> {
+    const settings = getFundingFilterSettings(symbolConfig);
+    if (!settings || this.replay) {
+      return true;
+    }
 
-          if (!vwapCheck.allowed) {
-logWithTimestamp(`Hunter: VWAP Protection - ${vwapCheck.reason}`);
+    const funding = await this.getFundingSnapshot(symbol);
+    if (!funding) {
+logWarnWithTimestamp(`Hunter: Funding filter skipped for ${symbol} - no funding data`);
+      return true;
+    }
 
-            // Emit blocked trade opportunity for monitoring
-            this.emit('tradeBlocked', {
-              symbol: liquidation.symbol,
-              side: 'SELL',
-              reason: vwapCheck.reason,
-              vwap: vwapCheck.vwap,
-              currentPrice: liquidation.price,
-              blockType: 'VWAP_FILTER'
-            });
+    const decision = evaluateFundingFilter(settings, side, funding);
+    if (!decision.allowed) {
+logWithTimestamp(`Hunter: Funding Filter - ${symbol} ${side} blocked: ${decision.reason}`);
 
-            return; // Block the trade
-          } else {
-logWithTimestamp(`Hunter: VWAP Check Passed - Price $${liquidation.price.toFixed(2)} above VWAP $${vwapCheck.vwap.toFixed(2)}`);
-          }
+      this.emit('tradeBlocked', {
+        symbol,
+        side,
+        reason: decision.reason,
+        fundingRate: funding.fundingRate,
+        nextFundingTime: funding.nextFundingTime,
+        blockType: 'FUNDING_FILTER'
+      });
+
+      return false;
+    }
+
+    return true;
+  }
+
+  // Total, net directional and per-group notional caps across all open positions and unfilled entries
+  private checkExposureLimits(symbol: string, side: 'BUY' | 'SELL', notionalUSDT: number): boolean {
+    const limits = this.config.global.exposureLimits;
+    if (!limits?.enabled || !this.positionTracker) {
+      return true;
+    }
+
+    const positions = Array.from(this.positionTracker.getPositionsMap().values())
+      .map(position => toExposurePosition(position))
+      .filter((position): position is ExposurePosition => position !== null);
+
+    // Entries still waiting to fill count too, so a burst of liquidations cannot stack orders past the caps
+    const pendingEntries = [
+      ...Array.from(this.pendingOrders.values()),
+      ...this.paperExecution.getPendingEntries().map(order => ({
+        symbol: order.symbol,
+        side: order.side,
+        notionalUSDT: (order.quantity - order.filledQuantity) * order.price,
+      })),
+    ];
+    for (const entry of pendingEntries) {
+      positions.push({ symbol: entry.symbol, side: entry.side === 'BUY' ? 'LONG' : 'SHORT', notionalUSDT: entry.notionalUSDT });
+    }
+
+    const decision = evaluateExposureLimits(limits, positions, {
+      symbol,
+      side: side === 'BUY' ? 'LONG' : 'SHORT',
+      notionalUSDT,
+    });
+
+    if (!decision.allowed) {
+logWithTimestamp(`Hunter: Exposure Limit - ${symbol} ${side} blocked: ${decision.reason}`);
+
+      this.emit('tradeBlocked', {
+        symbol,
+        side,
+        reason: decision.reason,
+        limit: decision.limit,
+        group: decision.group,
+        totalNotionalUSDT: decision.exposure.totalNotionalUSDT,
+        netNotionalUSDT: decision.exposure.netNotionalUSDT,
+        blockType: 'EXPOSURE_LIMIT'
+      });
+
+      return false;
+    }
+
+    return true;
+  }
+
+  // Funding from the mark price stream, falling back to the premium index when the stream has none yet
+  private async getFundingSnapshot(symbol: string): Promise<FundingSnapshot | null> {
+    const streamed = getPriceService()?.getFundingInfo(symbol);
+    if (streamed && streamed.nextFundingTime > Date.now()) {
+      return streamed;
+    }
+
+    try {
+      const premiumIndex = await getMarkPrice(symbol);
+      const data = Array.isArray(premiumIndex) ? premiumIndex[0] : premiumIndex;
+      if (data?.lastFundingRate === undefined || !data.nextFundingTime) {
+        return null;
+      }
+      return { fundingRate: parseFloat(data.lastFundingRate), nextFundingTime: data.nextFundingTime };
+    } catch (error) {
+logErrorWithTimestamp(`Hunter: Failed to fetch funding for ${symbol}:`, error);
+      return null;
+    }
+  }
+
+  // Resolve the margin (USDT) to commit to a new trade. In RISK sizing mode the margin is derived
+  // from account equity, riskPercent and slPercent; returns null when the trade should be skipped.
+  private async resolveTradeMargin(symbol: string, side: 'BUY' | 'SELL', symbolConfig: SymbolConfig, price: number): Promise<number | null> {
+    if (this.config.global.sizingMode !== 'RISK') {
+      return getFixedTradeMargin(symbolConfig, side);
+    }
+
+    let balance = 0;
+    try {
+      // Shadow trades size from the live account when there is no paper balance
+      const paperBalanceService = getPaperBalanceService();
+      if (this.config.global.paperMode && (paperBalanceService || !this.shadow)) {
+        balance = paperBalanceService?.getBalance().totalBalance ?? 0;
+      } else {
+        const balanceService = getBalanceService();
+        if (balanceService?.isInitialized()) {
+          balance = balanceService.getCurrentBalance().totalBalance;
+        }
+        if (balance <= 0) {
+          const accountInfo = await getAccountInfo(this.config.api);
+          balance = parseFloat(accountInfo.totalWalletBalance || '0');
         }
       }
+    } catch (error) {
+logErrorWithTimestamp(`Hunter: Failed to fetch balance for risk-based sizing of ${symbol}:`, error);
+      return null;
+    }
 
-      if (triggerBuy) {
-        const volumeUSDT = liquidation.qty * liquidation.price;
-
-        // Emit trade opportunity
-        this.emit('tradeOpportunity', {
-          symbol: liquidation.symbol,
-          side: 'BUY',
-          reason: `SELL liquidation at ${((1 - priceRatio) * 100).toFixed(2)}% below mark price`,
-          liquidationVolume: volumeUSDT,
-          priceImpact: (1 - priceRatio) * 100,
-          confidence: Math.min(95, 50 + (volumeUSDT / 1000) * 10) // Higher confidence for larger volumes
-        });
+    // Size against the stop the position manager will place, ATR-scaled when volatility stops are on
+    const protection = await getProtectionDistances(symbol, symbolConfig, price);
+    const size = calculateRiskBasedSize({
+      balance,
+      riskPercent: this.config.global.riskPercent,
+      slPercent: protection.slPercent,
+      leverage: symbolConfig.leverage,
+      price,
+      maxPositionMarginUSDT: symbolConfig.maxPositionMarginUSDT,
+      currentMarginUSDT: this.positionTracker?.getMarginUsage(symbol) ?? 0,
+      filters: await getSizingFilters(symbol)
+    });
 
-        logWithTimestamp(`Hunter: Triggering BUY for ${liquidation.symbol} at ${liquidation.price}`);
-        await this.placeTrade(liquidation.symbol, 'BUY', symbolConfig, liquidation.price);
-      } else if (triggerSell) {
-        const volumeUSDT = liquidation.qty * liquidation.price;
-
-        // Emit trade opportunity
-        this.emit('tradeOpportunity', {
-          symbol: liquidation.symbol,
-          side: 'SELL',
-          reason: `BUY liquidation at ${((priceRatio - 1) * 100).toFixed(2)}% above mark price`,
-          liquidationVolume: volumeUSDT,
-          priceImpact: (priceRatio - 1) * 100,
-          confidence: Math.min(95, 50 + (volumeUSDT / 1000) * 10)
+    if (size.error) {
+logWarnWithTimestamp(`Hunter: Risk-based sizing rejected ${side} ${symbol} - ${size.error}`);
+      if (this.statusBroadcaster) {
+        this.statusBroadcaster.broadcastTradeBlocked({
+          symbol,
+          side: side === 'BUY' ? 'LONG' : 'SHORT',
+          reason: size.error,
+          blockType: 'RISK_SIZING'
         });
+      }
+      return null;
+    }
 
-        logWithTimestamp(`Hunter: Triggering SELL for ${liquidation.symbol} at ${liquidation.price}`);
-        await this.placeTrade(liquidation.symbol, 'SELL', symbolConfig, liquidation.price);
+logWithTimestamp(`Hunter: Risk-based size for ${symbol} - balance: ${balance.toFixed(2)} USDT, risk: ${this.config.global.riskPercent}% (${size.riskUSDT.toFixed(2)} USDT), SL: ${protection.slPercent.toFixed(2)}% (${protection.source}), margin: ${size.marginUSDT.toFixed(2)} USDT, quantity: ${size.quantity}${size.cappedByMargin ? ' (capped by maxPositionMarginUSDT)' : ''}`);
+    return size.marginUSDT;
+  }
+
+  // With scale-in enabled, a signal in the direction of an open position adds to it instead of opening
+  // another one. Returns null when there is no position to add to; blocked adds are broadcast here.
+  private evaluateScaleInEntry(symbol: string, side: 'BUY' | 'SELL', symbolConfig: SymbolConfig, price: number, baseMarginUSDT: number): ScaleInDecision | null {
+    const settings = getScaleInSettings(symbolConfig);
+    if (!settings || !this.positionTracker) {
+      return null;
+    }
+
+    const positionSide = side === 'BUY' ? 'LONG' : 'SHORT';
+    const openPosition = this.positionTracker.getScaleInState(symbol, positionSide);
+    if (!openPosition) {
+      return null;
+    }
+
+    const decision = evaluateScaleIn({
+      settings,
+      isLong: side === 'BUY',
+      averageEntry: openPosition.entryPrice,
+      price,
+      addsSoFar: openPosition.adds,
+      baseMarginUSDT,
+      currentMarginUSDT: this.positionTracker.getMarginUsage(symbol),
+      maxPositionMarginUSDT: symbolConfig.maxPositionMarginUSDT
+    });
+
+    if (!decision.allowed) {
+logWithTimestamp(`Hunter: Skipping scale-in for ${symbol} ${positionSide} - ${decision.reason}`);
+      if (this.statusBroadcaster) {
+        this.statusBroadcaster.broadcastTradeBlocked({
+          symbol,
+          side: positionSide,
+          reason: decision.reason || 'Scale-in not allowed',
+          blockType: 'SCALE_IN'
+        });
       }
-    } catch (error) {
-logErrorWithTimestamp('Hunter: Analysis error:', error);
+      return decision;
     }
+
+logWithTimestamp(`Hunter: Scale-in ${decision.addNumber}/${settings.maxAdds} for ${symbol} ${positionSide} - price ${decision.adverseDistancePercent.toFixed(2)}% against average entry ${openPosition.entryPrice}, margin: ${decision.marginUSDT.toFixed(2)} USDT${decision.cappedByMargin ? ' (capped by maxPositionMarginUSDT)' : ''}`);
+    return decision;
   }
 
-  private async placeTrade(symbol: string, side: 'BUY' | 'SELL', symbolConfig: SymbolConfig, entryPrice: number): Promise<void> {
+  private async placeTrade(symbol: string, side: 'BUY' | 'SELL', symbolConfig: SymbolConfig, entryPrice: number, liquidation?: LiquidationEvent): Promise<void> {
     // Track when this trade attempt started (for timestamp validation)
     const tradeStartTime = Date.now();
 
@@ -725,10 +1118,28 @@ logErrorWithTimestamp('Hunter: Analysis error:', error);
     let quantity: number | undefined;  // Don't initialize to 0 - use undefined
     let notionalUSDT: number | undefined;  // Don't initialize to 0 - use undefined
     let tradeSizeUSDT: number = symbolConfig.tradeSize; // Default to general tradeSize
+    let scaleIn: ScaleInDecision | null = null; // Set when the entry adds to an open position
     let order: any; // Declare order variable for error handling
 
+    // Kill switch - no new entries while trading is paused (it guards the live account, not shadow trades)
+    if (!this.shadow && riskGuard.isTradingPaused()) {
+      const state = riskGuard.getState();
+logWithTimestamp(`Hunter: Skipping trade - trading paused (${state.reason})`);
+      this.emit('tradeBlocked', {
+        symbol,
+        side,
+        reason: `Trading paused: ${state.reason}`,
+        blockType: 'RISK_LIMIT'
+      });
+      return;
+    }
+
     try {
-      // Check position limits before placing trade
+      const entrySide = side === 'BUY' ? 'LONG' : 'SHORT';
+      // A signal in the direction of an open position may become a scale-in add rather than a new position
+      const isScaleInCandidate = !!(getScaleInSettings(symbolConfig) && this.positionTracker?.getScaleInState(symbol, entrySide));
+
+      // Local position limits first - rejected signals should not spend API weight on balance or sizing lookups
       if (this.positionTracker && !this.config.global.paperMode) {
         // Check if we already have a pending order for this symbol
         if (this.hasPendingOrderForSymbol(symbol)) {
@@ -742,14 +1153,14 @@ logWithTimestamp(`Hunter: Skipping trade - already have pending order for ${symb
         const pendingOrderCount = this.getPendingOrderCount();
         const totalPositions = currentPositionCount + pendingOrderCount;
 
-        if (totalPositions >= maxPositions) {
+        if (totalPositions >= maxPositions && !isScaleInCandidate) {
 logWithTimestamp(`Hunter: Skipping trade - max positions reached (current: ${currentPositionCount}, pending: ${pendingOrderCount}, max: ${maxPositions})`);
           return;
         }
 
         // Check per-pair position limits
-        const positionSide = side === 'BUY' ? 'LONG' : 'SHORT';
-        const canOpen = this.positionTracker.canOpenPosition(symbol, positionSide);
+        // A scale-in add grows the open position instead of opening a new one
+        const canOpen = isScaleInCandidate ? { allowed: true } : this.positionTracker.canOpenPosition(symbol, entrySide);
 
         if (!canOpen.allowed) {
 logWithTimestamp(`Hunter: Skipping trade - ${canOpen.reason}`);
@@ -758,7 +1169,7 @@ logWithTimestamp(`Hunter: Skipping trade - ${canOpen.reason}`);
           if (this.statusBroadcaster) {
             this.statusBroadcaster.broadcastTradeBlocked({
               symbol,
-              side: positionSide,
+              side: entrySide,
               reason: canOpen.reason || 'Position limit reached',
               blockType: 'POSITION_LIMIT'
             });
@@ -766,13 +1177,35 @@ logWithTimestamp(`Hunter: Skipping trade - ${canOpen.reason}`);
 
           return;
         }
+      }
+
+      // Margin for this trade - fixed trade size or derived from riskPercent
+      const baseMarginUSDT = await this.resolveTradeMargin(symbol, side, symbolConfig, entryPrice);
+      if (baseMarginUSDT === null) {
+        return;
+      }
+
+      // Scale-in adds to an open position in the same direction with its own size multiplier
+      scaleIn = this.evaluateScaleInEntry(symbol, side, symbolConfig, entryPrice, baseMarginUSDT);
+      if (scaleIn && !scaleIn.allowed) {
+        return;
+      }
+      const tradeMarginUSDT = scaleIn ? scaleIn.marginUSDT : baseMarginUSDT;
+
+      // Portfolio exposure caps apply to new positions and scale-in adds alike
+      if (!this.checkExposureLimits(symbol, side, tradeMarginUSDT * symbolConfig.leverage)) {
+        return;
+      }
+
+      if (this.positionTracker && !this.config.global.paperMode) {
+        const currentPositionCount = this.positionTracker.getUniquePositionCount(this.isHedgeMode);
 
         // Note: Periodic cleanup now happens automatically every 30 seconds
 
-        // Check symbol-specific margin limit
-        if (symbolConfig.maxPositionMarginUSDT) {
+        // Check symbol-specific margin limit (scale-in adds are already capped to the remaining room)
+        if (symbolConfig.maxPositionMarginUSDT && !scaleIn) {
           const currentMargin = this.positionTracker.getMarginUsage(symbol);
-          const newTradeMargin = symbolConfig.tradeSize;
+          const newTradeMargin = tradeMarginUSDT;
           const totalMargin = currentMargin + newTradeMargin;
 
           // Enhanced logging to debug margin issues
@@ -791,10 +1224,7 @@ logWithTimestamp(`Hunter: Skipping trade - would exceed max margin for ${symbol}
           const availableBalance = parseFloat(accountInfo.availableBalance || '0');
           const usedMargin = totalBalance - availableBalance;
 
-          // Use direction-specific trade size if available
-          const requiredMargin = side === 'BUY'
-            ? (symbolConfig.longTradeSize ?? symbolConfig.tradeSize)
-            : (symbolConfig.shortTradeSize ?? symbolConfig.tradeSize);
+          const requiredMargin = tradeMarginUSDT;
 
 logWithTimestamp(`Hunter: Available margin check for ${symbol}`);
 logWithTimestamp(`  Total balance: ${totalBalance.toFixed(2)} USDT`);
@@ -845,10 +1275,14 @@ logWarnWithTimestamp(`Hunter: Proceeding with trade anyway - exchange will rejec
       }
 
       if (this.config.global.paperMode) {
+        // One simulated entry per symbol at a time, like the live pending order check
+        if (this.paperExecution.hasPendingEntry(symbol)) {
+logWithTimestamp(`Hunter: Skipping trade - already have a pending paper order for ${symbol}`);
+          return;
+        }
+
         // Calculate proper quantity for paper mode based on trade size (margin) and leverage
-        const marginUSDT = side === 'BUY'
-          ? (symbolConfig.longTradeSize ?? symbolConfig.tradeSize)
-          : (symbolConfig.shortTradeSize ?? symbolConfig.tradeSize);
+        const marginUSDT = tradeMarginUSDT;
 
         const notionalUSDT = marginUSDT * symbolConfig.leverage;
         const calculatedQuantity = notionalUSDT / entryPrice;
@@ -856,20 +1290,45 @@ logWarnWithTimestamp(`Hunter: Proceeding with trade anyway - exchange will rejec
         // Format quantity using symbol precision (use default if not available)
         const quantity = symbolPrecision.formatQuantity(symbol, calculatedQuantity);
 
-logWithTimestamp(`Hunter: PAPER MODE - Would place ${side} order for ${symbol}`);
+        // Limit entries rest priceOffsetBps inside the signal price, as the live path prices them
+        const orderType = symbolConfig.forceMarketEntry ? 'MARKET' : (symbolConfig.orderType || 'LIMIT');
+        const offset = (symbolConfig.priceOffsetBps || 1) / 10000;
+        const orderPrice = orderType === 'LIMIT'
+          ? symbolPrecision.formatPrice(symbol, side === 'BUY' ? entryPrice * (1 - offset) : entryPrice * (1 + offset))
+          : entryPrice;
+
+logWithTimestamp(`Hunter: PAPER MODE - Simulating ${side} ${orderType} order for ${symbol}`);
 logWithTimestamp(`  Margin: ${marginUSDT} USDT, Leverage: ${symbolConfig.leverage}x`);
-logWithTimestamp(`  Notional: ${notionalUSDT.toFixed(2)} USDT, Price: ${entryPrice.toFixed(4)}`);
+logWithTimestamp(`  Notional: ${notionalUSDT.toFixed(2)} USDT, Price: ${orderPrice.toFixed(4)}`);
 logWithTimestamp(`  Calculated quantity: ${calculatedQuantity.toFixed(8)} -> ${quantity} (formatted)`);
 
-        this.emit('positionOpened', {
-          symbol,
-          side,
-          quantity: quantity,  // Properly calculated quantity in contracts
-          margin: marginUSDT,  // Margin in USDT
-          price: entryPrice,
-          leverage: symbolConfig.leverage,
-          paperMode: true
-        });
+        // Queued limits are filled later by the position manager's paper update loop
+        getPriceService()?.subscribeToSymbols([symbol]);
+        const markPrice = parseFloat(getPriceService()?.getMarkPrice(symbol)?.markPrice || '0');
+
+        await this.paperExecution.submitEntry(
+          { symbol, side, orderType, quantity, price: orderPrice },
+          markPrice,
+          (fill: PaperFill) => {
+            // The first fill opens (or scales into) the position, later partial fills add to it
+            if (fill.first && scaleIn) {
+              this.positionTracker?.recordScaleIn(symbol, side === 'BUY' ? 'LONG' : 'SHORT');
+            }
+
+            this.emit('positionOpened', {
+              symbol,
+              side,
+              quantity: fill.quantity,  // Filled quantity in contracts
+              margin: (fill.price * fill.quantity) / symbolConfig.leverage,  // Margin in USDT
+              price: fill.price,
+              leverage: symbolConfig.leverage,
+              scaleIn: !!scaleIn || !fill.first,
+              liquidation,
+              paperMode: true,
+              fill
+            });
+          }
+        );
         return;
       }
 
@@ -932,10 +1391,7 @@ logErrorWithTimestamp(`Hunter: Could not fetch symbol info for ${symbol}`);
       }
 
       // Calculate proper quantity based on USDT margin value
-      // Use direction-specific trade size if available, otherwise fall back to general tradeSize
-      tradeSizeUSDT = side === 'BUY'
-        ? (symbolConfig.longTradeSize ?? symbolConfig.tradeSize)
-        : (symbolConfig.shortTradeSize ?? symbolConfig.tradeSize);
+      tradeSizeUSDT = tradeMarginUSDT;
 
       notionalUSDT = tradeSizeUSDT * symbolConfig.leverage;
 
@@ -1038,11 +1494,14 @@ logWithTimestamp(`Hunter: Order params - Symbol: ${symbol}, Side: ${side}, Posit
         orderParams.timeInForce = symbolConfig.usePostOnly ? 'GTX' : 'GTC';
       }
 
+      // Notional the entry adds once filled, counted against the exposure caps while it is pending
+      const pendingNotionalUSDT = quantity * orderPrice;
+
       // Generate a temporary tracking ID before placing the order
       const tempTrackingId = `temp_${Date.now()}_${symbol}_${side}`;
 
       // Pre-track the order to prevent duplicate trades while order is being placed
-      this.addPendingOrder(tempTrackingId, symbol, side);
+      this.addPendingOrder(tempTrackingId, symbol, side, pendingNotionalUSDT, liquidation);
 
       try {
         // Place the order
@@ -1054,7 +1513,7 @@ logWithTimestamp(`Hunter: Order params - Symbol: ${symbol}, Side: ${side}, Posit
         // Replace temp tracking with real order ID
         this.removePendingOrder(tempTrackingId);
         if (order.orderId) {
-          this.addPendingOrder(order.orderId.toString(), symbol, side);
+          this.addPendingOrder(order.orderId.toString(), symbol, side, pendingNotionalUSDT, liquidation);
         }
       } catch (orderError: any) {
         // Check if this is a position mode error (-4061)
@@ -1085,7 +1544,7 @@ logWithTimestamp(`Hunter: Retrying with corrected mode: ${this.isHedgeMode ? 'HE
 
               // Create retry tracking
               const retryTrackingId = `retry_${Date.now()}_${symbol}_${side}`;
-              this.addPendingOrder(retryTrackingId, symbol, side);
+              this.addPendingOrder(retryTrackingId, symbol, side, pendingNotionalUSDT, liquidation);
 
               try {
                 // Retry the order
@@ -1097,7 +1556,7 @@ logWithTimestamp(`Hunter: ✅ Order placed after mode correction for ${symbol}${
                 // Replace tracking with real order ID
                 this.removePendingOrder(retryTrackingId);
                 if (order.orderId) {
-                  this.addPendingOrder(order.orderId.toString(), symbol, side);
+                  this.addPendingOrder(order.orderId.toString(), symbol, side, pendingNotionalUSDT, liquidation);
                 }
               } catch (retryError) {
 logErrorWithTimestamp(`Hunter: Retry failed even with corrected mode. Error:`, retryError);
@@ -1157,6 +1616,8 @@ logWarnWithTimestamp('Hunter: Cannot determine correct mode. Since we cannot ver
           orderId: order.orderId,
           leverage: symbolConfig.leverage,
           orderType,
+          scaleIn: !!scaleIn,
+          liquidation,
           paperMode: false
         });
       }
@@ -1362,6 +1823,12 @@ logWarnWithTimestamp(`Hunter: Skipping fallback order - ${timeSinceStart}ms elap
           return;
         }
 
+        // The fallback reuses the size that passed the risk and exposure checks - without one there is nothing approved to retry
+        if (quantity === undefined) {
+logWarnWithTimestamp(`Hunter: Skipping fallback order - ${symbol} failed before the trade was sized`);
+          return;
+        }
+
 logWithTimestamp(`Hunter: Retrying with market order for ${symbol}`);
 
         // Declare fallback variables for error handling
@@ -1373,17 +1840,6 @@ logWithTimestamp(`Hunter: Retrying with market order for ${symbol}`);
         try {
           await setLeverage(symbol, symbolConfig.leverage, this.config.api);
 
-          // Fetch symbol info for precision and filters
-          const fallbackSymbolInfo = await getSymbolFilters(symbol);
-          if (!fallbackSymbolInfo) {
-logErrorWithTimestamp(`Hunter: Could not fetch symbol info for fallback order ${symbol}`);
-            throw new Error('Symbol info unavailable');
-          }
-
-          // Extract minimum notional from filters
-          const fallbackMinNotionalFilter = fallbackSymbolInfo.filters.find(f => f.filterType === 'MIN_NOTIONAL');
-          const fallbackMinNotional = fallbackMinNotionalFilter ? parseFloat(fallbackMinNotionalFilter.notional || '5') : 5;
-
           // Fetch current price for fallback market order
           const markPriceData = await getMarkPrice(symbol);
           const rawFallbackPrice = parseFloat(Array.isArray(markPriceData) ? markPriceData[0].markPrice : markPriceData.markPrice);
@@ -1391,29 +1847,17 @@ logErrorWithTimestamp(`Hunter: Could not fetch symbol info for fallback order ${
           // Always use symbolPrecision formatting (which now has defaults)
           fallbackPrice = symbolPrecision.formatPrice(symbol, rawFallbackPrice);
 
-          // Calculate quantity for fallback order
-          let fallbackNotionalUSDT = symbolConfig.tradeSize * symbolConfig.leverage;
-
-          // Ensure we meet minimum notional requirement
-          if (fallbackNotionalUSDT < fallbackMinNotional) {
-logWithTimestamp(`Hunter: Adjusting fallback notional from ${fallbackNotionalUSDT} to minimum ${fallbackMinNotional} for ${symbol}`);
-            fallbackNotionalUSDT = fallbackMinNotional * 1.01; // Add 1% buffer
-          }
-
-          // Calculate raw quantity
-          const rawFallbackQuantity = fallbackNotionalUSDT / fallbackPrice;
-
-          // Always use symbolPrecision formatting (which now has defaults)
-          fallbackQuantity = symbolPrecision.formatQuantity(symbol, rawFallbackQuantity);
+          // Same quantity as the failed order - risk sizing, scale-in margin and the exposure caps already approved it
+          fallbackQuantity = quantity;
 
-logWithTimestamp(`Hunter: Fallback calculation for ${symbol}: margin=${symbolConfig.tradeSize} USDT, leverage=${symbolConfig.leverage}x, price=${fallbackPrice}, notional=${fallbackNotionalUSDT} USDT, quantity=${fallbackQuantity}`);
+logWithTimestamp(`Hunter: Fallback calculation for ${symbol}: margin=${tradeSizeUSDT} USDT, leverage=${symbolConfig.leverage}x, price=${fallbackPrice}, notional=${(fallbackQuantity * fallbackPrice).toFixed(2)} USDT, quantity=${fallbackQuantity}`);
 
           fallbackPositionSide = getPositionSide(this.isHedgeMode, side) as 'BOTH' | 'LONG' | 'SHORT';
 logWithTimestamp(`Hunter: Using position mode: ${this.isHedgeMode ? 'HEDGE' : 'ONE-WAY'}, side: ${side}, positionSide: ${fallbackPositionSide}`);
 
           // Generate temp tracking for fallback order
           fallbackTempId = `fallback_${Date.now()}_${symbol}_${side}`;
-          this.addPendingOrder(fallbackTempId, symbol, side);
+          this.addPendingOrder(fallbackTempId, symbol, side, fallbackQuantity * fallbackPrice, liquidation);
 
           const fallbackOrder = await placeOrder({
             symbol,
@@ -1428,7 +1872,7 @@ logWithTimestamp(`Hunter: Fallback market order placed for ${symbol}, orderId: $
           // Replace temp tracking with real order ID
           this.removePendingOrder(fallbackTempId);
           if (fallbackOrder.orderId) {
-            this.addPendingOrder(fallbackOrder.orderId.toString(), symbol, side);
+            this.addPendingOrder(fallbackOrder.orderId.toString(), symbol, side, fallbackQuantity * fallbackPrice, liquidation);
           }
 
           // Broadcast fallback order placed event
@@ -1450,6 +1894,8 @@ logWithTimestamp(`Hunter: Fallback market order placed for ${symbol}, orderId: $
             orderId: fallbackOrder.orderId,
             leverage: symbolConfig.leverage,
             orderType: 'MARKET',
+            scaleIn: !!scaleIn,
+            liquidation,
             paperMode: false
           });
 
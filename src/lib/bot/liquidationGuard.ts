@@ -0,0 +1,157 @@
+import { LiquidationGuardConfig, LiquidationGuardAction } from '../types';
+
+export type LiquidationRiskLevel = 'SAFE' | 'WARNING' | 'CRITICAL';
+
+export interface LiquidationGuardSettings {
+  warningDistancePercent: number;
+  criticalDistancePercent: number;
+  criticalAction: LiquidationGuardAction;
+  reducePercent: number;
+  maxAddMarginUSDT: number;
+  alertCooldownMs: number;
+}
+
+export interface LiquidationRiskState {
+  level?: LiquidationRiskLevel;   // Level of the last alert
+  alertedAt?: number;
+  actedAt?: number;               // Last reduce / add margin attempt
+  marginAdded?: number;           // Isolated margin added to the position so far
+}
+
+export interface LiquidationRiskDecision {
+  level: LiquidationRiskLevel;
+  distancePercent: number;
+  alert: boolean;
+  action?: 'REDUCE' | 'ADD_MARGIN';
+  reduceQuantity?: number;
+  marginToAdd?: number;
+}
+
+// Alert raised by the guard or forwarded from a user stream MARGIN_CALL
+export interface LiquidationRiskEvent {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  level: 'WARNING' | 'CRITICAL' | 'MARGIN_CALL';
+  distancePercent?: number;
+  markPrice?: number;
+  liquidationPrice?: number;
+  message: string;
+}
+
+const DEFAULT_WARNING_DISTANCE_PERCENT = 10;
+const DEFAULT_CRITICAL_DISTANCE_PERCENT = 5;
+const DEFAULT_REDUCE_PERCENT = 50;
+const DEFAULT_MAX_ADD_MARGIN_USDT = 100;
+const DEFAULT_ALERT_COOLDOWN_MINUTES = 15;
+// Give the exchange time to report the new liquidation price before acting again
+export const ACTION_RETRY_MS = 30 * 1000;
+
+const LEVEL_RANK: Record<LiquidationRiskLevel, number> = { SAFE: 0, WARNING: 1, CRITICAL: 2 };
+
+// Resolve the guard settings, or null when the guard is off
+export function getLiquidationGuardSettings(config: LiquidationGuardConfig | undefined): LiquidationGuardSettings | null {
+  if (!config?.enabled) {
+    return null;
+  }
+
+  const warningDistancePercent = Math.max(0, config.warningDistancePercent ?? DEFAULT_WARNING_DISTANCE_PERCENT);
+
+  return {
+    warningDistancePercent,
+    criticalDistancePercent: Math.min(warningDistancePercent, Math.max(0, config.criticalDistancePercent ?? DEFAULT_CRITICAL_DISTANCE_PERCENT)),
+    criticalAction: config.criticalAction || 'REDUCE',
+    reducePercent: Math.min(100, Math.max(0, config.reducePercent ?? DEFAULT_REDUCE_PERCENT)),
+    maxAddMarginUSDT: Math.max(0, config.maxAddMarginUSDT ?? DEFAULT_MAX_ADD_MARGIN_USDT),
+    alertCooldownMs: Math.max(0, config.alertCooldownMinutes ?? DEFAULT_ALERT_COOLDOWN_MINUTES) * 60000,
+  };
+}
+
+// How far the mark price can move against the position before liquidation, in % of the mark price
+export function getLiquidationDistancePercent(markPrice: number, liquidationPrice: number, isLong: boolean): number | null {
+  if (!(markPrice > 0) || !(liquidationPrice > 0)) {
+    return null;
+  }
+  return isLong
+    ? ((markPrice - liquidationPrice) / markPrice) * 100
+    : ((liquidationPrice - markPrice) / markPrice) * 100;
+}
+
+export function getLiquidationRiskLevel(settings: LiquidationGuardSettings, distancePercent: number): LiquidationRiskLevel {
+  if (distancePercent <= settings.criticalDistancePercent) {
+    return 'CRITICAL';
+  }
+  if (distancePercent <= settings.warningDistancePercent) {
+    return 'WARNING';
+  }
+  return 'SAFE';
+}
+
+/**
+ * Isolated margin needed to push the liquidation price back out to the warning
+ * distance, capped at what is left of maxAddMarginUSDT for the position. Each
+ * USDT of margin moves the liquidation price by roughly 1 / quantity, ignoring
+ * maintenance margin tiers.
+ */
+export function getMarginToAdd(
+  settings: LiquidationGuardSettings,
+  position: { markPrice: number; liquidationPrice: number; quantity: number; isLong: boolean },
+  marginAdded: number = 0
+): number {
+  const { markPrice, liquidationPrice, quantity, isLong } = position;
+  const targetPrice = isLong
+    ? markPrice * (1 - settings.warningDistancePercent / 100)
+    : markPrice * (1 + settings.warningDistancePercent / 100);
+  const margin = (isLong ? liquidationPrice - targetPrice : targetPrice - liquidationPrice) * quantity;
+  return Math.min(Math.max(0, settings.maxAddMarginUSDT - marginAdded), Math.max(0, margin));
+}
+
+/**
+ * Decide whether to alert and act on a position's distance to liquidation.
+ * Alerts fire when the level escalates and repeat after the cooldown while it
+ * stays elevated. At the critical distance the configured action runs, at most
+ * once per ACTION_RETRY_MS; ADD_MARGIN needs an isolated position and falls
+ * back to REDUCE for cross margin or once the position has been given
+ * maxAddMarginUSDT in total.
+ */
+export function evaluateLiquidationRisk(
+  settings: LiquidationGuardSettings,
+  position: { markPrice: number; liquidationPrice: number; quantity: number; isLong: boolean; isolated: boolean },
+  state: LiquidationRiskState,
+  now: number = Date.now()
+): LiquidationRiskDecision | null {
+  const distancePercent = getLiquidationDistancePercent(position.markPrice, position.liquidationPrice, position.isLong);
+  if (distancePercent === null) {
+    return null;
+  }
+
+  const level = getLiquidationRiskLevel(settings, distancePercent);
+  const escalated = LEVEL_RANK[level] > LEVEL_RANK[state.level || 'SAFE'];
+  const cooledDown = state.alertedAt === undefined || now - state.alertedAt >= settings.alertCooldownMs;
+  const decision: LiquidationRiskDecision = {
+    level,
+    distancePercent,
+    alert: level !== 'SAFE' && (escalated || cooledDown),
+  };
+
+  if (level !== 'CRITICAL' || settings.criticalAction === 'ALERT') {
+    return decision;
+  }
+  if (state.actedAt !== undefined && now - state.actedAt < ACTION_RETRY_MS) {
+    return decision;
+  }
+
+  if (settings.criticalAction === 'ADD_MARGIN' && position.isolated) {
+    const marginToAdd = getMarginToAdd(settings, position, state.marginAdded);
+    if (marginToAdd > 0) {
+      decision.action = 'ADD_MARGIN';
+      decision.marginToAdd = marginToAdd;
+      return decision;
+    }
+  }
+
+  if (settings.reducePercent > 0) {
+    decision.action = 'REDUCE';
+    decision.reduceQuantity = position.quantity * settings.reducePercent / 100;
+  }
+  return decision;
+}
@@ -0,0 +1,74 @@
+import { SymbolConfig } from '../types';
+import { OrderBookLiquidity } from '../api/pricing';
+
+export interface OrderBookFilterSettings {
+  maxSpreadBps?: number;
+  minDepthUSDT?: number;
+  depthRangeBps: number;        // Window around the mid price for depth and imbalance
+  minImbalance?: number;        // Required ratio of same-side depth to opposing depth
+}
+
+export interface OrderBookFilterDecision {
+  allowed: boolean;
+  reason?: string;
+  imbalance: number;            // Same-side depth / opposing depth for the trade direction
+}
+
+const DEFAULT_DEPTH_RANGE_BPS = 10;
+
+const positive = (value: number | undefined): number | undefined =>
+  value !== undefined && value > 0 ? value : undefined;
+
+// Resolve the order book filters for a symbol, or null when none are configured
+export function getOrderBookFilterSettings(symbolConfig: SymbolConfig | undefined): OrderBookFilterSettings | null {
+  const maxSpreadBps = positive(symbolConfig?.maxSpreadBps);
+  const minDepthUSDT = positive(symbolConfig?.minBookDepthUSDT);
+  const minImbalance = positive(symbolConfig?.minBookImbalance);
+
+  if (maxSpreadBps === undefined && minDepthUSDT === undefined && minImbalance === undefined) {
+    return null;
+  }
+
+  return {
+    maxSpreadBps,
+    minDepthUSDT,
+    depthRangeBps: positive(symbolConfig?.bookDepthRangeBps) ?? DEFAULT_DEPTH_RANGE_BPS,
+    minImbalance
+  };
+}
+
+/**
+ * Check the book before an entry. The spread must be at most maxSpreadBps, both
+ * sides need minDepthUSDT within depthRangeBps of the mid (enough to get in and
+ * out), and the depth on the trade's side must outweigh the other side by
+ * minImbalance - bids over asks for a long, asks over bids for a short.
+ */
+export function evaluateOrderBookFilter(
+  settings: OrderBookFilterSettings,
+  side: 'BUY' | 'SELL',
+  liquidity: OrderBookLiquidity
+): OrderBookFilterDecision {
+  const sameSideDepth = side === 'BUY' ? liquidity.bidDepthUSDT : liquidity.askDepthUSDT;
+  const opposingDepth = side === 'BUY' ? liquidity.askDepthUSDT : liquidity.bidDepthUSDT;
+  const imbalance = opposingDepth > 0 ? sameSideDepth / opposingDepth : (sameSideDepth > 0 ? Infinity : 0);
+  const blocked = (reason: string): OrderBookFilterDecision => ({ allowed: false, reason, imbalance });
+
+  if (settings.maxSpreadBps !== undefined && liquidity.spreadBps > settings.maxSpreadBps) {
+    return blocked(`Spread ${liquidity.spreadBps.toFixed(1)} bps is above the ${settings.maxSpreadBps} bps limit`);
+  }
+
+  if (settings.minDepthUSDT !== undefined) {
+    const thinnestDepth = Math.min(liquidity.bidDepthUSDT, liquidity.askDepthUSDT);
+    if (thinnestDepth < settings.minDepthUSDT) {
+      const thinSide = liquidity.bidDepthUSDT <= liquidity.askDepthUSDT ? 'Bid' : 'Ask';
+      return blocked(`${thinSide} depth $${thinnestDepth.toFixed(0)} within ${liquidity.rangeBps} bps is below the $${settings.minDepthUSDT} minimum`);
+    }
+  }
+
+  if (settings.minImbalance !== undefined && imbalance < settings.minImbalance) {
+    const ratio = side === 'BUY' ? 'bid/ask' : 'ask/bid';
+    return blocked(`Book ${ratio} ratio ${imbalance.toFixed(2)} is below the ${settings.minImbalance} required for a ${side === 'BUY' ? 'long' : 'short'}`);
+  }
+
+  return { allowed: true, imbalance };
+}
@@ -0,0 +1,144 @@
+import { OrderHeartbeatConfig } from '../types';
+import { logWithTimestamp, logErrorWithTimestamp } from '../utils/timestamp';
+
+export const DEFAULT_HEARTBEAT_INTERVAL_MS = 30000;
+export const DEFAULT_HEARTBEAT_COUNTDOWN_MS = 120000;
+
+// Sends a countdown for a symbol; countdownMs of 0 stops the exchange timer
+export type CountdownSender = (symbol: string, countdownMs: number) => Promise<void>;
+
+// Returns the symbols whose orders may be auto-cancelled if the bot stops
+export type HeartbeatSymbolProvider = () => string[];
+
+/**
+ * Order Heartbeat (dead-man's switch)
+ *
+ * Keeps the exchange's Auto-Cancel All Open Orders countdown running for symbols that
+ * have pending entry orders. If the bot process dies and the heartbeat stops, the exchange
+ * cancels those orders once the countdown expires.
+ *
+ * The countdown cancels every open order on the symbol, so the symbol provider must only
+ * return symbols without an open position - symbols that carry SL/TP orders are disarmed.
+ */
+export class OrderHeartbeat {
+  private settings: OrderHeartbeatConfig = { enabled: false };
+  private armedSymbols: Set<string> = new Set();
+  private interval: NodeJS.Timeout | null = null;
+  private syncing: Promise<void> | null = null;
+
+  constructor(
+    private getSymbols: HeartbeatSymbolProvider,
+    private sendCountdown: CountdownSender
+  ) {}
+
+  updateConfig(settings: OrderHeartbeatConfig | undefined): void {
+    const wasEnabled = this.settings.enabled;
+    const oldInterval = this.getIntervalMs();
+    this.settings = settings || { enabled: false };
+
+    if (!this.interval) return;
+
+    if (wasEnabled && !this.settings.enabled) {
+logWithTimestamp('OrderHeartbeat: Disabled - stopping countdowns');
+      this.stop().catch(error => logErrorWithTimestamp('OrderHeartbeat: Failed to stop:', error));
+    } else if (oldInterval !== this.getIntervalMs()) {
+      this.stopTimer();
+      this.start();
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  getArmedSymbols(): string[] {
+    return Array.from(this.armedSymbols);
+  }
+
+  start(): void {
+    if (!this.settings.enabled || this.interval) return;
+
+    this.interval = setInterval(() => {
+      this.refresh().catch(error => logErrorWithTimestamp('OrderHeartbeat: Heartbeat failed:', error));
+    }, this.getIntervalMs());
+
+logWithTimestamp(`OrderHeartbeat: Started (refresh every ${this.getIntervalMs() / 1000}s, countdown ${this.getCountdownMs() / 1000}s)`);
+  }
+
+  // Stop the heartbeat and clear the exchange timers so nothing is cancelled later
+  async stop(): Promise<void> {
+    this.stopTimer();
+    if (this.syncing) await this.syncing;
+
+    for (const symbol of Array.from(this.armedSymbols)) {
+      await this.disarm(symbol);
+    }
+  }
+
+  /**
+   * Re-arm the countdown for every symbol returned by the provider and disarm the rest.
+   * Called on each heartbeat and whenever the set of pending entry orders changes.
+   */
+  async refresh(): Promise<void> {
+    if (!this.settings.enabled || !this.interval) return;
+
+    // Serialize refreshes so an arm can never overtake a later disarm
+    while (this.syncing) await this.syncing;
+    this.syncing = this.sync();
+    try {
+      await this.syncing;
+    } finally {
+      this.syncing = null;
+    }
+  }
+
+  private async sync(): Promise<void> {
+    const wanted = new Set(this.getSymbols());
+
+    for (const symbol of Array.from(this.armedSymbols)) {
+      if (!wanted.has(symbol)) {
+        await this.disarm(symbol);
+      }
+    }
+
+    const countdownMs = this.getCountdownMs();
+    for (const symbol of wanted) {
+      try {
+        await this.sendCountdown(symbol, countdownMs);
+        if (!this.armedSymbols.has(symbol)) {
+logWithTimestamp(`OrderHeartbeat: Armed ${symbol} - open orders auto-cancel after ${countdownMs / 1000}s without heartbeat`);
+        }
+        this.armedSymbols.add(symbol);
+      } catch (error: any) {
+logErrorWithTimestamp(`OrderHeartbeat: Failed to arm ${symbol}:`, error?.response?.data || error?.message);
+      }
+    }
+  }
+
+  private async disarm(symbol: string): Promise<void> {
+    try {
+      await this.sendCountdown(symbol, 0);
+      this.armedSymbols.delete(symbol);
+logWithTimestamp(`OrderHeartbeat: Disarmed ${symbol}`);
+    } catch (error: any) {
+      // Keep it marked as armed so the next heartbeat retries the disarm
+logErrorWithTimestamp(`OrderHeartbeat: Failed to disarm ${symbol}:`, error?.response?.data || error?.message);
+    }
+  }
+
+  private stopTimer(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private getIntervalMs(): number {
+    return this.settings.intervalMs || DEFAULT_HEARTBEAT_INTERVAL_MS;
+  }
+
+  private getCountdownMs(): number {
+    // The countdown must comfortably outlast the refresh interval
+    return Math.max(this.settings.countdownMs || DEFAULT_HEARTBEAT_COUNTDOWN_MS, this.getIntervalMs() * 2);
+  }
+}
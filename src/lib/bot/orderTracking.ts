@@ -0,0 +1,161 @@
+import { TrailingStopState } from './trailingStop';
+import { TakeProfitLadderState } from './tpLadder';
+import { ProtectionDistances } from './volatilityStops';
+import {
+  orderTrackingDb,
+  OrderTrackingMode,
+  PositionOrderTrackingRow,
+  TrackedSignal
+} from '../db/orderTrackingDb';
+import { logWithTimestamp, logErrorWithTimestamp } from '../utils/timestamp';
+
+// Minimal local state - only track order IDs linked to positions
+export interface PositionOrders {
+  slOrderId?: number;
+  tpOrderId?: number;
+  trailingOrderId?: number;
+  slPrice?: number;  // For paper mode simulation
+  tpPrice?: number;  // For paper mode simulation
+  trailingStop?: TrailingStopState;  // For paper mode simulation
+  tpLadder?: TakeProfitLadderState;  // Partial TP levels (live order IDs or paper simulation)
+  signal?: TrackedSignal;  // Liquidation that opened the position
+  protection?: ProtectionDistances;  // ATR-scaled SL/TP distances (in memory only, re-resolved after a restart)
+  breakevenPrice?: number;  // SL moved to entry plus fees by the breakeven rule (in memory only)
+  timedOut?: boolean;  // Max hold time rule has been applied (in memory only)
+  timeoutTpPercent?: number;  // TP distance after a TIGHTEN_TP timeout (in memory only)
+}
+
+export function toTrackingRow(mode: OrderTrackingMode, key: string, orders: PositionOrders, updatedAt: number = Date.now()): PositionOrderTrackingRow {
+  return {
+    position_key: key,
+    mode,
+    symbol: key.split('_')[0],
+    sl_order_id: orders.slOrderId ?? null,
+    tp_order_id: orders.tpOrderId ?? null,
+    trailing_order_id: orders.trailingOrderId ?? null,
+    sl_price: orders.slPrice ?? null,
+    tp_price: orders.tpPrice ?? null,
+    trailing_stop: orders.trailingStop ? JSON.stringify(orders.trailingStop) : null,
+    tp_ladder: orders.tpLadder ? JSON.stringify(orders.tpLadder) : null,
+    signal: orders.signal ? JSON.stringify(orders.signal) : null,
+    updated_at: updatedAt,
+  };
+}
+
+export function fromTrackingRow(row: PositionOrderTrackingRow): PositionOrders {
+  const orders: PositionOrders = {};
+  if (row.sl_order_id !== null) orders.slOrderId = row.sl_order_id;
+  if (row.tp_order_id !== null) orders.tpOrderId = row.tp_order_id;
+  if (row.trailing_order_id !== null) orders.trailingOrderId = row.trailing_order_id;
+  if (row.sl_price !== null) orders.slPrice = row.sl_price;
+  if (row.tp_price !== null) orders.tpPrice = row.tp_price;
+  if (row.trailing_stop) orders.trailingStop = JSON.parse(row.trailing_stop);
+  if (row.tp_ladder) orders.tpLadder = JSON.parse(row.tp_ladder);
+  if (row.signal) orders.signal = JSON.parse(row.signal);
+  return orders;
+}
+
+/**
+ * Persistent Order Tracking
+ *
+ * PositionManager's position key -> order tracking map, written through to the
+ * position_order_tracking table so a restart recovers exactly which SL/TP/trailing
+ * orders (or paper SL/TP levels) belong to which position:
+ * - set/delete/clear are written immediately
+ * - In-place changes to a tracked entry are written by persistChanges(), which
+ *   only writes entries whose serialized state changed since the last write
+ *
+ * Writes start once restore() has loaded the persisted state for the mode.
+ */
+export class PersistentOrderTracking extends Map<string, PositionOrders> {
+  private mode: OrderTrackingMode = 'live';
+  private persisted: Map<string, string> = new Map(); // key -> last written state
+  private writes: Promise<void> = Promise.resolve();
+  private enabled = false;
+
+  // Load persisted tracking for the mode and start writing through
+  async restore(mode: OrderTrackingMode): Promise<number> {
+    this.mode = mode;
+    let restored = 0;
+
+    try {
+      const rows = await orderTrackingDb.getTracking(mode);
+      for (const row of rows) {
+        const orders = fromTrackingRow(row);
+        super.set(row.position_key, orders);
+        this.persisted.set(row.position_key, this.serialize(orders));
+        restored++;
+logWithTimestamp(`OrderTracking: Restored ${row.position_key} from database (SL: ${row.sl_order_id ?? row.sl_price ?? 'none'}, TP: ${row.tp_order_id ?? row.tp_price ?? (row.tp_ladder ? 'ladder' : 'none')}, trailing: ${row.trailing_order_id ?? (row.trailing_stop ? 'simulated' : 'none')}, updated ${new Date(row.updated_at).toISOString()})`);
+      }
+    } catch (error) {
+logErrorWithTimestamp('OrderTracking: Failed to restore order tracking:', error);
+    }
+
+    this.enabled = true;
+    return restored;
+  }
+
+  set(key: string, orders: PositionOrders): this {
+    super.set(key, orders);
+    if (this.enabled) {
+      this.write(key, orders);
+    }
+    return this;
+  }
+
+  delete(key: string): boolean {
+    const existed = super.delete(key);
+    if (this.enabled && this.persisted.has(key)) {
+      this.remove(key);
+    }
+    return existed;
+  }
+
+  clear(): void {
+    const keys = Array.from(this.keys());
+    super.clear();
+    if (this.enabled) {
+      keys.filter(key => this.persisted.has(key)).forEach(key => this.remove(key));
+    }
+  }
+
+  // Write entries that were changed in place since their last write
+  persistChanges(): void {
+    if (!this.enabled) return;
+
+    for (const [key, orders] of this.entries()) {
+      if (this.persisted.get(key) !== this.serialize(orders)) {
+        this.write(key, orders);
+      }
+    }
+  }
+
+  // Resolves once all queued writes are done
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  private write(key: string, orders: PositionOrders): void {
+    const serialized = this.serialize(orders);
+    this.persisted.set(key, serialized);
+    const row = toTrackingRow(this.mode, key, orders);
+    this.enqueue(() => orderTrackingDb.saveTracking(row));
+  }
+
+  private remove(key: string): void {
+    this.persisted.delete(key);
+    const mode = this.mode;
+    this.enqueue(() => orderTrackingDb.deleteTracking(mode, key));
+  }
+
+  private serialize(orders: PositionOrders): string {
+    return JSON.stringify(toTrackingRow(this.mode, '', orders, 0));
+  }
+
+  // Writes are chained so a delete never overtakes the save before it
+  private enqueue(task: () => Promise<void>): void {
+    this.writes = this.writes.then(task).catch(error => {
+logErrorWithTimestamp('OrderTracking: Database write failed:', error);
+    });
+  }
+}
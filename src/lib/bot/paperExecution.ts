@@ -0,0 +1,350 @@
+import { ApiCredentials, Config, PaperExecutionConfig } from '../types';
+import { getCommissionRate } from '../api/market';
+import { symbolPrecision } from '../utils/symbolPrecision';
+import { logWithTimestamp, logWarnWithTimestamp } from '../utils/timestamp';
+
+export type PaperLiquidity = 'MAKER' | 'TAKER';
+export type PaperExitType = 'STOP' | 'TAKE_PROFIT' | 'MARKET';
+
+export interface PaperExecutionSettings {
+  makerFeeRate: number;             // Fraction of notional, e.g. 0.0002
+  takerFeeRate: number;
+  useExchangeFees: boolean;
+  marketSlippagePercent: number;
+  stopSlippagePercent: number;
+  takeProfitSlippagePercent: number;
+  limitThroughPercent: number;      // How far the price must trade through a limit to clear the queue ahead of it
+  limitTouchFillPercent: number;    // Share of the remaining quantity filled per check while the price sits at the limit
+  limitTimeoutMs: number;
+}
+
+export interface PaperEntryRequest {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  orderType: 'MARKET' | 'LIMIT';
+  quantity: number;
+  price: number;                    // Limit price, or the reference price of a market order
+}
+
+export interface PaperEntryOrder extends PaperEntryRequest {
+  id: string;
+  filledQuantity: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface PaperFill {
+  orderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  orderType: 'MARKET' | 'LIMIT';
+  price: number;
+  quantity: number;
+  fee: number;                      // USDT
+  liquidity: PaperLiquidity;
+  slippage: number;                 // USDT lost to slippage against the reference price
+  first: boolean;                   // First fill of the order - opens the position
+  complete: boolean;                // No quantity left on the order
+  time: number;
+}
+
+export interface PaperExitFill {
+  price: number;
+  fee: number;
+  slippage: number;
+}
+
+// Fills and costs of a paper trade, kept in paper_trades.metadata under "execution"
+export interface PaperExecutionRecord {
+  entryOrderType?: 'MARKET' | 'LIMIT';
+  fills: Array<{
+    type: 'ENTRY' | 'EXIT';
+    reason?: string;
+    price: number;
+    quantity: number;
+    fee: number;
+    liquidity: PaperLiquidity;
+    slippage: number;
+    time: number;
+  }>;
+  fees: number;
+  slippage: number;
+}
+
+// Defaults follow the cost model of the config optimizer
+const DEFAULT_MAKER_FEE_PERCENT = 0.02;
+const DEFAULT_TAKER_FEE_PERCENT = 0.04;
+const DEFAULT_MARKET_SLIPPAGE_PERCENT = 0.2;
+const DEFAULT_STOP_SLIPPAGE_PERCENT = 0.5;
+const DEFAULT_TAKE_PROFIT_SLIPPAGE_PERCENT = 0.1;
+const DEFAULT_LIMIT_THROUGH_PERCENT = 0.05;
+const DEFAULT_LIMIT_TOUCH_FILL_PERCENT = 50;
+const DEFAULT_LIMIT_TIMEOUT_SECONDS = 60;
+const FEE_RATE_CACHE_MS = 60 * 60 * 1000;
+
+export function getPaperExecutionSettings(config: PaperExecutionConfig | undefined): PaperExecutionSettings {
+  return {
+    makerFeeRate: Math.max(0, config?.makerFeePercent ?? DEFAULT_MAKER_FEE_PERCENT) / 100,
+    takerFeeRate: Math.max(0, config?.takerFeePercent ?? DEFAULT_TAKER_FEE_PERCENT) / 100,
+    useExchangeFees: config?.useExchangeFees ?? false,
+    marketSlippagePercent: Math.max(0, config?.marketSlippagePercent ?? DEFAULT_MARKET_SLIPPAGE_PERCENT),
+    stopSlippagePercent: Math.max(0, config?.stopSlippagePercent ?? DEFAULT_STOP_SLIPPAGE_PERCENT),
+    takeProfitSlippagePercent: Math.max(0, config?.takeProfitSlippagePercent ?? DEFAULT_TAKE_PROFIT_SLIPPAGE_PERCENT),
+    limitThroughPercent: Math.max(0, config?.limitThroughPercent ?? DEFAULT_LIMIT_THROUGH_PERCENT),
+    limitTouchFillPercent: Math.min(100, Math.max(1, config?.limitTouchFillPercent ?? DEFAULT_LIMIT_TOUCH_FILL_PERCENT)),
+    limitTimeoutMs: Math.max(0, config?.limitTimeoutSeconds ?? DEFAULT_LIMIT_TIMEOUT_SECONDS) * 1000,
+  };
+}
+
+// Move a price against the taker: buys fill higher, sells lower
+export function applySlippage(price: number, side: 'BUY' | 'SELL', slippagePercent: number): number {
+  return side === 'BUY'
+    ? price * (1 + slippagePercent / 100)
+    : price * (1 - slippagePercent / 100);
+}
+
+/**
+ * Share of a resting limit order's remaining quantity that fills at the given
+ * price: none until the price reaches the limit, limitTouchFillPercent per check
+ * while it sits at the limit (the queue ahead is still being worked), and all of
+ * it once the price trades limitThroughPercent beyond the limit.
+ */
+export function getLimitFillFraction(settings: PaperExecutionSettings, side: 'BUY' | 'SELL', limitPrice: number, markPrice: number): number {
+  const through = side === 'BUY'
+    ? markPrice <= limitPrice * (1 - settings.limitThroughPercent / 100)
+    : markPrice >= limitPrice * (1 + settings.limitThroughPercent / 100);
+  if (through) {
+    return 1;
+  }
+
+  const touched = side === 'BUY' ? markPrice <= limitPrice : markPrice >= limitPrice;
+  return touched ? settings.limitTouchFillPercent / 100 : 0;
+}
+
+/**
+ * Fill price of a protective exit. Stops fill at the worse of the trigger and
+ * the mark price (gaps count against the position) plus stop slippage; take
+ * profits at the trigger less their own slippage; market closes at the mark.
+ */
+export function getExitFillPrice(
+  settings: PaperExecutionSettings,
+  exit: { type: PaperExitType; isLong: boolean; triggerPrice: number; markPrice: number }
+): number {
+  const side = exit.isLong ? 'SELL' : 'BUY';
+
+  if (exit.type === 'STOP') {
+    const base = exit.isLong ? Math.min(exit.triggerPrice, exit.markPrice) : Math.max(exit.triggerPrice, exit.markPrice);
+    return applySlippage(base, side, settings.stopSlippagePercent);
+  }
+  if (exit.type === 'TAKE_PROFIT') {
+    return applySlippage(exit.triggerPrice, side, settings.takeProfitSlippagePercent);
+  }
+  return applySlippage(exit.markPrice, side, settings.marketSlippagePercent);
+}
+
+export function parsePaperExecution(metadata: string | undefined | null): PaperExecutionRecord {
+  try {
+    const execution = metadata ? JSON.parse(metadata).execution : undefined;
+    if (execution && Array.isArray(execution.fills)) {
+      return execution;
+    }
+  } catch {
+    // Unparseable metadata starts a fresh record
+  }
+  return { fills: [], fees: 0, slippage: 0 };
+}
+
+export function addPaperFill(record: PaperExecutionRecord, fill: PaperExecutionRecord['fills'][number]): PaperExecutionRecord {
+  record.fills.push(fill);
+  record.fees += fill.fee;
+  record.slippage += fill.slippage;
+  return record;
+}
+
+// Store the record in the metadata JSON, keeping any other keys
+export function serializePaperExecution(metadata: string | undefined | null, record: PaperExecutionRecord): string {
+  let parsed: Record<string, any> = {};
+  try {
+    parsed = metadata ? JSON.parse(metadata) : {};
+  } catch {
+    parsed = {};
+  }
+  return JSON.stringify({ ...parsed, execution: record });
+}
+
+/**
+ * Paper Execution Engine
+ *
+ * Fills paper orders the way the exchange would instead of at the signal price:
+ * - MARKET entries fill at the mark price plus slippage (taker fee)
+ * - LIMIT entries rest until later mark prices reach them and can fill in
+ *   several parts; whatever is left after limitTimeoutSeconds is cancelled
+ * - Exits slip past their trigger (stops more than take profits)
+ *
+ * Fees use the configured rates, or the account's rates from the Commission
+ * Rate endpoint when useExchangeFees is set and API keys are available.
+ */
+export class PaperExecutionEngine {
+  private settings: PaperExecutionSettings = getPaperExecutionSettings(undefined);
+  private credentials: ApiCredentials | null = null;
+  private orders: Map<string, { order: PaperEntryOrder; onFill: (fill: PaperFill) => void }> = new Map();
+  private feeRates: Map<string, { maker: number; taker: number; fetchedAt: number }> = new Map();
+  private nextOrderId = 1;
+
+  // verbose = false keeps backtests from logging every queued and expired order
+  constructor(private verbose: boolean = true) {}
+
+  updateConfig(config: Config): void {
+    const useExchangeFees = this.settings.useExchangeFees;
+    this.settings = getPaperExecutionSettings(config.global.paperExecution);
+    this.credentials = config.api?.apiKey && config.api?.secretKey ? config.api : null;
+    if (useExchangeFees !== this.settings.useExchangeFees) {
+      this.feeRates.clear();
+    }
+  }
+
+  getSettings(): PaperExecutionSettings {
+    return this.settings;
+  }
+
+  hasPendingEntry(symbol: string): boolean {
+    for (const { order } of this.orders.values()) {
+      if (order.symbol === symbol) return true;
+    }
+    return false;
+  }
+
+  getPendingEntries(): PaperEntryOrder[] {
+    return Array.from(this.orders.values()).map(({ order }) => ({ ...order }));
+  }
+
+  /**
+   * Submit a paper entry. Market orders (and limits already marketable at
+   * markPrice) fill right away as takers; other limits are queued for
+   * processPendingOrders. onFill runs once per fill.
+   */
+  async submitEntry(request: PaperEntryRequest, markPrice: number, onFill: (fill: PaperFill) => void, now: number = Date.now()): Promise<PaperEntryOrder> {
+    await this.loadFeeRates(request.symbol);
+
+    const order: PaperEntryOrder = {
+      ...request,
+      id: `paper_${now}_${this.nextOrderId++}`,
+      filledQuantity: 0,
+      createdAt: now,
+      expiresAt: now + this.settings.limitTimeoutMs,
+    };
+    const referencePrice = markPrice > 0 ? markPrice : request.price;
+
+    const marketable = request.orderType === 'LIMIT' &&
+      (request.side === 'BUY' ? referencePrice <= request.price : referencePrice >= request.price);
+
+    if (request.orderType === 'MARKET' || marketable) {
+      const price = applySlippage(referencePrice, request.side, this.settings.marketSlippagePercent);
+      onFill(this.fill(order, price, order.quantity, 'TAKER', referencePrice, now));
+      return order;
+    }
+
+    this.orders.set(order.id, { order, onFill });
+    if (this.verbose) {
+logWithTimestamp(`PaperExecution: Queued ${request.side} LIMIT ${request.quantity} ${request.symbol} @ ${request.price} (mark ${referencePrice}, expires in ${this.settings.limitTimeoutMs / 1000}s)`);
+    }
+    return order;
+  }
+
+  // Fill queued limit orders against the latest mark prices and expire the stale ones
+  processPendingOrders(getMarkPrice: (symbol: string) => number | null, now: number = Date.now()): void {
+    for (const [id, { order, onFill }] of Array.from(this.orders.entries())) {
+      const markPrice = getMarkPrice(order.symbol);
+      const fraction = markPrice && markPrice > 0 ? getLimitFillFraction(this.settings, order.side, order.price, markPrice) : 0;
+
+      if (fraction > 0) {
+        const remaining = order.quantity - order.filledQuantity;
+        let quantity = fraction >= 1 ? remaining : symbolPrecision.formatQuantity(order.symbol, remaining * fraction);
+        // Never leave a remainder too small to fill on its own
+        if (!(quantity > 0) || !(symbolPrecision.formatQuantity(order.symbol, remaining - quantity) > 0)) {
+          quantity = remaining;
+        }
+
+        const fill = this.fill(order, order.price, quantity, 'MAKER', order.price, now);
+        if (fill.complete) {
+          this.orders.delete(id);
+        }
+        onFill(fill);
+        if (fill.complete) continue;
+      }
+
+      if (now >= order.expiresAt) {
+        this.orders.delete(id);
+        if (this.verbose) {
+          const filled = order.filledQuantity > 0 ? `${order.filledQuantity}/${order.quantity} filled` : 'unfilled';
+logWithTimestamp(`PaperExecution: ${order.side} LIMIT ${order.symbol} @ ${order.price} expired ${filled}`);
+        }
+      }
+    }
+  }
+
+  cancelAll(): void {
+    this.orders.clear();
+  }
+
+  // Price and fee of a paper exit; takes the cached fee rates so it never waits on the network
+  simulateExit(symbol: string, exit: { type: PaperExitType; isLong: boolean; quantity: number; triggerPrice: number; markPrice: number }): PaperExitFill {
+    const price = getExitFillPrice(this.settings, exit);
+    const reference = exit.type === 'MARKET' ? exit.markPrice : exit.triggerPrice;
+    return {
+      price,
+      fee: price * exit.quantity * this.getFeeRates(symbol).taker,
+      slippage: Math.abs(price - reference) * exit.quantity,
+    };
+  }
+
+  getFeeRates(symbol: string): { maker: number; taker: number } {
+    const cached = this.settings.useExchangeFees ? this.feeRates.get(symbol) : undefined;
+    return cached || { maker: this.settings.makerFeeRate, taker: this.settings.takerFeeRate };
+  }
+
+  private fill(order: PaperEntryOrder, price: number, quantity: number, liquidity: PaperLiquidity, referencePrice: number, now: number): PaperFill {
+    const first = order.filledQuantity === 0;
+    order.filledQuantity = quantity >= order.quantity - order.filledQuantity
+      ? order.quantity
+      : order.filledQuantity + quantity;
+    const rates = this.getFeeRates(order.symbol);
+
+    return {
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      orderType: order.orderType,
+      price,
+      quantity,
+      fee: price * quantity * (liquidity === 'MAKER' ? rates.maker : rates.taker),
+      liquidity,
+      slippage: Math.abs(price - referencePrice) * quantity,
+      first,
+      complete: order.filledQuantity >= order.quantity,
+      time: now,
+    };
+  }
+
+  // Account commission rates for a symbol, cached for an hour
+  private async loadFeeRates(symbol: string): Promise<void> {
+    if (!this.settings.useExchangeFees || !this.credentials) return;
+
+    const cached = this.feeRates.get(symbol);
+    if (cached && Date.now() - cached.fetchedAt < FEE_RATE_CACHE_MS) return;
+
+    try {
+      const rates = await getCommissionRate(symbol, this.credentials);
+      this.feeRates.set(symbol, {
+        maker: parseFloat(rates.makerCommissionRate),
+        taker: parseFloat(rates.takerCommissionRate),
+        fetchedAt: Date.now(),
+      });
+    } catch (error: any) {
+logWarnWithTimestamp(`PaperExecution: Failed to fetch commission rate for ${symbol}, using configured fees:`, error?.response?.data || error?.message);
+    }
+  }
+}
+
+// Export singleton instance
+export const paperExecutionEngine = new PaperExecutionEngine();
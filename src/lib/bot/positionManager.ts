@@ -1,10 +1,11 @@
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
 import axios, { AxiosResponse } from 'axios';
-import { Config } from '../types';
+import { Config, SymbolConfig, TakeProfitLevel, LiquidationEvent } from '../types';
 import { buildSignedQuery } from '../api/auth';
+import { getRestBaseUrl, getUserStreamUrl } from '../api/endpoints';
 import { getExchangeInfo, getMarkPrice } from '../api/market';
-import { placeOrder, cancelOrder } from '../api/orders';
+import { placeOrder, cancelOrder, queryOrder, modifyIsolatedMargin } from '../api/orders';
 import { placeStopLossAndTakeProfit } from '../api/batchOrders';
 import { symbolPrecision } from '../utils/symbolPrecision';
 import { getBalanceService } from '../services/balanceService';
@@ -13,15 +14,52 @@ import { getPriceService } from '../services/priceService';
 import { getPaperBalanceService } from '../services/paperBalanceService';
 import { invalidateIncomeCache } from '../api/income';
 import { logWithTimestamp, logErrorWithTimestamp, logWarnWithTimestamp } from '../utils/timestamp';
-import { paperTradeDb } from '../db/paperTradeDb';
-
-// Minimal local state - only track order IDs linked to positions
-interface PositionOrders {
-  slOrderId?: number;
-  tpOrderId?: number;
-  slPrice?: number;  // For paper mode simulation
-  tpPrice?: number;  // For paper mode simulation
-}
+import { paperTradeDb, DEFAULT_PAPER_ACCOUNT, SHADOW_PAPER_ACCOUNT } from '../db/paperTradeDb';
+import { tradeJournal } from '../services/tradeJournal';
+import {
+  TrailingStopSettings,
+  getTrailingStopSettings,
+  usesFixedTakeProfit,
+  calculateActivationPrice,
+  createTrailingStopState,
+  updateTrailingStop
+} from './trailingStop';
+import {
+  TakeProfitLadderState,
+  getTakeProfitLadder,
+  createTakeProfitLadder,
+  repriceTakeProfitLadder,
+  getRemainingLevels,
+  markLevelFilled,
+  allocateLadderQuantities
+} from './tpLadder';
+import { calculateAverageEntry } from './scaleIn';
+import {
+  ProtectionDistances,
+  getVolatilityStopSettings,
+  getFixedProtectionDistances,
+  getProtectionDistances
+} from './volatilityStops';
+import { ExitRuleDecision, getExitRuleSettings, evaluateExitRules } from './exitRules';
+import {
+  LiquidationRiskState,
+  LiquidationRiskDecision,
+  LiquidationRiskEvent,
+  getLiquidationGuardSettings,
+  evaluateLiquidationRisk
+} from './liquidationGuard';
+import {
+  PaperExecutionEngine,
+  PaperExitType,
+  PaperFill,
+  PaperExecutionRecord,
+  paperExecutionEngine,
+  parsePaperExecution,
+  serializePaperExecution,
+  addPaperFill
+} from './paperExecution';
+import { PositionOrders, PersistentOrderTracking } from './orderTracking';
+import { TrackedSignal, toTrackedSignal } from '../db/orderTrackingDb';
 
 // Exchange position from API
 interface ExchangePosition {
@@ -59,26 +97,36 @@ interface ExchangeOrder {
   reduceOnly: boolean;
 }
 
-const BASE_URL = 'https://fapi.asterdex.com';
-
 // Position tracking interface for Hunter
 export interface PositionTracker {
   getMarginUsage(symbol: string): number;
   getTotalPositionCount(): number;
   getUniquePositionCount(isHedgeMode: boolean): number;
   getPositionsMap(): Map<string, ExchangePosition>;
+  canOpenPosition(symbol: string, side: 'LONG' | 'SHORT'): { allowed: boolean; reason?: string };
+  getScaleInState(symbol: string, side: 'LONG' | 'SHORT'): ScaleInState | null;
+  recordScaleIn(symbol: string, side: 'LONG' | 'SHORT'): number;
+}
+
+// Open position a new entry in the same direction would add to
+export interface ScaleInState {
+  entryPrice: number;
+  quantity: number;
+  adds: number;
 }
 
 export class PositionManager extends EventEmitter implements PositionTracker {
   private ws: WebSocket | null = null;
   private listenKey: string | null = null;
   private config: Config;
-  private positionOrders: Map<string, PositionOrders> = new Map(); // symbol_side -> order IDs
+  private positionOrders = new PersistentOrderTracking(); // symbol_side -> order IDs, written through to SQLite
   private currentPositions: Map<string, ExchangePosition> = new Map(); // Live position data from WebSocket
   private previousPositionSizes: Map<string, number> = new Map(); // Track position size changes
   private keepaliveInterval?: NodeJS.Timeout;
   private riskCheckInterval?: NodeJS.Timeout;
   private orderCheckInterval?: NodeJS.Timeout;
+  private exitRuleInterval?: NodeJS.Timeout;
+  private liquidationGuardInterval?: NodeJS.Timeout;
   private isRunning = false;
   private statusBroadcaster: any; // Will be injected
   private isHedgeMode: boolean;
@@ -86,11 +134,28 @@ export class PositionManager extends EventEmitter implements PositionTracker {
   private orderCancellationLocks: Set<string> = new Set(); // Prevent concurrent order cancellation for same symbol
   private symbolLeverage: Map<string, number> = new Map(); // Track leverage per symbol from ACCOUNT_CONFIG_UPDATE
   private paperTradeIds: Map<string, number> = new Map(); // symbol_side -> paper trade DB ID
-
-  constructor(config: Config, isHedgeMode: boolean = false) {
+  private paperExecutions: Map<string, PaperExecutionRecord> = new Map(); // symbol_side -> simulated fills, fees and slippage
+  private paperExecution = paperExecutionEngine;
+  private shadow: boolean; // Shadow mode: paper positions of an alternate config, kept apart from the main paper account
+  private paperAccount: string; // paper_trades account this manager records to
+  private paperUpdateInterval?: NodeJS.Timeout;
+  private scaleInCounts: Map<string, number> = new Map(); // symbol_LONG|SHORT -> adds filled on the open paper position
+  private entrySignals: Map<string, TrackedSignal> = new Map(); // symbol_LONG|SHORT -> liquidation behind the latest entry
+  private trackingPersistInterval?: NodeJS.Timeout;
+  private liquidationRisk: Map<string, LiquidationRiskState> = new Map(); // symbol_side -> last liquidation alert/action and margin added
+  private liquidationPricesRefreshedAt = 0;
+
+  constructor(config: Config, isHedgeMode: boolean = false, shadow: boolean = false) {
     super();
     this.config = config;
     this.isHedgeMode = isHedgeMode;
+    this.shadow = shadow;
+    this.paperAccount = shadow ? SHADOW_PAPER_ACCOUNT : (config.global?.paperAccount || DEFAULT_PAPER_ACCOUNT);
+  }
+
+  // Use a separate paper execution engine, shared with the hunter that submits the entries
+  public setPaperExecutionEngine(engine: PaperExecutionEngine): void {
+    this.paperExecution = engine;
   }
 
   // Set status broadcaster for position updates
@@ -112,6 +177,13 @@ logWithTimestamp(`PositionManager: Risk percent changed from ${oldConfig.global.
 logWithTimestamp(`PositionManager: Max open positions changed from ${oldConfig.global.maxOpenPositions} to ${newConfig.global.maxOpenPositions}`);
     }
 
+    // Accounts are switched while flat, so only new paper trades go to the new account
+    const paperAccount = newConfig.global.paperAccount || DEFAULT_PAPER_ACCOUNT;
+    if (!this.shadow && paperAccount !== this.paperAccount) {
+logWithTimestamp(`PositionManager: Paper account changed from ${this.paperAccount} to ${paperAccount}`);
+      this.paperAccount = paperAccount;
+    }
+
     // Check for symbol parameter changes that affect existing positions
     for (const [_posKey, position] of this.currentPositions) {
       const symbol = position.symbol;
@@ -162,6 +234,12 @@ logWithTimestamp('PositionManager: Restarting connection due to mode change...')
     if (this.orderCheckInterval) {
       clearInterval(this.orderCheckInterval);
     }
+    if (this.exitRuleInterval) {
+      clearInterval(this.exitRuleInterval);
+    }
+    if (this.liquidationGuardInterval) {
+      clearInterval(this.liquidationGuardInterval);
+    }
 
     // Wait a bit before reconnecting
     await new Promise(resolve => setTimeout(resolve, 1000));
@@ -191,14 +269,36 @@ logErrorWithTimestamp('PositionManager: Failed to fetch exchange info:', error.m
       // Continue anyway - will use raw values
     }
 
+    // Restore SL/TP order tracking (or paper SL/TP levels) persisted before the last shutdown
+    const restoredTracking = await this.positionOrders.restore(this.shadow ? 'shadow' : this.config.global.paperMode ? 'paper' : 'live');
+    if (restoredTracking > 0) {
+logWithTimestamp(`PositionManager: Restored order tracking for ${restoredTracking} position(s) from database`);
+    }
+    // Catch in-place changes to tracked orders that happen outside the event handlers
+    this.trackingPersistInterval = setInterval(() => this.positionOrders.persistChanges(), 1000);
+
     // Restore open paper trades from database if in paper mode
     logWithTimestamp(`PositionManager: Checking paper mode... paperMode=${this.config.global.paperMode}`);
     if (this.config.global.paperMode) {
       await this.restorePaperTrades();
+
+      // Drop persisted tracking of paper positions that were not restored
+      for (const key of Array.from(this.positionOrders.keys())) {
+        if (!this.currentPositions.has(key)) {
+          this.positionOrders.delete(key);
+        }
+      }
     } else {
       logWithTimestamp('PositionManager: Not in paper mode, skipping paper trade restoration');
     }
 
+    // Shadow mode only simulates - no exchange sync or user data stream of its own
+    if (this.shadow) {
+logWithTimestamp('PositionManager: Shadow mode - simulating positions on live mark prices');
+      this.paperUpdateInterval = setInterval(() => this.updatePaperModePositions(), 5 * 1000);
+      return;
+    }
+
     // Skip user data stream in paper mode with no API keys
     if (this.config.global.paperMode && (!this.config.api.apiKey || !this.config.api.secretKey)) {
 logWithTimestamp('PositionManager: Running in paper mode without API keys - simulating streams');
@@ -224,6 +324,8 @@ logErrorWithTimestamp('PositionManager: Failed to start user data stream:', erro
     }
 
     try {
+      // Journal live trades from the user data stream
+      await tradeJournal.start();
       // First, sync with exchange to get current positions and orders (live mode only)
       await this.syncWithExchange();
       // Then start the user data stream for real-time updates
@@ -241,6 +343,14 @@ logWithTimestamp('PositionManager: Stopping...');
     if (this.keepaliveInterval) clearInterval(this.keepaliveInterval);
     if (this.riskCheckInterval) clearInterval(this.riskCheckInterval);
     if (this.orderCheckInterval) clearInterval(this.orderCheckInterval);
+    if (this.exitRuleInterval) clearInterval(this.exitRuleInterval);
+    if (this.liquidationGuardInterval) clearInterval(this.liquidationGuardInterval);
+    if (this.trackingPersistInterval) clearInterval(this.trackingPersistInterval);
+    if (this.paperUpdateInterval) clearInterval(this.paperUpdateInterval);
+    this.positionOrders.persistChanges();
+    if (!this.shadow) {
+      tradeJournal.stop();
+    }
     if (this.ws) this.ws.close();
     if (this.listenKey) await this.closeUserDataStream();
   }
@@ -251,12 +361,12 @@ logWithTimestamp('PositionManager: Stopping...');
       'X-MBX-APIKEY': this.config.api.apiKey  // Binance-style header
     };
 
-    const response: AxiosResponse = await axios.post(`${BASE_URL}/fapi/v1/listenKey`, null, { headers });
+    const response: AxiosResponse = await axios.post(`${getRestBaseUrl()}/fapi/v1/listenKey`, null, { headers });
     this.listenKey = response.data.listenKey;
 logWithTimestamp('PositionManager: Got listenKey:', this.listenKey);
 
     // Start WS
-    this.ws = new WebSocket(`wss://fstream.asterdex.com/ws/${this.listenKey}`);
+    this.ws = new WebSocket(getUserStreamUrl(this.listenKey!));
 
     this.ws.on('open', () => {
 logWithTimestamp('PositionManager WS connected');
@@ -269,6 +379,11 @@ logWithTimestamp('PositionManager WS connected');
       // Paper mode: Update positions with mark prices every 5 seconds
       if (this.config.global.paperMode) {
         setInterval(() => this.updatePaperModePositions(), 5 * 1000);
+      } else {
+        // Breakeven and max hold time rules (paper mode applies them in updatePaperModePositions)
+        this.exitRuleInterval = setInterval(() => this.checkExitRules(), 5 * 1000);
+        // Distance to liquidation (paper positions have no liquidation price)
+        this.liquidationGuardInterval = setInterval(() => this.checkLiquidationRisk(), 5 * 1000);
       }
 
       // Clean up orphaned orders immediately on startup, then every 30 seconds
@@ -291,7 +406,7 @@ logErrorWithTimestamp('PositionManager: WS message parse error:', error);
 logErrorWithTimestamp('PositionManager WS error:', error);
       // Log to error database
       errorLogger.logWebSocketError(
-        `wss://fstream.asterdex.com/ws/${this.listenKey}`,
+        getUserStreamUrl(this.listenKey!),
         error instanceof Error ? error : new Error(String(error)),
         1
       );
@@ -336,7 +451,7 @@ logWithTimestamp('PositionManager WS closed - reconnecting...');
       const headers = {
         'X-MBX-APIKEY': this.config.api.apiKey
       };
-      await axios.put(`${BASE_URL}/fapi/v1/listenKey`, null, { headers });
+      await axios.put(`${getRestBaseUrl()}/fapi/v1/listenKey`, null, { headers });
 logWithTimestamp('PositionManager: Keepalive sent');
     } catch (error) {
 logErrorWithTimestamp('PositionManager: Keepalive error:', error);
@@ -357,7 +472,7 @@ logErrorWithTimestamp('PositionManager: Keepalive error:', error);
       const headers = {
         'X-MBX-APIKEY': this.config.api.apiKey
       };
-      await axios.delete(`${BASE_URL}/fapi/v1/listenKey`, { headers });
+      await axios.delete(`${getRestBaseUrl()}/fapi/v1/listenKey`, { headers });
 logWithTimestamp('PositionManager: User data stream closed');
     } catch (error) {
 logErrorWithTimestamp('PositionManager: Close stream error:', error);
@@ -424,6 +539,7 @@ logWithTimestamp(`PositionManager: Found position ${key}: ${posAmt} @ ${position
           const previousTrackedOrders = previousOrders.get(key);
           let slOrder: ExchangeOrder | undefined;
           let tpOrder: ExchangeOrder | undefined;
+          let trailingOrder: ExchangeOrder | undefined;
 
           // Get orders for this symbol
           const symbolOrders = ordersBySymbol.get(position.symbol) || [];
@@ -450,12 +566,39 @@ logWithTimestamp(`PositionManager: Preserving tracked TP order ${tpOrder.orderId
                 assignedOrderIds.add(tpOrder.orderId);
               }
             }
+            if (previousTrackedOrders.trailingOrderId && !assignedOrderIds.has(previousTrackedOrders.trailingOrderId)) {
+              trailingOrder = symbolOrders.find(o =>
+                o.orderId === previousTrackedOrders.trailingOrderId &&
+                o.type === 'TRAILING_STOP_MARKET'
+              );
+              if (trailingOrder) {
+logWithTimestamp(`PositionManager: Preserving tracked trailing stop order ${trailingOrder.orderId} for ${key}`);
+                assignedOrderIds.add(trailingOrder.orderId);
+              }
+            }
           }
 
           // Find SL/TP orders for this position based on quantity matching
           const positionQty = Math.abs(posAmt);
           const isLong = posAmt > 0;
 
+          // With a TP ladder every reduce-only TP order on the closing side belongs to the position
+          const ladderLevels = getTakeProfitLadder(symbolConfig);
+          let ladderOrders: ExchangeOrder[] = [];
+          if (ladderLevels) {
+            tpOrder = undefined;
+            ladderOrders = symbolOrders.filter(o =>
+              !assignedOrderIds.has(o.orderId) &&
+              (o.type === 'TAKE_PROFIT_MARKET' || o.type === 'TAKE_PROFIT') &&
+              o.reduceOnly &&
+              ((isLong && o.side === 'SELL') || (!isLong && o.side === 'BUY'))
+            );
+            ladderOrders.forEach(o => assignedOrderIds.add(o.orderId));
+            if (ladderOrders.length > 0) {
+logWithTimestamp(`PositionManager: Matched ${ladderOrders.length} TP ladder order(s) to position ${key}`);
+            }
+          }
+
           // If we didn't find previously tracked orders, look for matching orders by quantity
           if (!slOrder) {
             slOrder = symbolOrders.find(o =>
@@ -472,7 +615,7 @@ logWithTimestamp(`PositionManager: Matched SL order ${slOrder.orderId} to positi
             }
           }
 
-          if (!tpOrder) {
+          if (!tpOrder && !ladderLevels) {
             tpOrder = symbolOrders.find(o =>
               !assignedOrderIds.has(o.orderId) &&
               (o.type === 'TAKE_PROFIT_MARKET' || o.type === 'TAKE_PROFIT' || (o.type === 'LIMIT' && o.reduceOnly)) &&
@@ -487,9 +630,33 @@ logWithTimestamp(`PositionManager: Matched TP order ${tpOrder.orderId} to positi
             }
           }
 
+          if (!trailingOrder) {
+            trailingOrder = symbolOrders.find(o =>
+              !assignedOrderIds.has(o.orderId) &&
+              o.type === 'TRAILING_STOP_MARKET' &&
+              o.reduceOnly &&
+              ((isLong && o.side === 'SELL') || (!isLong && o.side === 'BUY')) &&
+              Math.abs(parseFloat(o.origQty) - positionQty) < 0.00000001  // Quantity matches
+            );
+
+            if (trailingOrder) {
+              assignedOrderIds.add(trailingOrder.orderId);
+logWithTimestamp(`PositionManager: Matched trailing stop order ${trailingOrder.orderId} to position ${key} by quantity`);
+            }
+          }
+
           const orders: PositionOrders = {};
           let needsAdjustment = false;
 
+          if (previousTrackedOrders?.signal) {
+            orders.signal = previousTrackedOrders.signal;
+          }
+
+          // Keep ladder progress (filled levels, breakeven) across re-syncs
+          if (ladderLevels && previousTrackedOrders?.tpLadder) {
+            orders.tpLadder = previousTrackedOrders.tpLadder;
+          }
+
           if (slOrder) {
             orders.slOrderId = slOrder.orderId;
             const slOrderQty = parseFloat(slOrder.origQty);
@@ -516,15 +683,36 @@ logWithTimestamp(`PositionManager: Found TP order ${tpOrder.orderId} for ${key}
             }
           }
 
-          if (orders.slOrderId || orders.tpOrderId) {
+          if (trailingOrder) {
+            orders.trailingOrderId = trailingOrder.orderId;
+            const trailingOrderQty = parseFloat(trailingOrder.origQty);
+
+            if (Math.abs(trailingOrderQty - positionQty) > 0.00000001) {
+logWithTimestamp(`PositionManager: Trailing stop order ${trailingOrder.orderId} quantity mismatch - Order: ${trailingOrderQty}, Position: ${positionQty}`);
+              needsAdjustment = true;
+            } else {
+logWithTimestamp(`PositionManager: Found trailing stop order ${trailingOrder.orderId} for ${key} (qty: ${trailingOrderQty})`);
+            }
+          }
+
+          const ladderQty = ladderOrders.reduce((sum, o) => sum + parseFloat(o.origQty), 0);
+          if (ladderOrders.length > 0 && Math.abs(ladderQty - positionQty) > 0.00000001) {
+logWithTimestamp(`PositionManager: TP ladder quantity mismatch - Orders: ${ladderQty}, Position: ${positionQty}`);
+            needsAdjustment = true;
+          }
+
+          if (orders.slOrderId || orders.tpOrderId || orders.trailingOrderId || ladderOrders.length > 0) {
             this.positionOrders.set(key, orders);
           }
 
           // Adjust orders if quantities don't match or place missing orders
           if (needsAdjustment) {
 logWithTimestamp(`PositionManager: Adjusting protective orders for ${key} due to quantity mismatch`);
-            await this.adjustProtectiveOrders(position, slOrder, tpOrder);
-          } else if (!slOrder || !tpOrder) {
+            await this.adjustProtectiveOrders(position, slOrder, tpOrder, trailingOrder);
+          } else if (ladderOrders.length > 0 && slOrder && this.hasTakeProfitProtection(symbolConfig, true, !!trailingOrder)) {
+            // Adopt the resting ladder orders (infers already filled levels after a restart)
+            await this.placeProtectiveOrdersWithLock(key, position, false, true);
+          } else if (!slOrder || !this.hasTakeProfitProtection(symbolConfig, !!tpOrder || ladderOrders.length > 0, !!trailingOrder)) {
             // Critical protection check - log with appropriate severity
             if (!slOrder && !tpOrder) {
 logWithTimestamp(`PositionManager: [CRITICAL SYNC] Position ${key} has NO protective orders at all!`);
@@ -559,6 +747,7 @@ logWarnWithTimestamp(`PositionManager: Unassigned reduce-only order - ${order.sy
         }
       }
 
+      this.positionOrders.persistChanges();
 logWithTimestamp(`PositionManager: Sync complete - ${this.currentPositions.size} positions, ${this.positionOrders.size} with orders`);
     } catch (error) {
 logErrorWithTimestamp('PositionManager: Failed to sync with exchange:', error);
@@ -571,7 +760,7 @@ logErrorWithTimestamp('PositionManager: Failed to sync with exchange:', error);
     const params = {};
     const queryString = buildSignedQuery(params, this.config.api);
 
-    const response = await axios.get(`${BASE_URL}/fapi/v2/positionRisk?${queryString}`, {
+    const response = await axios.get(`${getRestBaseUrl()}/fapi/v2/positionRisk?${queryString}`, {
       headers: { 'X-MBX-APIKEY': this.config.api.apiKey }
     });
 
@@ -583,7 +772,7 @@ logErrorWithTimestamp('PositionManager: Failed to sync with exchange:', error);
     const params = {};
     const queryString = buildSignedQuery(params, this.config.api);
 
-    const response = await axios.get(`${BASE_URL}/fapi/v1/openOrders?${queryString}`, {
+    const response = await axios.get(`${getRestBaseUrl()}/fapi/v1/openOrders?${queryString}`, {
       headers: { 'X-MBX-APIKEY': this.config.api.apiKey }
     });
 
@@ -619,7 +808,9 @@ logWithTimestamp(`PositionManager: Order placement already in progress for ${key
 
     // Check if we already have orders tracked
     const existingOrders = this.positionOrders.get(key);
-    if (existingOrders?.slOrderId && existingOrders?.tpOrderId) {
+    const symbolConfig = this.config.symbols[symbol];
+    const hasTakeProfit = this.hasTakeProfitProtection(symbolConfig, this.hasTrackedTakeProfit(existingOrders), !!existingOrders?.trailingOrderId);
+    if (existingOrders?.slOrderId && hasTakeProfit) {
       return; // Already protected
     }
 
@@ -632,7 +823,7 @@ logWarnWithTimestamp(`PositionManager: Position ${key} not found in map`);
 
     // Place missing orders
     const needSL = !existingOrders?.slOrderId;
-    const needTP = !existingOrders?.tpOrderId;
+    const needTP = !hasTakeProfit;
 
     if (needSL || needTP) {
       await this.placeProtectiveOrdersWithLock(key, position, needSL, needTP);
@@ -665,6 +856,17 @@ logWithTimestamp(`PositionManager: Cancelling SL order ${orders.slOrderId} for s
 logWithTimestamp(`PositionManager: Cancelling TP order ${orders.tpOrderId} for symbol ${symbol}`);
         await this.cancelOrderWithRetry(symbol, orders.tpOrderId, 'TP');
       }
+
+      if (orders.trailingOrderId) {
+logWithTimestamp(`PositionManager: Cancelling trailing stop order ${orders.trailingOrderId} for symbol ${symbol}`);
+        await this.cancelOrderWithRetry(symbol, orders.trailingOrderId, 'Trailing stop');
+      }
+
+      for (const level of orders.tpLadder?.levels || []) {
+        if (!level.orderId || level.filled) continue;
+logWithTimestamp(`PositionManager: Cancelling TP ladder order ${level.orderId} (+${level.percent}%) for symbol ${symbol}`);
+        await this.cancelOrderWithRetry(symbol, level.orderId, 'TP ladder');
+      }
     } finally {
       // Always release the lock
       this.orderCancellationLocks.delete(lockKey);
@@ -715,11 +917,18 @@ logErrorWithTimestamp(`PositionManager: Max retries reached for cancelling ${ord
   private handleEvent(event: any): void {
     if (event.e === 'ACCOUNT_UPDATE') {
       this.handleAccountUpdate(event);
+      tradeJournal.handleAccountUpdate(event);
     } else if (event.e === 'ORDER_TRADE_UPDATE') {
       this.handleOrderUpdate(event);
+      const symbol = event.o?.s;
+      tradeJournal.handleOrderUpdate(event, this.symbolLeverage.get(symbol) || this.config.symbols[symbol]?.leverage || 1);
     } else if (event.e === 'ACCOUNT_CONFIG_UPDATE') {
       this.handleAccountConfigUpdate(event);
+    } else if (event.e === 'MARGIN_CALL') {
+      this.handleMarginCall(event);
     }
+
+    this.positionOrders.persistChanges();
   }
 
   private handleAccountConfigUpdate(event: any): void {
@@ -809,6 +1018,7 @@ logWithTimestamp(`PositionManager: Position ${previousKey} fully closed`);
             // Clean up tracking
             this.positionOrders.delete(previousKey);
             this.previousPositionSizes.delete(previousKey);
+            this.liquidationRisk.delete(previousKey);
 
             // Trigger immediate balance refresh
             this.refreshBalance();
@@ -996,7 +1206,7 @@ logWithTimestamp(`PositionManager: ORDER_TRADE_UPDATE - Symbol: ${symbol}, Order
     }
 
     // Track our SL/TP order IDs when they're placed
-    if (orderStatus === 'NEW' && (orderType === 'STOP_MARKET' || orderType === 'TAKE_PROFIT_MARKET')) {
+    if (orderStatus === 'NEW' && (orderType === 'STOP_MARKET' || orderType === 'TAKE_PROFIT_MARKET' || orderType === 'TRAILING_STOP_MARKET')) {
       const _executedQty = parseFloat(order.z || '0');
       const origQty = parseFloat(order.q);
 
@@ -1017,7 +1227,8 @@ logWithTimestamp(`PositionManager: ORDER_TRADE_UPDATE - Symbol: ${symbol}, Order
             const existingOrders = this.positionOrders.get(key);
             const alreadyHasThisOrderType =
               (orderType === 'STOP_MARKET' && existingOrders?.slOrderId) ||
-              (orderType === 'TAKE_PROFIT_MARKET' && existingOrders?.tpOrderId);
+              (orderType === 'TAKE_PROFIT_MARKET' && existingOrders?.tpOrderId) ||
+              (orderType === 'TRAILING_STOP_MARKET' && existingOrders?.trailingOrderId);
 
             // Prefer positions without this order type, or find the best quantity match
             if (!bestMatch ||
@@ -1049,6 +1260,9 @@ logWarnWithTimestamp(`PositionManager: WARNING - Position ${key} already has SL
           }
           orders.slOrderId = orderId;
 logWithTimestamp(`PositionManager: Tracked NEW SL order ${orderId} for position ${key} (${symbol}) - qty match: ${quantityDiff < 0.00000001 ? 'exact' : 'approximate'}`);
+        } else if (orderType === 'TAKE_PROFIT_MARKET' && getTakeProfitLadder(this.config.symbols[symbol])) {
+          // Ladder levels are tracked by syncTakeProfitLadder when they are placed
+logWithTimestamp(`PositionManager: NEW TP ladder order ${orderId} for position ${key} (${symbol}), qty: ${origQty}`);
         } else if (orderType === 'TAKE_PROFIT_MARKET') {
           // Check if we already have a different TP order tracked
           if (orders.tpOrderId && orders.tpOrderId !== orderId) {
@@ -1056,6 +1270,12 @@ logWarnWithTimestamp(`PositionManager: WARNING - Position ${key} already has TP
           }
           orders.tpOrderId = orderId;
 logWithTimestamp(`PositionManager: Tracked NEW TP order ${orderId} for position ${key} (${symbol}) - qty match: ${quantityDiff < 0.00000001 ? 'exact' : 'approximate'}`);
+        } else if (orderType === 'TRAILING_STOP_MARKET') {
+          if (orders.trailingOrderId && orders.trailingOrderId !== orderId) {
+logWarnWithTimestamp(`PositionManager: WARNING - Position ${key} already has trailing stop order ${orders.trailingOrderId}, replacing with ${orderId}`);
+          }
+          orders.trailingOrderId = orderId;
+logWithTimestamp(`PositionManager: Tracked NEW trailing stop order ${orderId} for position ${key} (${symbol}) - qty match: ${quantityDiff < 0.00000001 ? 'exact' : 'approximate'}`);
         }
       } else {
 logWarnWithTimestamp(`PositionManager: WARNING - Could not find matching position for ${orderType} order ${orderId} (${symbol}, qty: ${origQty})`);
@@ -1094,13 +1314,17 @@ logWithTimestamp(`PositionManager: Entry order filled for ${symbol}`);
         // Just wait for it and then place SL/TP
       } else if (orderType === 'STOP_MARKET' || orderType === 'STOP' ||
                  orderType === 'TAKE_PROFIT_MARKET' || orderType === 'TAKE_PROFIT' ||
+                 orderType === 'TRAILING_STOP_MARKET' ||
                  (orderType === 'LIMIT' && order.R)) { // Any reduce-only order
         // SL/TP filled, position closed
 logWithTimestamp(`PositionManager: ${orderType} (reduce-only) filled for ${symbol}`);
 
+        let ladderFillReason: string | undefined;
+        let partialFill = false;
+
         // Clean up our tracking
         for (const [key, orders] of this.positionOrders.entries()) {
-          if (orders.slOrderId === orderId || orders.tpOrderId === orderId) {
+          if (this.isTrackedOrder(orders, orderId)) {
             const [posSymbol] = key.split('_');
 
             // Validate that the filled order is for the correct symbol
@@ -1109,20 +1333,67 @@ logErrorWithTimestamp(`PositionManager: CRITICAL - Order ${orderId} filled for $
               continue; // Don't process mismatched orders
             }
 
+            // A TP ladder level only closes part of the position unless it is the last one
+            const ladder = orders.tpLadder;
+            const ladderLevel = ladder?.levels.find(level => level.orderId === orderId);
+            if (ladder && ladderLevel) {
+              const levelNumber = ladder.levels.indexOf(ladderLevel) + 1;
+              ladderFillReason = `Take Profit (level ${levelNumber}/${ladder.levels.length})`;
+              if (markLevelFilled(ladder, ladderLevel)) {
+logWithTimestamp(`PositionManager: First TP level filled for ${key}, stop loss moves to breakeven`);
+              }
+
+              if (getRemainingLevels(ladder).length > 0) {
+                partialFill = true;
+                // The remaining levels and the SL are re-sized once ACCOUNT_UPDATE reports the smaller position
+logWithTimestamp(`PositionManager: TP ladder level ${levelNumber} (+${ladderLevel.percent}%) filled for ${key}, ${getRemainingLevels(ladder).length} level(s) remaining`);
+                break;
+              }
+            }
+
 logWithTimestamp(`PositionManager: ${orderType} order ${orderId} filled for position ${key}, cancelling opposite order`);
 
+            const isTakeProfitFill = orders.tpOrderId === orderId || !!ladderLevel;
+
             // Cancel the other order if it exists (async, don't await to avoid blocking)
             if (orders.slOrderId === orderId && orders.tpOrderId) {
 logWithTimestamp(`PositionManager: Cancelling opposite TP order ${orders.tpOrderId} for ${symbol}`);
               this.cancelOrderById(symbol, orders.tpOrderId).catch(error => {
 logErrorWithTimestamp(`PositionManager: Failed to cancel TP order ${orders.tpOrderId}:`, error?.response?.data || error?.message);
               });
-            } else if (orders.tpOrderId === orderId && orders.slOrderId) {
+            } else if (isTakeProfitFill && orders.slOrderId) {
 logWithTimestamp(`PositionManager: Cancelling opposite SL order ${orders.slOrderId} for ${symbol}`);
               this.cancelOrderById(symbol, orders.slOrderId).catch(error => {
 logErrorWithTimestamp(`PositionManager: Failed to cancel SL order ${orders.slOrderId}:`, error?.response?.data || error?.message);
               });
             }
+
+            // Stop loss and trailing stop close the whole position, so cancel the remaining ladder levels
+            if (!ladderLevel) {
+              for (const level of orders.tpLadder?.levels || []) {
+                if (!level.orderId || level.filled) continue;
+logWithTimestamp(`PositionManager: Cancelling TP ladder order ${level.orderId} for ${symbol}`);
+                this.cancelOrderById(symbol, level.orderId).catch(error => {
+logErrorWithTimestamp(`PositionManager: Failed to cancel TP ladder order ${level.orderId}:`, error?.response?.data || error?.message);
+                });
+              }
+            }
+
+            // Trailing stop closes the position too, so cancel whatever is left on the other side
+            if (orders.trailingOrderId === orderId) {
+              for (const [otherId, label] of [[orders.slOrderId, 'SL'], [orders.tpOrderId, 'TP']] as const) {
+                if (!otherId) continue;
+logWithTimestamp(`PositionManager: Cancelling ${label} order ${otherId} for ${symbol} after trailing stop fill`);
+                this.cancelOrderById(symbol, otherId).catch(error => {
+logErrorWithTimestamp(`PositionManager: Failed to cancel ${label} order ${otherId}:`, error?.response?.data || error?.message);
+                });
+              }
+            } else if (orders.trailingOrderId) {
+logWithTimestamp(`PositionManager: Cancelling trailing stop order ${orders.trailingOrderId} for ${symbol}`);
+              this.cancelOrderById(symbol, orders.trailingOrderId).catch(error => {
+logErrorWithTimestamp(`PositionManager: Failed to cancel trailing stop order ${orders.trailingOrderId}:`, error?.response?.data || error?.message);
+              });
+            }
             this.positionOrders.delete(key);
             break;
           }
@@ -1131,13 +1402,13 @@ logErrorWithTimestamp(`PositionManager: Failed to cancel SL order ${orders.slOrd
         let realizedPnl = parseFloat(order.rp || '0');
 
         // If exchange didn't provide PnL (returns 0), calculate it ourselves
-        if (realizedPnl === 0 && (orderType === 'TAKE_PROFIT' || orderType === 'TAKE_PROFIT_MARKET' || orderType === 'STOP_MARKET' || orderType === 'STOP')) {
+        if (realizedPnl === 0 && (orderType === 'TAKE_PROFIT' || orderType === 'TAKE_PROFIT_MARKET' || orderType === 'STOP_MARKET' || orderType === 'STOP' || orderType === 'TRAILING_STOP_MARKET')) {
 logWithTimestamp(`PositionManager: Exchange returned PnL=0 for ${orderType}, attempting to calculate from position data`);
 
           // Find the position key that matches this order
           let positionKey: string | undefined;
           for (const [key, orders] of this.positionOrders.entries()) {
-            if (orders.slOrderId === orderId || orders.tpOrderId === orderId) {
+            if (this.isTrackedOrder(orders, orderId)) {
               positionKey = key;
               break;
             }
@@ -1190,18 +1461,21 @@ logWithTimestamp(`PositionManager: Using exchange-provided PnL for ${symbol} ${o
             side: side === 'BUY' ? 'SHORT' : 'LONG', // Opposite of closing order
             quantity: executedQty,
             pnl: realizedPnl,
-            reason: orderType.includes('STOP') ? 'Stop Loss' : 'Take Profit',
+            reason: ladderFillReason || (orderType === 'TRAILING_STOP_MARKET' ? 'Trailing Stop' : orderType.includes('STOP') ? 'Stop Loss' : 'Take Profit'),
           });
 
           // Keep the existing position update for backward compatibility
-          this.statusBroadcaster.broadcastPositionUpdate({
-            symbol: symbol,
-            side: side === 'BUY' ? 'SHORT' : 'LONG',
-            quantity: parseFloat(order.q),
-            price: parseFloat(order.ap || '0'),
-            type: 'closed',
-            pnl: realizedPnl,
-          });
+          // (a partial ladder fill leaves the position open - ACCOUNT_UPDATE broadcasts the new size)
+          if (!partialFill) {
+            this.statusBroadcaster.broadcastPositionUpdate({
+              symbol: symbol,
+              side: side === 'BUY' ? 'SHORT' : 'LONG',
+              quantity: parseFloat(order.q),
+              price: parseFloat(order.ap || '0'),
+              type: 'closed',
+              pnl: realizedPnl,
+            });
+          }
         }
       }
     }
@@ -1221,8 +1495,12 @@ logWithTimestamp(`PositionManager: Order ${orderId} ${orderStatus} for ${symbol}
 
       // Clean up any SL/TP tracking if this was a protective order
       for (const [key, orders] of this.positionOrders.entries()) {
-        if (orders.slOrderId === orderId || orders.tpOrderId === orderId) {
-          if (orders.slOrderId === orderId) {
+        if (this.isTrackedOrder(orders, orderId)) {
+          const ladderLevel = orders.tpLadder?.levels.find(level => level.orderId === orderId);
+          if (ladderLevel) {
+            delete ladderLevel.orderId;
+logWithTimestamp(`PositionManager: Removed cancelled TP ladder order ${orderId} (+${ladderLevel.percent}%) from tracking for ${key}`);
+          } else if (orders.slOrderId === orderId) {
             delete orders.slOrderId;
 logWithTimestamp(`PositionManager: Removed cancelled SL order ${orderId} from tracking for ${key}`);
 logWithTimestamp(`PositionManager: WARNING - Position ${key} now missing SL protection, will attempt to re-place`);
@@ -1230,12 +1508,15 @@ logWithTimestamp(`PositionManager: WARNING - Position ${key} now missing SL prot
             delete orders.tpOrderId;
 logWithTimestamp(`PositionManager: Removed cancelled TP order ${orderId} from tracking for ${key}`);
 logWithTimestamp(`PositionManager: WARNING - Position ${key} now missing TP protection, will attempt to re-place`);
+          } else if (orders.trailingOrderId === orderId) {
+            delete orders.trailingOrderId;
+logWithTimestamp(`PositionManager: Removed cancelled trailing stop order ${orderId} from tracking for ${key}`);
           }
 
           // CRITICAL FIX: Do NOT delete position tracking when orders are cancelled
           // The position still exists and needs protection!
           // Only delete tracking when the position itself is confirmed closed
-          if (!orders.slOrderId && !orders.tpOrderId) {
+          if (!orders.slOrderId && !this.hasTrackedTakeProfit(orders) && !orders.trailingOrderId) {
             // Check if position still exists before removing tracking
             if (this.currentPositions.has(key)) {
 logWithTimestamp(`PositionManager: CRITICAL - Position ${key} lost all protective orders but position is still open!`);
@@ -1255,11 +1536,26 @@ logWithTimestamp(`PositionManager: Position ${key} is closed, removing order tra
   }
 
   // Listen for new positions from Hunter
-  public async onNewPosition(data: { symbol: string; side: string; quantity: number; margin?: number; orderId?: number; price?: number; paperMode?: boolean }): Promise<void> {
+  public async onNewPosition(data: { symbol: string; side: string; quantity: number; margin?: number; orderId?: number; price?: number; orderType?: string; liquidation?: LiquidationEvent; paperMode?: boolean; fill?: PaperFill }): Promise<void> {
     // In the new architecture, we wait for ACCOUNT_UPDATE to confirm the position
     // The WebSocket will tell us when the position is actually open
 logWithTimestamp(`PositionManager: Notified of potential new position: ${data.symbol} ${data.side}`);
 
+    // Remember the originating liquidation so it is persisted with the position's order tracking
+    if (data.liquidation) {
+      this.entrySignals.set(`${data.symbol}_${data.side === 'BUY' ? 'LONG' : 'SHORT'}`, toTrackedSignal(data.liquidation));
+    }
+
+    // Link the entry order to its originating liquidation in the trade journal
+    if (!data.paperMode && data.orderId !== undefined) {
+      tradeJournal.registerEntryOrder(data.orderId, {
+        symbol: data.symbol,
+        side: data.side as 'BUY' | 'SELL',
+        orderType: data.orderType,
+        liquidation: data.liquidation,
+      });
+    }
+
     // For paper mode, simulate the position
     if (this.config.global.paperMode && data.paperMode) {
       // Use the proper position side based on hedge mode
@@ -1267,6 +1563,14 @@ logWithTimestamp(`PositionManager: Notified of potential new position: ${data.sy
         (data.side === 'BUY' ? 'LONG' : 'SHORT') : 'BOTH';
       const key = `${data.symbol}_${positionSide}`;
 
+      // A same-direction entry on an open paper position is a scale-in add
+      const existingPosition = this.currentPositions.get(key);
+      const existingAmt = existingPosition ? parseFloat(existingPosition.positionAmt) : 0;
+      if (existingPosition && existingAmt !== 0 && (existingAmt > 0) === (data.side === 'BUY')) {
+        await this.addToPaperPosition(key, existingPosition, data);
+        return;
+      }
+
       // Get entry price from data or fetch from market
       const entryPrice = data.price?.toString() || '0';
 
@@ -1288,6 +1592,12 @@ logWithTimestamp(`PositionManager: Notified of potential new position: ${data.sy
 
 logWithTimestamp(`PositionManager: Paper mode position created - ${data.symbol} ${positionSide} qty=${data.quantity} entry=${entryPrice}`);
 
+      // Set simulated SL/TP and trailing stop levels (no real orders in paper mode)
+      if (parseFloat(entryPrice) > 0) {
+        await this.placeProtectiveOrders(this.currentPositions.get(key)!, true, true);
+      }
+      const paperOrders = this.positionOrders.get(key);
+
       // Save paper trade to database
       const posAmt = parseFloat(data.side === 'BUY' ? data.quantity.toString() : (-data.quantity).toString());
       const entryPriceNum = parseFloat(entryPrice);
@@ -1297,6 +1607,13 @@ logWithTimestamp(`PositionManager: Paper mode position created - ${data.symbol}
       // Use margin from data if provided (new format), otherwise calculate from quantity
       const margin = data.margin !== undefined ? data.margin : (quantity * entryPriceNum) / leverage;
 
+      // Simulated entry fill, fee and slippage from the paper execution engine
+      const execution: PaperExecutionRecord = { entryOrderType: data.fill?.orderType, fills: [], fees: 0, slippage: 0 };
+      if (data.fill) {
+        addPaperFill(execution, this.toPaperEntryFill(data.fill));
+      }
+      this.paperExecutions.set(key, execution);
+
       try {
         const tradeId = await paperTradeDb.saveTrade({
           symbol: data.symbol,
@@ -1308,6 +1625,8 @@ logWithTimestamp(`PositionManager: Paper mode position created - ${data.symbol}
           margin: margin,
           status: 'open',
           opened_at: Date.now(),
+          metadata: serializePaperExecution(undefined, execution),
+          account: this.paperAccount,
         });
 
         // Store the trade ID for later updates
@@ -1315,7 +1634,7 @@ logWithTimestamp(`PositionManager: Paper mode position created - ${data.symbol}
         logWithTimestamp(`PositionManager: Paper trade saved to DB (ID: ${tradeId})`);
 
         // Update paper balance service
-        const paperBalanceService = getPaperBalanceService();
+        const paperBalanceService = this.getPaperBalance();
         if (paperBalanceService && paperBalanceService.isReady()) {
           paperBalanceService.addPosition(data.symbol, positionSide as 'LONG' | 'SHORT', margin);
         }
@@ -1335,18 +1654,87 @@ logWithTimestamp(`PositionManager: Paper mode position created - ${data.symbol}
           pnlPercent: 0,
           margin: margin,
           leverage: leverage,
-          hasStopLoss: false,
-          hasTakeProfit: false,
+          hasStopLoss: paperOrders?.slPrice !== undefined,
+          hasTakeProfit: paperOrders?.tpPrice !== undefined || paperOrders?.trailingStop !== undefined,
           type: 'opened'
         });
       }
+    }
+  }
+
+  // Merge a scale-in add into an open paper position and re-price its SL/TP from the new average entry
+  private async addToPaperPosition(key: string, position: ExchangePosition, data: { symbol: string; side: string; quantity: number; margin?: number; price?: number; fill?: PaperFill }): Promise<void> {
+    const posAmt = parseFloat(position.positionAmt);
+    const isLong = posAmt > 0;
+    const quantity = Math.abs(posAmt);
+    const entryPrice = parseFloat(position.entryPrice);
+    const addPrice = data.price || entryPrice;
+    const leverage = parseInt(this.config.symbols[data.symbol]?.leverage?.toString() || '10');
+
+    const averageEntry = calculateAverageEntry(quantity, entryPrice, data.quantity, addPrice);
+    const totalQuantity = symbolPrecision.formatQuantity(data.symbol, quantity + data.quantity);
+
+    position.positionAmt = (isLong ? totalQuantity : -totalQuantity).toString();
+    position.entryPrice = averageEntry.toString();
+    position.updateTime = Date.now();
+
+logWithTimestamp(`PositionManager: Paper mode scale-in - ${data.symbol} ${position.positionSide} +${data.quantity} at ${addPrice}, qty ${quantity} -> ${totalQuantity}, avg entry ${entryPrice.toFixed(4)} -> ${averageEntry.toFixed(4)}`);
+
+    // Simulated SL/TP follow the new average entry
+    await this.placeProtectiveOrders(position, true, true);
+    const paperOrders = this.positionOrders.get(key);
+
+    const addMargin = data.margin !== undefined ? data.margin : (data.quantity * addPrice) / leverage;
+    let margin = (totalQuantity * averageEntry) / leverage;
+
+    const execution = this.paperExecutions.get(key) || { fills: [], fees: 0, slippage: 0 };
+    if (data.fill) {
+      addPaperFill(execution, this.toPaperEntryFill(data.fill));
+    }
+    this.paperExecutions.set(key, execution);
+
+    const tradeId = this.paperTradeIds.get(key);
+    if (tradeId) {
+      try {
+        const trade = await paperTradeDb.getTrade(tradeId);
+        if (trade) {
+          margin = trade.margin + addMargin;
+        }
+        await paperTradeDb.updateTrade(tradeId, {
+          quantity: totalQuantity,
+          entry_price: averageEntry,
+          margin,
+          metadata: serializePaperExecution(trade?.metadata, execution),
+        });
+      } catch (error) {
+        logErrorWithTimestamp('PositionManager: Failed to update paper trade after scale-in:', error);
+      }
+    }
+
+    const paperBalanceService = this.getPaperBalance();
+    if (paperBalanceService && paperBalanceService.isReady()) {
+      paperBalanceService.addPosition(data.symbol, position.positionSide as 'LONG' | 'SHORT', margin);
+    }
 
-      // Skip placing SL/TP orders in paper mode
+    if (this.statusBroadcaster) {
+      this.statusBroadcaster.broadcastPositionUpdate({
+        symbol: data.symbol,
+        side: position.positionSide,
+        quantity: totalQuantity,
+        entryPrice: averageEntry,
+        markPrice: addPrice,
+        pnl: isLong ? (addPrice - averageEntry) * totalQuantity : (averageEntry - addPrice) * totalQuantity,
+        margin: margin,
+        leverage: leverage,
+        hasStopLoss: paperOrders?.slPrice !== undefined,
+        hasTakeProfit: paperOrders?.tpPrice !== undefined || paperOrders?.trailingStop !== undefined || paperOrders?.tpLadder !== undefined,
+        type: 'updated'
+      });
     }
   }
 
   // Adjust protective orders when quantities don't match position size
-  private async adjustProtectiveOrders(position: ExchangePosition, currentSlOrder?: ExchangeOrder, currentTpOrder?: ExchangeOrder): Promise<void> {
+  private async adjustProtectiveOrders(position: ExchangePosition, currentSlOrder?: ExchangeOrder, currentTpOrder?: ExchangeOrder, currentTrailingOrder?: ExchangeOrder): Promise<void> {
     // Skip order adjustments in paper mode
     if (this.config.global.paperMode) {
       return;
@@ -1366,9 +1754,10 @@ logWithTimestamp(`PositionManager: Order adjustment already in progress for ${ke
     this.orderPlacementLocks.add(key);
 
     try {
-logWithTimestamp(`PositionManager: Adjusting protective orders for ${symbol} - Position size: ${Math.abs(posAmt)}`);
+logWithTimestamp(`PositionManager: Adjusting protective orders for ${symbol} - Position size: ${Math.abs(posAmt)}, entry: ${position.entryPrice}`);
 
-      // Cancel existing orders with wrong quantities using retry logic
+      // Cancel existing orders with wrong quantities using retry logic.
+      // Replacements are priced from the current average entry, so a scale-in add moves SL/TP with it.
       const orders = this.positionOrders.get(key) || {};
       const cancelPromises: Promise<void>[] = [];
 
@@ -1388,8 +1777,11 @@ logWithTimestamp(`PositionManager: Cancelling SL order ${currentSlOrder.orderId}
         needNewSL = true;
       }
 
-      // Check and cancel TP if quantity doesn't match
-      if (currentTpOrder) {
+      // Ladder orders are checked level by level and re-sized by placeProtectiveOrders
+      if (getTakeProfitLadder(this.config.symbols[symbol])) {
+        needNewTP = true;
+      } else if (currentTpOrder) {
+        // Check and cancel TP if quantity doesn't match
         const tpOrderQty = parseFloat(currentTpOrder.origQty);
         if (Math.abs(tpOrderQty - Math.abs(posAmt)) > 0.00000001) {
 logWithTimestamp(`PositionManager: Cancelling TP order ${currentTpOrder.orderId} (qty: ${tpOrderQty}) to replace with correct size`);
@@ -1401,6 +1793,16 @@ logWithTimestamp(`PositionManager: Cancelling TP order ${currentTpOrder.orderId}
         needNewTP = true;
       }
 
+      // Cancel trailing stop if quantity doesn't match - placeProtectiveOrders re-places it
+      if (currentTrailingOrder) {
+        const trailingOrderQty = parseFloat(currentTrailingOrder.origQty);
+        if (Math.abs(trailingOrderQty - Math.abs(posAmt)) > 0.00000001) {
+logWithTimestamp(`PositionManager: Cancelling trailing stop order ${currentTrailingOrder.orderId} (qty: ${trailingOrderQty}) to replace with correct size`);
+          cancelPromises.push(this.cancelOrderWithRetry(symbol, currentTrailingOrder.orderId, 'Trailing stop'));
+          delete orders.trailingOrderId;
+        }
+      }
+
       // Wait for cancellations to complete
       if (cancelPromises.length > 0) {
         try {
@@ -1416,7 +1818,8 @@ logErrorWithTimestamp('PositionManager: Error cancelling orders for adjustment:'
       this.positionOrders.set(key, orders);
 
       // Place new orders with correct quantities
-      if (needNewSL || needNewTP) {
+      const needNewTrailing = !!getTrailingStopSettings(this.config.symbols[symbol]) && !orders.trailingOrderId;
+      if (needNewSL || needNewTP || needNewTrailing) {
         await this.placeProtectiveOrders(position, needNewSL, needNewTP);
       }
     } finally {
@@ -1459,24 +1862,36 @@ logWarnWithTimestamp(`PositionManager: No config for symbol ${symbol}`);
     }
     const orders = this.positionOrders.get(key)!
 
-    // In paper mode, calculate and store SL/TP prices for simulation
-    if (this.config.global.paperMode) {
-      // Calculate SL price
-      const slPrice = isLong
-        ? entryPrice * (1 - symbolConfig.slPercent / 100)
-        : entryPrice * (1 + symbolConfig.slPercent / 100);
+    const signalKey = `${symbol}_${isLong ? 'LONG' : 'SHORT'}`;
+    const entrySignal = this.entrySignals.get(signalKey);
+    if (entrySignal) {
+      // A scale-in add keeps the liquidation that opened the position
+      orders.signal = orders.signal || entrySignal;
+      this.entrySignals.delete(signalKey);
+    }
 
-      // Calculate TP price
-      const tpPrice = isLong
-        ? entryPrice * (1 + symbolConfig.tpPercent / 100)
-        : entryPrice * (1 - symbolConfig.tpPercent / 100);
+    // ATR distances are resolved once per position - scale-ins apply them to the new average entry
+    if (getVolatilityStopSettings(symbolConfig) && orders.protection?.source !== 'ATR') {
+      orders.protection = await getProtectionDistances(symbol, symbolConfig, entryPrice);
+      if (orders.protection.source === 'ATR') {
+logWithTimestamp(`PositionManager: ${symbol} ATR ${orders.protection.atr!.toPrecision(6)} (${orders.protection.atrPercent!.toFixed(3)}%) -> SL ${orders.protection.slPercent.toFixed(2)}%, TP ${orders.protection.tpPercent.toFixed(2)}%`);
+      }
+    }
+    const protection = this.getProtection(symbolConfig, orders);
 
-      // Store in orders map for simulation
-      orders.slPrice = slPrice;
-      orders.tpPrice = tpPrice;
+    // In paper mode, calculate and store SL/TP prices for simulation
+    if (this.config.global.paperMode) {
+      this.setPaperProtectiveLevels(orders, symbolConfig, entryPrice, isLong);
+      const { slPrice, tpPrice, trailingStop, tpLadder } = orders;
 
 logWithTimestamp(`PositionManager: [Paper Mode] Set SL/TP for ${symbol}:`);
-logWithTimestamp(`  Entry: ${entryPrice.toFixed(4)}, SL: ${slPrice.toFixed(4)}, TP: ${tpPrice.toFixed(4)}`);
+logWithTimestamp(`  Entry: ${entryPrice.toFixed(4)}, SL: ${slPrice!.toFixed(4)}, TP: ${tpPrice !== undefined ? tpPrice.toFixed(4) : 'none'}`);
+      if (trailingStop) {
+logWithTimestamp(`  Trailing stop: activation ${trailingStop.activationPrice.toFixed(4)}, callback ${trailingStop.callbackRate}%`);
+      }
+      if (tpLadder) {
+logWithTimestamp(`  TP ladder: ${tpLadder.levels.map(level => `${level.price.toFixed(4)} (${level.sizePercent}%)`).join(', ')}`);
+      }
 
       if (this.statusBroadcaster) {
         this.statusBroadcaster.broadcastStopLossPlaced({
@@ -1484,18 +1899,48 @@ logWithTimestamp(`  Entry: ${entryPrice.toFixed(4)}, SL: ${slPrice.toFixed(4)},
           price: slPrice,
           quantity,
           orderId: 'paper-sl',
+          distancePercent: this.isBreakevenStop(orders) ? 0 : protection.slPercent,
+          atr: protection.atr,
         });
-        this.statusBroadcaster.broadcastTakeProfitPlaced({
-          symbol,
-          price: tpPrice,
-          quantity,
-          orderId: 'paper-tp',
+        if (tpPrice !== undefined) {
+          this.statusBroadcaster.broadcastTakeProfitPlaced({
+            symbol,
+            price: tpPrice,
+            quantity,
+            orderId: 'paper-tp',
+            distancePercent: protection.tpPercent,
+            atr: protection.atr,
+          });
+        }
+        tpLadder?.levels.forEach((level, i) => {
+          this.statusBroadcaster.broadcastTakeProfitPlaced({
+            symbol,
+            price: level.price,
+            quantity: quantity * level.sizePercent / 100,
+            orderId: `paper-tp-${i + 1}`,
+          });
         });
       }
 
       return;
     };
 
+    const trailingSettings = getTrailingStopSettings(symbolConfig);
+    let placeTrailing = !!trailingSettings && !orders.trailingOrderId;
+
+    // The trailing stop takes the place of the fixed TP
+    if (!usesFixedTakeProfit(symbolConfig)) {
+      placeTP = false;
+    }
+
+    // A TP ladder replaces the single TP order
+    const ladderLevels = getTakeProfitLadder(symbolConfig);
+    let placeLadder = !!ladderLevels && placeTP;
+    let ladderTpOrders: ExchangeOrder[] = [];
+    if (ladderLevels) {
+      placeTP = false;
+    }
+
     // Double-check existing orders before placing new ones
     try {
       const openOrders = await this.getOpenOrdersFromExchange();
@@ -1530,8 +1975,8 @@ logErrorWithTimestamp(`PositionManager: Failed to cancel duplicate SL order ${ex
         }
       }
 
-      // Handle multiple TP orders - keep the first one, cancel the rest
-      if (existingTpOrders.length > 1) {
+      // Handle multiple TP orders - keep the first one, cancel the rest (a ladder legitimately has several)
+      if (existingTpOrders.length > 1 && !ladderLevels) {
 logWithTimestamp(`PositionManager: Found ${existingTpOrders.length} TP orders for ${key}, cancelling duplicates`);
         for (let i = 1; i < existingTpOrders.length; i++) {
           try {
@@ -1544,9 +1989,18 @@ logErrorWithTimestamp(`PositionManager: Failed to cancel duplicate TP order ${ex
         }
       }
 
+      // Find existing trailing stop orders for this position
+      const existingTrailingOrders = openOrders.filter(o =>
+        o.symbol === symbol &&
+        o.type === 'TRAILING_STOP_MARKET' &&
+        o.reduceOnly &&
+        ((posAmt > 0 && o.side === 'SELL') || (posAmt < 0 && o.side === 'BUY'))
+      );
+
       // Update our tracking with the remaining orders
       const existingSlOrder = existingSlOrders.length > 0 ? existingSlOrders[0] : undefined;
       const existingTpOrder = existingTpOrders.length > 0 ? existingTpOrders[0] : undefined;
+      const existingTrailingOrder = existingTrailingOrders.length > 0 ? existingTrailingOrders[0] : undefined;
 
       if (existingSlOrder) {
         orders.slOrderId = existingSlOrder.orderId;
@@ -1554,19 +2008,33 @@ logErrorWithTimestamp(`PositionManager: Failed to cancel duplicate TP order ${ex
 logWithTimestamp(`PositionManager: Found existing SL order ${existingSlOrder.orderId} for ${key}, skipping placement`);
       }
 
-      if (existingTpOrder) {
+      if (ladderLevels) {
+        ladderTpOrders = existingTpOrders.filter(o => o.type === 'TAKE_PROFIT_MARKET' || o.type === 'TAKE_PROFIT');
+      } else if (existingTpOrder) {
         orders.tpOrderId = existingTpOrder.orderId;
         placeTP = false; // Don't place if one already exists
 logWithTimestamp(`PositionManager: Found existing TP order ${existingTpOrder.orderId} for ${key}, skipping placement`);
       }
 
+      if (existingTrailingOrder) {
+        orders.trailingOrderId = existingTrailingOrder.orderId;
+        placeTrailing = false;
+logWithTimestamp(`PositionManager: Found existing trailing stop order ${existingTrailingOrder.orderId} for ${key}, skipping placement`);
+      } else if (trailingSettings && orders.trailingOrderId) {
+        // Tracked trailing stop is gone from the exchange
+        delete orders.trailingOrderId;
+        placeTrailing = true;
+      }
+
       // Exit early if no orders need to be placed
-      if (!placeSL && !placeTP) {
+      if (!placeSL && !placeTP && !placeTrailing && !placeLadder) {
 logWithTimestamp(`PositionManager: All protective orders already exist for ${key}`);
         return;
       }
     } catch (error: any) {
 logErrorWithTimestamp('PositionManager: Failed to check existing orders, proceeding with placement:', error?.response?.data || error?.message);
+      // Without the resting ladder orders we can't tell which levels are placed - the periodic check retries
+      placeLadder = false;
       // Log to error database
       errorLogger.logError(error instanceof Error ? error : new Error(String(error)), {
         type: 'api',
@@ -1580,17 +2048,25 @@ logErrorWithTimestamp('PositionManager: Failed to check existing orders, proceed
       });
     }
 
+    // Place the trailing stop first so the early returns below don't skip it
+    if (placeTrailing && trailingSettings) {
+      await this.placeTrailingStopOrder(position, orders, trailingSettings);
+    }
+
+    // Sync the ladder before the SL so a level fill found here already moves the SL to breakeven
+    if (placeLadder && ladderLevels) {
+      await this.syncTakeProfitLadder(position, orders, ladderLevels, ladderTpOrders);
+    }
+
     try {
       // Use batch orders when placing both SL and TP to save API calls
       if (placeSL && placeTP) {
         // Get current market price to validate stop loss placement
-        const ticker = await axios.get(`https://fapi.asterdex.com/fapi/v1/ticker/price?symbol=${symbol}`);
+        const ticker = await axios.get(`${getRestBaseUrl()}/fapi/v1/ticker/price?symbol=${symbol}`);
         const currentPrice = parseFloat(ticker.data.price);
 
         // Calculate SL price
-        const rawSlPrice = isLong
-          ? entryPrice * (1 - symbolConfig.slPercent / 100)
-          : entryPrice * (1 + symbolConfig.slPercent / 100);
+        const rawSlPrice = this.getStopLossPrice(symbolConfig, entryPrice, isLong, orders);
 
         // Check if stop loss would be triggered immediately
         let adjustedSlPrice = rawSlPrice;
@@ -1606,8 +2082,8 @@ logWithTimestamp(`PositionManager: Position ${symbol} is underwater. Adjusting S
 
         // Calculate TP price and check if it would trigger immediately
         const rawTpPrice = isLong
-          ? entryPrice * (1 + symbolConfig.tpPercent / 100)
-          : entryPrice * (1 - symbolConfig.tpPercent / 100);
+          ? entryPrice * (1 + protection.tpPercent / 100)
+          : entryPrice * (1 - protection.tpPercent / 100);
 
         // Check if position has already exceeded TP target
         const pastTP = isLong
@@ -1627,7 +2103,7 @@ logWithTimestamp(`PositionManager: Skipping auto-close due to data issue`);
             : ((entryPrice - currentPrice) / entryPrice) * 100;
 
 logWithTimestamp(`PositionManager: Position ${symbol} has exceeded TP target`);
-logWithTimestamp(`  Entry: ${entryPrice}, Current: ${currentPrice}, PnL: ${pnlPercent.toFixed(2)}%, TP: ${symbolConfig.tpPercent}%`);
+logWithTimestamp(`  Entry: ${entryPrice}, Current: ${currentPrice}, PnL: ${pnlPercent.toFixed(2)}%, TP: ${protection.tpPercent.toFixed(2)}%`);
 logWithTimestamp(`PositionManager: Closing position at market instead of placing TP order`);
 
           // Close at market immediately
@@ -1716,6 +2192,8 @@ logWithTimestamp(`PositionManager: Placed SL for ${symbol} at ${slPrice.toFixed(
               price: slPrice,
               quantity,
               orderId: batchResult.stopLoss.orderId?.toString(),
+              distancePercent: this.isBreakevenStop(orders) ? 0 : protection.slPercent,
+              atr: protection.atr,
             });
           }
         }
@@ -1731,6 +2209,8 @@ logWithTimestamp(`PositionManager: Placed TP for ${symbol} at ${tpPrice.toFixed(
               price: tpPrice,
               quantity,
               orderId: batchResult.takeProfit.orderId?.toString(),
+              distancePercent: protection.tpPercent,
+              atr: protection.atr,
             });
           }
         }
@@ -1817,12 +2297,10 @@ logWithTimestamp(`PositionManager: Placing protection orders individually for ${
       if (placeSL) {
         // Place orders individually if not placing both
         // Get current market price to avoid "Order would immediately trigger" error
-        const ticker = await axios.get(`https://fapi.asterdex.com/fapi/v1/ticker/price?symbol=${symbol}`);
+        const ticker = await axios.get(`${getRestBaseUrl()}/fapi/v1/ticker/price?symbol=${symbol}`);
         const currentPrice = parseFloat(ticker.data.price);
 
-        const rawSlPrice = isLong
-          ? entryPrice * (1 - symbolConfig.slPercent / 100)
-          : entryPrice * (1 + symbolConfig.slPercent / 100);
+        const rawSlPrice = this.getStopLossPrice(symbolConfig, entryPrice, isLong, orders);
 
         // Check if the position is already beyond the stop level
         let adjustedSlPrice = rawSlPrice;
@@ -1858,7 +2336,7 @@ logWithTimestamp(`  Formatted SL price: ${slPrice}`);
           quantity: formattedQuantity,
           stopPrice: slPrice,
           positionSide: orderPositionSide as 'BOTH' | 'LONG' | 'SHORT',
-          newClientOrderId: `al_sl_${symbol}_${Date.now() % 10000000000}`,
+          newClientOrderId: `${this.isBreakevenStop(orders) ? 'al_be_' : 'al_sl_'}${symbol}_${Date.now() % 10000000000}`,
         };
 
         // Only add reduceOnly in One-way mode (positionSide == BOTH)
@@ -1879,6 +2357,8 @@ logWithTimestamp(`PositionManager: Placed SL (STOP_MARKET) for ${symbol} at ${sl
             price: slPrice,
             quantity,
             orderId: slOrder.orderId?.toString(),
+            distancePercent: this.isBreakevenStop(orders) ? 0 : protection.slPercent,
+            atr: protection.atr,
           });
         }
       }
@@ -1886,12 +2366,12 @@ logWithTimestamp(`PositionManager: Placed SL (STOP_MARKET) for ${symbol} at ${sl
       // Place Take Profit
       if (placeTP) {
         // Get current market price to check if TP would trigger immediately
-        const ticker = await axios.get(`https://fapi.asterdex.com/fapi/v1/ticker/price?symbol=${symbol}`);
+        const ticker = await axios.get(`${getRestBaseUrl()}/fapi/v1/ticker/price?symbol=${symbol}`);
         const currentPrice = parseFloat(ticker.data.price);
 
         const rawTpPrice = isLong
-          ? entryPrice * (1 + symbolConfig.tpPercent / 100)
-          : entryPrice * (1 - symbolConfig.tpPercent / 100);
+          ? entryPrice * (1 + protection.tpPercent / 100)
+          : entryPrice * (1 - protection.tpPercent / 100);
 
         // Check if position has already exceeded TP target
         const pastTP = isLong
@@ -1912,7 +2392,7 @@ logWithTimestamp(`PositionManager: Skipping auto-close due to data issue`);
             : ((entryPrice - currentPrice) / entryPrice) * 100;
 
 logWithTimestamp(`PositionManager: Position ${symbol} has exceeded TP target!`);
-logWithTimestamp(`  Entry: ${entryPrice}, Current: ${currentPrice}, PnL: ${pnlPercent.toFixed(2)}%, TP target: ${symbolConfig.tpPercent}%`);
+logWithTimestamp(`  Entry: ${entryPrice}, Current: ${currentPrice}, PnL: ${pnlPercent.toFixed(2)}%, TP target: ${protection.tpPercent.toFixed(2)}%`);
 
           // Always close at market if past TP, regardless of exact profit amount
 logWithTimestamp(`PositionManager: Closing position at market - already past TP target`);
@@ -1973,7 +2453,7 @@ logWithTimestamp(`  Formatted TP price: ${tpPrice}`);
             quantity: formattedQuantity,
             stopPrice: tpPrice,
             positionSide: orderPositionSide as 'BOTH' | 'LONG' | 'SHORT',
-            newClientOrderId: `al_tp_${symbol}_${Date.now() % 10000000000}`,
+            newClientOrderId: `${orders.timeoutTpPercent !== undefined ? 'al_tt_' : 'al_tp_'}${symbol}_${Date.now() % 10000000000}`,
           };
 
           if (orderPositionSide === 'BOTH') {
@@ -1991,15 +2471,18 @@ logWithTimestamp(`PositionManager: Placed TP for ${symbol} at ${tpPrice}, orderI
               price: tpPrice,
               quantity,
               orderId: tpOrder.orderId?.toString(),
+              distancePercent: protection.tpPercent,
+              atr: protection.atr,
             });
           }
         }
       }
 
       // Only save orders that were actually placed successfully
-      if (orders.slOrderId || orders.tpOrderId) {
+      if (orders.slOrderId || this.hasTrackedTakeProfit(orders) || orders.trailingOrderId) {
         this.positionOrders.set(key, orders);
-logWithTimestamp(`PositionManager: Protection orders tracked for ${key} - SL: ${orders.slOrderId || 'none'}, TP: ${orders.tpOrderId || 'none'}`);
+        const ladderOrderCount = orders.tpLadder?.levels.filter(level => level.orderId && !level.filled).length || 0;
+logWithTimestamp(`PositionManager: Protection orders tracked for ${key} - SL: ${orders.slOrderId || 'none'}, TP: ${orders.tpOrderId || (ladderOrderCount > 0 ? `${ladderOrderCount} ladder level(s)` : 'none')}, Trailing: ${orders.trailingOrderId || 'none'}`);
 
         // Warn if position is partially protected
         if (!orders.slOrderId && symbolConfig.slPercent > 0) {
@@ -2023,7 +2506,7 @@ logWarnWithTimestamp(`PositionManager: ⚠️ Position ${key} has NO STOP LOSS p
           );
         }
 
-        if (!orders.tpOrderId && symbolConfig.tpPercent > 0) {
+        if (!this.hasTakeProfitProtection(symbolConfig, this.hasTrackedTakeProfit(orders), !!orders.trailingOrderId) && symbolConfig.tpPercent > 0) {
 logWarnWithTimestamp(`PositionManager: ⚠️ Position ${key} has NO TAKE PROFIT order!`);
         }
       } else {
@@ -2043,8 +2526,9 @@ logErrorWithTimestamp(`PositionManager: Failed to place protective orders for ${
           entryPrice,
           quantity,
           isLong,
-          slPercent: symbolConfig.slPercent,
-          tpPercent: symbolConfig.tpPercent,
+          slPercent: protection.slPercent,
+          tpPercent: protection.tpPercent,
+          atr: protection.atr,
           errorCode: error.response?.data?.code,
           errorDetails: error.response?.data
         }
@@ -2066,98 +2550,426 @@ logErrorWithTimestamp(`PositionManager: Failed to place protective orders for ${
     }
   }
 
-  private async checkRisk(): Promise<void> {
-    // Check total PnL
-    const _riskPercent = this.config.global.riskPercent / 100;
-    // Simplified: assume some PnL calculation
-    // If unrealized PnL < -risk * balance, close all positions
-    // Implementation depends on balance query
-
-logWithTimestamp(`PositionManager: Risk check complete`);
-  }
+  // Place a TRAILING_STOP_MARKET order for a position
+  private async placeTrailingStopOrder(position: ExchangePosition, orders: PositionOrders, settings: TrailingStopSettings): Promise<void> {
+    const symbol = position.symbol;
+    const posAmt = parseFloat(position.positionAmt);
+    const entryPrice = parseFloat(position.entryPrice);
+    const quantity = Math.abs(posAmt);
+    const isLong = posAmt > 0;
 
-  // Clean up orphaned orders (orders for symbols without active positions) and duplicates
-  private async cleanupOrphanedOrders(): Promise<void> {
     try {
-logWithTimestamp('PositionManager: Checking for orphaned and duplicate orders...');
+      const ticker = await axios.get(`${getRestBaseUrl()}/fapi/v1/ticker/price?symbol=${symbol}`);
+      const currentPrice = parseFloat(ticker.data.price);
 
-      const openOrders = await this.getOpenOrdersFromExchange();
-      const positions = await this.getPositionsFromExchange();
-
-      // Create map of active positions with their position details
-      const activePositions = new Map<string, { symbol: string; positionAmt: number; positionSide: string }>();
-
-      // Create a more detailed position tracking structure
-      const symbolPositionDetails = new Map<string, { long: boolean; short: boolean; amounts: number[] }>();
+      const formattedQuantity = symbolPrecision.formatQuantity(symbol, quantity);
+      const orderPositionSide = position.positionSide || 'BOTH';
 
-      for (const position of positions) {
-        const posAmt = parseFloat(position.positionAmt);
-        if (Math.abs(posAmt) > 0) {
-          const key = this.getPositionKey(position.symbol, position.positionSide, posAmt);
-          activePositions.set(key, {
-            symbol: position.symbol,
-            positionAmt: posAmt,
-            positionSide: position.positionSide
-          });
+      const orderParams: any = {
+        symbol,
+        side: isLong ? 'SELL' : 'BUY',
+        type: 'TRAILING_STOP_MARKET',
+        quantity: formattedQuantity,
+        callbackRate: settings.callbackRate,
+        positionSide: orderPositionSide as 'BOTH' | 'LONG' | 'SHORT',
+        newClientOrderId: `al_ts_${symbol}_${Date.now() % 10000000000}`,
+      };
 
-          // Track position details per symbol
-          if (!symbolPositionDetails.has(position.symbol)) {
-            symbolPositionDetails.set(position.symbol, { long: false, short: false, amounts: [] });
-          }
-          const details = symbolPositionDetails.get(position.symbol)!;
-          details.amounts.push(posAmt);
-          if (posAmt > 0) details.long = true;
-          if (posAmt < 0) details.short = true;
-        }
+      // The exchange rejects an activation price the market has already passed,
+      // in that case omit it so trailing starts from the latest price
+      const rawActivationPrice = calculateActivationPrice(entryPrice, isLong, settings.activationPercent);
+      const activationAhead = isLong ? rawActivationPrice > currentPrice : rawActivationPrice < currentPrice;
+      if (activationAhead) {
+        orderParams.activationPrice = symbolPrecision.formatPrice(symbol, rawActivationPrice);
+      } else {
+logWithTimestamp(`PositionManager: ${symbol} already past trailing activation ${rawActivationPrice.toFixed(4)} (current: ${currentPrice.toFixed(4)}), trailing from current price`);
       }
 
-      const _activeSymbols = new Set(Array.from(activePositions.values()).map(p => p.symbol));
+      if (orderPositionSide === 'BOTH') {
+        orderParams.reduceOnly = true;
+      }
 
-      // Find orphaned orders (reduce-only orders without matching positions)
-      // Enhanced check considers order quantity matching
-      const orphanedOrders = openOrders.filter(order => {
-        if (!order.reduceOnly) return false;
+      const trailingOrder = await placeOrder(orderParams, this.config.api);
+      orders.trailingOrderId = typeof trailingOrder.orderId === 'string' ? parseInt(trailingOrder.orderId) : trailingOrder.orderId;
+logWithTimestamp(`PositionManager: Placed trailing stop for ${symbol} - activation: ${orderParams.activationPrice ?? 'current price'}, callback: ${settings.callbackRate}%, orderId: ${trailingOrder.orderId}`);
 
-        const symbolDetails = symbolPositionDetails.get(order.symbol);
+      if (this.statusBroadcaster) {
+        this.statusBroadcaster.broadcastOrderPlaced({
+          symbol,
+          side: orderParams.side,
+          orderType: 'TRAILING_STOP_MARKET',
+          quantity,
+          price: orderParams.activationPrice,
+          orderId: trailingOrder.orderId?.toString(),
+        });
+      }
+    } catch (error: any) {
+      const errorMsg = error.response?.data?.msg || error.message || 'Unknown error';
+logErrorWithTimestamp(`PositionManager: Failed to place trailing stop for ${symbol}:`, error.response?.data || error.message);
 
-        // If symbol has no positions at all, it's orphaned
-        if (!symbolDetails) {
-          const isBotOrder = order.clientOrderId &&
-            (order.clientOrderId.startsWith('al_sl_') || order.clientOrderId.startsWith('al_tp_'));
-logWithTimestamp(`PositionManager: Found orphaned ${order.type} order for ${order.symbol} (no position) - OrderId: ${order.orderId}, ClientOrderId: ${order.clientOrderId || 'none'}, Bot order: ${isBotOrder ? 'yes' : 'no'}`);
-          return true;
+      await errorLogger.logTradingError(
+        'placeTrailingStop',
+        symbol,
+        error instanceof Error ? error : new Error(errorMsg),
+        {
+          entryPrice,
+          quantity,
+          isLong,
+          activationPercent: settings.activationPercent,
+          callbackRate: settings.callbackRate,
+          errorCode: error.response?.data?.code,
+          errorDetails: error.response?.data
         }
+      );
+    }
+  }
 
-        // Check if order matches any position direction
-        // SELL reduce-only orders close LONG positions
-        // BUY reduce-only orders close SHORT positions
-        const orderMatchesPosition =
-          (order.side === 'SELL' && symbolDetails.long) ||
-          (order.side === 'BUY' && symbolDetails.short);
+  // Whether the take-profit side of a position is covered (fixed TP and/or trailing stop as configured)
+  private hasTakeProfitProtection(symbolConfig: SymbolConfig | undefined, hasTpOrder: boolean, hasTrailingOrder: boolean): boolean {
+    const needsTrailing = !!getTrailingStopSettings(symbolConfig);
+    const needsFixedTP = usesFixedTakeProfit(symbolConfig);
+    return (!needsFixedTP || hasTpOrder) && (!needsTrailing || hasTrailingOrder);
+  }
 
-        if (!orderMatchesPosition) {
-logWithTimestamp(`PositionManager: Found orphaned ${order.type} order for ${order.symbol} (direction mismatch) - OrderId: ${order.orderId}, Side: ${order.side}, Has Long: ${symbolDetails.long}, Has Short: ${symbolDetails.short}`);
-          return true;
-        }
+  // Whether a TP order (single or any open ladder level) is tracked for the position
+  private hasTrackedTakeProfit(orders: PositionOrders | undefined): boolean {
+    return !!orders?.tpOrderId || !!orders?.tpLadder?.levels.some(level => level.orderId && !level.filled);
+  }
 
-        // Check if this order is tracked by any position
-        const orderQty = parseFloat(order.origQty);
-        let isTracked = false;
+  private isTrackedOrder(orders: PositionOrders, orderId: number): boolean {
+    return orders.slOrderId === orderId ||
+      orders.tpOrderId === orderId ||
+      orders.trailingOrderId === orderId ||
+      !!orders.tpLadder?.levels.some(level => level.orderId === orderId);
+  }
 
-        for (const [key, trackedOrders] of this.positionOrders.entries()) {
-          if (trackedOrders.slOrderId === order.orderId || trackedOrders.tpOrderId === order.orderId) {
-            isTracked = true;
+  // SL/TP distances for a position - its ATR-scaled ones while volatility stops are on, otherwise the fixed percentages
+  private getProtection(symbolConfig: SymbolConfig, orders?: PositionOrders): ProtectionDistances {
+    const protection = orders?.protection?.source === 'ATR' && getVolatilityStopSettings(symbolConfig)
+      ? orders.protection
+      : getFixedProtectionDistances(symbolConfig);
+    // A TIGHTEN_TP timeout pulls the TP in for the rest of the position's life
+    return orders?.timeoutTpPercent !== undefined ? { ...protection, tpPercent: orders.timeoutTpPercent } : protection;
+  }
 
-            // Verify the position still exists
+  // SL sits at (or past) the entry after the breakeven rule or the first TP ladder fill
+  private isBreakevenStop(orders?: PositionOrders): boolean {
+    return orders?.breakevenPrice !== undefined || !!orders?.tpLadder?.breakevenActive;
+  }
+
+  // Stop loss trigger price - entry plus fees after the breakeven rule, the entry price once the first TP ladder level has filled
+  private getStopLossPrice(symbolConfig: SymbolConfig, entryPrice: number, isLong: boolean, orders?: PositionOrders): number {
+    if (orders?.breakevenPrice !== undefined) {
+      return orders.breakevenPrice;
+    }
+    if (orders?.tpLadder?.breakevenActive) {
+      return entryPrice;
+    }
+    const { slPercent } = this.getProtection(symbolConfig, orders);
+    return isLong
+      ? entryPrice * (1 - slPercent / 100)
+      : entryPrice * (1 + slPercent / 100);
+  }
+
+  private isLadderOrderAt(symbol: string, order: ExchangeOrder, price: number): boolean {
+    const levelPrice = symbolPrecision.formatPrice(symbol, price);
+    return Math.abs(parseFloat(order.stopPrice) - levelPrice) <= levelPrice * 1e-9;
+  }
+
+  // Place, adopt or re-size the TP ladder orders so the remaining levels cover the current position size
+  private async syncTakeProfitLadder(position: ExchangePosition, orders: PositionOrders, levels: TakeProfitLevel[], exchangeTpOrders: ExchangeOrder[]): Promise<void> {
+    const symbol = position.symbol;
+    const symbolConfig = this.config.symbols[symbol];
+    const posAmt = parseFloat(position.positionAmt);
+    const entryPrice = parseFloat(position.entryPrice);
+    const isLong = posAmt > 0;
+    const key = this.getPositionKey(symbol, position.positionSide, posAmt);
+    let quantity = Math.abs(posAmt);
+
+    try {
+      let ladder = orders.tpLadder;
+      if (!ladder) {
+        ladder = createTakeProfitLadder(levels, entryPrice, isLong, symbolConfig?.tpLadderBreakeven ?? true);
+
+        // After a restart, levels nearer than the first one still resting on the exchange have already been taken
+        const firstResting = ladder.levels.findIndex(level =>
+          exchangeTpOrders.some(o => this.isLadderOrderAt(symbol, o, level.price))
+        );
+        for (let i = 0; i < firstResting; i++) {
+          markLevelFilled(ladder, ladder.levels[i]);
+        }
+        orders.tpLadder = ladder;
+      } else if (Math.abs(ladder.entryPrice - entryPrice) > entryPrice * 1e-9) {
+logWithTimestamp(`PositionManager: Entry price for ${key} moved from ${ladder.entryPrice} to ${entryPrice}, re-pricing TP ladder`);
+        repriceTakeProfitLadder(ladder, entryPrice, isLong);
+      }
+
+      // A tracked level missing from the exchange was either filled or cancelled
+      for (const level of ladder.levels) {
+        if (level.filled || !level.orderId || exchangeTpOrders.some(o => o.orderId === level.orderId)) continue;
+
+        try {
+          const order = await queryOrder({ symbol, orderId: level.orderId }, this.config.api);
+          if (order.status === 'FILLED') {
+logWithTimestamp(`PositionManager: TP ladder order ${level.orderId} (+${level.percent}%) for ${key} was filled`);
+            markLevelFilled(ladder, level);
+            continue;
+          }
+        } catch (error: any) {
+logWarnWithTimestamp(`PositionManager: Could not query TP ladder order ${level.orderId}:`, error?.response?.data || error?.message);
+        }
+        delete level.orderId;
+      }
+
+      let remaining = getRemainingLevels(ladder);
+      if (remaining.length === 0) {
+logWarnWithTimestamp(`PositionManager: All TP ladder levels filled for ${key} but ${quantity} is still open`);
+        return;
+      }
+
+      const filter = symbolPrecision.getSymbolFilter(symbol) || symbolPrecision.getDefaultFilter(symbol);
+      const stepSize = parseFloat(filter.stepSize);
+      let quantities = allocateLadderQuantities(quantity, remaining.map(level => level.sizePercent), stepSize, filter.minQuantity);
+
+      const ticker = await axios.get(`${getRestBaseUrl()}/fapi/v1/ticker/price?symbol=${symbol}`);
+      const currentPrice = parseFloat(ticker.data.price);
+      const orderPositionSide = position.positionSide || 'BOTH';
+      const side = isLong ? 'SELL' : 'BUY';
+
+      // Levels the market has already passed would trigger immediately - take them at market instead
+      const passed = remaining.filter(level => isLong ? currentPrice >= level.price : currentPrice <= level.price);
+      if (passed.length > 0) {
+        const passedQty = symbolPrecision.formatQuantity(symbol, passed.reduce((sum, level) => sum + quantities[remaining.indexOf(level)], 0));
+logWithTimestamp(`PositionManager: ${symbol} already past ${passed.length} TP ladder level(s) (current: ${currentPrice}), closing ${passedQty} at market`);
+
+        if (passedQty > 0) {
+          const marketParams: any = {
+            symbol,
+            side,
+            type: 'MARKET',
+            quantity: passedQty,
+            positionSide: orderPositionSide as 'BOTH' | 'LONG' | 'SHORT',
+            newClientOrderId: `al_mtp_${symbol}_${Date.now() % 10000000000}`,
+          };
+          if (orderPositionSide === 'BOTH') {
+            marketParams.reduceOnly = true;
+          }
+
+          const marketOrder = await placeOrder(marketParams, this.config.api);
+logWithTimestamp(`PositionManager: Closed ${passedQty} ${symbol} at market for passed TP levels, orderId: ${marketOrder.orderId}`);
+          quantity = symbolPrecision.formatQuantity(symbol, quantity - passedQty);
+        }
+
+        passed.forEach(level => markLevelFilled(ladder!, level));
+        remaining = getRemainingLevels(ladder);
+        if (remaining.length === 0 || quantity <= 0) {
+          return;
+        }
+        quantities = allocateLadderQuantities(quantity, remaining.map(level => level.sizePercent), stepSize, filter.minQuantity);
+      }
+
+      // Keep the resting orders when every remaining level already has the right price and size
+      const matched = new Set<number>();
+      const inSync = passed.length === 0 && remaining.every((level, i) => {
+        if (quantities[i] <= 0) return true; // Rolled into the next level
+        const order = exchangeTpOrders.find(o =>
+          !matched.has(o.orderId) &&
+          this.isLadderOrderAt(symbol, o, level.price) &&
+          Math.abs(parseFloat(o.origQty) - quantities[i]) < 0.00000001
+        );
+        if (!order) return false;
+        matched.add(order.orderId);
+        level.orderId = order.orderId;
+        return true;
+      }) && matched.size === exchangeTpOrders.length;
+
+      if (inSync) {
+logWithTimestamp(`PositionManager: TP ladder for ${key} is in sync (${matched.size} order(s))`);
+        return;
+      }
+
+      for (const order of exchangeTpOrders) {
+        await this.cancelOrderWithRetry(symbol, order.orderId, 'TP ladder');
+      }
+      remaining.forEach(level => delete level.orderId);
+
+      for (let i = 0; i < remaining.length; i++) {
+        const level = remaining[i];
+        if (quantities[i] <= 0) continue;
+
+        const levelNumber = ladder.levels.indexOf(level) + 1;
+        const tpPrice = symbolPrecision.formatPrice(symbol, level.price);
+        const tpParams: any = {
+          symbol,
+          side,
+          type: 'TAKE_PROFIT_MARKET',
+          quantity: quantities[i],
+          stopPrice: tpPrice,
+          positionSide: orderPositionSide as 'BOTH' | 'LONG' | 'SHORT',
+          newClientOrderId: `al_tp_${symbol}_L${levelNumber}_${Date.now() % 10000000000}`,
+        };
+        if (orderPositionSide === 'BOTH') {
+          tpParams.reduceOnly = true;
+        }
+
+        const tpOrder = await placeOrder(tpParams, this.config.api);
+        level.orderId = typeof tpOrder.orderId === 'string' ? parseInt(tpOrder.orderId) : tpOrder.orderId;
+logWithTimestamp(`PositionManager: Placed TP ladder level ${levelNumber} for ${symbol} at ${tpPrice} (+${level.percent}%), qty: ${quantities[i]}, orderId: ${tpOrder.orderId}`);
+
+        if (this.statusBroadcaster) {
+          this.statusBroadcaster.broadcastTakeProfitPlaced({
+            symbol,
+            price: tpPrice,
+            quantity: quantities[i],
+            orderId: tpOrder.orderId?.toString(),
+          });
+        }
+      }
+    } catch (error: any) {
+      const errorMsg = error.response?.data?.msg || error.message || 'Unknown error';
+logErrorWithTimestamp(`PositionManager: Failed to sync TP ladder for ${symbol}:`, error.response?.data || error.message);
+
+      await errorLogger.logTradingError(
+        'syncTakeProfitLadder',
+        symbol,
+        error instanceof Error ? error : new Error(errorMsg),
+        {
+          entryPrice,
+          quantity,
+          isLong,
+          levels,
+          errorCode: error.response?.data?.code,
+          errorDetails: error.response?.data
+        }
+      );
+    }
+  }
+
+  // Calculate simulated SL/TP and trailing stop levels for a paper position
+  private setPaperProtectiveLevels(orders: PositionOrders, symbolConfig: SymbolConfig, entryPrice: number, isLong: boolean): void {
+    const ladderLevels = getTakeProfitLadder(symbolConfig);
+    if (ladderLevels && orders.tpLadder) {
+      // Scale-in moved the average entry - keep filled levels and booked PnL
+      repriceTakeProfitLadder(orders.tpLadder, entryPrice, isLong);
+    } else if (ladderLevels) {
+      orders.tpLadder = createTakeProfitLadder(ladderLevels, entryPrice, isLong, symbolConfig.tpLadderBreakeven ?? true);
+    } else {
+      delete orders.tpLadder;
+    }
+
+    orders.slPrice = this.getStopLossPrice(symbolConfig, entryPrice, isLong, orders);
+
+    if (ladderLevels) {
+      delete orders.tpPrice;
+    } else if (usesFixedTakeProfit(symbolConfig)) {
+      const { tpPercent } = this.getProtection(symbolConfig, orders);
+      orders.tpPrice = isLong
+        ? entryPrice * (1 + tpPercent / 100)
+        : entryPrice * (1 - tpPercent / 100);
+    } else {
+      delete orders.tpPrice;
+    }
+
+    const trailingSettings = getTrailingStopSettings(symbolConfig);
+    if (trailingSettings) {
+      orders.trailingStop = createTrailingStopState(entryPrice, isLong, trailingSettings);
+    } else {
+      delete orders.trailingStop;
+    }
+  }
+
+  private async checkRisk(): Promise<void> {
+    // Check total PnL
+    // Simplified: assume some PnL calculation
+    // If unrealized PnL < -risk * balance, close all positions
+    // Implementation depends on balance query
+
+logWithTimestamp(`PositionManager: Risk check complete`);
+  }
+
+  // Clean up orphaned orders (orders for symbols without active positions) and duplicates
+  private async cleanupOrphanedOrders(): Promise<void> {
+    try {
+logWithTimestamp('PositionManager: Checking for orphaned and duplicate orders...');
+
+      const openOrders = await this.getOpenOrdersFromExchange();
+      const positions = await this.getPositionsFromExchange();
+
+      // Create map of active positions with their position details
+      const activePositions = new Map<string, { symbol: string; positionAmt: number; positionSide: string }>();
+
+      // Create a more detailed position tracking structure
+      const symbolPositionDetails = new Map<string, { long: boolean; short: boolean; amounts: number[] }>();
+
+      for (const position of positions) {
+        const posAmt = parseFloat(position.positionAmt);
+        if (Math.abs(posAmt) > 0) {
+          const key = this.getPositionKey(position.symbol, position.positionSide, posAmt);
+          activePositions.set(key, {
+            symbol: position.symbol,
+            positionAmt: posAmt,
+            positionSide: position.positionSide
+          });
+
+          // Track position details per symbol
+          if (!symbolPositionDetails.has(position.symbol)) {
+            symbolPositionDetails.set(position.symbol, { long: false, short: false, amounts: [] });
+          }
+          const details = symbolPositionDetails.get(position.symbol)!;
+          details.amounts.push(posAmt);
+          if (posAmt > 0) details.long = true;
+          if (posAmt < 0) details.short = true;
+        }
+      }
+
+      const _activeSymbols = new Set(Array.from(activePositions.values()).map(p => p.symbol));
+
+      // Find orphaned orders (reduce-only orders without matching positions)
+      // Enhanced check considers order quantity matching
+      const orphanedOrders = openOrders.filter(order => {
+        if (!order.reduceOnly) return false;
+
+        const symbolDetails = symbolPositionDetails.get(order.symbol);
+
+        // If symbol has no positions at all, it's orphaned
+        if (!symbolDetails) {
+          const isBotOrder = order.clientOrderId &&
+            /^al_(sl|be|tp|tt|ts)_/.test(order.clientOrderId);
+logWithTimestamp(`PositionManager: Found orphaned ${order.type} order for ${order.symbol} (no position) - OrderId: ${order.orderId}, ClientOrderId: ${order.clientOrderId || 'none'}, Bot order: ${isBotOrder ? 'yes' : 'no'}`);
+          return true;
+        }
+
+        // Check if order matches any position direction
+        // SELL reduce-only orders close LONG positions
+        // BUY reduce-only orders close SHORT positions
+        const orderMatchesPosition =
+          (order.side === 'SELL' && symbolDetails.long) ||
+          (order.side === 'BUY' && symbolDetails.short);
+
+        if (!orderMatchesPosition) {
+logWithTimestamp(`PositionManager: Found orphaned ${order.type} order for ${order.symbol} (direction mismatch) - OrderId: ${order.orderId}, Side: ${order.side}, Has Long: ${symbolDetails.long}, Has Short: ${symbolDetails.short}`);
+          return true;
+        }
+
+        // Check if this order is tracked by any position
+        const orderQty = parseFloat(order.origQty);
+        let isTracked = false;
+
+        for (const [key, trackedOrders] of this.positionOrders.entries()) {
+          if (this.isTrackedOrder(trackedOrders, order.orderId)) {
+            isTracked = true;
+
+            // Verify the position still exists
             const position = this.currentPositions.get(key);
             if (!position) {
 logWithTimestamp(`PositionManager: Order ${order.orderId} tracked for non-existent position ${key} - marking as orphaned`);
               return true;
             }
 
-            // Verify quantity still matches
+            // Verify quantity still matches (ladder levels hold part of the position by design)
             const posQty = Math.abs(parseFloat(position.positionAmt));
-            if (Math.abs(orderQty - posQty) > 0.00000001) {
+            const isLadderOrder = !!trackedOrders.tpLadder?.levels.some(level => level.orderId === order.orderId);
+            if (!isLadderOrder && Math.abs(orderQty - posQty) > 0.00000001) {
 logWithTimestamp(`PositionManager: Order ${order.orderId} quantity mismatch - Order: ${orderQty}, Position: ${posQty}`);
               // Don't mark as orphaned here, it will be handled by adjustment logic
             }
@@ -2215,14 +3027,14 @@ logWithTimestamp(`PositionManager: Found stuck entry order for ${order.symbol} -
       const duplicateOrders: ExchangeOrder[] = [];
 
       // Group orders by symbol and type for better duplicate detection
-      const ordersBySymbolAndType = new Map<string, { sl: ExchangeOrder[]; tp: ExchangeOrder[] }>();
+      const ordersBySymbolAndType = new Map<string, { sl: ExchangeOrder[]; tp: ExchangeOrder[]; trailing: ExchangeOrder[] }>();
 
       for (const [key, positionData] of activePositions) {
         const { symbol, positionAmt } = positionData;
 
         // Initialize order tracking for this symbol if needed
         if (!ordersBySymbolAndType.has(symbol)) {
-          ordersBySymbolAndType.set(symbol, { sl: [], tp: [] });
+          ordersBySymbolAndType.set(symbol, { sl: [], tp: [], trailing: [] });
         }
 
         // Find all SL orders for this specific position
@@ -2259,10 +3071,19 @@ logWithTimestamp(`PositionManager: Evaluating TP order ${o.orderId} for position
           return true;
         });
 
+        // Find all trailing stop orders for this specific position
+        const trailingOrders = openOrders.filter(o =>
+          o.symbol === symbol &&
+          o.type === 'TRAILING_STOP_MARKET' &&
+          o.reduceOnly &&
+          ((positionAmt > 0 && o.side === 'SELL') || (positionAmt < 0 && o.side === 'BUY'))
+        );
+
         // Track orders for this symbol
         const symbolOrders = ordersBySymbolAndType.get(symbol)!;
         symbolOrders.sl.push(...slOrders);
         symbolOrders.tp.push(...tpOrders);
+        symbolOrders.trailing.push(...trailingOrders);
 
         // Mark duplicates for cancellation (keep first, cancel rest)
         if (slOrders.length > 1) {
@@ -2272,12 +3093,27 @@ logWithTimestamp(`PositionManager: Found ${slOrders.length} SL orders for positi
           duplicateOrders.push(...slOrders.slice(1));
         }
 
-        if (tpOrders.length > 1) {
+        if (tpOrders.length > 1 && getTakeProfitLadder(this.config.symbols[symbol])) {
+          // A ladder has one TP order per level - only untracked extras that over-cover the position are duplicates
+          const ladder = this.positionOrders.get(key)?.tpLadder;
+          const untracked = tpOrders.filter(o => !ladder?.levels.some(level => level.orderId === o.orderId && !level.filled));
+          const totalQty = tpOrders.reduce((sum, o) => sum + parseFloat(o.origQty), 0);
+          if (ladder && untracked.length > 0 && totalQty - Math.abs(positionAmt) > 0.00000001) {
+logWithTimestamp(`PositionManager: Found ${untracked.length} untracked TP orders beyond the ladder for position ${key} (${symbol}), marking for cancellation`);
+            duplicateOrders.push(...untracked);
+          }
+        } else if (tpOrders.length > 1) {
 logWithTimestamp(`PositionManager: Found ${tpOrders.length} TP orders for position ${key} (${symbol}), marking ${tpOrders.length - 1} for cancellation`);
           // Sort by order ID to ensure consistent behavior
           tpOrders.sort((a, b) => a.orderId - b.orderId);
           duplicateOrders.push(...tpOrders.slice(1));
         }
+
+        if (trailingOrders.length > 1) {
+logWithTimestamp(`PositionManager: Found ${trailingOrders.length} trailing stop orders for position ${key} (${symbol}), marking ${trailingOrders.length - 1} for cancellation`);
+          trailingOrders.sort((a, b) => a.orderId - b.orderId);
+          duplicateOrders.push(...trailingOrders.slice(1));
+        }
       }
 
       // Cancel orphaned orders
@@ -2465,15 +3301,17 @@ logWithTimestamp(`PositionManager: WARNING - No valid mark price available for $
           continue;
         }
 
-        // Check if position has exceeded TP target
-        const tpPercent = symbolConfig.tpPercent || 0.5;
+        // Check if position has exceeded TP target (not when a trailing stop replaces the TP)
+        // With a ladder the intermediate levels are resting orders, only the final level closes everything
+        const ladderLevels = getTakeProfitLadder(symbolConfig);
+        const tpPercent = ladderLevels ? ladderLevels[ladderLevels.length - 1].percent : (this.getProtection(symbolConfig, this.positionOrders.get(key)).tpPercent || 0.5);
         const targetTP = isLong
           ? entryPrice * (1 + tpPercent / 100)
           : entryPrice * (1 - tpPercent / 100);
 
-        const pastTP = isLong
+        const pastTP = usesFixedTakeProfit(symbolConfig) && (isLong
           ? markPrice >= targetTP
-          : markPrice <= targetTP;
+          : markPrice <= targetTP);
 
         if (pastTP) {
           // Validate entry price before calculating PnL
@@ -2560,6 +3398,23 @@ logWarnWithTimestamp(`PositionManager: Tracked TP order ${trackedOrders.tpOrderI
             }
           }
 
+          // Verify trailing stop order exists
+          if (trackedOrders.trailingOrderId) {
+            const trailingExists = symbolOrders.some(o => o.orderId === trackedOrders.trailingOrderId);
+            if (!trailingExists) {
+logWarnWithTimestamp(`PositionManager: Tracked trailing stop order ${trackedOrders.trailingOrderId} not found on exchange for ${key}`);
+              trackedOrders.trailingOrderId = undefined;
+              needsUpdate = true;
+            }
+          }
+
+          // Missing ladder levels are resolved (filled or re-placed) by syncTakeProfitLadder
+          for (const level of trackedOrders.tpLadder?.levels || []) {
+            if (level.orderId && !level.filled && !symbolOrders.some(o => o.orderId === level.orderId)) {
+logWarnWithTimestamp(`PositionManager: Tracked TP ladder order ${level.orderId} not found on exchange for ${key}`);
+            }
+          }
+
           if (needsUpdate) {
             this.positionOrders.set(key, trackedOrders);
           }
@@ -2573,12 +3428,20 @@ logWarnWithTimestamp(`PositionManager: Tracked TP order ${trackedOrders.tpOrderI
           ((posAmt > 0 && o.side === 'SELL') || (posAmt < 0 && o.side === 'BUY'))
         );
 
-        const tpOrder = openOrders.find(o =>
+        const tpOrders = openOrders.filter(o =>
           o.symbol === symbol &&
           (o.type === 'TAKE_PROFIT_MARKET' || o.type === 'TAKE_PROFIT' || o.type === 'LIMIT') &&
           o.reduceOnly &&
           ((posAmt > 0 && o.side === 'SELL') || (posAmt < 0 && o.side === 'BUY'))
         );
+        const tpOrder = tpOrders[0];
+
+        const trailingOrder = openOrders.find(o =>
+          o.symbol === symbol &&
+          o.type === 'TRAILING_STOP_MARKET' &&
+          o.reduceOnly &&
+          ((posAmt > 0 && o.side === 'SELL') || (posAmt < 0 && o.side === 'BUY'))
+        );
 
         let needsAdjustment = false;
 
@@ -2591,8 +3454,15 @@ logWithTimestamp(`PositionManager: [Periodic Check] SL order ${slOrder.orderId}
           }
         }
 
-        // Check if TP order quantity matches
-        if (tpOrder) {
+        // Check if TP order quantity matches (ladder levels must add up to the position)
+        if (ladderLevels && tpOrders.length > 0) {
+          const ladderQty = tpOrders.reduce((sum, o) => sum + parseFloat(o.origQty), 0);
+          const untrackedLevel = tpOrders.some(o => !trackedOrders?.tpLadder?.levels.some(level => level.orderId === o.orderId));
+          if (Math.abs(ladderQty - positionQty) > 0.00000001 || untrackedLevel) {
+logWithTimestamp(`PositionManager: [Periodic Check] TP ladder out of sync for ${key} - Orders: ${tpOrders.length} (qty: ${ladderQty}), Position: ${positionQty}`);
+            needsAdjustment = true;
+          }
+        } else if (tpOrder) {
           const tpOrderQty = parseFloat(tpOrder.origQty);
           if (Math.abs(tpOrderQty - positionQty) > 0.00000001) {
 logWithTimestamp(`PositionManager: [Periodic Check] TP order ${tpOrder.orderId} quantity mismatch - Order: ${tpOrderQty}, Position: ${positionQty}`);
@@ -2600,15 +3470,26 @@ logWithTimestamp(`PositionManager: [Periodic Check] TP order ${tpOrder.orderId}
           }
         }
 
+        // Check if trailing stop order quantity matches
+        if (trailingOrder) {
+          const trailingOrderQty = parseFloat(trailingOrder.origQty);
+          if (Math.abs(trailingOrderQty - positionQty) > 0.00000001) {
+logWithTimestamp(`PositionManager: [Periodic Check] Trailing stop order ${trailingOrder.orderId} quantity mismatch - Order: ${trailingOrderQty}, Position: ${positionQty}`);
+            needsAdjustment = true;
+          }
+        }
+
+        const hasTakeProfit = this.hasTakeProfitProtection(symbolConfig, !!tpOrder, !!trailingOrder);
+
         // Adjust if needed
         if (needsAdjustment) {
-          await this.adjustProtectiveOrders(position, slOrder, tpOrder);
-        } else if (!slOrder || !tpOrder) {
+          await this.adjustProtectiveOrders(position, slOrder, tpOrder, trailingOrder);
+        } else if (!slOrder || !hasTakeProfit) {
           // Enhanced logging for missing protection
-          if (!slOrder && !tpOrder) {
+          if (!slOrder && !tpOrder && !trailingOrder) {
 logWithTimestamp(`PositionManager: [CRITICAL] Position ${key} has NO protective orders! Re-placing both SL and TP immediately`);
           } else {
-logWithTimestamp(`PositionManager: [Periodic Check] Position ${key} missing protection (SL: ${!!slOrder}, TP: ${!!tpOrder})`);
+logWithTimestamp(`PositionManager: [Periodic Check] Position ${key} missing protection (SL: ${!!slOrder}, TP: ${!!tpOrder}, Trailing: ${!!trailingOrder})`);
           }
 
           // Check if we have tracking for this position
@@ -2618,7 +3499,7 @@ logWithTimestamp(`PositionManager: Creating new order tracking for position ${ke
             this.positionOrders.set(key, {});
           }
 
-          await this.placeProtectiveOrdersWithLock(key, position, !slOrder, !tpOrder);
+          await this.placeProtectiveOrdersWithLock(key, position, !slOrder, !hasTakeProfit);
         }
       }
     } catch (error: any) {
@@ -2681,8 +3562,15 @@ logWithTimestamp(`PositionManager: Checking orders for position ${positionKey} (
         ((posAmt > 0 && o.side === 'SELL') || (posAmt < 0 && o.side === 'BUY'))
       );
 
+      const trailingOrder = openOrders.find(o =>
+        o.symbol === symbol &&
+        o.type === 'TRAILING_STOP_MARKET' &&
+        o.reduceOnly &&
+        ((posAmt > 0 && o.side === 'SELL') || (posAmt < 0 && o.side === 'BUY'))
+      );
+
       // Always adjust orders when position size changes
-      await this.adjustProtectiveOrders(position, slOrder, tpOrder);
+      await this.adjustProtectiveOrders(position, slOrder, tpOrder, trailingOrder);
     } catch (error: any) {
 logErrorWithTimestamp('PositionManager: Error checking orders for position %s:', positionKey, error?.response?.data || error?.message);
       // Log to error database
@@ -2742,7 +3630,6 @@ logWarnWithTimestamp(`PositionManager: Position ${symbol} ${side} not found`);
     const closeSide = posAmt > 0 ? 'SELL' : 'BUY';
     const entryPrice = parseFloat(targetPosition.entryPrice);
     const markPrice = parseFloat(targetPosition.markPrice);
-    const pnl = parseFloat(targetPosition.unRealizedProfit);
 
     if (!this.config.global.paperMode) {
       await placeOrder({
@@ -2755,9 +3642,13 @@ logWarnWithTimestamp(`PositionManager: Position ${symbol} ${side} not found`);
         ...(targetPosition.positionSide === 'BOTH' ? { reduceOnly: true } : {}),
       }, this.config.api);
     } else {
-      // Close paper trade in database
-      const pnlPercent = entryPrice > 0 ? (pnl / (quantity * entryPrice)) * 100 : 0;
-      await this.closePaperTrade(targetKey, markPrice, pnl, pnlPercent, 'Manual close');
+      // Close paper trade in database at a simulated market fill, net of fees
+      const exit = this.recordPaperExit(targetKey, targetPosition, { type: 'MARKET', reason: 'Manual close', triggerPrice: markPrice, markPrice, quantity });
+      const exitPnl = posAmt > 0 ? (exit.price - entryPrice) * quantity : (entryPrice - exit.price) * quantity;
+      const netPnl = exitPnl + (orders?.tpLadder?.realizedPnl || 0) - (this.paperExecutions.get(targetKey)?.fees || 0);
+      const pnlPercent = entryPrice > 0 ? (netPnl / (quantity * entryPrice)) * 100 : 0;
+      await this.savePaperExecution(targetKey);
+      await this.closePaperTrade(targetKey, exit.price, netPnl, pnlPercent, 'Manual close');
     }
 
     // Remove from our maps (will be confirmed by ACCOUNT_UPDATE)
@@ -2782,6 +3673,27 @@ logWithTimestamp(`PositionManager: Closed position ${symbol} ${side}`);
     this.refreshBalance();
   }
 
+  // Close every open position (used by the risk kill switch)
+  public async closeAllPositions(reason: string): Promise<number> {
+    const openPositions = Array.from(this.currentPositions.values())
+      .filter(position => Math.abs(parseFloat(position.positionAmt)) > 0);
+
+logWarnWithTimestamp(`PositionManager: Closing all ${openPositions.length} open positions - ${reason}`);
+
+    let closed = 0;
+    for (const position of openPositions) {
+      const side = parseFloat(position.positionAmt) > 0 ? 'LONG' : 'SHORT';
+      try {
+        await this.closePosition(position.symbol, side);
+        closed++;
+      } catch (error) {
+logErrorWithTimestamp(`PositionManager: Failed to close ${position.symbol} ${side} while flattening:`, error);
+      }
+    }
+
+    return closed;
+  }
+
   // Get current positions for API/UI
   public getPositions(): ExchangePosition[] {
     return Array.from(this.currentPositions.values());
@@ -2889,9 +3801,416 @@ logErrorWithTimestamp('PositionManager: Failed to refresh balance:', error);
     return this.currentPositions;
   }
 
+  // Breakeven and max hold time rules for live positions, checked against the streamed mark price
+  private async checkExitRules(): Promise<void> {
+    if (this.config.global.paperMode || this.currentPositions.size === 0) {
+      return;
+    }
+
+    const priceService = getPriceService();
+
+    for (const [key, position] of this.currentPositions.entries()) {
+      const symbol = position.symbol;
+      const exitRules = getExitRuleSettings(this.config.symbols[symbol]);
+      const orders = this.positionOrders.get(key);
+      if (!exitRules || !orders || this.orderPlacementLocks.has(key)) {
+        continue;
+      }
+
+      const posAmt = parseFloat(position.positionAmt);
+      const entryPrice = parseFloat(position.entryPrice);
+      const markPrice = parseFloat(priceService?.getMarkPrice(symbol)?.markPrice || '0');
+      if (posAmt === 0 || !(entryPrice > 0) || !(markPrice > 0)) {
+        continue;
+      }
+
+      const isLong = posAmt > 0;
+      const openedAt = exitRules.timeout && !orders.timedOut ? await this.getPositionOpenedAt(key, position) : null;
+      const decision = evaluateExitRules(exitRules, { entryPrice, markPrice, isLong, openedAt }, orders);
+      if (!decision.moveToBreakeven && !decision.timeout) {
+        continue;
+      }
+
+      this.orderPlacementLocks.add(key);
+      try {
+        // Ladders and trailing-only exits have no single TP order to tighten - keep their exits rather than flatten
+        let timeout = decision.timeout;
+        if (timeout && exitRules.timeout?.action === 'TIGHTEN_TP' && !orders.tpOrderId) {
+          orders.timedOut = true;
+          timeout = undefined;
+logWarnWithTimestamp(`PositionManager: ${key} reached its max hold time but has no single TP order to tighten (TP ladder or trailing stop), leaving its exits in place`);
+        }
+
+        if (timeout === 'CLOSE') {
+          await this.closePositionOnTimeout(position, orders, markPrice, decision);
+          continue;
+        }
+        if (decision.moveToBreakeven) {
+          await this.moveStopToBreakeven(position, orders, decision.breakevenPrice!);
+        }
+        if (timeout === 'TIGHTEN_TP') {
+          await this.tightenTakeProfit(position, orders, decision);
+        }
+      } catch (error: any) {
+logErrorWithTimestamp(`PositionManager: Failed to apply exit rules for ${key}:`, error?.response?.data || error?.message);
+        await errorLogger.logTradingError(
+          'applyExitRules',
+          symbol,
+          error instanceof Error ? error : new Error(error?.response?.data?.msg || String(error)),
+          {
+            entryPrice,
+            markPrice,
+            moveToBreakeven: decision.moveToBreakeven,
+            timeout: decision.timeout,
+            errorDetails: error?.response?.data
+          }
+        );
+      } finally {
+        this.orderPlacementLocks.delete(key);
+      }
+    }
+  }
+
+  // When a position was opened - the trade journal in live mode, the paper trade record in paper mode
+  private async getPositionOpenedAt(key: string, position: ExchangePosition): Promise<number | null> {
+    if (this.config.global.paperMode) {
+      const tradeId = this.paperTradeIds.get(key);
+      const trade = tradeId ? await paperTradeDb.getTrade(tradeId) : null;
+      return trade?.opened_at ?? null;
+    }
+    const direction = parseFloat(position.positionAmt) > 0 ? 'LONG' : 'SHORT';
+    return tradeJournal.getOpenTrade(position.symbol, direction)?.opened_at ?? null;
+  }
+
+  // Place a stop at entry plus fees, then cancel the old one so the position is never unprotected
+  private async moveStopToBreakeven(position: ExchangePosition, orders: PositionOrders, breakevenPrice: number): Promise<void> {
+    const symbol = position.symbol;
+    const posAmt = parseFloat(position.positionAmt);
+    const quantity = Math.abs(posAmt);
+    const orderPositionSide = position.positionSide || 'BOTH';
+    const previousSlOrderId = orders.slOrderId;
+    const stopPrice = symbolPrecision.formatPrice(symbol, breakevenPrice);
+
+    const orderParams: any = {
+      symbol,
+      side: posAmt > 0 ? 'SELL' : 'BUY',
+      type: 'STOP_MARKET',
+      quantity: symbolPrecision.formatQuantity(symbol, quantity),
+      stopPrice,
+      positionSide: orderPositionSide as 'BOTH' | 'LONG' | 'SHORT',
+      newClientOrderId: `al_be_${symbol}_${Date.now() % 10000000000}`,
+    };
+    if (orderPositionSide === 'BOTH') {
+      orderParams.reduceOnly = true;
+    }
+
+    const slOrder = await placeOrder(orderParams, this.config.api);
+    orders.slOrderId = typeof slOrder.orderId === 'string' ? parseInt(slOrder.orderId) : slOrder.orderId;
+    orders.breakevenPrice = breakevenPrice;
+logWithTimestamp(`PositionManager: Moved SL to breakeven for ${symbol} at ${stopPrice} (entry ${position.entryPrice}), orderId: ${slOrder.orderId}`);
+
+    if (previousSlOrderId) {
+      await this.cancelOrderWithRetry(symbol, previousSlOrderId, 'SL');
+    }
+
+    if (this.statusBroadcaster) {
+      this.statusBroadcaster.broadcastStopLossPlaced({
+        symbol,
+        price: stopPrice,
+        quantity,
+        orderId: slOrder.orderId?.toString(),
+        distancePercent: 0,
+      });
+    }
+  }
+
+  // Replace the TP with one at the tightened distance after a TIGHTEN_TP timeout
+  private async tightenTakeProfit(position: ExchangePosition, orders: PositionOrders, decision: ExitRuleDecision): Promise<void> {
+    const symbol = position.symbol;
+    const posAmt = parseFloat(position.positionAmt);
+    const quantity = Math.abs(posAmt);
+    const orderPositionSide = position.positionSide || 'BOTH';
+    const previousTpOrderId = orders.tpOrderId;
+    const tpPrice = symbolPrecision.formatPrice(symbol, decision.tightenedTpPrice!);
+    const tpPercent = getExitRuleSettings(this.config.symbols[symbol])!.timeout!.tightenedTpPercent;
+
+    const tpParams: any = {
+      symbol,
+      side: posAmt > 0 ? 'SELL' : 'BUY',
+      type: 'TAKE_PROFIT_MARKET',
+      quantity: symbolPrecision.formatQuantity(symbol, quantity),
+      stopPrice: tpPrice,
+      positionSide: orderPositionSide as 'BOTH' | 'LONG' | 'SHORT',
+      newClientOrderId: `al_tt_${symbol}_${Date.now() % 10000000000}`,
+    };
+    if (orderPositionSide === 'BOTH') {
+      tpParams.reduceOnly = true;
+    }
+
+    const tpOrder = await placeOrder(tpParams, this.config.api);
+    orders.tpOrderId = typeof tpOrder.orderId === 'string' ? parseInt(tpOrder.orderId) : tpOrder.orderId;
+    orders.timedOut = true;
+    orders.timeoutTpPercent = tpPercent;
+logWithTimestamp(`PositionManager: ${symbol} open for ${decision.heldMinutes!.toFixed(0)} min, tightened TP to ${tpPrice} (${tpPercent}%), orderId: ${tpOrder.orderId}`);
+
+    if (previousTpOrderId) {
+      await this.cancelOrderWithRetry(symbol, previousTpOrderId, 'TP');
+    }
+
+    if (this.statusBroadcaster) {
+      this.statusBroadcaster.broadcastTakeProfitPlaced({
+        symbol,
+        price: tpPrice,
+        quantity,
+        orderId: tpOrder.orderId?.toString(),
+        distancePercent: tpPercent,
+      });
+    }
+  }
+
+  // Close a position at market once it has been open longer than maxHoldMinutes
+  private async closePositionOnTimeout(position: ExchangePosition, orders: PositionOrders, markPrice: number, decision: ExitRuleDecision): Promise<void> {
+    const symbol = position.symbol;
+    const posAmt = parseFloat(position.positionAmt);
+    const isLong = posAmt > 0;
+    const quantity = Math.abs(posAmt);
+    const orderPositionSide = position.positionSide || 'BOTH';
+
+    const marketParams: any = {
+      symbol,
+      side: isLong ? 'SELL' : 'BUY',
+      type: 'MARKET',
+      quantity: symbolPrecision.formatQuantity(symbol, quantity),
+      positionSide: orderPositionSide as 'BOTH' | 'LONG' | 'SHORT',
+      newClientOrderId: `al_to_${symbol}_${Date.now() % 10000000000}`,
+    };
+    if (orderPositionSide === 'BOTH') {
+      marketParams.reduceOnly = true;
+    }
+
+    const marketOrder = await placeOrder(marketParams, this.config.api);
+    orders.timedOut = true;
+logWithTimestamp(`PositionManager: ${symbol} open for ${decision.heldMinutes!.toFixed(0)} min, closed at market (timeout). Order ID: ${marketOrder.orderId}, PnL: ~${decision.profitPercent.toFixed(2)}%`);
+
+    if (this.statusBroadcaster) {
+      this.statusBroadcaster.broadcastPositionClosed({
+        symbol,
+        side: isLong ? 'LONG' : 'SHORT',
+        quantity,
+        pnl: decision.profitPercent * quantity * markPrice / 100,
+        reason: `Timeout (open ${decision.heldMinutes!.toFixed(0)} min)`,
+      });
+    }
+  }
+
+  // Distance to liquidation for live positions: alert at the warning distance, reduce or add margin at the critical one
+  private async checkLiquidationRisk(): Promise<void> {
+    // Margin added counts for the life of a position - forget positions that are gone
+    for (const key of this.liquidationRisk.keys()) {
+      if (!this.currentPositions.has(key)) {
+        this.liquidationRisk.delete(key);
+      }
+    }
+
+    const settings = getLiquidationGuardSettings(this.config.global.liquidationGuard);
+    if (!settings || this.config.global.paperMode || this.currentPositions.size === 0) {
+      return;
+    }
+
+    await this.refreshLiquidationPrices();
+    const priceService = getPriceService();
+    const now = Date.now();
+
+    for (const [key, position] of this.currentPositions.entries()) {
+      const symbol = position.symbol;
+      const posAmt = parseFloat(position.positionAmt);
+      if (posAmt === 0 || this.orderPlacementLocks.has(key)) {
+        continue;
+      }
+
+      const isLong = posAmt > 0;
+      const markPrice = parseFloat(priceService?.getMarkPrice(symbol)?.markPrice || position.markPrice || '0');
+      const liquidationPrice = parseFloat(position.liquidationPrice || '0');
+      const state = this.liquidationRisk.get(key) || {};
+      const decision = evaluateLiquidationRisk(settings, {
+        markPrice,
+        liquidationPrice,
+        quantity: Math.abs(posAmt),
+        isLong,
+        isolated: position.marginType?.toLowerCase() === 'isolated'
+      }, state, now);
+
+      if (!decision) {
+        continue;
+      }
+      if (decision.level === 'SAFE') {
+        // Back out of danger - alerts start over, the margin already added still counts against the cap
+        if (state.marginAdded) {
+          this.liquidationRisk.set(key, { marginAdded: state.marginAdded });
+        } else {
+          this.liquidationRisk.delete(key);
+        }
+        continue;
+      }
+
+      if (decision.alert) {
+        state.level = decision.level;
+        state.alertedAt = now;
+        this.reportLiquidationRisk({
+          symbol,
+          side: isLong ? 'LONG' : 'SHORT',
+          level: decision.level,
+          distancePercent: decision.distancePercent,
+          markPrice,
+          liquidationPrice,
+          message: `Mark price ${markPrice} is ${decision.distancePercent.toFixed(2)}% from liquidation at ${liquidationPrice}`,
+        });
+      }
+
+      if (decision.action) {
+        state.actedAt = now;
+        this.orderPlacementLocks.add(key);
+        try {
+          await this.applyLiquidationGuardAction(position, decision, markPrice, liquidationPrice);
+          if (decision.action === 'ADD_MARGIN') {
+            state.marginAdded = (state.marginAdded || 0) + decision.marginToAdd!;
+          }
+          // Pick up the new liquidation price on the next check
+          this.liquidationPricesRefreshedAt = 0;
+        } catch (error: any) {
+logErrorWithTimestamp(`PositionManager: Liquidation guard ${decision.action} failed for ${key}:`, error?.response?.data || error?.message);
+          await errorLogger.logTradingError(
+            'liquidationGuard',
+            symbol,
+            error instanceof Error ? error : new Error(error?.response?.data?.msg || String(error)),
+            {
+              action: decision.action,
+              markPrice,
+              liquidationPrice,
+              distancePercent: decision.distancePercent,
+              errorDetails: error?.response?.data
+            }
+          );
+        } finally {
+          this.orderPlacementLocks.delete(key);
+        }
+      }
+
+      this.liquidationRisk.set(key, state);
+    }
+  }
+
+  // ACCOUNT_UPDATE does not always carry the liquidation price, so refresh it from positionRisk
+  private async refreshLiquidationPrices(): Promise<void> {
+    const missing = [...this.currentPositions.values()].some(position => !(parseFloat(position.liquidationPrice) > 0));
+    if (Date.now() - this.liquidationPricesRefreshedAt < (missing ? 15 * 1000 : 60 * 1000)) {
+      return;
+    }
+    this.liquidationPricesRefreshedAt = Date.now();
+
+    try {
+      const positions = await this.getPositionsFromExchange();
+      for (const pos of positions) {
+        const posAmt = parseFloat(pos.positionAmt);
+        if (posAmt === 0) continue;
+
+        const current = this.currentPositions.get(this.getPositionKey(pos.symbol, pos.positionSide || 'BOTH', posAmt));
+        if (current) {
+          current.liquidationPrice = pos.liquidationPrice;
+          current.marginType = pos.marginType;
+          current.isolatedMargin = pos.isolatedMargin;
+        }
+      }
+    } catch (error: any) {
+logWarnWithTimestamp('PositionManager: Failed to refresh liquidation prices:', error?.response?.data || error?.message);
+    }
+  }
+
+  // Add isolated margin, or close part of the position at market with an al_dl_ (deleverage) order
+  private async applyLiquidationGuardAction(position: ExchangePosition, decision: LiquidationRiskDecision, markPrice: number, liquidationPrice: number): Promise<void> {
+    const symbol = position.symbol;
+    const posAmt = parseFloat(position.positionAmt);
+    const isLong = posAmt > 0;
+    const orderPositionSide = (position.positionSide || 'BOTH') as 'BOTH' | 'LONG' | 'SHORT';
+    const report = (message: string) => this.reportLiquidationRisk({
+      symbol,
+      side: isLong ? 'LONG' : 'SHORT',
+      level: 'CRITICAL',
+      distancePercent: decision.distancePercent,
+      markPrice,
+      liquidationPrice,
+      message,
+    });
+
+    if (decision.action === 'ADD_MARGIN') {
+      await modifyIsolatedMargin({ symbol, amount: decision.marginToAdd!, type: 1, positionSide: orderPositionSide }, this.config.api);
+logWithTimestamp(`PositionManager: Added ${decision.marginToAdd!.toFixed(2)} USDT isolated margin to ${symbol} (${decision.distancePercent.toFixed(2)}% from liquidation)`);
+      report(`Added $${decision.marginToAdd!.toFixed(2)} isolated margin (${decision.distancePercent.toFixed(2)}% from liquidation)`);
+      this.refreshBalance();
+      return;
+    }
+
+    // Round down to the step size; a remainder below one step closes the whole position
+    let quantity = symbolPrecision.formatQuantity(symbol, decision.reduceQuantity!);
+    if (!(quantity > 0)) {
+      quantity = symbolPrecision.formatQuantity(symbol, Math.abs(posAmt));
+    }
+
+    const marketParams: any = {
+      symbol,
+      side: isLong ? 'SELL' : 'BUY',
+      type: 'MARKET',
+      quantity,
+      positionSide: orderPositionSide,
+      newClientOrderId: `al_dl_${symbol}_${Date.now() % 10000000000}`,
+    };
+    if (orderPositionSide === 'BOTH') {
+      marketParams.reduceOnly = true;
+    }
+
+    const marketOrder = await placeOrder(marketParams, this.config.api);
+logWithTimestamp(`PositionManager: Reduced ${symbol} ${isLong ? 'LONG' : 'SHORT'} by ${quantity} (${decision.distancePercent.toFixed(2)}% from liquidation). Order ID: ${marketOrder.orderId}`);
+    report(`Reduced position by ${quantity} of ${Math.abs(posAmt)} (${decision.distancePercent.toFixed(2)}% from liquidation)`);
+  }
+
+  // MARGIN_CALL from the user stream: alert for every listed position and run the guard right away
+  private handleMarginCall(event: any): void {
+    for (const pos of event.p || []) {
+      const posAmt = parseFloat(pos.pa);
+      if (!posAmt) continue;
+
+      const current = this.currentPositions.get(this.getPositionKey(pos.s, pos.ps || 'BOTH', posAmt));
+      if (current && pos.mp) {
+        current.markPrice = pos.mp;
+      }
+
+logWarnWithTimestamp(`PositionManager: MARGIN_CALL for ${pos.s} ${pos.ps || 'BOTH'} - amount ${pos.pa}, mark ${pos.mp}, maintenance margin ${pos.mm}, unrealized PnL ${pos.up}`);
+      this.reportLiquidationRisk({
+        symbol: pos.s,
+        side: posAmt > 0 ? 'LONG' : 'SHORT',
+        level: 'MARGIN_CALL',
+        markPrice: parseFloat(pos.mp),
+        message: `Margin call - maintenance margin $${parseFloat(pos.mm || '0').toFixed(2)}, unrealized PnL $${parseFloat(pos.up || '0').toFixed(2)}${pos.mt === 'isolated' ? `, isolated wallet $${parseFloat(pos.iw || '0').toFixed(2)}` : ''}`,
+      });
+    }
+
+    this.liquidationPricesRefreshedAt = 0;
+    this.checkLiquidationRisk().catch(error => {
+logErrorWithTimestamp('PositionManager: Liquidation guard check after MARGIN_CALL failed:', error?.message || error);
+    });
+  }
+
+  // Broadcast to the UI and let the bot forward it to Telegram
+  private reportLiquidationRisk(data: LiquidationRiskEvent): void {
+    if (this.statusBroadcaster) {
+      this.statusBroadcaster.broadcastLiquidationRisk(data);
+    }
+    this.emit('liquidationRisk', data);
+  }
+
   // Update paper mode positions with current mark prices and PnL
   private async updatePaperModePositions(): Promise<void> {
-    if (!this.config.global.paperMode || this.currentPositions.size === 0) {
+    if (!this.config.global.paperMode) {
       return;
     }
 
@@ -2900,7 +4219,17 @@ logErrorWithTimestamp('PositionManager: Failed to refresh balance:', error);
       return;
     }
 
-    const positionsToClose: Array<{ key: string; reason: string; price: number }> = [];
+    // Queued paper limit entries fill against the latest mark prices first
+    this.paperExecution.processPendingOrders(symbol => {
+      const priceData = priceService.getMarkPrice(symbol);
+      return priceData?.markPrice ? parseFloat(priceData.markPrice) : null;
+    });
+
+    if (this.currentPositions.size === 0) {
+      return;
+    }
+
+    const positionsToClose: Array<{ key: string; reason: string; type: PaperExitType; price: number; markPrice: number }> = [];
 
     for (const [key, position] of this.currentPositions.entries()) {
       const symbol = position.symbol;
@@ -2922,28 +4251,70 @@ logErrorWithTimestamp('PositionManager: Failed to refresh balance:', error);
         continue;
       }
 
-      const posAmt = parseFloat(position.positionAmt);
+      let posAmt = parseFloat(position.positionAmt);
       const isLong = posAmt > 0;
 
       // Check for SL/TP hits in paper mode
       const orders = this.positionOrders.get(key);
       if (orders) {
-        const { slPrice, tpPrice } = orders;
+        // Breakeven and max hold time rules move the simulated levels before they are checked
+        const exitRules = getExitRuleSettings(this.config.symbols[symbol]);
+        if (exitRules) {
+          const openedAt = exitRules.timeout && !orders.timedOut ? await this.getPositionOpenedAt(key, position) : null;
+          const decision = evaluateExitRules(exitRules, { entryPrice, markPrice, isLong, openedAt }, orders);
+          if (this.applyPaperExitRules(position, orders, decision)) {
+            positionsToClose.push({ key, reason: 'TIMEOUT', type: 'MARKET', price: markPrice, markPrice });
+            continue; // Skip further processing for this position
+          }
+        }
+
+        const { slPrice, tpPrice, trailingStop, tpLadder } = orders;
 
         // Check Stop Loss hit
         if (slPrice) {
           const slHit = isLong ? (markPrice <= slPrice) : (markPrice >= slPrice);
           if (slHit) {
-            positionsToClose.push({ key, reason: 'SL', price: slPrice });
+            positionsToClose.push({ key, reason: this.isBreakevenStop(orders) ? 'BREAKEVEN' : 'SL', type: 'STOP', price: slPrice, markPrice });
+            continue; // Skip further processing for this position
+          }
+        }
+
+        // Take the ladder levels the price has reached, the last one closes the position
+        if (tpLadder) {
+          let finalLevelPrice: number | undefined;
+          for (const level of getRemainingLevels(tpLadder)) {
+            const levelHit = isLong ? (markPrice >= level.price) : (markPrice <= level.price);
+            if (!levelHit) break;
+
+            if (getRemainingLevels(tpLadder).length === 1) {
+              finalLevelPrice = level.price;
+              break;
+            }
+            this.takePaperLadderLevel(key, position, orders, tpLadder);
+            await this.savePaperExecution(key);
+          }
+
+          if (finalLevelPrice !== undefined) {
+            positionsToClose.push({ key, reason: 'TP', type: 'TAKE_PROFIT', price: finalLevelPrice, markPrice });
             continue; // Skip further processing for this position
           }
+          posAmt = parseFloat(position.positionAmt);
         }
 
         // Check Take Profit hit
         if (tpPrice) {
           const tpHit = isLong ? (markPrice >= tpPrice) : (markPrice <= tpPrice);
           if (tpHit) {
-            positionsToClose.push({ key, reason: 'TP', price: tpPrice });
+            positionsToClose.push({ key, reason: orders.timeoutTpPercent !== undefined ? 'TIMEOUT' : 'TP', type: 'TAKE_PROFIT', price: tpPrice, markPrice });
+            continue; // Skip further processing for this position
+          }
+        }
+
+        // Advance the simulated trailing stop with the same trigger rules as the exchange
+        if (trailingStop) {
+          const { triggered, stopPrice } = updateTrailingStop(trailingStop, markPrice, isLong);
+          if (triggered) {
+            positionsToClose.push({ key, reason: 'TRAILING', type: 'STOP', price: stopPrice, markPrice });
             continue; // Skip further processing for this position
           }
         }
@@ -2966,17 +4337,19 @@ logErrorWithTimestamp('PositionManager: Failed to refresh balance:', error);
           // Get current trade from DB to check max/min
           const currentTrade = await paperTradeDb.getTrade(tradeId);
           if (currentTrade) {
-            const maxPnl = Math.max(currentTrade.max_pnl || 0, pnl);
-            const minPnl = Math.min(currentTrade.min_pnl || 0, pnl);
+            // Include the PnL already booked by filled TP ladder levels, net of simulated fees so far
+            const tradePnl = pnl + (orders?.tpLadder?.realizedPnl || 0) - (this.paperExecutions.get(key)?.fees || 0);
+            const maxPnl = Math.max(currentTrade.max_pnl || 0, tradePnl);
+            const minPnl = Math.min(currentTrade.min_pnl || 0, tradePnl);
 
             await paperTradeDb.updateTrade(tradeId, {
-              pnl: pnl,
+              pnl: tradePnl,
               max_pnl: maxPnl,
               min_pnl: minPnl,
             });
 
             // Update paper balance service with current P&L
-            const paperBalanceService = getPaperBalanceService();
+            const paperBalanceService = this.getPaperBalance();
             if (paperBalanceService && paperBalanceService.isReady()) {
               const positionSide = position.positionSide as 'LONG' | 'SHORT';
               paperBalanceService.updatePositionPnL(symbol, positionSide, pnl);
@@ -2995,7 +4368,7 @@ logErrorWithTimestamp('PositionManager: Failed to refresh balance:', error);
         const pnlPercent = (pnl / notionalValue) * 100;
 
         const hasStopLoss = orders?.slPrice !== undefined;
-        const hasTakeProfit = orders?.tpPrice !== undefined;
+        const hasTakeProfit = orders?.tpPrice !== undefined || orders?.trailingStop !== undefined || orders?.tpLadder !== undefined;
 
         this.statusBroadcaster.broadcastPositionUpdate({
           symbol: position.symbol,
@@ -3015,7 +4388,7 @@ logErrorWithTimestamp('PositionManager: Failed to refresh balance:', error);
     }
 
     // Close positions that hit SL/TP
-    for (const { key, reason, price } of positionsToClose) {
+    for (const { key, reason, type, price, markPrice } of positionsToClose) {
       const position = this.currentPositions.get(key);
       if (!position) continue;
 
@@ -3024,27 +4397,26 @@ logErrorWithTimestamp('PositionManager: Failed to refresh balance:', error);
       const isLong = posAmt > 0;
       const quantity = Math.abs(posAmt);
 
-      // Calculate final PnL
-      const pnl = isLong
-        ? (price - entryPrice) * quantity
-        : (entryPrice - price) * quantity;
+      // Stops slip past their trigger, take profits fill a little short of it
+      const exit = this.recordPaperExit(key, position, { type, reason, triggerPrice: price, markPrice, quantity });
+
+      // Calculate final PnL, including the part already taken by TP ladder levels, net of all simulated fees
+      const exitPnl = isLong
+        ? (exit.price - entryPrice) * quantity
+        : (entryPrice - exit.price) * quantity;
+      const ladder = this.positionOrders.get(key)?.tpLadder;
+      const fees = this.paperExecutions.get(key)?.fees || 0;
+      const pnl = exitPnl + (ladder?.realizedPnl || 0) - fees;
 
-      const notionalValue = quantity * entryPrice;
+      const notionalValue = (quantity + (ladder?.closedQuantity || 0)) * entryPrice;
       const pnlPercent = (pnl / notionalValue) * 100;
 
-logWithTimestamp(`PositionManager: [Paper Mode] ${reason} hit for ${position.symbol} at ${price.toFixed(4)}`);
-logWithTimestamp(`  PnL: ${pnl.toFixed(2)} USDT (${pnlPercent.toFixed(2)}%)`);
+logWithTimestamp(`PositionManager: [Paper Mode] ${reason} hit for ${position.symbol} at ${price.toFixed(4)}, filled at ${exit.price.toFixed(4)}`);
+logWithTimestamp(`  PnL: ${pnl.toFixed(2)} USDT (${pnlPercent.toFixed(2)}%) after ${fees.toFixed(4)} USDT fees`);
 
-      // Close paper trade in database
-      const tradeId = this.paperTradeIds.get(key);
-      if (tradeId) {
-        try {
-          await paperTradeDb.closeTrade(tradeId, price, pnl, pnlPercent, reason);
-        } catch (error) {
-          logErrorWithTimestamp(`PositionManager: Failed to close paper trade ${tradeId}:`, error);
-        }
-        this.paperTradeIds.delete(key);
-      }
+      // Close paper trade in database and release its margin from the paper balance
+      await this.savePaperExecution(key);
+      await this.closePaperTrade(key, exit.price, pnl, pnlPercent, reason);
 
       // Remove position and orders
       this.currentPositions.delete(key);
@@ -3056,13 +4428,109 @@ logWithTimestamp(`  PnL: ${pnl.toFixed(2)} USDT (${pnlPercent.toFixed(2)}%)`);
           symbol: position.symbol,
           side: isLong ? 'LONG' : 'SHORT',
           quantity: quantity,
-          pnl: pnl,
+          pnl: exitPnl - exit.fee,
           reason: `Paper mode ${reason}`,
         });
       }
     }
   }
 
+  // Apply breakeven/timeout decisions to a paper position's simulated levels; returns true when it should close now
+  private applyPaperExitRules(position: ExchangePosition, orders: PositionOrders, decision: ExitRuleDecision): boolean {
+    const symbol = position.symbol;
+    const quantity = Math.abs(parseFloat(position.positionAmt));
+
+    if (decision.timeout) {
+      orders.timedOut = true;
+      const timeoutSettings = getExitRuleSettings(this.config.symbols[symbol])!.timeout!;
+      // Only a single fixed TP can be tightened - ladders and trailing-only exits keep their levels
+      if (timeoutSettings.action === 'TIGHTEN_TP' && (orders.tpPrice === undefined || orders.tpLadder)) {
+logWarnWithTimestamp(`PositionManager: [Paper Mode] ${symbol} open for ${decision.heldMinutes!.toFixed(0)} min but has no single TP to tighten (TP ladder or trailing stop), leaving its exits in place`);
+      } else if (decision.timeout === 'CLOSE') {
+logWithTimestamp(`PositionManager: [Paper Mode] ${symbol} open for ${decision.heldMinutes!.toFixed(0)} min, closing (timeout)`);
+        return true;
+      } else {
+        orders.timeoutTpPercent = timeoutSettings.tightenedTpPercent;
+        orders.tpPrice = decision.tightenedTpPrice;
+logWithTimestamp(`PositionManager: [Paper Mode] ${symbol} open for ${decision.heldMinutes!.toFixed(0)} min, tightened TP to ${orders.tpPrice!.toFixed(4)}`);
+        if (this.statusBroadcaster) {
+          this.statusBroadcaster.broadcastTakeProfitPlaced({
+            symbol,
+            price: orders.tpPrice!,
+            quantity,
+            orderId: 'paper-tp',
+            distancePercent: orders.timeoutTpPercent,
+          });
+        }
+      }
+    }
+
+    if (decision.moveToBreakeven) {
+      orders.breakevenPrice = decision.breakevenPrice;
+      orders.slPrice = decision.breakevenPrice;
+logWithTimestamp(`PositionManager: [Paper Mode] Moved SL to breakeven for ${symbol} at ${orders.slPrice!.toFixed(4)} (profit ${decision.profitPercent.toFixed(2)}%)`);
+      if (this.statusBroadcaster) {
+        this.statusBroadcaster.broadcastStopLossPlaced({
+          symbol,
+          price: orders.slPrice!,
+          quantity,
+          orderId: 'paper-sl',
+          distancePercent: 0,
+        });
+      }
+    }
+
+    return false;
+  }
+
+  // Close the next TP ladder level of a paper position and book its PnL
+  private takePaperLadderLevel(key: string, position: ExchangePosition, orders: PositionOrders, ladder: TakeProfitLadderState): void {
+    const remaining = getRemainingLevels(ladder);
+    const level = remaining[0];
+    const levelNumber = ladder.levels.indexOf(level) + 1;
+    const posAmt = parseFloat(position.positionAmt);
+    const entryPrice = parseFloat(position.entryPrice);
+    const isLong = posAmt > 0;
+    const quantity = Math.abs(posAmt);
+
+    const filter = symbolPrecision.getSymbolFilter(position.symbol) || symbolPrecision.getDefaultFilter(position.symbol);
+    const [levelQty] = allocateLadderQuantities(quantity, remaining.map(l => l.sizePercent), parseFloat(filter.stepSize), filter.minQuantity);
+
+    if (markLevelFilled(ladder, level)) {
+      orders.slPrice = entryPrice;
+logWithTimestamp(`PositionManager: [Paper Mode] Moved SL to breakeven for ${position.symbol} at ${entryPrice.toFixed(4)}`);
+    }
+
+    // Too small to close on its own - the size rolls into the next level
+    if (levelQty <= 0) {
+      return;
+    }
+
+    const markPrice = parseFloat(position.markPrice) || level.price;
+    const exit = this.recordPaperExit(key, position, { type: 'TAKE_PROFIT', reason: `TP level ${levelNumber}`, triggerPrice: level.price, markPrice, quantity: levelQty });
+    const pnl = isLong
+      ? (exit.price - entryPrice) * levelQty
+      : (entryPrice - exit.price) * levelQty;
+    const remainingQty = symbolPrecision.formatQuantity(position.symbol, quantity - levelQty);
+
+    ladder.realizedPnl += pnl;
+    ladder.closedQuantity += levelQty;
+    position.positionAmt = (isLong ? remainingQty : -remainingQty).toString();
+
+logWithTimestamp(`PositionManager: [Paper Mode] TP level ${levelNumber}/${ladder.levels.length} hit for ${key} at ${level.price.toFixed(4)}, filled at ${exit.price.toFixed(4)} - closed ${levelQty}, ${remainingQty} remaining`);
+logWithTimestamp(`  PnL: ${pnl.toFixed(2)} USDT, fee ${exit.fee.toFixed(4)} USDT`);
+
+    if (this.statusBroadcaster) {
+      this.statusBroadcaster.broadcastPositionClosed({
+        symbol: position.symbol,
+        side: isLong ? 'LONG' : 'SHORT',
+        quantity: levelQty,
+        pnl: pnl - exit.fee,
+        reason: `Paper mode TP level ${levelNumber}/${ladder.levels.length}`,
+      });
+    }
+  }
+
   // Restore open paper trades from database on startup
   private async restorePaperTrades(): Promise<void> {
     try {
@@ -3071,7 +4539,7 @@ logWithTimestamp(`  PnL: ${pnl.toFixed(2)} USDT (${pnlPercent.toFixed(2)}%)`);
       // Only restore trades from the last 12 hours to avoid accumulating stale positions
       const twelveHoursAgo = Date.now() - (12 * 60 * 60 * 1000);
 
-      const allOpenTrades = await paperTradeDb.getTrades({ status: 'open' });
+      const allOpenTrades = await paperTradeDb.getTrades({ status: 'open', account: this.paperAccount });
 
       // Filter for recent trades only
       const recentTrades = allOpenTrades.filter(trade => trade.opened_at >= twelveHoursAgo);
@@ -3107,14 +4575,13 @@ logWithTimestamp(`  PnL: ${pnl.toFixed(2)} USDT (${pnlPercent.toFixed(2)}%)`);
           continue;
         }
 
-        // Reconstruct position key
+        // Reconstruct position key (same format as onNewPosition)
         const positionSide = trade.position_side;
-        const key = this.isHedgeMode
-          ? `${trade.symbol}_${positionSide}`
-          : trade.symbol;
+        const key = `${trade.symbol}_${positionSide}`;
 
         // Store the trade ID for future updates
         this.paperTradeIds.set(key, trade.id);
+        this.paperExecutions.set(key, parsePaperExecution(trade.metadata));
 
         // Reconstruct the position in currentPositions map
         const posAmt = trade.side === 'BUY' ? trade.quantity : -trade.quantity;
@@ -3140,21 +4607,20 @@ logWithTimestamp(`  PnL: ${pnl.toFixed(2)} USDT (${pnlPercent.toFixed(2)}%)`);
         const symbolConfig = this.config.symbols[trade.symbol];
         if (symbolConfig) {
           const isLong = trade.side === 'BUY';
-          const slPrice = isLong
-            ? trade.entry_price * (1 - symbolConfig.slPercent / 100)
-            : trade.entry_price * (1 + symbolConfig.slPercent / 100);
-          const tpPrice = isLong
-            ? trade.entry_price * (1 + symbolConfig.tpPercent / 100)
-            : trade.entry_price * (1 - symbolConfig.tpPercent / 100);
-
-          if (!this.positionOrders.has(key)) {
+
+          // Prefer the persisted SL/TP levels (incl. trailing extreme and filled ladder levels) over recomputing them
+          const persistedOrders = this.positionOrders.get(key);
+          const usePersisted = persistedOrders?.slPrice !== undefined;
+          if (!persistedOrders) {
             this.positionOrders.set(key, {});
           }
           const orders = this.positionOrders.get(key)!;
-          orders.slPrice = slPrice;
-          orders.tpPrice = tpPrice;
+          if (!usePersisted) {
+            this.setPaperProtectiveLevels(orders, symbolConfig, trade.entry_price, isLong);
+          }
+          const { slPrice, tpPrice } = orders;
 
-          logWithTimestamp(`PositionManager: ✓ Restored ${trade.symbol} ${trade.side} ${positionSide} - Entry: $${trade.entry_price}, SL: $${slPrice.toFixed(4)}, TP: $${tpPrice.toFixed(4)}, Qty: ${trade.quantity}, PnL: $${trade.pnl?.toFixed(2) || '0.00'}`);
+          logWithTimestamp(`PositionManager: ✓ Restored ${trade.symbol} ${trade.side} ${positionSide} - Entry: $${trade.entry_price}, SL: $${slPrice!.toFixed(4)}, TP: ${tpPrice !== undefined ? `$${tpPrice.toFixed(4)}` : orders.tpLadder ? `${orders.tpLadder.levels.length}-level ladder` : 'trailing'} (${usePersisted ? 'persisted' : 'recomputed'}), Qty: ${trade.quantity}, PnL: $${trade.pnl?.toFixed(2) || '0.00'}`);
         } else {
           logWithTimestamp(`PositionManager: ✓ Restored ${trade.symbol} ${trade.side} ${positionSide} - Entry: $${trade.entry_price}, Qty: ${trade.quantity}, PnL: $${trade.pnl?.toFixed(2) || '0.00'}`);
         }
@@ -3180,7 +4646,7 @@ logWithTimestamp(`  PnL: ${pnl.toFixed(2)} USDT (${pnlPercent.toFixed(2)}%)`);
             // Check if position has SL/TP
             const orders = this.positionOrders.get(key);
             const hasStopLoss = orders?.slPrice !== undefined;
-            const hasTakeProfit = orders?.tpPrice !== undefined;
+            const hasTakeProfit = orders?.tpPrice !== undefined || orders?.trailingStop !== undefined || orders?.tpLadder !== undefined;
 
             this.statusBroadcaster.broadcastPositionUpdate({
               symbol: position.symbol,
@@ -3206,6 +4672,69 @@ logWithTimestamp(`  PnL: ${pnl.toFixed(2)} USDT (${pnlPercent.toFixed(2)}%)`);
     }
   }
 
+  // The paper balance belongs to the main paper account - shadow trades only show up in their own history
+  private getPaperBalance() {
+    return this.shadow ? null : getPaperBalanceService();
+  }
+
+  private toPaperEntryFill(fill: PaperFill): PaperExecutionRecord['fills'][number] {
+    return {
+      type: 'ENTRY',
+      price: fill.price,
+      quantity: fill.quantity,
+      fee: fill.fee,
+      liquidity: fill.liquidity,
+      slippage: fill.slippage,
+      time: fill.time,
+    };
+  }
+
+  // Fill a paper exit through the execution engine and add it to the position's execution record
+  private recordPaperExit(
+    key: string,
+    position: ExchangePosition,
+    exit: { type: PaperExitType; reason: string; triggerPrice: number; markPrice: number; quantity: number }
+  ): { price: number; fee: number } {
+    const fill = this.paperExecution.simulateExit(position.symbol, {
+      type: exit.type,
+      isLong: parseFloat(position.positionAmt) > 0,
+      quantity: exit.quantity,
+      triggerPrice: exit.triggerPrice,
+      markPrice: exit.markPrice,
+    });
+
+    const execution = this.paperExecutions.get(key) || { fills: [], fees: 0, slippage: 0 };
+    addPaperFill(execution, {
+      type: 'EXIT',
+      reason: exit.reason,
+      price: fill.price,
+      quantity: exit.quantity,
+      fee: fill.fee,
+      liquidity: 'TAKER',
+      slippage: fill.slippage,
+      time: Date.now(),
+    });
+    this.paperExecutions.set(key, execution);
+
+    return fill;
+  }
+
+  // Write a paper position's execution record to its trade's metadata
+  private async savePaperExecution(key: string): Promise<void> {
+    const tradeId = this.paperTradeIds.get(key);
+    const execution = this.paperExecutions.get(key);
+    if (!tradeId || !execution) {
+      return;
+    }
+
+    try {
+      const trade = await paperTradeDb.getTrade(tradeId);
+      await paperTradeDb.updateTrade(tradeId, { metadata: serializePaperExecution(trade?.metadata, execution) });
+    } catch (error) {
+      logErrorWithTimestamp(`PositionManager: Failed to save paper execution for trade ${tradeId}:`, error);
+    }
+  }
+
   // Close paper trade in database
   private async closePaperTrade(key: string, exitPrice: number, pnl: number, pnlPercent: number, closeReason: string): Promise<void> {
     const tradeId = this.paperTradeIds.get(key);
@@ -3216,10 +4745,11 @@ logWithTimestamp(`  PnL: ${pnl.toFixed(2)} USDT (${pnlPercent.toFixed(2)}%)`);
     try {
       await paperTradeDb.closeTrade(tradeId, exitPrice, pnl, pnlPercent, closeReason);
       this.paperTradeIds.delete(key);
+      this.paperExecutions.delete(key);
       logWithTimestamp(`PositionManager: Paper trade ${tradeId} closed - ${closeReason}, PnL: $${pnl.toFixed(2)} (${pnlPercent.toFixed(2)}%)`);
 
       // Update paper balance service
-      const paperBalanceService = getPaperBalanceService();
+      const paperBalanceService = this.getPaperBalance();
       if (paperBalanceService && paperBalanceService.isReady()) {
         // Extract symbol and side from key
         const parts = key.split('_');
@@ -3296,4 +4826,42 @@ logWithTimestamp(`  PnL: ${pnl.toFixed(2)} USDT (${pnlPercent.toFixed(2)}%)`);
 
     return { allowed: true };
   }
+
+  // Open position in the given direction and the number of scale-in adds filled on it
+  public getScaleInState(symbol: string, side: 'LONG' | 'SHORT'): ScaleInState | null {
+    const countKey = `${symbol}_${side}`;
+
+    for (const position of this.currentPositions.values()) {
+      const posAmt = parseFloat(position.positionAmt);
+      if (position.symbol !== symbol || Math.abs(posAmt) === 0) {
+        continue;
+      }
+
+      const sameSide = this.isHedgeMode
+        ? position.positionSide === side
+        : (side === 'LONG') === (posAmt > 0);
+      if (sameSide) {
+        return {
+          entryPrice: parseFloat(position.entryPrice),
+          quantity: Math.abs(posAmt),
+          // Live adds are counted by the trade journal as their fills arrive
+          adds: this.config.global.paperMode
+            ? this.scaleInCounts.get(countKey) || 0
+            : tradeJournal.getAddCount(symbol, side)
+        };
+      }
+    }
+
+    // No open position - the next entry starts a fresh scale-in sequence
+    this.scaleInCounts.delete(countKey);
+    return null;
+  }
+
+  // Count an add filled on the open paper position; returns the number of adds so far
+  public recordScaleIn(symbol: string, side: 'LONG' | 'SHORT'): number {
+    const countKey = `${symbol}_${side}`;
+    const adds = (this.scaleInCounts.get(countKey) || 0) + 1;
+    this.scaleInCounts.set(countKey, adds);
+    return adds;
+  }
 }
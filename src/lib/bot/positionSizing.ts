@@ -0,0 +1,128 @@
+import { SymbolConfig } from '../types';
+import { getSymbolFilters, roundToStepSize } from '../api/pricing';
+
+export interface SizingFilters {
+  minQty: number;
+  maxQty: number;
+  stepSize: string;
+  minNotional: number;
+}
+
+export interface RiskSizingInput {
+  balance: number;            // Account equity in USDT
+  riskPercent: number;        // % of equity to lose if the stop loss is hit
+  slPercent: number;          // Stop loss distance in %
+  leverage: number;
+  price: number;              // Expected entry price
+  maxPositionMarginUSDT?: number;
+  currentMarginUSDT?: number; // Margin already used on this symbol
+  filters?: SizingFilters;
+}
+
+export interface PositionSize {
+  quantity: number;
+  notionalUSDT: number;
+  marginUSDT: number;
+  riskUSDT: number;           // Expected loss at the stop loss for the final quantity
+  cappedByMargin: boolean;
+  error?: string;             // Set when no valid size could be produced
+}
+
+// Fallbacks matching the defaults used by pricing.ts for unknown symbols
+const DEFAULT_SIZING_FILTERS: SizingFilters = {
+  minQty: 0.001,
+  maxQty: 10000000,
+  stepSize: '0.001',
+  minNotional: 5
+};
+
+/**
+ * Size a position so that hitting the stop loss loses roughly riskPercent of the balance:
+ *   quantity = (balance × riskPercent) / (price × slPercent)
+ * The result is capped by the remaining maxPositionMarginUSDT headroom and snapped to the
+ * exchange LOT_SIZE step. Quantities below the exchange minimums are rejected rather than
+ * rounded up, since that would exceed the configured risk.
+ */
+export function calculateRiskBasedSize(input: RiskSizingInput): PositionSize {
+  const filters = input.filters || DEFAULT_SIZING_FILTERS;
+  const empty = (error: string): PositionSize => ({
+    quantity: 0,
+    notionalUSDT: 0,
+    marginUSDT: 0,
+    riskUSDT: 0,
+    cappedByMargin: false,
+    error
+  });
+
+  if (input.balance <= 0) return empty('Account balance is zero');
+  if (input.riskPercent <= 0) return empty('riskPercent must be greater than zero');
+  if (input.slPercent <= 0) return empty('slPercent must be greater than zero');
+  if (input.price <= 0 || input.leverage <= 0) return empty('Invalid price or leverage');
+
+  const riskBudget = input.balance * (input.riskPercent / 100);
+  let notional = riskBudget / (input.slPercent / 100);
+  let cappedByMargin = false;
+
+  // Respect the per-symbol margin cap, taking existing exposure into account
+  if (input.maxPositionMarginUSDT) {
+    const headroom = input.maxPositionMarginUSDT - (input.currentMarginUSDT || 0);
+    if (headroom <= 0) {
+      return empty(`Max margin for symbol already used (${(input.currentMarginUSDT || 0).toFixed(2)}/${input.maxPositionMarginUSDT} USDT)`);
+    }
+    if (notional / input.leverage > headroom) {
+      notional = headroom * input.leverage;
+      cappedByMargin = true;
+    }
+  }
+
+  let quantity = notional / input.price;
+  quantity = Math.min(quantity, filters.maxQty);
+
+  // Round down to the step size so we never exceed the risk budget
+  const step = parseFloat(filters.stepSize);
+  if (step > 0) {
+    quantity = roundToStepSize(Math.floor(quantity / step + 1e-9) * step, filters.stepSize);
+  }
+
+  if (quantity < filters.minQty) {
+    return empty(`Risk-based quantity ${quantity} is below minimum ${filters.minQty}`);
+  }
+
+  const finalNotional = quantity * input.price;
+  if (finalNotional < filters.minNotional) {
+    return empty(`Risk-based notional ${finalNotional.toFixed(2)} USDT is below minimum ${filters.minNotional} USDT`);
+  }
+
+  return {
+    quantity,
+    notionalUSDT: finalNotional,
+    marginUSDT: finalNotional / input.leverage,
+    riskUSDT: finalNotional * (input.slPercent / 100),
+    cappedByMargin
+  };
+}
+
+// Extract the filters relevant for sizing from exchange info
+export async function getSizingFilters(symbol: string): Promise<SizingFilters> {
+  const symbolInfo = await getSymbolFilters(symbol);
+  if (!symbolInfo) {
+    return DEFAULT_SIZING_FILTERS;
+  }
+
+  const lotSize = symbolInfo.filters.find(f => f.filterType === 'LOT_SIZE');
+  const minNotional = symbolInfo.filters.find(f => f.filterType === 'MIN_NOTIONAL');
+
+  return {
+    minQty: parseFloat(lotSize?.minQty || String(DEFAULT_SIZING_FILTERS.minQty)),
+    maxQty: parseFloat(lotSize?.maxQty || String(DEFAULT_SIZING_FILTERS.maxQty)),
+    stepSize: lotSize?.stepSize || DEFAULT_SIZING_FILTERS.stepSize,
+    minNotional: parseFloat(minNotional?.notional || String(DEFAULT_SIZING_FILTERS.minNotional))
+  };
+}
+
+// Margin configured for a fixed-size trade in the given direction
+export function getFixedTradeMargin(symbolConfig: SymbolConfig, side: 'BUY' | 'SELL'): number {
+  return side === 'BUY'
+    ? (symbolConfig.longTradeSize ?? symbolConfig.tradeSize)
+    : (symbolConfig.shortTradeSize ?? symbolConfig.tradeSize);
+}
@@ -0,0 +1,117 @@
+import { SymbolConfig } from '../types';
+
+export interface ScaleInSettings {
+  maxAdds: number;
+  minDistancePercent: number;   // Minimum adverse move from the average entry before each add
+  sizeMultipliers: number[];    // Margin multiplier per add, the last one repeats
+}
+
+export interface ScaleInDecision {
+  allowed: boolean;
+  reason?: string;
+  addNumber: number;            // 1-based number of this add
+  marginUSDT: number;
+  adverseDistancePercent: number;
+  cappedByMargin: boolean;
+}
+
+const DEFAULT_MAX_ADDS = 2;
+const DEFAULT_MIN_DISTANCE_PERCENT = 1;
+
+// Resolve scale-in settings for a symbol, or null when scale-in is disabled
+export function getScaleInSettings(symbolConfig: SymbolConfig | undefined): ScaleInSettings | null {
+  if (!symbolConfig?.scaleInEnabled) {
+    return null;
+  }
+
+  const sizeMultipliers = (symbolConfig.scaleInSizeMultipliers || []).filter(multiplier => multiplier > 0);
+
+  return {
+    maxAdds: Math.max(0, Math.floor(symbolConfig.scaleInMaxAdds ?? DEFAULT_MAX_ADDS)),
+    minDistancePercent: Math.max(0, symbolConfig.scaleInMinDistancePercent ?? DEFAULT_MIN_DISTANCE_PERCENT),
+    sizeMultipliers: sizeMultipliers.length > 0 ? sizeMultipliers : [1]
+  };
+}
+
+export function getScaleInMultiplier(settings: ScaleInSettings, addNumber: number): number {
+  const index = Math.min(addNumber, settings.sizeMultipliers.length) - 1;
+  return settings.sizeMultipliers[Math.max(0, index)];
+}
+
+// How far the price has moved against the position, in percent of the average entry (negative when in profit)
+export function getAdverseDistancePercent(averageEntry: number, price: number, isLong: boolean): number {
+  if (averageEntry <= 0) {
+    return 0;
+  }
+  return isLong
+    ? ((averageEntry - price) / averageEntry) * 100
+    : ((price - averageEntry) / averageEntry) * 100;
+}
+
+/**
+ * Decide whether a repeated signal may add to an open position. An add needs a
+ * free slot, the price must have moved at least minDistancePercent against the
+ * average entry, and the add's margin (base margin × multiplier) is capped so
+ * the symbol's total margin stays within maxPositionMarginUSDT.
+ */
+export function evaluateScaleIn(params: {
+  settings: ScaleInSettings;
+  isLong: boolean;
+  averageEntry: number;
+  price: number;
+  addsSoFar: number;
+  baseMarginUSDT: number;
+  currentMarginUSDT: number;
+  maxPositionMarginUSDT?: number;
+}): ScaleInDecision {
+  const { settings, isLong, averageEntry, price, addsSoFar, baseMarginUSDT, currentMarginUSDT, maxPositionMarginUSDT } = params;
+
+  const addNumber = addsSoFar + 1;
+  const adverseDistancePercent = getAdverseDistancePercent(averageEntry, price, isLong);
+  const blocked = (reason: string): ScaleInDecision => ({
+    allowed: false,
+    reason,
+    addNumber,
+    marginUSDT: 0,
+    adverseDistancePercent,
+    cappedByMargin: false
+  });
+
+  if (addsSoFar >= settings.maxAdds) {
+    return blocked(`Max scale-in adds (${settings.maxAdds}) reached`);
+  }
+
+  if (adverseDistancePercent < settings.minDistancePercent) {
+    return blocked(`Price ${adverseDistancePercent.toFixed(2)}% from average entry ${averageEntry}, add ${addNumber} needs ${settings.minDistancePercent}% adverse move`);
+  }
+
+  let marginUSDT = baseMarginUSDT * getScaleInMultiplier(settings, addNumber);
+  let cappedByMargin = false;
+
+  if (maxPositionMarginUSDT) {
+    const room = maxPositionMarginUSDT - currentMarginUSDT;
+    if (room <= 0) {
+      return blocked(`Position margin ${currentMarginUSDT.toFixed(2)} USDT already at max ${maxPositionMarginUSDT} USDT`);
+    }
+    if (marginUSDT > room) {
+      marginUSDT = room;
+      cappedByMargin = true;
+    }
+  }
+
+  return {
+    allowed: true,
+    addNumber,
+    marginUSDT,
+    adverseDistancePercent,
+    cappedByMargin
+  };
+}
+
+export function calculateAverageEntry(quantity: number, entryPrice: number, addQuantity: number, addPrice: number): number {
+  const totalQuantity = quantity + addQuantity;
+  if (totalQuantity <= 0) {
+    return entryPrice;
+  }
+  return (quantity * entryPrice + addQuantity * addPrice) / totalQuantity;
+}
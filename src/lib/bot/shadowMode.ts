@@ -0,0 +1,127 @@
+import { Config, SymbolConfig } from '../types';
+import { Hunter } from './hunter';
+import { PositionManager } from './positionManager';
+import { PaperExecutionEngine } from './paperExecution';
+import { logWithTimestamp, logErrorWithTimestamp } from '../utils/timestamp';
+
+/**
+ * Config the shadow strategy trades with: the live config with the shadow
+ * overrides applied, always in paper mode. Features that act outside the
+ * shadow's own paper trades (replay, recording, exchange heartbeats, the
+ * liquidation guard, copy trading, Telegram, the risk kill switch) stay
+ * with the live bot.
+ */
+export function buildShadowConfig(config: Config): Config {
+  const shadowMode = config.global.shadowMode;
+
+  // Overrides only apply to symbols the live bot trades - the shadow sees the same liquidations
+  const symbols: Record<string, SymbolConfig> = {};
+  for (const [symbol, symbolConfig] of Object.entries(config.symbols)) {
+    symbols[symbol] = { ...symbolConfig, ...shadowMode?.symbols?.[symbol] };
+  }
+
+  return {
+    ...config,
+    symbols,
+    global: {
+      ...config.global,
+      ...shadowMode?.global,
+      paperMode: true,
+      replay: undefined,
+      recording: undefined,
+      orderHeartbeat: undefined,
+      liquidationGuard: undefined,
+      copyTrading: undefined,
+      telegram: undefined,
+      riskLimits: undefined,
+      simulator: undefined,
+      shadowMode: undefined,
+    },
+  };
+}
+
+/**
+ * Shadow Trader
+ *
+ * Runs a second Hunter/PositionManager pair next to the live bot. The pair
+ * trades the shadow config on paper, with its own execution engine and its
+ * own paper_trades account, and is fed every liquidation the live hunter
+ * receives so both strategies see exactly the same signals.
+ */
+export class ShadowTrader {
+  private hunter: Hunter | null = null;
+  private positionManager: PositionManager | null = null;
+  private paperExecution: PaperExecutionEngine | null = null;
+  private source: Hunter | null = null;
+
+  isRunning(): boolean {
+    return this.hunter !== null;
+  }
+
+  async start(config: Config, isHedgeMode: boolean, source: Hunter): Promise<void> {
+    if (this.hunter) return;
+
+    const shadowConfig = buildShadowConfig(config);
+    const paperExecution = new PaperExecutionEngine();
+    const positionManager = new PositionManager(shadowConfig, isHedgeMode, true);
+    const hunter = new Hunter(shadowConfig, isHedgeMode, true);
+
+    positionManager.setPaperExecutionEngine(paperExecution);
+    hunter.setPaperExecutionEngine(paperExecution);
+    hunter.setPositionTracker(positionManager);
+
+    hunter.on('positionOpened', (data: any) => {
+logWithTimestamp(`Shadow: ${data.scaleIn ? 'Position increased' : 'Position opened'}: ${data.symbol} ${data.side} qty=${data.quantity}`);
+      positionManager.onNewPosition(data).catch(error =>
+logErrorWithTimestamp('Shadow: Failed to track paper position:', error)
+      );
+    });
+
+    hunter.on('error', (error: any) => {
+logErrorWithTimestamp('Shadow: Hunter error:', error);
+    });
+
+    await positionManager.start();
+    await hunter.start();
+
+    this.hunter = hunter;
+    this.positionManager = positionManager;
+    this.paperExecution = paperExecution;
+    this.source = source;
+    source.on('forceOrder', this.onLiquidation);
+
+logWithTimestamp('Shadow: Started - paper trading the shadow config on the live liquidation feed');
+  }
+
+  updateConfig(config: Config): void {
+    const shadowConfig = buildShadowConfig(config);
+    this.hunter?.updateConfig(shadowConfig);
+    this.positionManager?.updateConfig(shadowConfig);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.hunter) return;
+
+    this.source?.off('forceOrder', this.onLiquidation);
+    this.hunter.stop();
+    this.hunter.removeAllListeners();
+    await this.positionManager?.stop();
+    this.paperExecution?.cancelAll();
+
+    this.hunter = null;
+    this.positionManager = null;
+    this.paperExecution = null;
+    this.source = null;
+
+logWithTimestamp('Shadow: Stopped');
+  }
+
+  private onLiquidation = (event: any): void => {
+    this.hunter?.feedLiquidationEvent(event).catch(error =>
+logErrorWithTimestamp('Shadow: Failed to process liquidation:', error)
+    );
+  };
+}
+
+// Export singleton instance
+export const shadowTrader = new ShadowTrader();
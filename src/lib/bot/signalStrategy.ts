@@ -0,0 +1,144 @@
+import { LiquidationEvent, SymbolConfig, SignalStrategyName } from '../types';
+
+// Market state available to a strategy when a liquidation is evaluated
+export interface SignalContext {
+  markPrice: number;
+  volumeUSDT: number;
+  vwap?: number;          // Latest streamed VWAP, when available
+}
+
+// Result of evaluating a liquidation - side is null when no trade should be taken
+export interface SignalDecision {
+  side: 'BUY' | 'SELL' | null;
+  confidence: number;     // 0-95, higher for larger liquidations
+  priceImpact: number;    // Distance between liquidation price and mark price, in percent
+  reasons: string[];
+}
+
+export interface SignalStrategy {
+  readonly name: SignalStrategyName;
+  readonly description: string;
+  readonly followsLiquidation: boolean; // Trades in the liquidation's direction instead of against it
+  evaluate(liquidation: LiquidationEvent, context: SignalContext, symbolConfig: SymbolConfig): SignalDecision;
+}
+
+export const DEFAULT_SIGNAL_STRATEGY: SignalStrategyName = 'contrarian';
+
+// Higher confidence for larger volumes
+function volumeConfidence(volumeUSDT: number): number {
+  return Math.min(95, 50 + (volumeUSDT / 1000) * 10);
+}
+
+/**
+ * Fade the liquidation: buy into long liquidations (SELL orders) and sell into
+ * short liquidations (BUY orders) while the liquidation price is within 1% of mark.
+ */
+class ContrarianStrategy implements SignalStrategy {
+  readonly name = 'contrarian' as const;
+  readonly description = 'Trade against the liquidation, expecting a bounce once the forced order is absorbed';
+  readonly followsLiquidation = false;
+
+  evaluate(liquidation: LiquidationEvent, context: SignalContext, _symbolConfig: SymbolConfig): SignalDecision {
+    const priceRatio = liquidation.price / context.markPrice;
+    const confidence = volumeConfidence(context.volumeUSDT);
+
+    if (liquidation.side === 'SELL' && priceRatio < 1.01) { // 1% below
+      return {
+        side: 'BUY',
+        confidence,
+        priceImpact: (1 - priceRatio) * 100,
+        reasons: [`SELL liquidation at ${((1 - priceRatio) * 100).toFixed(2)}% below mark price`]
+      };
+    }
+
+    if (liquidation.side === 'BUY' && priceRatio > 0.99) { // 1% above
+      return {
+        side: 'SELL',
+        confidence,
+        priceImpact: (priceRatio - 1) * 100,
+        reasons: [`BUY liquidation at ${((priceRatio - 1) * 100).toFixed(2)}% above mark price`]
+      };
+    }
+
+    return {
+      side: null,
+      confidence: 0,
+      priceImpact: Math.abs(1 - priceRatio) * 100,
+      reasons: [`${liquidation.side} liquidation price too far from mark (ratio ${priceRatio.toFixed(4)})`]
+    };
+  }
+}
+
+/**
+ * Follow the liquidation cascade: sell after long liquidations and buy after short
+ * liquidations, but only while mark price has not already run more than 1% past the
+ * liquidation price (avoids chasing an exhausted move).
+ */
+class MomentumStrategy implements SignalStrategy {
+  readonly name = 'momentum' as const;
+  readonly description = 'Trade in the direction of the liquidation, expecting the cascade to continue';
+  readonly followsLiquidation = true;
+
+  evaluate(liquidation: LiquidationEvent, context: SignalContext, _symbolConfig: SymbolConfig): SignalDecision {
+    const priceRatio = liquidation.price / context.markPrice;
+    const confidence = volumeConfidence(context.volumeUSDT);
+
+    if (liquidation.side === 'SELL' && priceRatio < 1.01) {
+      return {
+        side: 'SELL',
+        confidence,
+        priceImpact: (1 - priceRatio) * 100,
+        reasons: [`SELL liquidation cascade at ${((1 - priceRatio) * 100).toFixed(2)}% below mark price`]
+      };
+    }
+
+    if (liquidation.side === 'BUY' && priceRatio > 0.99) {
+      return {
+        side: 'BUY',
+        confidence,
+        priceImpact: (priceRatio - 1) * 100,
+        reasons: [`BUY liquidation cascade at ${((priceRatio - 1) * 100).toFixed(2)}% above mark price`]
+      };
+    }
+
+    return {
+      side: null,
+      confidence: 0,
+      priceImpact: Math.abs(1 - priceRatio) * 100,
+      reasons: [`Mark price already moved past ${liquidation.side} liquidation (ratio ${priceRatio.toFixed(4)})`]
+    };
+  }
+}
+
+const strategies: Record<SignalStrategyName, SignalStrategy> = {
+  contrarian: new ContrarianStrategy(),
+  momentum: new MomentumStrategy(),
+};
+
+// Resolve the strategy configured for a symbol, falling back to the default
+export function getSignalStrategy(name?: string): SignalStrategy {
+  if (name && name in strategies) {
+    return strategies[name as SignalStrategyName];
+  }
+  return strategies[DEFAULT_SIGNAL_STRATEGY];
+}
+
+export function listSignalStrategies(): SignalStrategy[] {
+  return Object.values(strategies);
+}
+
+// Trade side the strategy takes from a liquidation side
+export function getTradeSide(strategy: SignalStrategy, liquidationSide: 'BUY' | 'SELL'): 'BUY' | 'SELL' {
+  if (strategy.followsLiquidation) {
+    return liquidationSide;
+  }
+  return liquidationSide === 'SELL' ? 'BUY' : 'SELL';
+}
+
+// Liquidation side that makes the strategy take a trade side
+export function getTriggerLiquidationSide(strategy: SignalStrategy, tradeSide: 'BUY' | 'SELL'): 'BUY' | 'SELL' {
+  if (strategy.followsLiquidation) {
+    return tradeSide;
+  }
+  return tradeSide === 'BUY' ? 'SELL' : 'BUY';
+}
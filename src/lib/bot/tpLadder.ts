@@ -0,0 +1,136 @@
+import { SymbolConfig, TakeProfitLevel } from '../types';
+import { usesFixedTakeProfit } from './trailingStop';
+
+export interface TakeProfitLadderLevel {
+  percent: number;
+  sizePercent: number;         // Share of the original position closed at this level
+  price: number;
+  orderId?: number;            // Live TAKE_PROFIT_MARKET order for this level (kept after the fill)
+  filled: boolean;
+}
+
+export interface TakeProfitLadderState {
+  entryPrice: number;
+  levels: TakeProfitLadderLevel[];
+  moveStopToBreakeven: boolean;
+  breakevenActive: boolean;    // SL has been moved to the entry price
+  realizedPnl: number;         // Paper mode: PnL booked by filled levels
+  closedQuantity: number;      // Paper mode: quantity closed by filled levels
+}
+
+/**
+ * Resolve the TP ladder for a symbol, or null when no levels are configured or
+ * the trailing stop replaces the fixed TP. Levels are sorted by distance from
+ * entry, sizes are capped at 100% in total and the last level takes the rest.
+ */
+export function getTakeProfitLadder(symbolConfig: SymbolConfig | undefined): TakeProfitLevel[] | null {
+  if (!symbolConfig?.tpLevels?.length || !usesFixedTakeProfit(symbolConfig)) {
+    return null;
+  }
+
+  const sorted = symbolConfig.tpLevels
+    .filter(level => level.percent > 0 && level.sizePercent > 0)
+    .sort((a, b) => a.percent - b.percent);
+
+  const levels: TakeProfitLevel[] = [];
+  let allocated = 0;
+  for (const level of sorted) {
+    if (allocated >= 100) break;
+    const sizePercent = Math.min(level.sizePercent, 100 - allocated);
+    levels.push({ percent: level.percent, sizePercent });
+    allocated += sizePercent;
+  }
+
+  if (levels.length === 0) {
+    return null;
+  }
+
+  levels[levels.length - 1].sizePercent += 100 - allocated;
+  return levels;
+}
+
+export function calculateLevelPrice(entryPrice: number, isLong: boolean, percent: number): number {
+  return isLong
+    ? entryPrice * (1 + percent / 100)
+    : entryPrice * (1 - percent / 100);
+}
+
+export function createTakeProfitLadder(levels: TakeProfitLevel[], entryPrice: number, isLong: boolean, moveStopToBreakeven: boolean): TakeProfitLadderState {
+  return {
+    entryPrice,
+    levels: levels.map(level => ({
+      percent: level.percent,
+      sizePercent: level.sizePercent,
+      price: calculateLevelPrice(entryPrice, isLong, level.percent),
+      filled: false
+    })),
+    moveStopToBreakeven,
+    breakevenActive: false,
+    realizedPnl: 0,
+    closedQuantity: 0
+  };
+}
+
+// Move the remaining levels after the average entry price changed
+export function repriceTakeProfitLadder(state: TakeProfitLadderState, entryPrice: number, isLong: boolean): void {
+  state.entryPrice = entryPrice;
+  for (const level of state.levels) {
+    level.price = calculateLevelPrice(entryPrice, isLong, level.percent);
+  }
+}
+
+export function getRemainingLevels(state: TakeProfitLadderState): TakeProfitLadderLevel[] {
+  return state.levels.filter(level => !level.filled);
+}
+
+// Mark a level as taken; returns true when this is the first fill and the SL should move to breakeven
+export function markLevelFilled(state: TakeProfitLadderState, level: TakeProfitLadderLevel): boolean {
+  level.filled = true;
+
+  if (state.moveStopToBreakeven && !state.breakevenActive) {
+    state.breakevenActive = true;
+    return true;
+  }
+  return false;
+}
+
+function countDecimals(stepSize: number): number {
+  return stepSize >= 1 ? 0 : Math.max(0, Math.ceil(-Math.log10(stepSize) - 1e-9));
+}
+
+/**
+ * Split a position quantity across the remaining levels in proportion to their
+ * size percentages. Each share is rounded down to the step size; a share below
+ * the minimum order quantity rolls into the next level. The last level takes
+ * whatever is left so the orders always add up to the full position.
+ */
+export function allocateLadderQuantities(totalQuantity: number, sizePercents: number[], stepSize: number, minQuantity: number = 0): number[] {
+  const quantities = sizePercents.map(() => 0);
+  if (sizePercents.length === 0 || totalQuantity <= 0) {
+    return quantities;
+  }
+
+  const totalPercent = sizePercents.reduce((sum, percent) => sum + percent, 0);
+  const decimals = stepSize > 0 ? countDecimals(stepSize) : 8;
+  let allocated = 0;
+  let carried = 0;
+
+  for (let i = 0; i < sizePercents.length - 1; i++) {
+    const share = totalQuantity * sizePercents[i] / totalPercent + carried;
+    const quantity = stepSize > 0
+      ? parseFloat((Math.floor(share / stepSize + 1e-9) * stepSize).toFixed(decimals))
+      : share;
+
+    if (quantity <= 0 || quantity < minQuantity) {
+      carried = share;
+      continue;
+    }
+
+    quantities[i] = quantity;
+    allocated += quantity;
+    carried = 0;
+  }
+
+  quantities[quantities.length - 1] = parseFloat(Math.max(0, totalQuantity - allocated).toFixed(decimals));
+  return quantities;
+}
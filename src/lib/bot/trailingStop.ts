@@ -0,0 +1,94 @@
+import { SymbolConfig } from '../types';
+
+// Exchange limits for TRAILING_STOP_MARKET callbackRate (1 = 1%)
+export const MIN_CALLBACK_RATE = 0.1;
+export const MAX_CALLBACK_RATE = 5;
+export const DEFAULT_CALLBACK_RATE = 1;
+
+export interface TrailingStopSettings {
+  activationPercent: number;   // Profit % from entry at which trailing starts
+  callbackRate: number;        // Pullback % from the best price that triggers the stop
+  replaceTakeProfit: boolean;  // Place the trailing stop instead of the fixed TP
+}
+
+// Paper mode mirror of an exchange trailing stop order
+export interface TrailingStopState {
+  activationPrice: number;
+  callbackRate: number;
+  extremePrice: number;        // Highest price (long) / lowest price (short) seen since placement
+  activated: boolean;
+}
+
+export interface TrailingStopUpdate {
+  triggered: boolean;
+  stopPrice: number;           // Current trigger level, 0 until activated
+}
+
+/**
+ * Resolve trailing stop settings for a symbol, or null when disabled.
+ * The callback rate is clamped to the range accepted by the exchange.
+ */
+export function getTrailingStopSettings(symbolConfig: SymbolConfig | undefined): TrailingStopSettings | null {
+  if (!symbolConfig?.trailingStopEnabled) {
+    return null;
+  }
+
+  const callbackRate = symbolConfig.trailingCallbackRate ?? DEFAULT_CALLBACK_RATE;
+
+  return {
+    activationPercent: Math.max(0, symbolConfig.trailingActivationPercent ?? 0),
+    callbackRate: Math.min(MAX_CALLBACK_RATE, Math.max(MIN_CALLBACK_RATE, callbackRate)),
+    replaceTakeProfit: (symbolConfig.trailingStopMode ?? 'REPLACE_TP') === 'REPLACE_TP'
+  };
+}
+
+// Whether a fixed TAKE_PROFIT order should be placed for this symbol
+export function usesFixedTakeProfit(symbolConfig: SymbolConfig | undefined): boolean {
+  const settings = getTrailingStopSettings(symbolConfig);
+  return !settings || !settings.replaceTakeProfit;
+}
+
+export function calculateActivationPrice(entryPrice: number, isLong: boolean, activationPercent: number): number {
+  return isLong
+    ? entryPrice * (1 + activationPercent / 100)
+    : entryPrice * (1 - activationPercent / 100);
+}
+
+export function createTrailingStopState(entryPrice: number, isLong: boolean, settings: TrailingStopSettings): TrailingStopState {
+  return {
+    activationPrice: calculateActivationPrice(entryPrice, isLong, settings.activationPercent),
+    callbackRate: settings.callbackRate,
+    extremePrice: entryPrice,
+    activated: false
+  };
+}
+
+/**
+ * Advance a simulated trailing stop with a new price, using the exchange trigger rules:
+ * - SELL (closing a long): highest price >= activationPrice and price <= highest × (1 - callbackRate)
+ * - BUY (closing a short): lowest price <= activationPrice and price >= lowest × (1 + callbackRate)
+ */
+export function updateTrailingStop(state: TrailingStopState, price: number, isLong: boolean): TrailingStopUpdate {
+  if (isLong) {
+    state.extremePrice = Math.max(state.extremePrice, price);
+    if (!state.activated && state.extremePrice >= state.activationPrice) {
+      state.activated = true;
+    }
+  } else {
+    state.extremePrice = Math.min(state.extremePrice, price);
+    if (!state.activated && state.extremePrice <= state.activationPrice) {
+      state.activated = true;
+    }
+  }
+
+  if (!state.activated) {
+    return { triggered: false, stopPrice: 0 };
+  }
+
+  const stopPrice = isLong
+    ? state.extremePrice * (1 - state.callbackRate / 100)
+    : state.extremePrice * (1 + state.callbackRate / 100);
+
+  const triggered = isLong ? price <= stopPrice : price >= stopPrice;
+  return { triggered, stopPrice };
+}
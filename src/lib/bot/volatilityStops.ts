@@ -0,0 +1,157 @@
+import { SymbolConfig } from '../types';
+import { getKlines } from '../api/market';
+import { vwapStreamer } from '../services/vwapStreamer';
+import { logWarnWithTimestamp } from '../utils/timestamp';
+
+export interface VolatilityStopSettings {
+  timeframe: string;
+  period: number;
+  slMultiplier: number;
+  tpMultiplier: number;
+  minPercent: number;           // Clamp for both distances, in %
+  maxPercent: number;
+}
+
+export interface ProtectionDistances {
+  slPercent: number;
+  tpPercent: number;
+  source: 'FIXED' | 'ATR';
+  atr?: number;                 // ATR in price units when source is 'ATR'
+  atrPercent?: number;          // ATR as % of the entry price
+}
+
+export interface AtrCandle {
+  high: number;
+  low: number;
+  close: number;
+}
+
+const DEFAULT_TIMEFRAME = '5m';
+const DEFAULT_PERIOD = 14;
+const DEFAULT_SL_MULTIPLIER = 1.5;
+const DEFAULT_TP_MULTIPLIER = 3;
+const DEFAULT_MIN_PERCENT = 0.2;
+const DEFAULT_MAX_PERCENT = 10;
+const ATR_CACHE_MS = 60000;
+
+// Resolve volatility stop settings for a symbol, or null when SL/TP use the fixed percentages
+export function getVolatilityStopSettings(symbolConfig: SymbolConfig | undefined): VolatilityStopSettings | null {
+  if (!symbolConfig?.volatilityStops) {
+    return null;
+  }
+
+  const minPercent = Math.max(0, symbolConfig.minStopPercent ?? DEFAULT_MIN_PERCENT);
+  const maxPercent = Math.max(minPercent, symbolConfig.maxStopPercent ?? DEFAULT_MAX_PERCENT);
+
+  return {
+    timeframe: symbolConfig.atrTimeframe || DEFAULT_TIMEFRAME,
+    period: Math.max(1, Math.floor(symbolConfig.atrPeriod ?? DEFAULT_PERIOD)),
+    slMultiplier: symbolConfig.slAtrMultiplier ?? DEFAULT_SL_MULTIPLIER,
+    tpMultiplier: symbolConfig.tpAtrMultiplier ?? DEFAULT_TP_MULTIPLIER,
+    minPercent,
+    maxPercent
+  };
+}
+
+/**
+ * Average true range with Wilder's smoothing: seeded with the mean of the first
+ * `period` true ranges, then ATR = (prevATR * (period - 1) + TR) / period.
+ * Needs at least period + 1 candles (oldest first), otherwise returns null.
+ */
+export function calculateATR(candles: AtrCandle[], period: number): number | null {
+  if (period < 1 || candles.length < period + 1) {
+    return null;
+  }
+
+  const trueRanges: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const prevClose = candles[i - 1].close;
+    trueRanges.push(Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose)));
+  }
+
+  let atr = trueRanges.slice(0, period).reduce((sum, range) => sum + range, 0) / period;
+  for (let i = period; i < trueRanges.length; i++) {
+    atr = (atr * (period - 1) + trueRanges[i]) / period;
+  }
+
+  return Number.isFinite(atr) ? atr : null;
+}
+
+export function getFixedProtectionDistances(symbolConfig: SymbolConfig): ProtectionDistances {
+  return { slPercent: symbolConfig.slPercent, tpPercent: symbolConfig.tpPercent, source: 'FIXED' };
+}
+
+/**
+ * SL/TP distances in percent of the entry price. With volatility stops and a
+ * usable ATR they are the ATR multiples clamped to [minPercent, maxPercent];
+ * otherwise the symbol's fixed slPercent/tpPercent.
+ */
+export function resolveProtectionDistances(symbolConfig: SymbolConfig, entryPrice: number, atr: number | null): ProtectionDistances {
+  const settings = getVolatilityStopSettings(symbolConfig);
+  if (!settings || atr === null || atr <= 0 || !(entryPrice > 0)) {
+    return getFixedProtectionDistances(symbolConfig);
+  }
+
+  const clamp = (percent: number) => Math.min(settings.maxPercent, Math.max(settings.minPercent, percent));
+  const atrPercent = (atr / entryPrice) * 100;
+
+  return {
+    slPercent: clamp(atrPercent * settings.slMultiplier),
+    tpPercent: clamp(atrPercent * settings.tpMultiplier),
+    source: 'ATR',
+    atr,
+    atrPercent
+  };
+}
+
+const atrCache: Map<string, { atr: number; timestamp: number }> = new Map();
+
+// ATR from the VWAP streamer's candles when it streams the same timeframe, otherwise from the klines endpoint
+export async function getSymbolATR(symbol: string, settings: VolatilityStopSettings): Promise<number | null> {
+  const streamed = vwapStreamer.getKlineBuffer(symbol);
+  if (streamed && streamed.timeframe === settings.timeframe) {
+    const atr = calculateATR(streamed.candles, settings.period);
+    if (atr !== null) {
+      return atr;
+    }
+  }
+
+  const cacheKey = `${symbol}_${settings.timeframe}_${settings.period}`;
+  const cached = atrCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < ATR_CACHE_MS) {
+    return cached.atr;
+  }
+
+  // Extra candles give the smoothing time to settle
+  const klines = await getKlines(symbol, settings.timeframe, settings.period * 3 + 1);
+  const atr = calculateATR(klines.map(kline => ({
+    high: parseFloat(kline.high),
+    low: parseFloat(kline.low),
+    close: parseFloat(kline.close)
+  })), settings.period);
+
+  if (atr !== null) {
+    atrCache.set(cacheKey, { atr, timestamp: Date.now() });
+  }
+  return atr;
+}
+
+// Protection distances for a new position, falling back to the fixed percentages when the ATR is unavailable
+export async function getProtectionDistances(symbol: string, symbolConfig: SymbolConfig, entryPrice: number): Promise<ProtectionDistances> {
+  const settings = getVolatilityStopSettings(symbolConfig);
+  if (!settings) {
+    return getFixedProtectionDistances(symbolConfig);
+  }
+
+  try {
+    const atr = await getSymbolATR(symbol, settings);
+    if (atr === null) {
+logWarnWithTimestamp(`VolatilityStops: Not enough ${settings.timeframe} candles for ${symbol} ATR, using fixed SL/TP`);
+    }
+    return resolveProtectionDistances(symbolConfig, entryPrice, atr);
+  } catch (error: any) {
+logWarnWithTimestamp(`VolatilityStops: Failed to get ATR for ${symbol}, using fixed SL/TP:`, error?.message || error);
+    return getFixedProtectionDistances(symbolConfig);
+  }
+}
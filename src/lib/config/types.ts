@@ -17,20 +17,74 @@ export const symbolConfigSchema = z.object({
   tpPercent: z.number().min(0.1),
   slPercent: z.number().min(0.1),
 
+  // Volatility-scaled stops (optional)
+  volatilityStops: z.boolean().optional(),
+  atrTimeframe: z.string().optional(),
+  atrPeriod: z.number().min(2).max(200).optional(),
+  slAtrMultiplier: z.number().min(0.1).max(20).optional(),
+  tpAtrMultiplier: z.number().min(0.1).max(50).optional(),
+  minStopPercent: z.number().min(0.01).optional(),
+  maxStopPercent: z.number().min(0.01).max(100).optional(),
+
+  // Breakeven and time-based exits (optional)
+  breakevenTriggerPercent: z.number().min(0).optional(),
+  breakevenFeePercent: z.number().min(0).max(5).optional(),
+  maxHoldMinutes: z.number().min(0).optional(),
+  timeoutAction: z.enum(['CLOSE', 'TIGHTEN_TP']).optional(),
+  timeoutTpPercent: z.number().min(0).optional(),
+
+  // Trailing stop settings (optional)
+  trailingStopEnabled: z.boolean().optional(),
+  trailingActivationPercent: z.number().min(0).optional(),
+  trailingCallbackRate: z.number().min(0.1).max(5).optional(),
+  trailingStopMode: z.enum(['REPLACE_TP', 'WITH_TP']).optional(),
+
+  // Partial take-profit ladder (optional)
+  tpLevels: z.array(z.object({
+    percent: z.number().min(0.1),
+    sizePercent: z.number().min(1).max(100),
+  })).max(10).optional(),
+  tpLadderBreakeven: z.boolean().optional(),
+
+  // Scale-in settings (optional)
+  scaleInEnabled: z.boolean().optional(),
+  scaleInMaxAdds: z.number().min(1).max(10).optional(),
+  scaleInMinDistancePercent: z.number().min(0).optional(),
+  scaleInSizeMultipliers: z.array(z.number().min(0.1).max(10)).max(10).optional(),
+
   // Limit order settings (optional)
   priceOffsetBps: z.number().optional(),
   usePostOnly: z.boolean().optional(),
   maxSlippageBps: z.number().optional(),
   orderType: z.enum(['LIMIT', 'MARKET']).optional(),
 
+  // Entry signal settings (optional)
+  signalStrategy: z.enum(['contrarian', 'momentum']).optional(),
+
   // VWAP protection settings (optional)
   vwapProtection: z.boolean().optional(),
   vwapTimeframe: z.string().optional(),
   vwapLookback: z.number().min(10).max(500).optional(),
 
+  // Order book entry filters (optional)
+  maxSpreadBps: z.number().min(0).optional(),
+  minBookDepthUSDT: z.number().min(0).optional(),
+  bookDepthRangeBps: z.number().min(1).max(1000).optional(),
+  minBookImbalance: z.number().min(0).optional(),
+
+  // Funding filters (optional)
+  maxAdverseFundingRate: z.number().min(0).optional(),
+  fundingBlackoutMinutes: z.number().min(0).max(480).optional(),
+
   // Threshold system settings
   useThreshold: z.boolean().optional(),
 
+  // Adaptive threshold settings
+  adaptiveThreshold: z.boolean().optional(),
+  adaptivePercentile: z.number().min(1).max(99.9).optional(),
+  adaptiveWindowHours: z.number().min(1).max(720).optional(),
+  adaptiveMinSamples: z.number().min(1).optional(),
+
   // Position limit settings (per symbol)
   maxPositionsPerPair: z.number().min(1).max(20).optional(), // Default: unlimited
   maxLongPositions: z.number().min(1).max(20).optional(), // Override for longs
@@ -85,6 +139,7 @@ export const telegramNotificationsSchema = z.object({
   errors: z.boolean().default(true),
   lowBalance: z.boolean().default(true),
   lowBalanceThreshold: z.number().default(100), // USDT
+  liquidationRisk: z.boolean().default(true),
 }).optional();
 
 export const telegramConfigSchema = z.object({
@@ -94,9 +149,98 @@ export const telegramConfigSchema = z.object({
   notifications: telegramNotificationsSchema,
 }).optional();
 
+export const riskLimitsConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  maxDailyLossUSDT: z.number().min(0).optional(),
+  maxDrawdownPercent: z.number().min(0).max(100).optional(),
+  maxConsecutiveLosses: z.number().int().min(1).optional(),
+  flattenOnBreach: z.boolean().optional(),
+}).optional();
+
+export const exposureLimitsConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  maxTotalNotionalUSDT: z.number().min(0).optional(),
+  maxNetNotionalUSDT: z.number().min(0).optional(),
+  groups: z.record(z.object({
+    symbols: z.array(z.string()),
+    maxNotionalUSDT: z.number().min(0),
+  })).optional(),
+}).optional();
+
+export const liquidationGuardConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  warningDistancePercent: z.number().min(0).max(100).optional(),
+  criticalDistancePercent: z.number().min(0).max(100).optional(),
+  criticalAction: z.enum(['ALERT', 'REDUCE', 'ADD_MARGIN']).optional(),
+  reducePercent: z.number().min(0).max(100).optional(),
+  maxAddMarginUSDT: z.number().min(0).optional(),
+  alertCooldownMinutes: z.number().min(0).optional(),
+}).optional();
+
+export const paperExecutionConfigSchema = z.object({
+  makerFeePercent: z.number().min(0).optional(),
+  takerFeePercent: z.number().min(0).optional(),
+  useExchangeFees: z.boolean().optional(),
+  marketSlippagePercent: z.number().min(0).optional(),
+  stopSlippagePercent: z.number().min(0).optional(),
+  takeProfitSlippagePercent: z.number().min(0).optional(),
+  limitThroughPercent: z.number().min(0).optional(),
+  limitTouchFillPercent: z.number().min(1).max(100).optional(),
+  limitTimeoutSeconds: z.number().min(0).optional(),
+}).optional();
+
+export const shadowModeConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  symbols: z.record(symbolConfigSchema.innerType().partial()).optional(),
+  global: z.object({
+    riskPercent: z.number().min(0).max(100).optional(),
+    sizingMode: z.enum(['FIXED', 'RISK']).optional(),
+    maxOpenPositions: z.number().min(1).optional(),
+    useThresholdSystem: z.boolean().optional(),
+    exposureLimits: exposureLimitsConfigSchema,
+    paperExecution: paperExecutionConfigSchema,
+  }).optional(),
+}).optional();
+
+export const orderHeartbeatConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  intervalMs: z.number().min(1000).optional(),
+  countdownMs: z.number().min(5000).optional(),
+}).optional();
+
+export const recordingConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  filePath: z.string().optional(),
+  includeMarkPrices: z.boolean().optional(),
+}).optional();
+
+export const replayConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  filePath: z.string().optional(),
+  speed: z.number().min(0).optional(),
+}).optional();
+
+export const simulatorConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  port: z.number().min(0).max(65535).optional(),
+  scriptPath: z.string().optional(),
+  stepMs: z.number().min(0).optional(),
+  startingBalance: z.number().min(0).optional(),
+  hedgeMode: z.boolean().optional(),
+}).optional();
+
+export const exchangeEndpointsSchema = z.object({
+  restBaseUrl: z.string().url().optional(),
+  wsBaseUrl: z.string().url().optional(),
+  marketStreamBaseUrl: z.string().url().optional(),
+  userStreamBaseUrl: z.string().url().optional(),
+}).optional();
+
 export const globalConfigSchema = z.object({
   riskPercent: z.number().min(0).max(100),
+  sizingMode: z.enum(['FIXED', 'RISK']).optional(),
   paperMode: z.boolean(),
+  paperAccount: z.string().min(1).optional(),
   positionMode: z.enum(['ONE_WAY', 'HEDGE']).optional(),
   maxOpenPositions: z.number().min(1).optional(),
   useThresholdSystem: z.boolean().optional(),
@@ -104,6 +248,16 @@ export const globalConfigSchema = z.object({
   rateLimit: rateLimitConfigSchema,
   copyTrading: copyTradingConfigSchema,
   telegram: telegramConfigSchema,
+  riskLimits: riskLimitsConfigSchema,
+  exposureLimits: exposureLimitsConfigSchema,
+  liquidationGuard: liquidationGuardConfigSchema,
+  paperExecution: paperExecutionConfigSchema,
+  shadowMode: shadowModeConfigSchema,
+  orderHeartbeat: orderHeartbeatConfigSchema,
+  recording: recordingConfigSchema,
+  replay: replayConfigSchema,
+  simulator: simulatorConfigSchema,
+  endpoints: exchangeEndpointsSchema,
 });
 
 export const configSchema = z.object({
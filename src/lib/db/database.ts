@@ -130,7 +130,8 @@ export class Database {
         duration_seconds INTEGER,
         max_pnl REAL DEFAULT 0,
         min_pnl REAL DEFAULT 0,
-        metadata TEXT
+        metadata TEXT,
+        account TEXT NOT NULL DEFAULT 'default'
       );
 
       CREATE INDEX IF NOT EXISTS idx_paper_trades_symbol
@@ -145,12 +146,97 @@ export class Database {
       CREATE INDEX IF NOT EXISTS idx_paper_trades_closed_at
         ON paper_trades(closed_at);
 
+      CREATE TABLE IF NOT EXISTS live_trades (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        symbol TEXT NOT NULL,
+        side TEXT NOT NULL,
+        position_side TEXT NOT NULL,
+        quantity REAL NOT NULL,
+        closed_quantity REAL DEFAULT 0,
+        entry_price REAL NOT NULL,
+        exit_price REAL,
+        leverage INTEGER NOT NULL,
+        entry_order_id TEXT,
+        entry_order_type TEXT,
+        protective_orders TEXT,
+        status TEXT DEFAULT 'open',
+        opened_at INTEGER NOT NULL,
+        closed_at INTEGER,
+        close_reason TEXT,
+        realized_pnl REAL DEFAULT 0,
+        fees REAL DEFAULT 0,
+        pnl REAL,
+        pnl_percent REAL,
+        duration_seconds INTEGER,
+        mae REAL DEFAULT 0,
+        mfe REAL DEFAULT 0,
+        liquidation_side TEXT,
+        liquidation_price REAL,
+        liquidation_quantity REAL,
+        liquidation_volume_usdt REAL,
+        liquidation_time INTEGER,
+        metadata TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_live_trades_symbol
+        ON live_trades(symbol);
+
+      CREATE INDEX IF NOT EXISTS idx_live_trades_status
+        ON live_trades(status);
+
+      CREATE INDEX IF NOT EXISTS idx_live_trades_opened_at
+        ON live_trades(opened_at);
+
+      CREATE INDEX IF NOT EXISTS idx_live_trades_entry_order_id
+        ON live_trades(entry_order_id);
+
+      CREATE TABLE IF NOT EXISTS position_order_tracking (
+        position_key TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        symbol TEXT NOT NULL,
+        sl_order_id INTEGER,
+        tp_order_id INTEGER,
+        trailing_order_id INTEGER,
+        sl_price REAL,
+        tp_price REAL,
+        trailing_stop TEXT,
+        tp_ladder TEXT,
+        signal TEXT,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (mode, position_key)
+      );
+
+      CREATE TABLE IF NOT EXISTS pending_entry_orders (
+        order_id TEXT PRIMARY KEY,
+        symbol TEXT NOT NULL,
+        side TEXT NOT NULL,
+        notional_usdt REAL,
+        signal TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS risk_guard_state (
+        mode TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
       CREATE TABLE IF NOT EXISTS paper_balance_state (
         id INTEGER PRIMARY KEY CHECK (id = 1),
         starting_balance REAL NOT NULL DEFAULT 10000,
         realized_pnl REAL NOT NULL DEFAULT 0,
         updated_at INTEGER NOT NULL
       );
+
+      CREATE TABLE IF NOT EXISTS paper_accounts (
+        name TEXT PRIMARY KEY,
+        starting_balance REAL NOT NULL DEFAULT 10000,
+        realized_pnl REAL NOT NULL DEFAULT 0,
+        config_snapshot TEXT,
+        created_at INTEGER NOT NULL,
+        reset_at INTEGER,
+        updated_at INTEGER NOT NULL
+      );
     `;
 
     this.db.exec(schema, (err) => {
@@ -158,10 +244,31 @@ export class Database {
         console.error('Error creating schema:', err);
       } else {
         console.log('Database schema initialized');
+        this.addMissingColumns().catch(error => {
+          console.error('Error adding new columns:', error);
+        });
       }
     });
   }
 
+  // CREATE TABLE IF NOT EXISTS leaves tables from older versions as they were - add columns introduced since
+  private async addMissingColumns(): Promise<void> {
+    const columns = [
+      { table: 'paper_trades', column: 'account', definition: "TEXT NOT NULL DEFAULT 'default'" },
+      { table: 'pending_entry_orders', column: 'notional_usdt', definition: 'REAL' },
+    ];
+
+    for (const { table, column, definition } of columns) {
+      const existing = await this.all<{ name: string }>(`PRAGMA table_info(${table})`);
+      if (!existing.some(c => c.name === column)) {
+        await this.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+        console.log(`Added column ${table}.${column}`);
+      }
+    }
+
+    await this.run('CREATE INDEX IF NOT EXISTS idx_paper_trades_account ON paper_trades(account)');
+  }
+
   async run(sql: string, params: any[] = []): Promise<void> {
     return new Promise((resolve, reject) => {
       this.db.run(sql, params, function(err) {
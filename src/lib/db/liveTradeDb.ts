@@ -0,0 +1,249 @@
+import { db } from './database';
+
+export type LiveTradeCloseReason = 'SL' | 'TP' | 'TRAILING_STOP' | 'BREAKEVEN' | 'TIMEOUT' | 'DELEVERAGE' | 'MANUAL' | 'LIQUIDATION' | 'UNKNOWN';
+
+export interface LiveTrade {
+  id?: number;
+  symbol: string;
+  side: string;                  // Entry order side (BUY/SELL)
+  position_side: string;         // LONG/SHORT
+  quantity: number;              // Total quantity entered, including scale-in adds
+  closed_quantity?: number;
+  entry_price: number;           // Average entry price
+  exit_price?: number;           // Average exit price
+  leverage: number;
+  entry_order_id?: string;
+  entry_order_type?: string;
+  protective_orders?: string;    // JSON array of LiveTradeProtectiveOrder
+  status: 'open' | 'closed';
+  opened_at: number;
+  closed_at?: number;
+  close_reason?: LiveTradeCloseReason;
+  realized_pnl?: number;         // Gross realized PnL reported by the exchange
+  fees?: number;                 // Commissions paid on entry and exit fills
+  pnl?: number;                  // Net PnL (realized_pnl - fees)
+  pnl_percent?: number;          // Net PnL as % of the entry margin
+  duration_seconds?: number;
+  mae?: number;                  // Max adverse excursion in USDT (<= 0)
+  mfe?: number;                  // Max favorable excursion in USDT (>= 0)
+  liquidation_side?: string;     // Liquidation that triggered the entry
+  liquidation_price?: number;
+  liquidation_quantity?: number;
+  liquidation_volume_usdt?: number;
+  liquidation_time?: number;
+  metadata?: string;
+}
+
+export interface LiveTradeProtectiveOrder {
+  orderId: string;
+  type: string;                  // Exchange order type (STOP_MARKET, TAKE_PROFIT_MARKET, ...)
+  role: 'SL' | 'TP' | 'TRAILING_STOP';
+  stopPrice: number;
+  quantity: number;
+  status: string;                // Last known order status
+  placedAt: number;
+}
+
+class LiveTradeDb {
+  /**
+   * Save a new live trade when the first entry fill arrives
+   */
+  async saveTrade(trade: Omit<LiveTrade, 'id'>): Promise<number> {
+    const sql = `
+      INSERT INTO live_trades (
+        symbol, side, position_side, quantity, closed_quantity, entry_price, leverage,
+        entry_order_id, entry_order_type, protective_orders, status, opened_at,
+        realized_pnl, fees, mae, mfe, liquidation_side, liquidation_price,
+        liquidation_quantity, liquidation_volume_usdt, liquidation_time, metadata
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    const params = [
+      trade.symbol,
+      trade.side,
+      trade.position_side,
+      trade.quantity,
+      trade.closed_quantity || 0,
+      trade.entry_price,
+      trade.leverage,
+      trade.entry_order_id || null,
+      trade.entry_order_type || null,
+      trade.protective_orders || null,
+      trade.status || 'open',
+      trade.opened_at,
+      trade.realized_pnl || 0,
+      trade.fees || 0,
+      trade.mae || 0,
+      trade.mfe || 0,
+      trade.liquidation_side || null,
+      trade.liquidation_price ?? null,
+      trade.liquidation_quantity ?? null,
+      trade.liquidation_volume_usdt ?? null,
+      trade.liquidation_time ?? null,
+      trade.metadata || null,
+    ];
+
+    return new Promise((resolve, reject) => {
+      db['db'].run(sql, params, function(err) {
+        if (err) reject(err);
+        else resolve(this.lastID);
+      });
+    });
+  }
+
+  /**
+   * Update an open live trade (fills, fees, protective orders and excursions)
+   */
+  async updateTrade(id: number, updates: Partial<LiveTrade>): Promise<void> {
+    const columns: Array<keyof LiveTrade> = [
+      'quantity', 'closed_quantity', 'entry_price', 'exit_price', 'leverage', 'entry_order_id', 'entry_order_type',
+      'protective_orders', 'realized_pnl', 'fees', 'mae', 'mfe', 'liquidation_side', 'liquidation_price',
+      'liquidation_quantity', 'liquidation_volume_usdt', 'liquidation_time', 'metadata',
+    ];
+
+    const fields: string[] = [];
+    const params: any[] = [];
+
+    for (const column of columns) {
+      if (updates[column] !== undefined) {
+        fields.push(`${column} = ?`);
+        params.push(updates[column]);
+      }
+    }
+
+    if (fields.length === 0) return;
+
+    params.push(id);
+    const sql = `UPDATE live_trades SET ${fields.join(', ')} WHERE id = ?`;
+
+    await db.run(sql, params);
+  }
+
+  /**
+   * Close a live trade with its final exit, PnL and close reason
+   */
+  async closeTrade(
+    id: number,
+    close: {
+      exitPrice: number;
+      closedQuantity: number;
+      realizedPnl: number;
+      fees: number;
+      pnl: number;
+      pnlPercent: number;
+      mae: number;
+      mfe: number;
+      closeReason: LiveTradeCloseReason;
+      closedAt?: number;
+    }
+  ): Promise<void> {
+    const sql = `
+      UPDATE live_trades
+      SET
+        exit_price = ?,
+        closed_quantity = ?,
+        realized_pnl = ?,
+        fees = ?,
+        pnl = ?,
+        pnl_percent = ?,
+        mae = ?,
+        mfe = ?,
+        close_reason = ?,
+        status = 'closed',
+        closed_at = ?,
+        duration_seconds = (? - opened_at) / 1000
+      WHERE id = ?
+    `;
+
+    const closedAt = close.closedAt ?? Date.now();
+    const params = [
+      close.exitPrice,
+      close.closedQuantity,
+      close.realizedPnl,
+      close.fees,
+      close.pnl,
+      close.pnlPercent,
+      close.mae,
+      close.mfe,
+      close.closeReason,
+      closedAt,
+      closedAt,
+      id,
+    ];
+
+    await db.run(sql, params);
+  }
+
+  /**
+   * Get a live trade by ID
+   */
+  async getTrade(id: number): Promise<LiveTrade | undefined> {
+    const sql = 'SELECT * FROM live_trades WHERE id = ?';
+    return await db.get<LiveTrade>(sql, [id]);
+  }
+
+  /**
+   * Get all open live trades
+   */
+  async getOpenTrades(): Promise<LiveTrade[]> {
+    const sql = 'SELECT * FROM live_trades WHERE status = \'open\' ORDER BY opened_at DESC';
+    return await db.all<LiveTrade>(sql);
+  }
+
+  /**
+   * Get live trades with optional filters
+   */
+  async getTrades(filters?: {
+    symbol?: string;
+    status?: 'open' | 'closed';
+    closeReason?: string;
+    startDate?: number;
+    endDate?: number;
+    limit?: number;
+    offset?: number;
+  }): Promise<LiveTrade[]> {
+    let sql = 'SELECT * FROM live_trades WHERE 1=1';
+    const params: any[] = [];
+
+    if (filters?.symbol) {
+      sql += ' AND symbol = ?';
+      params.push(filters.symbol);
+    }
+
+    if (filters?.status) {
+      sql += ' AND status = ?';
+      params.push(filters.status);
+    }
+
+    if (filters?.closeReason) {
+      sql += ' AND close_reason = ?';
+      params.push(filters.closeReason);
+    }
+
+    if (filters?.startDate) {
+      sql += ' AND opened_at >= ?';
+      params.push(filters.startDate);
+    }
+
+    if (filters?.endDate) {
+      sql += ' AND opened_at <= ?';
+      params.push(filters.endDate);
+    }
+
+    sql += ' ORDER BY opened_at DESC';
+
+    if (filters?.limit) {
+      sql += ' LIMIT ?';
+      params.push(filters.limit);
+
+      if (filters?.offset) {
+        sql += ' OFFSET ?';
+        params.push(filters.offset);
+      }
+    }
+
+    return await db.all<LiveTrade>(sql, params);
+  }
+}
+
+export const liveTradeDb = new LiveTradeDb();
@@ -0,0 +1,118 @@
+import { db } from './database';
+import { LiquidationEvent } from '../types';
+
+export type OrderTrackingMode = 'live' | 'paper' | 'shadow';
+
+// Liquidation that triggered an entry, kept with the order tracking for auditing
+export interface TrackedSignal {
+  liquidationSide: 'BUY' | 'SELL';
+  liquidationPrice: number;
+  liquidationQty: number;
+  liquidationTime: number;
+}
+
+export interface PositionOrderTrackingRow {
+  position_key: string;
+  mode: OrderTrackingMode;
+  symbol: string;
+  sl_order_id: number | null;
+  tp_order_id: number | null;
+  trailing_order_id: number | null;
+  sl_price: number | null;
+  tp_price: number | null;
+  trailing_stop: string | null;  // JSON TrailingStopState
+  tp_ladder: string | null;      // JSON TakeProfitLadderState
+  signal: string | null;         // JSON TrackedSignal
+  updated_at: number;
+}
+
+export interface PendingEntryOrderRow {
+  order_id: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  notional_usdt: number | null;  // Entry notional, counted against the exposure caps until it fills
+  signal: string | null;         // JSON TrackedSignal
+  created_at: number;
+}
+
+export function toTrackedSignal(liquidation: LiquidationEvent): TrackedSignal {
+  return {
+    liquidationSide: liquidation.side,
+    liquidationPrice: liquidation.price,
+    liquidationQty: liquidation.qty,
+    liquidationTime: liquidation.eventTime,
+  };
+}
+
+class OrderTrackingDb {
+  /**
+   * Insert or replace the order tracking of a position
+   */
+  async saveTracking(row: PositionOrderTrackingRow): Promise<void> {
+    const sql = `
+      INSERT OR REPLACE INTO position_order_tracking (
+        position_key, mode, symbol, sl_order_id, tp_order_id, trailing_order_id,
+        sl_price, tp_price, trailing_stop, tp_ladder, signal, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await db.run(sql, [
+      row.position_key,
+      row.mode,
+      row.symbol,
+      row.sl_order_id,
+      row.tp_order_id,
+      row.trailing_order_id,
+      row.sl_price,
+      row.tp_price,
+      row.trailing_stop,
+      row.tp_ladder,
+      row.signal,
+      row.updated_at,
+    ]);
+  }
+
+  /**
+   * Remove the order tracking of a closed position
+   */
+  async deleteTracking(mode: OrderTrackingMode, positionKey: string): Promise<void> {
+    await db.run('DELETE FROM position_order_tracking WHERE mode = ? AND position_key = ?', [mode, positionKey]);
+  }
+
+  /**
+   * Get all persisted order tracking for a trading mode
+   */
+  async getTracking(mode: OrderTrackingMode): Promise<PositionOrderTrackingRow[]> {
+    return await db.all<PositionOrderTrackingRow>(
+      'SELECT * FROM position_order_tracking WHERE mode = ? ORDER BY updated_at ASC',
+      [mode]
+    );
+  }
+
+  /**
+   * Save an entry order that was placed but has not filled yet
+   */
+  async savePendingOrder(row: PendingEntryOrderRow): Promise<void> {
+    const sql = `
+      INSERT OR REPLACE INTO pending_entry_orders (order_id, symbol, side, notional_usdt, signal, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `;
+    await db.run(sql, [row.order_id, row.symbol, row.side, row.notional_usdt, row.signal, row.created_at]);
+  }
+
+  /**
+   * Remove a pending entry order (filled, cancelled or stale)
+   */
+  async deletePendingOrder(orderId: string): Promise<void> {
+    await db.run('DELETE FROM pending_entry_orders WHERE order_id = ?', [orderId]);
+  }
+
+  /**
+   * Get all pending entry orders
+   */
+  async getPendingOrders(): Promise<PendingEntryOrderRow[]> {
+    return await db.all<PendingEntryOrderRow>('SELECT * FROM pending_entry_orders ORDER BY created_at ASC');
+  }
+}
+
+export const orderTrackingDb = new OrderTrackingDb();
@@ -0,0 +1,91 @@
+import { db } from './database';
+import { DEFAULT_PAPER_ACCOUNT } from './paperTradeDb';
+
+export const DEFAULT_PAPER_STARTING_BALANCE = 10000;
+
+export interface PaperAccount {
+  name: string;
+  starting_balance: number;
+  realized_pnl: number;
+  config_snapshot?: string;  // JSON PaperConfigSnapshot the account trades with
+  created_at: number;
+  reset_at?: number;
+  updated_at: number;
+}
+
+class PaperAccountDb {
+  /**
+   * Make sure the default account exists, carrying over the balance of the
+   * single-account paper_balance_state table it replaces
+   */
+  async ensureDefaultAccount(startingBalance: number = DEFAULT_PAPER_STARTING_BALANCE): Promise<PaperAccount> {
+    const existing = await this.getAccount(DEFAULT_PAPER_ACCOUNT);
+    if (existing) return existing;
+
+    const legacy = await db.get<{ starting_balance: number; realized_pnl: number }>(
+      'SELECT * FROM paper_balance_state WHERE id = 1'
+    ).catch(() => undefined);
+
+    const now = Date.now();
+    await db.run(
+      `INSERT OR IGNORE INTO paper_accounts (name, starting_balance, realized_pnl, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [DEFAULT_PAPER_ACCOUNT, legacy?.starting_balance ?? startingBalance, legacy?.realized_pnl ?? 0, now, now]
+    );
+
+    return (await this.getAccount(DEFAULT_PAPER_ACCOUNT))!;
+  }
+
+  async getAccount(name: string): Promise<PaperAccount | undefined> {
+    return await db.get<PaperAccount>('SELECT * FROM paper_accounts WHERE name = ?', [name]);
+  }
+
+  async getAccounts(): Promise<PaperAccount[]> {
+    await this.ensureDefaultAccount();
+    return await db.all<PaperAccount>('SELECT * FROM paper_accounts ORDER BY created_at ASC');
+  }
+
+  async createAccount(name: string, startingBalance: number, configSnapshot?: string): Promise<PaperAccount> {
+    const now = Date.now();
+    await db.run(
+      `INSERT INTO paper_accounts (name, starting_balance, realized_pnl, config_snapshot, created_at, updated_at)
+       VALUES (?, ?, 0, ?, ?, ?)`,
+      [name, startingBalance, configSnapshot || null, now, now]
+    );
+
+    return (await this.getAccount(name))!;
+  }
+
+  /**
+   * Book closed-trade PnL to an account. An increment rather than a write of
+   * the bot's in-memory total, so a reset made from the dashboard is not undone.
+   */
+  async addRealizedPnl(name: string, pnl: number): Promise<void> {
+    await db.run(
+      'UPDATE paper_accounts SET realized_pnl = realized_pnl + ?, updated_at = ? WHERE name = ?',
+      [pnl, Date.now(), name]
+    );
+  }
+
+  async saveConfigSnapshot(name: string, configSnapshot: string): Promise<void> {
+    await db.run(
+      'UPDATE paper_accounts SET config_snapshot = ?, updated_at = ? WHERE name = ?',
+      [configSnapshot, Date.now(), name]
+    );
+  }
+
+  /**
+   * Reset an account to its starting balance (or a new one)
+   */
+  async resetAccount(name: string, startingBalance?: number): Promise<void> {
+    const now = Date.now();
+    await db.run(
+      `UPDATE paper_accounts
+       SET starting_balance = COALESCE(?, starting_balance), realized_pnl = 0, reset_at = ?, updated_at = ?
+       WHERE name = ?`,
+      [startingBalance ?? null, now, now, name]
+    );
+  }
+}
+
+export const paperAccountDb = new PaperAccountDb();
@@ -1,5 +1,9 @@
 import { db } from './database';
 
+// The paper account used until another is created, and the one shadow mode trades in alongside live trading
+export const DEFAULT_PAPER_ACCOUNT = 'default';
+export const SHADOW_PAPER_ACCOUNT = 'shadow';
+
 export interface PaperTrade {
   id?: number;
   symbol: string;
@@ -20,6 +24,7 @@ export interface PaperTrade {
   max_pnl?: number;
   min_pnl?: number;
   metadata?: string;
+  account?: string;  // Paper account the trade belongs to (default: 'default')
 }
 
 export interface PaperTradeStats {
@@ -46,8 +51,8 @@ class PaperTradeDb {
     const sql = `
       INSERT INTO paper_trades (
         symbol, side, position_side, quantity, entry_price,
-        leverage, margin, status, opened_at, max_pnl, min_pnl, metadata
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        leverage, margin, status, opened_at, max_pnl, min_pnl, metadata, account
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     const params = [
@@ -63,6 +68,7 @@ class PaperTradeDb {
       trade.max_pnl || 0,
       trade.min_pnl || 0,
       trade.metadata || null,
+      trade.account || DEFAULT_PAPER_ACCOUNT,
     ];
 
     return new Promise((resolve, reject) => {
@@ -74,12 +80,25 @@ class PaperTradeDb {
   }
 
   /**
-   * Update an existing paper trade (for tracking max/min PnL)
+   * Update an existing paper trade (for tracking max/min PnL and scale-in adds)
    */
   async updateTrade(id: number, updates: Partial<PaperTrade>): Promise<void> {
     const fields: string[] = [];
     const params: any[] = [];
 
+    if (updates.quantity !== undefined) {
+      fields.push('quantity = ?');
+      params.push(updates.quantity);
+    }
+    if (updates.entry_price !== undefined) {
+      fields.push('entry_price = ?');
+      params.push(updates.entry_price);
+    }
+    if (updates.margin !== undefined) {
+      fields.push('margin = ?');
+      params.push(updates.margin);
+    }
+
     if (updates.pnl !== undefined) {
       fields.push('pnl = ?');
       params.push(updates.pnl);
@@ -169,12 +188,18 @@ class PaperTradeDb {
   async getTrades(filters?: {
     symbol?: string;
     status?: 'open' | 'closed';
+    account?: string;
     limit?: number;
     offset?: number;
   }): Promise<PaperTrade[]> {
     let sql = 'SELECT * FROM paper_trades WHERE 1=1';
     const params: any[] = [];
 
+    if (filters?.account) {
+      sql += ' AND account = ?';
+      params.push(filters.account);
+    }
+
     if (filters?.symbol) {
       sql += ' AND symbol = ?';
       params.push(filters.symbol);
@@ -203,10 +228,15 @@ class PaperTradeDb {
   /**
    * Get paper trading statistics
    */
-  async getStats(filters?: { symbol?: string; startDate?: number; endDate?: number }): Promise<PaperTradeStats> {
+  async getStats(filters?: { symbol?: string; account?: string; startDate?: number; endDate?: number }): Promise<PaperTradeStats> {
     let sql = 'SELECT * FROM paper_trades WHERE 1=1';
     const params: any[] = [];
 
+    if (filters?.account) {
+      sql += ' AND account = ?';
+      params.push(filters.account);
+    }
+
     if (filters?.symbol) {
       sql += ' AND symbol = ?';
       params.push(filters.symbol);
@@ -277,6 +307,20 @@ class PaperTradeDb {
     });
   }
 
+  /**
+   * Delete every trade booked to a paper account (account reset)
+   */
+  async deleteAccountTrades(account: string): Promise<number> {
+    const sql = 'DELETE FROM paper_trades WHERE account = ?';
+
+    return new Promise((resolve, reject) => {
+      db['db'].run(sql, [account], function(err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+      });
+    });
+  }
+
   /**
    * Get paper trade history grouped by day
    */
@@ -0,0 +1,27 @@
+import { db } from './database';
+
+export type RiskGuardMode = 'live' | 'paper';
+
+export interface RiskGuardStateRow {
+  mode: RiskGuardMode;
+  state: string;        // JSON RiskGuardState
+  updated_at: number;
+}
+
+class RiskGuardDb {
+  /**
+   * Insert or replace the kill switch state of a trading mode
+   */
+  async saveState(mode: RiskGuardMode, state: string): Promise<void> {
+    await db.run(
+      'INSERT OR REPLACE INTO risk_guard_state (mode, state, updated_at) VALUES (?, ?, ?)',
+      [mode, state, Date.now()]
+    );
+  }
+
+  async getState(mode: RiskGuardMode): Promise<RiskGuardStateRow | undefined> {
+    return await db.get<RiskGuardStateRow>('SELECT * FROM risk_guard_state WHERE mode = ?', [mode]);
+  }
+}
+
+export const riskGuardDb = new RiskGuardDb();
@@ -0,0 +1,258 @@
+import { EventEmitter } from 'events';
+import { Config, SymbolConfig } from '../types';
+import { liquidationStorage } from './liquidationStorage';
+import { getSignalStrategy, getTradeSide, getTriggerLiquidationSide } from '../bot/signalStrategy';
+import { logWithTimestamp, logErrorWithTimestamp } from '../utils/timestamp';
+
+export interface AdaptiveThresholdSettings {
+  percentile: number;
+  windowHours: number;
+  minSamples: number;
+}
+
+export interface AdaptiveThreshold {
+  symbol: string;
+  longThreshold: number | null;   // null until enough liquidations of the side triggering longs are stored
+  shortThreshold: number | null;  // null until enough liquidations of the side triggering shorts are stored
+  longSamples: number;
+  shortSamples: number;
+  percentile: number;
+  windowHours: number;
+  updatedAt: number;
+}
+
+export interface EffectiveThreshold {
+  symbol: string;
+  longThreshold: number;
+  shortThreshold: number;
+  longSource: 'adaptive' | 'static';
+  shortSource: 'adaptive' | 'static';
+  adaptive: AdaptiveThreshold | null;
+}
+
+const RECOMPUTE_INTERVAL_MS = 5 * 60 * 1000;
+const CHANGE_LOG_PERCENT = 1; // Log threshold moves larger than this
+
+export function getAdaptiveThresholdSettings(symbolConfig: SymbolConfig | undefined): AdaptiveThresholdSettings | null {
+  if (!symbolConfig?.adaptiveThreshold) {
+    return null;
+  }
+
+  return {
+    percentile: Math.min(99.9, Math.max(1, symbolConfig.adaptivePercentile ?? 90)),
+    windowHours: Math.max(1, symbolConfig.adaptiveWindowHours ?? 24),
+    minSamples: Math.max(1, symbolConfig.adaptiveMinSamples ?? 20)
+  };
+}
+
+// Percentile of ascending values with linear interpolation between ranks
+export function calculatePercentile(sortedValues: number[], percentile: number): number {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+
+  const rank = (percentile / 100) * (sortedValues.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const weight = rank - lower;
+
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * weight;
+}
+
+// Configured thresholds per liquidation side - long for SELL liquidations, short for BUY liquidations
+export function getStaticThresholds(symbolConfig: SymbolConfig): { long: number; short: number } {
+  return {
+    long: symbolConfig.longVolumeThresholdUSDT ?? symbolConfig.volumeThresholdUSDT ?? 0,
+    short: symbolConfig.shortVolumeThresholdUSDT ?? symbolConfig.volumeThresholdUSDT ?? 0
+  };
+}
+
+// Liquidation side whose volumes gate a trade side under the symbol's strategy
+function getTriggerSide(symbolConfig: SymbolConfig, side: 'long' | 'short'): 'BUY' | 'SELL' {
+  return getTriggerLiquidationSide(getSignalStrategy(symbolConfig.signalStrategy), side === 'long' ? 'BUY' : 'SELL');
+}
+
+// Configured threshold gating a trade side - the one of the liquidation side that triggers it
+function getStaticTradeThreshold(symbolConfig: SymbolConfig, side: 'long' | 'short'): number {
+  return getStaticThresholds(symbolConfig)[getTriggerSide(symbolConfig, side) === 'SELL' ? 'long' : 'short'];
+}
+
+/**
+ * Adaptive Thresholds
+ *
+ * Replaces the static long/short volume thresholds of symbols with
+ * `adaptiveThreshold` enabled by a percentile of liquidation sizes stored in
+ * the liquidations table over a trailing window:
+ * - Each trade side's threshold comes from the liquidation side that triggers it under
+ *   the symbol's strategy (SELL liquidations for longs when contrarian, for shorts with momentum)
+ * - Recomputed every 5 minutes; the static threshold applies until a side has enough samples
+ *
+ * Emits 'thresholdsUpdated' with the symbols whose thresholds changed.
+ */
+export class AdaptiveThresholdService extends EventEmitter {
+  private config: Config | null = null;
+  private thresholds: Map<string, AdaptiveThreshold> = new Map();
+  private recomputeInterval: NodeJS.Timeout | null = null;
+  private lastRecompute = 0;
+  private recomputing: Promise<void> | null = null;
+
+  updateConfig(config: Config): void {
+    this.config = config;
+
+    for (const symbol of this.thresholds.keys()) {
+      if (!getAdaptiveThresholdSettings(config.symbols[symbol])) {
+        this.thresholds.delete(symbol);
+      }
+    }
+  }
+
+  start(): void {
+    if (this.recomputeInterval) return;
+
+    this.recompute().catch(error =>
+      logErrorWithTimestamp('AdaptiveThresholds: Initial recompute failed:', error)
+    );
+    this.recomputeInterval = setInterval(() => {
+      this.recompute().catch(error =>
+        logErrorWithTimestamp('AdaptiveThresholds: Recompute failed:', error)
+      );
+    }, RECOMPUTE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.recomputeInterval) {
+      clearInterval(this.recomputeInterval);
+      this.recomputeInterval = null;
+    }
+  }
+
+  // Recompute unless a recent result is still fresh (for processes that don't run the timer)
+  async refreshIfStale(): Promise<void> {
+    if (Date.now() - this.lastRecompute >= RECOMPUTE_INTERVAL_MS) {
+      await this.recompute();
+    }
+  }
+
+  async recompute(): Promise<void> {
+    if (this.recomputing) {
+      return this.recomputing;
+    }
+
+    this.recomputing = this.recomputeAll().finally(() => {
+      this.recomputing = null;
+    });
+    return this.recomputing;
+  }
+
+  private async recomputeAll(): Promise<void> {
+    if (!this.config) return;
+
+    const now = Date.now();
+    const changed: string[] = [];
+
+    for (const [symbol, symbolConfig] of Object.entries(this.config.symbols)) {
+      const settings = getAdaptiveThresholdSettings(symbolConfig);
+      if (!settings) continue;
+
+      const since = now - settings.windowHours * 60 * 60 * 1000;
+      const [longVolumes, shortVolumes] = await Promise.all([
+        liquidationStorage.getVolumeDistribution(symbol, getTriggerSide(symbolConfig, 'long'), since),
+        liquidationStorage.getVolumeDistribution(symbol, getTriggerSide(symbolConfig, 'short'), since)
+      ]);
+
+      const next: AdaptiveThreshold = {
+        symbol,
+        longThreshold: longVolumes.length >= settings.minSamples ? calculatePercentile(longVolumes, settings.percentile) : null,
+        shortThreshold: shortVolumes.length >= settings.minSamples ? calculatePercentile(shortVolumes, settings.percentile) : null,
+        longSamples: longVolumes.length,
+        shortSamples: shortVolumes.length,
+        percentile: settings.percentile,
+        windowHours: settings.windowHours,
+        updatedAt: now
+      };
+
+      const previous = this.thresholds.get(symbol);
+      const longChanged = this.logChange(symbolConfig, next, 'long', previous?.longThreshold, next.longThreshold, next.longSamples);
+      const shortChanged = this.logChange(symbolConfig, next, 'short', previous?.shortThreshold, next.shortThreshold, next.shortSamples);
+
+      this.thresholds.set(symbol, next);
+      if (longChanged || shortChanged) {
+        changed.push(symbol);
+      }
+    }
+
+    this.lastRecompute = now;
+
+    if (changed.length > 0) {
+      this.emit('thresholdsUpdated', changed);
+    }
+  }
+
+  private logChange(
+    symbolConfig: SymbolConfig,
+    next: AdaptiveThreshold,
+    side: 'long' | 'short',
+    previous: number | null | undefined,
+    current: number | null,
+    samples: number
+  ): boolean {
+    const staticThreshold = getStaticTradeThreshold(symbolConfig, side);
+    const from = previous ?? staticThreshold;
+    const to = current ?? staticThreshold;
+
+    if (from === to || (from > 0 && Math.abs(to - from) / from * 100 < CHANGE_LOG_PERCENT)) {
+      return false;
+    }
+
+    const source = current !== null
+      ? `p${next.percentile} of ${samples} liquidations over ${next.windowHours}h`
+      : `static, only ${samples} liquidations over ${next.windowHours}h`;
+logWithTimestamp(`AdaptiveThresholds: ${next.symbol} ${side} threshold ${from.toFixed(0)} -> ${to.toFixed(0)} USDT (${source})`);
+    return true;
+  }
+
+  getAdaptiveThreshold(symbol: string): AdaptiveThreshold | null {
+    return this.thresholds.get(symbol) || null;
+  }
+
+  // Threshold in effect for one trade side - the adaptive value when available, otherwise the configured one
+  getThreshold(symbol: string, symbolConfig: SymbolConfig, side: 'long' | 'short'): number {
+    return this.getLiquidationThreshold(symbol, symbolConfig, getTriggerSide(symbolConfig, side));
+  }
+
+  // Adaptive threshold gating a liquidation side - the one of the trade side it triggers under the symbol's strategy
+  getAdaptiveLiquidationThreshold(symbol: string, symbolConfig: SymbolConfig, liquidationSide: 'BUY' | 'SELL'): number | null {
+    if (!getAdaptiveThresholdSettings(symbolConfig)) {
+      return null;
+    }
+
+    const adaptive = this.thresholds.get(symbol);
+    const tradeSide = getTradeSide(getSignalStrategy(symbolConfig.signalStrategy), liquidationSide);
+    return (tradeSide === 'BUY' ? adaptive?.longThreshold : adaptive?.shortThreshold) ?? null;
+  }
+
+  // Threshold in effect for a liquidation side, falling back to the configured one of that side
+  getLiquidationThreshold(symbol: string, symbolConfig: SymbolConfig, liquidationSide: 'BUY' | 'SELL'): number {
+    return this.getAdaptiveLiquidationThreshold(symbol, symbolConfig, liquidationSide)
+      ?? getStaticThresholds(symbolConfig)[liquidationSide === 'SELL' ? 'long' : 'short'];
+  }
+
+  getEffectiveThresholds(): EffectiveThreshold[] {
+    if (!this.config) return [];
+
+    return Object.entries(this.config.symbols).map(([symbol, symbolConfig]) => {
+      const adaptive = getAdaptiveThresholdSettings(symbolConfig) ? this.thresholds.get(symbol) || null : null;
+
+      return {
+        symbol,
+        longThreshold: adaptive?.longThreshold ?? getStaticTradeThreshold(symbolConfig, 'long'),
+        shortThreshold: adaptive?.shortThreshold ?? getStaticTradeThreshold(symbolConfig, 'short'),
+        longSource: adaptive?.longThreshold != null ? 'adaptive' : 'static',
+        shortSource: adaptive?.shortThreshold != null ? 'adaptive' : 'static',
+        adaptive
+      };
+    });
+  }
+}
+
+export const adaptiveThresholds = new AdaptiveThresholdService();
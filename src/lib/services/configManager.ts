@@ -120,6 +120,9 @@ export class ConfigManager extends EventEmitter {
     if (oldConfig.global.riskPercent !== newConfig.global.riskPercent) {
       changes.push(`Risk Percent: ${oldConfig.global.riskPercent}% → ${newConfig.global.riskPercent}%`);
     }
+    if (oldConfig.global.sizingMode !== newConfig.global.sizingMode) {
+      changes.push(`Sizing Mode: ${oldConfig.global.sizingMode || 'FIXED'} → ${newConfig.global.sizingMode || 'FIXED'}`);
+    }
     if (oldConfig.global.maxOpenPositions !== newConfig.global.maxOpenPositions) {
       changes.push(`Max Positions: ${oldConfig.global.maxOpenPositions} → ${newConfig.global.maxOpenPositions}`);
     }
@@ -32,6 +32,11 @@ export interface Position {
   liquidationPrice?: number;
 }
 
+export interface FundingRate {
+  fundingRate: number;       // As a fraction, positive means longs pay shorts
+  nextFundingTime: number;
+}
+
 interface CachedData<T> {
   data: T;
   timestamp: number;
@@ -43,6 +48,7 @@ interface DataStoreState {
   balance: CachedData<AccountInfo>;
   positions: CachedData<Position[]>;
   markPrices: Record<string, number>;
+  fundingRates: Record<string, FundingRate>;
 }
 
 class DataStore extends EventEmitter {
@@ -69,6 +75,7 @@ class DataStore extends EventEmitter {
         loading: false,
       },
       markPrices: {},
+      fundingRates: {},
     };
     this.fetchPromises = new Map();
   }
@@ -88,6 +95,11 @@ class DataStore extends EventEmitter {
     return { ...this.state.markPrices };
   }
 
+  // Get funding rates
+  getFundingRates(): Record<string, FundingRate> {
+    return { ...this.state.fundingRates };
+  }
+
   // Update balance from WebSocket or API
   updateBalance(data: AccountInfo, source: string = 'api') {
     this.state.balance = {
@@ -116,6 +128,12 @@ class DataStore extends EventEmitter {
     this.emit('markPrices:update', this.state.markPrices);
   }
 
+  // Update funding rates from WebSocket
+  updateFundingRates(rates: Record<string, FundingRate>) {
+    this.state.fundingRates = { ...this.state.fundingRates, ...rates };
+    this.emit('funding:update', this.state.fundingRates);
+  }
+
   // Fetch balance with deduplication and caching
   async fetchBalance(force: boolean = false): Promise<AccountInfo> {
     const cached = this.state.balance;
@@ -334,10 +352,20 @@ class DataStore extends EventEmitter {
     } else if (message.type === 'mark_price_update') {
       if (Array.isArray(message.data)) {
         const priceUpdates: Record<string, number> = {};
+        const fundingUpdates: Record<string, FundingRate> = {};
         message.data.forEach((price: any) => {
           priceUpdates[price.symbol] = parseFloat(price.markPrice);
+          if (price.fundingRate !== undefined && price.nextFundingTime) {
+            fundingUpdates[price.symbol] = {
+              fundingRate: parseFloat(price.fundingRate),
+              nextFundingTime: price.nextFundingTime,
+            };
+          }
         });
         this.updateMarkPrices(priceUpdates);
+        if (Object.keys(fundingUpdates).length > 0) {
+          this.updateFundingRates(fundingUpdates);
+        }
       }
     } else if (message.type === 'order_update' || message.type === 'ORDER_TRADE_UPDATE') {
       // Forward order updates to orderStore
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import { getPriceService } from './priceService';
+import { logWithTimestamp, logErrorWithTimestamp } from '../utils/timestamp';
+
+export const DEFAULT_RECORDING_PATH = path.join(process.cwd(), 'data', 'recordings', 'liquidations.jsonl');
+
+// One line of a recording file
+export type RecordedFrame =
+  | { t: number; type: 'forceOrder'; data: any }
+  | { t: number; type: 'markPrice'; data: RecordedMarkPrice[] };
+
+export interface RecordedMarkPrice {
+  symbol: string;
+  markPrice: string;
+  indexPrice: string;
+  timestamp: number;
+}
+
+/**
+ * Appends raw forceOrder frames (and optionally mark prices) to a JSONL file so a
+ * session can be replayed later through Hunter.
+ */
+export class LiquidationRecorder {
+  private stream: fs.WriteStream | null = null;
+  private filePath: string = DEFAULT_RECORDING_PATH;
+  private symbols: Set<string> = new Set();
+  private frameCount = 0;
+  private markPriceListener: ((updates: RecordedMarkPrice[]) => void) | null = null;
+
+  start(options: { filePath?: string; includeMarkPrices?: boolean; symbols?: string[] } = {}): void {
+    if (this.stream) return;
+
+    this.filePath = options.filePath || DEFAULT_RECORDING_PATH;
+    this.symbols = new Set((options.symbols || []).map(s => s.toUpperCase()));
+    this.frameCount = 0;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+    this.stream.on('error', (error) => {
+logErrorWithTimestamp('LiquidationRecorder: Write error:', error);
+    });
+
+    if (options.includeMarkPrices !== false) {
+      const priceService = getPriceService();
+      if (priceService) {
+        this.markPriceListener = (updates) => this.recordMarkPrices(updates);
+        priceService.on('markPriceUpdate', this.markPriceListener);
+      } else {
+logWithTimestamp('LiquidationRecorder: Price service not running - mark prices will not be recorded');
+      }
+    }
+
+logWithTimestamp(`LiquidationRecorder: Recording liquidation stream to ${this.filePath}`);
+  }
+
+  stop(): void {
+    if (!this.stream) return;
+
+    if (this.markPriceListener) {
+      getPriceService()?.off('markPriceUpdate', this.markPriceListener);
+      this.markPriceListener = null;
+    }
+
+    this.stream.end();
+    this.stream = null;
+logWithTimestamp(`LiquidationRecorder: Stopped after ${this.frameCount} frames`);
+  }
+
+  isRecording(): boolean {
+    return this.stream !== null;
+  }
+
+  // Record a raw frame exactly as received from the forceOrder stream
+  recordForceOrder(frame: any): void {
+    this.write({ t: Date.now(), type: 'forceOrder', data: frame });
+  }
+
+  recordMarkPrices(updates: RecordedMarkPrice[]): void {
+    const filtered = this.symbols.size > 0
+      ? updates.filter(u => this.symbols.has(u.symbol))
+      : updates;
+    if (filtered.length === 0) return;
+
+    this.write({ t: Date.now(), type: 'markPrice', data: filtered });
+  }
+
+  private write(frame: RecordedFrame): void {
+    if (!this.stream) return;
+    this.stream.write(JSON.stringify(frame) + '\n');
+    this.frameCount++;
+  }
+}
+
+export const liquidationRecorder = new LiquidationRecorder();
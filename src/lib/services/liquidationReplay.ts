@@ -0,0 +1,139 @@
+import fs from 'fs';
+import readline from 'readline';
+import { EventEmitter } from 'events';
+import { DEFAULT_RECORDING_PATH, RecordedFrame, RecordedMarkPrice } from './liquidationRecorder';
+import { logWithTimestamp, logErrorWithTimestamp } from '../utils/timestamp';
+
+/**
+ * Replays a recording produced by LiquidationRecorder, preserving the original
+ * spacing between frames (scaled by `speed`). Each forceOrder frame is passed to
+ * `onForceOrder`, which is awaited before the next frame so the replay is
+ * deterministic at any speed. Emits:
+ *  - 'forceOrder'  raw forceOrder frame, same shape as the live stream
+ *  - 'markPrice'   array of recorded mark prices
+ *  - 'complete'    when the end of the file is reached
+ *  - 'error'       when the recording cannot be read
+ */
+export class LiquidationReplay extends EventEmitter {
+  private filePath: string;
+  private speed: number;
+  private isRunning = false;
+  private markPrices: Map<string, RecordedMarkPrice> = new Map();
+  private waitTimer: NodeJS.Timeout | null = null;
+  private wakeUp: (() => void) | null = null;
+  private framesReplayed = 0;
+  private onForceOrder: ((event: any) => Promise<void>) | null;
+
+  constructor(options: { filePath?: string; speed?: number; onForceOrder?: (event: any) => Promise<void> } = {}) {
+    super();
+    this.filePath = options.filePath || DEFAULT_RECORDING_PATH;
+    this.speed = options.speed ?? 1;
+    this.onForceOrder = options.onForceOrder || null;
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) return;
+
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`Replay file not found: ${this.filePath}`);
+    }
+
+    this.isRunning = true;
+    this.framesReplayed = 0;
+logWithTimestamp(`LiquidationReplay: Replaying ${this.filePath} at ${this.speed === 0 ? 'max' : `${this.speed}x`} speed`);
+
+    // Run in the background so callers are not blocked for the length of the recording
+    this.run().catch(error => {
+logErrorWithTimestamp('LiquidationReplay: Replay failed:', error);
+      this.isRunning = false;
+      this.emit('error', error);
+    });
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    if (this.waitTimer) {
+      clearTimeout(this.waitTimer);
+      this.waitTimer = null;
+    }
+    if (this.wakeUp) {
+      this.wakeUp();
+      this.wakeUp = null;
+    }
+  }
+
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  // Latest recorded mark price for a symbol at the current replay position
+  getMarkPrice(symbol: string): number | null {
+    const data = this.markPrices.get(symbol.toUpperCase());
+    return data ? parseFloat(data.markPrice) : null;
+  }
+
+  private async run(): Promise<void> {
+    const rl = readline.createInterface({
+      input: fs.createReadStream(this.filePath),
+      crlfDelay: Infinity
+    });
+
+    let previousTime: number | null = null;
+
+    try {
+      for await (const line of rl) {
+        if (!this.isRunning) break;
+        if (!line.trim()) continue;
+
+        let frame: RecordedFrame;
+        try {
+          frame = JSON.parse(line);
+        } catch (_error) {
+          continue; // Skip partially written lines
+        }
+
+        if (previousTime !== null && this.speed > 0) {
+          const delay = (frame.t - previousTime) / this.speed;
+          if (delay > 0) {
+            await this.wait(delay);
+            if (!this.isRunning) break;
+          }
+        }
+        previousTime = frame.t;
+
+        if (frame.type === 'markPrice') {
+          for (const update of frame.data) {
+            this.markPrices.set(update.symbol, update);
+          }
+          this.emit('markPrice', frame.data);
+        } else if (frame.type === 'forceOrder') {
+          this.emit('forceOrder', frame.data);
+          if (this.onForceOrder) {
+            await this.onForceOrder(frame.data);
+          }
+        }
+        this.framesReplayed++;
+      }
+    } finally {
+      rl.close();
+    }
+
+    const completed = this.isRunning;
+    this.isRunning = false;
+logWithTimestamp(`LiquidationReplay: ${completed ? 'Finished' : 'Stopped'} after ${this.framesReplayed} frames`);
+    if (completed) {
+      this.emit('complete', { frames: this.framesReplayed });
+    }
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      this.wakeUp = resolve;
+      this.waitTimer = setTimeout(() => {
+        this.waitTimer = null;
+        this.wakeUp = null;
+        resolve();
+      }, ms);
+    });
+  }
+}
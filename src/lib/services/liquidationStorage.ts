@@ -198,6 +198,18 @@ export class LiquidationStorage {
     }
   }
 
+  // Liquidation sizes (USDT) for one symbol and side since a timestamp (ms), smallest first
+  async getVolumeDistribution(symbol: string, side: 'BUY' | 'SELL', since: number): Promise<number[]> {
+    const sql = `
+      SELECT volume_usdt FROM liquidations
+      WHERE symbol = ? AND side = ? AND event_time >= ?
+      ORDER BY volume_usdt ASC
+    `;
+
+    const rows = await db.all<{ volume_usdt: number }>(sql, [symbol, side, since]);
+    return rows.map(row => row.volume_usdt);
+  }
+
   async getRecentLiquidations(limit: number = 50): Promise<StoredLiquidation[]> {
     const sql = `
       SELECT * FROM liquidations
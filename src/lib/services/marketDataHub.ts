@@ -0,0 +1,360 @@
+import WebSocket from 'ws';
+import { EventEmitter } from 'events';
+import { getCombinedStreamUrl } from '../api/endpoints';
+import { logWithTimestamp, logErrorWithTimestamp, logWarnWithTimestamp } from '../utils/timestamp';
+
+/**
+ * MarketDataHub
+ *
+ * Owns the single combined-stream WebSocket for public market data. Consumers
+ * subscribe to typed topics; the hub adds and removes streams on the live
+ * connection with SUBSCRIBE/UNSUBSCRIBE, reconnects with backoff and restores
+ * every stream, and tracks per-stream message rate and latency.
+ */
+
+export interface MarkPriceStreamEvent {
+  e: 'markPriceUpdate';
+  E: number;     // Event time
+  s: string;     // Symbol
+  p: string;     // Mark price
+  i: string;     // Index price
+  P?: string;    // Estimated settle price
+  r?: string;    // Funding rate
+  T?: number;    // Next funding time
+}
+
+export interface ForceOrderStreamEvent {
+  e: 'forceOrder';
+  E: number;     // Event time
+  o: {
+    s: string;   // Symbol
+    S: 'BUY' | 'SELL';
+    o: string;   // Order type
+    f: string;   // Time in force
+    q: string;   // Original quantity
+    p: string;   // Price
+    ap: string;  // Average price
+    X: string;   // Order status
+    l: string;   // Last filled quantity
+    z: string;   // Filled accumulated quantity
+    T: number;   // Trade time
+  };
+}
+
+export interface KlineStreamEvent {
+  e: 'kline';
+  E: number;     // Event time
+  s: string;     // Symbol
+  k: {
+    t: number;   // Kline start time
+    T: number;   // Kline close time
+    s: string;   // Symbol
+    i: string;   // Interval
+    f: number;   // First trade ID
+    L: number;   // Last trade ID
+    o: string;   // Open price
+    c: string;   // Close price
+    h: string;   // High price
+    l: string;   // Low price
+    v: string;   // Base asset volume
+    n: number;   // Number of trades
+    x: boolean;  // Is this kline closed?
+    q: string;   // Quote asset volume
+  };
+}
+
+export type MarketTopic =
+  | { type: 'markPrice' }
+  | { type: 'forceOrder' }
+  | { type: 'kline'; symbol: string; interval: string };
+
+export interface MarketTopicPayloads {
+  markPrice: MarkPriceStreamEvent[];
+  forceOrder: ForceOrderStreamEvent;
+  kline: KlineStreamEvent;
+}
+
+export type MarketTopicHandler<T extends MarketTopic> = (data: MarketTopicPayloads[T['type']]) => void;
+
+export interface MarketStreamStats {
+  stream: string;
+  subscribers: number;
+  messages: number;                // Messages since the stream was subscribed
+  messagesPerSecond: number;       // Over the last minute
+  lastLatencyMs: number | null;    // Receive time minus exchange event time
+  avgLatencyMs: number | null;     // Exponential moving average of the above
+  lastMessageAt: number | null;
+}
+
+interface StreamStatsState {
+  messages: number;
+  recentMessages: number[];
+  lastLatencyMs: number | null;
+  avgLatencyMs: number | null;
+  lastMessageAt: number | null;
+}
+
+const RATE_WINDOW_MS = 60000;
+const LATENCY_SMOOTHING = 0.1;
+const MAX_STREAMS_PER_REQUEST = 50;
+
+export function getTopicStream(topic: MarketTopic): string {
+  switch (topic.type) {
+    case 'markPrice':
+      return '!markPrice@arr@1s';
+    case 'forceOrder':
+      return '!forceOrder@arr';
+    case 'kline':
+      return `${topic.symbol.toLowerCase()}@kline_${topic.interval}`;
+  }
+}
+
+export class MarketDataHub extends EventEmitter {
+  private ws: WebSocket | null = null;
+  private handlers: Map<string, Set<(data: any) => void>> = new Map();
+  private liveStreams: Set<string> = new Set(); // Streams the current connection is subscribed to
+  private stats: Map<string, StreamStatsState> = new Map();
+  private nextRequestId = 1;
+  private reconnectAttempts = 0;
+  private reconnectDelay = 1000;
+  private maxReconnectDelay = 30000;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private syncScheduled = false;
+
+  constructor() {
+    super();
+  }
+
+  /**
+   * Subscribe a handler to a topic. The stream is added to the shared
+   * connection on first use. Returns a function that removes the handler.
+   */
+  subscribe<T extends MarketTopic>(topic: T, handler: MarketTopicHandler<T>): () => void {
+    const stream = getTopicStream(topic);
+    let handlers = this.handlers.get(stream);
+
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(stream, handlers);
+      this.stats.set(stream, { messages: 0, recentMessages: [], lastLatencyMs: null, avgLatencyMs: null, lastMessageAt: null });
+    }
+    handlers.add(handler);
+
+    // Connects (or subscribes on the live connection) on the next tick
+    this.scheduleSync();
+
+    return () => this.removeHandler(stream, handler);
+  }
+
+  private removeHandler(stream: string, handler: (data: any) => void): void {
+    const handlers = this.handlers.get(stream);
+    if (!handlers) return;
+
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      this.handlers.delete(stream);
+      this.stats.delete(stream);
+      this.scheduleSync();
+    }
+  }
+
+  private ensureConnected(): void {
+    if (this.ws || this.reconnectTimer || this.handlers.size === 0) return;
+    this.connect();
+  }
+
+  private connect(): void {
+    const streams = Array.from(this.handlers.keys());
+    const url = getCombinedStreamUrl(streams);
+    const ws = new WebSocket(url);
+    this.ws = ws;
+
+    ws.on('open', () => {
+      if (this.ws !== ws) return;
+logWithTimestamp(`MarketDataHub: Connected with ${streams.length} stream(s)`);
+      this.reconnectAttempts = 0;
+      this.liveStreams = new Set(streams);
+      this.emit('connected');
+      // Pick up anything that changed while connecting
+      this.scheduleSync();
+    });
+
+    ws.on('message', (data: Buffer) => {
+      let message: any;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (error) {
+logErrorWithTimestamp('MarketDataHub: Failed to parse message:', error);
+        return;
+      }
+
+      if (message.stream && message.data !== undefined) {
+        this.dispatch(message.stream, message.data);
+      } else if (message.error || (message.code !== undefined && message.msg)) {
+        const error = message.error || message;
+logWarnWithTimestamp(`MarketDataHub: Request ${message.id ?? '?'} rejected: ${error.msg || JSON.stringify(error)}`);
+      }
+    });
+
+    ws.on('error', (error) => {
+logErrorWithTimestamp('MarketDataHub: WebSocket error:', error);
+      // Loaded on first use: the logger's flush timer would otherwise keep every
+      // process that imports the price service alive
+      import('./errorLogger')
+        .then(({ errorLogger }) => errorLogger.logWebSocketError(
+          url,
+          error instanceof Error ? error : new Error(String(error)),
+          this.reconnectAttempts + 1
+        ))
+        .catch(() => {});
+    });
+
+    ws.on('close', () => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.liveStreams.clear();
+
+      if (this.handlers.size === 0) {
+logWithTimestamp('MarketDataHub: Connection closed');
+        this.emit('disconnected', { reconnectInMs: null });
+        return;
+      }
+
+      const delay = Math.min(this.reconnectDelay * Math.pow(2, this.reconnectAttempts), this.maxReconnectDelay);
+      this.reconnectAttempts++;
+logWarnWithTimestamp(`MarketDataHub: Connection closed, reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+      this.emit('disconnected', { reconnectInMs: delay });
+
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.ensureConnected();
+      }, delay);
+    });
+  }
+
+  private dispatch(stream: string, data: any): void {
+    const handlers = this.handlers.get(stream);
+    if (!handlers) return;
+
+    this.recordMessage(stream, data);
+
+    handlers.forEach(handler => {
+      try {
+        handler(data);
+      } catch (error) {
+logErrorWithTimestamp(`MarketDataHub: Handler for ${stream} failed:`, error);
+      }
+    });
+  }
+
+  private recordMessage(stream: string, data: any): void {
+    const stats = this.stats.get(stream);
+    if (!stats) return;
+
+    const now = Date.now();
+    stats.messages++;
+    stats.lastMessageAt = now;
+    stats.recentMessages.push(now);
+    while (stats.recentMessages.length > 0 && stats.recentMessages[0] < now - RATE_WINDOW_MS) {
+      stats.recentMessages.shift();
+    }
+
+    // Array streams (e.g. all mark prices) share one event time
+    const eventTime = Array.isArray(data) ? data[0]?.E : data?.E;
+    if (typeof eventTime === 'number') {
+      const latency = Math.max(0, now - eventTime);
+      stats.lastLatencyMs = latency;
+      stats.avgLatencyMs = stats.avgLatencyMs === null
+        ? latency
+        : stats.avgLatencyMs * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING;
+    }
+  }
+
+  // Batch subscription changes made in the same tick into one request each way
+  private scheduleSync(): void {
+    if (this.syncScheduled) return;
+    this.syncScheduled = true;
+    setImmediate(() => {
+      this.syncScheduled = false;
+      this.syncSubscriptions();
+    });
+  }
+
+  private syncSubscriptions(): void {
+    if (this.handlers.size === 0) {
+      // Nothing left to stream - drop the connection until the next subscribe
+      if (this.reconnectTimer) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+      }
+      if (this.ws) {
+        this.ws.close();
+      }
+      return;
+    }
+
+    this.ensureConnected();
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+
+    const added = Array.from(this.handlers.keys()).filter(stream => !this.liveStreams.has(stream));
+    const removed = Array.from(this.liveStreams).filter(stream => !this.handlers.has(stream));
+
+    this.sendRequest('UNSUBSCRIBE', removed);
+    this.sendRequest('SUBSCRIBE', added);
+  }
+
+  private sendRequest(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', streams: string[]): void {
+    for (let i = 0; i < streams.length; i += MAX_STREAMS_PER_REQUEST) {
+      const params = streams.slice(i, i + MAX_STREAMS_PER_REQUEST);
+      this.ws!.send(JSON.stringify({ method, params, id: this.nextRequestId++ }));
+      params.forEach(stream => method === 'SUBSCRIBE' ? this.liveStreams.add(stream) : this.liveStreams.delete(stream));
+logWithTimestamp(`MarketDataHub: ${method} ${params.join(', ')}`);
+    }
+  }
+
+  getStats(): MarketStreamStats[] {
+    const now = Date.now();
+    return Array.from(this.stats.entries()).map(([stream, stats]) => {
+      const recent = stats.recentMessages.filter(time => time >= now - RATE_WINDOW_MS);
+      return {
+        stream,
+        subscribers: this.handlers.get(stream)?.size ?? 0,
+        messages: stats.messages,
+        messagesPerSecond: recent.length / (RATE_WINDOW_MS / 1000),
+        lastLatencyMs: stats.lastLatencyMs,
+        avgLatencyMs: stats.avgLatencyMs,
+        lastMessageAt: stats.lastMessageAt,
+      };
+    });
+  }
+
+  getStreams(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  // Drop every subscription and the connection (bot shutdown)
+  stop(): void {
+    this.handlers.clear();
+    this.stats.clear();
+    this.liveStreams.clear();
+    this.reconnectAttempts = 0;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.close();
+    }
+  }
+}
+
+// Export singleton instance
+export const marketDataHub = new MarketDataHub();
@@ -8,12 +8,14 @@
  */
 import 'server-only';
 import { loadConfig, saveConfig } from '@/lib/bot/config';
+import type { Config } from '@/lib/types';
 import fs from 'fs';
 import path from 'path';
 import { spawn } from 'child_process';
 const JOBS_STATE_PATH = path.join(process.cwd(), 'data', 'optimizer-jobs.json');
 const OPTIMIZATION_RESULTS_PATH = path.join(process.cwd(), 'optimization-results.json');
 import { errorLogger } from '@/lib/services/errorLogger';
+import { runWalkForwardValidation, type WalkForwardReport } from '@/lib/backtest/walkForward';
 // Job state management
 interface OptimizationJob {
   jobId: string;
@@ -34,6 +36,11 @@ interface OptimizationConfig {
   };
   capitalAllocation?: number;
   symbols?: string[];
+  walkForward?: {
+    enabled: boolean;
+    trainDays?: number;
+    testDays?: number;
+  };
 }
 interface OptimizationResults {
   timestamp: string;
@@ -43,11 +50,13 @@ interface OptimizationResults {
     dailyImprovement: number;
     monthlyImprovement: number;
     improvementPercent: number | null;
+    inSampleImprovementPercent?: number | null; // The optimizer's estimate, kept when walk-forward replaces improvementPercent
     recommendedMaxOpenPositions: number;
   };
   recommendations: SymbolRecommendation[];
   capitalAllocation: any;
   optimizedConfig: any;
+  walkForward?: WalkForwardReport;
 }
 interface SymbolRecommendation {
   symbol: string;
@@ -102,6 +111,10 @@ function persistJobsToDisk(): void {
   }
 }
 const OPTIMIZER_TIMEOUT = 60 * 60 * 1000; // 1 hour
+// Walk-forward windows come out of the same 7 days of history the optimizer analyzes
+export const WALK_FORWARD_HISTORY_DAYS = 7;
+const DEFAULT_WALK_FORWARD_TRAIN_DAYS = 4;
+const DEFAULT_WALK_FORWARD_TEST_DAYS = 1;
 /**
  * Generate unique job ID
  */
@@ -140,6 +153,13 @@ export async function startOptimization(
   if (Math.abs(totalWeight - 100) > 0.01) {
     throw new Error(`Weights must sum to 100% (current: ${totalWeight}%)`);
   }
+  if (config.walkForward?.enabled) {
+    const trainDays = config.walkForward.trainDays ?? DEFAULT_WALK_FORWARD_TRAIN_DAYS;
+    const testDays = config.walkForward.testDays ?? DEFAULT_WALK_FORWARD_TEST_DAYS;
+    if (trainDays + testDays > WALK_FORWARD_HISTORY_DAYS) {
+      throw new Error(`Walk-forward train and test days must fit in ${WALK_FORWARD_HISTORY_DAYS} days of history`);
+    }
+  }
   // Create job entry
   const job: OptimizationJob = {
     jobId,
@@ -400,6 +420,14 @@ async function runOptimization(jobId: string): Promise<void> {
     }
     const resultsData = fs.readFileSync(resultsPath, 'utf8');
     const results: OptimizationResults = JSON.parse(resultsData);
+    if (job.config.walkForward?.enabled) {
+      results.walkForward = await runWalkForwardStage(jobId, job.config, currentConfig, results.optimizedConfig);
+      if (results.walkForward) {
+        // Report the improvement measured on held-out days instead of the optimizer's in-sample estimate
+        results.summary.inSampleImprovementPercent = results.summary.improvementPercent;
+        results.summary.improvementPercent = results.walkForward.improvementPercent;
+      }
+    }
     // Complete job
     updateJobProgress(jobId, 100, 'Optimization complete!');
     job.status = 'completed';
@@ -430,6 +458,54 @@ async function runOptimization(jobId: string): Promise<void> {
       });
   }
 }
+/**
+ * Walk-forward validation of the optimizer's recommended config: backtested on
+ * rolling training windows and on the unseen windows after them, against the
+ * current config. A failed validation is logged and leaves the results without
+ * a report.
+ */
+async function runWalkForwardStage(
+  jobId: string,
+  config: OptimizationConfig,
+  currentConfig: Config,
+  optimizedConfig: Config
+): Promise<WalkForwardReport | undefined> {
+  updateJobProgress(jobId, 98, 'Running walk-forward validation...');
+  try {
+    return await runWalkForwardValidation(currentConfig, optimizedConfig, {
+      days: WALK_FORWARD_HISTORY_DAYS,
+      trainDays: config.walkForward?.trainDays ?? DEFAULT_WALK_FORWARD_TRAIN_DAYS,
+      testDays: config.walkForward?.testDays ?? DEFAULT_WALK_FORWARD_TEST_DAYS,
+      symbols: config.symbols,
+      onProgress: (completed, total) => {
+        if (jobs.get(jobId)?.status === 'cancelled') {
+          throw new Error('Optimization cancelled by user');
+        }
+        updateJobProgress(jobId, 98 + completed / total, `Walk-forward validation (${completed}/${total} windows)...`);
+      },
+    });
+  } catch (error) {
+    if (jobs.get(jobId)?.status === 'cancelled') {
+      throw error;
+    }
+    errorLogger
+      .logError(error instanceof Error ? error : new Error(String(error)), {
+        type: 'system',
+        severity: 'medium',
+        context: {
+          component: 'optimizer',
+          metadata: {
+            jobId,
+            stage: 'walk-forward'
+          }
+        }
+      })
+      .catch((logError) => {
+        console.error('Failed to log walk-forward failure', logError);
+      });
+    return undefined;
+  }
+}
 /**
  * Clean up old jobs (call periodically)
  */
@@ -0,0 +1,190 @@
+import { Config, GlobalConfig, SymbolConfig } from '../types';
+import { loadConfig, saveConfig } from '../bot/config';
+import { paperAccountDb, PaperAccount, DEFAULT_PAPER_STARTING_BALANCE } from '../db/paperAccountDb';
+import { paperTradeDb, PaperTradeStats, DEFAULT_PAPER_ACCOUNT, SHADOW_PAPER_ACCOUNT } from '../db/paperTradeDb';
+
+// Settings that belong to the installation rather than the strategy an account trades
+const NON_STRATEGY_SETTINGS = ['paperMode', 'paperAccount', 'server', 'rateLimit', 'endpoints'] as const;
+
+const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+export interface PaperConfigSnapshot {
+  symbols: Record<string, SymbolConfig>;
+  global: Partial<GlobalConfig>;
+}
+
+export interface PaperAccountSummary {
+  name: string;
+  active: boolean;
+  startingBalance: number;
+  realizedPnL: number;
+  balance: number;
+  returnPercent: number;
+  createdAt: number;
+  resetAt?: number;
+  hasConfigSnapshot: boolean;
+}
+
+export interface PaperAccountComparison extends PaperAccountSummary {
+  stats: PaperTradeStats;
+}
+
+// Rejected account operation, with the HTTP status the API should answer with
+export class PaperAccountError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PaperAccountError';
+  }
+}
+
+export function getActivePaperAccount(config: Config): string {
+  return config.global.paperAccount || DEFAULT_PAPER_ACCOUNT;
+}
+
+/**
+ * The strategy part of a config: symbols and global trading settings, without
+ * credentials, server settings or the paper mode switch itself
+ */
+export function buildConfigSnapshot(config: Config): PaperConfigSnapshot {
+  const globalSettings: Partial<GlobalConfig> = { ...config.global };
+  for (const key of NON_STRATEGY_SETTINGS) {
+    delete globalSettings[key];
+  }
+
+  return { symbols: config.symbols, global: globalSettings };
+}
+
+function copySetting<K extends keyof GlobalConfig>(target: GlobalConfig, source: GlobalConfig, key: K): void {
+  target[key] = source[key];
+}
+
+export function applyConfigSnapshot(config: Config, snapshot: PaperConfigSnapshot): Config {
+  const globalSettings = { ...config.global, ...snapshot.global } as GlobalConfig;
+  for (const key of NON_STRATEGY_SETTINGS) {
+    copySetting(globalSettings, config.global, key);
+  }
+
+  return { ...config, symbols: snapshot.symbols, global: globalSettings };
+}
+
+function toSummary(account: PaperAccount, activeAccount: string): PaperAccountSummary {
+  const balance = account.starting_balance + account.realized_pnl;
+
+  return {
+    name: account.name,
+    active: account.name === activeAccount,
+    startingBalance: account.starting_balance,
+    realizedPnL: account.realized_pnl,
+    balance,
+    returnPercent: account.starting_balance > 0 ? (account.realized_pnl / account.starting_balance) * 100 : 0,
+    createdAt: account.created_at,
+    resetAt: account.reset_at ?? undefined,
+    hasConfigSnapshot: !!account.config_snapshot,
+  };
+}
+
+/**
+ * Paper Account Service
+ *
+ * Named paper accounts, each with its own balance, trade history and the
+ * config snapshot it trades with. The active account is global.paperAccount:
+ * switching saves the current config into the old account's snapshot, loads
+ * the new account's snapshot and writes the config, which the bot hot-reloads.
+ */
+class PaperAccountService {
+  async listAccounts(): Promise<PaperAccountSummary[]> {
+    const config = await loadConfig();
+    const accounts = await paperAccountDb.getAccounts();
+    return accounts.map(account => toSummary(account, getActivePaperAccount(config)));
+  }
+
+  async createAccount(name: string, startingBalance: number = DEFAULT_PAPER_STARTING_BALANCE): Promise<PaperAccountSummary> {
+    if (!ACCOUNT_NAME_PATTERN.test(name)) {
+      throw new PaperAccountError('Account names are 1-32 letters, digits, dashes or underscores');
+    }
+    if (name === SHADOW_PAPER_ACCOUNT) {
+      throw new PaperAccountError(`"${SHADOW_PAPER_ACCOUNT}" is reserved for shadow mode`);
+    }
+    if (!(startingBalance > 0)) {
+      throw new PaperAccountError('Starting balance must be positive');
+    }
+
+    await paperAccountDb.ensureDefaultAccount();
+    if (await paperAccountDb.getAccount(name)) {
+      throw new PaperAccountError(`Paper account "${name}" already exists`, 409);
+    }
+
+    // New accounts start from the config currently being traded
+    const config = await loadConfig();
+    const account = await paperAccountDb.createAccount(name, startingBalance, JSON.stringify(buildConfigSnapshot(config)));
+    return toSummary(account, getActivePaperAccount(config));
+  }
+
+  async switchAccount(name: string): Promise<PaperAccountSummary> {
+    const target = await paperAccountDb.getAccount(name);
+    if (!target) {
+      throw new PaperAccountError(`Paper account "${name}" not found`, 404);
+    }
+
+    const config = await loadConfig();
+    const current = getActivePaperAccount(config);
+    if (current === name) {
+      return toSummary(target, current);
+    }
+
+    const openTrades = await paperTradeDb.getTrades({ status: 'open', account: current });
+    if (openTrades.length > 0) {
+      throw new PaperAccountError(`Close the ${openTrades.length} open paper position(s) in "${current}" before switching accounts`, 409);
+    }
+
+    await paperAccountDb.saveConfigSnapshot(current, JSON.stringify(buildConfigSnapshot(config)));
+
+    const switched = target.config_snapshot
+      ? applyConfigSnapshot(config, JSON.parse(target.config_snapshot))
+      : config;
+    switched.global = { ...switched.global, paperAccount: name };
+    await saveConfig(switched);
+
+    return toSummary(target, name);
+  }
+
+  /**
+   * Clear an account's trade history and restore its starting balance
+   */
+  async resetAccount(name: string, startingBalance?: number): Promise<PaperAccountSummary> {
+    if (!(await paperAccountDb.getAccount(name))) {
+      throw new PaperAccountError(`Paper account "${name}" not found`, 404);
+    }
+    if (startingBalance !== undefined && !(startingBalance > 0)) {
+      throw new PaperAccountError('Starting balance must be positive');
+    }
+
+    const openTrades = await paperTradeDb.getTrades({ status: 'open', account: name });
+    if (openTrades.length > 0) {
+      throw new PaperAccountError(`Close the ${openTrades.length} open paper position(s) in "${name}" before resetting it`, 409);
+    }
+
+    await paperTradeDb.deleteAccountTrades(name);
+    await paperAccountDb.resetAccount(name, startingBalance);
+
+    const config = await loadConfig();
+    return toSummary((await paperAccountDb.getAccount(name))!, getActivePaperAccount(config));
+  }
+
+  /**
+   * Balance and trade statistics side by side, for the given accounts or all of them
+   */
+  async compareAccounts(names?: string[]): Promise<PaperAccountComparison[]> {
+    const config = await loadConfig();
+    const accounts = (await paperAccountDb.getAccounts())
+      .filter(account => !names || names.includes(account.name));
+
+    return await Promise.all(accounts.map(async account => ({
+      ...toSummary(account, getActivePaperAccount(config)),
+      stats: await paperTradeDb.getStats({ account: account.name }),
+    })));
+  }
+}
+
+// Export singleton instance
+export const paperAccountService = new PaperAccountService();
@@ -1,5 +1,6 @@
 import { EventEmitter } from 'events';
-import { db } from '../db/database';
+import { paperAccountDb } from '../db/paperAccountDb';
+import { DEFAULT_PAPER_ACCOUNT } from '../db/paperTradeDb';
 
 export interface PaperBalance {
   totalBalance: number;
@@ -8,6 +9,7 @@ export interface PaperBalance {
   unrealizedPnL: number;
   realizedPnL: number;
   lastUpdate: number;
+  account: string;
 }
 
 interface PaperPosition {
@@ -24,10 +26,11 @@ interface PaperPosition {
  * - Calculates used margin from open positions
  * - Tracks realized P&L from closed positions
  * - Calculates unrealized P&L from open positions
- * - Persists state to database
+ * - Persists state to database, per named paper account
  * - Broadcasts updates to UI via events
  */
 class PaperBalanceService extends EventEmitter {
+  private account: string = DEFAULT_PAPER_ACCOUNT; // Paper account the balance belongs to
   private startingBalance: number = 10000; // Default starting balance in USDT
   private realizedPnL: number = 0; // Cumulative realized P&L from closed positions
   private positions: Map<string, PaperPosition> = new Map(); // symbol_side -> position
@@ -44,12 +47,13 @@ class PaperBalanceService extends EventEmitter {
   /**
    * Initialize the service with starting balance
    */
-  async initialize(startingBalance: number = 10000): Promise<void> {
+  async initialize(startingBalance: number = 10000, account: string = DEFAULT_PAPER_ACCOUNT): Promise<void> {
     if (this.isInitialized) {
       return;
     }
 
     this.startingBalance = startingBalance;
+    this.account = account;
 
     // Try to load persisted state from database
     await this.loadState();
@@ -57,7 +61,7 @@ class PaperBalanceService extends EventEmitter {
     this.isInitialized = true;
     this.lastUpdate = Date.now();
 
-    console.log('[PaperBalanceService] Initialized with starting balance:', this.startingBalance);
+    console.log(`[PaperBalanceService] Initialized account "${this.account}" with starting balance:`, this.startingBalance);
     console.log('[PaperBalanceService] Current realized P&L:', this.realizedPnL);
 
     this.emitBalanceUpdate();
@@ -75,12 +79,30 @@ class PaperBalanceService extends EventEmitter {
     this.positions.clear();
     this.lastUpdate = Date.now();
 
-    await this.saveState();
+    await paperAccountDb.resetAccount(this.account, this.startingBalance);
     this.emitBalanceUpdate();
 
     console.log('[PaperBalanceService] Reset to starting balance:', this.startingBalance);
   }
 
+  /**
+   * Switch to another paper account. Open positions belong to the previous
+   * account, so callers switch only once it is flat.
+   */
+  async switchAccount(account: string): Promise<void> {
+    if (account === this.account) return;
+
+    this.account = account;
+    this.realizedPnL = 0;
+    this.positions.clear();
+    await this.loadState();
+
+    this.lastUpdate = Date.now();
+    this.emitBalanceUpdate();
+
+    console.log(`[PaperBalanceService] Switched to account "${account}", balance:`, this.startingBalance + this.realizedPnL);
+  }
+
   /**
    * Track a new position opened
    */
@@ -93,7 +115,6 @@ class PaperBalanceService extends EventEmitter {
     });
 
     this.lastUpdate = Date.now();
-    this.saveState();
     this.emitBalanceUpdate();
 
     console.log(`[PaperBalanceService] Position added: ${key}, margin: ${margin.toFixed(2)} USDT`);
@@ -126,10 +147,11 @@ class PaperBalanceService extends EventEmitter {
       this.positions.delete(key);
 
       this.lastUpdate = Date.now();
-      this.saveState();
+      this.saveRealizedPnL(finalPnL);
       this.emitBalanceUpdate();
 
       console.log(`[PaperBalanceService] Position closed: ${key}, P&L: ${finalPnL.toFixed(2)} USDT, Total realized P&L: ${this.realizedPnL.toFixed(2)} USDT`);
+      this.emit('position:closed', { symbol, side, pnl: finalPnL });
     }
   }
 
@@ -158,7 +180,8 @@ class PaperBalanceService extends EventEmitter {
       usedMargin,
       unrealizedPnL,
       realizedPnL: this.realizedPnL,
-      lastUpdate: this.lastUpdate
+      lastUpdate: this.lastUpdate,
+      account: this.account
     };
   }
 
@@ -176,26 +199,33 @@ class PaperBalanceService extends EventEmitter {
     return this.startingBalance;
   }
 
+  /**
+   * Get the paper account the balance belongs to
+   */
+  getAccount(): string {
+    return this.account;
+  }
+
   /**
    * Load state from database
    */
   private async loadState(): Promise<void> {
     try {
-      // Load from paper_balance_state table
-      const sql = `SELECT * FROM paper_balance_state ORDER BY id DESC LIMIT 1`;
-      const row = await db.get<{
-        starting_balance: number;
-        realized_pnl: number;
-        updated_at: number;
-      }>(sql);
+      // The default account is created on first use, other accounts through the API
+      const row = this.account === DEFAULT_PAPER_ACCOUNT
+        ? await paperAccountDb.ensureDefaultAccount(this.startingBalance)
+        : await paperAccountDb.getAccount(this.account);
 
       if (row) {
         this.startingBalance = row.starting_balance;
         this.realizedPnL = row.realized_pnl;
         console.log('[PaperBalanceService] Loaded state from database:', {
+          account: this.account,
           startingBalance: this.startingBalance,
           realizedPnL: this.realizedPnL
         });
+      } else {
+        console.log(`[PaperBalanceService] Paper account "${this.account}" not found, using defaults`);
       }
     } catch (error) {
       // Table might not exist yet, that's okay
@@ -204,16 +234,12 @@ class PaperBalanceService extends EventEmitter {
   }
 
   /**
-   * Save state to database
+   * Book realized P&L to the account, then reload so resets made elsewhere are picked up
    */
-  private async saveState(): Promise<void> {
+  private async saveRealizedPnL(pnl: number): Promise<void> {
     try {
-      const sql = `
-        INSERT OR REPLACE INTO paper_balance_state (id, starting_balance, realized_pnl, updated_at)
-        VALUES (1, ?, ?, ?)
-      `;
-
-      await db.run(sql, [this.startingBalance, this.realizedPnL, Date.now()]);
+      await paperAccountDb.addRealizedPnl(this.account, pnl);
+      await this.loadState();
     } catch (error) {
       console.error('[PaperBalanceService] Failed to save state:', error);
     }
@@ -276,12 +302,15 @@ export function getPaperBalanceService(): PaperBalanceService | null {
 /**
  * Initialize and get the global PaperBalanceService instance
  */
-export async function initializePaperBalanceService(startingBalance: number = 10000): Promise<PaperBalanceService> {
+export async function initializePaperBalanceService(
+  startingBalance: number = 10000,
+  account: string = DEFAULT_PAPER_ACCOUNT
+): Promise<PaperBalanceService> {
   if (!paperBalanceServiceInstance) {
     paperBalanceServiceInstance = new PaperBalanceService();
   }
 
-  await paperBalanceServiceInstance.initialize(startingBalance);
+  await paperBalanceServiceInstance.initialize(startingBalance, account);
   return paperBalanceServiceInstance;
 }
 
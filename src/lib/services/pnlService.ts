@@ -1,4 +1,5 @@
 import { EventEmitter } from 'events';
+import { getOrderFee } from '../utils/orderFees';
 
 export interface PnLSnapshot {
   timestamp: number;
@@ -179,10 +180,10 @@ class PnLService extends EventEmitter {
 
       // Track commission on filled orders
       if (order.X === 'FILLED' || order.X === 'PARTIALLY_FILLED') {
-        // Commission field 'n' - already negative from exchange
-        const commission = parseFloat(order.n || '0');
+        // Commission is kept as negative income
+        const commission = -getOrderFee(order);
         if (commission !== 0) {
-          this.sessionPnL.commission += commission; // Add the negative commission
+          this.sessionPnL.commission += commission;
         }
 
         // Track trades and their PnL
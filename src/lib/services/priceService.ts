@@ -1,93 +1,45 @@
-import WebSocket from 'ws';
 import { EventEmitter } from 'events';
+import { marketDataHub, MarkPriceStreamEvent } from './marketDataHub';
 
 interface MarkPriceData {
   symbol: string;
   markPrice: string;
   indexPrice: string;
   timestamp: number;
+  fundingRate?: string;      // Current funding rate, e.g. '0.00010000' = 0.01% per interval
+  nextFundingTime?: number;
+}
+
+export interface FundingInfo {
+  symbol: string;
+  fundingRate: number;       // As a fraction, positive means longs pay shorts
+  nextFundingTime: number;
+  timestamp: number;
 }
 
 export class PriceService extends EventEmitter {
-  private ws: WebSocket | null = null;
+  private unsubscribe: (() => void) | null = null;
   private subscribedSymbols: Set<string> = new Set();
   private markPrices: Map<string, MarkPriceData> = new Map();
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
-  private isConnecting = false;
+  private externalFeed = false; // When true, prices come from applyMarkPrices (e.g. replay) instead of the stream
 
   constructor() {
     super();
   }
 
   async start(): Promise<void> {
-    if (this.ws?.readyState === WebSocket.OPEN) {
+    if (this.unsubscribe) {
       return;
     }
 
-    await this.connect();
+    // All market mark price updates, over the shared market data connection
+    this.unsubscribe = marketDataHub.subscribe({ type: 'markPrice' }, events => this.handleMarkPriceUpdates(events));
+    console.log('🔗 Price Service: Subscribed to mark price stream');
   }
 
-  private async connect(): Promise<void> {
-    if (this.isConnecting) return;
-    this.isConnecting = true;
-
-    try {
-      // Subscribe to all market mark price updates
-      this.ws = new WebSocket('wss://fstream.asterdex.com/ws/!markPrice@arr@1s');
-
-      this.ws.on('open', () => {
-        console.log('🔗 Price Service: Connected to mark price stream');
-        this.reconnectAttempts = 0;
-        this.isConnecting = false;
-        this.emit('connected');
-      });
-
-      this.ws.on('message', (data: Buffer) => {
-        try {
-          const events = JSON.parse(data.toString());
-          this.handleMarkPriceUpdates(events);
-        } catch (error) {
-          console.error('Price Service: Failed to parse message:', error);
-        }
-      });
-
-      this.ws.on('error', (error) => {
-        console.error('Price Service: WebSocket error:', error);
-        this.emit('error', error);
-      });
-
-      this.ws.on('close', () => {
-        console.log('🔌 Price Service: WebSocket closed');
-        this.isConnecting = false;
-        this.emit('disconnected');
-
-        // Attempt reconnection
-        if (this.reconnectAttempts < this.maxReconnectAttempts) {
-          this.reconnectAttempts++;
-          const delay = this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1);
-          console.log(`🔄 Price Service: Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
-
-          setTimeout(() => {
-            if (this.ws?.readyState !== WebSocket.OPEN) {
-              this.connect();
-            }
-          }, delay);
-        } else {
-          console.error('❌ Price Service: Max reconnection attempts reached');
-          this.emit('maxReconnectAttemptsReached');
-        }
-      });
-
-    } catch (error) {
-      console.error('Price Service: Connection failed:', error);
-      this.isConnecting = false;
-      throw error;
-    }
-  }
+  private handleMarkPriceUpdates(events: MarkPriceStreamEvent[] | MarkPriceStreamEvent): void {
+    if (this.externalFeed) return;
 
-  private handleMarkPriceUpdates(events: any[]): void {
     if (!Array.isArray(events)) {
       events = [events];
     }
@@ -100,7 +52,9 @@ export class PriceService extends EventEmitter {
           symbol: event.s,
           markPrice: event.p,
           indexPrice: event.i,
-          timestamp: event.E
+          timestamp: event.E,
+          fundingRate: event.r,
+          nextFundingTime: event.T
         };
 
         this.markPrices.set(event.s, markPriceData);
@@ -117,6 +71,21 @@ export class PriceService extends EventEmitter {
     }
   }
 
+  // Feed mark prices from an external source (e.g. a replayed recording).
+  // Once called, updates from the live stream are ignored.
+  applyMarkPrices(updates: MarkPriceData[]): void {
+    this.externalFeed = true;
+
+    const tracked = updates.filter(update => {
+      this.markPrices.set(update.symbol, update);
+      return this.subscribedSymbols.has(update.symbol) || this.subscribedSymbols.size === 0;
+    });
+
+    if (tracked.length > 0) {
+      this.emit('markPriceUpdate', tracked);
+    }
+  }
+
   // Subscribe to specific symbols (for filtering)
   subscribeToSymbols(symbols: string[]): void {
     symbols.forEach(symbol => {
@@ -137,6 +106,21 @@ export class PriceService extends EventEmitter {
     return this.markPrices.get(symbol.toUpperCase()) || null;
   }
 
+  // Get the current funding rate and next funding time from the mark price stream
+  getFundingInfo(symbol: string): FundingInfo | null {
+    const data = this.markPrices.get(symbol.toUpperCase());
+    if (!data || data.fundingRate === undefined || !data.nextFundingTime) {
+      return null;
+    }
+
+    return {
+      symbol: data.symbol,
+      fundingRate: parseFloat(data.fundingRate),
+      nextFundingTime: data.nextFundingTime,
+      timestamp: data.timestamp
+    };
+  }
+
   // Get all current mark prices
   getAllMarkPrices(): Map<string, MarkPriceData> {
     return new Map(this.markPrices);
@@ -144,18 +128,18 @@ export class PriceService extends EventEmitter {
 
   // Check if connected
   isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+    return this.unsubscribe !== null && marketDataHub.isConnected();
   }
 
   // Stop the service
   stop(): void {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
     }
     this.subscribedSymbols.clear();
     this.markPrices.clear();
-    this.reconnectAttempts = 0;
+    this.externalFeed = false;
     console.log('⏹️  Price Service: Stopped');
   }
 }
@@ -0,0 +1,260 @@
+import { EventEmitter } from 'events';
+import { Config, RiskLimitsConfig } from '../types';
+import { logWithTimestamp, logWarnWithTimestamp, logErrorWithTimestamp } from '../utils/timestamp';
+import { riskGuardDb, RiskGuardMode } from '../db/riskGuardDb';
+
+export type PauseSource = 'DAILY_LOSS' | 'DRAWDOWN' | 'CONSECUTIVE_LOSSES' | 'MANUAL';
+
+export interface RiskGuardState {
+  paused: boolean;
+  source: PauseSource | null;
+  reason: string | null;
+  pausedAt: number | null;
+  resumeAt: number | null;      // Next UTC midnight for automatic pauses, null for manual pauses
+  tradingDay: string;           // UTC date (YYYY-MM-DD) the daily counters belong to
+  dailyRealizedPnl: number;
+  consecutiveLosses: number;
+  peakEquity: number;
+  currentEquity: number;
+  drawdownPercent: number;
+}
+
+function utcDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(timestamp: number): number {
+  const date = new Date(timestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/**
+ * Risk Guard
+ *
+ * Kill switch for the trading loop:
+ * - Tracks realized PnL for the current UTC day and consecutive losing trades
+ * - Tracks drawdown of account equity from its session peak
+ * - Pauses new entries when a configured limit is breached
+ * - Automatically resumes at the next UTC day (manual pauses stay until resumed)
+ * - Once restore() has run, writes the pause and the day's counters to the
+ *   database so a restart stays paused (drawdown is measured from the new session's peak)
+ *
+ * Emits 'tradingPaused' and 'tradingResumed' with the current state.
+ */
+export class RiskGuard extends EventEmitter {
+  private limits: RiskLimitsConfig = { enabled: false };
+  private state: RiskGuardState;
+  private rolloverInterval: NodeJS.Timeout | null = null;
+  private mode: RiskGuardMode = 'live';
+  private persistEnabled = false;
+
+  constructor() {
+    super();
+    this.state = this.initialState(Date.now());
+  }
+
+  private initialState(now: number): RiskGuardState {
+    return {
+      paused: false,
+      source: null,
+      reason: null,
+      pausedAt: null,
+      resumeAt: null,
+      tradingDay: utcDay(now),
+      dailyRealizedPnl: 0,
+      consecutiveLosses: 0,
+      peakEquity: 0,
+      currentEquity: 0,
+      drawdownPercent: 0,
+    };
+  }
+
+  updateConfig(config: Config): void {
+    this.limits = config.global.riskLimits || { enabled: false };
+  }
+
+  // Check for UTC day rollover once a minute so automatic pauses lift without new events
+  start(): void {
+    if (this.rolloverInterval) return;
+    this.rolloverInterval = setInterval(() => this.checkDayRollover(Date.now()), 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.rolloverInterval) {
+      clearInterval(this.rolloverInterval);
+      this.rolloverInterval = null;
+    }
+  }
+
+  reset(now: number = Date.now()): void {
+    this.state = this.initialState(now);
+    this.persist();
+  }
+
+  /**
+   * Load the persisted state for the mode and start writing through. An automatic
+   * pause from an earlier UTC day lifts here like it would have at midnight.
+   */
+  async restore(mode: RiskGuardMode, now: number = Date.now()): Promise<void> {
+    this.mode = mode;
+
+    try {
+      const row = await riskGuardDb.getState(mode);
+      if (row) {
+        const saved: RiskGuardState = JSON.parse(row.state);
+        this.state = {
+          ...this.initialState(now),
+          paused: saved.paused,
+          source: saved.source,
+          reason: saved.reason,
+          pausedAt: saved.pausedAt,
+          resumeAt: saved.resumeAt,
+          tradingDay: saved.tradingDay,
+          dailyRealizedPnl: saved.dailyRealizedPnl,
+          consecutiveLosses: saved.consecutiveLosses,
+        };
+      }
+    } catch (error) {
+logErrorWithTimestamp('RiskGuard: Failed to restore state:', error);
+    }
+
+    this.persistEnabled = true;
+    this.checkDayRollover(now);
+
+    if (this.state.paused) {
+logWarnWithTimestamp(`RiskGuard: Restored trading pause - ${this.state.reason}`);
+    }
+  }
+
+  /**
+   * Record the realized PnL of a closed trade (or partial close)
+   */
+  recordTradeResult(pnl: number, timestamp: number = Date.now()): void {
+    this.checkDayRollover(timestamp);
+
+    this.state.dailyRealizedPnl += pnl;
+    if (pnl < 0) {
+      this.state.consecutiveLosses++;
+    } else if (pnl > 0) {
+      this.state.consecutiveLosses = 0;
+    }
+
+    this.persist();
+
+    if (!this.limits.enabled || this.state.paused) return;
+
+    const { maxDailyLossUSDT, maxConsecutiveLosses } = this.limits;
+
+    if (maxDailyLossUSDT && this.state.dailyRealizedPnl <= -maxDailyLossUSDT) {
+      this.trip('DAILY_LOSS', `Daily realized loss ${this.state.dailyRealizedPnl.toFixed(2)} USDT reached limit of -${maxDailyLossUSDT} USDT`, timestamp);
+    } else if (maxConsecutiveLosses && this.state.consecutiveLosses >= maxConsecutiveLosses) {
+      this.trip('CONSECUTIVE_LOSSES', `${this.state.consecutiveLosses} consecutive losing trades (limit ${maxConsecutiveLosses})`, timestamp);
+    }
+  }
+
+  /**
+   * Update account equity (wallet balance + unrealized PnL)
+   */
+  updateEquity(equity: number, timestamp: number = Date.now()): void {
+    this.checkDayRollover(timestamp);
+    if (equity <= 0) return;
+
+    this.state.currentEquity = equity;
+    if (equity > this.state.peakEquity) {
+      this.state.peakEquity = equity;
+    }
+    this.state.drawdownPercent = this.state.peakEquity > 0
+      ? ((this.state.peakEquity - equity) / this.state.peakEquity) * 100
+      : 0;
+
+    if (!this.limits.enabled || this.state.paused) return;
+
+    const { maxDrawdownPercent } = this.limits;
+    if (maxDrawdownPercent && this.state.drawdownPercent >= maxDrawdownPercent) {
+      this.trip('DRAWDOWN', `Equity drawdown ${this.state.drawdownPercent.toFixed(2)}% from peak ${this.state.peakEquity.toFixed(2)} USDT reached limit of ${maxDrawdownPercent}%`, timestamp);
+    }
+  }
+
+  isTradingPaused(now: number = Date.now()): boolean {
+    this.checkDayRollover(now);
+    return this.state.paused;
+  }
+
+  getState(): RiskGuardState {
+    return { ...this.state };
+  }
+
+  /**
+   * Pause trading manually (e.g. from Telegram or the dashboard)
+   */
+  pause(reason: string = 'Paused manually', now: number = Date.now()): void {
+    if (this.state.paused) return;
+    this.state.paused = true;
+    this.state.source = 'MANUAL';
+    this.state.reason = reason;
+    this.state.pausedAt = now;
+    this.state.resumeAt = null;
+    this.persist();
+
+logWarnWithTimestamp(`RiskGuard: Trading paused - ${reason}`);
+    this.emit('tradingPaused', { state: this.getState(), flatten: false });
+  }
+
+  /**
+   * Resume trading. Drawdown is measured from the current equity and the
+   * consecutive loss streak starts over; today's realized PnL is kept.
+   */
+  resume(reason: string = 'Resumed manually'): void {
+    if (!this.state.paused) return;
+
+    this.state.paused = false;
+    this.state.source = null;
+    this.state.reason = null;
+    this.state.pausedAt = null;
+    this.state.resumeAt = null;
+    this.state.consecutiveLosses = 0;
+    this.state.peakEquity = this.state.currentEquity;
+    this.state.drawdownPercent = 0;
+    this.persist();
+
+logWithTimestamp(`RiskGuard: Trading resumed - ${reason}`);
+    this.emit('tradingResumed', { state: this.getState(), reason });
+  }
+
+  private trip(source: PauseSource, reason: string, now: number): void {
+    this.state.paused = true;
+    this.state.source = source;
+    this.state.reason = reason;
+    this.state.pausedAt = now;
+    this.state.resumeAt = nextUtcMidnight(now);
+    this.persist();
+
+logWarnWithTimestamp(`RiskGuard: KILL SWITCH - ${reason}. New entries paused until ${new Date(this.state.resumeAt).toISOString()}`);
+    this.emit('tradingPaused', { state: this.getState(), flatten: this.limits.flattenOnBreach === true });
+  }
+
+  private checkDayRollover(now: number): void {
+    const today = utcDay(now);
+    if (today === this.state.tradingDay) return;
+
+    this.state.tradingDay = today;
+    this.state.dailyRealizedPnl = 0;
+    this.state.consecutiveLosses = 0;
+
+    if (this.state.paused && this.state.source !== 'MANUAL') {
+      this.resume('New UTC trading day');
+    } else {
+      this.persist();
+    }
+  }
+
+  private persist(): void {
+    if (!this.persistEnabled) return;
+
+    riskGuardDb.saveState(this.mode, JSON.stringify(this.state)).catch(error => {
+logErrorWithTimestamp('RiskGuard: Failed to persist state:', error);
+    });
+  }
+}
+
+export const riskGuard = new RiskGuard();
@@ -21,6 +21,7 @@ interface TelegramConfig {
     errors?: boolean;
     lowBalance?: boolean;
     lowBalanceThreshold?: number;
+    liquidationRisk?: boolean;
   };
 }
 
@@ -230,6 +231,7 @@ ${this.config?.notifications?.stopLossHit ? '✅' : '❌'} Stop loss hit
 ${this.config?.notifications?.takeProfitHit ? '✅' : '❌'} Take profit hit
 ${this.config?.notifications?.tradeBlocked ? '✅' : '❌'} Trade blocked
 ${this.config?.notifications?.errors ? '✅' : '❌'} Errors
+${this.config?.notifications?.liquidationRisk !== false ? '✅' : '❌'} Liquidation risk
     `;
 
     await this.sendMessageToChat(msg.chat.id.toString(), helpMessage);
@@ -312,6 +314,22 @@ Reason: ${reason}
     await this.sendMessage(message);
   }
 
+  async sendLiquidationRisk(symbol: string, side: string, level: string, details: string): Promise<void> {
+    if (!this.shouldSendNotification('liquidationRisk')) return;
+
+    const title = level === 'MARGIN_CALL' ? 'Margin Call' : level === 'CRITICAL' ? 'Liquidation Risk - Critical' : 'Liquidation Risk';
+
+    const message = `
+🚨 <b>${title}</b>
+
+Symbol: <code>${symbol}</code>
+Side: <b>${side}</b>
+${details}
+    `;
+
+    await this.sendMessage(message);
+  }
+
   async sendError(error: string): Promise<void> {
     if (!this.shouldSendNotification('errors')) return;
 
@@ -1,5 +1,6 @@
 import { EventEmitter } from 'events';
-import { Config, LiquidationEvent } from '../types';
+import { Config, LiquidationEvent, SymbolConfig } from '../types';
+import { adaptiveThresholds } from './adaptiveThresholds';
 
 export interface ThresholdStatus {
   symbol: string;
@@ -66,8 +67,7 @@ export class ThresholdMonitor extends EventEmitter {
       if (symbolConfig.useThreshold) {
         this.thresholdStatuses.set(symbol, {
           symbol,
-          longThreshold: symbolConfig.longVolumeThresholdUSDT ?? symbolConfig.volumeThresholdUSDT ?? 10000,
-          shortThreshold: symbolConfig.shortVolumeThresholdUSDT ?? symbolConfig.volumeThresholdUSDT ?? 10000,
+          ...this.resolveThresholds(symbol, symbolConfig),
           recentLongVolume: 0,
           recentShortVolume: 0,
           longProgress: 0,
@@ -85,6 +85,17 @@ export class ThresholdMonitor extends EventEmitter {
     }
   }
 
+  // Configured thresholds of the SELL (long) and BUY (short) liquidation volumes, replaced by
+  // the adaptive percentile thresholds when enabled for the symbol
+  private resolveThresholds(symbol: string, symbolConfig: SymbolConfig): { longThreshold: number; shortThreshold: number } {
+    return {
+      longThreshold: adaptiveThresholds.getAdaptiveLiquidationThreshold(symbol, symbolConfig, 'SELL')
+        ?? symbolConfig.longVolumeThresholdUSDT ?? symbolConfig.volumeThresholdUSDT ?? 10000,
+      shortThreshold: adaptiveThresholds.getAdaptiveLiquidationThreshold(symbol, symbolConfig, 'BUY')
+        ?? symbolConfig.shortVolumeThresholdUSDT ?? symbolConfig.volumeThresholdUSDT ?? 10000
+    };
+  }
+
   public updateConfig(newConfig: Config): void {
     this.config = newConfig;
 
@@ -101,8 +112,7 @@ export class ThresholdMonitor extends EventEmitter {
         const existing = this.thresholdStatuses.get(symbol);
         if (existing) {
           // Update thresholds and time window
-          existing.longThreshold = symbolConfig.longVolumeThresholdUSDT ?? symbolConfig.volumeThresholdUSDT ?? 10000;
-          existing.shortThreshold = symbolConfig.shortVolumeThresholdUSDT ?? symbolConfig.volumeThresholdUSDT ?? 10000;
+          Object.assign(existing, this.resolveThresholds(symbol, symbolConfig));
           existing.timeWindow = symbolConfig.thresholdTimeWindow || this.timeWindow;
           existing.lastUpdate = Date.now();
           // Clean up old liquidations with new time window
@@ -112,8 +122,7 @@ export class ThresholdMonitor extends EventEmitter {
           // Add new symbol
           this.thresholdStatuses.set(symbol, {
             symbol,
-            longThreshold: symbolConfig.longVolumeThresholdUSDT ?? symbolConfig.volumeThresholdUSDT ?? 10000,
-            shortThreshold: symbolConfig.shortVolumeThresholdUSDT ?? symbolConfig.volumeThresholdUSDT ?? 10000,
+            ...this.resolveThresholds(symbol, symbolConfig),
             recentLongVolume: 0,
             recentShortVolume: 0,
             longProgress: 0,
@@ -147,12 +156,11 @@ export class ThresholdMonitor extends EventEmitter {
     }
   }
 
-  public processLiquidation(liquidation: LiquidationEvent): ThresholdStatus | null {
+  // `now` is the event time when replaying history through the monitor
+  public processLiquidation(liquidation: LiquidationEvent, now: number = Date.now()): ThresholdStatus | null {
     const status = this.thresholdStatuses.get(liquidation.symbol);
     if (!status) return null;
 
-    const now = Date.now();
-
     // Determine which side this liquidation affects
     // SELL liquidation means longs are getting liquidated, we might want to BUY (long)
     // BUY liquidation means shorts are getting liquidated, we might want to SELL (short)
@@ -0,0 +1,565 @@
+import { EventEmitter } from 'events';
+import { LiquidationEvent } from '../types';
+import type { liveTradeDb, LiveTrade, LiveTradeCloseReason, LiveTradeProtectiveOrder } from '../db/liveTradeDb';
+import { getPriceService } from './priceService';
+import { logWithTimestamp, logErrorWithTimestamp, logWarnWithTimestamp } from '../utils/timestamp';
+import { getOrderFee } from '../utils/orderFees';
+
+type Direction = 'LONG' | 'SHORT';
+
+// Where journal rows are kept - the live_trades table unless the journal is given another store
+export type TradeJournalStore = Pick<typeof liveTradeDb, 'getOpenTrades' | 'saveTrade' | 'updateTrade' | 'closeTrade'>;
+
+export interface EntryOrderInfo {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  orderType?: string;
+  liquidation?: LiquidationEvent; // Liquidation that triggered the entry
+}
+
+interface JournalExit {
+  orderId: string;
+  reason: LiveTradeCloseReason;
+  quantity: number;
+  price: number;
+  time: number;
+}
+
+interface JournalAdd {
+  orderId: string;
+  quantity: number;
+  price: number;
+  time: number;
+}
+
+interface OpenTradeState {
+  trade: LiveTrade;
+  protectiveOrders: LiveTradeProtectiveOrder[];
+  adds: JournalAdd[];
+  exits: JournalExit[];
+  excursionDirty: boolean;
+  flatTimer?: NodeJS.Timeout;
+}
+
+const QUANTITY_EPSILON = 0.00000001;
+const EXCURSION_FLUSH_MS = 30 * 1000;
+const FLAT_CLOSE_GRACE_MS = 10 * 1000;    // Wait this long for the closing fill after a position is reported flat
+const PENDING_ENTRY_TTL_MS = 60 * 60 * 1000;
+
+const PROTECTIVE_ORDER_TYPES = ['STOP_MARKET', 'STOP', 'TAKE_PROFIT_MARKET', 'TAKE_PROFIT', 'TRAILING_STOP_MARKET'];
+
+// Close reason of a closing fill from the order type and the client order id prefixes the bot uses
+export function classifyCloseReason(orderType: string, clientOrderId?: string): LiveTradeCloseReason {
+  const id = clientOrderId || '';
+
+  // Exchange liquidations and ADL use autoclose-* / adl_autoclose client order ids
+  if (orderType === 'LIQUIDATION' || id.startsWith('autoclose') || id.startsWith('adl_autoclose')) {
+    return 'LIQUIDATION';
+  }
+  if (orderType === 'TRAILING_STOP_MARKET' || id.startsWith('al_ts_')) {
+    return 'TRAILING_STOP';
+  }
+  // Stops moved by the breakeven rule, and timeout market closes / tightened TPs
+  if (id.startsWith('al_be_')) {
+    return 'BREAKEVEN';
+  }
+  if (/^al_(to|tt)_/.test(id)) {
+    return 'TIMEOUT';
+  }
+  // Partial closes by the liquidation guard
+  if (id.startsWith('al_dl_')) {
+    return 'DELEVERAGE';
+  }
+  if (orderType === 'STOP_MARKET' || orderType === 'STOP' || id.startsWith('al_sl_')) {
+    return 'SL';
+  }
+  // Market closes past the TP target are sent as al_mtp_ / al_btc_ / al_pc_
+  if (orderType === 'TAKE_PROFIT_MARKET' || orderType === 'TAKE_PROFIT' || /^al_(tp|mtp|btc|pc)_/.test(id)) {
+    return 'TP';
+  }
+  return 'MANUAL';
+}
+
+// Position direction a fill belongs to and whether it reduces that position
+export function getFillDirection(
+  side: 'BUY' | 'SELL',
+  positionSide: string,
+  reduceOnly: boolean,
+  openDirection?: Direction
+): { direction: Direction; isClose: boolean } {
+  if (positionSide === 'LONG' || positionSide === 'SHORT') {
+    return {
+      direction: positionSide,
+      isClose: (positionSide === 'LONG') !== (side === 'BUY'),
+    };
+  }
+
+  // One-way mode: a fill against the open direction reduces it
+  const fillDirection: Direction = side === 'BUY' ? 'LONG' : 'SHORT';
+  if (reduceOnly || (openDirection && openDirection !== fillDirection)) {
+    return { direction: fillDirection === 'LONG' ? 'SHORT' : 'LONG', isClose: true };
+  }
+  return { direction: fillDirection, isClose: false };
+}
+
+export function calculateUnrealizedPnl(direction: Direction, entryPrice: number, quantity: number, price: number): number {
+  return (direction === 'LONG' ? price - entryPrice : entryPrice - price) * quantity;
+}
+
+export function updateExcursions(current: { mae: number; mfe: number }, unrealizedPnl: number): { mae: number; mfe: number } {
+  return {
+    mae: Math.min(current.mae, unrealizedPnl),
+    mfe: Math.max(current.mfe, unrealizedPnl),
+  };
+}
+
+/**
+ * Trade Journal
+ *
+ * Records every live trade in the live_trades table from the user data stream:
+ * - Entry fills open a trade (same-direction fills while open are scale-in adds)
+ * - Protective orders placed for the position are attached as they are acknowledged
+ * - Closing fills accumulate exit price, realized PnL and fees; the last one sets the close reason
+ * - MAE/MFE are sampled from mark prices and ACCOUNT_UPDATE unrealized PnL
+ *
+ * Hunter passes the originating liquidation through registerEntryOrder.
+ * Emits 'tradeOpened' and 'tradeClosed' with the journal row.
+ */
+export class TradeJournal extends EventEmitter {
+  private openTrades: Map<string, OpenTradeState> = new Map(); // symbol_LONG|SHORT -> open trade
+  private pendingEntries: Map<string, EntryOrderInfo & { registeredAt: number }> = new Map(); // orderId -> entry info
+  private writes: Promise<void> = Promise.resolve();
+  private flushInterval: NodeJS.Timeout | null = null;
+  private markPriceListener: ((updates: Array<{ symbol: string; markPrice: string }>) => void) | null = null;
+  private started = false;
+
+  constructor(private store?: TradeJournalStore) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    try {
+      const openTrades = await (await this.getStore()).getOpenTrades();
+      for (const trade of openTrades) {
+        const metadata = trade.metadata ? JSON.parse(trade.metadata) : {};
+        this.openTrades.set(this.getKey(trade.symbol, trade.position_side as Direction), {
+          trade,
+          protectiveOrders: trade.protective_orders ? JSON.parse(trade.protective_orders) : [],
+          adds: metadata.adds || [],
+          exits: metadata.exits || [],
+          excursionDirty: false,
+        });
+      }
+      if (openTrades.length > 0) {
+logWithTimestamp(`TradeJournal: Restored ${openTrades.length} open trade(s)`);
+      }
+    } catch (error) {
+logErrorWithTimestamp('TradeJournal: Failed to restore open trades:', error);
+    }
+
+    const priceService = getPriceService();
+    if (priceService) {
+      this.markPriceListener = (updates) => this.updateMarkPrices(updates);
+      priceService.on('markPriceUpdate', this.markPriceListener);
+    }
+
+    this.flushInterval = setInterval(() => this.flushExcursions(), EXCURSION_FLUSH_MS);
+  }
+
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    if (this.markPriceListener) {
+      getPriceService()?.off('markPriceUpdate', this.markPriceListener);
+      this.markPriceListener = null;
+    }
+    for (const state of this.openTrades.values()) {
+      if (state.flatTimer) clearTimeout(state.flatTimer);
+    }
+
+    this.flushExcursions();
+  }
+
+  // Resolves once all queued database writes are done
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  getOpenTrade(symbol: string, direction: Direction): LiveTrade | null {
+    return this.openTrades.get(this.getKey(symbol, direction))?.trade || null;
+  }
+
+  // Scale-in orders that have filled into the open trade, partial fills of one order count once
+  getAddCount(symbol: string, direction: Direction): number {
+    return this.openTrades.get(this.getKey(symbol, direction))?.adds.length || 0;
+  }
+
+  // Remember what the bot intended with an entry order, the fill may arrive before or after this
+  registerEntryOrder(orderId: number | string, info: EntryOrderInfo): void {
+    if (!this.started) return;
+    const id = orderId.toString();
+
+    for (const state of this.openTrades.values()) {
+      if (state.trade.entry_order_id === id) {
+        if (info.liquidation && state.trade.liquidation_time == null) {
+          Object.assign(state.trade, this.getLiquidationFields(info.liquidation));
+          this.persistUpdate(state, this.getLiquidationFields(info.liquidation));
+        }
+        return;
+      }
+    }
+
+    const now = Date.now();
+    for (const [pendingId, pending] of this.pendingEntries.entries()) {
+      if (now - pending.registeredAt > PENDING_ENTRY_TTL_MS) {
+        this.pendingEntries.delete(pendingId);
+      }
+    }
+    this.pendingEntries.set(id, { ...info, registeredAt: now });
+  }
+
+  handleOrderUpdate(event: any, leverage: number): void {
+    if (!this.started || !event.o) return;
+
+    const order = event.o;
+    this.trackProtectiveOrder(order, event.E || Date.now());
+
+    // Only executions carry a last filled quantity (TRADE, or CALCULATED for liquidations)
+    const lastQty = parseFloat(order.l || '0');
+    if (lastQty <= 0) return;
+
+    const symbol: string = order.s;
+    const side: 'BUY' | 'SELL' = order.S;
+    const orderId = order.i?.toString();
+    const price = parseFloat(order.L || order.ap || '0');
+    const time = order.T || event.E || Date.now();
+    const fee = getOrderFee(order);
+
+    const openDirection = this.getOpenDirection(symbol);
+    const { direction, isClose } = getFillDirection(side, order.ps || 'BOTH', !!order.R || !!order.cp, openDirection);
+    const key = this.getKey(symbol, direction);
+    const state = this.openTrades.get(key);
+
+    if (isClose) {
+      if (!state) {
+logWarnWithTimestamp(`TradeJournal: Closing fill for ${symbol} ${direction} without an open journal trade, ignoring`);
+        return;
+      }
+      this.applyExit(key, state, {
+        orderId,
+        reason: classifyCloseReason(order.o, order.c),
+        quantity: lastQty,
+        price,
+        time,
+      }, parseFloat(order.rp || '0'), fee);
+      return;
+    }
+
+    if (state) {
+      this.applyAdd(state, { orderId, quantity: lastQty, price, time }, fee);
+      return;
+    }
+
+    const pending = this.pendingEntries.get(orderId);
+    this.pendingEntries.delete(orderId);
+
+    const trade: LiveTrade = {
+      symbol,
+      side,
+      position_side: direction,
+      quantity: lastQty,
+      closed_quantity: 0,
+      entry_price: price,
+      leverage,
+      entry_order_id: orderId,
+      entry_order_type: order.o,
+      status: 'open',
+      opened_at: time,
+      realized_pnl: 0,
+      fees: fee,
+      mae: 0,
+      mfe: 0,
+      ...(pending?.liquidation ? this.getLiquidationFields(pending.liquidation) : {}),
+    };
+
+    const newState: OpenTradeState = { trade, protectiveOrders: [], adds: [], exits: [], excursionDirty: false };
+    this.openTrades.set(key, newState);
+    this.persist(async () => {
+      trade.id = await (await this.getStore()).saveTrade(trade);
+    });
+
+logWithTimestamp(`TradeJournal: Opened ${symbol} ${direction} trade - qty=${lastQty} entry=${price}${pending?.liquidation ? ` (liquidation ${pending.liquidation.side} ${pending.liquidation.qty} @ ${pending.liquidation.price})` : ''}`);
+    this.emit('tradeOpened', { ...trade });
+  }
+
+  handleAccountUpdate(event: any): void {
+    if (!this.started || !event.a?.P) return;
+
+    for (const pos of event.a.P) {
+      const positionAmt = parseFloat(pos.pa);
+      const positionSide = pos.ps || 'BOTH';
+      const directions: Direction[] = positionSide !== 'BOTH'
+        ? [positionSide]
+        : positionAmt > 0 ? ['LONG'] : positionAmt < 0 ? ['SHORT'] : ['LONG', 'SHORT'];
+
+      for (const direction of directions) {
+        const key = this.getKey(pos.s, direction);
+        const state = this.openTrades.get(key);
+        if (!state) continue;
+
+        if (positionAmt === 0) {
+          this.scheduleFlatClose(key, state);
+        } else if (pos.up !== undefined) {
+          this.applyExcursion(state, parseFloat(pos.up));
+        }
+      }
+    }
+  }
+
+  updateMarkPrices(updates: Array<{ symbol: string; markPrice: string }>): void {
+    for (const update of updates) {
+      const markPrice = parseFloat(update.markPrice);
+      if (!(markPrice > 0)) continue;
+
+      for (const direction of ['LONG', 'SHORT'] as const) {
+        const state = this.openTrades.get(this.getKey(update.symbol, direction));
+        if (!state) continue;
+
+        const { trade } = state;
+        const openQty = trade.quantity - (trade.closed_quantity || 0);
+        this.applyExcursion(state, calculateUnrealizedPnl(direction, trade.entry_price, openQty, markPrice));
+      }
+    }
+  }
+
+  private applyAdd(state: OpenTradeState, add: JournalAdd, fee: number): void {
+    const { trade } = state;
+    const totalQty = trade.quantity + add.quantity;
+
+    trade.entry_price = (trade.entry_price * trade.quantity + add.price * add.quantity) / totalQty;
+    trade.quantity = totalQty;
+    trade.fees = (trade.fees || 0) + fee;
+
+    // Partial fills of the original entry order are not scale-in adds
+    if (add.orderId !== trade.entry_order_id) {
+      const previous = state.adds.find(a => a.orderId === add.orderId);
+      if (previous) {
+        previous.price = (previous.price * previous.quantity + add.price * add.quantity) / (previous.quantity + add.quantity);
+        previous.quantity += add.quantity;
+      } else {
+        state.adds.push(add);
+logWithTimestamp(`TradeJournal: Scale-in add for ${trade.symbol} ${trade.position_side} - qty=${add.quantity} @ ${add.price}, avg entry ${trade.entry_price.toFixed(6)}`);
+      }
+    }
+
+    this.persistUpdate(state, {
+      quantity: trade.quantity,
+      entry_price: trade.entry_price,
+      fees: trade.fees,
+      metadata: this.getMetadata(state),
+    });
+  }
+
+  private applyExit(key: string, state: OpenTradeState, exit: JournalExit, realizedPnl: number, fee: number): void {
+    const { trade } = state;
+    const closedBefore = trade.closed_quantity || 0;
+    const openQty = trade.quantity - closedBefore;
+    const closeQty = Math.min(exit.quantity, openQty);
+
+    // Sample the excursion at the fill price before the position shrinks
+    this.applyExcursion(state, calculateUnrealizedPnl(trade.position_side as Direction, trade.entry_price, openQty, exit.price));
+
+    trade.closed_quantity = closedBefore + closeQty;
+    trade.exit_price = ((trade.exit_price || 0) * closedBefore + exit.price * closeQty) / (trade.closed_quantity || 1);
+    trade.realized_pnl = (trade.realized_pnl || 0) + realizedPnl;
+    trade.fees = (trade.fees || 0) + fee;
+    state.exits.push({ ...exit, quantity: closeQty });
+
+    if (trade.quantity - trade.closed_quantity > QUANTITY_EPSILON) {
+logWithTimestamp(`TradeJournal: Partial exit for ${trade.symbol} ${trade.position_side} (${exit.reason}) - qty=${closeQty} @ ${exit.price}, ${(trade.quantity - trade.closed_quantity).toFixed(8)} remaining`);
+      this.persistUpdate(state, {
+        closed_quantity: trade.closed_quantity,
+        exit_price: trade.exit_price,
+        realized_pnl: trade.realized_pnl,
+        fees: trade.fees,
+        metadata: this.getMetadata(state),
+      });
+      return;
+    }
+
+    this.closeTrade(key, state, exit.reason, exit.time);
+  }
+
+  private closeTrade(key: string, state: OpenTradeState, reason: LiveTradeCloseReason, closedAt: number): void {
+    const { trade } = state;
+    if (state.flatTimer) clearTimeout(state.flatTimer);
+    this.openTrades.delete(key);
+
+    const margin = (trade.quantity * trade.entry_price) / (trade.leverage || 1);
+    const pnl = (trade.realized_pnl || 0) - (trade.fees || 0);
+
+    trade.status = 'closed';
+    trade.close_reason = reason;
+    trade.closed_at = closedAt;
+    trade.pnl = pnl;
+    trade.pnl_percent = margin > 0 ? (pnl / margin) * 100 : 0;
+    trade.duration_seconds = Math.floor((closedAt - trade.opened_at) / 1000);
+
+    const metadata = this.getMetadata(state);
+    this.persist(async () => {
+      if (!trade.id) return;
+      const store = await this.getStore();
+      await store.updateTrade(trade.id, { metadata });
+      await store.closeTrade(trade.id, {
+        exitPrice: trade.exit_price || 0,
+        closedQuantity: trade.closed_quantity || 0,
+        realizedPnl: trade.realized_pnl || 0,
+        fees: trade.fees || 0,
+        pnl,
+        pnlPercent: trade.pnl_percent || 0,
+        mae: trade.mae || 0,
+        mfe: trade.mfe || 0,
+        closeReason: reason,
+        closedAt,
+      });
+    });
+
+logWithTimestamp(`TradeJournal: Closed ${trade.symbol} ${trade.position_side} trade (${reason}) - exit=${trade.exit_price?.toFixed(6)} PnL=$${pnl.toFixed(2)} (fees $${(trade.fees || 0).toFixed(4)}, MAE $${(trade.mae || 0).toFixed(2)}, MFE $${(trade.mfe || 0).toFixed(2)})`);
+    this.emit('tradeClosed', { ...trade });
+  }
+
+  // ACCOUNT_UPDATE usually arrives before the closing ORDER_TRADE_UPDATE, so give the fill time to land
+  private scheduleFlatClose(key: string, state: OpenTradeState): void {
+    if (state.flatTimer) return;
+
+    state.flatTimer = setTimeout(() => {
+      state.flatTimer = undefined;
+      if (this.openTrades.get(key) !== state) return;
+
+      const { trade } = state;
+      const remaining = trade.quantity - (trade.closed_quantity || 0);
+      const markPrice = parseFloat(getPriceService()?.getMarkPrice(trade.symbol)?.markPrice || '0') || trade.entry_price;
+logWarnWithTimestamp(`TradeJournal: ${trade.symbol} ${trade.position_side} is flat but ${remaining} was never reported filled, closing at mark ${markPrice}`);
+
+      const closedBefore = trade.closed_quantity || 0;
+      trade.closed_quantity = trade.quantity;
+      trade.exit_price = ((trade.exit_price || 0) * closedBefore + markPrice * remaining) / trade.quantity;
+      trade.realized_pnl = (trade.realized_pnl || 0) + calculateUnrealizedPnl(trade.position_side as Direction, trade.entry_price, remaining, markPrice);
+
+      this.closeTrade(key, state, 'UNKNOWN', Date.now());
+    }, FLAT_CLOSE_GRACE_MS);
+  }
+
+  private trackProtectiveOrder(order: any, time: number): void {
+    const orderId = order.i?.toString();
+    if (!orderId) return;
+
+    // Status changes of orders we already track
+    for (const state of this.openTrades.values()) {
+      const tracked = state.protectiveOrders.find(o => o.orderId === orderId);
+      if (tracked) {
+        if (tracked.status !== order.X) {
+          tracked.status = order.X;
+          state.trade.protective_orders = JSON.stringify(state.protectiveOrders);
+          this.persistUpdate(state, { protective_orders: state.trade.protective_orders });
+        }
+        return;
+      }
+    }
+
+    const isProtective = PROTECTIVE_ORDER_TYPES.includes(order.o) || (order.o === 'LIMIT' && order.R);
+    if (order.X !== 'NEW' || !isProtective) return;
+
+    const { direction, isClose } = getFillDirection(order.S, order.ps || 'BOTH', true);
+    const state = this.openTrades.get(this.getKey(order.s, direction));
+    if (!isClose || !state) return;
+
+    const role = classifyCloseReason(order.o, order.c);
+    state.protectiveOrders.push({
+      orderId,
+      type: order.o,
+      role: role === 'SL' || role === 'BREAKEVEN' ? 'SL' : role === 'TRAILING_STOP' ? role : 'TP',
+      stopPrice: parseFloat(order.sp || order.p || '0'),
+      quantity: parseFloat(order.q || '0'),
+      status: order.X,
+      placedAt: time,
+    });
+    state.trade.protective_orders = JSON.stringify(state.protectiveOrders);
+    this.persistUpdate(state, { protective_orders: state.trade.protective_orders });
+  }
+
+  private applyExcursion(state: OpenTradeState, unrealizedPnl: number): void {
+    const { trade } = state;
+    const next = updateExcursions({ mae: trade.mae || 0, mfe: trade.mfe || 0 }, unrealizedPnl);
+    if (next.mae !== trade.mae || next.mfe !== trade.mfe) {
+      trade.mae = next.mae;
+      trade.mfe = next.mfe;
+      state.excursionDirty = true;
+    }
+  }
+
+  private flushExcursions(): void {
+    for (const state of this.openTrades.values()) {
+      if (!state.excursionDirty) continue;
+      state.excursionDirty = false;
+      this.persistUpdate(state, { mae: state.trade.mae, mfe: state.trade.mfe });
+    }
+  }
+
+  private getOpenDirection(symbol: string): Direction | undefined {
+    if (this.openTrades.has(this.getKey(symbol, 'LONG'))) return 'LONG';
+    if (this.openTrades.has(this.getKey(symbol, 'SHORT'))) return 'SHORT';
+    return undefined;
+  }
+
+  private getLiquidationFields(liquidation: LiquidationEvent): Partial<LiveTrade> {
+    return {
+      liquidation_side: liquidation.side,
+      liquidation_price: liquidation.price,
+      liquidation_quantity: liquidation.qty,
+      liquidation_volume_usdt: liquidation.qty * liquidation.price,
+      liquidation_time: liquidation.eventTime,
+    };
+  }
+
+  private getMetadata(state: OpenTradeState): string {
+    return JSON.stringify({ adds: state.adds, exits: state.exits });
+  }
+
+  private getKey(symbol: string, direction: Direction): string {
+    return `${symbol}_${direction}`;
+  }
+
+  // The live trade database is loaded on first use so importing the journal does not open it
+  private async getStore(): Promise<TradeJournalStore> {
+    if (!this.store) {
+      this.store = (await import('../db/liveTradeDb')).liveTradeDb;
+    }
+    return this.store;
+  }
+
+  private persistUpdate(state: OpenTradeState, updates: Partial<LiveTrade>): void {
+    this.persist(async () => {
+      if (state.trade.id) {
+        await (await this.getStore()).updateTrade(state.trade.id, updates);
+      }
+    });
+  }
+
+  // Writes are chained so updates never race the insert that assigns the trade ID
+  private persist(task: () => Promise<void>): void {
+    this.writes = this.writes.then(task).catch(error => {
+logErrorWithTimestamp('TradeJournal: Database write failed:', error);
+    });
+  }
+}
+
+export const tradeJournal = new TradeJournal();
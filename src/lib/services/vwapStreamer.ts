@@ -1,29 +1,7 @@
-import WebSocket from 'ws';
 import { EventEmitter } from 'events';
 import { Config } from '../types';
 import { getKlines } from '../api/market';
-
-interface KlineStreamData {
-  e: string;     // Event type
-  E: number;     // Event time
-  s: string;     // Symbol
-  k: {
-    t: number;   // Kline start time
-    T: number;   // Kline close time
-    s: string;   // Symbol
-    i: string;   // Interval
-    f: number;   // First trade ID
-    L: number;   // Last trade ID
-    o: string;   // Open price
-    c: string;   // Close price
-    h: string;   // High price
-    l: string;   // Low price
-    v: string;   // Base asset volume
-    n: number;   // Number of trades
-    x: boolean;  // Is this kline closed?
-    q: string;   // Quote asset volume
-  };
-}
+import { marketDataHub, KlineStreamEvent } from './marketDataHub';
 
 interface VWAPData {
   symbol: string;
@@ -34,12 +12,11 @@ interface VWAPData {
 }
 
 export class VWAPStreamer extends EventEmitter {
-  private ws: WebSocket | null = null;
+  private subscriptions: Map<string, { timeframe: string, unsubscribe: () => void }> = new Map();
   private isRunning = false;
   private klineBuffers: Map<string, Array<{high: number, low: number, close: number, volume: number, quoteVolume: number}>> = new Map();
   private vwapValues: Map<string, VWAPData> = new Map();
   private symbolConfigs: Map<string, {timeframe: string, lookback: number}> = new Map();
-  private reconnectTimeout: NodeJS.Timeout | null = null;
   private updateInterval: NodeJS.Timeout | null = null;
 
   constructor() {
@@ -70,7 +47,7 @@ export class VWAPStreamer extends EventEmitter {
     // Load initial historical klines for each symbol
     await this.loadInitialData();
 
-    this.connectWebSocket();
+    this.syncKlineSubscriptions();
 
     // Calculate and broadcast VWAP every second
     this.updateInterval = setInterval(() => {
@@ -114,71 +91,43 @@ export class VWAPStreamer extends EventEmitter {
   public stop(): void {
     this.isRunning = false;
 
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = null;
-    }
-
     if (this.updateInterval) {
       clearInterval(this.updateInterval);
       this.updateInterval = null;
     }
 
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
+    this.subscriptions.forEach(subscription => subscription.unsubscribe());
+    this.subscriptions.clear();
 
     this.klineBuffers.clear();
     this.vwapValues.clear();
     this.symbolConfigs.clear();
   }
 
-  private connectWebSocket(): void {
-    if (!this.isRunning) return;
-
-    // Build stream names for all symbols with their timeframes
-    const streams: string[] = [];
-    for (const [symbol, config] of this.symbolConfigs.entries()) {
-      const stream = `${symbol.toLowerCase()}@kline_${config.timeframe}`;
-      streams.push(stream);
+  // Keep one kline subscription per monitored symbol on the shared market data connection
+  private syncKlineSubscriptions(): void {
+    for (const [symbol, subscription] of this.subscriptions.entries()) {
+      const config = this.symbolConfigs.get(symbol);
+      if (!this.isRunning || !config || config.timeframe !== subscription.timeframe) {
+        subscription.unsubscribe();
+        this.subscriptions.delete(symbol);
+      }
     }
 
-    const streamUrl = `wss://fstream.asterdex.com/stream?streams=${streams.join('/')}`;
-    console.log(`📊 VWAP Streamer: Connecting to ${streamUrl}`);
-
-    this.ws = new WebSocket(streamUrl);
+    if (!this.isRunning) return;
 
-    this.ws.on('open', () => {
-      console.log('📊 VWAP Streamer: WebSocket connected');
-    });
+    for (const [symbol, config] of this.symbolConfigs.entries()) {
+      if (this.subscriptions.has(symbol)) continue;
 
-    this.ws.on('message', (data: Buffer) => {
-      try {
-        const message = JSON.parse(data.toString());
-        if (message.stream && message.data) {
-          this.handleKlineData(message.data);
-        }
-      } catch (error) {
-        console.error('📊 VWAP Streamer: Parse error:', error);
-      }
-    });
-
-    this.ws.on('error', (error) => {
-      console.error('📊 VWAP Streamer: WebSocket error:', error);
-    });
-
-    this.ws.on('close', () => {
-      console.log('📊 VWAP Streamer: WebSocket closed');
-      if (this.isRunning) {
-        this.reconnectTimeout = setTimeout(() => {
-          this.connectWebSocket();
-        }, 5000);
-      }
-    });
+      const unsubscribe = marketDataHub.subscribe(
+        { type: 'kline', symbol, interval: config.timeframe },
+        data => this.handleKlineData(data)
+      );
+      this.subscriptions.set(symbol, { timeframe: config.timeframe, unsubscribe });
+    }
   }
 
-  private handleKlineData(data: KlineStreamData): void {
+  private handleKlineData(data: KlineStreamEvent): void {
     if (data.e !== 'kline') return;
 
     const symbol = data.s;
@@ -296,6 +245,16 @@ export class VWAPStreamer extends EventEmitter {
     return new Map(this.vwapValues);
   }
 
+  // Streamed candles for a symbol (oldest first, the last one may still be open)
+  public getKlineBuffer(symbol: string): { timeframe: string, candles: Array<{high: number, low: number, close: number}> } | null {
+    const config = this.symbolConfigs.get(symbol);
+    const buffer = this.klineBuffers.get(symbol);
+    if (!config || !buffer || buffer.length === 0) {
+      return null;
+    }
+    return { timeframe: config.timeframe, candles: [...buffer] };
+  }
+
   public async updateSymbols(config: Config): Promise<void> {
     console.log('📊 VWAP Streamer: Updating monitored symbols...');
 
@@ -354,13 +313,8 @@ export class VWAPStreamer extends EventEmitter {
       }
     }
 
-    // Restart WebSocket if symbols changed
-    if (addedSymbols.length > 0 || removedSymbols.length > 0) {
-      if (this.ws) {
-        this.ws.close();
-        // Will automatically reconnect with new symbols
-      }
-    }
+    // Subscribe added symbols and drop removed ones without reconnecting
+    this.syncKlineSubscriptions();
   }
 }
 
@@ -0,0 +1,775 @@
+import http from 'http';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { MatchingEngine, MatchingEngineOptions, SimOrder, SimOrderRequest, SimPosition, SimulatorError } from './matchingEngine';
+import { PricePath, PricePathScript, ScriptedLiquidation } from './pricePath';
+import { logWithTimestamp, logErrorWithTimestamp } from '../utils/timestamp';
+
+export interface ExchangeSimulatorOptions extends MatchingEngineOptions {
+  script: PricePathScript;
+  port?: number;             // 0 picks a free port (default: 0)
+  host?: string;             // Interface to listen on (default: '127.0.0.1')
+  stepMs?: number;           // Advance the price path automatically every stepMs, 0 = only via step() (default: 0)
+  apiKey?: string;           // When set, signed requests must carry this key and a valid signature
+  secretKey?: string;
+}
+
+type Params = Record<string, string>;
+type RouteHandler = (params: Params) => unknown;
+
+const KLINE_INTERVALS: Record<string, number> = {
+  '1m': 60_000, '3m': 180_000, '5m': 300_000, '15m': 900_000, '30m': 1_800_000,
+  '1h': 3_600_000, '2h': 7_200_000, '4h': 14_400_000, '1d': 86_400_000,
+};
+
+/**
+ * Exchange Simulator
+ *
+ * Local stand-in for the Aster futures API so the bot and tests can run against
+ * a deterministic market instead of mocks or the real exchange:
+ * - REST endpoints used by lib/api (orders, market data, account, listen keys)
+ * - /ws/<listenKey> user data stream (ORDER_TRADE_UPDATE, ACCOUNT_UPDATE)
+ * - /ws/!markPrice@arr@1s and /ws/!forceOrder@arr market streams
+ * - /stream?streams=... combined streams, with SUBSCRIBE/UNSUBSCRIBE messages
+ *
+ * Prices come from a scripted PricePath. Each step() moves every symbol to its
+ * next price, runs the matching engine, publishes mark prices and klines, and
+ * publishes any liquidations scripted for that step.
+ */
+export class ExchangeSimulator extends EventEmitter {
+  readonly engine: MatchingEngine;
+  readonly path: PricePath;
+  private options: ExchangeSimulatorOptions;
+  private server: http.Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private clients: Map<WebSocket, Set<string>> = new Map(); // socket -> subscribed stream names
+  private listenKeys: Set<string> = new Set();
+  private routes: Map<string, RouteHandler> = new Map();
+  private history: Map<string, Array<{ time: number; price: number }>> = new Map();
+  private countdowns: Map<string, NodeJS.Timeout> = new Map();
+  private stepTimer: NodeJS.Timeout | null = null;
+  private nextListenKey = 1;
+
+  constructor(options: ExchangeSimulatorOptions) {
+    super();
+    this.options = options;
+    this.path = new PricePath(options.script);
+    this.engine = new MatchingEngine(options);
+    this.engine.setClock(() => this.path.time);
+
+    for (const [symbol, price] of this.path.getPrices()) {
+      this.engine.setPrice(symbol, price);
+      this.history.set(symbol, [{ time: this.path.time, price }]);
+    }
+
+    this.engine.on('orderUpdate', event => this.publishUserEvent(event));
+    this.engine.on('accountUpdate', event => this.publishUserEvent(event));
+    this.engine.on('configUpdate', event => this.publishUserEvent(event));
+
+    this.registerRoutes();
+  }
+
+  async start(): Promise<{ restUrl: string; wsUrl: string }> {
+    if (this.server) return this.getUrls();
+
+    const server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+logErrorWithTimestamp('ExchangeSimulator: Request failed:', error);
+        this.sendJson(res, 500, { code: -1000, msg: 'An unknown error occurred while processing the request.' });
+      });
+    });
+
+    this.wss = new WebSocketServer({ noServer: true });
+    server.on('upgrade', (req, socket, head) => {
+      const streams = this.resolveStreams(req.url || '');
+      if (!streams) {
+        socket.write('HTTP/1.1 404 Not Found\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+      this.wss!.handleUpgrade(req, socket, head, ws => this.handleConnection(ws, streams, (req.url || '').startsWith('/stream')));
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, this.options.host || '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+
+    if (this.options.stepMs && this.options.stepMs > 0) {
+      this.stepTimer = setInterval(() => this.step(), this.options.stepMs);
+    }
+
+    const urls = this.getUrls();
+logWithTimestamp(`ExchangeSimulator: Listening on ${urls.restUrl} (${this.path.getSymbols().join(', ')}, ${this.path.length} steps)`);
+    return urls;
+  }
+
+  async stop(): Promise<void> {
+    if (this.stepTimer) {
+      clearInterval(this.stepTimer);
+      this.stepTimer = null;
+    }
+    this.countdowns.forEach(timer => clearTimeout(timer));
+    this.countdowns.clear();
+
+    for (const ws of this.clients.keys()) {
+      ws.terminate();
+    }
+    this.clients.clear();
+
+    if (this.wss) {
+      this.wss.close();
+      this.wss = null;
+    }
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  getUrls(): { restUrl: string; wsUrl: string } {
+    const address = this.server?.address() as AddressInfo | null;
+    const host = this.options.host || '127.0.0.1';
+    const port = address ? address.port : this.options.port ?? 0;
+    return { restUrl: `http://${host}:${port}`, wsUrl: `ws://${host}:${port}` };
+  }
+
+  // Advance the price path one step; returns false once a non-looping path has ended
+  step(): boolean {
+    const next = this.path.advance();
+    if (!next) {
+      if (this.stepTimer) {
+        clearInterval(this.stepTimer);
+        this.stepTimer = null;
+        this.emit('complete', { steps: this.path.step });
+      }
+      return false;
+    }
+
+    for (const [symbol, price] of next.prices) {
+      this.engine.setPrice(symbol, price);
+      const history = this.history.get(symbol)!;
+      history.push({ time: next.time, price });
+      if (history.length > 10000) history.shift();
+    }
+
+    this.publishMarketData(next.time);
+    next.liquidations.forEach(liquidation => this.publishLiquidation(liquidation, next.time));
+    this.emit('step', next);
+    return true;
+  }
+
+  // Publish a liquidation outside of the script, e.g. from a test
+  publishLiquidation(liquidation: Omit<ScriptedLiquidation, 'step'>, time: number = this.path.time): void {
+    const price = liquidation.price ?? this.engine.getPrice(liquidation.symbol) ?? 0;
+    const event = {
+      e: 'forceOrder',
+      E: time,
+      o: {
+        s: liquidation.symbol,
+        S: liquidation.side,
+        o: 'LIMIT',
+        f: 'IOC',
+        q: String(liquidation.quantity),
+        p: String(price),
+        ap: String(price),
+        X: 'FILLED',
+        l: String(liquidation.quantity),
+        z: String(liquidation.quantity),
+        T: time,
+      },
+    };
+    this.publish('!forceOrder@arr', event);
+    this.publish(`${liquidation.symbol.toLowerCase()}@forceOrder`, event);
+  }
+
+  private publishMarketData(time: number): void {
+    const markPrices = this.path.getSymbols().map(symbol => this.markPriceEvent(symbol, time));
+    this.publish('!markPrice@arr@1s', markPrices);
+    this.publish('!markPrice@arr', markPrices);
+
+    for (const event of markPrices) {
+      const symbol = event.s.toLowerCase();
+      this.publish(`${symbol}@markPrice`, event);
+      this.publish(`${symbol}@markPrice@1s`, event);
+    }
+
+    // Kline streams are only built for the intervals somebody is subscribed to
+    const klineStreams = new Set<string>();
+    this.clients.forEach(streams => streams.forEach(stream => {
+      if (stream.includes('@kline_')) klineStreams.add(stream);
+    }));
+    for (const stream of klineStreams) {
+      const [symbolName, interval] = stream.split('@kline_');
+      const symbol = symbolName.toUpperCase();
+      const kline = this.buildKlines(symbol, interval, 1)[0];
+      if (!kline) continue;
+      this.publish(stream, {
+        e: 'kline',
+        E: time,
+        s: symbol,
+        k: {
+          t: kline[0], T: kline[6], s: symbol, i: interval,
+          o: kline[1], c: kline[4], h: kline[2], l: kline[3], v: kline[5], q: kline[7],
+          n: kline[8], x: time + this.path.intervalMs > kline[6],
+        },
+      });
+    }
+  }
+
+  private markPriceEvent(symbol: string, time: number) {
+    const price = String(this.engine.getPrice(symbol));
+    return { e: 'markPriceUpdate', E: time, s: symbol, p: price, i: price, P: price, r: '0.00010000', T: this.nextFundingTime(time) };
+  }
+
+  private nextFundingTime(time: number): number {
+    const eightHours = 8 * 3_600_000;
+    return Math.floor(time / eightHours) * eightHours + eightHours;
+  }
+
+  // Raw streams (/ws/<name>) carry the bare payload, combined streams wrap it as { stream, data }
+  private publish(stream: string, payload: unknown): void {
+    for (const [ws, streams] of this.clients) {
+      if (!streams.has(stream) || ws.readyState !== WebSocket.OPEN) continue;
+      const combined = (ws as any).combined;
+      ws.send(JSON.stringify(combined ? { stream, data: payload } : payload));
+    }
+  }
+
+  private publishUserEvent(event: unknown): void {
+    this.listenKeys.forEach(listenKey => this.publish(listenKey, event));
+  }
+
+  private resolveStreams(url: string): Set<string> | null {
+    const parsed = new URL(url, 'http://localhost');
+    if (parsed.pathname === '/stream' || parsed.pathname === '/ws' || parsed.pathname === '/ws/') {
+      const streams = parsed.searchParams.get('streams');
+      return new Set(streams ? streams.split('/').filter(Boolean) : []);
+    }
+    if (parsed.pathname.startsWith('/ws/')) {
+      const stream = decodeURIComponent(parsed.pathname.slice(4));
+      if (this.isUserStream(stream) && !this.listenKeys.has(stream)) return null;
+      return new Set([stream]);
+    }
+    return null;
+  }
+
+  private isUserStream(stream: string): boolean {
+    return stream.startsWith('simListenKey');
+  }
+
+  private handleConnection(ws: WebSocket, streams: Set<string>, combined: boolean): void {
+    (ws as any).combined = combined;
+    this.clients.set(ws, streams);
+
+    ws.on('message', data => {
+      let message: any;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (_error) {
+        return;
+      }
+      const subscribed = this.clients.get(ws);
+      if (!subscribed || !Array.isArray(message.params)) {
+        ws.send(JSON.stringify({ result: null, id: message.id ?? null }));
+        return;
+      }
+      if (message.method === 'SUBSCRIBE') {
+        message.params.forEach((stream: string) => subscribed.add(stream));
+        ws.send(JSON.stringify({ result: null, id: message.id ?? null }));
+      } else if (message.method === 'UNSUBSCRIBE') {
+        message.params.forEach((stream: string) => subscribed.delete(stream));
+        ws.send(JSON.stringify({ result: null, id: message.id ?? null }));
+      } else if (message.method === 'LIST_SUBSCRIPTIONS') {
+        ws.send(JSON.stringify({ result: Array.from(subscribed), id: message.id ?? null }));
+      }
+    });
+
+    ws.on('close', () => this.clients.delete(ws));
+    ws.on('error', () => this.clients.delete(ws));
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = (req.method || 'GET').toUpperCase();
+    const rawQuery = url.search.startsWith('?') ? url.search.slice(1) : '';
+    const rawBody = method === 'GET' ? '' : await readBody(req);
+
+    const handler = this.routes.get(`${method} ${url.pathname}`);
+    if (!handler) {
+      this.sendJson(res, 404, { code: -1000, msg: `Unsupported endpoint ${method} ${url.pathname}` });
+      return;
+    }
+
+    const params: Params = {};
+    new URLSearchParams(rawQuery).forEach((value, key) => { params[key] = value; });
+    new URLSearchParams(rawBody).forEach((value, key) => { params[key] = value; });
+
+    try {
+      if (params.signature !== undefined) {
+        this.verifySignature(req, rawQuery || rawBody);
+      }
+      this.sendJson(res, 200, handler(params));
+    } catch (error) {
+      if (error instanceof SimulatorError) {
+        this.sendJson(res, error.status, { code: error.code, msg: error.message });
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  private verifySignature(req: http.IncomingMessage, payload: string): void {
+    if (!this.options.apiKey || !this.options.secretKey) return;
+
+    if (req.headers['x-mbx-apikey'] !== this.options.apiKey) {
+      throw new SimulatorError(-2015, 'Invalid API-key, IP, or permissions for action.', 401);
+    }
+    const index = payload.lastIndexOf('signature=');
+    const signed = payload.slice(0, Math.max(0, index - 1));
+    const signature = payload.slice(index + 'signature='.length).split('&')[0];
+    const expected = crypto.createHmac('sha256', this.options.secretKey).update(signed).digest('hex');
+    if (signature !== expected) {
+      throw new SimulatorError(-1022, 'Signature for this request is not valid.');
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private registerRoutes(): void {
+    const engine = this.engine;
+    const route = (key: string, handler: RouteHandler) => this.routes.set(key, handler);
+
+    // Market data
+    route('GET /fapi/v1/ping', () => ({}));
+    route('GET /fapi/v1/time', () => ({ serverTime: this.path.time }));
+    route('GET /fapi/v1/exchangeInfo', () => this.exchangeInfo());
+    route('GET /fapi/v1/premiumIndex', params => this.forSymbols(params, symbol => this.premiumIndex(symbol)));
+    route('GET /fapi/v1/ticker/price', params => this.forSymbols(params, symbol => ({
+      symbol, price: String(engine.getPrice(symbol)), time: this.path.time,
+    })));
+    route('GET /fapi/v1/ticker/bookTicker', params => this.forSymbols(params, symbol => {
+      const book = this.orderBook(symbol, 1);
+      return { symbol, bidPrice: book.bids[0][0], bidQty: book.bids[0][1], askPrice: book.asks[0][0], askQty: book.asks[0][1], time: this.path.time };
+    }));
+    route('GET /fapi/v1/depth', params => this.orderBook(this.requireSymbol(params), parseInt(params.limit || '5')));
+    route('GET /fapi/v1/klines', params => {
+      const symbol = this.requireSymbol(params);
+      if (!KLINE_INTERVALS[params.interval]) throw new SimulatorError(-1120, 'Invalid interval.');
+      return this.buildKlines(symbol, params.interval, parseInt(params.limit || '500'));
+    });
+    route('GET /fapi/v1/trades', params => {
+      const symbol = this.requireSymbol(params);
+      const volume = this.path.getSymbolConfig(symbol)?.volumePerStep ?? 1;
+      return this.history.get(symbol)!.slice(-parseInt(params.limit || '500')).map((tick, index) => ({
+        id: index + 1, price: String(tick.price), qty: String(volume), quoteQty: String(tick.price * volume), time: tick.time, isBuyerMaker: false,
+      }));
+    });
+
+    // Orders
+    route('POST /fapi/v1/order', params => this.serializeOrder(engine.placeOrder(this.parseOrder(params))));
+    route('GET /fapi/v1/order', params => {
+      const order = engine.findOrder(this.requireSymbol(params), optionalInt(params.orderId), params.origClientOrderId);
+      if (!order) throw new SimulatorError(-2013, 'Order does not exist.');
+      return this.serializeOrder(order);
+    });
+    route('DELETE /fapi/v1/order', params =>
+      this.serializeOrder(engine.cancelOrder(this.requireSymbol(params), optionalInt(params.orderId), params.origClientOrderId))
+    );
+    route('DELETE /fapi/v1/allOpenOrders', params => {
+      engine.cancelAllOrders(this.requireSymbol(params));
+      return { code: 200, msg: 'The operation of cancel all open order is done.' };
+    });
+    route('POST /fapi/v1/batchOrders', params => {
+      const orders: Params[] = JSON.parse(params.batchOrders || '[]');
+      if (orders.length > 5) throw new SimulatorError(-1130, 'Data sent for paramter batchOrders is not valid.');
+      return orders.map(order => {
+        try {
+          return this.serializeOrder(engine.placeOrder(this.parseOrder(order)));
+        } catch (error) {
+          if (error instanceof SimulatorError) return { code: error.code, msg: error.message };
+          throw error;
+        }
+      });
+    });
+    route('DELETE /fapi/v1/batchOrders', params => {
+      const symbol = this.requireSymbol(params);
+      const orderIds: number[] = JSON.parse(params.orderIdList || '[]');
+      return orderIds.map(orderId => {
+        try {
+          return this.serializeOrder(engine.cancelOrder(symbol, orderId));
+        } catch (error) {
+          if (error instanceof SimulatorError) return { code: error.code, msg: error.message };
+          throw error;
+        }
+      });
+    });
+    route('GET /fapi/v1/openOrders', params => engine.getOpenOrders(params.symbol).map(order => this.serializeOrder(order)));
+    route('GET /fapi/v1/allOrders', params =>
+      engine.getAllOrders(this.requireSymbol(params)).slice(-parseInt(params.limit || '500')).map(order => this.serializeOrder(order))
+    );
+    route('POST /fapi/v1/countdownCancelAll', params => {
+      const symbol = this.requireSymbol(params);
+      const countdownTime = parseInt(params.countdownTime || '0');
+      const existing = this.countdowns.get(symbol);
+      if (existing) clearTimeout(existing);
+      this.countdowns.delete(symbol);
+      if (countdownTime > 0) {
+        this.countdowns.set(symbol, setTimeout(() => {
+          this.countdowns.delete(symbol);
+          engine.cancelAllOrders(symbol);
+        }, countdownTime));
+      }
+      return { symbol, countdownTime: String(countdownTime) };
+    });
+
+    // Account
+    route('POST /fapi/v1/leverage', params => {
+      const symbol = this.requireSymbol(params);
+      engine.setLeverage(symbol, parseInt(params.leverage));
+      return { symbol, leverage: engine.getLeverage(symbol), maxNotionalValue: '1000000' };
+    });
+    route('POST /fapi/v1/marginType', params => {
+      engine.setMarginType(this.requireSymbol(params), params.marginType === 'ISOLATED' ? 'isolated' : 'cross');
+      return { code: 200, msg: 'success' };
+    });
+    route('GET /fapi/v1/positionSide/dual', () => ({ dualSidePosition: engine.isDualSidePosition() }));
+    route('POST /fapi/v1/positionSide/dual', params => {
+      engine.setDualSidePosition(params.dualSidePosition === 'true');
+      return { code: 200, msg: 'success' };
+    });
+    route('GET /fapi/v2/positionRisk', params => this.positionRisk(params.symbol));
+    route('GET /fapi/v2/balance', () => {
+      const account = engine.getAccountSummary();
+      return [{
+        accountAlias: 'sim', asset: 'USDT',
+        balance: String(account.walletBalance),
+        crossWalletBalance: String(account.walletBalance),
+        crossUnPnl: String(account.unrealizedPnl),
+        availableBalance: String(account.availableBalance),
+        maxWithdrawAmount: String(Math.max(0, account.availableBalance)),
+        marginAvailable: true,
+        updateTime: this.path.time,
+      }];
+    });
+    const account = () => this.account();
+    route('GET /fapi/v2/account', account);
+    route('GET /fapi/v4/account', account);
+    route('GET /fapi/v1/commissionRate', params => ({
+      symbol: this.requireSymbol(params),
+      makerCommissionRate: String(engine.getMakerFee()),
+      takerCommissionRate: String(engine.getTakerFee()),
+    }));
+    route('GET /fapi/v1/userTrades', params => this.userTrades(this.requireSymbol(params), params));
+    route('GET /fapi/v1/income', params => this.income(params));
+
+    // User data stream
+    route('POST /fapi/v1/listenKey', () => {
+      const listenKey = `simListenKey${this.nextListenKey++}`;
+      this.listenKeys.add(listenKey);
+      return { listenKey };
+    });
+    route('PUT /fapi/v1/listenKey', () => ({}));
+    route('DELETE /fapi/v1/listenKey', () => ({}));
+  }
+
+  private requireSymbol(params: Params): string {
+    const symbol = params.symbol;
+    if (!symbol) {
+      throw new SimulatorError(-1102, "Mandatory parameter 'symbol' was not sent, was empty/null, or malformed.");
+    }
+    if (this.engine.getPrice(symbol) === null) {
+      throw new SimulatorError(-1121, 'Invalid symbol.');
+    }
+    return symbol;
+  }
+
+  // Endpoints that return one object for ?symbol= and an array for all symbols
+  private forSymbols<T>(params: Params, build: (symbol: string) => T): T | T[] {
+    if (params.symbol) return build(this.requireSymbol(params));
+    return this.path.getSymbols().map(build);
+  }
+
+  private parseOrder(params: Params): SimOrderRequest {
+    return {
+      symbol: this.requireSymbol(params),
+      side: params.side as SimOrderRequest['side'],
+      type: params.type,
+      quantity: parseFloat(params.quantity),
+      price: optionalFloat(params.price),
+      stopPrice: optionalFloat(params.stopPrice),
+      activationPrice: optionalFloat(params.activationPrice),
+      callbackRate: optionalFloat(params.callbackRate),
+      reduceOnly: params.reduceOnly === 'true',
+      positionSide: params.positionSide as SimOrderRequest['positionSide'],
+      timeInForce: params.timeInForce as SimOrderRequest['timeInForce'],
+      newClientOrderId: params.newClientOrderId,
+      workingType: params.workingType,
+    };
+  }
+
+  private serializeOrder(order: SimOrder) {
+    return {
+      orderId: order.orderId,
+      clientOrderId: order.clientOrderId,
+      symbol: order.symbol,
+      side: order.side,
+      positionSide: order.positionSide,
+      type: order.type,
+      origType: order.type,
+      status: order.status,
+      timeInForce: order.timeInForce,
+      origQty: String(order.origQty),
+      executedQty: String(order.executedQty),
+      cumQty: String(order.executedQty),
+      cumQuote: String(order.cumQuote),
+      price: String(order.price),
+      avgPrice: String(order.avgPrice),
+      stopPrice: String(order.stopPrice),
+      activatePrice: order.activatePrice !== undefined ? String(order.activatePrice) : undefined,
+      priceRate: order.priceRate !== undefined ? String(order.priceRate) : undefined,
+      reduceOnly: order.reduceOnly,
+      closePosition: false,
+      workingType: order.workingType,
+      priceProtect: false,
+      time: order.time,
+      updateTime: order.updateTime,
+    };
+  }
+
+  private serializePosition(position: SimPosition) {
+    const markPrice = this.engine.getPrice(position.symbol) ?? 0;
+    const leverage = this.engine.getLeverage(position.symbol);
+    return {
+      symbol: position.symbol,
+      positionAmt: String(position.amount),
+      entryPrice: String(position.entryPrice),
+      markPrice: String(markPrice),
+      unRealizedProfit: String(this.engine.getUnrealizedPnl(position)),
+      liquidationPrice: '0',
+      leverage: String(leverage),
+      maxNotionalValue: '1000000',
+      marginType: this.engine.getMarginType(position.symbol),
+      isolatedMargin: '0',
+      isAutoAddMargin: 'false',
+      positionSide: position.positionSide,
+      notional: String(position.amount * markPrice),
+      isolatedWallet: '0',
+      updateTime: position.updateTime,
+    };
+  }
+
+  // Like the exchange, positionRisk lists every symbol and side, flat ones with positionAmt 0
+  private positionRisk(symbol?: string) {
+    const sides: SimPosition['positionSide'][] = this.engine.isDualSidePosition() ? ['LONG', 'SHORT'] : ['BOTH'];
+    const symbols = symbol ? [this.requireSymbol({ symbol })] : this.path.getSymbols();
+    const result = [];
+    for (const name of symbols) {
+      for (const side of sides) {
+        const position = this.engine.getPosition(name, side) ||
+          { symbol: name, positionSide: side, amount: 0, entryPrice: 0, updateTime: 0 };
+        result.push(this.serializePosition(position));
+      }
+    }
+    return result;
+  }
+
+  private account() {
+    const summary = this.engine.getAccountSummary();
+    const positions = this.engine.getPositions().filter(position => position.amount !== 0);
+    return {
+      feeTier: 0,
+      canTrade: true,
+      canDeposit: true,
+      canWithdraw: true,
+      updateTime: this.path.time,
+      totalInitialMargin: String(summary.initialMargin),
+      totalMaintMargin: '0',
+      totalWalletBalance: String(summary.walletBalance),
+      totalUnrealizedProfit: String(summary.unrealizedPnl),
+      totalMarginBalance: String(summary.walletBalance + summary.unrealizedPnl),
+      totalPositionInitialMargin: String(summary.initialMargin),
+      totalOpenOrderInitialMargin: '0',
+      totalCrossWalletBalance: String(summary.walletBalance),
+      totalCrossUnPnl: String(summary.unrealizedPnl),
+      availableBalance: String(summary.availableBalance),
+      maxWithdrawAmount: String(Math.max(0, summary.availableBalance)),
+      assets: [{
+        asset: 'USDT',
+        walletBalance: String(summary.walletBalance),
+        unrealizedProfit: String(summary.unrealizedPnl),
+        marginBalance: String(summary.walletBalance + summary.unrealizedPnl),
+        initialMargin: String(summary.initialMargin),
+        availableBalance: String(summary.availableBalance),
+        crossWalletBalance: String(summary.walletBalance),
+        updateTime: this.path.time,
+      }],
+      positions: positions.map(position => ({
+        ...this.serializePosition(position),
+        unrealizedProfit: String(this.engine.getUnrealizedPnl(position)),
+        initialMargin: String(Math.abs(position.amount) * (this.engine.getPrice(position.symbol) ?? 0) / this.engine.getLeverage(position.symbol)),
+      })),
+    };
+  }
+
+  private userTrades(symbol: string, params: Params) {
+    const startTime = optionalInt(params.startTime) ?? 0;
+    const endTime = optionalInt(params.endTime) ?? Number.MAX_SAFE_INTEGER;
+    return this.engine.getTrades(symbol)
+      .filter(trade => trade.time >= startTime && trade.time <= endTime)
+      .slice(-parseInt(params.limit || '500'))
+      .map(trade => ({
+        symbol: trade.symbol,
+        id: trade.id,
+        orderId: trade.orderId,
+        side: trade.side,
+        positionSide: trade.positionSide,
+        price: String(trade.price),
+        qty: String(trade.qty),
+        quoteQty: String(trade.quoteQty),
+        realizedPnl: String(trade.realizedPnl),
+        commission: String(trade.commission),
+        commissionAsset: 'USDT',
+        buyer: trade.side === 'BUY',
+        maker: trade.maker,
+        time: trade.time,
+      }));
+  }
+
+  // Realized PnL and commission income records derived from the simulated fills
+  private income(params: Params) {
+    const startTime = optionalInt(params.startTime) ?? 0;
+    const endTime = optionalInt(params.endTime) ?? Number.MAX_SAFE_INTEGER;
+    const records = [];
+    for (const trade of this.engine.getTrades(params.symbol)) {
+      if (trade.time < startTime || trade.time > endTime) continue;
+      const base = { symbol: trade.symbol, asset: 'USDT', info: '', time: trade.time, tradeId: String(trade.id) };
+      if (trade.realizedPnl !== 0) {
+        records.push({ ...base, incomeType: 'REALIZED_PNL', income: String(trade.realizedPnl), tranId: `${trade.id}1` });
+      }
+      records.push({ ...base, incomeType: 'COMMISSION', income: String(-trade.commission), tranId: `${trade.id}2` });
+    }
+    const filtered = params.incomeType ? records.filter(record => record.incomeType === params.incomeType) : records;
+    return filtered.slice(-parseInt(params.limit || '1000'));
+  }
+
+  private exchangeInfo() {
+    return {
+      timezone: 'UTC',
+      serverTime: this.path.time,
+      rateLimits: [],
+      symbols: this.path.getSymbols().map(symbol => {
+        const config = this.path.getSymbolConfig(symbol)!;
+        const tickSize = config.tickSize || '0.01';
+        const stepSize = config.stepSize || '0.001';
+        return {
+          symbol,
+          pair: symbol,
+          contractType: 'PERPETUAL',
+          status: 'TRADING',
+          baseAsset: symbol.replace(/USDT$/, ''),
+          quoteAsset: 'USDT',
+          marginAsset: 'USDT',
+          pricePrecision: decimals(tickSize),
+          quantityPrecision: decimals(stepSize),
+          orderTypes: ['LIMIT', 'MARKET', 'STOP_MARKET', 'TAKE_PROFIT_MARKET', 'TRAILING_STOP_MARKET'],
+          timeInForce: ['GTC', 'IOC', 'FOK', 'GTX'],
+          filters: [
+            { filterType: 'PRICE_FILTER', tickSize, minPrice: tickSize, maxPrice: '10000000' },
+            { filterType: 'LOT_SIZE', stepSize, minQty: stepSize, maxQty: '1000000' },
+            { filterType: 'MARKET_LOT_SIZE', stepSize, minQty: stepSize, maxQty: '1000000' },
+            { filterType: 'MIN_NOTIONAL', minNotional: String(config.minNotional ?? 5), notional: String(config.minNotional ?? 5) },
+          ],
+        };
+      }),
+    };
+  }
+
+  private premiumIndex(symbol: string) {
+    const price = String(this.engine.getPrice(symbol));
+    return {
+      symbol,
+      markPrice: price,
+      indexPrice: price,
+      estimatedSettlePrice: price,
+      lastFundingRate: '0.00010000',
+      interestRate: '0.00010000',
+      nextFundingTime: this.nextFundingTime(this.path.time),
+      time: this.path.time,
+    };
+  }
+
+  // Synthetic book: one tick either side of the path price, constant size per level
+  private orderBook(symbol: string, limit: number) {
+    const config = this.path.getSymbolConfig(symbol)!;
+    const tick = parseFloat(config.tickSize || '0.01');
+    const price = this.engine.getPrice(symbol)!;
+    const precision = decimals(config.tickSize || '0.01');
+    const size = String((config.volumePerStep ?? 1) * 10);
+    const bids: string[][] = [];
+    const asks: string[][] = [];
+    for (let i = 0; i < Math.max(1, limit); i++) {
+      bids.push([(price - tick * (i + 1)).toFixed(precision), size]);
+      asks.push([(price + tick * (i + 1)).toFixed(precision), size]);
+    }
+    return { lastUpdateId: this.path.step, E: this.path.time, T: this.path.time, bids, asks };
+  }
+
+  // [openTime, open, high, low, close, volume, closeTime, quoteVolume, trades, takerBuyBase, takerBuyQuote, ignore]
+  private buildKlines(symbol: string, interval: string, limit: number): any[][] {
+    const intervalMs = KLINE_INTERVALS[interval];
+    const history = this.history.get(symbol);
+    if (!intervalMs || !history) return [];
+
+    const volume = this.path.getSymbolConfig(symbol)?.volumePerStep ?? 1;
+    const klines: any[][] = [];
+    for (const tick of history) {
+      const openTime = Math.floor(tick.time / intervalMs) * intervalMs;
+      const last = klines[klines.length - 1];
+      if (!last || last[0] !== openTime) {
+        klines.push([openTime, tick.price, tick.price, tick.price, tick.price, 0, openTime + intervalMs - 1, 0, 0, 0, 0, '0']);
+      }
+      const kline = klines[klines.length - 1];
+      kline[2] = Math.max(kline[2], tick.price);
+      kline[3] = Math.min(kline[3], tick.price);
+      kline[4] = tick.price;
+      kline[5] += volume;
+      kline[7] += volume * tick.price;
+      kline[8] += 1;
+    }
+
+    return klines.slice(-limit).map(kline => kline.map((value, index) =>
+      index === 0 || index === 6 || index === 8 ? value : String(value)
+    ));
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function optionalFloat(value: string | undefined): number | undefined {
+  return value === undefined || value === '' ? undefined : parseFloat(value);
+}
+
+function optionalInt(value: string | undefined): number | undefined {
+  return value === undefined || value === '' ? undefined : parseInt(value);
+}
+
+function decimals(step: string): number {
+  const trimmed = step.replace(/0+$/, '');
+  const dot = trimmed.indexOf('.');
+  return dot === -1 ? 0 : trimmed.length - dot - 1;
+}
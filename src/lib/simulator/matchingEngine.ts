@@ -0,0 +1,582 @@
+import { EventEmitter } from 'events';
+
+export type SimOrderSide = 'BUY' | 'SELL';
+export type SimPositionSide = 'BOTH' | 'LONG' | 'SHORT';
+export type SimOrderType = 'MARKET' | 'LIMIT' | 'STOP_MARKET' | 'TAKE_PROFIT_MARKET' | 'TRAILING_STOP_MARKET';
+export type SimOrderStatus = 'NEW' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELED' | 'EXPIRED';
+
+const ORDER_TYPES: SimOrderType[] = ['MARKET', 'LIMIT', 'STOP_MARKET', 'TAKE_PROFIT_MARKET', 'TRAILING_STOP_MARKET'];
+const QTY_EPSILON = 1e-9;
+
+// Exchange-style rejection, serialized by the simulator as { code, msg }
+export class SimulatorError extends Error {
+  constructor(public code: number, message: string, public status: number = 400) {
+    super(message);
+    this.name = 'SimulatorError';
+  }
+}
+
+export interface SimOrderRequest {
+  symbol: string;
+  side: SimOrderSide;
+  type: string;
+  quantity: number;
+  price?: number;
+  stopPrice?: number;
+  activationPrice?: number;
+  callbackRate?: number;
+  reduceOnly?: boolean;
+  positionSide?: SimPositionSide;
+  timeInForce?: 'GTC' | 'IOC' | 'FOK' | 'GTX';
+  newClientOrderId?: string;
+  workingType?: string;
+}
+
+export interface SimOrder {
+  orderId: number;
+  clientOrderId: string;
+  symbol: string;
+  side: SimOrderSide;
+  positionSide: SimPositionSide;
+  type: SimOrderType;
+  timeInForce: string;
+  origQty: number;
+  executedQty: number;
+  cumQuote: number;
+  price: number;
+  avgPrice: number;
+  stopPrice: number;
+  activatePrice?: number;
+  priceRate?: number;
+  reduceOnly: boolean;
+  workingType: string;
+  status: SimOrderStatus;
+  time: number;
+  updateTime: number;
+  trailingExtreme?: number;  // Best price seen since a trailing stop activated
+}
+
+export interface SimPosition {
+  symbol: string;
+  positionSide: SimPositionSide;
+  amount: number;            // Signed, negative for shorts
+  entryPrice: number;
+  updateTime: number;
+}
+
+export interface SimTrade {
+  id: number;
+  orderId: number;
+  symbol: string;
+  side: SimOrderSide;
+  positionSide: SimPositionSide;
+  price: number;
+  qty: number;
+  quoteQty: number;
+  realizedPnl: number;
+  commission: number;
+  maker: boolean;
+  time: number;
+}
+
+export interface MatchingEngineOptions {
+  startingBalance?: number;  // USDT wallet balance (default: 10000)
+  makerFee?: number;         // Fee rate for resting limit fills (default: 0.0002)
+  takerFee?: number;         // Fee rate for market and triggered fills (default: 0.0004)
+  dualSidePosition?: boolean; // Hedge mode (default: false)
+  defaultLeverage?: number;  // Leverage until set per symbol (default: 20)
+}
+
+/**
+ * Matching Engine
+ *
+ * In-memory futures account for the exchange simulator. Orders rest until the
+ * price path crosses them:
+ * - LIMIT fills at its limit price (maker) once the price trades through it,
+ *   or immediately at the current price (taker) if marketable when placed
+ * - STOP_MARKET / TAKE_PROFIT_MARKET fill at the first price at or beyond the
+ *   stop (taker), so gaps in the path show up as slippage
+ * - TRAILING_STOP_MARKET tracks the best price after activation and fills once
+ *   the price retraces by callbackRate percent
+ *
+ * Emits 'orderUpdate' and 'accountUpdate' with user data stream payloads
+ * (ORDER_TRADE_UPDATE / ACCOUNT_UPDATE) and 'configUpdate' on leverage changes.
+ */
+export class MatchingEngine extends EventEmitter {
+  private orders: Map<number, SimOrder> = new Map();
+  private positions: Map<string, SimPosition> = new Map();
+  private prices: Map<string, number> = new Map();
+  private leverage: Map<string, number> = new Map();
+  private marginTypes: Map<string, 'cross' | 'isolated'> = new Map();
+  private trades: SimTrade[] = [];
+  private walletBalance: number;
+  private makerFee: number;
+  private takerFee: number;
+  private defaultLeverage: number;
+  private dualSidePosition: boolean;
+  private nextOrderId = 1000;
+  private nextTradeId = 1;
+  private clock: () => number = () => Date.now();
+
+  constructor(options: MatchingEngineOptions = {}) {
+    super();
+    this.walletBalance = options.startingBalance ?? 10000;
+    this.makerFee = options.makerFee ?? 0.0002;
+    this.takerFee = options.takerFee ?? 0.0004;
+    this.dualSidePosition = options.dualSidePosition ?? false;
+    this.defaultLeverage = options.defaultLeverage ?? 20;
+  }
+
+  // Use the price path's simulated time for order, trade and event timestamps
+  setClock(clock: () => number): void {
+    this.clock = clock;
+  }
+
+  now(): number {
+    return this.clock();
+  }
+
+  getPrice(symbol: string): number | null {
+    return this.prices.get(symbol) ?? null;
+  }
+
+  // Move a symbol to a new price and fill every order the move crosses
+  setPrice(symbol: string, price: number): void {
+    this.prices.set(symbol, price);
+
+    const working = Array.from(this.orders.values())
+      .filter(order => order.symbol === symbol && isOpen(order))
+      .sort((a, b) => a.orderId - b.orderId);
+
+    for (const order of working) {
+      // An earlier fill in this pass may have expired or cancelled the order
+      if (!isOpen(order)) continue;
+
+      switch (order.type) {
+        case 'LIMIT':
+          if ((order.side === 'BUY' && price <= order.price) || (order.side === 'SELL' && price >= order.price)) {
+            this.fill(order, order.price, true);
+          }
+          break;
+        case 'STOP_MARKET':
+          if ((order.side === 'BUY' && price >= order.stopPrice) || (order.side === 'SELL' && price <= order.stopPrice)) {
+            this.fill(order, price, false);
+          }
+          break;
+        case 'TAKE_PROFIT_MARKET':
+          if ((order.side === 'BUY' && price <= order.stopPrice) || (order.side === 'SELL' && price >= order.stopPrice)) {
+            this.fill(order, price, false);
+          }
+          break;
+        case 'TRAILING_STOP_MARKET':
+          if (this.updateTrailingStop(order, price)) {
+            this.fill(order, price, false);
+          }
+          break;
+      }
+    }
+  }
+
+  placeOrder(request: SimOrderRequest): SimOrder {
+    const price = this.prices.get(request.symbol);
+    if (price === undefined) {
+      throw new SimulatorError(-1121, 'Invalid symbol.');
+    }
+
+    const type = request.type as SimOrderType;
+    if (!ORDER_TYPES.includes(type)) {
+      throw new SimulatorError(-1116, 'Invalid orderType.');
+    }
+    if (!(request.quantity > 0)) {
+      throw new SimulatorError(-4003, 'Quantity less than or equal to zero.');
+    }
+
+    const positionSide = request.positionSide || 'BOTH';
+    if (this.dualSidePosition && positionSide === 'BOTH') {
+      throw new SimulatorError(-4061, "Order's position side does not match user's setting.");
+    }
+    if (!this.dualSidePosition && positionSide !== 'BOTH') {
+      throw new SimulatorError(-4061, "Order's position side does not match user's setting.");
+    }
+    if (this.dualSidePosition && request.reduceOnly) {
+      throw new SimulatorError(-1106, "Parameter 'reduceonly' sent when not required.");
+    }
+
+    if (type === 'LIMIT' && !(request.price! > 0)) {
+      throw new SimulatorError(-1102, "Mandatory parameter 'price' was not sent, was empty/null, or malformed.");
+    }
+    if ((type === 'STOP_MARKET' || type === 'TAKE_PROFIT_MARKET') && !(request.stopPrice! > 0)) {
+      throw new SimulatorError(-1102, "Mandatory parameter 'stopPrice' was not sent, was empty/null, or malformed.");
+    }
+    if (type === 'TRAILING_STOP_MARKET' && !(request.callbackRate! >= 0.1 && request.callbackRate! <= 5)) {
+      throw new SimulatorError(-2007, 'Invalid callBack rate.');
+    }
+    if (this.wouldTriggerImmediately(type, request.side, request.stopPrice, price)) {
+      throw new SimulatorError(-2021, 'Order would immediately trigger.');
+    }
+
+    const now = this.now();
+    const order: SimOrder = {
+      orderId: this.nextOrderId++,
+      clientOrderId: request.newClientOrderId || `sim_${this.nextOrderId}`,
+      symbol: request.symbol,
+      side: request.side,
+      positionSide,
+      type,
+      timeInForce: request.timeInForce || 'GTC',
+      origQty: request.quantity,
+      executedQty: 0,
+      cumQuote: 0,
+      price: type === 'LIMIT' ? request.price! : 0,
+      avgPrice: 0,
+      stopPrice: request.stopPrice || 0,
+      activatePrice: request.activationPrice,
+      priceRate: request.callbackRate,
+      reduceOnly: !!request.reduceOnly,
+      workingType: request.workingType || 'CONTRACT_PRICE',
+      status: 'NEW',
+      time: now,
+      updateTime: now,
+    };
+
+    // Hedge-mode closing orders are reported as reduce-only, as the exchange does
+    if (positionSide !== 'BOTH' && this.isClosing(order)) {
+      order.reduceOnly = true;
+    }
+    if (order.reduceOnly && this.closableQuantity(order) < QTY_EPSILON) {
+      throw new SimulatorError(-2022, 'ReduceOnly Order is rejected.');
+    }
+
+    this.orders.set(order.orderId, order);
+    this.emitOrderUpdate(order, 'NEW');
+
+    if (type === 'MARKET') {
+      this.fill(order, price, false);
+    } else if (type === 'LIMIT') {
+      const marketable = (order.side === 'BUY' && price <= order.price) || (order.side === 'SELL' && price >= order.price);
+      if (marketable && order.timeInForce === 'GTX') {
+        this.finish(order, 'EXPIRED');
+      } else if (marketable) {
+        this.fill(order, price, false);
+      } else if (order.timeInForce === 'IOC' || order.timeInForce === 'FOK') {
+        this.finish(order, 'EXPIRED');
+      }
+    } else if (type === 'TRAILING_STOP_MARKET') {
+      this.updateTrailingStop(order, price);
+    }
+
+    return order;
+  }
+
+  cancelOrder(symbol: string, orderId?: number, clientOrderId?: string): SimOrder {
+    const order = this.findOrder(symbol, orderId, clientOrderId);
+    if (!order || !isOpen(order)) {
+      throw new SimulatorError(-2011, 'Unknown order sent.');
+    }
+    this.finish(order, 'CANCELED');
+    return order;
+  }
+
+  cancelAllOrders(symbol: string): number {
+    const open = this.getOpenOrders(symbol);
+    open.forEach(order => this.finish(order, 'CANCELED'));
+    return open.length;
+  }
+
+  findOrder(symbol: string, orderId?: number, clientOrderId?: string): SimOrder | undefined {
+    if (orderId !== undefined) {
+      const order = this.orders.get(orderId);
+      return order && order.symbol === symbol ? order : undefined;
+    }
+    return Array.from(this.orders.values()).find(order => order.symbol === symbol && order.clientOrderId === clientOrderId);
+  }
+
+  getOpenOrders(symbol?: string): SimOrder[] {
+    return Array.from(this.orders.values()).filter(order => isOpen(order) && (!symbol || order.symbol === symbol));
+  }
+
+  getAllOrders(symbol: string): SimOrder[] {
+    return Array.from(this.orders.values()).filter(order => order.symbol === symbol);
+  }
+
+  getTrades(symbol?: string): SimTrade[] {
+    return this.trades.filter(trade => !symbol || trade.symbol === symbol);
+  }
+
+  getPositions(): SimPosition[] {
+    return Array.from(this.positions.values());
+  }
+
+  getPosition(symbol: string, positionSide: SimPositionSide): SimPosition | undefined {
+    return this.positions.get(`${symbol}_${positionSide}`);
+  }
+
+  getLeverage(symbol: string): number {
+    return this.leverage.get(symbol) ?? this.defaultLeverage;
+  }
+
+  setLeverage(symbol: string, leverage: number): void {
+    if (!this.prices.has(symbol)) {
+      throw new SimulatorError(-1121, 'Invalid symbol.');
+    }
+    if (!(leverage >= 1 && leverage <= 125)) {
+      throw new SimulatorError(-4028, `Leverage ${leverage} is not valid`);
+    }
+    this.leverage.set(symbol, leverage);
+    this.emit('configUpdate', { e: 'ACCOUNT_CONFIG_UPDATE', E: this.now(), T: this.now(), ac: { s: symbol, l: leverage } });
+  }
+
+  getMarginType(symbol: string): 'cross' | 'isolated' {
+    return this.marginTypes.get(symbol) ?? 'cross';
+  }
+
+  setMarginType(symbol: string, marginType: 'cross' | 'isolated'): void {
+    this.marginTypes.set(symbol, marginType);
+  }
+
+  isDualSidePosition(): boolean {
+    return this.dualSidePosition;
+  }
+
+  setDualSidePosition(dualSidePosition: boolean): void {
+    if (dualSidePosition !== this.dualSidePosition && (this.getOpenOrders().length > 0 || this.hasOpenPositions())) {
+      throw new SimulatorError(-4068, 'Position side cannot be changed if there exists position.');
+    }
+    this.dualSidePosition = dualSidePosition;
+  }
+
+  getMakerFee(): number {
+    return this.makerFee;
+  }
+
+  getTakerFee(): number {
+    return this.takerFee;
+  }
+
+  getUnrealizedPnl(position: SimPosition): number {
+    const price = this.prices.get(position.symbol) ?? position.entryPrice;
+    return (price - position.entryPrice) * position.amount;
+  }
+
+  getAccountSummary(): { walletBalance: number; unrealizedPnl: number; initialMargin: number; availableBalance: number } {
+    let unrealizedPnl = 0;
+    let initialMargin = 0;
+    for (const position of this.positions.values()) {
+      if (Math.abs(position.amount) < QTY_EPSILON) continue;
+      const price = this.prices.get(position.symbol) ?? position.entryPrice;
+      unrealizedPnl += this.getUnrealizedPnl(position);
+      initialMargin += Math.abs(position.amount) * price / this.getLeverage(position.symbol);
+    }
+    return {
+      walletBalance: this.walletBalance,
+      unrealizedPnl,
+      initialMargin,
+      availableBalance: this.walletBalance + unrealizedPnl - initialMargin,
+    };
+  }
+
+  private hasOpenPositions(): boolean {
+    return Array.from(this.positions.values()).some(position => Math.abs(position.amount) >= QTY_EPSILON);
+  }
+
+  private wouldTriggerImmediately(type: SimOrderType, side: SimOrderSide, stopPrice: number | undefined, price: number): boolean {
+    if (!stopPrice) return false;
+    if (type === 'STOP_MARKET') {
+      return side === 'BUY' ? price >= stopPrice : price <= stopPrice;
+    }
+    if (type === 'TAKE_PROFIT_MARKET') {
+      return side === 'BUY' ? price <= stopPrice : price >= stopPrice;
+    }
+    return false;
+  }
+
+  // Returns true once the price has retraced callbackRate percent from the best price since activation
+  private updateTrailingStop(order: SimOrder, price: number): boolean {
+    if (order.trailingExtreme === undefined) {
+      const activation = order.activatePrice;
+      const activated = !activation ||
+        (order.side === 'SELL' ? price >= activation : price <= activation);
+      if (!activated) return false;
+      order.trailingExtreme = price;
+      return false;
+    }
+
+    const callback = (order.priceRate || 1) / 100;
+    if (order.side === 'SELL') {
+      order.trailingExtreme = Math.max(order.trailingExtreme, price);
+      return price <= order.trailingExtreme * (1 - callback);
+    }
+    order.trailingExtreme = Math.min(order.trailingExtreme, price);
+    return price >= order.trailingExtreme * (1 + callback);
+  }
+
+  // Hedge mode: SELL on LONG / BUY on SHORT. One-way: any order against the position, or reduceOnly
+  private isClosing(order: SimOrder): boolean {
+    if (order.positionSide === 'LONG') return order.side === 'SELL';
+    if (order.positionSide === 'SHORT') return order.side === 'BUY';
+    if (order.reduceOnly) return true;
+    const position = this.getPosition(order.symbol, 'BOTH');
+    return !!position && position.amount !== 0 && (position.amount > 0) === (order.side === 'SELL');
+  }
+
+  private closableQuantity(order: SimOrder): number {
+    const position = this.getPosition(order.symbol, order.positionSide);
+    if (!position) return 0;
+    const against = (position.amount > 0 && order.side === 'SELL') || (position.amount < 0 && order.side === 'BUY');
+    return against ? Math.abs(position.amount) : 0;
+  }
+
+  private fill(order: SimOrder, price: number, maker: boolean): void {
+    let quantity = order.origQty - order.executedQty;
+
+    // Reduce-only (and hedge-mode closing) orders never open or flip a position
+    if (order.reduceOnly) {
+      quantity = Math.min(quantity, this.closableQuantity(order));
+      if (quantity < QTY_EPSILON) {
+        this.finish(order, 'EXPIRED');
+        return;
+      }
+    }
+
+    const now = this.now();
+    const signedQuantity = order.side === 'BUY' ? quantity : -quantity;
+    const realizedPnl = this.applyToPosition(order.symbol, order.positionSide, signedQuantity, price, now);
+    const commission = price * quantity * (maker ? this.makerFee : this.takerFee);
+    this.walletBalance += realizedPnl - commission;
+
+    order.cumQuote += price * quantity;
+    order.executedQty = round(order.executedQty + quantity);
+    order.avgPrice = order.cumQuote / order.executedQty;
+    // A clamped reduce-only fill completes the order
+    order.status = 'FILLED';
+    order.updateTime = now;
+
+    const trade: SimTrade = {
+      id: this.nextTradeId++,
+      orderId: order.orderId,
+      symbol: order.symbol,
+      side: order.side,
+      positionSide: order.positionSide,
+      price,
+      qty: quantity,
+      quoteQty: price * quantity,
+      realizedPnl,
+      commission,
+      maker,
+      time: now,
+    };
+    this.trades.push(trade);
+
+    this.emitOrderUpdate(order, 'TRADE', trade);
+    this.emitAccountUpdate(order.symbol, order.positionSide, realizedPnl - commission);
+  }
+
+  private applyToPosition(symbol: string, positionSide: SimPositionSide, signedQuantity: number, price: number, time: number): number {
+    const key = `${symbol}_${positionSide}`;
+    const position = this.positions.get(key) || { symbol, positionSide, amount: 0, entryPrice: 0, updateTime: time };
+    let realizedPnl = 0;
+
+    if (position.amount === 0 || Math.sign(position.amount) === Math.sign(signedQuantity)) {
+      const amount = position.amount + signedQuantity;
+      position.entryPrice = (Math.abs(position.amount) * position.entryPrice + Math.abs(signedQuantity) * price) / Math.abs(amount);
+      position.amount = round(amount);
+    } else {
+      const closed = Math.min(Math.abs(signedQuantity), Math.abs(position.amount));
+      realizedPnl = (price - position.entryPrice) * closed * Math.sign(position.amount);
+      const amount = round(position.amount + signedQuantity);
+      if (amount === 0) {
+        position.entryPrice = 0;
+      } else if (Math.sign(amount) !== Math.sign(position.amount)) {
+        position.entryPrice = price; // Flipped through zero (one-way mode)
+      }
+      position.amount = amount;
+    }
+
+    position.updateTime = time;
+    this.positions.set(key, position);
+    return realizedPnl;
+  }
+
+  private finish(order: SimOrder, status: 'CANCELED' | 'EXPIRED'): void {
+    order.status = status;
+    order.updateTime = this.now();
+    this.emitOrderUpdate(order, status);
+  }
+
+  private emitOrderUpdate(order: SimOrder, executionType: string, trade?: SimTrade): void {
+    const now = this.now();
+    this.emit('orderUpdate', {
+      e: 'ORDER_TRADE_UPDATE',
+      E: now,
+      T: now,
+      o: {
+        s: order.symbol,
+        c: order.clientOrderId,
+        S: order.side,
+        o: order.type,
+        f: order.timeInForce,
+        q: String(order.origQty),
+        p: String(order.price),
+        ap: String(order.avgPrice),
+        sp: String(order.stopPrice),
+        x: executionType,
+        X: order.status,
+        i: order.orderId,
+        l: String(trade ? trade.qty : 0),
+        z: String(order.executedQty),
+        L: String(trade ? trade.price : 0),
+        N: 'USDT',
+        n: String(trade ? trade.commission : 0),
+        T: order.updateTime,
+        t: trade ? trade.id : 0,
+        b: '0',
+        a: '0',
+        m: trade ? trade.maker : false,
+        R: order.reduceOnly,
+        wt: order.workingType,
+        ot: order.type,
+        ps: order.positionSide,
+        cp: false,
+        AP: order.activatePrice !== undefined ? String(order.activatePrice) : undefined,
+        cr: order.priceRate !== undefined ? String(order.priceRate) : undefined,
+        rp: String(trade ? trade.realizedPnl : 0),
+      },
+    });
+  }
+
+  // Includes every open position plus the one that changed, so a flat position reports pa = 0
+  private emitAccountUpdate(symbol: string, positionSide: SimPositionSide, balanceChange: number): void {
+    const now = this.now();
+    const positions = this.getPositions().filter(position =>
+      Math.abs(position.amount) >= QTY_EPSILON || (position.symbol === symbol && position.positionSide === positionSide)
+    );
+
+    this.emit('accountUpdate', {
+      e: 'ACCOUNT_UPDATE',
+      E: now,
+      T: now,
+      a: {
+        m: 'ORDER',
+        B: [{ a: 'USDT', wb: String(this.walletBalance), cw: String(this.walletBalance), bc: String(balanceChange) }],
+        P: positions.map(position => ({
+          s: position.symbol,
+          pa: String(position.amount),
+          ep: String(position.entryPrice),
+          cr: '0',
+          up: String(this.getUnrealizedPnl(position)),
+          mt: this.getMarginType(position.symbol),
+          iw: '0',
+          ps: position.positionSide,
+        })),
+      },
+    });
+  }
+}
+
+function isOpen(order: SimOrder): boolean {
+  return order.status === 'NEW' || order.status === 'PARTIALLY_FILLED';
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(8));
+}
@@ -0,0 +1,161 @@
+import fs from 'fs';
+
+export interface SimulatedSymbol {
+  prices: number[];          // One price per step, the last price holds once the path ends
+  tickSize?: string;         // PRICE_FILTER tick size (default: '0.01')
+  stepSize?: string;         // LOT_SIZE step size (default: '0.001')
+  minNotional?: number;      // MIN_NOTIONAL filter in USDT (default: 5)
+  volumePerStep?: number;    // Base volume reported in klines and trades per step (default: 1)
+}
+
+export interface ScriptedLiquidation {
+  step: number;              // Step at which the forceOrder event is published
+  symbol: string;
+  side: 'BUY' | 'SELL';      // Side of the liquidation order (SELL = a long was liquidated)
+  quantity: number;
+  price?: number;            // Defaults to the path price at that step
+}
+
+export interface PricePathScript {
+  startTime?: number;        // Simulated time of step 0 (default: when the path is created)
+  stepIntervalMs?: number;   // Simulated time between steps (default: 1000)
+  loop?: boolean;            // Start over from step 0 after the last step (default: false)
+  symbols: Record<string, SimulatedSymbol>;
+  liquidations?: ScriptedLiquidation[];
+}
+
+export interface PricePathStep {
+  step: number;
+  time: number;
+  prices: Map<string, number>;
+  liquidations: ScriptedLiquidation[];
+}
+
+export function loadPricePathScript(filePath: string): PricePathScript {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Price path script not found: ${filePath}`);
+  }
+  const script = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  validatePricePathScript(script);
+  return script;
+}
+
+export function validatePricePathScript(script: PricePathScript): void {
+  if (!script || typeof script.symbols !== 'object' || Object.keys(script.symbols).length === 0) {
+    throw new Error('Price path script must define at least one symbol');
+  }
+  for (const [symbol, config] of Object.entries(script.symbols)) {
+    if (!Array.isArray(config.prices) || config.prices.length === 0) {
+      throw new Error(`Price path for ${symbol} has no prices`);
+    }
+    if (config.prices.some(price => typeof price !== 'number' || !(price > 0))) {
+      throw new Error(`Price path for ${symbol} contains a non-positive price`);
+    }
+  }
+  for (const liquidation of script.liquidations || []) {
+    if (!script.symbols[liquidation.symbol]) {
+      throw new Error(`Scripted liquidation references unknown symbol ${liquidation.symbol}`);
+    }
+  }
+}
+
+// Deterministic sine-wave path, used when no script file is configured
+export function generateOscillatingPath(
+  startPrice: number,
+  steps: number,
+  amplitudePercent: number = 1,
+  periodSteps: number = 60
+): number[] {
+  const prices: number[] = [];
+  for (let i = 0; i < steps; i++) {
+    const offset = Math.sin((2 * Math.PI * i) / periodSteps) * (amplitudePercent / 100);
+    prices.push(parseFloat((startPrice * (1 + offset)).toFixed(8)));
+  }
+  return prices;
+}
+
+/**
+ * Steps through a scripted price path. Step 0 is the starting state; each advance()
+ * moves every symbol to its next price and returns the liquidations scripted for
+ * the new step.
+ */
+export class PricePath {
+  private script: PricePathScript;
+  private currentStep = 0;
+  private startTime: number;
+  private stepIntervalMs: number;
+  private pathLength: number;
+
+  constructor(script: PricePathScript) {
+    validatePricePathScript(script);
+    this.script = script;
+    this.startTime = script.startTime ?? Date.now();
+    this.stepIntervalMs = script.stepIntervalMs ?? 1000;
+    this.pathLength = Math.max(...Object.values(script.symbols).map(config => config.prices.length));
+  }
+
+  get step(): number {
+    return this.currentStep;
+  }
+
+  get length(): number {
+    return this.pathLength;
+  }
+
+  get intervalMs(): number {
+    return this.stepIntervalMs;
+  }
+
+  // Simulated time of the current step
+  get time(): number {
+    return this.startTime + this.currentStep * this.stepIntervalMs;
+  }
+
+  isComplete(): boolean {
+    return !this.script.loop && this.currentStep >= this.pathLength - 1;
+  }
+
+  getSymbols(): string[] {
+    return Object.keys(this.script.symbols);
+  }
+
+  getSymbolConfig(symbol: string): SimulatedSymbol | undefined {
+    return this.script.symbols[symbol];
+  }
+
+  getPrice(symbol: string, step: number = this.currentStep): number | null {
+    const config = this.script.symbols[symbol];
+    if (!config) return null;
+    const index = this.pathIndex(step);
+    return config.prices[Math.min(index, config.prices.length - 1)];
+  }
+
+  getPrices(): Map<string, number> {
+    const prices = new Map<string, number>();
+    for (const symbol of this.getSymbols()) {
+      prices.set(symbol, this.getPrice(symbol)!);
+    }
+    return prices;
+  }
+
+  // Liquidations scheduled for a step (the current one by default)
+  getLiquidations(step: number = this.currentStep): ScriptedLiquidation[] {
+    const index = this.pathIndex(step);
+    return (this.script.liquidations || []).filter(liquidation => liquidation.step === index);
+  }
+
+  advance(): PricePathStep | null {
+    if (this.isComplete()) return null;
+    this.currentStep++;
+    return {
+      step: this.currentStep,
+      time: this.time,
+      prices: this.getPrices(),
+      liquidations: this.getLiquidations(),
+    };
+  }
+
+  private pathIndex(step: number): number {
+    return this.script.loop ? step % this.pathLength : step;
+  }
+}
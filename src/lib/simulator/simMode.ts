@@ -0,0 +1,55 @@
+import axios from 'axios';
+import { Config } from '../types';
+import { DEFAULT_REST_BASE_URL, DEFAULT_SIMULATOR_PORT, configureExchangeEndpoints } from '../api/endpoints';
+import { ExchangeSimulator } from './exchangeSimulator';
+import { PricePathScript, generateOscillatingPath, loadPricePathScript } from './pricePath';
+import { logWithTimestamp, logWarnWithTimestamp } from '../utils/timestamp';
+
+// One hour of 1% swings around the current exchange price, looped
+export async function buildDefaultPricePathScript(symbols: string[], stepMs: number): Promise<PricePathScript> {
+  const script: PricePathScript = { stepIntervalMs: stepMs, loop: true, symbols: {} };
+
+  for (const symbol of symbols) {
+    let startPrice = 100;
+    try {
+      const response = await axios.get(`${DEFAULT_REST_BASE_URL}/fapi/v1/ticker/price?symbol=${symbol}`, { timeout: 5000 });
+      startPrice = parseFloat(response.data.price) || startPrice;
+    } catch (_error) {
+logWarnWithTimestamp(`SimMode: Could not fetch a starting price for ${symbol}, using ${startPrice}`);
+    }
+    script.symbols[symbol] = { prices: generateOscillatingPath(startPrice, 3600, 1, 300) };
+  }
+
+  return script;
+}
+
+/**
+ * Start the exchange simulator from global.simulator and point the exchange
+ * endpoints at it. The bot then runs its live code paths against the simulator.
+ */
+export async function startSimMode(config: Config): Promise<ExchangeSimulator> {
+  const simulatorConfig = config.global.simulator!;
+  const stepMs = simulatorConfig.stepMs ?? 1000;
+  const script = simulatorConfig.scriptPath
+    ? loadPricePathScript(simulatorConfig.scriptPath)
+    : await buildDefaultPricePathScript(Object.keys(config.symbols), stepMs);
+
+  const simulator = new ExchangeSimulator({
+    script,
+    port: simulatorConfig.port ?? DEFAULT_SIMULATOR_PORT,
+    stepMs,
+    startingBalance: simulatorConfig.startingBalance,
+    dualSidePosition: simulatorConfig.hedgeMode,
+    apiKey: config.api.apiKey || undefined,
+    secretKey: config.api.secretKey || undefined,
+  });
+
+  const { restUrl, wsUrl } = await simulator.start();
+  // Explicit endpoints (e.g. a recording proxy in front of the simulator) still win
+  const endpoints = configureExchangeEndpoints(config.global.endpoints
+    ? config.global
+    : { endpoints: { restBaseUrl: restUrl, wsBaseUrl: wsUrl } });
+logWithTimestamp(`SimMode: Exchange requests and streams now go to ${endpoints.restBaseUrl}`);
+
+  return simulator;
+}
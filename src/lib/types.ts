@@ -1,8 +1,15 @@
+export type SignalStrategyName = 'contrarian' | 'momentum';
+
+export interface TakeProfitLevel {
+  percent: number;             // Profit % from entry at which this level closes
+  sizePercent: number;         // Share of the position closed at this level (the last level takes the rest)
+}
+
 export interface SymbolConfig {
   // Volume thresholds
   volumeThresholdUSDT?: number;       // Legacy field for backward compatibility
-  longVolumeThresholdUSDT?: number;   // Min liquidation volume to trigger long trades (buy on sell liquidations)
-  shortVolumeThresholdUSDT?: number;  // Min liquidation volume to trigger short trades (sell on buy liquidations)
+  longVolumeThresholdUSDT?: number;   // Min SELL liquidation volume to trigger a trade (a long when contrarian, a short with momentum)
+  shortVolumeThresholdUSDT?: number;  // Min BUY liquidation volume to trigger a trade (a short when contrarian, a long with momentum)
 
   // Position sizing
   tradeSize: number;                  // Base quantity for trades (adjusted by leverage)
@@ -15,6 +22,38 @@ export interface SymbolConfig {
   tpPercent: number;           // Take profit as percentage (e.g., 5 for 5%)
   slPercent: number;           // Stop loss as percentage (e.g., 2 for 2%)
 
+  // Volatility-scaled stops (SL/TP as multiples of ATR instead of tpPercent/slPercent)
+  volatilityStops?: boolean;   // Size SL and TP from ATR (default: false)
+  atrTimeframe?: string;       // Kline interval for the ATR: 1m, 5m, 15m, 30m, 1h (default: '5m')
+  atrPeriod?: number;          // Number of candles in the ATR (default: 14)
+  slAtrMultiplier?: number;    // SL distance in ATRs (default: 1.5)
+  tpAtrMultiplier?: number;    // TP distance in ATRs (default: 3)
+  minStopPercent?: number;     // Lower clamp for both distances, in % (default: 0.2)
+  maxStopPercent?: number;     // Upper clamp for both distances, in % (default: 10)
+
+  // Breakeven and time-based exits (each one is off when unset)
+  breakevenTriggerPercent?: number;  // Move the SL to entry plus fees once unrealized profit reaches this %
+  breakevenFeePercent?: number;      // Offset past the entry covering fees, in % (default: 0.1)
+  maxHoldMinutes?: number;           // Apply timeoutAction to positions open longer than this
+  timeoutAction?: 'CLOSE' | 'TIGHTEN_TP'; // Close at market or pull the TP in to timeoutTpPercent (default: 'CLOSE')
+  timeoutTpPercent?: number;         // TP distance from entry after a TIGHTEN_TP timeout, in % (default: 0.2)
+
+  // Trailing stop settings (TRAILING_STOP_MARKET)
+  trailingStopEnabled?: boolean;       // Place a trailing stop for new positions (default: false)
+  trailingActivationPercent?: number;  // Profit % from entry at which trailing starts (default: 0)
+  trailingCallbackRate?: number;       // Pullback % from the best price that closes the position, 0.1-5 (default: 1)
+  trailingStopMode?: 'REPLACE_TP' | 'WITH_TP'; // Use instead of or alongside the fixed TP (default: 'REPLACE_TP')
+
+  // Partial take-profit ladder (replaces the single tpPercent order when set)
+  tpLevels?: TakeProfitLevel[];        // e.g. [{ percent: 1, sizePercent: 40 }, { percent: 2, sizePercent: 40 }, { percent: 4, sizePercent: 20 }]
+  tpLadderBreakeven?: boolean;         // Move the SL to the entry price after the first level fills (default: true)
+
+  // Scale-in (DCA) on repeated signals against an open position
+  scaleInEnabled?: boolean;            // Add to an open position instead of blocking the trade (default: false)
+  scaleInMaxAdds?: number;             // Max additional entries per position (default: 2)
+  scaleInMinDistancePercent?: number;  // Min adverse move from the average entry before each add (default: 1)
+  scaleInSizeMultipliers?: number[];   // Margin multiplier per add, the last one repeats (default: [1])
+
   // Limit order specific settings
   priceOffsetBps?: number;     // Price offset in basis points from best bid/ask (default: 1)
   usePostOnly?: boolean;       // Use post-only orders to guarantee maker fees (default: false)
@@ -22,15 +61,34 @@ export interface SymbolConfig {
   orderType?: 'LIMIT' | 'MARKET'; // Order type preference (default: 'LIMIT')
   forceMarketEntry?: boolean;  // Force market orders for opening positions (default: false)
 
+  // Entry signal settings
+  signalStrategy?: SignalStrategyName; // Strategy deciding trade direction from a liquidation (default: 'contrarian')
+
   // VWAP protection settings
   vwapProtection?: boolean;    // Enable VWAP-based entry filtering (default: false)
   vwapTimeframe?: string;      // Timeframe for VWAP calculation: 1m, 5m, 15m, 30m, 1h (default: '1m')
   vwapLookback?: number;       // Number of candles to use for VWAP calculation (default: 100)
 
+  // Order book entry filters (each one is off when unset)
+  maxSpreadBps?: number;       // Block entries when the bid/ask spread is wider than this, in basis points
+  minBookDepthUSDT?: number;   // Min notional on each side of the book within bookDepthRangeBps of the mid price
+  bookDepthRangeBps?: number;  // Window around the mid price for depth and imbalance (default: 10)
+  minBookImbalance?: number;   // Min ratio of same-side to opposing depth, e.g. 1.2 needs 20% more bids for a long
+
+  // Funding filters (each one is off when unset)
+  maxAdverseFundingRate?: number;  // Block entries that would pay more than this funding rate per interval, in % (0 blocks any paying side)
+  fundingBlackoutMinutes?: number; // Block entries within this many minutes before the next funding time
+
   // Threshold system settings (60-second rolling window)
   useThreshold?: boolean;       // Enable threshold-based triggering for this symbol (default: false)
   thresholdTimeWindow?: number; // Time window in ms for volume accumulation (default: 60000)
   thresholdCooldown?: number;   // Cooldown period in ms between triggers (default: 30000)
+
+  // Adaptive volume thresholds (percentile of recent liquidation sizes from the liquidations table)
+  adaptiveThreshold?: boolean;    // Replace the long/short volume thresholds with the adaptive ones (default: false)
+  adaptivePercentile?: number;    // Percentile of liquidation sizes used as threshold (default: 90)
+  adaptiveWindowHours?: number;   // Trailing window of stored liquidations in hours (default: 24)
+  adaptiveMinSamples?: number;    // Liquidations per side required before the static threshold is replaced (default: 20)
 }
 
 export interface ApiCredentials {
@@ -67,6 +125,7 @@ export interface TelegramNotifications {
   errors?: boolean;
   lowBalance?: boolean;
   lowBalanceThreshold?: number; // USDT
+  liquidationRisk?: boolean;    // Liquidation proximity warnings and margin calls
 }
 
 export interface TelegramConfig {
@@ -83,9 +142,98 @@ export interface CopyTradingConfig {
   delayMs?: number; // Optional delay between master and follower trades
 }
 
+export interface RiskLimitsConfig {
+  enabled: boolean;
+  maxDailyLossUSDT?: number;      // Pause after this much realized loss in one UTC day
+  maxDrawdownPercent?: number;    // Pause when equity falls this % below its session peak
+  maxConsecutiveLosses?: number;  // Pause after this many losing trades in a row
+  flattenOnBreach?: boolean;      // Also close all open positions when a limit is breached (default: false)
+}
+
+export interface SymbolGroupLimit {
+  symbols: string[];              // Members of the group, e.g. ['DOGEUSDT', '1000PEPEUSDT']
+  maxNotionalUSDT: number;        // Max combined notional of open positions in the group
+}
+
+export interface ExposureLimitsConfig {
+  enabled: boolean;
+  maxTotalNotionalUSDT?: number;  // Max notional across all open positions
+  maxNetNotionalUSDT?: number;    // Max |long notional - short notional|
+  groups?: Record<string, SymbolGroupLimit>; // Named symbol groups such as "majors" or "memes"
+}
+
+export type LiquidationGuardAction = 'ALERT' | 'REDUCE' | 'ADD_MARGIN';
+
+export interface LiquidationGuardConfig {
+  enabled: boolean;
+  warningDistancePercent?: number;  // Alert when the mark price is this % from liquidation (default: 10)
+  criticalDistancePercent?: number; // Run criticalAction at this % from liquidation (default: 5)
+  criticalAction?: LiquidationGuardAction; // ADD_MARGIN applies to isolated positions only (default: 'REDUCE')
+  reducePercent?: number;           // Share of the position closed by REDUCE (default: 50)
+  maxAddMarginUSDT?: number;        // Total margin ADD_MARGIN may add to one position before it reduces instead (default: 100)
+  alertCooldownMinutes?: number;    // Repeat alerts at an unchanged level after this long (default: 15)
+}
+
+export interface PaperExecutionConfig {
+  makerFeePercent?: number;          // Fee on resting limit fills, % of notional (default: 0.02)
+  takerFeePercent?: number;          // Fee on market, stop and marketable fills (default: 0.04)
+  useExchangeFees?: boolean;         // Use the account's rates from the Commission Rate endpoint when API keys are set (default: false)
+  marketSlippagePercent?: number;    // Market entries and closes (default: 0.2)
+  stopSlippagePercent?: number;      // Stop loss fills beyond the trigger (default: 0.5)
+  takeProfitSlippagePercent?: number; // Take profit fills short of the trigger (default: 0.1)
+  limitThroughPercent?: number;      // Price must trade this far through a limit to fill it completely (default: 0.05)
+  limitTouchFillPercent?: number;    // Share of the remainder filled per check while the price sits at the limit (default: 50)
+  limitTimeoutSeconds?: number;      // Cancel whatever is unfilled after this long (default: 60)
+}
+
+// Global settings a shadow strategy may change; everything else follows the live config
+export type ShadowGlobalOverrides = Partial<Pick<GlobalConfig, 'riskPercent' | 'sizingMode' | 'maxOpenPositions' | 'useThresholdSystem' | 'exposureLimits' | 'paperExecution'>>;
+
+export interface ShadowModeConfig {
+  enabled: boolean;
+  symbols?: Record<string, Partial<SymbolConfig>>; // Per-symbol overrides on top of the live symbol config
+  global?: ShadowGlobalOverrides;
+}
+
+export interface OrderHeartbeatConfig {
+  enabled: boolean;
+  intervalMs?: number;        // How often the countdown is refreshed (default: 30000)
+  countdownMs?: number;       // Exchange cancels the symbol's orders if not refreshed within this time (default: 120000)
+}
+
+export interface RecordingConfig {
+  enabled: boolean;
+  filePath?: string;          // JSONL file to append to (default: data/recordings/liquidations.jsonl)
+  includeMarkPrices?: boolean; // Also record mark prices for configured symbols (default: true)
+}
+
+export interface ReplayConfig {
+  enabled: boolean;
+  filePath?: string;          // JSONL recording to replay (default: data/recordings/liquidations.jsonl)
+  speed?: number;             // Playback speed multiplier, 0 = as fast as possible (default: 1 = real time)
+}
+
+export interface SimulatorConfig {
+  enabled: boolean;           // Run against a local exchange simulator instead of the real exchange
+  port?: number;              // Simulator port (default: 4100)
+  scriptPath?: string;        // JSON price path script (default: oscillating path around the current exchange price)
+  stepMs?: number;            // Wall-clock time between price path steps (default: 1000)
+  startingBalance?: number;   // Simulated USDT wallet balance (default: 10000)
+  hedgeMode?: boolean;        // Start the simulated account in hedge mode (default: false)
+}
+
+export interface ExchangeEndpoints {
+  restBaseUrl?: string;          // REST host (default: https://fapi.asterdex.com)
+  wsBaseUrl?: string;            // WebSocket host for all streams (default: wss://fstream.asterdex.com)
+  marketStreamBaseUrl?: string;  // Override for market streams (default: wsBaseUrl)
+  userStreamBaseUrl?: string;    // Override for the user data stream (default: wsBaseUrl)
+}
+
 export interface GlobalConfig {
   riskPercent: number;     // Max risk per trade as % of account balance
+  sizingMode?: 'FIXED' | 'RISK'; // FIXED uses tradeSize margin, RISK sizes so a stop-out loses riskPercent (default: 'FIXED')
   paperMode: boolean;      // If true, simulate trades without executing
+  paperAccount?: string;   // Named paper account paper trades are booked to (default: 'default')
   positionMode?: 'ONE_WAY' | 'HEDGE'; // Position mode preference (optional)
   maxOpenPositions?: number; // Max number of open positions (hedged pairs count as one)
   useThresholdSystem?: boolean; // Enable 60-second rolling volume threshold system (default: false)
@@ -93,6 +241,16 @@ export interface GlobalConfig {
   rateLimit?: RateLimitConfig; // Rate limit configuration
   telegram?: TelegramConfig; // Telegram notifications configuration
   copyTrading?: CopyTradingConfig; // Copy trading configuration
+  riskLimits?: RiskLimitsConfig; // Daily loss / drawdown / losing streak kill switch
+  exposureLimits?: ExposureLimitsConfig; // Portfolio notional caps across symbols
+  liquidationGuard?: LiquidationGuardConfig; // Alert and deleverage positions close to liquidation (live mode)
+  paperExecution?: PaperExecutionConfig; // Fill, fee and slippage model for paper trades
+  shadowMode?: ShadowModeConfig; // Paper-trade an alternate config on the live liquidation feed
+  orderHeartbeat?: OrderHeartbeatConfig; // Exchange-side auto-cancel of pending entry orders if the bot stops
+  recording?: RecordingConfig; // Record the liquidation stream to disk
+  replay?: ReplayConfig;       // Replay a recorded liquidation stream instead of the live feed (paper mode only)
+  simulator?: SimulatorConfig; // Sim mode: trade live code paths against a local exchange simulator
+  endpoints?: ExchangeEndpoints; // Exchange REST/WebSocket hosts, e.g. a testnet or recording proxy
 }
 
 export interface Config {
@@ -157,4 +315,6 @@ export interface MarkPrice {
   symbol: string;
   markPrice: string;
   indexPrice: string;
+  lastFundingRate?: string;  // Funding rate for the current interval, e.g. '0.00010000' = 0.01%
+  nextFundingTime?: number;
 };
@@ -0,0 +1,11 @@
+/**
+ * Fee paid on an ORDER_TRADE_UPDATE fill, as a positive amount whatever sign
+ * the exchange reports `n` with. Only commission in the quote asset counts -
+ * fees paid in other assets are not converted.
+ */
+export function getOrderFee(order: { s: string; n?: string; N?: string }): number {
+  if (order.N && !order.s.endsWith(order.N)) {
+    return 0;
+  }
+  return Math.abs(parseFloat(order.n || '0'));
+}
@@ -1,5 +1,6 @@
 import { Config } from '../types';
 import { getExchangeInfo } from '../api/market';
+import { getRestBaseUrl } from '../api/endpoints';
 import axios from 'axios';
 
 export interface TradeSizeValidationResult {
@@ -28,7 +29,7 @@ export async function validateAllTradeSizes(config: Config): Promise<TradeSizeVa
     // Fetch exchange info and current prices for all symbols
     const [exchangeInfo, pricesResponse] = await Promise.all([
       getExchangeInfo(),
-      axios.get('https://fapi.asterdex.com/fapi/v1/ticker/price')
+      axios.get(`${getRestBaseUrl()}/fapi/v1/ticker/price`)
     ]);
 
     const priceMap = new Map<string, number>();
@@ -0,0 +1,174 @@
+#!/usr/bin/env tsx
+
+import {
+  AdaptiveThresholdService,
+  getAdaptiveThresholdSettings,
+  calculatePercentile
+} from '../../src/lib/services/adaptiveThresholds';
+import { liquidationStorage } from '../../src/lib/services/liquidationStorage';
+import { Config, SymbolConfig } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const baseConfig: SymbolConfig = {
+  longVolumeThresholdUSDT: 5000,
+  shortVolumeThresholdUSDT: 8000,
+  tradeSize: 20,
+  leverage: 10,
+  tpPercent: 2,
+  slPercent: 1
+};
+
+function createConfig(symbols: Record<string, SymbolConfig>): Config {
+  return {
+    api: { apiKey: '', secretKey: '' },
+    symbols,
+    global: { riskPercent: 1, paperMode: true },
+    version: '1'
+  };
+}
+
+// Serve liquidation sizes from memory instead of the liquidations table
+function stubVolumes(volumes: Record<string, number[]>): void {
+  liquidationStorage.getVolumeDistribution = async (symbol: string, side: 'BUY' | 'SELL') =>
+    [...(volumes[`${symbol}_${side}`] || [])].sort((a, b) => a - b);
+}
+
+async function testPercentile() {
+  logSection('Testing Percentile Calculation');
+  const summary = new TestSummary();
+
+  await summary.run('Interpolate between ranks', async () => {
+    const values = [100, 200, 300, 400, 500];
+    assertEqual(calculatePercentile(values, 50), 300);
+    assertClose(calculatePercentile(values, 90), 460, 1e-9);
+    assertEqual(calculatePercentile(values, 100), 500);
+  });
+
+  await summary.run('Empty and single values', async () => {
+    assertEqual(calculatePercentile([], 90), 0);
+    assertEqual(calculatePercentile([750], 90), 750);
+  });
+
+  await summary.run('Settings defaults and clamps', async () => {
+    assertEqual(getAdaptiveThresholdSettings(baseConfig), null);
+    const settings = getAdaptiveThresholdSettings({ ...baseConfig, adaptiveThreshold: true })!;
+    assertEqual(settings.percentile, 90);
+    assertEqual(settings.windowHours, 24);
+    assertEqual(settings.minSamples, 20);
+    assertEqual(getAdaptiveThresholdSettings({ ...baseConfig, adaptiveThreshold: true, adaptivePercentile: 150 })!.percentile, 99.9);
+  });
+
+  summary.print();
+}
+
+async function testService() {
+  logSection('Testing Adaptive Threshold Service');
+  const summary = new TestSummary();
+
+  const adaptiveConfig: SymbolConfig = { ...baseConfig, adaptiveThreshold: true, adaptivePercentile: 50, adaptiveMinSamples: 3 };
+  const sellVolumes = [1000, 2000, 3000, 4000, 5000];
+
+  await summary.run('Static thresholds when disabled', async () => {
+    const service = new AdaptiveThresholdService();
+    service.updateConfig(createConfig({ BTCUSDT: baseConfig }));
+    stubVolumes({ BTCUSDT_SELL: sellVolumes });
+    await service.recompute();
+
+    assertEqual(service.getThreshold('BTCUSDT', baseConfig, 'long'), 5000);
+    assertEqual(service.getAdaptiveThreshold('BTCUSDT'), null);
+  });
+
+  await summary.run('Percentile replaces the threshold per side', async () => {
+    const service = new AdaptiveThresholdService();
+    service.updateConfig(createConfig({ BTCUSDT: adaptiveConfig }));
+    stubVolumes({ BTCUSDT_SELL: sellVolumes, BTCUSDT_BUY: [500, 600] });
+
+    const updates: string[][] = [];
+    service.on('thresholdsUpdated', symbols => updates.push(symbols));
+    await service.recompute();
+
+    assertEqual(service.getThreshold('BTCUSDT', adaptiveConfig, 'long'), 3000);
+    // Only 2 BUY liquidations - short side keeps the configured threshold
+    assertEqual(service.getThreshold('BTCUSDT', adaptiveConfig, 'short'), 8000);
+    assertEqual(updates.length, 1);
+
+    const [effective] = service.getEffectiveThresholds();
+    assertEqual(effective.longSource, 'adaptive');
+    assertEqual(effective.shortSource, 'static');
+    assertEqual(effective.adaptive!.longSamples, 5);
+  });
+
+  await summary.run('Momentum builds each side from the liquidations it follows', async () => {
+    const momentumConfig: SymbolConfig = { ...adaptiveConfig, signalStrategy: 'momentum' };
+    const service = new AdaptiveThresholdService();
+    service.updateConfig(createConfig({ BTCUSDT: momentumConfig }));
+    stubVolumes({ BTCUSDT_SELL: sellVolumes, BTCUSDT_BUY: [500, 600] });
+    await service.recompute();
+
+    // SELL liquidations trigger shorts; longs keep the configured BUY liquidation threshold
+    assertEqual(service.getThreshold('BTCUSDT', momentumConfig, 'short'), 3000);
+    assertEqual(service.getThreshold('BTCUSDT', momentumConfig, 'long'), 8000);
+    assertEqual(service.getLiquidationThreshold('BTCUSDT', momentumConfig, 'SELL'), 3000);
+    assertEqual(service.getLiquidationThreshold('BTCUSDT', momentumConfig, 'BUY'), 8000);
+    assertEqual(service.getAdaptiveThreshold('BTCUSDT')!.shortSamples, 5);
+  });
+
+  await summary.run('No update event when the threshold is unchanged', async () => {
+    const service = new AdaptiveThresholdService();
+    service.updateConfig(createConfig({ BTCUSDT: adaptiveConfig }));
+    stubVolumes({ BTCUSDT_SELL: sellVolumes });
+    await service.recompute();
+
+    let updated = false;
+    service.on('thresholdsUpdated', () => { updated = true; });
+    await service.recompute();
+    assert(!updated, 'Unchanged thresholds should not emit');
+
+    stubVolumes({ BTCUSDT_SELL: [...sellVolumes, 9000, 10000] });
+    await service.recompute();
+    assert(updated, 'Changed thresholds should emit');
+    log(`  New long threshold: ${service.getThreshold('BTCUSDT', adaptiveConfig, 'long')}`, colors.gray);
+  });
+
+  await summary.run('Drop adaptive state when disabled in config', async () => {
+    const service = new AdaptiveThresholdService();
+    service.updateConfig(createConfig({ BTCUSDT: adaptiveConfig }));
+    stubVolumes({ BTCUSDT_SELL: sellVolumes });
+    await service.recompute();
+
+    service.updateConfig(createConfig({ BTCUSDT: baseConfig }));
+    assertEqual(service.getAdaptiveThreshold('BTCUSDT'), null);
+    assertEqual(service.getThreshold('BTCUSDT', baseConfig, 'long'), 5000);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 ADAPTIVE THRESHOLDS TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testPercentile();
+    await testService();
+
+    logSection('✨ All Adaptive Threshold Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
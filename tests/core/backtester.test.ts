@@ -0,0 +1,255 @@
+#!/usr/bin/env tsx
+
+import { Backtester } from '../../src/lib/backtest/backtester';
+import { aggregateKlines } from '../../src/lib/backtest/klineCache';
+import { symbolPrecision } from '../../src/lib/utils/symbolPrecision';
+import { Config, Kline, LiquidationEvent, SymbolConfig } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const START = Date.UTC(2025, 0, 1);
+const MINUTE = 60000;
+
+function createConfig(symbolOverrides: Partial<SymbolConfig> = {}, globalOverrides: Partial<Config['global']> = {}): Config {
+  return {
+    api: { apiKey: '', secretKey: '' },
+    symbols: {
+      BTCUSDT: {
+        longVolumeThresholdUSDT: 10000,
+        shortVolumeThresholdUSDT: 10000,
+        leverage: 10,
+        tradeSize: 100,
+        slPercent: 2,
+        tpPercent: 2,
+        orderType: 'MARKET',
+        ...symbolOverrides,
+      },
+    },
+    global: {
+      riskPercent: 1,
+      paperMode: true,
+      paperExecution: {
+        makerFeePercent: 0.02,
+        takerFeePercent: 0.04,
+        marketSlippagePercent: 0.1,
+        stopSlippagePercent: 0,
+        takeProfitSlippagePercent: 0,
+      },
+      ...globalOverrides,
+    },
+  } as Config;
+}
+
+function candle(minute: number, open: number, high: number, low: number, close: number): Kline {
+  return { openTime: START + minute * MINUTE, open: String(open), high: String(high), low: String(low), close: String(close), volume: '10' };
+}
+
+// Flat candles at `price` for minutes [from, to)
+function flat(from: number, to: number, price: number): Kline[] {
+  const klines: Kline[] = [];
+  for (let minute = from; minute < to; minute++) {
+    klines.push(candle(minute, price, price, price, price));
+  }
+  return klines;
+}
+
+function liquidation(time: number, side: 'BUY' | 'SELL', price: number, quantity: number): LiquidationEvent {
+  return {
+    symbol: 'BTCUSDT',
+    side,
+    orderType: 'LIMIT',
+    quantity,
+    price,
+    averagePrice: price,
+    orderStatus: 'FILLED',
+    orderLastFilledQuantity: quantity,
+    orderFilledAccumulatedQuantity: quantity,
+    orderTradeTime: time,
+    eventTime: time,
+    qty: quantity,
+    time,
+  };
+}
+
+async function testBacktester() {
+  logSection('Testing Backtester');
+  const summary = new TestSummary();
+
+  symbolPrecision.parseExchangeInfo({
+    symbols: [{
+      symbol: 'BTCUSDT',
+      filters: [
+        { filterType: 'PRICE_FILTER', tickSize: '0.01' },
+        { filterType: 'LOT_SIZE', stepSize: '0.001', minQty: '0.001', maxQty: '100000' },
+      ],
+    }],
+  });
+
+  await summary.run('Market entry closes at take profit net of fees and slippage', async () => {
+    const result = await new Backtester(createConfig()).run({
+      liquidations: [liquidation(START + 5 * MINUTE + 10000, 'SELL', 100, 200)],
+      klines: { BTCUSDT: [...flat(0, 10, 100), candle(10, 100, 103, 100, 103), ...flat(11, 15, 103)] },
+    });
+
+    assertEqual(result.trades.length, 1);
+    const trade = result.trades[0];
+    assertEqual(trade.side, 'LONG');
+    assertEqual(trade.exitReason, 'TP');
+    assertClose(trade.entryPrice, 100.1, 1e-9);         // Market fill plus 0.1% slippage
+    assertClose(trade.exitPrice, 100.1 * 1.02, 1e-9);
+    assertEqual(trade.quantity, 10);
+    const fees = (100.1 * 10 + 100.1 * 1.02 * 10) * 0.0004;
+    assertClose(trade.fees, fees, 1e-9);
+    assertClose(trade.netPnl, 100.1 * 0.02 * 10 - fees, 1e-9);
+    assertClose(result.summary.endingBalance, 10000 + trade.netPnl, 1e-9);
+  });
+
+  await summary.run('Stops fill at the trigger inside a candle and at the open after a gap', async () => {
+    const config = createConfig({}, { paperExecution: { marketSlippagePercent: 0, takerFeePercent: 0, stopSlippagePercent: 0 } });
+    const entry = [liquidation(START + 5 * MINUTE + 10000, 'SELL', 100, 200)];
+
+    const inside = await new Backtester(config).run({
+      liquidations: entry,
+      klines: { BTCUSDT: [...flat(0, 10, 100), candle(10, 100, 100, 97, 97)] },
+    });
+    assertEqual(inside.trades[0].exitReason, 'SL');
+    assertClose(inside.trades[0].exitPrice, 98, 1e-9);
+
+    const gapped = await new Backtester(config).run({
+      liquidations: entry,
+      klines: { BTCUSDT: [...flat(0, 10, 100), candle(10, 95, 96, 94, 95)] },
+    });
+    assertClose(gapped.trades[0].exitPrice, 95, 1e-9);
+  });
+
+  await summary.run('Cooldown and the open position gate repeated signals', async () => {
+    const result = await new Backtester(createConfig({ thresholdCooldown: 20000 })).run({
+      liquidations: [
+        liquidation(START + 5 * MINUTE + 10000, 'SELL', 100, 200),
+        liquidation(START + 5 * MINUTE + 20000, 'SELL', 100, 200),   // Inside the cooldown
+        liquidation(START + 6 * MINUTE + 10000, 'SELL', 100, 200),   // Long already open
+        liquidation(START + 6 * MINUTE + 20000, 'BUY', 100, 50),     // Below the short threshold
+      ],
+      klines: { BTCUSDT: flat(0, 10, 100) },
+    });
+
+    assertEqual(result.summary.liquidations, 4);
+    assertEqual(result.summary.signals, 2);
+    assertEqual(result.summary.blocked.POSITION_OPEN, 1);
+    assertEqual(result.trades.length, 1);
+    assertEqual(result.trades[0].exitReason, 'END');
+  });
+
+  await summary.run('Momentum gates on the liquidation side threshold and the short cooldown', async () => {
+    const result = await new Backtester(createConfig({
+      signalStrategy: 'momentum',
+      longVolumeThresholdUSDT: 10000,   // SELL liquidations
+      shortVolumeThresholdUSDT: 50000,  // BUY liquidations
+      thresholdCooldown: 20000,
+    })).run({
+      liquidations: [
+        liquidation(START + 5 * MINUTE + 10000, 'SELL', 100, 200),
+        liquidation(START + 5 * MINUTE + 20000, 'SELL', 100, 200),   // Inside the short cooldown
+        liquidation(START + 5 * MINUTE + 40000, 'BUY', 100, 200),    // Below the BUY liquidation threshold
+      ],
+      klines: { BTCUSDT: flat(0, 10, 100) },
+    });
+
+    assertEqual(result.summary.signals, 1);
+    assertEqual(result.trades.length, 1);
+    assertEqual(result.trades[0].side, 'SHORT');
+  });
+
+  await summary.run('A TIGHTEN_TP timeout leaves trailing-only exits running', async () => {
+    const result = await new Backtester(createConfig({
+      maxHoldMinutes: 2,
+      timeoutAction: 'TIGHTEN_TP',
+      trailingStopEnabled: true,
+      trailingStopMode: 'REPLACE_TP',
+      trailingActivationPercent: 5,
+      trailingCallbackRate: 1,
+    })).run({
+      liquidations: [liquidation(START + 5 * MINUTE + 10000, 'SELL', 100, 200)],
+      klines: { BTCUSDT: flat(0, 15, 100) },
+    });
+
+    assertEqual(result.trades.length, 1);
+    assertEqual(result.trades[0].exitReason, 'END');
+  });
+
+  await summary.run('Limit entries rest until the price trades through them', async () => {
+    const config = createConfig({ orderType: 'LIMIT', priceOffsetBps: 10 }, {
+      paperExecution: { limitThroughPercent: 0.05, limitTimeoutSeconds: 120 },
+    });
+    const entry = [liquidation(START + 5 * MINUTE + 10000, 'SELL', 100, 200)];
+
+    const missed = await new Backtester(config).run({
+      liquidations: entry,
+      klines: { BTCUSDT: [...flat(0, 6, 100), ...flat(6, 12, 99.95)] },
+    });
+    assertEqual(missed.trades.length, 0);
+
+    const filled = await new Backtester(config).run({
+      liquidations: entry,
+      klines: { BTCUSDT: [...flat(0, 6, 100), candle(6, 100, 100, 99, 99.5), ...flat(7, 10, 99.5)] },
+    });
+    assertEqual(filled.trades.length, 1);
+    assertClose(filled.trades[0].entryPrice, 99.9, 1e-9);
+    // Maker fee on the resting entry, taker fee on the market close at the end
+    assertClose(filled.trades[0].fees, 99.9 * 10 * 0.0002 + filled.trades[0].exitPrice * 10 * 0.0004, 1e-9);
+  });
+
+  await summary.run('Daily PnL covers every day and feeds the performance metrics', async () => {
+    const result = await new Backtester(createConfig()).run({
+      liquidations: [liquidation(START + 5 * MINUTE + 10000, 'SELL', 100, 200)],
+      klines: { BTCUSDT: [...flat(0, 10, 100), candle(10, 100, 103, 100, 103)] },
+    }, { startTime: START, endTime: START + 3 * 24 * 60 * MINUTE - 1 });
+
+    assertEqual(result.dailyPnL.length, 3);
+    assertEqual(result.dailyPnL[0].tradeCount, 1);
+    assertClose(result.metrics.totalPnl, result.summary.netPnl, 1e-9);
+    assertEqual(result.equityCurve.length, 2);
+  });
+
+  await summary.run('Candles aggregate to longer intervals on interval boundaries', async () => {
+    const klines = aggregateKlines([candle(3, 1, 2, 0.5, 1.5), candle(4, 1.5, 3, 1, 2), candle(5, 2, 2.5, 1.8, 2.2)], '5m');
+    assertEqual(klines.length, 2);
+    assertEqual(klines[0].openTime, START);
+    assertEqual(klines[0].high, '3');
+    assertEqual(klines[0].low, '0.5');
+    assertEqual(klines[0].close, '2');
+    assertEqual(klines[0].volume, '20');
+    assert(klines[1].openTime === START + 5 * MINUTE, 'Second bucket should start at minute 5');
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 BACKTESTER TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testBacktester();
+
+    logSection('✨ All Backtester Tests Complete');
+    // The liquidation storage import keeps the database open
+    process.exit(0);
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
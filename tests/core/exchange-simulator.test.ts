@@ -0,0 +1,274 @@
+#!/usr/bin/env tsx
+
+import WebSocket from 'ws';
+import { MatchingEngine, SimulatorError } from '../../src/lib/simulator/matchingEngine';
+import { ExchangeSimulator } from '../../src/lib/simulator/exchangeSimulator';
+import { PricePath, generateOscillatingPath } from '../../src/lib/simulator/pricePath';
+import { configureExchangeEndpoints, resolveExchangeEndpoints, getCombinedStreamUrl } from '../../src/lib/api/endpoints';
+import { placeOrder, cancelOrder } from '../../src/lib/api/orders';
+import { getExchangeInfo, getMarkPrice, getOpenOrders, getPositionRisk, getKlines } from '../../src/lib/api/market';
+import { placeBatchOrders } from '../../src/lib/api/batchOrders';
+import { symbolPrecision } from '../../src/lib/utils/symbolPrecision';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose,
+  wait
+} from '../utils/test-helpers';
+
+const credentials = { apiKey: 'sim-key', secretKey: 'sim-secret' };
+
+function createEngine(price: number = 100, options: { dualSidePosition?: boolean } = {}): MatchingEngine {
+  const engine = new MatchingEngine({ startingBalance: 1000, makerFee: 0, takerFee: 0.001, ...options });
+  engine.setPrice('BTCUSDT', price);
+  return engine;
+}
+
+async function expectRejection(action: () => unknown, code: number) {
+  try {
+    action();
+  } catch (error) {
+    assert(error instanceof SimulatorError, 'Should throw a SimulatorError');
+    assertEqual((error as SimulatorError).code, code);
+    return;
+  }
+  throw new Error(`Expected rejection with code ${code}`);
+}
+
+async function testPricePath() {
+  logSection('Testing Price Path');
+  const summary = new TestSummary();
+
+  await summary.run('Steps through prices and holds the last one', async () => {
+    const path = new PricePath({
+      startTime: 0,
+      stepIntervalMs: 1000,
+      symbols: { BTCUSDT: { prices: [100, 101, 102] }, ETHUSDT: { prices: [10] } },
+      liquidations: [{ step: 2, symbol: 'BTCUSDT', side: 'SELL', quantity: 1 }]
+    });
+
+    assertEqual(path.advance()!.prices.get('BTCUSDT'), 101);
+    const last = path.advance()!;
+    assertEqual(last.time, 2000);
+    assertEqual(last.liquidations.length, 1);
+    assertEqual(last.prices.get('ETHUSDT'), 10);
+    assert(path.advance() === null, 'Path should be complete');
+  });
+
+  await summary.run('Oscillating path stays within the amplitude', async () => {
+    const prices = generateOscillatingPath(100, 120, 2, 60);
+    assertEqual(prices[0], 100);
+    assert(Math.max(...prices) <= 102 && Math.min(...prices) >= 98, 'Prices should stay within 2%');
+  });
+
+  summary.print();
+}
+
+async function testMatchingEngine() {
+  logSection('Testing Matching Engine');
+  const summary = new TestSummary();
+
+  await summary.run('Resting limit fills at its price once crossed', async () => {
+    const engine = createEngine(100);
+    const order = engine.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: 2, price: 99 });
+    engine.setPrice('BTCUSDT', 99.5);
+    assertEqual(order.status, 'NEW');
+
+    engine.setPrice('BTCUSDT', 98);
+    assertEqual(order.status, 'FILLED');
+    assertEqual(order.avgPrice, 99);
+    assertEqual(engine.getPosition('BTCUSDT', 'BOTH')!.amount, 2);
+  });
+
+  await summary.run('Stop fills at the gapped price, take profit on the way up', async () => {
+    const engine = createEngine(100);
+    engine.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 1 });
+    const stop = engine.placeOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'STOP_MARKET', quantity: 1, stopPrice: 98, reduceOnly: true });
+    const tp = engine.placeOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'TAKE_PROFIT_MARKET', quantity: 1, stopPrice: 103, reduceOnly: true });
+
+    engine.setPrice('BTCUSDT', 97);
+    assertEqual(stop.status, 'FILLED');
+    assertEqual(stop.avgPrice, 97);
+    assertEqual(engine.getPosition('BTCUSDT', 'BOTH')!.amount, 0);
+
+    // Reduce-only TP expires once there is nothing left to close
+    engine.setPrice('BTCUSDT', 104);
+    assertEqual(tp.status, 'EXPIRED');
+
+    const trades = engine.getTrades();
+    assertClose(trades[1].realizedPnl, -3, 1e-9);
+    assertClose(engine.getAccountSummary().walletBalance, 1000 - 3 - 0.1 - 0.097, 1e-9);
+  });
+
+  await summary.run('Rejects stops that would trigger immediately', async () => {
+    const engine = createEngine(100);
+    engine.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 1 });
+    await expectRejection(() => engine.placeOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'STOP_MARKET', quantity: 1, stopPrice: 101 }), -2021);
+    await expectRejection(() => engine.placeOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'STOP_MARKET', quantity: 1, stopPrice: 95, positionSide: 'LONG' }), -4061);
+  });
+
+  await summary.run('Hedge mode closes without flipping and trailing stops follow price', async () => {
+    const engine = createEngine(100, { dualSidePosition: true });
+    engine.placeOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'MARKET', quantity: 1, positionSide: 'SHORT' });
+    const trailing = engine.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'TRAILING_STOP_MARKET', quantity: 5, callbackRate: 1, positionSide: 'SHORT' });
+    assertEqual(trailing.reduceOnly, true);
+
+    engine.setPrice('BTCUSDT', 95);
+    engine.setPrice('BTCUSDT', 95.5);
+    assertEqual(trailing.status, 'NEW');
+    engine.setPrice('BTCUSDT', 96);
+    assertEqual(trailing.status, 'FILLED');
+    assertEqual(trailing.executedQty, 1);
+    assertEqual(engine.getPosition('BTCUSDT', 'SHORT')!.amount, 0);
+  });
+
+  summary.print();
+}
+
+async function testEndpoints() {
+  logSection('Testing Exchange Endpoints');
+  const summary = new TestSummary();
+
+  await summary.run('Defaults to the Aster production hosts', async () => {
+    const endpoints = resolveExchangeEndpoints();
+    assertEqual(endpoints.restBaseUrl, 'https://fapi.asterdex.com');
+    assertEqual(endpoints.userStreamBaseUrl, 'wss://fstream.asterdex.com');
+  });
+
+  await summary.run('Explicit endpoints win over sim mode and streams fall back to wsBaseUrl', async () => {
+    const simulator = { enabled: true, port: 4200 };
+    assertEqual(resolveExchangeEndpoints({ simulator }).restBaseUrl, 'http://127.0.0.1:4200');
+
+    const endpoints = resolveExchangeEndpoints({
+      simulator,
+      endpoints: { restBaseUrl: 'https://testnet.example.com/', wsBaseUrl: 'wss://stream.example.com', userStreamBaseUrl: 'wss://user.example.com' },
+    });
+    assertEqual(endpoints.restBaseUrl, 'https://testnet.example.com');
+    assertEqual(endpoints.marketStreamBaseUrl, 'wss://stream.example.com');
+    assertEqual(endpoints.userStreamBaseUrl, 'wss://user.example.com');
+
+    configureExchangeEndpoints({ endpoints: { wsBaseUrl: 'ws://proxy:9000' } });
+    assertEqual(getCombinedStreamUrl(['btcusdt@kline_1m', 'ethusdt@kline_1m']), 'ws://proxy:9000/stream?streams=btcusdt@kline_1m/ethusdt@kline_1m');
+    configureExchangeEndpoints();
+  });
+
+  summary.print();
+}
+
+async function testServer() {
+  logSection('Testing Simulator Server');
+  const summary = new TestSummary();
+
+  const simulator = new ExchangeSimulator({
+    script: {
+      symbols: { BTCUSDT: { prices: [50000, 49950, 49800, 49900, 50200], tickSize: '0.1' } },
+      liquidations: [{ step: 1, symbol: 'BTCUSDT', side: 'SELL', quantity: 2 }]
+    },
+    apiKey: credentials.apiKey,
+    secretKey: credentials.secretKey,
+  });
+  const { restUrl, wsUrl } = await simulator.start();
+  configureExchangeEndpoints({ endpoints: { restBaseUrl: restUrl, wsBaseUrl: wsUrl } });
+
+  try {
+    await summary.run('Serves market data to lib/api', async () => {
+      symbolPrecision.parseExchangeInfo(await getExchangeInfo());
+      const mark = await getMarkPrice('BTCUSDT') as any;
+      assertEqual(mark.markPrice, '50000');
+      const klines = await getKlines('BTCUSDT', '1m', 10);
+      assertEqual(klines[klines.length - 1].close, '50000');
+    });
+
+    await summary.run('Streams fills to the user data stream and liquidations to forceOrder', async () => {
+      const listenKey = (await (await fetch(`${restUrl}/fapi/v1/listenKey`, { method: 'POST' })).json()).listenKey;
+      const userEvents: any[] = [];
+      const forceOrders: any[] = [];
+      const userSocket = new WebSocket(`${wsUrl}/ws/${listenKey}`);
+      const forceSocket = new WebSocket(`${wsUrl}/ws/!forceOrder@arr`);
+      userSocket.on('message', data => userEvents.push(JSON.parse(data.toString())));
+      forceSocket.on('message', data => forceOrders.push(JSON.parse(data.toString())));
+      await Promise.all([userSocket, forceSocket].map(ws => new Promise(resolve => ws.once('open', resolve))));
+
+      const entry = await placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: 0.01, price: 49950 }, credentials);
+      assertEqual((await getOpenOrders('BTCUSDT', credentials)).length, 1);
+
+      simulator.step();
+      await wait(100);
+      const fill = userEvents.find(event => event.e === 'ORDER_TRADE_UPDATE' && event.o.X === 'FILLED');
+      assertEqual(fill.o.i, (entry as any).orderId);
+      assertEqual(fill.o.L, '49950');
+      assert(userEvents.some(event => event.e === 'ACCOUNT_UPDATE' && event.a.P[0].pa === '0.01'), 'Should push the position update');
+      assertEqual(forceOrders.length, 1);
+      assertEqual(forceOrders[0].o.S, 'SELL');
+      assertEqual(forceOrders[0].o.p, '49950');
+
+      userSocket.close();
+      forceSocket.close();
+    });
+
+    await summary.run('Batch protective orders fill against the path', async () => {
+      const results = await placeBatchOrders([
+        { symbol: 'BTCUSDT', side: 'SELL', type: 'STOP_MARKET', quantity: 0.01, stopPrice: 49000, reduceOnly: true },
+        { symbol: 'BTCUSDT', side: 'SELL', type: 'TAKE_PROFIT_MARKET', quantity: 0.01, stopPrice: 50100, reduceOnly: true },
+        { symbol: 'BTCUSDT', side: 'SELL', type: 'STOP_MARKET', quantity: 0.01, stopPrice: 50500, reduceOnly: true },
+      ], credentials);
+      assertEqual(results.filter(result => result.success).length, 2);
+      assertEqual(results[2].error!.code, -2021);
+
+      const stopId = (results[0].order as any).orderId;
+      await cancelOrder({ symbol: 'BTCUSDT', orderId: stopId }, credentials);
+
+      simulator.step(); // 49800
+      simulator.step(); // 49900
+      simulator.step(); // 50200 -> TP
+      const positions = await getPositionRisk('BTCUSDT', credentials);
+      assertEqual(positions[0].positionAmt, '0');
+      const trades = simulator.engine.getTrades('BTCUSDT');
+      assertClose(trades[trades.length - 1].realizedPnl, 2.5, 1e-6);
+      log(`  Wallet balance: $${simulator.engine.getAccountSummary().walletBalance.toFixed(4)}`, colors.gray);
+    });
+
+    await summary.run('Rejects requests signed with the wrong secret', async () => {
+      try {
+        await getOpenOrders('BTCUSDT', { apiKey: credentials.apiKey, secretKey: 'wrong' });
+        throw new Error('Request should have been rejected');
+      } catch (error: any) {
+        assertEqual(error.response?.data?.code, -1022);
+      }
+    });
+  } finally {
+    configureExchangeEndpoints();
+    await simulator.stop();
+  }
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 EXCHANGE SIMULATOR TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testPricePath();
+    await testMatchingEngine();
+    await testEndpoints();
+    await testServer();
+
+    logSection('✨ All Exchange Simulator Tests Complete');
+    // The rate limit manager behind lib/api keeps timers running
+    process.exit(0);
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
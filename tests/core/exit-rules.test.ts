@@ -0,0 +1,117 @@
+#!/usr/bin/env tsx
+
+import { getExitRuleSettings, getBreakevenPrice, evaluateExitRules } from '../../src/lib/bot/exitRules';
+import { SymbolConfig } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const baseConfig: SymbolConfig = {
+  volumeThresholdUSDT: 1000,
+  tradeSize: 20,
+  leverage: 10,
+  tpPercent: 2,
+  slPercent: 1
+};
+
+const now = Date.UTC(2024, 0, 1, 12, 0, 0);
+const minutesAgo = (minutes: number) => now - minutes * 60000;
+
+async function testBreakeven() {
+  logSection('Testing Breakeven Rule');
+  const summary = new TestSummary();
+
+  await summary.run('Disabled without any rule configured', async () => {
+    assertEqual(getExitRuleSettings(baseConfig), null);
+    const settings = getExitRuleSettings({ ...baseConfig, breakevenTriggerPercent: 1 })!;
+    assertEqual(settings.breakeven!.feePercent, 0.1);
+    assertEqual(settings.timeout, undefined);
+  });
+
+  await summary.run('Breakeven price covers fees on both sides', async () => {
+    assertClose(getBreakevenPrice(100, true, 0.1), 100.1, 1e-9);
+    assertClose(getBreakevenPrice(100, false, 0.1), 99.9, 1e-9);
+  });
+
+  await summary.run('Moves the stop once profit passes the trigger', async () => {
+    const settings = getExitRuleSettings({ ...baseConfig, breakevenTriggerPercent: 1 })!;
+    const below = evaluateExitRules(settings, { entryPrice: 100, markPrice: 100.5, isLong: true }, {}, now);
+    const above = evaluateExitRules(settings, { entryPrice: 100, markPrice: 98.9, isLong: false }, {}, now);
+    assertEqual(below.moveToBreakeven, false);
+    assertEqual(above.moveToBreakeven, true);
+    assertClose(above.breakevenPrice!, 99.9, 1e-9);
+  });
+
+  await summary.run('Fires once and never past the mark price', async () => {
+    const settings = getExitRuleSettings({ ...baseConfig, breakevenTriggerPercent: 0.05, breakevenFeePercent: 0.1 })!;
+    const moved = evaluateExitRules(settings, { entryPrice: 100, markPrice: 102, isLong: true }, { breakevenPrice: 100.1 }, now);
+    const insideFees = evaluateExitRules(settings, { entryPrice: 100, markPrice: 100.08, isLong: true }, {}, now);
+    assertEqual(moved.moveToBreakeven, false);
+    assertEqual(insideFees.moveToBreakeven, false);
+  });
+
+  summary.print();
+}
+
+async function testTimeout() {
+  logSection('Testing Timeout Rule');
+  const summary = new TestSummary();
+
+  await summary.run('Closes after the max hold time', async () => {
+    const settings = getExitRuleSettings({ ...baseConfig, maxHoldMinutes: 60 })!;
+    const early = evaluateExitRules(settings, { entryPrice: 100, markPrice: 99, isLong: true, openedAt: minutesAgo(30) }, {}, now);
+    const late = evaluateExitRules(settings, { entryPrice: 100, markPrice: 99, isLong: true, openedAt: minutesAgo(61) }, {}, now);
+    assertEqual(early.timeout, undefined);
+    assertEqual(late.timeout, 'CLOSE');
+    assertClose(late.heldMinutes!, 61, 1e-9);
+  });
+
+  await summary.run('Tightens the TP when configured', async () => {
+    const settings = getExitRuleSettings({ ...baseConfig, maxHoldMinutes: 60, timeoutAction: 'TIGHTEN_TP', timeoutTpPercent: 0.3 })!;
+    const decision = evaluateExitRules(settings, { entryPrice: 100, markPrice: 100.1, isLong: false, openedAt: minutesAgo(90) }, {}, now);
+    assertEqual(decision.timeout, 'TIGHTEN_TP');
+    assertClose(decision.tightenedTpPrice!, 99.7, 1e-9);
+  });
+
+  await summary.run('Closes instead when already past the tightened TP', async () => {
+    const settings = getExitRuleSettings({ ...baseConfig, maxHoldMinutes: 60, timeoutAction: 'TIGHTEN_TP', timeoutTpPercent: 0.3 })!;
+    const decision = evaluateExitRules(settings, { entryPrice: 100, markPrice: 100.5, isLong: true, openedAt: minutesAgo(90) }, {}, now);
+    assertEqual(decision.timeout, 'CLOSE');
+    assert(decision.tightenedTpPrice === undefined, 'No TP to place when closing');
+  });
+
+  await summary.run('Skips applied timeouts and unknown open times', async () => {
+    const settings = getExitRuleSettings({ ...baseConfig, maxHoldMinutes: 60 })!;
+    assertEqual(evaluateExitRules(settings, { entryPrice: 100, markPrice: 99, isLong: true, openedAt: minutesAgo(90) }, { timedOut: true }, now).timeout, undefined);
+    assertEqual(evaluateExitRules(settings, { entryPrice: 100, markPrice: 99, isLong: true, openedAt: null }, {}, now).timeout, undefined);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 EXIT RULES TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testBreakeven();
+    await testTimeout();
+
+    logSection('✨ All Exit Rules Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,157 @@
+#!/usr/bin/env tsx
+
+import { toExposurePosition, calculateExposure, getSymbolGroups, evaluateExposureLimits } from '../../src/lib/bot/exposureLimits';
+import { Hunter } from '../../src/lib/bot/hunter';
+import { PaperExecutionEngine } from '../../src/lib/bot/paperExecution';
+import { Config, ExposureLimitsConfig } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const positions = [
+  { symbol: 'BTCUSDT', side: 'LONG' as const, notionalUSDT: 500 },
+  { symbol: 'DOGEUSDT', side: 'LONG' as const, notionalUSDT: 200 },
+  { symbol: 'ETHUSDT', side: 'SHORT' as const, notionalUSDT: 300 },
+];
+
+async function testExposure() {
+  logSection('Testing Exposure Calculation');
+  const summary = new TestSummary();
+
+  await summary.run('Values positions at the mark price', async () => {
+    const short = toExposurePosition({ symbol: 'ETHUSDT', positionAmt: '-2', entryPrice: '100', markPrice: '110' })!;
+    const noMark = toExposurePosition({ symbol: 'BTCUSDT', positionAmt: '0.5', entryPrice: '100', markPrice: '0' })!;
+    assertEqual(short.side, 'SHORT');
+    assertClose(short.notionalUSDT, 220, 1e-9);
+    assertClose(noMark.notionalUSDT, 50, 1e-9);
+    assertEqual(toExposurePosition({ symbol: 'BTCUSDT', positionAmt: '0', entryPrice: '100' }), null);
+  });
+
+  await summary.run('Sums total and net notional', async () => {
+    const exposure = calculateExposure(positions);
+    assertClose(exposure.totalNotionalUSDT, 1000, 1e-9);
+    assertClose(exposure.netNotionalUSDT, 400, 1e-9);
+  });
+
+  await summary.run('Matches group members case-insensitively', async () => {
+    const limits: ExposureLimitsConfig = { enabled: true, groups: { memes: { symbols: ['dogeusdt', '1000PEPEUSDT'], maxNotionalUSDT: 300 } } };
+    assertEqual(getSymbolGroups(limits, 'DOGEUSDT').join(','), 'memes');
+    assertEqual(getSymbolGroups(limits, 'BTCUSDT').length, 0);
+  });
+
+  summary.print();
+}
+
+async function testLimits() {
+  logSection('Testing Exposure Limits');
+  const summary = new TestSummary();
+
+  await summary.run('Allows trades under every cap', async () => {
+    const limits: ExposureLimitsConfig = { enabled: true, maxTotalNotionalUSDT: 2000, maxNetNotionalUSDT: 1000 };
+    const decision = evaluateExposureLimits(limits, positions, { symbol: 'SOLUSDT', side: 'LONG', notionalUSDT: 100 });
+    assert(decision.allowed, 'Trade should be allowed');
+    assertEqual(decision.reason, undefined);
+  });
+
+  await summary.run('Blocks trades past the total cap', async () => {
+    const limits: ExposureLimitsConfig = { enabled: true, maxTotalNotionalUSDT: 1200 };
+    const decision = evaluateExposureLimits(limits, positions, { symbol: 'SOLUSDT', side: 'SHORT', notionalUSDT: 250 });
+    assertEqual(decision.allowed, false);
+    assertEqual(decision.limit, 'TOTAL');
+  });
+
+  await summary.run('Net cap only blocks trades that grow the imbalance', async () => {
+    const limits: ExposureLimitsConfig = { enabled: true, maxNetNotionalUSDT: 300 };
+    const long = evaluateExposureLimits(limits, positions, { symbol: 'SOLUSDT', side: 'LONG', notionalUSDT: 50 });
+    const short = evaluateExposureLimits(limits, positions, { symbol: 'SOLUSDT', side: 'SHORT', notionalUSDT: 50 });
+    assertEqual(long.allowed, false);
+    assertEqual(long.limit, 'NET');
+    assert(short.allowed, 'Reducing the net long should be allowed even above the cap');
+  });
+
+  await summary.run('Blocks trades past a group cap', async () => {
+    const limits: ExposureLimitsConfig = { enabled: true, groups: { memes: { symbols: ['DOGEUSDT', '1000PEPEUSDT'], maxNotionalUSDT: 300 } } };
+    const blocked = evaluateExposureLimits(limits, positions, { symbol: '1000PEPEUSDT', side: 'SHORT', notionalUSDT: 150 });
+    const outside = evaluateExposureLimits(limits, positions, { symbol: 'SOLUSDT', side: 'SHORT', notionalUSDT: 150 });
+    assertEqual(blocked.allowed, false);
+    assertEqual(blocked.limit, 'GROUP');
+    assertEqual(blocked.group, 'memes');
+    assert(outside.allowed, 'Symbols outside the group are not capped by it');
+  });
+
+  summary.print();
+}
+
+function createHunter(paperMode: boolean): any {
+  const config = {
+    api: { apiKey: '', secretKey: '' },
+    symbols: {
+      BTCUSDT: { volumeThresholdUSDT: 10000, tradeSize: 100, leverage: 10, tpPercent: 2, slPercent: 1 },
+    },
+    global: {
+      riskPercent: 1,
+      paperMode,
+      exposureLimits: { enabled: true, maxTotalNotionalUSDT: 1500 },
+    },
+    version: 1,
+  } as Config;
+
+  const hunter = new Hunter(config, false) as any;
+  const open = { symbol: 'BTCUSDT', positionAmt: '0.01', entryPrice: '50000', markPrice: '50000' }; // $500 long
+  hunter.setPositionTracker({ getPositionsMap: () => new Map([['BTCUSDT_LONG', open]]) });
+  return hunter;
+}
+
+async function testPendingEntries() {
+  logSection('Testing Pending Entry Exposure');
+  const summary = new TestSummary();
+
+  await summary.run('Unfilled live entries count toward the caps', async () => {
+    const hunter = createHunter(false);
+    assert(hunter.checkExposureLimits('BTCUSDT', 'BUY', 800), '$500 open + $800 fits the $1500 cap');
+
+    hunter.pendingOrders.set('order1', { symbol: 'BTCUSDT', side: 'BUY', timestamp: Date.now(), notionalUSDT: 800 });
+    assertEqual(hunter.checkExposureLimits('BTCUSDT', 'BUY', 800), false);
+  });
+
+  await summary.run('Queued paper limit entries count toward the caps', async () => {
+    const hunter = createHunter(true);
+    const engine = new PaperExecutionEngine();
+    hunter.setPaperExecutionEngine(engine);
+    await engine.submitEntry({ symbol: 'BTCUSDT', side: 'SELL', orderType: 'LIMIT', quantity: 0.02, price: 51000 }, 50000, () => {});
+
+    // $500 open + $1020 queued already takes the portfolio past the cap
+    assertEqual(hunter.checkExposureLimits('BTCUSDT', 'BUY', 100), false);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 EXPOSURE LIMITS TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testExposure();
+    await testLimits();
+    await testPendingEntries();
+
+    logSection('✨ All Exposure Limits Tests Complete');
+    process.exit(0);
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,109 @@
+#!/usr/bin/env tsx
+
+import { getFundingFilterSettings, evaluateFundingFilter, getAdverseFundingPercent } from '../../src/lib/bot/fundingFilter';
+import { PriceService } from '../../src/lib/services/priceService';
+import { SymbolConfig } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const baseConfig: SymbolConfig = {
+  volumeThresholdUSDT: 1000,
+  tradeSize: 20,
+  leverage: 10,
+  tpPercent: 2,
+  slPercent: 1
+};
+
+const now = Date.UTC(2024, 0, 1, 7, 0, 0);
+const nextFundingTime = Date.UTC(2024, 0, 1, 8, 0, 0);
+
+async function testFilter() {
+  logSection('Testing Funding Filter');
+  const summary = new TestSummary();
+
+  await summary.run('Disabled without any filter configured', async () => {
+    assertEqual(getFundingFilterSettings(baseConfig), null);
+    const settings = getFundingFilterSettings({ ...baseConfig, maxAdverseFundingRate: 0 })!;
+    assertEqual(settings.maxAdverseFundingRate, 0);
+    assertEqual(settings.blackoutMinutes, undefined);
+  });
+
+  await summary.run('Positive funding is adverse for longs only', async () => {
+    assertClose(getAdverseFundingPercent(0.0005, 'BUY'), 0.05, 1e-9);
+    assertClose(getAdverseFundingPercent(0.0005, 'SELL'), -0.05, 1e-9);
+
+    const settings = getFundingFilterSettings({ ...baseConfig, maxAdverseFundingRate: 0.03 })!;
+    const long = evaluateFundingFilter(settings, 'BUY', { fundingRate: 0.0005, nextFundingTime }, now);
+    const short = evaluateFundingFilter(settings, 'SELL', { fundingRate: 0.0005, nextFundingTime }, now);
+    assertEqual(long.allowed, false);
+    assert(long.reason!.includes('long'), 'Reason should name the paying side');
+    assertEqual(short.allowed, true);
+  });
+
+  await summary.run('Zero limit blocks any paying side', async () => {
+    const settings = getFundingFilterSettings({ ...baseConfig, maxAdverseFundingRate: 0 })!;
+    assertEqual(evaluateFundingFilter(settings, 'SELL', { fundingRate: -0.0001, nextFundingTime }, now).allowed, false);
+    assertEqual(evaluateFundingFilter(settings, 'SELL', { fundingRate: 0, nextFundingTime }, now).allowed, true);
+  });
+
+  await summary.run('Blocks entries inside the pre-funding blackout', async () => {
+    const settings = getFundingFilterSettings({ ...baseConfig, fundingBlackoutMinutes: 30 })!;
+    const early = evaluateFundingFilter(settings, 'BUY', { fundingRate: -0.0001, nextFundingTime }, now);
+    const late = evaluateFundingFilter(settings, 'BUY', { fundingRate: -0.0001, nextFundingTime }, nextFundingTime - 10 * 60000);
+    assertEqual(early.allowed, true);
+    assertClose(early.minutesToFunding, 60, 1e-9);
+    assertEqual(late.allowed, false);
+    assert(late.reason!.includes('blackout'), 'Reason should mention the blackout');
+  });
+
+  summary.print();
+}
+
+async function testPriceServiceFunding() {
+  logSection('Testing Price Service Funding');
+  const summary = new TestSummary();
+
+  await summary.run('Keeps funding from the mark price stream', async () => {
+    const priceService = new PriceService();
+    (priceService as any).handleMarkPriceUpdates([
+      { e: 'markPriceUpdate', E: now, s: 'BTCUSDT', p: '50000', i: '50001', r: '0.00012000', T: nextFundingTime }
+    ]);
+
+    const funding = priceService.getFundingInfo('btcusdt')!;
+    assertClose(funding.fundingRate, 0.00012, 1e-12);
+    assertEqual(funding.nextFundingTime, nextFundingTime);
+    assertEqual(priceService.getFundingInfo('ETHUSDT'), null);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 FUNDING FILTER TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testFilter();
+    await testPriceServiceFunding();
+
+    logSection('✨ All Funding Filter Tests Complete');
+    // The price service pulls in the error logger, which keeps the database open
+    process.exit(0);
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,108 @@
+#!/usr/bin/env tsx
+
+import { Hunter } from '../../src/lib/bot/hunter';
+import { liquidationStorage } from '../../src/lib/services/liquidationStorage';
+import { Config, SignalStrategyName } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assertEqual
+} from '../utils/test-helpers';
+
+// Keep liquidations out of the database
+liquidationStorage.saveLiquidation = async () => {};
+
+function createConfig(signalStrategy: SignalStrategyName): Config {
+  return {
+    api: { apiKey: 'key', secretKey: 'secret' },
+    symbols: {
+      BTCUSDT: {
+        longVolumeThresholdUSDT: 50000,  // SELL liquidations
+        shortVolumeThresholdUSDT: 10000, // BUY liquidations
+        tradeSize: 100,
+        leverage: 10,
+        tpPercent: 2,
+        slPercent: 1,
+        signalStrategy,
+      },
+    },
+    global: {
+      riskPercent: 1,
+      paperMode: true,
+    },
+    version: 1,
+  } as Config;
+}
+
+function forceOrder(side: 'BUY' | 'SELL', price: number, qty: number) {
+  const now = Date.now();
+  return {
+    e: 'forceOrder',
+    E: now,
+    o: { s: 'BTCUSDT', S: side, o: 'LIMIT', q: String(qty), p: String(price), ap: String(price), X: 'FILLED', l: String(qty), z: String(qty), T: now },
+  };
+}
+
+// Hunter with the mark price pinned and trades recorded instead of placed
+function createHunter(signalStrategy: SignalStrategyName): { hunter: any; trades: string[] } {
+  const hunter = new Hunter(createConfig(signalStrategy), false) as any;
+  const trades: string[] = [];
+  hunter.getAnalysisMarkPrice = async () => 50000;
+  hunter.analyzeAndTrade = async (_liquidation: any, _symbolConfig: any, _signal: any, side: string) => {
+    trades.push(side);
+  };
+  return { hunter, trades };
+}
+
+async function testLiquidationSideThresholds() {
+  logSection('Testing Liquidation Side Thresholds');
+  const summary = new TestSummary();
+
+  await summary.run('Contrarian checks SELL liquidations against the long threshold', async () => {
+    const { hunter, trades } = createHunter('contrarian');
+    await hunter.handleLiquidationEvent(forceOrder('SELL', 50000, 0.4)); // 20000 USDT
+    assertEqual(trades.length, 0, 'Below the 50000 long threshold');
+    await hunter.handleLiquidationEvent(forceOrder('SELL', 50000, 1.2)); // 60000 USDT
+    assertEqual(trades.join(','), 'BUY');
+  });
+
+  await summary.run('Momentum checks SELL liquidations against the long threshold', async () => {
+    const { hunter, trades } = createHunter('momentum');
+    await hunter.handleLiquidationEvent(forceOrder('SELL', 50000, 0.4)); // 20000 USDT, above the short threshold
+    assertEqual(trades.length, 0, 'The short threshold gates BUY liquidations, not this SELL');
+    await hunter.handleLiquidationEvent(forceOrder('SELL', 50000, 1.2));
+    assertEqual(trades.join(','), 'SELL');
+    log(`  Momentum trades: ${trades.join(', ')}`, colors.gray);
+  });
+
+  await summary.run('Momentum checks BUY liquidations against the short threshold', async () => {
+    const { hunter, trades } = createHunter('momentum');
+    await hunter.handleLiquidationEvent(forceOrder('BUY', 50000, 0.4)); // 20000 USDT, below the long threshold
+    assertEqual(trades.join(','), 'BUY');
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 HUNTER THRESHOLDS TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testLiquidationSideThresholds();
+
+    logSection('✨ All Hunter Threshold Tests Complete');
+    process.exit(0);
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,126 @@
+#!/usr/bin/env tsx
+
+import {
+  getLiquidationGuardSettings,
+  getLiquidationDistancePercent,
+  getMarginToAdd,
+  evaluateLiquidationRisk,
+  ACTION_RETRY_MS
+} from '../../src/lib/bot/liquidationGuard';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const now = Date.UTC(2024, 0, 1, 12, 0, 0);
+// Long at mark 100 with liquidation at 96 - 4% away
+const nearLong = { markPrice: 100, liquidationPrice: 96, quantity: 10, isLong: true, isolated: true };
+
+async function testDistance() {
+  logSection('Testing Liquidation Distance');
+  const summary = new TestSummary();
+
+  await summary.run('Disabled unless enabled, critical capped at warning', async () => {
+    assertEqual(getLiquidationGuardSettings(undefined), null);
+    assertEqual(getLiquidationGuardSettings({ enabled: false }), null);
+    const settings = getLiquidationGuardSettings({ enabled: true, warningDistancePercent: 3, criticalDistancePercent: 8 })!;
+    assertEqual(settings.criticalDistancePercent, 3);
+    assertEqual(settings.criticalAction, 'REDUCE');
+  });
+
+  await summary.run('Distance on both sides, null without a liquidation price', async () => {
+    assertClose(getLiquidationDistancePercent(100, 90, true)!, 10, 1e-9);
+    assertClose(getLiquidationDistancePercent(100, 105, false)!, 5, 1e-9);
+    assertEqual(getLiquidationDistancePercent(100, 0, true), null);
+  });
+
+  await summary.run('Margin to add restores the warning distance, capped', async () => {
+    const settings = getLiquidationGuardSettings({ enabled: true, warningDistancePercent: 10, maxAddMarginUSDT: 1000 })!;
+    assertClose(getMarginToAdd(settings, nearLong), 60, 1e-9);
+    assertClose(getMarginToAdd(settings, { markPrice: 100, liquidationPrice: 104, quantity: 10, isLong: false }), 60, 1e-9);
+    assertEqual(getMarginToAdd({ ...settings, maxAddMarginUSDT: 25 }, nearLong), 25);
+  });
+
+  summary.print();
+}
+
+async function testDecisions() {
+  logSection('Testing Liquidation Guard Decisions');
+  const summary = new TestSummary();
+
+  await summary.run('Warns once per level until the cooldown passes', async () => {
+    const settings = getLiquidationGuardSettings({ enabled: true, alertCooldownMinutes: 15 })!;
+    const position = { ...nearLong, liquidationPrice: 93 };
+    const first = evaluateLiquidationRisk(settings, position, {}, now)!;
+    const repeat = evaluateLiquidationRisk(settings, position, { level: 'WARNING', alertedAt: now - 60000 }, now)!;
+    const later = evaluateLiquidationRisk(settings, position, { level: 'WARNING', alertedAt: now - 16 * 60000 }, now)!;
+    assertEqual(first.level, 'WARNING');
+    assert(first.alert && !repeat.alert && later.alert, 'Alert, suppress, then repeat after the cooldown');
+    assertEqual(first.action, undefined);
+  });
+
+  await summary.run('Reduces at the critical distance and escalates the alert', async () => {
+    const settings = getLiquidationGuardSettings({ enabled: true, reducePercent: 40 })!;
+    const decision = evaluateLiquidationRisk(settings, nearLong, { level: 'WARNING', alertedAt: now - 60000 }, now)!;
+    assertEqual(decision.level, 'CRITICAL');
+    assert(decision.alert, 'Escalating to critical alerts immediately');
+    assertEqual(decision.action, 'REDUCE');
+    assertClose(decision.reduceQuantity!, 4, 1e-9);
+  });
+
+  await summary.run('Adds margin only to isolated positions', async () => {
+    const settings = getLiquidationGuardSettings({ enabled: true, criticalAction: 'ADD_MARGIN' })!;
+    const isolated = evaluateLiquidationRisk(settings, nearLong, {}, now)!;
+    const cross = evaluateLiquidationRisk(settings, { ...nearLong, isolated: false }, {}, now)!;
+    assertEqual(isolated.action, 'ADD_MARGIN');
+    assertClose(isolated.marginToAdd!, 60, 1e-9);
+    assertEqual(cross.action, 'REDUCE');
+  });
+
+  await summary.run('Reduces once the margin cap is spent on the position', async () => {
+    const settings = getLiquidationGuardSettings({ enabled: true, criticalAction: 'ADD_MARGIN', maxAddMarginUSDT: 100 })!;
+    const partly = evaluateLiquidationRisk(settings, nearLong, { marginAdded: 70 }, now)!;
+    const spent = evaluateLiquidationRisk(settings, nearLong, { marginAdded: 100 }, now)!;
+    assertEqual(partly.action, 'ADD_MARGIN');
+    assertClose(partly.marginToAdd!, 30, 1e-9);
+    assertEqual(spent.action, 'REDUCE');
+  });
+
+  await summary.run('Waits between actions and never acts in alert-only mode', async () => {
+    const settings = getLiquidationGuardSettings({ enabled: true })!;
+    const recent = evaluateLiquidationRisk(settings, nearLong, { actedAt: now - ACTION_RETRY_MS + 1000 }, now)!;
+    const retry = evaluateLiquidationRisk(settings, nearLong, { actedAt: now - ACTION_RETRY_MS }, now)!;
+    const alertOnly = evaluateLiquidationRisk({ ...settings, criticalAction: 'ALERT' }, nearLong, {}, now)!;
+    assertEqual(recent.action, undefined);
+    assertEqual(retry.action, 'REDUCE');
+    assertEqual(alertOnly.action, undefined);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 LIQUIDATION GUARD TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testDistance();
+    await testDecisions();
+
+    logSection('✨ All Liquidation Guard Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
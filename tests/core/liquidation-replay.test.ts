@@ -0,0 +1,183 @@
+#!/usr/bin/env tsx
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LiquidationRecorder } from '../../src/lib/services/liquidationRecorder';
+import { LiquidationReplay } from '../../src/lib/services/liquidationReplay';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  wait
+} from '../utils/test-helpers';
+
+function forceOrderFrame(symbol: string, side: 'BUY' | 'SELL', price: string) {
+  return {
+    e: 'forceOrder',
+    E: Date.now(),
+    o: { s: symbol, S: side, o: 'LIMIT', q: '1', p: price, ap: price, X: 'FILLED', l: '1', z: '1', T: Date.now() }
+  };
+}
+
+function tempFile(name: string): string {
+  return path.join(os.tmpdir(), `aster-${process.pid}-${name}.jsonl`);
+}
+
+async function testRecorder() {
+  logSection('Testing Liquidation Recorder');
+  const summary = new TestSummary();
+
+  await summary.run('Append forceOrder and mark price frames as JSONL', async () => {
+    const filePath = tempFile('record');
+    const recorder = new LiquidationRecorder();
+
+    recorder.start({ filePath, includeMarkPrices: false, symbols: ['BTCUSDT'] });
+    recorder.recordForceOrder(forceOrderFrame('BTCUSDT', 'SELL', '50000'));
+    recorder.recordMarkPrices([
+      { symbol: 'BTCUSDT', markPrice: '50010', indexPrice: '50000', timestamp: Date.now() },
+      { symbol: 'ETHUSDT', markPrice: '3000', indexPrice: '3000', timestamp: Date.now() }
+    ]);
+    recorder.stop();
+    await wait(50);
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n').map(l => JSON.parse(l));
+    fs.unlinkSync(filePath);
+
+    assertEqual(lines.length, 2, 'Should write one line per frame');
+    assertEqual(lines[0].type, 'forceOrder');
+    assertEqual(lines[0].data.o.s, 'BTCUSDT');
+    assertEqual(lines[1].type, 'markPrice');
+    assertEqual(lines[1].data.length, 1, 'Unconfigured symbols should be filtered out');
+  });
+
+  summary.print();
+}
+
+async function testReplay() {
+  logSection('Testing Liquidation Replay');
+  const summary = new TestSummary();
+
+  await summary.run('Replay frames in order at max speed', async () => {
+    const filePath = tempFile('replay');
+    const start = Date.now();
+    const frames = [
+      { t: start, type: 'markPrice', data: [{ symbol: 'BTCUSDT', markPrice: '50000', indexPrice: '50000', timestamp: start }] },
+      { t: start + 1000, type: 'forceOrder', data: forceOrderFrame('BTCUSDT', 'SELL', '49900') },
+      { t: start + 2000, type: 'forceOrder', data: forceOrderFrame('BTCUSDT', 'BUY', '50100') }
+    ];
+    fs.writeFileSync(filePath, frames.map(f => JSON.stringify(f)).join('\n') + '\n');
+
+    const replay = new LiquidationReplay({ filePath, speed: 0 });
+    const sides: string[] = [];
+    replay.on('forceOrder', (event) => sides.push(event.o.S));
+
+    const completed = new Promise<number>(resolve => replay.on('complete', ({ frames }) => resolve(frames)));
+    await replay.start();
+    const count = await completed;
+    fs.unlinkSync(filePath);
+
+    assertEqual(count, 3);
+    assertEqual(sides.join(','), 'SELL,BUY');
+    assertEqual(replay.getMarkPrice('BTCUSDT'), 50000);
+  });
+
+  await summary.run('Accelerated replay preserves frame spacing', async () => {
+    const filePath = tempFile('speed');
+    const start = Date.now();
+    const frames = [
+      { t: start, type: 'forceOrder', data: forceOrderFrame('BTCUSDT', 'SELL', '50000') },
+      { t: start + 2000, type: 'forceOrder', data: forceOrderFrame('BTCUSDT', 'SELL', '49990') }
+    ];
+    fs.writeFileSync(filePath, frames.map(f => JSON.stringify(f)).join('\n') + '\n');
+
+    const replay = new LiquidationReplay({ filePath, speed: 20 }); // 2s gap -> ~100ms
+    const completed = new Promise<void>(resolve => replay.on('complete', () => resolve()));
+    const began = Date.now();
+    await replay.start();
+    await completed;
+    const elapsed = Date.now() - began;
+    fs.unlinkSync(filePath);
+
+    assert(elapsed >= 90 && elapsed < 1000, `Replay should take ~100ms, took ${elapsed}ms`);
+    log(`  Elapsed: ${elapsed}ms`, colors.gray);
+  });
+
+  await summary.run('Wait for each liquidation handler before the next frame', async () => {
+    const filePath = tempFile('handler');
+    const start = Date.now();
+    const frames = [
+      { t: start, type: 'forceOrder', data: forceOrderFrame('BTCUSDT', 'SELL', '50000') },
+      { t: start + 1000, type: 'markPrice', data: [{ symbol: 'BTCUSDT', markPrice: '49000', indexPrice: '49000', timestamp: start + 1000 }] },
+      { t: start + 2000, type: 'forceOrder', data: forceOrderFrame('BTCUSDT', 'BUY', '50100') }
+    ];
+    fs.writeFileSync(filePath, frames.map(f => JSON.stringify(f)).join('\n') + '\n');
+
+    const handled: string[] = [];
+    const replay: LiquidationReplay = new LiquidationReplay({
+      filePath,
+      speed: 0,
+      onForceOrder: async (event) => {
+        await wait(20); // Slower than reading the next frame
+        handled.push(`${event.o.S}@${replay.getMarkPrice('BTCUSDT')}`);
+      }
+    });
+
+    const completed = new Promise<void>(resolve => replay.on('complete', () => resolve()));
+    await replay.start();
+    await completed;
+    fs.unlinkSync(filePath);
+
+    assertEqual(handled.join(','), 'SELL@null,BUY@49000');
+  });
+
+  await summary.run('Emit an error when the recording cannot be read', async () => {
+    const dirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'aster-replay-'));
+    const replay = new LiquidationReplay({ filePath: dirPath, speed: 0 });
+
+    const failed = new Promise<Error>(resolve => replay.on('error', resolve));
+    await replay.start();
+    const error = await failed;
+    fs.rmdirSync(dirPath);
+
+    assert(error instanceof Error, 'Reading a directory should fail');
+    assert(!replay.isActive(), 'A failed replay should stop');
+  });
+
+  await summary.run('Reject missing recording file', async () => {
+    const replay = new LiquidationReplay({ filePath: tempFile('missing') });
+    let threw = false;
+    try {
+      await replay.start();
+    } catch (_error) {
+      threw = true;
+    }
+    assert(threw, 'Starting a replay without a file should throw');
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 LIQUIDATION RECORD/REPLAY TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testRecorder();
+    await testReplay();
+
+    logSection('✨ All Liquidation Replay Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,138 @@
+#!/usr/bin/env tsx
+
+import { MarketDataHub, getTopicStream } from '../../src/lib/services/marketDataHub';
+import { ExchangeSimulator } from '../../src/lib/simulator/exchangeSimulator';
+import { configureExchangeEndpoints } from '../../src/lib/api/endpoints';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  wait
+} from '../utils/test-helpers';
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 3000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await wait(20);
+  }
+}
+
+async function testTopics() {
+  logSection('Testing Topic Streams');
+  const summary = new TestSummary();
+
+  await summary.run('Maps typed topics to stream names', async () => {
+    assertEqual(getTopicStream({ type: 'markPrice' }), '!markPrice@arr@1s');
+    assertEqual(getTopicStream({ type: 'forceOrder' }), '!forceOrder@arr');
+    assertEqual(getTopicStream({ type: 'kline', symbol: 'BTCUSDT', interval: '5m' }), 'btcusdt@kline_5m');
+  });
+
+  summary.print();
+}
+
+async function testHub() {
+  logSection('Testing Market Data Hub');
+  const summary = new TestSummary();
+
+  const simulator = new ExchangeSimulator({
+    script: {
+      symbols: { BTCUSDT: { prices: [50000, 49950, 49800, 49900, 50200, 50100] } },
+      liquidations: [{ step: 2, symbol: 'BTCUSDT', side: 'SELL', quantity: 1 }]
+    },
+  });
+  const { restUrl, wsUrl } = await simulator.start();
+  configureExchangeEndpoints({ endpoints: { restBaseUrl: restUrl, wsBaseUrl: wsUrl } });
+  const clients = (simulator as any).clients as Map<unknown, Set<string>>;
+  const hub = new MarketDataHub();
+
+  try {
+    const markPrices: any[][] = [];
+    const klines: any[] = [];
+    const liquidations: any[] = [];
+    let unsubscribeKlines: () => void = () => {};
+
+    await summary.run('Multiplexes every topic over one connection', async () => {
+      hub.subscribe({ type: 'markPrice' }, events => markPrices.push(events));
+      hub.subscribe({ type: 'forceOrder' }, event => liquidations.push(event));
+      await waitFor(() => hub.isConnected());
+
+      // Added after connecting, so it goes out as a SUBSCRIBE on the live socket
+      unsubscribeKlines = hub.subscribe({ type: 'kline', symbol: 'BTCUSDT', interval: '1m' }, event => klines.push(event));
+      await waitFor(() => Array.from(clients.values())[0]?.has('btcusdt@kline_1m'));
+      assertEqual(clients.size, 1);
+
+      simulator.step();
+      simulator.step();
+      await waitFor(() => markPrices.length >= 2 && klines.length >= 2 && liquidations.length === 1);
+      assertEqual(markPrices[1][0].p, '49800');
+      assertEqual(klines[1].k.c, '49800');
+      assertEqual(liquidations[0].o.s, 'BTCUSDT');
+    });
+
+    await summary.run('Unsubscribes streams without reconnecting', async () => {
+      unsubscribeKlines();
+      await waitFor(() => !Array.from(clients.values())[0]?.has('btcusdt@kline_1m'));
+      assertEqual(clients.size, 1);
+      assert(!hub.getStreams().includes('btcusdt@kline_1m'), 'Kline stream should be dropped');
+
+      const klineCount = klines.length;
+      simulator.step();
+      await waitFor(() => markPrices.length >= 3);
+      assertEqual(klines.length, klineCount);
+    });
+
+    await summary.run('Reconnects and restores subscriptions', async () => {
+      (hub as any).ws.terminate();
+      await waitFor(() => !hub.isConnected());
+      await waitFor(() => hub.isConnected(), 5000);
+
+      const streams = Array.from(clients.values())[0];
+      assert(streams.has('!markPrice@arr@1s') && streams.has('!forceOrder@arr'), 'Streams should be restored');
+
+      simulator.step();
+      await waitFor(() => markPrices.length >= 4);
+    });
+
+    await summary.run('Tracks per-stream message counts and latency', async () => {
+      const stats = hub.getStats();
+      const markPriceStats = stats.find(stat => stat.stream === '!markPrice@arr@1s')!;
+      assertEqual(markPriceStats.subscribers, 1);
+      assertEqual(markPriceStats.messages, markPrices.length);
+      assert(markPriceStats.messagesPerSecond > 0, 'Should report a message rate');
+      assert(markPriceStats.avgLatencyMs !== null, 'Should report latency from event times');
+      log(`  Mark price stream: ${markPriceStats.messages} messages, ${markPriceStats.avgLatencyMs!.toFixed(1)}ms avg latency`, colors.gray);
+    });
+  } finally {
+    hub.stop();
+    configureExchangeEndpoints();
+    await simulator.stop();
+  }
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 MARKET DATA HUB TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testTopics();
+    await testHub();
+
+    logSection('✨ All Market Data Hub Tests Complete');
+    process.exit(0);
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
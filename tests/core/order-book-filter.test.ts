@@ -0,0 +1,111 @@
+#!/usr/bin/env tsx
+
+import { getOrderBookFilterSettings, evaluateOrderBookFilter } from '../../src/lib/bot/orderBookFilter';
+import { measureOrderBookLiquidity } from '../../src/lib/api/pricing';
+import { SymbolConfig } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const baseConfig: SymbolConfig = {
+  volumeThresholdUSDT: 1000,
+  tradeSize: 20,
+  leverage: 10,
+  tpPercent: 2,
+  slPercent: 1
+};
+
+// Mid 100, spread 2 bps; 10 bps window is 99.9 - 100.1
+const orderBook = {
+  bids: [['99.99', '100'], ['99.95', '100'], ['99.85', '500']],
+  asks: [['100.01', '50'], ['100.05', '50'], ['100.20', '1000']]
+};
+
+async function testLiquidity() {
+  logSection('Testing Order Book Liquidity');
+  const summary = new TestSummary();
+
+  await summary.run('Measures spread and depth inside the window', async () => {
+    const liquidity = measureOrderBookLiquidity(orderBook, 10)!;
+    assertClose(liquidity.midPrice, 100, 1e-9);
+    assertClose(liquidity.spreadBps, 2, 1e-6);
+    assertClose(liquidity.bidDepthUSDT, 99.99 * 100 + 99.95 * 100, 1e-6);
+    assertClose(liquidity.askDepthUSDT, 100.01 * 50 + 100.05 * 50, 1e-6);
+  });
+
+  await summary.run('Returns null for an empty or crossed book', async () => {
+    assert(measureOrderBookLiquidity({ bids: [], asks: orderBook.asks }, 10) === null, 'Empty side should give null');
+    assert(measureOrderBookLiquidity({ bids: [['101', '1']], asks: [['100', '1']] }, 10) === null, 'Crossed book should give null');
+  });
+
+  summary.print();
+}
+
+async function testFilter() {
+  logSection('Testing Order Book Filter');
+  const summary = new TestSummary();
+  const liquidity = measureOrderBookLiquidity(orderBook, 10)!;
+
+  await summary.run('Disabled without any filter configured', async () => {
+    assertEqual(getOrderBookFilterSettings(baseConfig), null);
+    const settings = getOrderBookFilterSettings({ ...baseConfig, minBookImbalance: 1.5 })!;
+    assertEqual(settings.depthRangeBps, 10);
+    assertEqual(settings.maxSpreadBps, undefined);
+  });
+
+  await summary.run('Blocks wide spreads', async () => {
+    const settings = getOrderBookFilterSettings({ ...baseConfig, maxSpreadBps: 1 })!;
+    const decision = evaluateOrderBookFilter(settings, 'BUY', liquidity);
+    assertEqual(decision.allowed, false);
+    assert(decision.reason!.includes('Spread'), 'Reason should name the spread');
+    assertEqual(evaluateOrderBookFilter({ ...settings, maxSpreadBps: 3 }, 'BUY', liquidity).allowed, true);
+  });
+
+  await summary.run('Blocks when either side is too thin', async () => {
+    const settings = getOrderBookFilterSettings({ ...baseConfig, minBookDepthUSDT: 15000 })!;
+    const decision = evaluateOrderBookFilter(settings, 'BUY', liquidity);
+    assertEqual(decision.allowed, false);
+    assert(decision.reason!.startsWith('Ask depth'), 'Thin side should be the asks');
+  });
+
+  await summary.run('Imbalance must favor the trade direction', async () => {
+    const settings = getOrderBookFilterSettings({ ...baseConfig, minBookImbalance: 1.5 })!;
+    const long = evaluateOrderBookFilter(settings, 'BUY', liquidity);
+    const short = evaluateOrderBookFilter(settings, 'SELL', liquidity);
+    assertEqual(long.allowed, true);
+    assertClose(long.imbalance, 2, 0.01);
+    assertEqual(short.allowed, false);
+    assertClose(short.imbalance, 0.5, 0.01);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 ORDER BOOK FILTER TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testLiquidity();
+    await testFilter();
+
+    logSection('✨ All Order Book Filter Tests Complete');
+    // The rate limit manager behind lib/api keeps timers running
+    process.exit(0);
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
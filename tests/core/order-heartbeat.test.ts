@@ -0,0 +1,140 @@
+#!/usr/bin/env tsx
+
+import { OrderHeartbeat } from '../../src/lib/bot/orderHeartbeat';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual
+} from '../utils/test-helpers';
+
+function createHeartbeat(symbols: { current: string[] }) {
+  const calls: Array<{ symbol: string; countdownMs: number }> = [];
+  const heartbeat = new OrderHeartbeat(
+    () => symbols.current,
+    async (symbol, countdownMs) => {
+      calls.push({ symbol, countdownMs });
+    }
+  );
+  return { heartbeat, calls };
+}
+
+async function testHeartbeat() {
+  logSection('Testing Order Heartbeat');
+  const summary = new TestSummary();
+
+  await summary.run('Arm symbols with pending entries', async () => {
+    const symbols = { current: ['BTCUSDT', 'ETHUSDT'] };
+    const { heartbeat, calls } = createHeartbeat(symbols);
+    heartbeat.updateConfig({ enabled: true, intervalMs: 60000, countdownMs: 180000 });
+    heartbeat.start();
+
+    await heartbeat.refresh();
+    assertEqual(calls.length, 2);
+    assert(calls.every(c => c.countdownMs === 180000), 'Countdown should use configured time');
+    assertEqual(heartbeat.getArmedSymbols().sort().join(','), 'BTCUSDT,ETHUSDT');
+
+    await heartbeat.stop();
+  });
+
+  await summary.run('Disarm symbols once their entries are gone', async () => {
+    const symbols = { current: ['BTCUSDT', 'ETHUSDT'] };
+    const { heartbeat, calls } = createHeartbeat(symbols);
+    heartbeat.updateConfig({ enabled: true, intervalMs: 60000 });
+    heartbeat.start();
+    await heartbeat.refresh();
+
+    // ETH entry filled -> position with SL/TP must not be auto-cancelled
+    symbols.current = ['BTCUSDT'];
+    calls.length = 0;
+    await heartbeat.refresh();
+
+    const ethCall = calls.find(c => c.symbol === 'ETHUSDT');
+    assertEqual(ethCall?.countdownMs, 0);
+    assertEqual(heartbeat.getArmedSymbols().join(','), 'BTCUSDT');
+
+    await heartbeat.stop();
+  });
+
+  await summary.run('Stop clears every exchange timer', async () => {
+    const symbols = { current: ['BTCUSDT', 'SOLUSDT'] };
+    const { heartbeat, calls } = createHeartbeat(symbols);
+    heartbeat.updateConfig({ enabled: true, intervalMs: 60000 });
+    heartbeat.start();
+    await heartbeat.refresh();
+
+    calls.length = 0;
+    await heartbeat.stop();
+    assertEqual(calls.length, 2);
+    assert(calls.every(c => c.countdownMs === 0), 'All timers should be stopped');
+    assertEqual(heartbeat.getArmedSymbols().length, 0);
+  });
+
+  await summary.run('Countdown always outlasts the refresh interval', async () => {
+    const { heartbeat, calls } = createHeartbeat({ current: ['BTCUSDT'] });
+    heartbeat.updateConfig({ enabled: true, intervalMs: 60000, countdownMs: 30000 });
+    heartbeat.start();
+    await heartbeat.refresh();
+
+    assertEqual(calls[0].countdownMs, 120000);
+    log(`  Countdown: ${calls[0].countdownMs / 1000}s`, colors.gray);
+    await heartbeat.stop();
+  });
+
+  await summary.run('Failed disarm is retried on the next heartbeat', async () => {
+    const symbols = { current: ['BTCUSDT'] };
+    let failDisarm = true;
+    const heartbeat = new OrderHeartbeat(
+      () => symbols.current,
+      async (_symbol, countdownMs) => {
+        if (countdownMs === 0 && failDisarm) throw new Error('Network error');
+      }
+    );
+    heartbeat.updateConfig({ enabled: true, intervalMs: 60000 });
+    heartbeat.start();
+    await heartbeat.refresh();
+
+    symbols.current = [];
+    await heartbeat.refresh();
+    assertEqual(heartbeat.getArmedSymbols().length, 1);
+
+    failDisarm = false;
+    await heartbeat.refresh();
+    assertEqual(heartbeat.getArmedSymbols().length, 0);
+
+    await heartbeat.stop();
+  });
+
+  await summary.run('Disabled heartbeat sends nothing', async () => {
+    const { heartbeat, calls } = createHeartbeat({ current: ['BTCUSDT'] });
+    heartbeat.updateConfig({ enabled: false });
+    heartbeat.start();
+    await heartbeat.refresh();
+
+    assertEqual(calls.length, 0);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 ORDER HEARTBEAT TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testHeartbeat();
+
+    logSection('✨ All Order Heartbeat Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,152 @@
+#!/usr/bin/env tsx
+
+import {
+  PersistentOrderTracking,
+  PositionOrders,
+  toTrackingRow,
+  fromTrackingRow
+} from '../../src/lib/bot/orderTracking';
+import { orderTrackingDb, PositionOrderTrackingRow } from '../../src/lib/db/orderTrackingDb';
+import { createTakeProfitLadder } from '../../src/lib/bot/tpLadder';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual
+} from '../utils/test-helpers';
+
+// Keep tracking rows in memory instead of the position_order_tracking table
+function stubDb(initial: PositionOrderTrackingRow[] = []): { rows: Map<string, PositionOrderTrackingRow>; writes: string[] } {
+  const rows = new Map(initial.map(row => [`${row.mode}:${row.position_key}`, row]));
+  const writes: string[] = [];
+
+  orderTrackingDb.getTracking = async (mode) => Array.from(rows.values()).filter(row => row.mode === mode);
+  orderTrackingDb.saveTracking = async (row) => {
+    writes.push(`save ${row.position_key}`);
+    rows.set(`${row.mode}:${row.position_key}`, row);
+  };
+  orderTrackingDb.deleteTracking = async (mode, key) => {
+    writes.push(`delete ${key}`);
+    rows.delete(`${mode}:${key}`);
+  };
+
+  return { rows, writes };
+}
+
+async function testSerialization() {
+  logSection('Testing Tracking Rows');
+  const summary = new TestSummary();
+
+  await summary.run('Round-trip live order IDs and signal', async () => {
+    const orders: PositionOrders = {
+      slOrderId: 101,
+      tpOrderId: 102,
+      signal: { liquidationSide: 'SELL', liquidationPrice: 50000, liquidationQty: 2, liquidationTime: 1000 }
+    };
+    const row = toTrackingRow('live', 'BTCUSDT_LONG_HEDGE', orders);
+    assertEqual(row.symbol, 'BTCUSDT');
+    assertEqual(row.trailing_order_id, null);
+
+    const restored = fromTrackingRow(row);
+    assertEqual(restored.slOrderId, 101);
+    assertEqual(restored.tpOrderId, 102);
+    assertEqual(restored.signal!.liquidationPrice, 50000);
+    assert(!('trailingOrderId' in restored), 'Missing IDs should stay undefined');
+  });
+
+  await summary.run('Round-trip paper levels and ladder progress', async () => {
+    const ladder = createTakeProfitLadder([{ percent: 1, sizePercent: 50 }, { percent: 2, sizePercent: 50 }], 100, true, true);
+    ladder.levels[0].filled = true;
+    const restored = fromTrackingRow(toTrackingRow('paper', 'ETHUSDT_LONG', { slPrice: 99, tpLadder: ladder }));
+
+    assertEqual(restored.slPrice, 99);
+    assertEqual(restored.tpPrice, undefined);
+    assertEqual(restored.tpLadder!.levels[0].filled, true);
+  });
+
+  summary.print();
+}
+
+async function testWriteThrough() {
+  logSection('Testing Write-Through');
+  const summary = new TestSummary();
+
+  await summary.run('No writes before restore', async () => {
+    const { writes } = stubDb();
+    const tracking = new PersistentOrderTracking();
+    tracking.set('BTCUSDT_LONG_HEDGE', { slOrderId: 1 });
+    await tracking.flush();
+    assertEqual(writes.length, 0);
+  });
+
+  await summary.run('Restore only the requested mode', async () => {
+    stubDb([
+      toTrackingRow('live', 'BTCUSDT_LONG_HEDGE', { slOrderId: 1, tpOrderId: 2 }),
+      toTrackingRow('paper', 'BTCUSDT_LONG', { slPrice: 90 })
+    ]);
+    const tracking = new PersistentOrderTracking();
+    const restored = await tracking.restore('live');
+
+    assertEqual(restored, 1);
+    assertEqual(tracking.get('BTCUSDT_LONG_HEDGE')!.tpOrderId, 2);
+    assert(!tracking.has('BTCUSDT_LONG'), 'Paper tracking should not be loaded in live mode');
+  });
+
+  await summary.run('Set and delete write immediately', async () => {
+    const { rows, writes } = stubDb();
+    const tracking = new PersistentOrderTracking();
+    await tracking.restore('live');
+
+    tracking.set('BTCUSDT_LONG_HEDGE', { slOrderId: 1 });
+    tracking.delete('BTCUSDT_LONG_HEDGE');
+    await tracking.flush();
+
+    assertEqual(writes.join(','), 'save BTCUSDT_LONG_HEDGE,delete BTCUSDT_LONG_HEDGE');
+    assertEqual(rows.size, 0);
+  });
+
+  await summary.run('persistChanges writes only entries changed in place', async () => {
+    const { rows, writes } = stubDb();
+    const tracking = new PersistentOrderTracking();
+    await tracking.restore('live');
+
+    tracking.set('BTCUSDT_LONG_HEDGE', { slOrderId: 1 });
+    tracking.set('ETHUSDT_SHORT_HEDGE', { slOrderId: 5 });
+    await tracking.flush();
+    writes.length = 0;
+
+    tracking.get('BTCUSDT_LONG_HEDGE')!.tpOrderId = 2;
+    tracking.persistChanges();
+    tracking.persistChanges();
+    await tracking.flush();
+
+    assertEqual(writes.join(','), 'save BTCUSDT_LONG_HEDGE');
+    assertEqual(rows.get('live:BTCUSDT_LONG_HEDGE')!.tp_order_id, 2);
+    log(`  Writes: ${writes.join(', ')}`, colors.gray);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 ORDER TRACKING PERSISTENCE TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testSerialization();
+    await testWriteThrough();
+
+    logSection('✨ All Order Tracking Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,100 @@
+#!/usr/bin/env tsx
+
+import {
+  buildConfigSnapshot,
+  applyConfigSnapshot,
+  getActivePaperAccount
+} from '../../src/lib/services/paperAccountService';
+import { Config } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual
+} from '../utils/test-helpers';
+
+function createConfig(overrides: Partial<Config['global']> = {}): Config {
+  return {
+    api: { apiKey: 'key', secretKey: 'secret' },
+    symbols: {
+      BTCUSDT: {
+        longVolumeThresholdUSDT: 10000,
+        shortVolumeThresholdUSDT: 10000,
+        leverage: 10,
+        tradeSize: 100,
+        slPercent: 2,
+        tpPercent: 3,
+      },
+    },
+    global: {
+      riskPercent: 1,
+      paperMode: true,
+      paperAccount: 'aggressive',
+      maxOpenPositions: 5,
+      server: { dashboardPassword: 'secret', dashboardPort: 3000 },
+      ...overrides,
+    },
+  } as Config;
+}
+
+async function testConfigSnapshots() {
+  logSection('Testing Paper Account Config Snapshots');
+  const summary = new TestSummary();
+
+  await summary.run('Active account falls back to the default account', async () => {
+    assertEqual(getActivePaperAccount(createConfig()), 'aggressive');
+    assertEqual(getActivePaperAccount(createConfig({ paperAccount: undefined })), 'default');
+  });
+
+  await summary.run('Snapshots keep strategy settings only', async () => {
+    const snapshot = buildConfigSnapshot(createConfig());
+    assertEqual(snapshot.global.riskPercent, 1);
+    assertEqual(snapshot.symbols.BTCUSDT.leverage, 10);
+    assert(!('server' in snapshot.global), 'Server settings are not part of a snapshot');
+    assert(!('paperMode' in snapshot.global), 'Paper mode is not part of a snapshot');
+    assert(!('paperAccount' in snapshot.global), 'Active account is not part of a snapshot');
+    assert(!('api' in snapshot), 'Credentials are not part of a snapshot');
+  });
+
+  await summary.run('Applying a snapshot swaps the strategy and keeps the installation settings', async () => {
+    const snapshot = buildConfigSnapshot(createConfig({ riskPercent: 3, maxOpenPositions: 2 }));
+    snapshot.symbols = { ETHUSDT: { ...snapshot.symbols.BTCUSDT, leverage: 5 } };
+
+    const current = createConfig({ paperMode: false, server: { dashboardPassword: 'other', dashboardPort: 4000 } });
+    const applied = applyConfigSnapshot(current, snapshot);
+
+    assertEqual(applied.global.riskPercent, 3);
+    assertEqual(applied.global.maxOpenPositions, 2);
+    assertEqual(Object.keys(applied.symbols).join(','), 'ETHUSDT');
+    assertEqual(applied.global.paperMode, false);
+    assertEqual(applied.global.server?.dashboardPort, 4000);
+    assertEqual(applied.api.apiKey, 'key');
+    assertEqual(current.global.riskPercent, 1);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 PAPER ACCOUNTS TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testConfigSnapshots();
+
+    logSection('✨ All Paper Accounts Tests Complete');
+    // The config loader and database behind the service keep handles open
+    process.exit(0);
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
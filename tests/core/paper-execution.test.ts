@@ -0,0 +1,147 @@
+#!/usr/bin/env tsx
+
+import {
+  PaperExecutionEngine,
+  PaperFill,
+  getPaperExecutionSettings,
+  getLimitFillFraction,
+  getExitFillPrice,
+  parsePaperExecution,
+  serializePaperExecution,
+  addPaperFill
+} from '../../src/lib/bot/paperExecution';
+import { Config } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const now = Date.UTC(2024, 0, 1, 12, 0, 0);
+const settings = getPaperExecutionSettings(undefined);
+
+function createEngine(): PaperExecutionEngine {
+  const engine = new PaperExecutionEngine();
+  engine.updateConfig({
+    api: { apiKey: '', secretKey: '' },
+    symbols: {},
+    global: { riskPercent: 1, paperMode: true, paperExecution: { limitTouchFillPercent: 50, limitTimeoutSeconds: 60 } },
+  } as Config);
+  return engine;
+}
+
+async function testPricing() {
+  logSection('Testing Paper Fill Pricing');
+  const summary = new TestSummary();
+
+  await summary.run('Defaults follow the optimizer cost model', async () => {
+    assertClose(settings.makerFeeRate, 0.0002, 1e-12);
+    assertClose(settings.takerFeeRate, 0.0004, 1e-12);
+    assertEqual(settings.stopSlippagePercent, 0.5);
+    assertEqual(settings.limitTimeoutMs, 60000);
+  });
+
+  await summary.run('Limit fills nothing, part, then all as the price trades through', async () => {
+    assertEqual(getLimitFillFraction(settings, 'BUY', 100, 100.01), 0);
+    assertEqual(getLimitFillFraction(settings, 'BUY', 100, 100), 0.5);
+    assertEqual(getLimitFillFraction(settings, 'BUY', 100, 99.9), 1);
+    assertEqual(getLimitFillFraction(settings, 'SELL', 100, 100.02), 0.5);
+    assertEqual(getLimitFillFraction(settings, 'SELL', 100, 100.1), 1);
+  });
+
+  await summary.run('Stops fill past a gapped mark price, take profits short of the trigger', async () => {
+    // Long stop at 95 gapped to 94 - fills below 94, not at 95
+    assertClose(getExitFillPrice(settings, { type: 'STOP', isLong: true, triggerPrice: 95, markPrice: 94 }), 94 * 0.995, 1e-9);
+    assertClose(getExitFillPrice(settings, { type: 'STOP', isLong: false, triggerPrice: 105, markPrice: 104 }), 105 * 1.005, 1e-9);
+    assertClose(getExitFillPrice(settings, { type: 'TAKE_PROFIT', isLong: true, triggerPrice: 110, markPrice: 111 }), 110 * 0.999, 1e-9);
+  });
+
+  summary.print();
+}
+
+async function testEngine() {
+  logSection('Testing Paper Execution Engine');
+  const summary = new TestSummary();
+
+  await summary.run('Market entries fill at once with slippage and taker fee', async () => {
+    const engine = createEngine();
+    const fills: PaperFill[] = [];
+    await engine.submitEntry({ symbol: 'BTCUSDT', side: 'BUY', orderType: 'MARKET', quantity: 1, price: 100 }, 100, fill => fills.push(fill), now);
+    assertEqual(fills.length, 1);
+    assertClose(fills[0].price, 100.2, 1e-9);
+    assertClose(fills[0].fee, 100.2 * 0.0004, 1e-9);
+    assert(fills[0].first && fills[0].complete, 'Single complete fill');
+    assert(!engine.hasPendingEntry('BTCUSDT'), 'Nothing left queued');
+  });
+
+  await summary.run('Queued limit fills in parts at the limit as maker', async () => {
+    const engine = createEngine();
+    const fills: PaperFill[] = [];
+    await engine.submitEntry({ symbol: 'BTCUSDT', side: 'BUY', orderType: 'LIMIT', quantity: 2, price: 99 }, 100, fill => fills.push(fill), now);
+    assert(engine.hasPendingEntry('BTCUSDT'), 'Limit above the market rests');
+
+    engine.processPendingOrders(() => 99.5, now + 5000);
+    assertEqual(fills.length, 0);
+
+    engine.processPendingOrders(() => 99, now + 10000);
+    engine.processPendingOrders(() => 98, now + 15000);
+    assertEqual(fills.length, 2);
+    assertClose(fills[0].quantity, 1, 1e-9);
+    assert(fills[0].first && !fills[1].first && fills[1].complete, 'Partial fill then the remainder');
+    assertEqual(fills[1].price, 99);
+    assertEqual(fills[1].liquidity, 'MAKER');
+    assertClose(fills[1].fee, 99 * 1 * 0.0002, 1e-9);
+    assert(!engine.hasPendingEntry('BTCUSDT'), 'Filled order leaves the queue');
+  });
+
+  await summary.run('Marketable limits take, stale limits expire', async () => {
+    const engine = createEngine();
+    const fills: PaperFill[] = [];
+    await engine.submitEntry({ symbol: 'ETHUSDT', side: 'SELL', orderType: 'LIMIT', quantity: 1, price: 99 }, 100, fill => fills.push(fill), now);
+    assertEqual(fills.length, 1);
+    assertEqual(fills[0].liquidity, 'TAKER');
+
+    await engine.submitEntry({ symbol: 'ETHUSDT', side: 'BUY', orderType: 'LIMIT', quantity: 1, price: 90 }, 100, fill => fills.push(fill), now);
+    engine.processPendingOrders(() => 100, now + 61000);
+    assert(!engine.hasPendingEntry('ETHUSDT'), 'Unfilled limit expired');
+    assertEqual(fills.length, 1);
+  });
+
+  await summary.run('Execution record sums fees and keeps other metadata', async () => {
+    const record = parsePaperExecution('{"note":"keep"}');
+    addPaperFill(record, { type: 'ENTRY', price: 100, quantity: 1, fee: 0.04, liquidity: 'TAKER', slippage: 0.2, time: now });
+    addPaperFill(record, { type: 'EXIT', reason: 'SL', price: 95, quantity: 1, fee: 0.038, liquidity: 'TAKER', slippage: 0.5, time: now });
+    const metadata = serializePaperExecution('{"note":"keep"}', record);
+    assertEqual(JSON.parse(metadata).note, 'keep');
+    const parsed = parsePaperExecution(metadata);
+    assertEqual(parsed.fills.length, 2);
+    assertClose(parsed.fees, 0.078, 1e-9);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 PAPER EXECUTION TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testPricing();
+    await testEngine();
+
+    logSection('✨ All Paper Execution Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,345 @@
+#!/usr/bin/env tsx
+
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { PositionManager } from '../../src/lib/bot/positionManager';
+import { symbolPrecision } from '../../src/lib/utils/symbolPrecision';
+import { Config } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose,
+  wait
+} from '../utils/test-helpers';
+
+const SYMBOL = 'BTCUSDT';
+const KEY = 'BTCUSDT_LONG_BOTH';
+const ENTRY = 50000;
+
+// In-memory exchange behind the REST calls the position manager makes
+interface MockExchange {
+  price: number;
+  positionAmt: number;
+  openOrders: any[];
+  filledOrderIds: Set<number>;
+  placed: any[];
+  cancelled: number[];
+  nextOrderId: number;
+}
+
+let exchange: MockExchange;
+
+function resetExchange(positionAmt: number, price: number, openOrders: any[] = []): void {
+  exchange = {
+    price,
+    positionAmt,
+    openOrders,
+    filledOrderIds: new Set(),
+    placed: [],
+    cancelled: [],
+    nextOrderId: 1000,
+  };
+}
+
+function restingOrder(orderId: number, type: string, quantity: number, stopPrice: number, clientOrderId: string): any {
+  return {
+    symbol: SYMBOL,
+    orderId,
+    clientOrderId,
+    price: '0',
+    origQty: String(quantity),
+    executedQty: '0',
+    status: 'NEW',
+    type,
+    side: 'SELL',
+    stopPrice: String(stopPrice),
+    time: Date.now(),
+    updateTime: Date.now(),
+    workingType: 'CONTRACT_PRICE',
+    origType: type,
+    positionSide: 'BOTH',
+    reduceOnly: true,
+  };
+}
+
+function respond(config: InternalAxiosRequestConfig, data: any, status: number = 200): AxiosResponse {
+  const response: AxiosResponse = { data, status, statusText: status === 200 ? 'OK' : 'Bad Request', headers: {}, config, request: {} };
+  if (status !== 200) {
+    throw new AxiosError(data.msg, 'ERR_BAD_REQUEST', config, {}, response);
+  }
+  return response;
+}
+
+// Every REST call - direct axios and the rate-limited instance - lands here
+axios.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+  const url = new URL(config.url!, config.baseURL);
+  const params = config.method === 'post' ? new URLSearchParams(String(config.data)) : url.searchParams;
+  const route = `${config.method!.toUpperCase()} ${url.pathname}`;
+
+  switch (route) {
+    case 'GET /fapi/v1/ticker/price':
+      return respond(config, { symbol: SYMBOL, price: String(exchange.price) });
+    case 'GET /fapi/v1/premiumIndex':
+      return respond(config, { symbol: SYMBOL, markPrice: String(exchange.price) });
+    case 'GET /fapi/v2/positionRisk':
+      return respond(config, [{
+        symbol: SYMBOL,
+        positionAmt: String(exchange.positionAmt),
+        entryPrice: String(ENTRY),
+        markPrice: String(exchange.price),
+        unRealizedProfit: '0',
+        liquidationPrice: '0',
+        leverage: '10',
+        marginType: 'cross',
+        isolatedMargin: '0',
+        isAutoAddMargin: 'false',
+        positionSide: 'BOTH',
+        updateTime: Date.now(),
+      }]);
+    case 'GET /fapi/v1/openOrders':
+      return respond(config, exchange.openOrders.map(order => ({ ...order })));
+    case 'POST /fapi/v1/order': {
+      const orderId = exchange.nextOrderId++;
+      const order = Object.fromEntries(params.entries());
+      exchange.placed.push({ ...order, orderId });
+      if (order.type !== 'MARKET') {
+        exchange.openOrders.push(restingOrder(orderId, order.type, parseFloat(order.quantity), parseFloat(order.stopPrice), order.newClientOrderId));
+      }
+      return respond(config, { orderId, symbol: order.symbol, status: 'NEW' });
+    }
+    case 'DELETE /fapi/v1/order': {
+      const orderId = parseInt(params.get('orderId')!);
+      const index = exchange.openOrders.findIndex(order => order.orderId === orderId);
+      if (index < 0) {
+        return respond(config, { code: -2011, msg: 'Unknown order sent.' }, 400);
+      }
+      exchange.openOrders.splice(index, 1);
+      exchange.cancelled.push(orderId);
+      return respond(config, { orderId, status: 'CANCELED' });
+    }
+    case 'GET /fapi/v1/order': {
+      const orderId = parseInt(params.get('orderId')!);
+      return respond(config, { orderId, status: exchange.filledOrderIds.has(orderId) ? 'FILLED' : 'CANCELED' });
+    }
+    default:
+      throw new Error(`Unexpected request ${route}`);
+  }
+};
+
+function createConfig(): Config {
+  return {
+    api: { apiKey: 'key', secretKey: 'secret' },
+    symbols: {
+      [SYMBOL]: {
+        longVolumeThresholdUSDT: 10000,
+        shortVolumeThresholdUSDT: 10000,
+        tradeSize: 0.2,
+        leverage: 10,
+        tpPercent: 3,
+        slPercent: 2,
+        tpLevels: [
+          { percent: 1, sizePercent: 50 }, // 50500
+          { percent: 2, sizePercent: 50 }, // 51000
+        ],
+      },
+    },
+    global: {
+      riskPercent: 1,
+      paperMode: false,
+    },
+    version: 1,
+  } as Config;
+}
+
+function openOrdersOfType(type: string): any[] {
+  return exchange.openOrders.filter(order => order.type === type);
+}
+
+// Let the fire-and-forget order adjustment started by an ACCOUNT_UPDATE finish
+async function settle(manager: any): Promise<void> {
+  for (let i = 0; i < 100 && manager.orderPlacementLocks.size > 0; i++) {
+    await wait(20);
+  }
+  assertEqual(manager.orderPlacementLocks.size, 0, 'Order adjustment should finish');
+}
+
+function accountUpdate(positionAmt: number): any {
+  return {
+    e: 'ACCOUNT_UPDATE',
+    E: Date.now(),
+    a: {
+      m: 'ORDER',
+      B: [],
+      P: [{ s: SYMBOL, pa: String(positionAmt), ep: String(ENTRY), up: '0', mt: 'cross', iw: '0', ps: 'BOTH' }],
+    },
+  };
+}
+
+function orderUpdate(order: any, status: string, filledQty: number, price: number): any {
+  return {
+    e: 'ORDER_TRADE_UPDATE',
+    E: Date.now(),
+    o: {
+      s: SYMBOL,
+      c: order.clientOrderId,
+      S: 'SELL',
+      o: order.type,
+      q: order.origQty,
+      p: '0',
+      ap: String(price),
+      sp: order.stopPrice,
+      X: status,
+      i: order.orderId,
+      l: String(filledQty),
+      z: String(filledQty),
+      R: true,
+      ps: 'BOTH',
+    },
+  };
+}
+
+// A 0.2 BTC long that the position manager protected with an SL and a two level ladder
+async function createProtectedPosition(): Promise<any> {
+  resetExchange(0.2, 50200);
+  const manager = new PositionManager(createConfig()) as any;
+  await manager.syncWithExchange();
+  manager.previousPositionSizes.set(KEY, 0.2);
+
+  assertEqual(openOrdersOfType('STOP_MARKET').length, 1, 'SL should be placed');
+  assertEqual(openOrdersOfType('TAKE_PROFIT_MARKET').length, 2, 'Both ladder levels should be placed');
+  exchange.placed = [];
+  return manager;
+}
+
+async function testLadderFills() {
+  logSection('Testing TP Ladder Fills');
+  const summary = new TestSummary();
+
+  await summary.run('Partial fill of level 1 re-sizes the SL and the remaining levels', async () => {
+    const manager = await createProtectedPosition();
+    const level1 = manager.positionOrders.get(KEY).tpLadder.levels[0];
+    const level1Order = exchange.openOrders.find(order => order.orderId === level1.orderId);
+
+    level1Order.executedQty = '0.05';
+    level1Order.status = 'PARTIALLY_FILLED';
+    manager.handleOrderUpdate(orderUpdate(level1Order, 'PARTIALLY_FILLED', 0.05, 50500));
+    exchange.positionAmt = 0.15;
+    manager.handleAccountUpdate(accountUpdate(0.15));
+    await settle(manager);
+
+    const slOrders = openOrdersOfType('STOP_MARKET');
+    assertEqual(slOrders.length, 1, 'One SL should rest');
+    assertEqual(parseFloat(slOrders[0].origQty), 0.15, 'SL covers the remaining size');
+    assertClose(parseFloat(slOrders[0].stopPrice), 49000, 0.01, 'SL stays at the original stop');
+
+    const tpOrders = openOrdersOfType('TAKE_PROFIT_MARKET');
+    assertEqual(tpOrders.map(order => `${order.stopPrice}:${order.origQty}`).sort().join(','), '50500:0.075,51000:0.075');
+
+    const ladder = manager.positionOrders.get(KEY).tpLadder;
+    assert(ladder.levels.every((level: any) => !level.filled), 'No level is complete');
+    assert(!ladder.breakevenActive, 'SL should not move to breakeven');
+    assertEqual(ladder.levels.map((level: any) => level.orderId).sort().join(','), tpOrders.map(order => order.orderId).sort().join(','));
+  });
+
+  await summary.run('Stop loss moves to breakeven after level 1 fills', async () => {
+    const manager = await createProtectedPosition();
+    const [level1, level2] = manager.positionOrders.get(KEY).tpLadder.levels;
+    const level1Order = exchange.openOrders.find(order => order.orderId === level1.orderId);
+    const level2OrderId = level2.orderId;
+    const originalSlOrderId = manager.positionOrders.get(KEY).slOrderId;
+
+    exchange.price = 50600;
+    exchange.openOrders = exchange.openOrders.filter(order => order !== level1Order);
+    exchange.filledOrderIds.add(level1Order.orderId);
+    manager.handleOrderUpdate(orderUpdate(level1Order, 'FILLED', 0.1, 50500));
+
+    const ladder = manager.positionOrders.get(KEY)?.tpLadder;
+    assert(ladder, 'A level 1 fill keeps the position tracked');
+    assert(ladder.levels[0].filled && ladder.breakevenActive, 'Level 1 is filled and breakeven is armed');
+    assertEqual(exchange.cancelled.length, 0, 'Nothing is cancelled before the position shrinks');
+
+    exchange.positionAmt = 0.1;
+    manager.handleAccountUpdate(accountUpdate(0.1));
+    await settle(manager);
+
+    const slOrders = openOrdersOfType('STOP_MARKET');
+    assertEqual(slOrders.length, 1, 'One SL should rest');
+    assert(exchange.cancelled.includes(originalSlOrderId), 'The original SL is cancelled');
+    assertClose(parseFloat(slOrders[0].stopPrice), ENTRY, 0.01, 'SL sits at the entry price');
+    assertEqual(parseFloat(slOrders[0].origQty), 0.1, 'SL covers the remaining size');
+    assert(slOrders[0].clientOrderId.startsWith('al_be_'), 'SL is placed as a breakeven stop');
+
+    const tpOrders = openOrdersOfType('TAKE_PROFIT_MARKET');
+    assertEqual(tpOrders.map(order => order.orderId).join(','), String(level2OrderId), 'Level 2 keeps its resting order');
+    assertEqual(exchange.placed.filter(order => order.type === 'TAKE_PROFIT_MARKET').length, 0, 'No TP order is re-placed');
+    log(`  Breakeven SL ${slOrders[0].orderId} at ${slOrders[0].stopPrice}`, colors.gray);
+  });
+
+  summary.print();
+}
+
+async function testLadderAdoption() {
+  logSection('Testing TP Ladder Adoption After Restart');
+  const summary = new TestSummary();
+
+  await summary.run('Adopt resting ladder orders without placing duplicates', async () => {
+    // Level 1 filled before the restart - the breakeven SL and level 2 are still resting
+    resetExchange(0.1, 50600, [
+      restingOrder(901, 'STOP_MARKET', 0.1, ENTRY, 'al_be_BTCUSDT_1'),
+      restingOrder(902, 'TAKE_PROFIT_MARKET', 0.1, 51000, 'al_tp_BTCUSDT_L2_1'),
+    ]);
+    const manager = new PositionManager(createConfig()) as any;
+    await manager.syncWithExchange();
+
+    const orders = manager.positionOrders.get(KEY);
+    assertEqual(orders.slOrderId, 901, 'Resting SL is adopted');
+    assert(orders.tpLadder.levels[0].filled, 'Level 1 is inferred as filled');
+    assertEqual(orders.tpLadder.levels[1].orderId, 902, 'Level 2 is adopted');
+    assert(orders.tpLadder.breakevenActive, 'Breakeven stays armed');
+
+    // A later sync and the periodic check leave the adopted orders alone
+    await manager.syncWithExchange();
+    await manager.checkAndAdjustOrders();
+
+    assertEqual(exchange.placed.length, 0, 'No order is placed');
+    assertEqual(exchange.cancelled.length, 0, 'No order is cancelled');
+    assertEqual(exchange.openOrders.map(order => order.orderId).join(','), '901,902');
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 POSITION MANAGER TP LADDER TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  symbolPrecision.parseExchangeInfo({
+    symbols: [{
+      symbol: SYMBOL,
+      filters: [
+        { filterType: 'PRICE_FILTER', tickSize: '0.1' },
+        { filterType: 'LOT_SIZE', stepSize: '0.001', minQty: '0.001' },
+      ],
+    }],
+  });
+
+  try {
+    await testLadderFills();
+    await testLadderAdoption();
+
+    logSection('✨ All Position Manager TP Ladder Tests Complete');
+    process.exit(0);
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,154 @@
+#!/usr/bin/env tsx
+
+import { calculateRiskBasedSize, getFixedTradeMargin } from '../../src/lib/bot/positionSizing';
+import { SymbolConfig } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const filters = {
+  minQty: 0.001,
+  maxQty: 1000,
+  stepSize: '0.001',
+  minNotional: 5
+};
+
+async function testRiskBasedSizing() {
+  logSection('Testing Risk-Based Sizing');
+  const summary = new TestSummary();
+
+  await summary.run('Stop-out loses configured percent of balance', async () => {
+    // 10,000 USDT at 1% risk with a 2% stop -> 5,000 USDT notional
+    const size = calculateRiskBasedSize({
+      balance: 10000,
+      riskPercent: 1,
+      slPercent: 2,
+      leverage: 10,
+      price: 50000,
+      filters
+    });
+
+    assert(!size.error, `Unexpected error: ${size.error}`);
+    assertClose(size.quantity, 0.1, 1e-9);
+    assertClose(size.notionalUSDT, 5000, 1e-6);
+    assertClose(size.marginUSDT, 500, 1e-6);
+    assertClose(size.riskUSDT, 100, 1e-6);
+    assertEqual(size.cappedByMargin, false);
+  });
+
+  await summary.run('Quantity rounds down to step size', async () => {
+    const size = calculateRiskBasedSize({
+      balance: 1234,
+      riskPercent: 1,
+      slPercent: 1.5,
+      leverage: 5,
+      price: 3000,
+      filters
+    });
+
+    // 12.34 / 0.015 = 822.67 notional -> 0.27422 -> 0.274
+    assertClose(size.quantity, 0.274, 1e-9);
+    assert(size.riskUSDT <= 12.34, 'Rounded size must not exceed the risk budget');
+  });
+
+  await summary.run('Respect maxPositionMarginUSDT headroom', async () => {
+    const size = calculateRiskBasedSize({
+      balance: 10000,
+      riskPercent: 1,
+      slPercent: 2,
+      leverage: 10,
+      price: 50000,
+      maxPositionMarginUSDT: 300,
+      currentMarginUSDT: 100,
+      filters
+    });
+
+    assertEqual(size.cappedByMargin, true);
+    assertClose(size.marginUSDT, 200, 1e-6);
+    log(`  Capped margin: ${size.marginUSDT.toFixed(2)} USDT`, colors.gray);
+  });
+
+  await summary.run('Reject when margin cap is already used', async () => {
+    const size = calculateRiskBasedSize({
+      balance: 10000,
+      riskPercent: 1,
+      slPercent: 2,
+      leverage: 10,
+      price: 50000,
+      maxPositionMarginUSDT: 300,
+      currentMarginUSDT: 300,
+      filters
+    });
+
+    assert(!!size.error, 'Should return an error');
+    assertEqual(size.quantity, 0);
+  });
+
+  await summary.run('Reject sizes below exchange minimums', async () => {
+    const size = calculateRiskBasedSize({
+      balance: 10,
+      riskPercent: 0.1,
+      slPercent: 5,
+      leverage: 10,
+      price: 50000,
+      filters
+    });
+
+    assert(!!size.error, 'Tiny accounts should not round up past the risk budget');
+  });
+
+  await summary.run('Reject invalid inputs', async () => {
+    assert(!!calculateRiskBasedSize({ balance: 0, riskPercent: 1, slPercent: 2, leverage: 10, price: 100 }).error, 'Zero balance');
+    assert(!!calculateRiskBasedSize({ balance: 100, riskPercent: 1, slPercent: 0, leverage: 10, price: 100 }).error, 'Zero stop loss');
+  });
+
+  summary.print();
+}
+
+async function testFixedSizing() {
+  logSection('Testing Fixed Sizing');
+  const summary = new TestSummary();
+
+  await summary.run('Use direction-specific trade sizes', async () => {
+    const config: SymbolConfig = {
+      volumeThresholdUSDT: 1000,
+      tradeSize: 20,
+      longTradeSize: 30,
+      leverage: 10,
+      tpPercent: 2,
+      slPercent: 1
+    };
+
+    assertEqual(getFixedTradeMargin(config, 'BUY'), 30);
+    assertEqual(getFixedTradeMargin(config, 'SELL'), 20);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 POSITION SIZING TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testRiskBasedSizing();
+    await testFixedSizing();
+
+    logSection('✨ All Position Sizing Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,197 @@
+#!/usr/bin/env tsx
+
+import { RiskGuard } from '../../src/lib/services/riskGuard';
+import { riskGuardDb, RiskGuardMode } from '../../src/lib/db/riskGuardDb';
+import { Config } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual
+} from '../utils/test-helpers';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 15, 12, 0, 0);
+
+// Keep the persisted state in memory instead of the database
+const savedStates = new Map<RiskGuardMode, string>();
+riskGuardDb.saveState = async (mode: RiskGuardMode, state: string) => {
+  savedStates.set(mode, state);
+};
+riskGuardDb.getState = async (mode: RiskGuardMode) => {
+  const state = savedStates.get(mode);
+  return state ? { mode, state, updated_at: START } : undefined;
+};
+
+function createGuard(riskLimits: NonNullable<Config['global']['riskLimits']>): RiskGuard {
+  const guard = new RiskGuard();
+  guard.reset(START);
+  guard.updateConfig({
+    api: { apiKey: '', secretKey: '' },
+    symbols: {},
+    global: { riskPercent: 1, paperMode: true, riskLimits }
+  });
+  return guard;
+}
+
+async function testLimits() {
+  logSection('Testing Risk Limits');
+  const summary = new TestSummary();
+
+  await summary.run('Pause after daily realized loss limit', async () => {
+    const guard = createGuard({ enabled: true, maxDailyLossUSDT: 100 });
+    let pausedEvent: any = null;
+    guard.on('tradingPaused', (event) => { pausedEvent = event; });
+
+    guard.recordTradeResult(-60, START);
+    assert(!guard.isTradingPaused(START), 'Should not pause before limit');
+
+    guard.recordTradeResult(-50, START + 1000);
+    assert(guard.isTradingPaused(START + 1000), 'Should pause once limit is reached');
+    assertEqual(pausedEvent?.state.source, 'DAILY_LOSS');
+    assertEqual(pausedEvent?.flatten, false);
+  });
+
+  await summary.run('Pause after consecutive losses', async () => {
+    const guard = createGuard({ enabled: true, maxConsecutiveLosses: 3 });
+
+    guard.recordTradeResult(-1, START);
+    guard.recordTradeResult(-1, START);
+    guard.recordTradeResult(5, START);    // Win resets the streak
+    guard.recordTradeResult(-1, START);
+    guard.recordTradeResult(-1, START);
+    assert(!guard.isTradingPaused(START), 'Streak was broken by a win');
+
+    guard.recordTradeResult(-1, START);
+    assert(guard.isTradingPaused(START), 'Third loss in a row should pause');
+    assertEqual(guard.getState().source, 'CONSECUTIVE_LOSSES');
+  });
+
+  await summary.run('Pause on drawdown from peak equity and request flatten', async () => {
+    const guard = createGuard({ enabled: true, maxDrawdownPercent: 10, flattenOnBreach: true });
+    let flatten = false;
+    guard.on('tradingPaused', (event) => { flatten = event.flatten; });
+
+    guard.updateEquity(1000, START);
+    guard.updateEquity(1200, START);
+    guard.updateEquity(1100, START);
+    assert(!guard.isTradingPaused(START), '8.3% drawdown is below limit');
+
+    guard.updateEquity(1080, START);
+    assert(guard.isTradingPaused(START), '10% drawdown should pause');
+    assertEqual(flatten, true);
+    log(`  Drawdown: ${guard.getState().drawdownPercent.toFixed(2)}%`, colors.gray);
+  });
+
+  await summary.run('Limits are ignored when disabled', async () => {
+    const guard = createGuard({ enabled: false, maxDailyLossUSDT: 10 });
+    guard.recordTradeResult(-500, START);
+    assert(!guard.isTradingPaused(START), 'Disabled guard should never pause');
+  });
+
+  summary.print();
+}
+
+async function testResume() {
+  logSection('Testing Resume Behaviour');
+  const summary = new TestSummary();
+
+  await summary.run('Automatic pause lifts at next UTC day', async () => {
+    const guard = createGuard({ enabled: true, maxDailyLossUSDT: 50 });
+    let resumed = false;
+    guard.on('tradingResumed', () => { resumed = true; });
+
+    guard.recordTradeResult(-80, START);
+    assert(guard.isTradingPaused(START), 'Should be paused');
+    assertEqual(guard.getState().resumeAt, Date.UTC(2025, 0, 16));
+
+    assert(guard.isTradingPaused(START + 11 * 60 * 60 * 1000), 'Still paused before midnight');
+    assert(!guard.isTradingPaused(START + DAY), 'Should resume on the next UTC day');
+    assert(resumed, 'Resume event should fire');
+    assertEqual(guard.getState().dailyRealizedPnl, 0);
+  });
+
+  await summary.run('Manual pause survives day rollover', async () => {
+    const guard = createGuard({ enabled: true });
+    guard.pause('Testing', START);
+    assert(guard.isTradingPaused(START + DAY), 'Manual pause should not auto-resume');
+
+    guard.resume();
+    assert(!guard.isTradingPaused(START + DAY), 'Manual resume should lift the pause');
+  });
+
+  await summary.run('Manual resume resets drawdown peak', async () => {
+    const guard = createGuard({ enabled: true, maxDrawdownPercent: 5 });
+    guard.updateEquity(1000, START);
+    guard.updateEquity(900, START);
+    assert(guard.isTradingPaused(START), 'Should be paused on drawdown');
+
+    guard.resume();
+    guard.updateEquity(890, START);
+    assert(!guard.isTradingPaused(START), 'Drawdown is measured from equity at resume');
+  });
+
+  summary.print();
+}
+
+async function testRestore() {
+  logSection('Testing Restore After Restart');
+  const summary = new TestSummary();
+
+  await summary.run('Daily loss pause survives a restart on the same day', async () => {
+    savedStates.clear();
+    const guard = createGuard({ enabled: true, maxDailyLossUSDT: 50 });
+    await guard.restore('live', START);
+    guard.recordTradeResult(-80, START);
+    assert(guard.isTradingPaused(START), 'Should be paused');
+
+    const restarted = createGuard({ enabled: true, maxDailyLossUSDT: 50 });
+    await restarted.restore('live', START + 60 * 60 * 1000);
+    assert(restarted.isTradingPaused(START + 60 * 60 * 1000), 'Pause should be restored');
+    assertEqual(restarted.getState().source, 'DAILY_LOSS');
+    assertEqual(restarted.getState().dailyRealizedPnl, -80);
+
+    const otherMode = createGuard({ enabled: true, maxDailyLossUSDT: 50 });
+    await otherMode.restore('paper', START);
+    assert(!otherMode.isTradingPaused(START), 'Paper trading keeps its own state');
+  });
+
+  await summary.run('Automatic pause from an earlier day lifts on restore', async () => {
+    savedStates.clear();
+    const guard = createGuard({ enabled: true, maxDailyLossUSDT: 50 });
+    await guard.restore('live', START);
+    guard.recordTradeResult(-80, START);
+
+    const restarted = createGuard({ enabled: true, maxDailyLossUSDT: 50 });
+    await restarted.restore('live', START + DAY);
+    assert(!restarted.isTradingPaused(START + DAY), 'Should resume on the next UTC day');
+    assertEqual(restarted.getState().dailyRealizedPnl, 0);
+    assertEqual(JSON.parse(savedStates.get('live')!).paused, false, 'The lifted pause is persisted');
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 RISK GUARD TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testLimits();
+    await testResume();
+    await testRestore();
+
+    logSection('✨ All Risk Guard Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
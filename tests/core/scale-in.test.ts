@@ -0,0 +1,163 @@
+#!/usr/bin/env tsx
+
+import {
+  getScaleInSettings,
+  getScaleInMultiplier,
+  getAdverseDistancePercent,
+  evaluateScaleIn,
+  calculateAverageEntry
+} from '../../src/lib/bot/scaleIn';
+import { SymbolConfig } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const baseConfig: SymbolConfig = {
+  volumeThresholdUSDT: 1000,
+  tradeSize: 20,
+  leverage: 10,
+  tpPercent: 2,
+  slPercent: 1
+};
+
+const scaleInConfig: SymbolConfig = {
+  ...baseConfig,
+  scaleInEnabled: true,
+  scaleInMaxAdds: 3,
+  scaleInMinDistancePercent: 1.5,
+  scaleInSizeMultipliers: [1, 2]
+};
+
+async function testSettings() {
+  logSection('Testing Scale-In Settings');
+  const summary = new TestSummary();
+
+  await summary.run('Disabled by default', async () => {
+    assertEqual(getScaleInSettings(baseConfig), null);
+  });
+
+  await summary.run('Defaults when enabled', async () => {
+    const settings = getScaleInSettings({ ...baseConfig, scaleInEnabled: true })!;
+    assertEqual(settings.maxAdds, 2);
+    assertEqual(settings.minDistancePercent, 1);
+    assertEqual(settings.sizeMultipliers.join(','), '1');
+  });
+
+  await summary.run('Last multiplier repeats for later adds', async () => {
+    const settings = getScaleInSettings(scaleInConfig)!;
+    assertEqual(getScaleInMultiplier(settings, 1), 1);
+    assertEqual(getScaleInMultiplier(settings, 2), 2);
+    assertEqual(getScaleInMultiplier(settings, 3), 2);
+  });
+
+  summary.print();
+}
+
+async function testEvaluation() {
+  logSection('Testing Scale-In Evaluation');
+  const summary = new TestSummary();
+  const settings = getScaleInSettings(scaleInConfig)!;
+  const base = {
+    settings,
+    isLong: true,
+    averageEntry: 100,
+    price: 98,
+    addsSoFar: 0,
+    baseMarginUSDT: 20,
+    currentMarginUSDT: 20
+  };
+
+  await summary.run('Adverse distance for longs and shorts', async () => {
+    assertClose(getAdverseDistancePercent(100, 98, true), 2, 1e-9);
+    assertClose(getAdverseDistancePercent(100, 102, false), 2, 1e-9);
+    assert(getAdverseDistancePercent(100, 102, true) < 0, 'Profit is not an adverse move');
+  });
+
+  await summary.run('Allow an add past the minimum distance', async () => {
+    const decision = evaluateScaleIn(base);
+    assert(decision.allowed, 'Add should be allowed');
+    assertEqual(decision.addNumber, 1);
+    assertEqual(decision.marginUSDT, 20);
+  });
+
+  await summary.run('Block an add too close to the average entry', async () => {
+    const decision = evaluateScaleIn({ ...base, price: 99 });
+    assertEqual(decision.allowed, false);
+    log(`  Reason: ${decision.reason}`, colors.gray);
+  });
+
+  await summary.run('Block an add in profit', async () => {
+    const decision = evaluateScaleIn({ ...base, isLong: false, price: 98 });
+    assertEqual(decision.allowed, false);
+  });
+
+  await summary.run('Block after the max number of adds', async () => {
+    const decision = evaluateScaleIn({ ...base, addsSoFar: 3 });
+    assertEqual(decision.allowed, false);
+    assert(decision.reason!.includes('Max scale-in adds'), 'Reason should mention the add limit');
+  });
+
+  await summary.run('Apply the size multiplier of the add', async () => {
+    const decision = evaluateScaleIn({ ...base, addsSoFar: 1 });
+    assertEqual(decision.addNumber, 2);
+    assertEqual(decision.marginUSDT, 40);
+  });
+
+  await summary.run('Cap the add to the remaining position margin', async () => {
+    const decision = evaluateScaleIn({ ...base, addsSoFar: 1, currentMarginUSDT: 50, maxPositionMarginUSDT: 75 });
+    assert(decision.allowed, 'Add should be allowed with a smaller size');
+    assertEqual(decision.marginUSDT, 25);
+    assertEqual(decision.cappedByMargin, true);
+  });
+
+  await summary.run('Block when the position margin is already at max', async () => {
+    const decision = evaluateScaleIn({ ...base, currentMarginUSDT: 75, maxPositionMarginUSDT: 75 });
+    assertEqual(decision.allowed, false);
+  });
+
+  summary.print();
+}
+
+async function testAverageEntry() {
+  logSection('Testing Average Entry');
+  const summary = new TestSummary();
+
+  await summary.run('Weight the entry by quantity', async () => {
+    assertClose(calculateAverageEntry(1, 100, 1, 98), 99, 1e-9);
+    assertClose(calculateAverageEntry(1, 100, 2, 97), 98, 1e-9);
+  });
+
+  await summary.run('Keep the entry without quantity', async () => {
+    assertEqual(calculateAverageEntry(0, 100, 0, 98), 100);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 SCALE-IN TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testSettings();
+    await testEvaluation();
+    await testAverageEntry();
+
+    logSection('✨ All Scale-In Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
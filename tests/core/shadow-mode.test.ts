@@ -0,0 +1,108 @@
+#!/usr/bin/env tsx
+
+import { buildShadowConfig } from '../../src/lib/bot/shadowMode';
+import { Config } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual
+} from '../utils/test-helpers';
+
+function createConfig(): Config {
+  return {
+    api: { apiKey: 'key', secretKey: 'secret' },
+    symbols: {
+      BTCUSDT: {
+        longVolumeThresholdUSDT: 10000,
+        shortVolumeThresholdUSDT: 10000,
+        leverage: 10,
+        tradeSize: 100,
+        slPercent: 2,
+        tpPercent: 3,
+      },
+      ETHUSDT: {
+        longVolumeThresholdUSDT: 5000,
+        shortVolumeThresholdUSDT: 5000,
+        leverage: 5,
+        tradeSize: 50,
+        slPercent: 2,
+        tpPercent: 3,
+      },
+    },
+    global: {
+      riskPercent: 1,
+      paperMode: false,
+      maxOpenPositions: 5,
+      riskLimits: { enabled: true, maxDailyLossUSDT: 100 },
+      shadowMode: {
+        enabled: true,
+        global: { riskPercent: 2, maxOpenPositions: 3 },
+        symbols: {
+          BTCUSDT: { slPercent: 1, tpPercent: 4 },
+          SOLUSDT: { leverage: 20 },
+        },
+      },
+    },
+  } as Config;
+}
+
+async function testBuildShadowConfig() {
+  logSection('Testing Shadow Config Overlay');
+  const summary = new TestSummary();
+
+  await summary.run('Shadow always paper trades', async () => {
+    const shadow = buildShadowConfig(createConfig());
+    assertEqual(shadow.global.paperMode, true);
+  });
+
+  await summary.run('Symbol overrides layer over the live symbol config', async () => {
+    const shadow = buildShadowConfig(createConfig());
+    assertEqual(shadow.symbols.BTCUSDT.slPercent, 1);
+    assertEqual(shadow.symbols.BTCUSDT.tpPercent, 4);
+    assertEqual(shadow.symbols.BTCUSDT.leverage, 10);
+    assertEqual(shadow.symbols.ETHUSDT.slPercent, 2);
+  });
+
+  await summary.run('Overrides for symbols the live bot does not trade are ignored', async () => {
+    const shadow = buildShadowConfig(createConfig());
+    assert(!shadow.symbols.SOLUSDT, 'SOLUSDT should not be added');
+  });
+
+  await summary.run('Global overrides apply and live-only features are dropped', async () => {
+    const config = createConfig();
+    const shadow = buildShadowConfig(config);
+    assertEqual(shadow.global.riskPercent, 2);
+    assertEqual(shadow.global.maxOpenPositions, 3);
+    assertEqual(shadow.global.riskLimits, undefined);
+    assertEqual(shadow.global.shadowMode, undefined);
+    assertEqual(config.global.riskPercent, 1);
+    assertEqual(config.symbols.BTCUSDT.slPercent, 2);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 SHADOW MODE TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testBuildShadowConfig();
+
+    logSection('✨ All Shadow Mode Tests Complete');
+    // Hunter and PositionManager keep the database and API timers open
+    process.exit(0);
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,150 @@
+#!/usr/bin/env tsx
+
+import { getSignalStrategy, listSignalStrategies, getTradeSide, getTriggerLiquidationSide, DEFAULT_SIGNAL_STRATEGY } from '../../src/lib/bot/signalStrategy';
+import { LiquidationEvent, SymbolConfig } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const symbolConfig: SymbolConfig = {
+  volumeThresholdUSDT: 10000,
+  tradeSize: 100,
+  leverage: 10,
+  tpPercent: 2,
+  slPercent: 1
+};
+
+function liquidation(side: 'BUY' | 'SELL', price: number, qty: number = 1): LiquidationEvent {
+  const now = Date.now();
+  return {
+    symbol: 'BTCUSDT',
+    side,
+    orderType: 'LIMIT',
+    quantity: qty,
+    price,
+    averagePrice: price,
+    orderStatus: 'FILLED',
+    orderLastFilledQuantity: qty,
+    orderFilledAccumulatedQuantity: qty,
+    orderTradeTime: now,
+    eventTime: now,
+    qty,
+    time: now
+  };
+}
+
+async function testStrategyRegistry() {
+  logSection('Testing Strategy Registry');
+  const summary = new TestSummary();
+
+  await summary.run('Resolve strategies by name', async () => {
+    assertEqual(getSignalStrategy('contrarian').name, 'contrarian');
+    assertEqual(getSignalStrategy('momentum').name, 'momentum');
+  });
+
+  await summary.run('Fall back to default strategy', async () => {
+    assertEqual(getSignalStrategy().name, DEFAULT_SIGNAL_STRATEGY);
+    assertEqual(getSignalStrategy('unknown').name, DEFAULT_SIGNAL_STRATEGY);
+  });
+
+  await summary.run('List available strategies', async () => {
+    const names = listSignalStrategies().map(s => s.name);
+    assert(names.includes('contrarian') && names.includes('momentum'), 'Both strategies should be listed');
+    log(`  Strategies: ${names.join(', ')}`, colors.gray);
+  });
+
+  await summary.run('Map liquidation sides to trade sides', async () => {
+    const contrarian = getSignalStrategy('contrarian');
+    const momentum = getSignalStrategy('momentum');
+    assertEqual(getTradeSide(contrarian, 'SELL'), 'BUY');
+    assertEqual(getTradeSide(momentum, 'SELL'), 'SELL');
+    assertEqual(getTriggerLiquidationSide(contrarian, 'BUY'), 'SELL');
+    assertEqual(getTriggerLiquidationSide(momentum, 'BUY'), 'BUY');
+  });
+
+  summary.print();
+}
+
+async function testContrarianStrategy() {
+  logSection('Testing Contrarian Strategy');
+  const summary = new TestSummary();
+  const strategy = getSignalStrategy('contrarian');
+
+  await summary.run('BUY on SELL liquidation below mark', async () => {
+    const decision = strategy.evaluate(liquidation('SELL', 49750), { markPrice: 50000, volumeUSDT: 49750 }, symbolConfig);
+    assertEqual(decision.side, 'BUY');
+    assertClose(decision.priceImpact, 0.5, 0.0001);
+    assert(decision.reasons.length > 0, 'Decision should include a reason');
+  });
+
+  await summary.run('SELL on BUY liquidation above mark', async () => {
+    const decision = strategy.evaluate(liquidation('BUY', 50250), { markPrice: 50000, volumeUSDT: 50250 }, symbolConfig);
+    assertEqual(decision.side, 'SELL');
+    assertClose(decision.priceImpact, 0.5, 0.0001);
+  });
+
+  await summary.run('No trade when SELL liquidation is far above mark', async () => {
+    const decision = strategy.evaluate(liquidation('SELL', 51000), { markPrice: 50000, volumeUSDT: 51000 }, symbolConfig);
+    assertEqual(decision.side, null);
+  });
+
+  await summary.run('Confidence scales with volume and caps at 95', async () => {
+    const small = strategy.evaluate(liquidation('SELL', 50000), { markPrice: 50000, volumeUSDT: 1000 }, symbolConfig);
+    const large = strategy.evaluate(liquidation('SELL', 50000), { markPrice: 50000, volumeUSDT: 1000000 }, symbolConfig);
+    assertClose(small.confidence, 60, 0.0001);
+    assertEqual(large.confidence, 95);
+  });
+
+  summary.print();
+}
+
+async function testMomentumStrategy() {
+  logSection('Testing Momentum Strategy');
+  const summary = new TestSummary();
+  const strategy = getSignalStrategy('momentum');
+
+  await summary.run('SELL on SELL liquidation', async () => {
+    const decision = strategy.evaluate(liquidation('SELL', 49900), { markPrice: 50000, volumeUSDT: 49900 }, symbolConfig);
+    assertEqual(decision.side, 'SELL');
+  });
+
+  await summary.run('BUY on BUY liquidation', async () => {
+    const decision = strategy.evaluate(liquidation('BUY', 50100), { markPrice: 50000, volumeUSDT: 50100 }, symbolConfig);
+    assertEqual(decision.side, 'BUY');
+  });
+
+  await summary.run('No trade once mark has run past the liquidation', async () => {
+    const decision = strategy.evaluate(liquidation('BUY', 49000), { markPrice: 50000, volumeUSDT: 49000 }, symbolConfig);
+    assertEqual(decision.side, null);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 SIGNAL STRATEGY TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testStrategyRegistry();
+    await testContrarianStrategy();
+    await testMomentumStrategy();
+
+    logSection('✨ All Signal Strategy Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,169 @@
+#!/usr/bin/env tsx
+
+import {
+  getTakeProfitLadder,
+  createTakeProfitLadder,
+  repriceTakeProfitLadder,
+  getRemainingLevels,
+  markLevelFilled,
+  allocateLadderQuantities
+} from '../../src/lib/bot/tpLadder';
+import { SymbolConfig } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const baseConfig: SymbolConfig = {
+  volumeThresholdUSDT: 1000,
+  tradeSize: 20,
+  leverage: 10,
+  tpPercent: 2,
+  slPercent: 1
+};
+
+const ladderConfig: SymbolConfig = {
+  ...baseConfig,
+  tpLevels: [
+    { percent: 4, sizePercent: 20 },
+    { percent: 1, sizePercent: 40 },
+    { percent: 2, sizePercent: 40 }
+  ]
+};
+
+async function testLadderSettings() {
+  logSection('Testing TP Ladder Settings');
+  const summary = new TestSummary();
+
+  await summary.run('No ladder without levels', async () => {
+    assertEqual(getTakeProfitLadder(baseConfig), null);
+    assertEqual(getTakeProfitLadder({ ...baseConfig, tpLevels: [] }), null);
+  });
+
+  await summary.run('Sort levels by distance from entry', async () => {
+    const levels = getTakeProfitLadder(ladderConfig)!;
+    assertEqual(levels.map(l => l.percent).join(','), '1,2,4');
+    assertEqual(levels.map(l => l.sizePercent).join(','), '40,40,20');
+  });
+
+  await summary.run('Last level takes the rest of the position', async () => {
+    const levels = getTakeProfitLadder({
+      ...baseConfig,
+      tpLevels: [{ percent: 1, sizePercent: 30 }, { percent: 3, sizePercent: 10 }]
+    })!;
+    assertEqual(levels[1].sizePercent, 70);
+  });
+
+  await summary.run('Drop levels beyond 100% of the position', async () => {
+    const levels = getTakeProfitLadder({
+      ...baseConfig,
+      tpLevels: [{ percent: 1, sizePercent: 60 }, { percent: 2, sizePercent: 60 }, { percent: 3, sizePercent: 10 }]
+    })!;
+    assertEqual(levels.length, 2);
+    assertEqual(levels[1].sizePercent, 40);
+  });
+
+  await summary.run('Trailing stop replacing the TP disables the ladder', async () => {
+    assertEqual(getTakeProfitLadder({ ...ladderConfig, trailingStopEnabled: true }), null);
+    assert(getTakeProfitLadder({ ...ladderConfig, trailingStopEnabled: true, trailingStopMode: 'WITH_TP' }) !== null,
+      'Ladder should stay active alongside a trailing stop');
+  });
+
+  summary.print();
+}
+
+async function testAllocation() {
+  logSection('Testing TP Ladder Quantity Allocation');
+  const summary = new TestSummary();
+
+  await summary.run('Split by size percentages', async () => {
+    const quantities = allocateLadderQuantities(1, [40, 40, 20], 0.001);
+    assertEqual(quantities.join(','), '0.4,0.4,0.2');
+  });
+
+  await summary.run('Round down to step size, last level takes the remainder', async () => {
+    const quantities = allocateLadderQuantities(0.007, [40, 40, 20], 0.001);
+    assertEqual(quantities.join(','), '0.002,0.002,0.003');
+    assertClose(quantities.reduce((a, b) => a + b, 0), 0.007, 1e-12);
+  });
+
+  await summary.run('Roll levels below the minimum quantity into the next one', async () => {
+    const quantities = allocateLadderQuantities(0.01, [40, 40, 20], 0.001, 0.005);
+    assertEqual(quantities[0], 0);
+    assertEqual(quantities[1], 0.008);
+    assertEqual(quantities[2], 0.002);
+  });
+
+  await summary.run('Remaining levels keep their share of the original size', async () => {
+    // 40% level filled on a 1.0 position -> 0.6 left for the 40% / 20% levels
+    const quantities = allocateLadderQuantities(0.6, [40, 20], 0.001);
+    assertEqual(quantities.join(','), '0.4,0.2');
+  });
+
+  summary.print();
+}
+
+async function testLadderState() {
+  logSection('Testing TP Ladder State');
+  const summary = new TestSummary();
+  const levels = getTakeProfitLadder(ladderConfig)!;
+
+  await summary.run('Level prices for longs and shorts', async () => {
+    const long = createTakeProfitLadder(levels, 100, true, true);
+    assertClose(long.levels[0].price, 101, 1e-9);
+    assertClose(long.levels[2].price, 104, 1e-9);
+
+    const short = createTakeProfitLadder(levels, 100, false, true);
+    assertClose(short.levels[1].price, 98, 1e-9);
+  });
+
+  await summary.run('Breakeven only after the first fill', async () => {
+    const ladder = createTakeProfitLadder(levels, 100, true, true);
+    assertEqual(markLevelFilled(ladder, ladder.levels[0]), true);
+    assert(ladder.breakevenActive, 'SL should move to breakeven');
+    assertEqual(markLevelFilled(ladder, ladder.levels[1]), false);
+    assertEqual(getRemainingLevels(ladder).length, 1);
+  });
+
+  await summary.run('Breakeven can be disabled', async () => {
+    const ladder = createTakeProfitLadder(levels, 100, true, false);
+    assertEqual(markLevelFilled(ladder, ladder.levels[0]), false);
+    assertEqual(ladder.breakevenActive, false);
+  });
+
+  await summary.run('Re-price from a new average entry', async () => {
+    const ladder = createTakeProfitLadder(levels, 100, true, true);
+    repriceTakeProfitLadder(ladder, 90, true);
+    assertClose(ladder.levels[0].price, 90.9, 1e-9);
+    log(`  Levels: ${ladder.levels.map(l => l.price.toFixed(2)).join(', ')}`, colors.gray);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 TP LADDER TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testLadderSettings();
+    await testAllocation();
+    await testLadderState();
+
+    logSection('✨ All TP Ladder Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,220 @@
+#!/usr/bin/env tsx
+
+import {
+  TradeJournal,
+  TradeJournalStore,
+  classifyCloseReason,
+  getFillDirection,
+  calculateUnrealizedPnl,
+  updateExcursions
+} from '../../src/lib/services/tradeJournal';
+import type { LiveTrade } from '../../src/lib/db/liveTradeDb';
+import { LiquidationEvent } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+// Keep journal rows in memory so the tests never open the live_trades table
+function memoryStore(): { rows: Map<number, LiveTrade>; store: TradeJournalStore } {
+  const rows = new Map<number, LiveTrade>();
+  let nextId = 1;
+
+  const store: TradeJournalStore = {
+    getOpenTrades: async () => [],
+    saveTrade: async (trade) => {
+      const id = nextId++;
+      rows.set(id, { ...trade, id });
+      return id;
+    },
+    updateTrade: async (id, updates) => {
+      Object.assign(rows.get(id)!, updates);
+    },
+    closeTrade: async (id, close) => {
+      Object.assign(rows.get(id)!, {
+        status: 'closed',
+        exit_price: close.exitPrice,
+        pnl: close.pnl,
+        fees: close.fees,
+        close_reason: close.closeReason,
+        mae: close.mae,
+        mfe: close.mfe,
+      });
+    },
+  };
+
+  return { rows, store };
+}
+
+function orderEvent(order: Record<string, any>) {
+  return { e: 'ORDER_TRADE_UPDATE', E: Date.now(), o: { s: 'BTCUSDT', ps: 'LONG', N: 'USDT', ...order } };
+}
+
+const liquidation: LiquidationEvent = {
+  symbol: 'BTCUSDT',
+  side: 'SELL',
+  orderType: 'LIMIT',
+  quantity: 2,
+  price: 49900,
+  averagePrice: 49900,
+  orderStatus: 'FILLED',
+  orderLastFilledQuantity: 2,
+  orderFilledAccumulatedQuantity: 2,
+  orderTradeTime: 1000,
+  eventTime: 1000,
+  qty: 2,
+  time: 1000
+};
+
+async function testHelpers() {
+  logSection('Testing Journal Helpers');
+  const summary = new TestSummary();
+
+  await summary.run('Classify close reasons', async () => {
+    assertEqual(classifyCloseReason('STOP_MARKET', 'al_sl_BTCUSDT_1'), 'SL');
+    assertEqual(classifyCloseReason('TAKE_PROFIT_MARKET', 'al_tp_BTCUSDT_L1_1'), 'TP');
+    assertEqual(classifyCloseReason('MARKET', 'al_mtp_BTCUSDT_1'), 'TP');
+    assertEqual(classifyCloseReason('TRAILING_STOP_MARKET', 'al_ts_BTCUSDT_1'), 'TRAILING_STOP');
+    assertEqual(classifyCloseReason('LIQUIDATION', 'autoclose-1700000000'), 'LIQUIDATION');
+    assertEqual(classifyCloseReason('STOP_MARKET', 'al_be_BTCUSDT_1'), 'BREAKEVEN');
+    assertEqual(classifyCloseReason('MARKET', 'al_to_BTCUSDT_1'), 'TIMEOUT');
+    assertEqual(classifyCloseReason('MARKET', 'al_dl_BTCUSDT_1'), 'DELEVERAGE');
+    assertEqual(classifyCloseReason('TAKE_PROFIT_MARKET', 'al_tt_BTCUSDT_1'), 'TIMEOUT');
+    assertEqual(classifyCloseReason('MARKET', 'web_abc'), 'MANUAL');
+  });
+
+  await summary.run('Fill direction in hedge and one-way mode', async () => {
+    assertEqual(getFillDirection('SELL', 'LONG', false).isClose, true);
+    assertEqual(getFillDirection('SELL', 'SHORT', false).isClose, false);
+    const oneWayClose = getFillDirection('SELL', 'BOTH', false, 'LONG');
+    assertEqual(oneWayClose.direction, 'LONG');
+    assertEqual(oneWayClose.isClose, true);
+    assertEqual(getFillDirection('BUY', 'BOTH', false).direction, 'LONG');
+  });
+
+  await summary.run('Excursions only widen', async () => {
+    assertEqual(calculateUnrealizedPnl('SHORT', 100, 2, 95), 10);
+    let excursions = updateExcursions({ mae: 0, mfe: 0 }, -5);
+    excursions = updateExcursions(excursions, 12);
+    excursions = updateExcursions(excursions, 3);
+    assertEqual(excursions.mae, -5);
+    assertEqual(excursions.mfe, 12);
+  });
+
+  summary.print();
+}
+
+async function testLifecycle() {
+  logSection('Testing Trade Lifecycle');
+  const summary = new TestSummary();
+
+  await summary.run('Entry, protection, partial TP and SL close', async () => {
+    const { rows, store } = memoryStore();
+    const journal = new TradeJournal(store);
+    await journal.start();
+
+    const closed: LiveTrade[] = [];
+    journal.on('tradeClosed', trade => closed.push(trade));
+
+    // The fill can arrive before Hunter registers the order
+    journal.handleOrderUpdate(orderEvent({ S: 'BUY', o: 'MARKET', X: 'FILLED', i: 11, l: '2', L: '50000', n: '0.5' }), 10);
+    journal.registerEntryOrder(11, { symbol: 'BTCUSDT', side: 'BUY', liquidation });
+
+    journal.handleOrderUpdate(orderEvent({ S: 'SELL', o: 'STOP_MARKET', X: 'NEW', i: 12, q: '2', sp: '49000', c: 'al_sl_BTCUSDT_1' }), 10);
+    journal.handleOrderUpdate(orderEvent({ S: 'SELL', o: 'TAKE_PROFIT_MARKET', X: 'NEW', i: 13, q: '1', sp: '51000', c: 'al_tp_BTCUSDT_L1_1' }), 10);
+
+    journal.updateMarkPrices([{ symbol: 'BTCUSDT', markPrice: '49500' }]);
+
+    journal.handleOrderUpdate(orderEvent({ S: 'SELL', o: 'TAKE_PROFIT_MARKET', X: 'FILLED', i: 13, l: '1', L: '51000', rp: '1000', n: '0.25', c: 'al_tp_BTCUSDT_L1_1' }), 10);
+    assertEqual(journal.getOpenTrade('BTCUSDT', 'LONG')!.closed_quantity, 1);
+
+    journal.handleOrderUpdate(orderEvent({ S: 'SELL', o: 'STOP_MARKET', X: 'FILLED', i: 12, l: '1', L: '50000', rp: '0', n: '0.25', c: 'al_sl_BTCUSDT_1' }), 10);
+    await journal.flush();
+    journal.stop();
+
+    assertEqual(closed.length, 1);
+    const row = rows.get(1)!;
+    assertEqual(row.status, 'closed');
+    assertEqual(row.close_reason, 'SL');
+    assertEqual(row.liquidation_price, 49900);
+    assertClose(row.exit_price!, 50500, 1e-9);
+    assertClose(row.fees!, 1, 1e-9);
+    assertClose(row.pnl!, 999, 1e-9);
+    assertEqual(row.mae, -1000);
+    assertEqual(row.mfe, 2000);
+
+    const protective = JSON.parse(row.protective_orders!);
+    assertEqual(protective.length, 2);
+    assertEqual(protective[0].role, 'SL');
+    assertEqual(protective[1].status, 'FILLED');
+    log(`  Net PnL: $${row.pnl!.toFixed(2)} (fees $${row.fees!.toFixed(2)})`, colors.gray);
+  });
+
+  await summary.run('Scale-in fills average the entry', async () => {
+    const { rows, store } = memoryStore();
+    const journal = new TradeJournal(store);
+    await journal.start();
+
+    journal.handleOrderUpdate(orderEvent({ ps: 'BOTH', S: 'SELL', o: 'LIMIT', X: 'FILLED', i: 21, l: '1', L: '100' }), 5);
+    journal.handleOrderUpdate(orderEvent({ ps: 'BOTH', S: 'SELL', o: 'LIMIT', X: 'PARTIALLY_FILLED', i: 22, l: '0.5', L: '110' }), 5);
+    journal.handleOrderUpdate(orderEvent({ ps: 'BOTH', S: 'SELL', o: 'LIMIT', X: 'FILLED', i: 22, l: '0.5', L: '110' }), 5);
+    await journal.flush();
+
+    const trade = journal.getOpenTrade('BTCUSDT', 'SHORT')!;
+    assertEqual(trade.quantity, 2);
+    assertEqual(trade.entry_price, 105);
+    assertEqual(JSON.parse(rows.get(1)!.metadata!).adds.length, 1);
+    // Both partial fills of the add order count as one add
+    assertEqual(journal.getAddCount('BTCUSDT', 'SHORT'), 1);
+
+    // A manual reduce-only buy closes the short
+    journal.handleOrderUpdate(orderEvent({ ps: 'BOTH', S: 'BUY', o: 'MARKET', X: 'FILLED', R: true, i: 23, l: '2', L: '100', rp: '10' }), 5);
+    await journal.flush();
+    journal.stop();
+
+    assertEqual(rows.get(1)!.close_reason, 'MANUAL');
+    assert(journal.getOpenTrade('BTCUSDT', 'SHORT') === null, 'Trade should be closed');
+  });
+
+  await summary.run('Liquidation closes are labelled', async () => {
+    const { rows, store } = memoryStore();
+    const journal = new TradeJournal(store);
+    await journal.start();
+
+    journal.handleOrderUpdate(orderEvent({ S: 'BUY', o: 'MARKET', X: 'FILLED', i: 31, l: '1', L: '100' }), 20);
+    journal.handleOrderUpdate(orderEvent({ S: 'SELL', o: 'LIQUIDATION', X: 'FILLED', i: 32, l: '1', L: '95.5', rp: '-4.5', c: 'autoclose-1' }), 20);
+    await journal.flush();
+    journal.stop();
+
+    assertEqual(rows.get(1)!.close_reason, 'LIQUIDATION');
+    assertClose(rows.get(1)!.pnl!, -4.5, 1e-9);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 TRADE JOURNAL TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testHelpers();
+    await testLifecycle();
+
+    logSection('✨ All Trade Journal Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
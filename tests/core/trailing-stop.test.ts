@@ -0,0 +1,131 @@
+#!/usr/bin/env tsx
+
+import {
+  getTrailingStopSettings,
+  usesFixedTakeProfit,
+  createTrailingStopState,
+  updateTrailingStop
+} from '../../src/lib/bot/trailingStop';
+import { SymbolConfig } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const baseConfig: SymbolConfig = {
+  volumeThresholdUSDT: 1000,
+  tradeSize: 20,
+  leverage: 10,
+  tpPercent: 2,
+  slPercent: 1
+};
+
+async function testSettings() {
+  logSection('Testing Trailing Stop Settings');
+  const summary = new TestSummary();
+
+  await summary.run('Disabled by default', async () => {
+    assertEqual(getTrailingStopSettings(baseConfig), null);
+    assertEqual(usesFixedTakeProfit(baseConfig), true);
+  });
+
+  await summary.run('Replace TP by default when enabled', async () => {
+    const settings = getTrailingStopSettings({ ...baseConfig, trailingStopEnabled: true });
+    assertEqual(settings?.replaceTakeProfit, true);
+    assertEqual(settings?.callbackRate, 1);
+    assertEqual(usesFixedTakeProfit({ ...baseConfig, trailingStopEnabled: true }), false);
+  });
+
+  await summary.run('Keep fixed TP in WITH_TP mode', async () => {
+    const config: SymbolConfig = { ...baseConfig, trailingStopEnabled: true, trailingStopMode: 'WITH_TP' };
+    assertEqual(usesFixedTakeProfit(config), true);
+  });
+
+  await summary.run('Clamp callback rate to exchange limits', async () => {
+    assertEqual(getTrailingStopSettings({ ...baseConfig, trailingStopEnabled: true, trailingCallbackRate: 10 })?.callbackRate, 5);
+    assertEqual(getTrailingStopSettings({ ...baseConfig, trailingStopEnabled: true, trailingCallbackRate: 0.01 })?.callbackRate, 0.1);
+  });
+
+  summary.print();
+}
+
+async function testSimulation() {
+  logSection('Testing Trailing Stop Simulation');
+  const summary = new TestSummary();
+  const settings = { activationPercent: 1, callbackRate: 0.5, replaceTakeProfit: true };
+
+  await summary.run('Long: no trigger before activation', async () => {
+    const state = createTrailingStopState(100, true, settings);
+    assertClose(state.activationPrice, 101, 1e-9);
+
+    // A pullback below the extreme must not trigger before activation
+    updateTrailingStop(state, 100.8, true);
+    const result = updateTrailingStop(state, 100.2, true);
+    assertEqual(result.triggered, false);
+    assertEqual(state.activated, false);
+  });
+
+  await summary.run('Long: trail the highest price and trigger on callback', async () => {
+    const state = createTrailingStopState(100, true, settings);
+
+    updateTrailingStop(state, 101.5, true);
+    let result = updateTrailingStop(state, 103, true);
+    assert(state.activated, 'Should activate above 101');
+    assertClose(result.stopPrice, 103 * 0.995, 1e-9);
+
+    result = updateTrailingStop(state, 102.6, true);
+    assertEqual(result.triggered, false);
+
+    result = updateTrailingStop(state, 102.4, true);
+    assertEqual(result.triggered, true);
+    log(`  Stop at ${result.stopPrice.toFixed(4)}`, colors.gray);
+  });
+
+  await summary.run('Short: trail the lowest price and trigger on bounce', async () => {
+    const state = createTrailingStopState(100, false, settings);
+    assertClose(state.activationPrice, 99, 1e-9);
+
+    updateTrailingStop(state, 98, false);
+    let result = updateTrailingStop(state, 97, false);
+    assertClose(result.stopPrice, 97 * 1.005, 1e-9);
+    assertEqual(result.triggered, false);
+
+    result = updateTrailingStop(state, 97.6, false);
+    assertEqual(result.triggered, true);
+  });
+
+  await summary.run('Zero activation trails from entry', async () => {
+    const state = createTrailingStopState(100, true, { ...settings, activationPercent: 0 });
+    const result = updateTrailingStop(state, 99.4, true);
+    assert(state.activated, 'Should be active immediately');
+    assertEqual(result.triggered, true);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 TRAILING STOP TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testSettings();
+    await testSimulation();
+
+    logSection('✨ All Trailing Stop Tests Complete');
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,138 @@
+#!/usr/bin/env tsx
+
+import {
+  getVolatilityStopSettings,
+  calculateATR,
+  resolveProtectionDistances,
+  getSymbolATR
+} from '../../src/lib/bot/volatilityStops';
+import { vwapStreamer } from '../../src/lib/services/vwapStreamer';
+import { SymbolConfig } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const baseConfig: SymbolConfig = {
+  volumeThresholdUSDT: 1000,
+  tradeSize: 20,
+  leverage: 10,
+  tpPercent: 2,
+  slPercent: 1
+};
+
+// Every candle ranges 2 around a flat close of 100, so the ATR is exactly 2
+const flatCandles = Array.from({ length: 20 }, () => ({ high: 101, low: 99, close: 100 }));
+
+async function testATR() {
+  logSection('Testing ATR');
+  const summary = new TestSummary();
+
+  await summary.run('Needs period + 1 candles', async () => {
+    assertEqual(calculateATR(flatCandles.slice(0, 14), 14), null);
+    assertClose(calculateATR(flatCandles.slice(0, 15), 14)!, 2, 1e-9);
+  });
+
+  await summary.run('True range includes gaps from the previous close', async () => {
+    const candles = [
+      { high: 101, low: 99, close: 100 },
+      { high: 106, low: 104, close: 105 },  // Gap up: TR = 106 - 100
+      { high: 105, low: 103, close: 104 }   // TR = 105 - 103
+    ];
+    assertClose(calculateATR(candles, 2)!, 4, 1e-9);
+  });
+
+  await summary.run('Smooths later ranges with Wilder\'s method', async () => {
+    const candles = [...flatCandles.slice(0, 3), { high: 108, low: 100, close: 104 }];
+    // Seed (2 + 2) / 2 = 2, then (2 * 1 + 8) / 2 = 5
+    assertClose(calculateATR(candles, 2)!, 5, 1e-9);
+  });
+
+  summary.print();
+}
+
+async function testDistances() {
+  logSection('Testing Protection Distances');
+  const summary = new TestSummary();
+
+  await summary.run('Fixed percentages unless volatility stops are on', async () => {
+    assertEqual(getVolatilityStopSettings(baseConfig), null);
+    const distances = resolveProtectionDistances(baseConfig, 100, 2);
+    assertEqual(distances.source, 'FIXED');
+    assertEqual(distances.slPercent, 1);
+    assertEqual(distances.tpPercent, 2);
+  });
+
+  await summary.run('Scales SL and TP with the ATR', async () => {
+    const config = { ...baseConfig, volatilityStops: true, slAtrMultiplier: 1.5, tpAtrMultiplier: 2.5 };
+    const distances = resolveProtectionDistances(config, 200, 2);
+    assertEqual(distances.source, 'ATR');
+    assertClose(distances.atrPercent!, 1, 1e-9);
+    assertClose(distances.slPercent, 1.5, 1e-9);
+    assertClose(distances.tpPercent, 2.5, 1e-9);
+  });
+
+  await summary.run('Clamps distances to the min/max percent', async () => {
+    const config = { ...baseConfig, volatilityStops: true, minStopPercent: 0.5, maxStopPercent: 4 };
+    const quiet = resolveProtectionDistances(config, 100, 0.1);
+    const wild = resolveProtectionDistances(config, 100, 5);
+    assertClose(quiet.slPercent, 0.5, 1e-9);
+    assertClose(quiet.tpPercent, 0.5, 1e-9);
+    assertClose(wild.slPercent, 4, 1e-9);
+    assertClose(wild.tpPercent, 4, 1e-9);
+  });
+
+  await summary.run('Falls back to fixed percentages without an ATR', async () => {
+    const config = { ...baseConfig, volatilityStops: true };
+    assertEqual(resolveProtectionDistances(config, 100, null).source, 'FIXED');
+    assertEqual(resolveProtectionDistances(config, 0, 2).source, 'FIXED');
+  });
+
+  summary.print();
+}
+
+async function testStreamedCandles() {
+  logSection('Testing Streamed Candles');
+  const summary = new TestSummary();
+
+  await summary.run('Uses the VWAP streamer buffer for a matching timeframe', async () => {
+    (vwapStreamer as any).symbolConfigs.set('BTCUSDT', { timeframe: '5m', lookback: 100 });
+    (vwapStreamer as any).klineBuffers.set('BTCUSDT', flatCandles.map(candle => ({ ...candle, volume: 1, quoteVolume: 100 })));
+
+    const settings = getVolatilityStopSettings({ ...baseConfig, volatilityStops: true, atrTimeframe: '5m' })!;
+    const atr = await getSymbolATR('BTCUSDT', settings);
+    assert(atr !== null, 'ATR should come from the streamed candles');
+    assertClose(atr!, 2, 1e-9);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 VOLATILITY STOPS TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testATR();
+    await testDistances();
+    await testStreamedCandles();
+
+    logSection('✨ All Volatility Stops Tests Complete');
+    // The rate limit manager behind lib/api keeps timers running
+    process.exit(0);
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,193 @@
+#!/usr/bin/env tsx
+
+import {
+  WalkForwardValidator,
+  WalkForwardMetrics,
+  assessWalkForward,
+  buildWalkForwardWindows,
+  calculateImprovementPercent,
+  WALK_FORWARD_COLLAPSE_EFFICIENCY
+} from '../../src/lib/backtest/walkForward';
+import { symbolPrecision } from '../../src/lib/utils/symbolPrecision';
+import { Config, Kline, LiquidationEvent } from '../../src/lib/types';
+import {
+  TestSummary,
+  logSection,
+  log,
+  colors,
+  assert,
+  assertEqual,
+  assertClose
+} from '../utils/test-helpers';
+
+const START = Date.UTC(2025, 0, 1);
+const MINUTE = 60000;
+const DAY = 24 * 60 * MINUTE;
+
+function createConfig(tpPercent: number): Config {
+  return {
+    api: { apiKey: '', secretKey: '' },
+    symbols: {
+      BTCUSDT: {
+        longVolumeThresholdUSDT: 10000,
+        shortVolumeThresholdUSDT: 10000,
+        leverage: 10,
+        tradeSize: 100,
+        slPercent: 2,
+        tpPercent,
+        orderType: 'MARKET',
+      },
+    },
+    global: {
+      riskPercent: 1,
+      paperMode: true,
+      paperExecution: {
+        makerFeePercent: 0.02,
+        takerFeePercent: 0.04,
+        marketSlippagePercent: 0.1,
+        stopSlippagePercent: 0,
+        takeProfitSlippagePercent: 0,
+      },
+    },
+  } as Config;
+}
+
+function metrics(avgDailyPnl: number): WalkForwardMetrics {
+  return { netPnl: avgDailyPnl * 3, avgDailyPnl, sharpeRatio: 0, maxDrawdown: 0, trades: 3, days: 3 };
+}
+
+// Flat at 100 all day, except a spike to 103 ten minutes after a long liquidation at minute 60
+function buildDay(day: number): { klines: Kline[]; liquidation: LiquidationEvent } {
+  const dayStart = START + day * DAY;
+  const klines: Kline[] = [];
+  for (let minute = 0; minute < 24 * 60; minute++) {
+    const high = minute === 70 ? '103' : '100';
+    const close = minute === 70 ? '103' : '100';
+    klines.push({ openTime: dayStart + minute * MINUTE, open: '100', high, low: '100', close, volume: '10' });
+  }
+
+  const time = dayStart + 60 * MINUTE + 10000;
+  return {
+    klines,
+    liquidation: {
+      symbol: 'BTCUSDT',
+      side: 'SELL',
+      orderType: 'LIMIT',
+      quantity: 200,
+      price: 100,
+      averagePrice: 100,
+      orderStatus: 'FILLED',
+      orderLastFilledQuantity: 200,
+      orderFilledAccumulatedQuantity: 200,
+      orderTradeTime: time,
+      eventTime: time,
+      qty: 200,
+      time,
+    },
+  };
+}
+
+async function testWalkForward() {
+  logSection('Testing Walk-Forward Validation');
+  const summary = new TestSummary();
+
+  symbolPrecision.parseExchangeInfo({
+    symbols: [{
+      symbol: 'BTCUSDT',
+      filters: [
+        { filterType: 'PRICE_FILTER', tickSize: '0.01' },
+        { filterType: 'LOT_SIZE', stepSize: '0.001', minQty: '0.001', maxQty: '100000' },
+      ],
+    }],
+  });
+
+  await summary.run('Windows roll forward by the test length and stop at the end of history', async () => {
+    const windows = buildWalkForwardWindows(START, START + 7 * DAY, { trainDays: 4, testDays: 1 });
+    assertEqual(windows.length, 3);
+    assertEqual(windows[0].trainEnd, START + 4 * DAY);
+    assertEqual(windows[0].testStart, windows[0].trainEnd);
+    assertEqual(windows[2].testEnd, START + 7 * DAY);
+
+    assertEqual(buildWalkForwardWindows(START, START + 7 * DAY, { trainDays: 3, testDays: 1, stepDays: 2 }).length, 2);
+    assertEqual(buildWalkForwardWindows(START, START + 4 * DAY, { trainDays: 4, testDays: 1 }).length, 0);
+
+    let threw = false;
+    try {
+      buildWalkForwardWindows(START, START + 7 * DAY, { trainDays: 0, testDays: 1 });
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'Zero-day training windows should be rejected');
+  });
+
+  await summary.run('Improvement is the change in daily PnL, as the optimizer reports it', async () => {
+    assertClose(calculateImprovementPercent(metrics(10), metrics(15))!, 50, 1e-9);
+    assertClose(calculateImprovementPercent(metrics(-10), metrics(5))!, 150, 1e-9);
+    assertEqual(calculateImprovementPercent(metrics(0), metrics(5)), null);
+  });
+
+  await summary.run('Out-of-sample losses and weak efficiency count as a collapse', async () => {
+    const loss = assessWalkForward(metrics(10), metrics(-2));
+    assert(loss.collapsed, 'An out-of-sample loss should collapse');
+    assert(!!loss.warning, 'A collapse should come with a warning');
+
+    const weak = assessWalkForward(metrics(10), metrics(10 * WALK_FORWARD_COLLAPSE_EFFICIENCY - 1));
+    assert(weak.collapsed, 'Efficiency below the limit should collapse');
+
+    const holds = assessWalkForward(metrics(10), metrics(8));
+    assert(!holds.collapsed, 'Efficiency of 80% should hold up');
+    assertClose(holds.efficiency!, 0.8, 1e-9);
+
+    const unprofitable = assessWalkForward(metrics(-5), metrics(-5));
+    assertEqual(unprofitable.efficiency, null);
+    assert(!unprofitable.collapsed, 'Without in-sample profit there is nothing to collapse from');
+  });
+
+  await summary.run('The optimizer\'s settings are scored against the current ones on the unseen day', async () => {
+    const days = [0, 1, 2].map(buildDay);
+    // The current 5% target is never reached; the optimizer's 2% target catches the 3% spike
+    const validator = new WalkForwardValidator(createConfig(5), createConfig(2), { trainDays: 2, testDays: 1 });
+    const report = await validator.run({
+      liquidations: days.map(day => day.liquidation),
+      klines: { BTCUSDT: days.flatMap(day => day.klines) },
+    }, START, START + 3 * DAY);
+
+    assertEqual(report.windows.length, 1);
+    assertEqual(report.inSample.days, 2);
+    assertEqual(report.inSample.trades, 2);
+    assertEqual(report.outOfSample.days, 1);
+    assertEqual(report.outOfSample.trades, 1);
+    assertEqual(report.baseline.trades, 1);
+    assert(report.outOfSample.netPnl > 0, 'The unseen day repeats the pattern and should be profitable');
+    assert(report.baseline.netPnl < report.outOfSample.netPnl, 'The current settings should trail the optimized ones');
+    assertClose(report.improvementPercent!, calculateImprovementPercent(report.baseline, report.outOfSample)!, 1e-9);
+    assert(report.improvementPercent! > 0, 'The improvement should be positive');
+    assertClose(report.efficiency!, 1, 1e-9);
+    assert(!report.collapsed, 'Identical days should not collapse');
+    log(`  Out-of-sample improvement: ${report.improvementPercent!.toFixed(1)}%`, colors.gray);
+  });
+
+  summary.print();
+}
+
+async function main() {
+  console.clear();
+  log('🧪 WALK-FORWARD TEST SUITE', colors.cyan + colors.bold);
+  log('=' .repeat(60), colors.cyan);
+
+  try {
+    await testWalkForward();
+
+    logSection('✨ All Walk-Forward Tests Complete');
+    // The liquidation storage import keeps the database open
+    process.exit(0);
+  } catch (error) {
+    logSection('❌ Test Suite Failed');
+    console.error(error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -48,6 +48,32 @@ async function main() {
 
   const tests = [
     { file: 'tests/core/hunter.test.ts', name: 'Hunter' },
+    { file: 'tests/core/signal-strategy.test.ts', name: 'Signal Strategy' },
+    { file: 'tests/core/hunter-thresholds.test.ts', name: 'Hunter Thresholds' },
+    { file: 'tests/core/liquidation-replay.test.ts', name: 'Liquidation Replay' },
+    { file: 'tests/core/position-sizing.test.ts', name: 'Position Sizing' },
+    { file: 'tests/core/risk-guard.test.ts', name: 'Risk Guard' },
+    { file: 'tests/core/order-heartbeat.test.ts', name: 'Order Heartbeat' },
+    { file: 'tests/core/trailing-stop.test.ts', name: 'Trailing Stop' },
+    { file: 'tests/core/tp-ladder.test.ts', name: 'TP Ladder' },
+    { file: 'tests/core/position-manager-ladder.test.ts', name: 'Position Manager TP Ladder' },
+    { file: 'tests/core/scale-in.test.ts', name: 'Scale-In' },
+    { file: 'tests/core/order-book-filter.test.ts', name: 'Order Book Filter' },
+    { file: 'tests/core/funding-filter.test.ts', name: 'Funding Filter' },
+    { file: 'tests/core/volatility-stops.test.ts', name: 'Volatility Stops' },
+    { file: 'tests/core/exit-rules.test.ts', name: 'Exit Rules' },
+    { file: 'tests/core/exposure-limits.test.ts', name: 'Exposure Limits' },
+    { file: 'tests/core/liquidation-guard.test.ts', name: 'Liquidation Guard' },
+    { file: 'tests/core/paper-execution.test.ts', name: 'Paper Execution' },
+    { file: 'tests/core/shadow-mode.test.ts', name: 'Shadow Mode' },
+    { file: 'tests/core/paper-accounts.test.ts', name: 'Paper Accounts' },
+    { file: 'tests/core/backtester.test.ts', name: 'Backtester' },
+    { file: 'tests/core/walk-forward.test.ts', name: 'Walk-Forward Validation' },
+    { file: 'tests/core/adaptive-thresholds.test.ts', name: 'Adaptive Thresholds' },
+    { file: 'tests/core/trade-journal.test.ts', name: 'Trade Journal' },
+    { file: 'tests/core/order-tracking.test.ts', name: 'Order Tracking Persistence' },
+    { file: 'tests/core/exchange-simulator.test.ts', name: 'Exchange Simulator' },
+    { file: 'tests/core/market-data-hub.test.ts', name: 'Market Data Hub' },
     { file: 'tests/core/position-manager.test.ts', name: 'Position Manager' },
     { file: 'tests/core/rate-limit.test.ts', name: 'Rate Limit' },
     { file: 'tests/core/websocket.test.ts', name: 'WebSocket' },